@@ -130,6 +130,9 @@ function makeClassifiedProposal(overrides: Partial<ClassifiedProposal> = {}): Cl
     title: 'Test Proposal',
     abstract: null,
     withdrawalAmountAda: 500_000,
+    withdrawalAddresses: [],
+    authors: [],
+    references: [],
     treasuryTier: 'routine',
     paramChanges: null,
     relevantPrefs: ['treasury-conservative', 'smart-treasury-growth'],
@@ -0,0 +1,287 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchAnchorContent, blake2b256 } from '@/lib/anchors/fetch';
+import { candidateUrls, ipfsPath } from '@/lib/anchors/gateways';
+import { createHostLimiter } from '@/lib/anchors/limiter';
+import { fetchAnchor } from '@/lib/anchors';
+
+type Row = Record<string, unknown>;
+const tables: Record<string, Row[]> = { anchor_content_cache: [], anchor_fetch_queue: [] };
+
+/** Just enough of the Supabase query builder for lib/anchors */
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: () => ({
+    from: (table: string) => {
+      const filters: Array<[string, unknown]> = [];
+      const query = {
+        select: () => query,
+        eq: (col: string, value: unknown) => {
+          filters.push([col, value]);
+          return query;
+        },
+        maybeSingle: async () => ({
+          data: tables[table].find((r) => filters.every(([c, v]) => r[c] === v)) ?? null,
+        }),
+        upsert: async (row: Row, opts: { onConflict: string }) => {
+          const key = opts.onConflict;
+          const i = tables[table].findIndex((r) => r[key] === row[key]);
+          if (i >= 0) tables[table][i] = { ...tables[table][i], ...row };
+          else tables[table].push(row);
+          return { error: null };
+        },
+      };
+      return query;
+    },
+  }),
+}));
+
+const GATEWAYS = ['https://gw-a.test', 'https://gw-b.test'];
+const BODY = '{"body":{"comment":"rationale"}}';
+const BODY_HASH = blake2b256(new TextEncoder().encode(BODY));
+
+type Route = { status?: number; body?: string; delayMs?: number; headers?: Record<string, string> };
+
+function stubFetch(routes: Record<string, Route>) {
+  const calls: string[] = [];
+  vi.stubGlobal(
+    'fetch',
+    vi.fn((url: string, init?: RequestInit) => {
+      calls.push(url);
+      const route = routes[new URL(url).host];
+      if (!route) return Promise.reject(new Error(`no route for ${url}`));
+      return new Promise<Response>((resolve, reject) => {
+        const timer = setTimeout(
+          () =>
+            resolve(
+              new Response(route.body ?? '', {
+                status: route.status ?? 200,
+                headers: route.headers,
+              }),
+            ),
+          route.delayMs ?? 0,
+        );
+        init?.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new DOMException('aborted', 'AbortError'));
+        });
+      });
+    }),
+  );
+  return calls;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('ipfsPath', () => {
+  it('should extract the cid from ipfs:// URLs', () => {
+    expect(ipfsPath('ipfs://bafyabc')).toBe('bafyabc');
+    expect(ipfsPath('ipfs://ipfs/bafyabc/meta.json')).toBe('bafyabc/meta.json');
+  });
+
+  it('should extract the cid from gateway URLs', () => {
+    expect(ipfsPath('https://ipfs.io/ipfs/Qmabc')).toBe('Qmabc');
+  });
+
+  it('should return null for location-addressed URLs', () => {
+    expect(ipfsPath('https://example.com/rationale.json')).toBeNull();
+    expect(ipfsPath('ipfs://')).toBeNull();
+  });
+});
+
+describe('candidateUrls', () => {
+  it('should expand ipfs:// anchors across every gateway', () => {
+    expect(candidateUrls('ipfs://bafyabc', GATEWAYS)).toEqual([
+      'https://gw-a.test/ipfs/bafyabc',
+      'https://gw-b.test/ipfs/bafyabc',
+    ]);
+  });
+
+  it('should keep the original gateway first when the anchor is a gateway URL', () => {
+    expect(candidateUrls('https://gw-b.test/ipfs/bafyabc', GATEWAYS)).toEqual([
+      'https://gw-b.test/ipfs/bafyabc',
+      'https://gw-a.test/ipfs/bafyabc',
+    ]);
+  });
+
+  it('should return plain URLs unchanged', () => {
+    expect(candidateUrls('https://example.com/r.json', GATEWAYS)).toEqual([
+      'https://example.com/r.json',
+    ]);
+  });
+});
+
+describe('createHostLimiter', () => {
+  it('should cap concurrent tasks per host when more are queued', async () => {
+    const limiter = createHostLimiter(2);
+    let peak = 0;
+    const task = () =>
+      new Promise<void>((resolve) => {
+        peak = Math.max(peak, limiter.active('a'));
+        setTimeout(resolve, 5);
+      });
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run('a', task)));
+    expect(peak).toBe(2);
+    expect(limiter.active('a')).toBe(0);
+  });
+
+  it('should not block other hosts when one host is saturated', async () => {
+    const limiter = createHostLimiter(1);
+    let release: () => void = () => {};
+    const blocked = limiter.run('a', () => new Promise<void>((r) => (release = r)));
+    await expect(limiter.run('b', async () => 'done')).resolves.toBe('done');
+    release();
+    await blocked;
+  });
+});
+
+describe('fetchAnchorContent', () => {
+  it('should return verified content from a faster gateway when the first is slow', async () => {
+    stubFetch({
+      'gw-a.test': { body: BODY, delayMs: 200 },
+      'gw-b.test': { body: BODY },
+    });
+    const result = await fetchAnchorContent('ipfs://bafyabc', {
+      gateways: GATEWAYS,
+      expectedHash: BODY_HASH,
+      hedgeDelayMs: 10,
+    });
+    expect(result.status).toBe('ok');
+    expect(result.url).toBe('https://gw-b.test/ipfs/bafyabc');
+    expect(result.hashVerified).toBe(true);
+    expect(result.text).toBe(BODY);
+  });
+
+  it('should fall through to the next gateway when content fails hash verification', async () => {
+    stubFetch({
+      'gw-a.test': { body: '{"tampered":true}' },
+      'gw-b.test': { body: BODY },
+    });
+    const result = await fetchAnchorContent('ipfs://bafyabc', {
+      gateways: GATEWAYS,
+      expectedHash: BODY_HASH,
+      hedgeDelayMs: 1000,
+    });
+    expect(result.status).toBe('ok');
+    expect(result.contentHash).toBe(BODY_HASH);
+  });
+
+  it('should report hash_mismatch when no gateway serves matching content', async () => {
+    stubFetch({
+      'gw-a.test': { body: '{"tampered":true}' },
+      'gw-b.test': { status: 404 },
+    });
+    const result = await fetchAnchorContent('ipfs://bafyabc', {
+      gateways: GATEWAYS,
+      expectedHash: BODY_HASH,
+      hedgeDelayMs: 10,
+    });
+    expect(result.status).toBe('hash_mismatch');
+    expect(result.hashVerified).toBe(false);
+    expect(result.text).toBe('{"tampered":true}');
+  });
+
+  it('should report not_found when every gateway returns 404', async () => {
+    stubFetch({ 'gw-a.test': { status: 404 }, 'gw-b.test': { status: 410 } });
+    const result = await fetchAnchorContent('ipfs://bafyabc', {
+      gateways: GATEWAYS,
+      hedgeDelayMs: 10,
+    });
+    expect(result.status).toBe('not_found');
+    expect(result.text).toBeNull();
+  });
+
+  it('should report too_large when the body exceeds the byte limit', async () => {
+    stubFetch({ 'example.com': { body: 'x'.repeat(100) } });
+    const result = await fetchAnchorContent('https://example.com/r.json', { maxBytes: 50 });
+    expect(result.status).toBe('too_large');
+  });
+
+  it('should stop reading at the byte limit when the body has no content-length', async () => {
+    let pulled = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(16).fill(120));
+      },
+    });
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(endless)),
+    );
+
+    const result = await fetchAnchorContent('https://example.com/r.json', { maxBytes: 50 });
+
+    expect(result.status).toBe('too_large');
+    expect(pulled).toBeLessThan(10);
+  });
+
+  it('should report timeout when the host does not respond in time', async () => {
+    stubFetch({ 'example.com': { body: BODY, delayMs: 500 } });
+    const result = await fetchAnchorContent('https://example.com/r.json', { timeoutMs: 20 });
+    expect(result.status).toBe('timeout');
+  });
+
+  it('should leave hashVerified null when no expected hash is given', async () => {
+    stubFetch({ 'example.com': { body: BODY } });
+    const result = await fetchAnchorContent('https://example.com/r.json');
+    expect(result.status).toBe('ok');
+    expect(result.hashVerified).toBeNull();
+    expect(result.contentHash).toBe(BODY_HASH);
+  });
+});
+
+describe('fetchAnchor', () => {
+  const URL_ = 'https://drep.example/metadata.json';
+  const FIXED = '{"body":{"comment":"fixed"}}';
+  const FIXED_HASH = blake2b256(new TextEncoder().encode(FIXED));
+
+  afterEach(() => {
+    tables.anchor_content_cache = [];
+    tables.anchor_fetch_queue = [];
+  });
+
+  it('should refetch a URL when its content changed under a new on-chain hash', async () => {
+    // First seen with a hash that never matched what the URL served
+    tables.anchor_content_cache.push({ content_hash: BODY_HASH, content: BODY });
+    tables.anchor_fetch_queue.push({
+      url: URL_,
+      expected_hash: 'ab'.repeat(32),
+      status: 'mismatch',
+      content_hash: BODY_HASH,
+      attempts: 1,
+      next_attempt_at: null,
+    });
+    const calls = stubFetch({ 'drep.example': { body: FIXED } });
+
+    const result = await fetchAnchor(URL_, { expectedHash: FIXED_HASH });
+
+    expect(calls).toHaveLength(1);
+    expect(result).toMatchObject({ status: 'ok', hashVerified: true, fromCache: false });
+    expect(tables.anchor_fetch_queue[0]).toMatchObject({
+      status: 'ok',
+      expected_hash: FIXED_HASH,
+      content_hash: FIXED_HASH,
+    });
+  });
+
+  it('should serve cached content when the URL was verified for the same hash', async () => {
+    tables.anchor_content_cache.push({ content_hash: BODY_HASH, content: BODY });
+    tables.anchor_fetch_queue.push({
+      url: URL_,
+      expected_hash: null,
+      status: 'ok',
+      content_hash: BODY_HASH,
+      attempts: 1,
+      next_attempt_at: null,
+    });
+    const calls = stubFetch({});
+
+    const result = await fetchAnchor(URL_);
+
+    expect(calls).toHaveLength(0);
+    expect(result).toMatchObject({ status: 'ok', text: BODY, fromCache: true });
+  });
+});
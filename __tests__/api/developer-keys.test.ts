@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+import { keyAllowsEndpoint, scopeForEndpoint } from '@/lib/api/keys';
+import { percentile, summarizeApiUsage, type ApiUsageRow } from '@/lib/api/usageStats';
+
+function row(minute: number, status: number, ms: number | null = 100): ApiUsageRow {
+  return {
+    created_at: new Date(Date.UTC(2026, 0, 1, 0, minute)).toISOString(),
+    endpoint: '/v1/dreps',
+    status_code: status,
+    response_ms: ms,
+  };
+}
+
+describe('API key scopes', () => {
+  it('should map normalized endpoints to their scope', () => {
+    expect(scopeForEndpoint('/v1/dreps/:id')).toBe('dreps');
+    expect(scopeForEndpoint('/v1/governance/health')).toBe('governance');
+    expect(scopeForEndpoint('/v1/unknown')).toBeNull();
+  });
+
+  it('should allow every endpoint when a key has no scopes', () => {
+    expect(keyAllowsEndpoint({ scopes: null }, '/v1/treasury/current')).toBe(true);
+  });
+
+  it('should block endpoints outside a scoped key', () => {
+    expect(keyAllowsEndpoint({ scopes: ['dreps'] }, '/v1/dreps')).toBe(true);
+    expect(keyAllowsEndpoint({ scopes: ['dreps'] }, '/v1/proposals/:id')).toBe(false);
+  });
+});
+
+describe('percentile', () => {
+  it('should use nearest-rank on sorted input', () => {
+    const sorted = Array.from({ length: 100 }, (_, i) => i + 1);
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 95)).toBe(95);
+    expect(percentile(sorted, 99)).toBe(99);
+  });
+
+  it('should return null for no samples', () => {
+    expect(percentile([], 95)).toBeNull();
+  });
+});
+
+describe('summarizeApiUsage', () => {
+  const from = new Date(Date.UTC(2026, 0, 1, 0, 0));
+  const to = new Date(Date.UTC(2026, 0, 1, 2, 30));
+
+  it('should separate rate-limit hits from errors', () => {
+    const summary = summarizeApiUsage(
+      [row(1, 200), row(2, 500), row(3, 429, 1), row(4, 404)],
+      from,
+      to,
+      'hour',
+    );
+    expect(summary.totals.requests).toBe(4);
+    expect(summary.totals.errors).toBe(2);
+    expect(summary.totals.rateLimitHits).toBe(1);
+    expect(summary.totals.errorRate).toBe(0.5);
+  });
+
+  it('should exclude rate-limited requests from latency percentiles', () => {
+    const summary = summarizeApiUsage(
+      [row(1, 200, 50), row(2, 200, 150), row(3, 429, 1)],
+      from,
+      to,
+      'hour',
+    );
+    expect(summary.totals.p50Ms).toBe(50);
+    expect(summary.totals.p99Ms).toBe(150);
+  });
+
+  it('should emit a bucket for every period in range, including empty ones', () => {
+    const summary = summarizeApiUsage([row(5, 200), row(125, 200)], from, to, 'hour');
+    expect(summary.series.map((b) => b.requests)).toEqual([1, 0, 1]);
+    expect(summary.series[1].p95Ms).toBeNull();
+  });
+
+  it('should ignore rows outside the window', () => {
+    const summary = summarizeApiUsage([row(5, 200), row(60 * 24, 200)], from, to, 'day');
+    expect(summary.totals.requests).toBe(1);
+  });
+});
@@ -127,4 +127,118 @@ describe('GET /api/v1/dreps', () => {
     expect(body.pagination.offset).toBe(1);
     expect(body.pagination.has_more).toBe(true);
   });
+
+  describe('cursor pagination, filters and projection', () => {
+    const many = Array(5)
+      .fill(null)
+      .map((_, i) => ({
+        ...fakeDrep,
+        drepId: `drep1page${i}`,
+        name: `DRep ${i}`,
+        drepScore: 90 - i * 10,
+        votingPowerLovelace: String((i + 1) * 1_000_000_000),
+        sizeTier: i < 2 ? 'Small' : 'Large',
+      }));
+
+    beforeEach(() => {
+      mockGetAllDReps.mockResolvedValue({
+        dreps: many,
+        allDReps: many,
+        error: null,
+        totalAvailable: many.length,
+      });
+    });
+
+    it('should not skip or duplicate rows when the list re-sorts between pages', async () => {
+      const first = (await parseJson(await GET(createRequest('/api/v1/dreps?limit=2')))) as any;
+      expect(first.data.map((d: any) => d.drep_id)).toEqual(['drep1page0', 'drep1page1']);
+      expect(first.pagination.prev_cursor).toBeNull();
+
+      // A new DRep lands at the top after a sync; offset paging would now repeat drep1page1
+      mockGetAllDReps.mockResolvedValue({
+        dreps: [{ ...fakeDrep, drepId: 'drep1new', drepScore: 99 }, ...many],
+        allDReps: [],
+        error: null,
+        totalAvailable: 6,
+      });
+      const cursor = encodeURIComponent(first.pagination.next_cursor);
+      const second = (await parseJson(
+        await GET(createRequest(`/api/v1/dreps?limit=2&cursor=${cursor}`)),
+      )) as any;
+
+      expect(second.data.map((d: any) => d.drep_id)).toEqual(['drep1page2', 'drep1page3']);
+      expect(second.pagination.offset).toBe(3);
+      expect(second.pagination.prev_cursor).toEqual(expect.any(String));
+    });
+
+    it('should page backwards with prev_cursor', async () => {
+      const page = (await parseJson(
+        await GET(createRequest('/api/v1/dreps?limit=2&offset=2')),
+      )) as any;
+      const cursor = encodeURIComponent(page.pagination.prev_cursor);
+      const prev = (await parseJson(
+        await GET(createRequest(`/api/v1/dreps?limit=2&cursor=${cursor}`)),
+      )) as any;
+
+      expect(prev.data.map((d: any) => d.drep_id)).toEqual(['drep1page0', 'drep1page1']);
+      expect(prev.pagination.prev_cursor).toBeNull();
+    });
+
+    it('should reject a cursor reused with a different sort', async () => {
+      const first = (await parseJson(await GET(createRequest('/api/v1/dreps?limit=2')))) as any;
+      const cursor = encodeURIComponent(first.pagination.next_cursor);
+      const res = await GET(createRequest(`/api/v1/dreps?sort=name&cursor=${cursor}`));
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject a malformed cursor', async () => {
+      const res = await GET(createRequest('/api/v1/dreps?cursor=not-a-cursor'));
+      expect(res.status).toBe(400);
+    });
+
+    it('should apply range and tier filters together', async () => {
+      const res = await GET(
+        createRequest('/api/v1/dreps?min_score=55&max_voting_power=3000000000&size_tier=large'),
+      );
+      const body = (await parseJson(res)) as any;
+
+      expect(body.data.map((d: any) => d.drep_id)).toEqual(['drep1page2']);
+      expect(body.pagination.total).toBe(1);
+    });
+
+    it('should reject a non-numeric range bound', async () => {
+      const res = await GET(createRequest('/api/v1/dreps?min_score=high'));
+      expect(res.status).toBe(400);
+    });
+
+    it('should sort by multiple keys', async () => {
+      mockGetAllDReps.mockResolvedValue({
+        dreps: [
+          { ...fakeDrep, drepId: 'drep1b', name: 'Bob', drepScore: 70 },
+          { ...fakeDrep, drepId: 'drep1c', name: 'Carol', drepScore: 80 },
+          { ...fakeDrep, drepId: 'drep1a', name: 'Alice', drepScore: 70 },
+        ],
+        allDReps: [],
+        error: null,
+        totalAvailable: 3,
+      });
+      const res = await GET(createRequest('/api/v1/dreps?sort=score:desc,name:asc'));
+      const body = (await parseJson(res)) as any;
+
+      expect(body.data.map((d: any) => d.name)).toEqual(['Carol', 'Alice', 'Bob']);
+    });
+
+    it('should project only the requested fields plus drep_id', async () => {
+      const res = await GET(createRequest('/api/v1/dreps?fields=score,name&limit=1'));
+      const body = (await parseJson(res)) as any;
+
+      expect(Object.keys(body.data[0]).sort()).toEqual(['drep_id', 'name', 'score']);
+    });
+
+    it('should reject unknown projection fields', async () => {
+      const res = await GET(createRequest('/api/v1/dreps?fields=score,secret'));
+      expect(res.status).toBe(400);
+    });
+  });
 });
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { voteCalls } = vi.hoisted(() => ({ voteCalls: [] as unknown[][] }));
+
+vi.mock('@meshsdk/core', () => ({
+  KoiosProvider: class {},
+  BrowserWallet: class {},
+  MeshTxBuilder: class {
+    vote(...args: unknown[]) {
+      voteCalls.push(args);
+      return this;
+    }
+    changeAddress() {
+      return this;
+    }
+    selectUtxosFrom() {
+      return this;
+    }
+    async complete() {
+      return 'unsigned-tx';
+    }
+  },
+}));
+
+import { castVotes, MAX_BATCH_VOTES, VoteError, type BatchVoteItem } from '@/lib/voting';
+import { BatchVoteRecordSchema } from '@/lib/api/schemas/drep';
+
+const DREP_ID = 'drep1keyhashcredential';
+const hashFor = (n: number) => n.toString(16).padStart(64, '0');
+const item = (n: number, extra: Partial<BatchVoteItem> = {}): BatchVoteItem => ({
+  target: { txHash: hashFor(n), txIndex: 0 },
+  vote: 'Yes',
+  ...extra,
+});
+
+function mockWallet() {
+  return {
+    getUtxos: vi.fn().mockResolvedValue([{ input: {}, output: {} }]),
+    getChangeAddress: vi.fn().mockResolvedValue('addr_test1change'),
+    signTx: vi.fn().mockResolvedValue('signed-tx'),
+    submitTx: vi.fn().mockResolvedValue('f'.repeat(64)),
+  } as unknown as Parameters<typeof castVotes>[0];
+}
+
+describe('castVotes', () => {
+  beforeEach(() => {
+    voteCalls.length = 0;
+  });
+
+  it('should put every vote into one signed transaction when the batch is valid', async () => {
+    const wallet = mockWallet();
+    const phases: string[] = [];
+    const items = [
+      item(1, { anchorUrl: 'https://x.io/r.json', anchorHash: 'ab'.repeat(32) }),
+      item(2, { vote: 'No' }),
+      item(3, { vote: 'Abstain' }),
+    ];
+
+    const result = await castVotes(wallet, items, 'drep', DREP_ID, {
+      onPhase: (p) => phases.push(p),
+    });
+
+    expect(voteCalls).toHaveLength(3);
+    expect(voteCalls[0]).toEqual([
+      { type: 'DRep', drepId: DREP_ID },
+      { txHash: hashFor(1), txIndex: 0 },
+      {
+        voteKind: 'Yes',
+        anchor: { anchorUrl: 'https://x.io/r.json', anchorDataHash: 'ab'.repeat(32) },
+      },
+    ]);
+    expect(voteCalls[1][2]).toEqual({ voteKind: 'No' });
+    expect(wallet.signTx).toHaveBeenCalledTimes(1);
+    expect(wallet.submitTx).toHaveBeenCalledTimes(1);
+    expect(phases).toEqual(['building', 'signing', 'submitting']);
+    expect(result.votes.map((v) => [v.govActionTxHash, v.vote, v.txHash])).toEqual([
+      [hashFor(1), 'Yes', result.txHash],
+      [hashFor(2), 'No', result.txHash],
+      [hashFor(3), 'Abstain', result.txHash],
+    ]);
+  });
+
+  it('should refuse to build when the batch is empty, too large or repeats a proposal', async () => {
+    const wallet = mockWallet();
+    const oversized = Array.from({ length: MAX_BATCH_VOTES + 1 }, (_, i) => item(i + 1));
+
+    await expect(castVotes(wallet, [], 'drep', DREP_ID)).rejects.toBeInstanceOf(VoteError);
+    await expect(castVotes(wallet, oversized, 'drep', DREP_ID)).rejects.toThrow(
+      `1 to ${MAX_BATCH_VOTES} votes`,
+    );
+    await expect(
+      castVotes(wallet, [item(1), item(1, { vote: 'No' })], 'drep', DREP_ID),
+    ).rejects.toThrow('same proposal twice');
+    expect(voteCalls).toHaveLength(0);
+    expect(wallet.signTx).not.toHaveBeenCalled();
+  });
+
+  it('should report insufficient funds when the wallet has no UTXOs', async () => {
+    const wallet = mockWallet();
+    vi.mocked(wallet.getUtxos).mockResolvedValue([]);
+
+    await expect(castVotes(wallet, [item(1)], 'drep', DREP_ID)).rejects.toMatchObject({
+      code: 'insufficient_funds',
+    });
+  });
+});
+
+describe('BatchVoteRecordSchema', () => {
+  const vote = { proposalTxHash: hashFor(1), proposalIndex: 0, vote: 'Yes' };
+
+  it('should accept a recorded batch when it stays within the batch limit', () => {
+    const parsed = BatchVoteRecordSchema.safeParse({ txHash: hashFor(9), votes: [vote] });
+    expect(parsed.success).toBe(true);
+  });
+
+  it('should reject records when they exceed the batch limit or carry a bad hash', () => {
+    const votes = Array.from({ length: MAX_BATCH_VOTES + 1 }, () => vote);
+    expect(BatchVoteRecordSchema.safeParse({ txHash: hashFor(9), votes }).success).toBe(false);
+    expect(BatchVoteRecordSchema.safeParse({ txHash: 'abc', votes: [vote] }).success).toBe(false);
+  });
+});
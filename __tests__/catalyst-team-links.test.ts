@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import {
+  accountKey,
+  buildCatalystIndex,
+  resolveTeamLinks,
+  siteKey,
+  type CatalystMemberIdentity,
+  type TreasuryProposalIdentity,
+} from '@/lib/catalyst/resolve';
+import { summarizeTrackRecord, type TrackRecordProject } from '@/lib/catalyst/trackRecord';
+import { classifyProposal } from '@/lib/alignment';
+import type { ProposalInfo } from '@/types/koios';
+
+function member(
+  id: string,
+  overrides: Partial<CatalystMemberIdentity> = {},
+): CatalystMemberIdentity {
+  return {
+    id,
+    name: null,
+    username: null,
+    twitter: null,
+    linkedin: null,
+    telegram: null,
+    ...overrides,
+  };
+}
+
+function proposal(overrides: Partial<TreasuryProposalIdentity> = {}): TreasuryProposalIdentity {
+  return {
+    title: 'Treasury withdrawal',
+    abstract: null,
+    authors: [],
+    references: [],
+    ...overrides,
+  };
+}
+
+const MEMBERS = [
+  member('m-ada', { name: 'Ada Lovelace', username: 'ada_l', twitter: '@AdaBuilds' }),
+  member('m-bob', { name: 'Bob Marley', linkedin: 'https://www.linkedin.com/in/bob-marley/' }),
+  member('m-eve', { name: 'Eve', telegram: 'https://t.me/eve_tg' }),
+  ...['m-j1', 'm-j2', 'm-j3', 'm-j4'].map((id) => member(id, { name: 'John Smith' })),
+];
+
+const PROJECTS = [
+  { id: 'p-1', website: 'https://www.dripdropz.io/about', teamMemberIds: ['m-bob', 'm-eve'] },
+  { id: 'p-2', website: 'https://github.com/AdaLabs/sdk', teamMemberIds: ['m-ada'] },
+  { id: 'p-3', website: 'https://forum.cardano.org/t/1234', teamMemberIds: ['m-eve'] },
+];
+
+const INDEX = buildCatalystIndex(MEMBERS, PROJECTS);
+
+describe('identity keys', () => {
+  it('should reduce profile URLs to platform handles', () => {
+    expect(accountKey('https://x.com/AdaBuilds/status/1')).toBe('twitter:adabuilds');
+    expect(accountKey('linkedin.com/in/Bob-Marley')).toBe('linkedin:bob-marley');
+    expect(accountKey('https://example.org/team')).toBeNull();
+  });
+
+  it('should ignore hosts shared by unrelated projects', () => {
+    expect(siteKey('https://forum.cardano.org/t/1234')).toBeNull();
+    expect(siteKey('https://www.dripdropz.io/')).toBe('dripdropz.io');
+    expect(siteKey('https://github.com/AdaLabs/sdk')).toBe('github:adalabs');
+  });
+});
+
+describe('resolveTeamLinks', () => {
+  it('should link a member through an account in the references', () => {
+    const links = resolveTeamLinks(
+      proposal({ references: ['https://twitter.com/adabuilds'] }),
+      INDEX,
+    );
+    expect(links).toEqual([{ teamMemberId: 'm-ada', confidence: 0.9, signals: ['handle'] }]);
+  });
+
+  it('should credit the whole team of a project whose website is referenced', () => {
+    const links = resolveTeamLinks(
+      proposal({ abstract: 'Roadmap at https://dripdropz.io/roadmap.' }),
+      INDEX,
+    );
+    expect(links.map((l) => l.teamMemberId)).toEqual(['m-bob', 'm-eve']);
+    expect(links.every((l) => l.signals[0] === 'website')).toBe(true);
+  });
+
+  it('should treat a project GitHub organisation as the team account', () => {
+    const links = resolveTeamLinks(proposal({ references: ['https://github.com/adalabs'] }), INDEX);
+    expect(links).toEqual([{ teamMemberId: 'm-ada', confidence: 0.9, signals: ['handle'] }]);
+  });
+
+  it('should combine signals as independent evidence', () => {
+    const [link] = resolveTeamLinks(
+      proposal({ authors: ['Ada Lovelace'], references: ['https://x.com/adabuilds'] }),
+      INDEX,
+    );
+    expect(link).toEqual({
+      teamMemberId: 'm-ada',
+      confidence: 0.96,
+      signals: ['handle', 'author'],
+    });
+  });
+
+  it('should not store a mention on its own', () => {
+    const weak = resolveTeamLinks(proposal({ abstract: 'Led by Ada Lovelace.' }), INDEX);
+    expect(weak).toEqual([]);
+
+    const strong = resolveTeamLinks(
+      proposal({ abstract: 'Led by Ada Lovelace.', authors: ['ada_l'] }),
+      INDEX,
+    );
+    expect(strong[0]).toMatchObject({ teamMemberId: 'm-ada', signals: ['author', 'mention'] });
+  });
+
+  it('should ignore names shared by too many members', () => {
+    expect(resolveTeamLinks(proposal({ authors: ['John Smith'] }), INDEX)).toEqual([]);
+  });
+
+  it('should ignore links to shared hosts', () => {
+    expect(
+      resolveTeamLinks(proposal({ references: ['https://forum.cardano.org/t/1234'] }), INDEX),
+    ).toEqual([]);
+  });
+});
+
+describe('summarizeTrackRecord', () => {
+  const project = (overrides: Partial<TrackRecordProject>): TrackRecordProject => ({
+    id: 'p',
+    title: 'Project',
+    fund: 'Fund 10',
+    status: 'complete',
+    fundingStatus: 'funded',
+    amountRequested: 100_000,
+    amountReceived: 100_000,
+    currency: 'ADA',
+    fundedAt: null,
+    link: null,
+    memberIds: [],
+    ...overrides,
+  });
+
+  it('should count completion over funded projects only', () => {
+    const summary = summarizeTrackRecord(
+      [
+        project({ id: 'a' }),
+        project({ id: 'b', status: 'in_progress', amountReceived: 40_000 }),
+        project({ id: 'c', status: 'unfunded', fundingStatus: 'not_approved', amountReceived: 0 }),
+        project({ id: 'd', currency: 'USD', amountReceived: 25_000 }),
+      ],
+      [],
+    );
+
+    expect(summary).toMatchObject({
+      fundedProjects: 3,
+      completedProjects: 2,
+      inProgressProjects: 1,
+      completionRate: 0.67,
+      receivedByCurrency: { ADA: 140_000, USD: 25_000 },
+    });
+  });
+
+  it('should report no completion rate without funded projects', () => {
+    expect(summarizeTrackRecord([], []).completionRate).toBeNull();
+  });
+});
+
+describe('classifyProposal identities', () => {
+  it('should keep withdrawal addresses, authors and references', () => {
+    const classified = classifyProposal({
+      proposal_tx_hash: 'a'.repeat(64),
+      proposal_index: 0,
+      proposal_id: 'gov_action1',
+      proposal_type: 'TreasuryWithdrawals',
+      proposal_description: null,
+      deposit: '100000000000',
+      return_address: 'stake1u',
+      proposed_epoch: 500,
+      ratified_epoch: null,
+      enacted_epoch: null,
+      dropped_epoch: null,
+      expired_epoch: null,
+      expiration: 510,
+      meta_url: null,
+      meta_hash: null,
+      meta_json: {
+        authors: [{ name: 'Ada Lovelace' }, { name: ' ' }],
+        body: { title: 'SDK', references: [{ uri: 'https://github.com/adalabs' }, {}] },
+      },
+      meta_comment: null,
+      meta_is_valid: true,
+      withdrawal: [
+        { stake_address: 'stake1a', amount: '1000000' },
+        { stake_address: 'stake1a', amount: '2000000' },
+      ],
+      param_proposal: null,
+      block_time: 1_700_000_000,
+    } as ProposalInfo);
+
+    expect(classified.withdrawalAddresses).toEqual(['stake1a']);
+    expect(classified.authors).toEqual(['Ada Lovelace']);
+    expect(classified.references).toEqual(['https://github.com/adalabs']);
+  });
+});
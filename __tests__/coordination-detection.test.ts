@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import {
+  candidatePairs,
+  detectCoordinationClusters,
+  scorePair,
+  urlFingerprint,
+  type CoordinationEntity,
+} from '@/lib/scoring/coordinationDetection';
+import { estimateJaccard, minhashSignature } from '@/lib/minhash';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+type Choice = 'Yes' | 'No' | 'Abstain';
+
+function entity(
+  id: string,
+  votes: [string, Choice, number][],
+  extra: Partial<Pick<CoordinationEntity, 'urls' | 'delegatorStake'>> = {},
+): CoordinationEntity {
+  return {
+    id,
+    votes: new Map(votes.map(([key, vote, blockTime]) => [key, { vote, blockTime }])),
+    urls: extra.urls ?? [],
+    delegatorStake: extra.delegatorStake ?? new Map(),
+  };
+}
+
+/** Deterministic pseudo-random generator (LCG) so fixtures are reproducible */
+function rng(seed: number) {
+  let s = seed;
+  return () => {
+    s = (Math.imul(s, 1664525) + 1013904223) >>> 0;
+    return s / 0x100000000;
+  };
+}
+
+const CHOICES: Choice[] = ['Yes', 'No', 'Abstain'];
+const BLOC_VOTES: [string, Choice, number][] = Array.from({ length: 10 }, (_, i) => [
+  `p${i}`,
+  CHOICES[i % 3],
+  1000 + i * 100,
+]);
+
+// ── URL fingerprints ─────────────────────────────────────────────────────────
+
+describe('urlFingerprint', () => {
+  it('should reduce ordinary URLs to their host', () => {
+    expect(urlFingerprint('https://www.MyDrep.io/meta/drep.json')).toBe('mydrep.io');
+  });
+
+  it('should keep the account on shared hosting', () => {
+    expect(urlFingerprint('https://raw.githubusercontent.com/Alice/drep/main/a.json')).toBe(
+      'raw.githubusercontent.com/alice',
+    );
+  });
+
+  it('should treat ipfs:// and gateway URLs for the same CID as equal', () => {
+    expect(urlFingerprint('ipfs://bafyabc/meta.json')).toBe('ipfs:bafyabc');
+    expect(urlFingerprint('https://ipfs.io/ipfs/bafyabc')).toBe('ipfs:bafyabc');
+  });
+
+  it('should return null for unparseable input', () => {
+    expect(urlFingerprint('not a url')).toBeNull();
+    expect(urlFingerprint('')).toBeNull();
+  });
+});
+
+// ── Pair scoring ─────────────────────────────────────────────────────────────
+
+describe('scorePair', () => {
+  it('should score identical same-block votes with full vote and timing evidence', () => {
+    const edge = scorePair(entity('b', BLOC_VOTES), entity('a', BLOC_VOTES));
+    expect(edge.a).toBe('a');
+    expect(edge.sharedVotes).toBe(10);
+    expect(edge.signals.voteAgreement).toBe(1);
+    expect(edge.signals.timingCorrelation).toBe(1);
+    expect(edge.score).toBeCloseTo(0.7);
+  });
+
+  it('should ignore vote signals when too few proposals are shared', () => {
+    const few = BLOC_VOTES.slice(0, 3);
+    const edge = scorePair(entity('a', few), entity('b', few));
+    expect(edge.signals.voteAgreement).toBe(0);
+    expect(edge.signals.timingCorrelation).toBe(0);
+  });
+
+  it('should measure delegator overlap against the smaller stake base', () => {
+    const edge = scorePair(
+      entity('a', [], {
+        delegatorStake: new Map([
+          ['stake1x', 100],
+          ['stake1y', 100],
+        ]),
+      }),
+      entity('b', [], { delegatorStake: new Map([['stake1x', 100]]) }),
+    );
+    expect(edge.signals.delegatorOverlap).toBe(1);
+  });
+
+  it('should flag shared infrastructure from URL fingerprints', () => {
+    const edge = scorePair(
+      entity('a', [], { urls: ['https://bloc.example/a.json'] }),
+      entity('b', [], { urls: ['https://bloc.example/b.json'] }),
+    );
+    expect(edge.signals.sharedInfrastructure).toBe(1);
+  });
+});
+
+// ── Clustering ───────────────────────────────────────────────────────────────
+
+describe('detectCoordinationClusters', () => {
+  it('should group a same-block voting bloc and leave independent voters out', () => {
+    const independent = entity(
+      'z',
+      BLOC_VOTES.map(([k, v, t], i) => [k, CHOICES[(i + 1) % 3], t + 7]),
+    );
+    const clusters = detectCoordinationClusters('drep', [
+      entity('a', BLOC_VOTES),
+      entity('b', BLOC_VOTES),
+      entity('c', BLOC_VOTES),
+      independent,
+    ]);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].members).toEqual(['a', 'b', 'c']);
+    expect(clusters[0].signals.voteAgreement).toBe(1);
+  });
+
+  it('should not cluster entities that only agree on votes cast at different times', () => {
+    const clusters = detectCoordinationClusters('drep', [
+      entity('a', BLOC_VOTES),
+      entity(
+        'b',
+        BLOC_VOTES.map(([k, v, t]) => [k, v, t + 500]),
+      ),
+    ]);
+    expect(clusters).toEqual([]);
+  });
+
+  it('should chain pairs into one cluster when linked through a shared member', () => {
+    const shifted: [string, Choice, number][] = BLOC_VOTES.map(([k, v, t]) => [k, v, t + 1]);
+    const stake = new Map([['stake1shared', 5_000_000_000]]);
+    const clusters = detectCoordinationClusters('spo', [
+      entity('a', BLOC_VOTES, { urls: ['https://pools.example'], delegatorStake: stake }),
+      entity('b', BLOC_VOTES),
+      entity('c', shifted, { urls: ['https://pools.example'], delegatorStake: stake }),
+    ]);
+    // a–b: same blocks; a–c: same hosting and stake; b–c: only agreeing votes
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].members).toEqual(['a', 'b', 'c']);
+    expect(clusters[0].edges).toHaveLength(2);
+  });
+
+  it('should produce the same cluster key regardless of input order', () => {
+    const run = (ids: string[]) =>
+      detectCoordinationClusters(
+        'drep',
+        ids.map((id) => entity(id, BLOC_VOTES)),
+      )[0].key;
+    expect(run(['a', 'b', 'c'])).toBe(run(['c', 'a', 'b']));
+    expect(run(['a', 'b', 'c'])).not.toBe(run(['a', 'b']));
+  });
+});
+
+// ── Scalability ──────────────────────────────────────────────────────────────
+
+describe('candidatePairs', () => {
+  it('should score far fewer pairs than all-pairs when entities vote independently', () => {
+    const rand = rng(42);
+    const entities = Array.from({ length: 300 }, (_, i) =>
+      entity(
+        `e${i}`,
+        Array.from({ length: 40 }, (_, p) => [
+          `p${p}`,
+          CHOICES[Math.floor(rand() * 3)],
+          Math.floor(rand() * 1_000_000),
+        ]),
+      ),
+    );
+    const allPairs = (300 * 299) / 2;
+    expect(candidatePairs(entities).size).toBeLessThan(allPairs / 10);
+  });
+
+  it('should always propose identical voters as candidates', () => {
+    const pairs = candidatePairs([
+      entity(
+        'a',
+        BLOC_VOTES.map(([k, v]) => [k, v, 1]),
+      ),
+      entity(
+        'b',
+        BLOC_VOTES.map(([k, v]) => [k, v, 2]),
+      ),
+    ]);
+    expect(pairs.size).toBe(1);
+  });
+});
+
+describe('minhash', () => {
+  it('should estimate Jaccard similarity of overlapping sets', () => {
+    const a = Array.from({ length: 100 }, (_, i) => `t${i}`);
+    const b = Array.from({ length: 100 }, (_, i) => `t${i + 50}`);
+    // |A∩B| = 50, |A∪B| = 150
+    const estimate = estimateJaccard(minhashSignature(a, 256), minhashSignature(b, 256));
+    expect(estimate).toBeGreaterThan(0.2);
+    expect(estimate).toBeLessThan(0.45);
+  });
+});
@@ -0,0 +1,279 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { resolve } from 'path';
+import {
+  collectBenchmark,
+  getChainAdapter,
+  listChainAdapters,
+  registerChainAdapter,
+  type AdapterContext,
+  type ChainAdapter,
+} from '@/lib/crossChain';
+import { periodLabel, periodStart, type HttpRequest } from '@/lib/crossChain/adapter';
+import { cardanoAdapter } from '@/lib/crossChain/adapters/cardano';
+import { tallyAdapter } from '@/lib/crossChain/adapters/tally';
+import { getChainMetrics, getHeadlineMetric } from '@/lib/crossChain/chainMetrics';
+import {
+  loadChainFixture,
+  recordingTransport,
+  replayAdapter,
+  replayTransport,
+} from '@/lib/crossChain/fixtures';
+import { unregisterChainAdapter } from '@/lib/crossChain/registry';
+
+const NOW = new Date('2025-09-17T12:00:00Z');
+
+function fixturePath(chain: string): string {
+  return resolve(__dirname, `fixtures/crossChain/${chain}.json`);
+}
+
+function fixtureContext(
+  chain: string,
+  env: Record<string, string> = {},
+): { ctx: AdapterContext; requests: HttpRequest[] } {
+  const set = loadChainFixture(fixturePath(chain));
+  const requests: HttpRequest[] = [];
+  return { ctx: { request: replayTransport(set, (r) => requests.push(r)), env }, requests };
+}
+
+function adapter(chain: string): ChainAdapter {
+  const a = getChainAdapter(chain);
+  if (!a) throw new Error(`${chain} adapter not registered`);
+  return a;
+}
+
+describe('chain adapter registry', () => {
+  afterEach(() => {
+    unregisterChainAdapter('testnet');
+  });
+
+  it('should register the built-in chains with the original three featured', () => {
+    expect(listChainAdapters().map((a) => a.chain)).toEqual([
+      'cardano',
+      'ethereum',
+      'polkadot',
+      'cosmos',
+      'optimism',
+      'arbitrum',
+      'tezos',
+    ]);
+    expect(listChainAdapters({ featured: true }).map((a) => a.chain)).toEqual([
+      'cardano',
+      'ethereum',
+      'polkadot',
+    ]);
+  });
+
+  it('should collect and describe a newly registered chain', async () => {
+    registerChainAdapter({
+      chain: 'testnet',
+      identity: { name: 'Testnet', color: '#000000', logo: '/chains/testnet.svg' },
+      model: { tagline: 'Test voting', description: 'For tests.', source: 'Fixture' },
+      structure: { onchain: 50, rationale: 50 },
+      fetch: async () => ({ voters: 12 }),
+      normalize: (raw: { voters: number }) => ({
+        participationRate: 12,
+        delegateCount: raw.voters,
+        proposalCount: 3,
+        proposalThroughput: 100,
+        avgRationaleRate: null,
+        rawData: {},
+      }),
+      metrics: (b) => [
+        { key: 'voters', label: 'Voters', value: b.delegateCount, context: '', source: 'Fixture' },
+      ],
+      headline: (b) => `${b.delegateCount} voters`,
+    });
+
+    const b = await collectBenchmark(
+      adapter('testnet'),
+      { request: async () => null, env: {} },
+      NOW,
+    );
+    expect(b).toMatchObject({ chain: 'testnet', periodLabel: '2025-W38', delegateCount: 12 });
+    expect(getHeadlineMetric(b!)).toBe('12 voters');
+    expect(getChainMetrics(b!)).toHaveLength(1);
+  });
+
+  it('should reject registering the same chain twice', () => {
+    expect(() => registerChainAdapter(cardanoAdapter)).toThrow(/already registered/);
+  });
+});
+
+describe('benchmark periods', () => {
+  it('should label ISO weeks across year boundaries', () => {
+    expect(periodLabel(new Date('2025-09-17T12:00:00Z'))).toBe('2025-W38');
+    expect(periodLabel(new Date('2024-12-30T00:00:00Z'))).toBe('2025-W01');
+    expect(periodLabel(new Date('2027-01-01T00:00:00Z'))).toBe('2026-W53');
+  });
+
+  it('should start periods on the Monday of the week', () => {
+    expect(periodStart(new Date('2025-09-17T12:00:00Z'))).toBe('2025-09-15');
+    expect(periodStart(new Date('2025-09-21T23:59:00Z'))).toBe('2025-09-15');
+  });
+});
+
+describe('Cosmos Hub adapter', () => {
+  it('should normalize stake turnout and validators from LCD fixture responses', async () => {
+    const { ctx } = fixtureContext('cosmos');
+    const b = await collectBenchmark(adapter('cosmos'), ctx, NOW);
+
+    expect(b).toMatchObject({
+      chain: 'cosmos',
+      participationRate: 45.3,
+      delegateCount: 180,
+      proposalCount: 950,
+      proposalThroughput: 100,
+      avgRationaleRate: null,
+    });
+    expect(getHeadlineMetric(b!)).toBe('180 validators');
+    expect(getChainMetrics(b!).find((m) => m.key === 'passRate')?.value).toBe('66.7%');
+  });
+
+  it('should use the configured LCD endpoint when set', async () => {
+    const requests: HttpRequest[] = [];
+    await adapter('cosmos').fetch({
+      request: async (r) => {
+        requests.push(r);
+        return null;
+      },
+      env: { COSMOS_LCD_URL: 'https://lcd.example.org' },
+    });
+    expect(requests.every((r) => r.url.startsWith('https://lcd.example.org/'))).toBe(true);
+  });
+});
+
+describe('Agora adapter', () => {
+  it('should measure turnout against votable supply for closed onchain proposals', async () => {
+    const { ctx, requests } = fixtureContext('optimism', { OPTIMISM_AGORA_API_KEY: 'key' });
+    const b = await collectBenchmark(adapter('optimism'), ctx, NOW);
+
+    expect(b).toMatchObject({
+      participationRate: 40,
+      delegateCount: null,
+      proposalCount: 5,
+      proposalThroughput: 100,
+    });
+    expect(b!.rawData).toMatchObject({ closedProposals: 4, passed: 3 });
+    expect(requests.every((r) => r.headers?.Authorization === 'Bearer key')).toBe(true);
+  });
+
+  it('should skip the chain when its API key is missing', async () => {
+    const { ctx, requests } = fixtureContext('optimism');
+    expect(await collectBenchmark(adapter('optimism'), ctx, NOW)).toBeNull();
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should build one adapter per Agora instance', () => {
+    expect(adapter('arbitrum').model.source).toBe('Agora');
+    expect(adapter('arbitrum').identity.name).toBe('Arbitrum');
+  });
+});
+
+describe('Tezos adapter', () => {
+  it('should normalize ballot turnout and proposal periods from TzKT fixture responses', async () => {
+    const { ctx } = fixtureContext('tezos');
+    const b = await collectBenchmark(adapter('tezos'), ctx, NOW);
+
+    expect(b).toMatchObject({
+      participationRate: 66.7,
+      delegateCount: 300,
+      proposalCount: 42,
+      proposalThroughput: 66.7,
+    });
+    expect(b!.rawData).toMatchObject({ ballotPeriods: 3, adoptedUpgrades: 1 });
+    expect(getChainMetrics(b!).find((m) => m.key === 'period')?.value).toBe('proposal #120');
+  });
+});
+
+describe('existing chain adapters', () => {
+  it('should keep the Polkadot metrics from SubSquare fixture responses', async () => {
+    const { ctx } = fixtureContext('polkadot');
+    const b = await collectBenchmark(adapter('polkadot'), ctx, NOW);
+
+    expect(b).toMatchObject({
+      participationRate: 2,
+      proposalCount: 1500,
+      proposalThroughput: 75,
+      delegateCount: null,
+    });
+    expect(b!.rawData).toMatchObject({ activeTracks: 2, recentReferendaCount: 4 });
+    expect(getHeadlineMetric(b!)).toBe('1.5K referenda');
+  });
+
+  it('should aggregate Tally DAOs and score turnout against the top DAO', async () => {
+    const { ctx, requests } = fixtureContext('ethereum', { TALLY_API_KEY: 'key' });
+    const b = await collectBenchmark(adapter('ethereum'), ctx, NOW);
+
+    expect(b).toMatchObject({
+      delegateCount: 1500,
+      proposalCount: 100,
+      proposalThroughput: 67,
+      participationRate: 10,
+      rawData: { totalTokenOwners: 70_000 },
+    });
+    expect(getHeadlineMetric(b!)).toBe('1.5K delegates');
+    expect(requests.every((r) => r.headers?.['Api-Key'] === 'key')).toBe(true);
+  });
+
+  it('should skip Ethereum without a Tally API key', async () => {
+    const { ctx, requests } = fixtureContext('ethereum');
+    expect(await tallyAdapter.fetch(ctx)).toBeNull();
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should map Cardano GHI components to the shared metrics', async () => {
+    const set = loadChainFixture(fixturePath('cardano'));
+    const b = await collectBenchmark(replayAdapter(cardanoAdapter, set), undefined, NOW);
+
+    expect(b).toMatchObject({
+      participationRate: 64,
+      avgRationaleRate: 41,
+      proposalThroughput: 88,
+      delegateCount: 1200,
+      rawData: { ghiScore: 72, epoch: 580 },
+    });
+    expect(getChainMetrics(b!).find((m) => m.key === 'ghi')?.value).toBe('72 (healthy)');
+  });
+});
+
+describe('fixture recording', () => {
+  it('should record exchanges without headers and replay them', async () => {
+    const recorder = recordingTransport(async (req) =>
+      req.url.endsWith('/down') ? null : { ok: true },
+    );
+    await recorder.transport({
+      url: 'https://api.example.org/query?b=2&a=1',
+      method: 'POST',
+      headers: { 'Api-Key': 'secret' },
+      body: '{"query":"q"}',
+    });
+    await recorder.transport({ url: 'https://api.example.org/down' });
+
+    expect(recorder.entries).toEqual([
+      {
+        method: 'POST',
+        url: 'https://api.example.org/query?b=2&a=1',
+        body: { query: 'q' },
+        status: 200,
+        response: { ok: true },
+      },
+      { method: 'GET', url: 'https://api.example.org/down', body: null, status: 0, response: null },
+    ]);
+
+    const replay = replayTransport({
+      version: 1,
+      chain: 'example',
+      recordedAt: NOW.toISOString(),
+      source: 'Example',
+      entries: recorder.entries,
+    });
+    await expect(
+      replay({
+        url: 'https://api.example.org/query?a=1&b=2',
+        method: 'POST',
+        body: '{"query":"q"}',
+      }),
+    ).resolves.toEqual({ ok: true });
+    await expect(replay({ url: 'https://api.example.org/down' })).resolves.toBeNull();
+  });
+});
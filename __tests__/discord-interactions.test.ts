@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import { generateKeyPairSync, sign } from 'crypto';
+
+vi.mock('@/lib/posthog-server', () => ({ captureServerEvent: vi.fn() }));
+
+import { verifyDiscordSignature } from '@/lib/discord/verify';
+import {
+  canManageGuild,
+  handleInteraction,
+  readCommand,
+  type Interaction,
+} from '@/lib/discord/interactions';
+import { buildCommandDefinitions, getGuildFeedEvents } from '@/lib/discord/commands';
+import { drepVoteEmbed, feedEventEmbed } from '@/lib/discord/format';
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const PUBLIC_KEY_HEX = Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url').toString(
+  'hex',
+);
+const NOW = 1_760_000_000;
+
+function signed(body: string, timestamp = String(NOW)) {
+  return sign(null, Buffer.from(timestamp + body), privateKey).toString('hex');
+}
+
+describe('verifyDiscordSignature', () => {
+  const body = JSON.stringify({ type: 1 });
+
+  it('should accept a request signed with the application key', () => {
+    expect(verifyDiscordSignature(body, signed(body), String(NOW), PUBLIC_KEY_HEX, NOW)).toBe(true);
+  });
+
+  it('should reject a tampered body', () => {
+    expect(
+      verifyDiscordSignature('{"type":2}', signed(body), String(NOW), PUBLIC_KEY_HEX, NOW),
+    ).toBe(false);
+  });
+
+  it('should reject a stale timestamp even when the signature is valid', () => {
+    const old = String(NOW - 3600);
+    expect(verifyDiscordSignature(body, signed(body, old), old, PUBLIC_KEY_HEX, NOW)).toBe(false);
+  });
+
+  it('should reject missing or malformed headers', () => {
+    expect(verifyDiscordSignature(body, null, String(NOW), PUBLIC_KEY_HEX, NOW)).toBe(false);
+    expect(verifyDiscordSignature(body, 'abc', String(NOW), PUBLIC_KEY_HEX, NOW)).toBe(false);
+    expect(verifyDiscordSignature(body, signed(body), null, PUBLIC_KEY_HEX, NOW)).toBe(false);
+  });
+});
+
+describe('readCommand', () => {
+  it('should flatten a subcommand into its path and options', () => {
+    expect(
+      readCommand({
+        name: 'feeds',
+        options: [
+          {
+            name: 'add',
+            type: 1,
+            options: [
+              { name: 'event', type: 3, value: 'proposal-new' },
+              { name: 'channel', type: 7, value: '123' },
+            ],
+          },
+        ],
+      }),
+    ).toEqual({ path: ['feeds', 'add'], options: { event: 'proposal-new', channel: '123' } });
+  });
+});
+
+describe('canManageGuild', () => {
+  const member = (permissions: string): Interaction => ({
+    id: '1',
+    type: 2,
+    member: { user: { id: 'u' }, permissions },
+  });
+
+  it('should require the Manage Server bit', () => {
+    expect(canManageGuild(member(String(1 << 5)))).toBe(true);
+    expect(canManageGuild(member('8'))).toBe(false);
+    expect(canManageGuild({ id: '1', type: 2 })).toBe(false);
+  });
+});
+
+describe('handleInteraction', () => {
+  it('should answer PING with PONG', async () => {
+    expect(await handleInteraction({ id: '1', type: 1 })).toEqual({ type: 1 });
+  });
+
+  it('should refuse server configuration outside a server', async () => {
+    const res = await handleInteraction({
+      id: '1',
+      type: 2,
+      user: { id: 'u' },
+      data: { name: 'feeds', options: [{ name: 'list', type: 1 }] },
+    });
+    expect(res.data?.content).toMatch(/inside a server/);
+    expect(res.data?.flags).toBe(64);
+  });
+
+  it('should refuse server configuration without Manage Server', async () => {
+    const res = await handleInteraction({
+      id: '1',
+      type: 2,
+      guild_id: 'g',
+      member: { user: { id: 'u' }, permissions: '0' },
+      data: { name: 'drep-announce', options: [{ name: 'unlink', type: 1 }] },
+    });
+    expect(res.data?.content).toMatch(/Manage Server/);
+  });
+});
+
+describe('buildCommandDefinitions', () => {
+  it('should offer only ecosystem events as feed choices', () => {
+    const feeds = buildCommandDefinitions().find((c) => c.name === 'feeds')!;
+    const add = feeds.options!.find((o) => o.name === 'add') as {
+      options: Array<{ name: string; choices?: Array<{ value: string }> }>;
+    };
+    const choices = add.options.find((o) => o.name === 'event')!.choices!.map((c) => c.value);
+    expect(choices).toEqual(getGuildFeedEvents().map((e) => e.key));
+    expect(choices).toContain('proposal-ratified');
+    expect(choices).not.toContain('drep-voted');
+    expect(choices.length).toBeLessThanOrEqual(25);
+  });
+});
+
+describe('embeds', () => {
+  it('should link feed posts to the proposal page', () => {
+    const embed = feedEventEmbed(
+      {
+        event_type: 'treasury-withdrawal-enacted',
+        occurred_at: '2026-01-01T00:00:00.000Z',
+        data: { title: 'Fund X', txHash: 'ab', index: 1, withdrawalAmount: 2_500_000_000_000 },
+      },
+      'https://civica.test',
+    );
+    expect(embed.url).toBe('https://civica.test/proposal/ab/1');
+    expect(embed.title).toBe('Treasury Withdrawal Enacted: Fund X');
+    expect(embed.description).toContain('₳2.5M');
+  });
+
+  it('should quote the rationale in a DRep vote announcement', () => {
+    const embed = drepVoteEmbed(
+      'Alice',
+      { vote: 'No', title: 'Fund X', txHash: 'ab', index: 0, occurredAt: '2026-01-01T00:00:00Z' },
+      'Too expensive.\nNo milestones.',
+      'https://civica.test',
+    );
+    expect(embed.title).toBe('❌ Alice voted No');
+    expect(embed.description).toContain('> Too expensive.\n> No milestones.');
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import { computeEDI, gini } from '@/lib/ghi/ediMetrics';
+import { scoreGHI, getWeights } from '@/lib/ghi/scoring';
+import {
+  baselineFromInputs,
+  fitConcentration,
+  runSandbox,
+  zipfVotingPowers,
+  type SandboxBaseline,
+} from '@/lib/ghi/sandbox';
+import { scoreGHIInputs, type GHIInputs } from '@/lib/ghi';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function baseline(): SandboxBaseline {
+  const edi = computeEDI(zipfVotingPowers(200, 1.2));
+  return {
+    inputs: { participationRate: 25, rationaleRate: 20, activeDrepCount: 200, concentration: 1.2 },
+    citizenEngagementEnabled: false,
+    live: {
+      'DRep Participation': 25,
+      'Citizen Engagement': 0,
+      'Deliberation Quality': 32,
+      'Governance Effectiveness': 35,
+      'Power Distribution': Math.min(100, edi.compositeScore + 2),
+      'System Stability': 45,
+    },
+    liveEdi: edi,
+    onboardingBonus: 2,
+  };
+}
+
+/** Live inputs whose voting powers are not Zipf-shaped, so the fitted distribution differs */
+function liveInputs(): GHIInputs {
+  const votingPowers = [...zipfVotingPowers(120, 0.9), 5e5, 4e5, 0];
+  const edi = computeEDI(votingPowers.filter((v) => v > 0));
+  return {
+    currentEpoch: 520,
+    citizenEngagementEnabled: false,
+    participation: { raw: 42.4, detail: { medianParticipation: 42.4, activeDreps: 150 } },
+    engagement: { raw: 0 },
+    deliberation: {
+      raw: 48,
+      detail: { rationaleQuality: 55, debateDiversity: 40, votingIndependence: 45 },
+    },
+    effectiveness: { raw: 50 },
+    power: {
+      raw: Math.min(100, edi.compositeScore + 4),
+      edi,
+      votingPowers,
+      detail: { onboardingBonus: 4 },
+    },
+    stability: { raw: 70 },
+  };
+}
+
+// ── scoreGHI ─────────────────────────────────────────────────────────────────
+
+describe('scoreGHI', () => {
+  it('should redistribute citizen engagement weight when the flag is off', () => {
+    const weights = getWeights(false);
+    expect(weights['Citizen Engagement']).toBe(0);
+    const total = Object.values(weights).reduce((s, w) => s + w, 0);
+    expect(total).toBeCloseTo(1, 10);
+  });
+
+  it('should band the weighted sum of calibrated components', () => {
+    const raw = {
+      'DRep Participation': 90,
+      'Citizen Engagement': 80,
+      'Deliberation Quality': 85,
+      'Governance Effectiveness': 90,
+      'Power Distribution': 85,
+      'System Stability': 90,
+    };
+    const result = scoreGHI(raw, true);
+    expect(result.components.every((c) => c.value === 95)).toBe(true);
+    expect(result.band).toBe('strong');
+  });
+});
+
+// ── Distribution fitting ─────────────────────────────────────────────────────
+
+describe('fitConcentration', () => {
+  it('should return 0 for an equal distribution', () => {
+    expect(fitConcentration([5, 5, 5, 5])).toBe(0);
+  });
+
+  it('should recover the exponent of a Zipf distribution', () => {
+    expect(fitConcentration(zipfVotingPowers(300, 1.1))).toBeCloseTo(1.1, 1);
+  });
+
+  it('should match the Gini of an arbitrary distribution', () => {
+    const powers = [1000, 800, 50, 40, 30, 20, 10, 10, 5, 5, 1, 1];
+    const s = fitConcentration(powers);
+    expect(gini(zipfVotingPowers(powers.length, s))).toBeCloseTo(gini(powers), 1);
+  });
+});
+
+// ── runSandbox ───────────────────────────────────────────────────────────────
+
+describe('runSandbox', () => {
+  it('should use baseline inputs when no overrides are given', () => {
+    const base = baseline();
+    const result = runSandbox(base);
+    expect(result.inputs).toEqual(base.inputs);
+    expect(result.components).toHaveLength(6);
+  });
+
+  it('should raise the score when participation rises', () => {
+    const base = baseline();
+    const low = runSandbox(base);
+    const high = runSandbox(base, { participationRate: 80 });
+    expect(high.score).toBeGreaterThan(low.score);
+    const participation = high.components.find((c) => c.name === 'DRep Participation')!;
+    expect(participation.value).toBeGreaterThan(80);
+  });
+
+  it('should improve the EDI breakdown when power is less concentrated', () => {
+    const base = baseline();
+    const concentrated = runSandbox(base, { concentration: 2 });
+    const spread = runSandbox(base, { concentration: 0.3 });
+    expect(spread.edi.compositeScore).toBeGreaterThan(concentrated.edi.compositeScore);
+    expect(spread.edi.breakdown.nakamotoCoefficient).toBeGreaterThan(
+      concentrated.edi.breakdown.nakamotoCoefficient,
+    );
+    expect(spread.edi.breakdown.gini).toBeLessThan(concentrated.edi.breakdown.gini);
+  });
+
+  it('should clamp out-of-range overrides and ignore undefined ones', () => {
+    const result = runSandbox(baseline(), {
+      participationRate: 140,
+      activeDrepCount: 12.6,
+      rationaleRate: undefined,
+    });
+    expect(result.inputs.participationRate).toBe(100);
+    expect(result.inputs.activeDrepCount).toBe(13);
+    expect(result.inputs.rationaleRate).toBe(20);
+  });
+
+  it('should report levers that reach the next band on their own', () => {
+    const base = baseline();
+    const result = runSandbox(base);
+    expect(result.band).toBe('fair');
+    expect(result.nextBand).not.toBeNull();
+    const { band, threshold, pointsNeeded, levers } = result.nextBand!;
+    expect(pointsNeeded).toBe(threshold - result.score);
+
+    for (const { input, value } of levers) {
+      if (value === null) continue;
+      const moved = runSandbox(base, { [input]: value });
+      expect(moved.band).toBe(band);
+    }
+    const participation = levers.find((l) => l.input === 'participationRate')!;
+    expect(participation.value).toBeGreaterThan(base.inputs.participationRate);
+  });
+
+  it('should report no next band when the scenario is already strong', () => {
+    const base = baseline();
+    base.live = {
+      ...base.live,
+      'Governance Effectiveness': 95,
+      'System Stability': 95,
+      'Deliberation Quality': 60,
+    };
+    base.onboardingBonus = 10;
+    const result = runSandbox(base, {
+      participationRate: 95,
+      rationaleRate: 100,
+      concentration: 0,
+      activeDrepCount: 500,
+    });
+    expect(result.band).toBe('strong');
+    expect(result.nextBand).toBeNull();
+  });
+});
+
+// ── baselineFromInputs ───────────────────────────────────────────────────────
+
+describe('baselineFromInputs', () => {
+  it('should derive adjustable inputs from live component details', () => {
+    const base = baselineFromInputs(liveInputs());
+    expect(base.inputs).toMatchObject({
+      participationRate: 42,
+      rationaleRate: 55,
+      activeDrepCount: 122,
+    });
+    expect(base.onboardingBonus).toBe(4);
+    expect(base.live['Deliberation Quality']).toBe(48);
+  });
+
+  it('should reproduce the live score when no input is adjusted', () => {
+    const inputs = liveInputs();
+    const live = scoreGHIInputs(inputs);
+    const untouched = runSandbox(baselineFromInputs(inputs));
+
+    expect(untouched.score).toBe(live.score);
+    expect(untouched.components).toEqual(live.components);
+    expect(untouched.edi).toBe(inputs.power.edi);
+  });
+
+  it('should keep the other live components when one input moves', () => {
+    const inputs = liveInputs();
+    const live = scoreGHIInputs(inputs);
+    const moved = runSandbox(baselineFromInputs(inputs), { rationaleRate: 75 });
+
+    const value = (r: { components: { name: string; value: number }[] }, name: string) =>
+      r.components.find((c) => c.name === name)?.value;
+    for (const name of ['DRep Participation', 'Power Distribution', 'System Stability']) {
+      expect(value(moved, name)).toBe(value(live, name));
+    }
+    expect(value(moved, 'Deliberation Quality')).toBeGreaterThan(
+      value(live, 'Deliberation Quality')!,
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { buildICalendar, escapeText, foldLine } from '@/lib/ical';
+import {
+  buildCalendarEvents,
+  parseCalendarFilter,
+  DEFAULT_ALARM_MINUTES,
+  type CalendarFilter,
+  type CalendarProposal,
+  type CalendarSources,
+} from '@/lib/governanceCalendar';
+import { epochToBlockTime } from '@/lib/koios';
+
+const FILTER: CalendarFilter = {
+  categories: ['proposals', 'epochs', 'polls', 'assemblies'],
+  proposalTypes: null,
+  obligationsOf: null,
+  alarmMinutes: DEFAULT_ALARM_MINUTES,
+};
+
+function proposal(overrides: Partial<CalendarProposal> = {}): CalendarProposal {
+  return {
+    txHash: 'a'.repeat(64),
+    index: 0,
+    title: 'Fund the node, docs; and tooling',
+    proposalType: 'TreasuryWithdrawals',
+    proposedEpoch: 530,
+    expirationEpoch: 536,
+    ratifiedEpoch: null,
+    enactedEpoch: null,
+    droppedEpoch: null,
+    expiredEpoch: null,
+    pendingDReps: [],
+    ...overrides,
+  };
+}
+
+function sources(overrides: Partial<CalendarSources> = {}): CalendarSources {
+  return { currentEpoch: 533, proposals: [], polls: [], assemblies: [], ...overrides };
+}
+
+describe('ical serialization', () => {
+  it('should escape commas, semicolons, backslashes and newlines when writing text', () => {
+    expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+
+  it('should fold lines at 75 octets when a line is long', () => {
+    const folded = foldLine(`SUMMARY:${'é'.repeat(60)}`);
+    for (const line of folded.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+  });
+
+  it('should emit alarms only when an event is not cancelled', () => {
+    const start = new Date('2025-03-01T21:45:00Z');
+    const ics = buildICalendar({
+      name: 'Test',
+      events: [
+        { uid: 'a@x', start, end: start, summary: 'Open', alarmMinutes: [1440, 90] },
+        { uid: 'b@x', start, end: start, summary: 'Gone', status: 'CANCELLED', alarmMinutes: [60] },
+      ],
+    });
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('DTSTART:20250301T214500Z');
+    expect(ics).toContain('TRIGGER:-P1D');
+    expect(ics).toContain('TRIGGER:-PT90M');
+    expect(ics).not.toContain('TRIGGER:-PT1H');
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+  });
+});
+
+describe('buildCalendarEvents', () => {
+  it('should place the deadline at the end of the expiration epoch when a proposal is open', () => {
+    const [event] = buildCalendarEvents(sources({ proposals: [proposal()] }), {
+      ...FILTER,
+      categories: ['proposals'],
+    });
+    expect(event.end.getTime()).toBe(epochToBlockTime(537) * 1000);
+    expect(event.summary).toBe('Voting closes: Fund the node, docs; and tooling');
+    expect(event.alarmMinutes).toEqual([1440]);
+    expect(event.sequence).toBe(0);
+  });
+
+  it('should keep the UID and bump the sequence when a proposal is ratified', () => {
+    const filter: CalendarFilter = { ...FILTER, categories: ['proposals'] };
+    const [open] = buildCalendarEvents(sources({ proposals: [proposal()] }), filter);
+    const [ratified] = buildCalendarEvents(
+      sources({ proposals: [proposal({ ratifiedEpoch: 534 })] }),
+      filter,
+    );
+    expect(ratified.uid).toBe(open.uid);
+    expect(ratified.sequence).toBeGreaterThan(open.sequence!);
+    expect(ratified.summary).toMatch(/^Ratified:/);
+    expect(ratified.status).toBe('CONFIRMED');
+  });
+
+  it('should cancel the event when a proposal expires', () => {
+    const [event] = buildCalendarEvents(sources({ proposals: [proposal({ expiredEpoch: 537 })] }), {
+      ...FILTER,
+      categories: ['proposals'],
+    });
+    expect(event.status).toBe('CANCELLED');
+    expect(event.summary).toMatch(/^Expired:/);
+  });
+
+  it('should name the DReps that still owe a vote when following obligations', () => {
+    const [event] = buildCalendarEvents(
+      sources({ proposals: [proposal({ pendingDReps: ['drep1' + 'q'.repeat(50)] })] }),
+      { ...FILTER, categories: ['proposals'] },
+    );
+    expect(event.summary).toMatch(/^Vote due:/);
+    expect(event.description).toContain('Still to vote: drep1qqqqqqqqq');
+  });
+
+  it('should include the current and upcoming epoch boundaries when epochs are requested', () => {
+    const events = buildCalendarEvents(sources(), { ...FILTER, categories: ['epochs'] });
+    expect(events.map((e) => e.uid.split('@')[0])).toEqual([
+      'epoch-533',
+      'epoch-534',
+      'epoch-535',
+      'epoch-536',
+      'epoch-537',
+      'epoch-538',
+      'epoch-539',
+    ]);
+  });
+
+  it('should stop reminding when a poll or assembly has closed', () => {
+    const events = buildCalendarEvents(
+      sources({
+        polls: [
+          {
+            txHash: 'b'.repeat(64),
+            index: 1,
+            cycle: 2,
+            title: null,
+            openedEpoch: 530,
+            closesEpoch: 532,
+            status: 'closed',
+          },
+        ],
+        assemblies: [
+          {
+            id: 'asm-1',
+            title: 'Treasury priorities',
+            opensAt: '2025-03-01T00:00:00Z',
+            closesAt: '2025-03-06T00:00:00Z',
+            status: 'active',
+          },
+        ],
+      }),
+      { ...FILTER, categories: ['polls', 'assemblies'] },
+    );
+    const poll = events.find((e) => e.uid.startsWith('poll-'))!;
+    const assembly = events.find((e) => e.uid.startsWith('assembly-'))!;
+    expect(poll.uid).toContain(`poll-${'b'.repeat(64)}-1-2@`);
+    expect(poll.alarmMinutes).toEqual([]);
+    expect(assembly.alarmMinutes).toEqual([1440]);
+    expect(assembly.end.toISOString()).toBe('2025-03-06T00:00:00.000Z');
+  });
+});
+
+describe('parseCalendarFilter', () => {
+  it('should use every category and a one-day reminder when no parameters are given', () => {
+    const parsed = parseCalendarFilter(new URLSearchParams());
+    expect(parsed).toEqual({ filter: FILTER });
+  });
+
+  it('should parse filters when parameters are valid', () => {
+    const parsed = parseCalendarFilter(
+      new URLSearchParams(
+        'include=proposals,polls&type=InfoAction&drep=' + 'f'.repeat(56) + '&alarm=48,2',
+      ),
+    );
+    expect(parsed).toEqual({
+      filter: {
+        categories: ['proposals', 'polls'],
+        proposalTypes: ['InfoAction'],
+        obligationsOf: ['f'.repeat(56)],
+        alarmMinutes: [2880, 120],
+      },
+    });
+  });
+
+  it('should reject a request when a value is invalid', () => {
+    expect(parseCalendarFilter(new URLSearchParams('include=birthdays'))).toHaveProperty('error');
+    expect(parseCalendarFilter(new URLSearchParams('drep=not-a-drep'))).toHaveProperty('error');
+    expect(parseCalendarFilter(new URLSearchParams('alarm=1.5'))).toHaveProperty('error');
+    expect(parseCalendarFilter(new URLSearchParams('alarm=none'))).toEqual({
+      filter: { ...FILTER, alarmMinutes: [] },
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SUPPORTED_LOCALES,
+  formatAdaAmount,
+  formatNumber,
+  negotiateLocale,
+  t,
+  tPlural,
+  toLocale,
+} from '@/lib/i18n';
+import { en } from '@/lib/i18n/messages/en';
+import { buildTranslationPrompt, hashSource } from '@/lib/i18n/aiContent';
+import { renderPush, renderTelegram } from '@/lib/channelRenderers';
+import { generateActions } from '@/lib/actionFeed';
+
+describe('negotiateLocale', () => {
+  it('should pick the highest-weighted supported language when several are accepted', () => {
+    expect(negotiateLocale('fr-FR,fr;q=0.9,ja;q=0.8,en;q=0.7')).toBe('ja');
+  });
+
+  it('should ignore region subtags when matching', () => {
+    expect(negotiateLocale('pt-BR')).toBe('pt');
+  });
+
+  it('should fall back to English when nothing matches or the header is missing', () => {
+    expect(negotiateLocale('de-DE,fr;q=0.5')).toBe('en');
+    expect(negotiateLocale(null)).toBe('en');
+  });
+
+  it('should coerce unknown stored values to the default locale', () => {
+    expect(toLocale('vi')).toBe('vi');
+    expect(toLocale('xx')).toBe('en');
+  });
+});
+
+describe('t', () => {
+  it('should interpolate placeholders when vars are given', () => {
+    expect(t('es', 'notifications.treasuryProposalBody', { title: 'Hydra', amount: '₳5' })).toBe(
+      '"Hydra" solicita ₳5 de la tesorería.',
+    );
+  });
+
+  it('should fall back to English when a locale omits a key', () => {
+    expect(t('ja', 'notifications.entityDrep')).toBe(en.notifications.entityDrep);
+  });
+
+  it('should resolve every catalog key in every locale', () => {
+    for (const locale of SUPPORTED_LOCALES) {
+      for (const [ns, keys] of Object.entries(en)) {
+        for (const key of Object.keys(keys)) {
+          expect(t(locale, `${ns}.${key}` as Parameters<typeof t>[1])).not.toBe(`${ns}.${key}`);
+        }
+      }
+    }
+  });
+});
+
+describe('tPlural', () => {
+  it('should pick the singular form by the locale plural rules', () => {
+    expect(tPlural('en', 'inbox.unread', 1)).toBe('1 unread notification');
+    expect(tPlural('en', 'inbox.unread', 2)).toBe('2 unread notifications');
+    expect(tPlural('pt', 'inbox.epochsLeft', 1)).toBe('1 época restante');
+  });
+
+  it('should use the single form of languages without plural inflection', () => {
+    expect(tPlural('ja', 'inbox.unread', 1)).toBe('未読の通知 1 件');
+  });
+
+  it('should format the count for the locale', () => {
+    expect(tPlural('es', 'actions.voteRequiredTitle', 1200)).toBe(
+      '1200 propuestas esperan tu voto',
+    );
+    expect(tPlural('en', 'actions.voteRequiredTitle', 1200)).toBe(
+      '1,200 proposals await your vote',
+    );
+  });
+});
+
+describe('formatting', () => {
+  it('should group numbers per locale', () => {
+    expect(formatNumber(1234567.5, 'en')).toBe('1,234,567.5');
+    expect(formatNumber(1234567.5, 'es')).toBe('1.234.567,5');
+  });
+
+  it('should keep the ADA symbol and compact large amounts when asked', () => {
+    expect(formatAdaAmount(1_500_000_000, 'en', { compact: true })).toBe('₳1.5B');
+    expect(formatAdaAmount(1234.567, 'en')).toBe('₳1,234.57');
+  });
+});
+
+describe('notification rendering', () => {
+  const drift = {
+    eventType: 'alignment-drift',
+    data: { driftScore: 18, classification: 'high' },
+    fallback: { title: 'Drift', body: 'Drift', url: 'https://drepscore.io/my-gov' },
+  };
+
+  it('should render structured content in the payload locale', () => {
+    const push = renderPush({ ...drift, locale: 'es' });
+    expect(push.title).toBe('Desviación de alineación detectada');
+    expect(push.body).toContain('18 puntos');
+  });
+
+  it('should default to English when the payload has no locale', () => {
+    expect(renderPush(drift).title).toBe('Alignment Drift Detected');
+  });
+
+  it('should localize the Telegram link label', () => {
+    expect(renderTelegram({ ...drift, locale: 'vi' }).text).toContain('[Xem trên Civica]');
+  });
+
+  it('should localize numbers and ADA amounts in structured alerts', () => {
+    const push = renderPush({
+      eventType: 'treasury-health-alert',
+      data: { dropFraction: 0.062, balanceAda: 1_480_000_000 },
+      fallback: { title: 'Treasury', body: 'Treasury' },
+      locale: 'es',
+    });
+    expect(push.title).toBe('El saldo de la tesorería bajó considerablemente');
+    expect(push.body).toContain('6,2');
+    expect(push.body).toMatch(/₳1480\sM/);
+  });
+
+  it('should sign delegator deltas and pluralize by their size', () => {
+    const loss = renderPush({
+      eventType: 'delegation-change',
+      data: { delta: -1, count: 41 },
+      fallback: { title: '-1 delegator', body: '' },
+    });
+    expect(loss.title).toBe('-1 delegator');
+    expect(loss.body).toBe('You now have 41 delegators.');
+  });
+
+  it('should pass fallback text through unchanged when there is no builder', () => {
+    const push = renderPush({
+      eventType: 'proposal-open',
+      fallback: { title: 'New proposal', body: 'Vote soon' },
+      locale: 'ja',
+    });
+    expect(push.title).toBe('New proposal');
+  });
+});
+
+describe('action feed', () => {
+  it('should write actions in the requested locale', () => {
+    const [action] = generateActions({ segment: 'drep', pendingVotesCount: 3, locale: 'vi' });
+    expect(action.title).toBe('3 đề xuất đang chờ phiếu của bạn');
+    expect(action.cta).toBe('Xem đề xuất');
+  });
+
+  it('should default to English copy', () => {
+    const [action] = generateActions({ segment: 'drep', pendingVotesCount: 1 });
+    expect(action.title).toBe('1 proposal awaits your vote');
+  });
+});
+
+describe('AI content localization', () => {
+  it('should change the source hash when the English text changes', () => {
+    expect(hashSource('a')).toBe(hashSource('a'));
+    expect(hashSource('a')).not.toBe(hashSource('b'));
+  });
+
+  it('should name the target language in the translation prompt', () => {
+    const prompt = buildTranslationPrompt('epoch_recap', 'Three proposals were ratified.', 'ja');
+    expect(prompt).toContain('into Japanese');
+    expect(prompt).toContain('Three proposals were ratified.');
+  });
+});
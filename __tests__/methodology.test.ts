@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/utils/display', () => ({
+  isValidatedSocialLink: () => false,
+}));
+
+import {
+  METHODOLOGY_PROFILES,
+  CURRENT_METHODOLOGY,
+  getCandidateProfiles,
+  decayLambda,
+} from '@/lib/scoring/methodology';
+import { normalizePillar } from '@/lib/scoring/percentile';
+import { compareMethodologies, type MethodologyScoreEntry } from '@/lib/scoring/methodologyDiff';
+import { computeDRepScores } from '@/lib/scoring/drepScore';
+import { PILLAR_WEIGHTS, DECAY_HALF_LIFE_DAYS } from '@/lib/scoring/types';
+import { computeTier } from '@/lib/scoring/tiers';
+
+function entries(scores: Record<string, number>): Map<string, MethodologyScoreEntry> {
+  return new Map(
+    Object.entries(scores).map(([id, composite]) => [
+      id,
+      { composite, tier: computeTier(composite) },
+    ]),
+  );
+}
+
+// ── Profiles ─────────────────────────────────────────────────────────────────
+
+describe('METHODOLOGY_PROFILES', () => {
+  it('should have pillar weights summing to 1 for every profile', () => {
+    for (const profile of Object.values(METHODOLOGY_PROFILES)) {
+      const sum = Object.values(profile.pillarWeights).reduce((a, b) => a + b, 0);
+      expect(sum).toBeCloseTo(1.0, 5);
+    }
+  });
+
+  it('should key every profile by its version', () => {
+    for (const [key, profile] of Object.entries(METHODOLOGY_PROFILES)) {
+      expect(profile.version).toBe(key);
+    }
+  });
+
+  it('should derive the exported V3 constants from the current profile', () => {
+    expect(PILLAR_WEIGHTS).toEqual(CURRENT_METHODOLOGY.pillarWeights);
+    expect(DECAY_HALF_LIFE_DAYS).toBe(CURRENT_METHODOLOGY.decayHalfLifeDays);
+    expect(CURRENT_METHODOLOGY.status).toBe('current');
+  });
+
+  it('should never list the current profile as a candidate', () => {
+    expect(getCandidateProfiles().map((p) => p.version)).not.toContain(CURRENT_METHODOLOGY.version);
+  });
+
+  it('should halve decay weight after one half-life', () => {
+    const lambda = decayLambda(CURRENT_METHODOLOGY);
+    expect(Math.exp(-lambda * CURRENT_METHODOLOGY.decayHalfLifeDays)).toBeCloseTo(0.5, 5);
+  });
+});
+
+// ── normalizePillar ──────────────────────────────────────────────────────────
+
+describe('normalizePillar', () => {
+  const raw = new Map([
+    ['a', 20],
+    ['b', 40],
+    ['c', 80],
+  ]);
+
+  it('should return percentile ranks for the rank strategy', () => {
+    expect(normalizePillar(raw, 'rank')).toEqual(
+      new Map([
+        ['a', 0],
+        ['b', 50],
+        ['c', 100],
+      ]),
+    );
+  });
+
+  it('should rescale linearly for the minmax strategy', () => {
+    expect(normalizePillar(raw, 'minmax').get('b')).toBe(33);
+  });
+
+  it('should pass raw scores through for the raw strategy', () => {
+    expect(normalizePillar(raw, 'raw')).toEqual(raw);
+  });
+
+  it('should return 50 for every entry when minmax has no spread', () => {
+    const flat = new Map([
+      ['a', 10],
+      ['b', 10],
+    ]);
+    expect([...normalizePillar(flat, 'minmax').values()]).toEqual([50, 50]);
+  });
+});
+
+// ── computeDRepScores with profiles ──────────────────────────────────────────
+
+describe('computeDRepScores with a methodology profile', () => {
+  it('should apply the profile pillar weights', () => {
+    const only = (id: string, v: number) => new Map([[id, v]]);
+    const profile = {
+      ...CURRENT_METHODOLOGY,
+      pillarWeights: {
+        engagementQuality: 1,
+        effectiveParticipation: 0,
+        reliability: 0,
+        governanceIdentity: 0,
+      },
+    };
+    const scores = computeDRepScores(
+      only('d', 100),
+      only('d', 0),
+      only('d', 0),
+      only('d', 0),
+      new Map(),
+      profile,
+    );
+    // Single entry percentile = 50, weighted entirely on engagement
+    expect(scores.get('d')?.composite).toBe(50);
+  });
+});
+
+// ── compareMethodologies ─────────────────────────────────────────────────────
+
+describe('compareMethodologies', () => {
+  it('should report identical orderings with correlation 1 and no crossings', () => {
+    const scores = entries({ a: 90, b: 60, c: 30 });
+    const report = compareMethodologies(scores, scores, 'v3', 'v3');
+    expect(report.rankCorrelation).toBe(1);
+    expect(report.meanAbsScoreDelta).toBe(0);
+    expect(report.tierCrossings).toEqual({ up: 0, down: 0, byTransition: {} });
+  });
+
+  it('should count tier crossings in both directions', () => {
+    const base = entries({ a: 72, b: 50, c: 30 });
+    const candidate = entries({ a: 68, b: 58, c: 30 });
+    const report = compareMethodologies(base, candidate, 'v3', 'next');
+    expect(report.tierCrossings.up).toBe(1);
+    expect(report.tierCrossings.down).toBe(1);
+    expect(report.tierCrossings.byTransition).toEqual({
+      'Gold→Silver': 1,
+      'Bronze→Silver': 1,
+    });
+  });
+
+  it('should list risers and fallers by rank movement', () => {
+    const base = entries({ a: 90, b: 60, c: 30 });
+    const candidate = entries({ a: 40, b: 60, c: 80 });
+    const report = compareMethodologies(base, candidate, 'v3', 'next');
+    expect(report.biggestRisers.map((c) => c.drepId)).toEqual(['c']);
+    expect(report.biggestFallers.map((c) => c.drepId)).toEqual(['a']);
+    expect(report.rankCorrelation).toBe(-1);
+  });
+
+  it('should only compare DReps present in both runs', () => {
+    const report = compareMethodologies(
+      entries({ a: 50, b: 50 }),
+      entries({ a: 50, c: 50 }),
+      'v3',
+      'next',
+    );
+    expect(report.drepCount).toBe(1);
+  });
+});
@@ -0,0 +1,370 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { bech32 } from 'bech32';
+import { blake2b } from 'blakejs';
+import { resolveSlotNo } from '@meshsdk/core';
+
+const { sessionRow } = vi.hoisted(() => ({
+  sessionRow: { current: null as Record<string, unknown> | null },
+}));
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: () => ({
+    from: (table: string) => {
+      const query: Record<string, unknown> = {
+        select: () => query,
+        eq: () => query,
+        maybeSingle: async () => ({
+          data: table === 'multisig_signing_sessions' ? sessionRow.current : null,
+        }),
+        then: (resolve: (result: { data: unknown[] }) => unknown) => resolve({ data: [] }),
+      };
+      return query;
+    },
+  }),
+}));
+
+import {
+  bytesToHex,
+  concatBytes,
+  encodeArray,
+  encodeBytes,
+  encodeHead,
+  encodeMap,
+  hexToBytes,
+} from '@/lib/multisig/cbor';
+import {
+  decodeNativeScript,
+  describeScript,
+  isScriptSatisfied,
+  nativeScriptHash,
+  signaturesNeeded,
+} from '@/lib/multisig/nativeScript';
+import {
+  addressCredentials,
+  attachVkeyWitnesses,
+  decodeGovernanceTx,
+  extractVkeyWitnesses,
+  inputKeyHashes,
+  transactionHash,
+  verifyVkeyWitness,
+} from '@/lib/multisig/transaction';
+import { createSigningSession, getSigningSession } from '@/lib/multisig/session';
+import { deriveDRepIdFromStakeAddress, drepKeyHash, drepScriptHash } from '@/utils/drepId';
+import { submitTransaction } from '@/utils/koios';
+
+const uint = (n: number) => encodeHead(0, n);
+const text = (s: string) => {
+  const bytes = new Uint8Array(Buffer.from(s, 'utf8'));
+  return concatBytes([encodeHead(3, bytes.length), bytes]);
+};
+const NULL = new Uint8Array([0xf6]);
+const TRUE = new Uint8Array([0xf5]);
+const hex = (h: string) => encodeBytes(hexToBytes(h));
+
+function newKey() {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const vkey = Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url');
+  const keyHash = bytesToHex(blake2b(new Uint8Array(vkey), undefined, 28));
+  return { vkey: vkey.toString('hex'), keyHash, privateKey };
+}
+
+const KEYS = [newKey(), newKey(), newKey()];
+const sig = (keyHash: string) => encodeArray([uint(0), hex(keyHash)]);
+/** atLeast 2 of the three keys */
+const SCRIPT_CBOR = bytesToHex(
+  encodeArray([uint(3), uint(2), encodeArray(KEYS.map((k) => sig(k.keyHash)))]),
+);
+const SCRIPT_HASH = nativeScriptHash(SCRIPT_CBOR);
+const GOV_ACTION = 'ab'.repeat(32);
+const INPUT_TX = '12'.repeat(32);
+/** Mainnet enterprise addresses (header 6 for a key, 7 for a script) */
+const keyAddress = (keyHash: string) =>
+  bech32.encode('addr', bech32.toWords(new Uint8Array([0x61, ...hexToBytes(keyHash)])), 256);
+const scriptAddress = (scriptHash: string) =>
+  bech32.encode('addr', bech32.toWords(new Uint8Array([0x71, ...hexToBytes(scriptHash)])), 256);
+
+function buildTx(
+  extraBody: Array<[Uint8Array, Uint8Array]> = [],
+  voterHash = SCRIPT_HASH,
+  invalidHereafter = 150_000_000,
+): string {
+  const votes = encodeMap([
+    [
+      encodeArray([uint(3), hex(voterHash)]),
+      encodeMap([
+        [
+          encodeArray([hex(GOV_ACTION), uint(1)]),
+          encodeArray([uint(1), encodeArray([text('https://x.io/r.json'), hex('cd'.repeat(32))])]),
+        ],
+      ]),
+    ],
+  ]);
+  const output = encodeArray([
+    encodeBytes(new Uint8Array([0x61, ...hexToBytes(KEYS[0].keyHash)])),
+    encodeArray([
+      uint(5_000_000),
+      encodeMap([[hex('ef'.repeat(28)), encodeMap([[hex('41'), uint(1)]])]]),
+    ]),
+  ]);
+  const body = encodeMap([
+    [uint(0), encodeArray([encodeArray([hex(INPUT_TX), uint(0)])])],
+    [uint(1), encodeArray([output])],
+    [uint(2), uint(200_000)],
+    [uint(3), uint(invalidHereafter)],
+    ...extraBody,
+    [uint(19), votes],
+  ]);
+  const witnessSet = encodeMap([[uint(1), encodeArray([hexToBytes(SCRIPT_CBOR)])]]);
+  return bytesToHex(encodeArray([body, witnessSet, TRUE, NULL]));
+}
+
+function witnessSetFor(keys: typeof KEYS, txHash: string): string {
+  const pairs = keys.map((k) =>
+    encodeArray([
+      hex(k.vkey),
+      encodeBytes(new Uint8Array(sign(null, Buffer.from(txHash, 'hex'), k.privateKey))),
+    ]),
+  );
+  return bytesToHex(encodeMap([[uint(0), encodeArray(pairs)]]));
+}
+
+describe('native scripts', () => {
+  it('should decode thresholds and count the signatures still needed', () => {
+    const script = decodeNativeScript(SCRIPT_CBOR);
+    const validity = { invalidBefore: null, invalidHereafter: 100 };
+
+    expect(describeScript(script)).toBe('2 of 3 keys');
+    expect(signaturesNeeded(script, new Set(), validity)).toBe(2);
+    expect(signaturesNeeded(script, new Set([KEYS[2].keyHash]), validity)).toBe(1);
+    expect(isScriptSatisfied(script, new Set([KEYS[0].keyHash, KEYS[2].keyHash]), validity)).toBe(
+      true,
+    );
+  });
+
+  it('should treat unmet time locks as unsatisfiable when the validity interval misses them', () => {
+    const script = decodeNativeScript(
+      bytesToHex(
+        encodeArray([
+          uint(1),
+          encodeArray([sig(KEYS[0].keyHash), encodeArray([uint(4), uint(500)])]),
+        ]),
+      ),
+    );
+    const signed = new Set([KEYS[0].keyHash]);
+
+    expect(signaturesNeeded(script, signed, { invalidBefore: 400, invalidHereafter: 900 })).toBe(
+      Infinity,
+    );
+    expect(isScriptSatisfied(script, signed, { invalidBefore: 500, invalidHereafter: 900 })).toBe(
+      true,
+    );
+  });
+
+  it('should hash scripts with the native script tag', () => {
+    const tagged = new Uint8Array([0, ...hexToBytes(SCRIPT_CBOR)]);
+    expect(SCRIPT_HASH).toBe(bytesToHex(blake2b(tagged, undefined, 28)));
+  });
+});
+
+describe('multisig transactions', () => {
+  it('should read votes, validity and the script from the transaction', () => {
+    const decoded = decodeGovernanceTx(buildTx(), 'vote', SCRIPT_HASH);
+
+    expect(decoded.votes).toEqual([
+      {
+        govActionTxHash: GOV_ACTION,
+        govActionIndex: 1,
+        vote: 'Yes',
+        anchorUrl: 'https://x.io/r.json',
+        anchorHash: 'cd'.repeat(32),
+      },
+    ]);
+    expect(decoded.validity).toEqual({ invalidBefore: null, invalidHereafter: 150_000_000 });
+    expect(decoded.nativeScripts).toEqual([SCRIPT_CBOR]);
+    expect(decoded.txHash).toHaveLength(64);
+  });
+
+  it('should read the inputs, outputs and fee so co-signers see what the transaction spends', () => {
+    const decoded = decodeGovernanceTx(buildTx(), 'vote', SCRIPT_HASH);
+
+    expect(decoded.inputs).toEqual([`${INPUT_TX}#0`]);
+    expect(decoded.outputs).toEqual([
+      { address: keyAddress(KEYS[0].keyHash), lovelace: 5_000_000, assets: 1 },
+    ]);
+    expect(decoded.fee).toBe(200_000);
+  });
+
+  it('should take fee payers from key-locked inputs and refuse script-locked ones', () => {
+    expect(inputKeyHashes([keyAddress(KEYS[0].keyHash), keyAddress(KEYS[0].keyHash)])).toEqual([
+      KEYS[0].keyHash,
+    ]);
+    expect(() => inputKeyHashes([scriptAddress(SCRIPT_HASH)])).toThrow('payment keys');
+    expect(addressCredentials(scriptAddress(SCRIPT_HASH))).toEqual({
+      payment: { kind: 'script', hash: SCRIPT_HASH },
+      stake: null,
+    });
+  });
+
+  it('should reject transactions that withdraw funds or vote as another DRep', () => {
+    const withdrawal: [Uint8Array, Uint8Array] = [uint(5), encodeMap([])];
+    expect(() => decodeGovernanceTx(buildTx([withdrawal]), 'vote', SCRIPT_HASH)).toThrow(
+      'withdrawals',
+    );
+    expect(() => decodeGovernanceTx(buildTx([], 'ef'.repeat(28)), 'vote', SCRIPT_HASH)).toThrow(
+      'different voter',
+    );
+    expect(() => decodeGovernanceTx(buildTx(), 'drep_update', SCRIPT_HASH)).toThrow();
+  });
+
+  it('should verify witnesses over the transaction id and reject forged ones', () => {
+    const tx = buildTx();
+    const txHash = transactionHash(tx);
+    const [witness] = extractVkeyWitnesses(witnessSetFor([KEYS[0]], txHash), txHash);
+
+    expect(witness.keyHash).toBe(KEYS[0].keyHash);
+    expect(verifyVkeyWitness(witness, txHash)).toBe(true);
+    expect(verifyVkeyWitness(witness, '00'.repeat(32))).toBe(false);
+  });
+
+  it('should splice witnesses in without changing the transaction id', () => {
+    const tx = buildTx();
+    const txHash = transactionHash(tx);
+    const witnesses = extractVkeyWitnesses(witnessSetFor([KEYS[0], KEYS[1]], txHash), txHash);
+
+    const signed = attachVkeyWitnesses(tx, witnesses);
+
+    expect(transactionHash(signed)).toBe(txHash);
+    expect(decodeGovernanceTx(signed, 'vote', SCRIPT_HASH).nativeScripts).toEqual([SCRIPT_CBOR]);
+    expect(extractVkeyWitnesses(signed, txHash).map((w) => w.keyHash)).toEqual([
+      KEYS[0].keyHash,
+      KEYS[1].keyHash,
+    ]);
+    expect(() => extractVkeyWitnesses(signed, 'ff'.repeat(32))).toThrow('does not match');
+  });
+});
+
+describe('DRep ID credentials', () => {
+  const encode = (prefix: string, bytes: number[]) =>
+    bech32.encode(prefix, bech32.toWords(new Uint8Array(bytes)), 256);
+  const hash = Array.from(hexToBytes(SCRIPT_HASH));
+
+  it('should recognise CIP-129 and CIP-105 script DRep IDs', () => {
+    expect(drepScriptHash(encode('drep', [0x23, ...hash]))).toBe(SCRIPT_HASH);
+    expect(drepScriptHash(encode('drep_script', hash))).toBe(SCRIPT_HASH);
+    expect(drepScriptHash(encode('drep', [0x22, ...hash]))).toBeNull();
+    expect(drepScriptHash('not-a-drep')).toBeNull();
+  });
+
+  it('should derive key-hash DRep IDs on testnet too when the stake address is a key', () => {
+    const drepId = deriveDRepIdFromStakeAddress(encode('stake_test', [0xe1, ...hash]));
+    expect(drepId).not.toBeNull();
+    expect(drepScriptHash(drepId!)).toBeNull();
+  });
+
+  it('should read the key hash from CIP-129 and CIP-105 key DRep IDs', () => {
+    const drepId = deriveDRepIdFromStakeAddress(encode('stake', [0xe1, ...hash]));
+    expect(drepKeyHash(drepId!)).toBe(SCRIPT_HASH);
+    expect(drepKeyHash(encode('drep', hash))).toBe(SCRIPT_HASH);
+    expect(drepKeyHash(encode('drep', [0x23, ...hash]))).toBeNull();
+    expect(drepKeyHash('not-a-drep')).toBeNull();
+  });
+});
+
+describe('signing sessions', () => {
+  const liveTx = () =>
+    buildTx([], SCRIPT_HASH, Number(resolveSlotNo('mainnet', Date.now() + 86_400_000)));
+  const utxoInfo = (address: string) =>
+    vi
+      .fn()
+      .mockResolvedValue(
+        new Response(
+          JSON.stringify([{ tx_hash: INPUT_TX, tx_index: 0, address, is_spent: false }]),
+        ),
+      );
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    sessionRow.current = null;
+  });
+
+  it('should refuse a session from someone who is neither a co-signer nor the fee payer', async () => {
+    vi.stubGlobal('fetch', utxoInfo(keyAddress(KEYS[1].keyHash)));
+    const session = createSigningSession({
+      kind: 'vote',
+      drepId: bech32.encode('drep_script', bech32.toWords(hexToBytes(SCRIPT_HASH)), 256),
+      unsignedTx: liveTx(),
+      creatorAddress: keyAddress('99'.repeat(28)),
+    });
+
+    await expect(session).rejects.toMatchObject({ status: 403 });
+  });
+
+  it("should refuse a session whose inputs are locked by the DRep's script", async () => {
+    vi.stubGlobal('fetch', utxoInfo(scriptAddress(SCRIPT_HASH)));
+    const session = createSigningSession({
+      kind: 'vote',
+      drepId: bech32.encode('drep_script', bech32.toWords(hexToBytes(SCRIPT_HASH)), 256),
+      unsignedTx: liveTx(),
+      creatorAddress: keyAddress(KEYS[0].keyHash),
+    });
+
+    await expect(session).rejects.toMatchObject({
+      status: 400,
+      message: expect.stringContaining('payment keys'),
+    });
+  });
+
+  it('should report an abandoned submission claim as failed so it can be retried', async () => {
+    const tx = liveTx();
+    const decoded = decodeGovernanceTx(tx, 'vote', SCRIPT_HASH);
+    sessionRow.current = {
+      id: 's1',
+      kind: 'vote',
+      drep_id: 'drep_script1x',
+      script_hash: SCRIPT_HASH,
+      script_cbor: SCRIPT_CBOR,
+      unsigned_tx: tx,
+      tx_hash: decoded.txHash,
+      fee_payer_key_hashes: [KEYS[1].keyHash],
+      invalid_before: null,
+      invalid_hereafter: decoded.validity.invalidHereafter,
+      summary: { votes: decoded.votes, drepUpdate: null, outputs: decoded.outputs, fee: 200_000 },
+      status: 'submitting',
+      error: null,
+      created_by: null,
+      expires_at: new Date(Date.now() + 86_400_000).toISOString(),
+      submitted_at: null,
+      created_at: new Date(Date.now() - 3_600_000).toISOString(),
+      updated_at: new Date(Date.now() - 3_600_000).toISOString(),
+    };
+
+    expect((await getSigningSession('s1'))?.status).toBe('failed');
+
+    sessionRow.current.updated_at = new Date().toISOString();
+    expect((await getSigningSession('s1'))?.status).toBe('submitting');
+  });
+});
+
+describe('submitTransaction', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should surface the node rejection and never resubmit when the submit fails', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(new Response('BadInputsUTxO: inputs already spent', { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(submitTransaction(buildTx())).rejects.toThrow('BadInputsUTxO');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return the transaction hash when the node accepts it', async () => {
+    const txHash = 'ef'.repeat(32);
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify(txHash))));
+
+    expect(await submitTransaction(buildTx())).toBe(txHash);
+  });
+});
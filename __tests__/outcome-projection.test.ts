@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTimingCurve,
+  castShareAt,
+  projectOutcome,
+  remainingTurnout,
+  requiredBodies,
+  voterLeaning,
+  windowProgress,
+  type BodyInputs,
+  type ProjectionVoter,
+  type VoteChoice,
+} from '@/lib/projection/model';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function voter(
+  id: string,
+  weight: number,
+  cast: VoteChoice | null,
+  overrides: Partial<ProjectionVoter> = {},
+): ProjectionVoter {
+  return { id, weight, cast, participation: 0.8, history: [], ...overrides };
+}
+
+function drepBody(voters: ProjectionVoter[], extra: Partial<BodyInputs> = {}): BodyInputs {
+  return { body: 'drep', threshold: 0.67, voters, ...extra };
+}
+
+// ── CIP-1694 rules ───────────────────────────────────────────────────────────
+
+describe('requiredBodies', () => {
+  it('should require DReps and CC for treasury withdrawals', () => {
+    expect(requiredBodies('TreasuryWithdrawals')).toEqual(['drep', 'cc']);
+  });
+
+  it('should add SPOs only for security-group parameter changes', () => {
+    expect(requiredBodies('ParameterChange', { key_deposit: 2000000 })).toEqual(['drep', 'cc']);
+    expect(requiredBodies('ParameterChange', { max_tx_size: 16384 })).toEqual([
+      'drep',
+      'spo',
+      'cc',
+    ]);
+  });
+
+  it('should skip the CC on a no-confidence motion', () => {
+    expect(requiredBodies('NoConfidence')).toEqual(['drep', 'spo']);
+  });
+
+  it('should return no bodies for info actions', () => {
+    expect(requiredBodies('InfoAction')).toEqual([]);
+  });
+});
+
+// ── Timing ───────────────────────────────────────────────────────────────────
+
+describe('timing', () => {
+  it('should measure progress through the voting window', () => {
+    expect(windowProgress(500, 505, 500)).toBe(0);
+    expect(windowProgress(500, 505, 503)).toBe(0.5);
+    expect(windowProgress(500, 505, 510)).toBe(1);
+  });
+
+  it('should build a cumulative curve from vote timing samples', () => {
+    const curve = buildTimingCurve([0.1, 0.1, 0.1, 0.9]);
+    expect(curve).toHaveLength(21);
+    expect(castShareAt(curve, 0.5)).toBe(0.75);
+    expect(castShareAt(curve, 1)).toBe(1);
+  });
+
+  it('should fall back to a linear curve with no samples', () => {
+    expect(castShareAt(buildTimingCurve([]), 0.3)).toBeCloseTo(0.3, 10);
+  });
+
+  it('should update turnout for voters who stayed silent so far', () => {
+    expect(remainingTurnout(1, 0)).toBe(1);
+    expect(remainingTurnout(0.5, 0.5)).toBeCloseTo(1 / 3, 10);
+    expect(remainingTurnout(0.9, 1)).toBe(0);
+  });
+});
+
+// ── Leanings ─────────────────────────────────────────────────────────────────
+
+describe('voterLeaning', () => {
+  const prior = { yes: 1 / 3, no: 1 / 3, abstain: 1 / 3 };
+
+  it('should return the prior with no history', () => {
+    expect(voterLeaning([], prior).yes).toBeCloseTo(1 / 3, 10);
+  });
+
+  it('should weight past votes by similarity', () => {
+    const close = voterLeaning([{ vote: 'No', similarity: 0.9 }], prior);
+    const distant = voterLeaning([{ vote: 'No', similarity: 0.1 }], prior);
+    expect(close.no).toBeGreaterThan(distant.no);
+    expect(close.no).toBeGreaterThan(close.yes);
+  });
+});
+
+// ── projectOutcome ───────────────────────────────────────────────────────────
+
+describe('projectOutcome', () => {
+  it('should be certain once every voter has voted', () => {
+    const passing = projectOutcome([drepBody([voter('a', 80, 'Yes'), voter('b', 20, 'No')])], {
+      progress: 0.5,
+      runs: 200,
+    });
+    expect(passing.probability).toBe(1);
+    expect(passing.bodies[0].currentYesShare).toBe(0.8);
+    expect(passing.bodies[0].undecidedShare).toBe(0);
+
+    const failing = projectOutcome([drepBody([voter('a', 60, 'Yes'), voter('b', 40, 'No')])], {
+      progress: 0.5,
+      runs: 200,
+    });
+    expect(failing.probability).toBe(0);
+  });
+
+  it('should leave abstentions out of the denominator', () => {
+    const result = projectOutcome(
+      [drepBody([voter('a', 40, 'Yes'), voter('b', 10, 'No'), voter('c', 50, 'Abstain')])],
+      { progress: 0.5, runs: 50 },
+    );
+    expect(result.bodies[0].currentYesShare).toBe(0.8);
+    expect(result.probability).toBe(1);
+  });
+
+  it('should count always-no-confidence stake against', () => {
+    const voters = [voter('a', 70, 'Yes'), voter('b', 10, 'No')];
+    const without = projectOutcome([drepBody(voters)], { progress: 0.5, runs: 50 });
+    const withFixedNo = projectOutcome([drepBody(voters, { fixedNo: 30 })], {
+      progress: 0.5,
+      runs: 50,
+    });
+    expect(without.probability).toBe(1);
+    expect(withFixedNo.probability).toBe(0);
+  });
+
+  it('should project undecided voters from their history on similar proposals', () => {
+    const undecided = (vote: VoteChoice) =>
+      Array.from({ length: 20 }, (_, i) =>
+        voter(`u${i}`, 3, null, {
+          participation: 0.95,
+          history: [
+            { vote, similarity: 0.9 },
+            { vote, similarity: 0.8 },
+            { vote, similarity: 0.7 },
+          ],
+        }),
+      );
+    const base = [voter('a', 40, 'Yes')];
+
+    const supportive = projectOutcome([drepBody([...base, ...undecided('Yes')])], {
+      progress: 0.1,
+    });
+    const opposed = projectOutcome([drepBody([...base, ...undecided('No')])], { progress: 0.1 });
+
+    expect(supportive.probability).toBeGreaterThan(0.8);
+    expect(opposed.probability).toBeLessThan(0.2);
+    expect(supportive.bodies[0].projectedYesShare.p50).toBeGreaterThan(
+      supportive.bodies[0].currentYesShare,
+    );
+  });
+
+  it('should freeze the tally when the window has run out', () => {
+    const voters = [
+      voter('a', 50, 'Yes'),
+      ...Array.from({ length: 10 }, (_, i) =>
+        voter(`u${i}`, 5, null, { participation: 1, history: [{ vote: 'Yes', similarity: 1 }] }),
+      ),
+    ];
+    const result = projectOutcome([drepBody(voters)], { progress: 1, runs: 100 });
+    expect(result.bodies[0].projectedYesShare.p90).toBe(0.5);
+    expect(result.probability).toBe(0);
+  });
+
+  it('should require every body to pass in the same run', () => {
+    const drep = drepBody([voter('a', 100, 'Yes')]);
+    const cc: BodyInputs = {
+      body: 'cc',
+      threshold: 2 / 3,
+      voters: [voter('x', 1, 'Yes'), voter('y', 1, 'No'), voter('z', 1, 'No')],
+    };
+    const result = projectOutcome([drep, cc], { progress: 0.5, runs: 100 });
+    expect(result.bodies.map((b) => b.passProbability)).toEqual([1, 0]);
+    expect(result.probability).toBe(0);
+  });
+
+  it('should be reproducible for a seed and order its scenario band', () => {
+    const voters = [
+      voter('a', 45, 'Yes'),
+      voter('b', 20, 'No'),
+      ...Array.from({ length: 15 }, (_, i) => voter(`u${i}`, 3, null, { participation: 0.7 })),
+    ];
+    const first = projectOutcome([drepBody(voters)], { progress: 0.3, seed: 42 });
+    const second = projectOutcome([drepBody(voters)], { progress: 0.3, seed: 42 });
+    expect(second).toEqual(first);
+    expect(first.probabilityLow).toBeLessThanOrEqual(first.probability);
+    expect(first.probabilityHigh).toBeGreaterThanOrEqual(first.probability);
+    const band = first.bodies[0].projectedYesShare;
+    expect(band.p10).toBeLessThanOrEqual(band.p50);
+    expect(band.p50).toBeLessThanOrEqual(band.p90);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeProposalRationales,
+  extractArguments,
+  findDuplicateGroups,
+  jaccard,
+  normalizeText,
+  rationaleShingles,
+  splitSentences,
+  type RationaleInput,
+} from '@/lib/rationaleAnalysis';
+
+const TEMPLATE =
+  'The requested budget is far too high for the scope described. The team has no track record of delivering infrastructure of this size. ' +
+  'Milestones are vague and there is no independent audit or reporting plan. We would support a smaller first phase with clear deliverables.';
+
+function rationale(
+  drepId: string,
+  vote: RationaleInput['vote'],
+  text: string | null,
+  blockTime = 1000,
+  aiSummary: string | null = null,
+): RationaleInput {
+  return {
+    drepId,
+    drepName: drepId.toUpperCase(),
+    vote,
+    blockTime,
+    rationaleText: text,
+    rationaleAiSummary: aiSummary,
+  };
+}
+
+describe('text helpers', () => {
+  it('should strip urls and punctuation when normalizing', () => {
+    expect(normalizeText('See https://x.io/a — the CIP-1694 rules!')).toBe(
+      'see the cip-1694 rules',
+    );
+  });
+
+  it('should split on sentence punctuation and line breaks', () => {
+    expect(splitSentences('One. Two?\n- Three')).toEqual(['One.', 'Two?', 'Three']);
+  });
+
+  it('should give identical texts a Jaccard of 1 and unrelated texts near 0', () => {
+    const a = rationaleShingles(TEMPLATE);
+    expect(jaccard(a, rationaleShingles(TEMPLATE))).toBe(1);
+    expect(jaccard(a, rationaleShingles('I like decentralization and open source software.'))).toBe(
+      0,
+    );
+  });
+});
+
+describe('extractArguments', () => {
+  it('should tag each theme with its strongest quotable sentence', () => {
+    const args = extractArguments(TEMPLATE);
+    expect([...args.keys()].sort()).toEqual(['accountability', 'budget', 'team']);
+    expect(args.get('team')!.quote).toContain('track record');
+  });
+
+  it('should prefer a full sentence over a short fragment when both match', () => {
+    const args = extractArguments('Budget! The budget request lacks any cost breakdown at all.');
+    expect(args.get('budget')!.quote).toBe('The budget request lacks any cost breakdown at all.');
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('should group near-copies under the earliest rationale and diff the additions', () => {
+    const groups = findDuplicateGroups([
+      rationale(
+        'drep_b',
+        'No',
+        `${TEMPLATE} Our delegators asked us to be careful here too.`,
+        2000,
+      ),
+      rationale('drep_a', 'No', TEMPLATE, 1000),
+      rationale(
+        'drep_c',
+        'Yes',
+        'This brings real benefits to developers and wider adoption of the ecosystem, and the team delivered before on similar projects with measurable results.',
+      ),
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].original.drepId).toBe('drep_a');
+    expect(groups[0].copies.map((c) => c.drepId)).toEqual(['drep_b']);
+    expect(groups[0].copies[0].copiedSentences).toBe(4);
+    expect(groups[0].copies[0].addedSentences).toEqual([
+      'Our delegators asked us to be careful here too.',
+    ]);
+  });
+
+  it('should ignore short rationales and AI summaries when looking for copies', () => {
+    expect(
+      findDuplicateGroups([
+        rationale('a', 'Yes', 'I support this proposal.'),
+        rationale('b', 'Yes', 'I support this proposal.'),
+        rationale('c', 'Yes', null, 1000, TEMPLATE),
+        rationale('d', 'Yes', null, 1000, TEMPLATE),
+      ]),
+    ).toEqual([]);
+  });
+});
+
+describe('analyzeProposalRationales', () => {
+  const votes = [
+    rationale('drep_a', 'No', TEMPLATE, 1000),
+    rationale('drep_b', 'No', TEMPLATE, 2000),
+    rationale(
+      'drep_c',
+      'Yes',
+      'The ecosystem needs this: wider adoption by developers is worth the cost of the budget requested.',
+      1500,
+    ),
+    rationale('drep_d', 'Yes', null, 1600),
+    rationale('drep_e', 'Abstain', null, 1700),
+  ];
+
+  it('should report how many voters on each side explained their vote', () => {
+    const { coverage, explainedCount } = analyzeProposalRationales(votes);
+    expect(explainedCount).toBe(3);
+    expect(coverage.voters).toEqual({ Yes: 2, No: 2, Abstain: 1 });
+    expect(coverage.explained).toEqual({ Yes: 1, No: 2, Abstain: 0 });
+  });
+
+  it('should tally arguments by side and rank the most common first', () => {
+    const { arguments: args } = analyzeProposalRationales(votes);
+    expect(args[0].key).toBe('budget');
+    expect(args[0].counts).toEqual({ Yes: 1, No: 2, Abstain: 0 });
+    expect(args[0].share).toBe(1);
+  });
+
+  it('should never quote a copied rationale', () => {
+    const { arguments: args, duplicateGroups } = analyzeProposalRationales(votes);
+    expect(duplicateGroups[0].copies[0].drepId).toBe('drep_b');
+    const quoted = args.flatMap((a) => a.quotes.map((q) => q.drepId));
+    expect(quoted).not.toContain('drep_b');
+    expect(quoted).toContain('drep_a');
+  });
+});
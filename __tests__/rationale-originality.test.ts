@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectBoilerplate,
+  indexRationaleOriginality,
+  ORIGINALITY_MULTIPLIERS,
+  type IndexedRationale,
+} from '@/lib/scoring/rationaleOriginality';
+import { computeEngagementQuality } from '@/lib/scoring/engagementQuality';
+import type { VoteData } from '@/lib/scoring/types';
+
+const TEXT_A =
+  'The requested budget is far too high for the scope described. The team has no track record of delivering infrastructure of this size. ' +
+  'Milestones are vague and there is no independent audit or reporting plan. We would support a smaller first phase with clear deliverables.';
+
+const TEXT_B =
+  'This parameter change lowers the minimum pool cost and should improve decentralization for small operators. ' +
+  'The simulations published by the working group show no risk to treasury income over the next five epochs, so I support it.';
+
+function rationale(
+  voteTxHash: string,
+  drepId: string,
+  proposalKey: string,
+  blockTime: number,
+  text: string,
+): IndexedRationale {
+  return { voteTxHash, drepId, proposalKey, blockTime, text };
+}
+
+describe('detectBoilerplate', () => {
+  it('should flag a rationale when it contains an AI disclaimer', () => {
+    expect(detectBoilerplate('As an AI language model, I cannot vote.')).toContain(
+      'as an ai language model',
+    );
+  });
+
+  it('should flag a rationale when a template placeholder was left in', () => {
+    expect(detectBoilerplate('I vote Yes on [Insert Proposal Title] because it helps.')).toEqual([
+      '[Insert Proposal Title]',
+    ]);
+  });
+
+  it('should require several filler phrases when no hard marker is present', () => {
+    expect(detectBoilerplate('In conclusion, the budget is too high.')).toEqual([]);
+    expect(
+      detectBoilerplate(
+        'It is important to note that governance plays a crucial role in a rapidly evolving ecosystem.',
+      ),
+    ).toHaveLength(3);
+  });
+
+  it('should not flag specific original reasoning', () => {
+    expect(detectBoilerplate(TEXT_A)).toEqual([]);
+  });
+});
+
+describe('indexRationaleOriginality', () => {
+  it('should flag later copies by other DReps as duplicates of the earliest rationale', () => {
+    const findings = indexRationaleOriginality([
+      rationale('v2', 'drep_b', 'p1-0', 2000, `${TEXT_A} Fully agree.`),
+      rationale('v1', 'drep_a', 'p1-0', 1000, TEXT_A),
+      rationale('v3', 'drep_c', 'p1-0', 1500, TEXT_B),
+    ]);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      voteTxHash: 'v2',
+      drepId: 'drep_b',
+      flag: 'duplicate',
+      original: { voteTxHash: 'v1', drepId: 'drep_a', blockTime: 1000 },
+      multiplier: ORIGINALITY_MULTIPLIERS.duplicate,
+    });
+    expect(findings[0].similarity).toBeGreaterThan(0.8);
+  });
+
+  it('should flag a DRep reusing their own rationale on another proposal as a template', () => {
+    const findings = indexRationaleOriginality([
+      rationale('v1', 'drep_a', 'p1-0', 1000, TEXT_A),
+      rationale('v2', 'drep_a', 'p2-0', 5000, TEXT_A),
+    ]);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ voteTxHash: 'v2', flag: 'template' });
+  });
+
+  it('should not flag a re-vote on the same proposal when it reuses the DRep’s text', () => {
+    expect(
+      indexRationaleOriginality([
+        rationale('v1', 'drep_a', 'p1-0', 1000, TEXT_A),
+        rationale('v2', 'drep_a', 'p1-0', 3000, TEXT_A),
+      ]),
+    ).toEqual([]);
+  });
+
+  it('should keep the steepest discount when a copy is also boilerplate', () => {
+    const boiler = `${TEXT_A} As an AI language model I summarised the proposal.`;
+    const findings = indexRationaleOriginality([
+      rationale('v1', 'drep_a', 'p1-0', 1000, boiler),
+      rationale('v2', 'drep_b', 'p1-0', 2000, boiler),
+    ]);
+    const byHash = new Map(findings.map((f) => [f.voteTxHash, f]));
+    expect(byHash.get('v1')?.flag).toBe('boilerplate');
+    expect(byHash.get('v2')?.flag).toBe('duplicate');
+  });
+});
+
+describe('engagement quality discount', () => {
+  const NOW = 1_700_000_000;
+
+  function vote(key: string, originality?: number): VoteData {
+    return {
+      drepId: 'drep_a',
+      proposalKey: key,
+      vote: 'Yes',
+      blockTime: NOW,
+      proposalBlockTime: NOW,
+      proposalType: 'TreasuryWithdrawals',
+      rationaleQuality: 80,
+      importanceWeight: 1,
+      rationaleOriginality: originality,
+    };
+  }
+
+  it('should lower the pillar when rationales are flagged as non-original', () => {
+    const score = (votes: VoteData[]) =>
+      computeEngagementQuality(
+        new Map([['drep_a', votes]]),
+        new Map(),
+        new Set(['TreasuryWithdrawals']),
+        NOW,
+      ).get('drep_a')!;
+
+    const original = score([vote('p1-0'), vote('p2-0')]);
+    const copied = score([vote('p1-0'), vote('p2-0', ORIGINALITY_MULTIPLIERS.duplicate)]);
+    expect(copied).toBeLessThan(original);
+  });
+});
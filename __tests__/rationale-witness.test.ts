@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@meshsdk/core', () => ({
+  checkSignature: vi.fn(),
+  resolveRewardAddress: vi.fn().mockReturnValue('stake_test1uzsigner'),
+}));
+
+import { bech32 } from 'bech32';
+import { blake2bHex } from 'blakejs';
+import { checkSignature } from '@meshsdk/core';
+import {
+  buildAndHashRationale,
+  buildCip100Document,
+  hashRationale,
+  hashRationaleBody,
+  serializeRationale,
+} from '@/lib/rationale';
+import { isSignedByDRep, verifyRationaleWitness } from '@/lib/rationaleWitness';
+import { bytesToHex, encodeBytes, encodeHead, encodeMap, hexToBytes } from '@/lib/multisig/cbor';
+import {
+  computeCid,
+  createLocalPinningBackend,
+  getPinningBackend,
+  pinContent,
+  PinningError,
+  type PinningBackend,
+} from '@/lib/anchors/pinning';
+
+const coseKey = (publicKey: Uint8Array) =>
+  bytesToHex(
+    encodeMap([
+      [encodeHead(0, 1), encodeHead(0, 1)],
+      [encodeHead(1, 1), encodeBytes(publicKey)],
+    ]),
+  );
+const keyHashOf = (publicKey: Uint8Array) => blake2bHex(publicKey, undefined, 28);
+const drepIdOf = (keyHash: string) =>
+  bech32.encode('drep', bech32.toWords(new Uint8Array([0x22, ...hexToBytes(keyHash)])), 256);
+
+const SIGNER_KEY = new Uint8Array(32).fill(7);
+const SIGNED = { address: 'addr_test1qsigner', signature: 'a1b2', key: coseKey(SIGNER_KEY) };
+
+describe('rationale witness', () => {
+  beforeEach(() => {
+    vi.mocked(checkSignature).mockReset();
+  });
+
+  it('should hash the body independently of key order', async () => {
+    const body = { comment: 'Yes', references: [{ '@type': 'Other', label: 'x', uri: 'y' }] };
+    const reordered = { references: [{ uri: 'y', label: 'x', '@type': 'Other' }], comment: 'Yes' };
+    expect(await hashRationaleBody(body)).toBe(await hashRationaleBody(reordered));
+    expect(await hashRationaleBody(body)).toHaveLength(64);
+  });
+
+  it('should hash the URDNA2015 canonical N-Quads of the body', async () => {
+    const cip100 = 'https://github.com/cardano-foundation/CIPs/blob/master/CIP-0100/README.md#';
+    const nquads =
+      `_:c14n0 <${cip100}comment> "Yes"@en-us .\n` + `_:c14n1 <${cip100}body> _:c14n0 .\n`;
+    expect(await hashRationaleBody({ comment: 'Yes' })).toBe(blake2bHex(nquads, undefined, 32));
+  });
+
+  it('should verify the signature against the body hash and the claimed address', async () => {
+    vi.mocked(checkSignature).mockResolvedValue(true);
+    const { body } = buildCip100Document('Supports decentralisation', 'drep1abc');
+
+    const result = await verifyRationaleWitness(body, SIGNED);
+
+    expect(checkSignature).toHaveBeenCalledWith(
+      await hashRationaleBody(body),
+      { signature: 'a1b2', key: SIGNED.key },
+      'addr_test1qsigner',
+    );
+    expect(result).toEqual({
+      valid: true,
+      witness: { witnessAlgorithm: 'CIP-0008', publicKey: SIGNED.key, signature: 'a1b2' },
+      stakeAddress: 'stake_test1uzsigner',
+      keyHash: keyHashOf(SIGNER_KEY),
+    });
+  });
+
+  it('should not attribute a foreign stake credential to the signer when the address is a base address', async () => {
+    // Checks like Mesh's pass when the key matches only the payment part, so the
+    // stake part can be anyone's
+    vi.mocked(checkSignature).mockResolvedValue(true);
+    const victimKeyHash = keyHashOf(new Uint8Array(32).fill(9));
+    const forged = bech32.encode(
+      'addr_test',
+      bech32.toWords(
+        new Uint8Array([0x00, ...hexToBytes(keyHashOf(SIGNER_KEY)), ...hexToBytes(victimKeyHash)]),
+      ),
+      256,
+    );
+    const { body } = buildCip100Document('Text');
+
+    const result = await verifyRationaleWitness(body, { ...SIGNED, address: forged });
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.keyHash).toBe(keyHashOf(SIGNER_KEY));
+    expect(isSignedByDRep(result.keyHash, drepIdOf(victimKeyHash))).toBe(false);
+    expect(isSignedByDRep(result.keyHash, drepIdOf(keyHashOf(SIGNER_KEY)))).toBe(true);
+  });
+
+  it('should reject a witness whose COSE key carries no public key', async () => {
+    vi.mocked(checkSignature).mockResolvedValue(true);
+    const { body } = buildCip100Document('Text');
+    const keyless = bytesToHex(encodeMap([[encodeHead(0, 1), encodeHead(0, 1)]]));
+
+    expect(await verifyRationaleWitness(body, { ...SIGNED, key: keyless })).toEqual({
+      valid: false,
+      reason: 'Malformed signature',
+    });
+    expect(checkSignature).not.toHaveBeenCalled();
+  });
+
+  it('should reject a signature that does not match when verification fails', async () => {
+    vi.mocked(checkSignature).mockResolvedValue(false);
+    const { body } = buildCip100Document('Text');
+    expect(await verifyRationaleWitness(body, SIGNED)).toMatchObject({ valid: false });
+  });
+
+  it('should reject malformed signatures when decoding throws', async () => {
+    vi.mocked(checkSignature).mockRejectedValue(new Error('bad cbor'));
+    const { body } = buildCip100Document('Text');
+    expect(await verifyRationaleWitness(body, SIGNED)).toEqual({
+      valid: false,
+      reason: 'Malformed signature',
+    });
+  });
+
+  it('should embed the witness in authors and cover it with the anchor hash', () => {
+    const witness = { witnessAlgorithm: 'CIP-0008' as const, publicKey: 'c3d4', signature: 'a1b2' };
+    const unsigned = buildAndHashRationale('Text', 'drep1abc');
+    const signed = buildAndHashRationale('Text', 'drep1abc', witness);
+
+    expect(signed.document.authors).toEqual([{ name: 'drep1abc', witness }]);
+    expect(signed.document.body).toEqual(unsigned.document.body);
+    expect(signed.contentHash).not.toBe(unsigned.contentHash);
+    expect(signed.contentHash).toBe(hashRationale(JSON.parse(serializeRationale(signed.document))));
+  });
+});
+
+describe('IPFS pinning', () => {
+  const bytes = new TextEncoder().encode(
+    serializeRationale(buildCip100Document('Pinned', 'drep1abc')),
+  );
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should compute CIDv1 raw identifiers', () => {
+    // Well-known CID of an empty file added with --cid-version 1
+    expect(computeCid(new Uint8Array())).toBe(
+      'bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku',
+    );
+  });
+
+  it('should pin the exact bytes with the local backend', async () => {
+    const backend = createLocalPinningBackend();
+    const { cid, backend: name } = await pinContent(bytes, 'rationale.jsonld', backend);
+
+    expect(name).toBe('local');
+    expect(cid).toBe(computeCid(bytes));
+    expect(backend.get(cid)).toEqual(bytes);
+  });
+
+  it('should refuse a pin when the backend returns a different CID', async () => {
+    const lying: PinningBackend = {
+      name: 'lying',
+      isConfigured: () => true,
+      pin: async () => computeCid(new Uint8Array([1])),
+    };
+    await expect(pinContent(bytes, 'rationale.jsonld', lying)).rejects.toBeInstanceOf(PinningError);
+  });
+
+  it('should select backends by name and skip unconfigured ones', () => {
+    vi.stubEnv('PINATA_JWT', '');
+    vi.stubEnv('IPFS_PINNING_BACKEND', '');
+    expect(getPinningBackend()).toBeNull();
+
+    vi.stubEnv('IPFS_PINNING_BACKEND', 'local');
+    expect(getPinningBackend()?.name).toBe('local');
+
+    vi.stubEnv('IPFS_PINNING_BACKEND', '');
+    vi.stubEnv('PINATA_JWT', 'jwt');
+    expect(getPinningBackend()?.name).toBe('pinata');
+  });
+});
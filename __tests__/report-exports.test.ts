@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { toCsv } from '@/lib/reports/csv';
+import { PdfReport, wrapText, textWidth } from '@/lib/reports/pdf';
+import { renderGovernanceReportPdf } from '@/lib/reports/render';
+import type { ReportData } from '@/lib/stateOfGovernance';
+
+function pdfText(buf: Buffer): string {
+  return buf.toString('latin1');
+}
+
+const REPORT: ReportData = {
+  epoch: 540,
+  dateRange: { start: '2025-03-01', end: '2025-03-06' },
+  ghi: {
+    score: 62,
+    band: 'good',
+    components: [
+      { name: 'DRep Participation', value: 71, weight: 0.3, contribution: 21.3 },
+      { name: 'Rationale Rate', value: 48, weight: 0.2, contribution: 9.6 },
+    ],
+  },
+  ghiPrevScore: 58,
+  insights: [
+    {
+      id: 'i1',
+      headline: 'Treasury withdrawals dominate',
+      description: 'Most votes this epoch were on withdrawals.',
+      stat: '7 of 9',
+      category: 'treasury',
+    },
+  ],
+  proposals: Array.from({ length: 80 }, (_, i) => ({
+    txHash: `${i}`.padStart(64, 'a'),
+    index: 0,
+    title: `Proposal (${i}) — funding for tooling`,
+    type: 'TreasuryWithdrawals',
+    outcome: 'ratified' as const,
+    withdrawalAda: 1_000_000 + i,
+  })),
+  movers: { gainers: [{ drepId: 'drep1x', name: 'Alpha', score: 81, delta: 6 }], losers: [] },
+  stats: {
+    totalVotes: 1200,
+    totalDReps: 900,
+    activeDReps: 400,
+    totalAdaGoverned: '4.1B',
+    avgParticipation: 54,
+    avgRationale: 38,
+  },
+  communityGap: [],
+  treasuryBalance: '1.5B',
+};
+
+describe('toCsv', () => {
+  it('should quote cells when they contain commas, quotes or newlines', () => {
+    const csv = toCsv(
+      [
+        { a: 'plain', b: 'x, y' },
+        { a: 'say "hi"', b: 'line1\nline2' },
+        { a: null, b: 3 },
+      ],
+      ['a', 'b'],
+    );
+    expect(csv).toBe('a,b\r\nplain,"x, y"\r\n"say ""hi""","line1\nline2"\r\n,3\r\n');
+  });
+
+  it('should emit only the header when there are no rows', () => {
+    expect(toCsv<{ a: number }>([], ['a'])).toBe('a\r\n');
+  });
+});
+
+describe('wrapText', () => {
+  it('should keep every line within the width when wrapping a long paragraph', () => {
+    const text = 'governance '.repeat(60).trim();
+    const lines = wrapText(text, 10, 200);
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines) expect(textWidth(line, 10)).toBeLessThanOrEqual(200);
+    expect(lines.join(' ')).toBe(text);
+  });
+
+  it('should hard-split a word when it is wider than the line', () => {
+    const lines = wrapText('x'.repeat(200), 10, 100);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join('')).toBe('x'.repeat(200));
+  });
+});
+
+describe('PdfReport', () => {
+  it('should produce a well-formed PDF when content spans several pages', () => {
+    const pdf = new PdfReport('Test (report)', 'footer');
+    for (let i = 0; i < 120; i++) pdf.paragraph(`Line ${i} with a (parenthesis) and a \\ slash`);
+    const out = pdfText(pdf.toBuffer());
+
+    expect(out.startsWith('%PDF-1.4')).toBe(true);
+    expect(out.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(out).toContain('(Test \\(report\\))');
+
+    const pages = Number(/\/Count (\d+)/.exec(out)![1]);
+    expect(pages).toBeGreaterThan(1);
+    expect(out).toContain(`(Page ${pages} of ${pages})`);
+
+    // startxref points at the xref table and every entry at its object
+    const xref = Number(/startxref\n(\d+)/.exec(out)![1]);
+    expect(out.slice(xref, xref + 4)).toBe('xref');
+    const offsets = [...out.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    offsets.forEach((offset, i) =>
+      expect(out.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true),
+    );
+  });
+
+  it('should map typographic punctuation to WinAnsi when writing text', () => {
+    const pdf = new PdfReport('t', 'f');
+    pdf.paragraph('Epoch 540 — “quoted” …');
+    const out = pdfText(pdf.toBuffer());
+    expect(out).toContain('(Epoch 540 \x97 \x93quoted\x94 \x85)');
+  });
+});
+
+describe('renderGovernanceReportPdf', () => {
+  it('should render every proposal across pages when the table overflows', () => {
+    const out = pdfText(renderGovernanceReportPdf(REPORT, 'First paragraph.\n\nSecond paragraph.'));
+    expect(out).toContain('(State of Governance)');
+    expect(out).toContain('(Editorial)');
+    expect(out).toContain('(1,000,079)');
+    expect(Number(/\/Count (\d+)/.exec(out)![1])).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ALWAYS_ABSTAIN,
+  DREP_ACTIVITY_EPOCHS,
+  buildTimeline,
+  drepStatusAt,
+  groupTenures,
+  groupUnrepresented,
+  type DRepActivity,
+  type EpochDelegation,
+} from '@/lib/representationAudit';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+function delegated(
+  entries: [from: number, to: number, drepId: string | null, stake?: number][],
+): Map<number, EpochDelegation> {
+  const map = new Map<number, EpochDelegation>();
+  for (const [from, to, drepId, stake = 1_000_000_000] of entries) {
+    for (const epoch of range(from, to)) map.set(epoch, { drepId, stakeLovelace: stake });
+  }
+  return map;
+}
+
+function activity(voteEpochs: number[], lifecycle: DRepActivity['lifecycle'] = []): DRepActivity {
+  return { lifecycle, voteEpochs };
+}
+
+// ── drepStatusAt ─────────────────────────────────────────────────────────────
+
+describe('drepStatusAt', () => {
+  it('should treat DReps with no recorded activity as active', () => {
+    expect(drepStatusAt(undefined, 500)).toBe('active');
+  });
+
+  it('should mark a DRep inactive once its last action is older than drepActivity', () => {
+    const a = activity([500]);
+    expect(drepStatusAt(a, 500 + DREP_ACTIVITY_EPOCHS)).toBe('active');
+    expect(drepStatusAt(a, 501 + DREP_ACTIVITY_EPOCHS)).toBe('inactive');
+  });
+
+  it('should reactivate a DRep that updates its registration', () => {
+    const a = activity([500], [{ epoch: 530, action: 'update' }]);
+    expect(drepStatusAt(a, 525)).toBe('inactive');
+    expect(drepStatusAt(a, 531)).toBe('active');
+  });
+
+  it('should mark a DRep retired after deregistration until it registers again', () => {
+    const a = activity(
+      [],
+      [
+        { epoch: 500, action: 'registration' },
+        { epoch: 510, action: 'deregistration' },
+        { epoch: 520, action: 'registration' },
+      ],
+    );
+    expect(drepStatusAt(a, 505)).toBe('active');
+    expect(drepStatusAt(a, 512)).toBe('retired');
+    expect(drepStatusAt(a, 520)).toBe('active');
+  });
+});
+
+// ── buildTimeline ────────────────────────────────────────────────────────────
+
+describe('buildTimeline', () => {
+  it('should classify every covered epoch', () => {
+    const timeline = buildTimeline(
+      range(500, 505),
+      delegated([
+        [500, 501, 'drep1a'],
+        [503, 503, ALWAYS_ABSTAIN],
+      ]),
+      new Map([['drep1a', activity([500])]]),
+    );
+
+    expect(timeline.map((t) => t.status)).toEqual([
+      'represented',
+      'represented',
+      'no_delegation',
+      'always_abstain',
+      'no_delegation',
+      'no_delegation',
+    ]);
+  });
+
+  it('should carry a delegation through snapshot gaps once its DRep goes inactive', () => {
+    const timeline = buildTimeline(
+      range(500, 500 + DREP_ACTIVITY_EPOCHS + 3),
+      delegated([[500, 500 + DREP_ACTIVITY_EPOCHS, 'drep1a']]),
+      new Map([['drep1a', activity([500])]]),
+    );
+
+    const tail = timeline.slice(-3);
+    expect(tail.every((t) => t.drepId === 'drep1a')).toBe(true);
+    expect(tail.every((t) => t.status === 'drep_inactive')).toBe(true);
+  });
+});
+
+// ── Grouping ─────────────────────────────────────────────────────────────────
+
+describe('groupTenures', () => {
+  it('should split tenures on DRep changes and delegation gaps', () => {
+    const timeline = buildTimeline(
+      range(500, 509),
+      delegated([
+        [500, 503, 'drep1a', 2_000_000],
+        [504, 506, 'drep1b', 4_000_000],
+        [508, 509, 'drep1a', 6_000_000],
+      ]),
+      new Map(),
+    );
+
+    const tenures = groupTenures(timeline);
+    expect(tenures.map((t) => [t.drepId, t.startEpoch, t.endEpoch])).toEqual([
+      ['drep1a', 500, 503],
+      ['drep1b', 504, 506],
+      ['drep1a', 508, 509],
+    ]);
+    expect(tenures.map((t) => t.avgStakeLovelace)).toEqual([2_000_000, 4_000_000, 6_000_000]);
+  });
+
+  it('should leave predefined voting options out of tenures', () => {
+    const timeline = buildTimeline(
+      range(500, 503),
+      delegated([[500, 503, ALWAYS_ABSTAIN]]),
+      new Map(),
+    );
+    expect(groupTenures(timeline)).toEqual([]);
+  });
+});
+
+describe('groupUnrepresented', () => {
+  it('should merge consecutive epochs that share a reason', () => {
+    const timeline = buildTimeline(
+      range(500, 508),
+      delegated([
+        [502, 504, 'drep1a'],
+        [505, 506, ALWAYS_ABSTAIN],
+      ]),
+      new Map([['drep1a', activity([], [{ epoch: 504, action: 'deregistration' }])]]),
+    );
+
+    expect(groupUnrepresented(timeline)).toEqual([
+      { startEpoch: 500, endEpoch: 501, epochs: 2, reason: 'no_delegation', drepId: null },
+      { startEpoch: 504, endEpoch: 504, epochs: 1, reason: 'drep_retired', drepId: 'drep1a' },
+      {
+        startEpoch: 505,
+        endEpoch: 506,
+        epochs: 2,
+        reason: 'always_abstain',
+        drepId: ALWAYS_ABSTAIN,
+      },
+      { startEpoch: 507, endEpoch: 508, epochs: 2, reason: 'no_delegation', drepId: null },
+    ]);
+  });
+});
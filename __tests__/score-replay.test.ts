@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/utils/display', () => ({
+  isValidatedSocialLink: () => false,
+}));
+
+import { filterRowsAsOfEpoch, replayScoresAtEpoch, epochEndTime } from '@/lib/scoring/replay';
+import { blockTimeToEpoch, epochToBlockTime } from '@/lib/koios';
+import type { ReplayRows } from '@/lib/scoring/replay';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function proposal(
+  tx: string,
+  proposedEpoch: number,
+  outcome: Partial<Record<string, number>> = {},
+) {
+  return {
+    tx_hash: tx,
+    proposal_index: 0,
+    proposal_type: 'TreasuryWithdrawals',
+    treasury_tier: null,
+    withdrawal_amount: null,
+    block_time: epochToBlockTime(proposedEpoch) + 100,
+    proposed_epoch: proposedEpoch,
+    expired_epoch: outcome.expired_epoch ?? null,
+    ratified_epoch: outcome.ratified_epoch ?? null,
+    dropped_epoch: outcome.dropped_epoch ?? null,
+  };
+}
+
+function vote(
+  drepId: string,
+  tx: string,
+  epoch: number,
+  v: 'Yes' | 'No' | 'Abstain',
+  power = 1000,
+) {
+  return {
+    drep_id: drepId,
+    proposal_tx_hash: tx,
+    proposal_index: 0,
+    vote: v,
+    block_time: epochToBlockTime(epoch) + 1000,
+    epoch_no: epoch,
+    rationale_quality: null,
+    voting_power_lovelace: power,
+  };
+}
+
+function drep(id: string) {
+  return { id, info: { delegatorCount: 10 }, metadata: null, metadata_hash_verified: false };
+}
+
+function makeRows(): ReplayRows {
+  return {
+    drepRows: [drep('drep_a'), drep('drep_b'), drep('drep_c')],
+    proposalRows: [proposal('p1', 520, { ratified_epoch: 523 }), proposal('p2', 525)],
+    voteRows: [
+      vote('drep_a', 'p1', 520, 'Yes', 5000),
+      vote('drep_b', 'p1', 521, 'No', 2000),
+      vote('drep_a', 'p2', 525, 'Yes'),
+      vote('drep_c', 'p2', 526, 'Abstain'),
+    ],
+    summaryRows: [
+      {
+        proposal_tx_hash: 'p1',
+        proposal_index: 0,
+        drep_yes_vote_power: 999999,
+        drep_no_vote_power: 0,
+        drep_abstain_vote_power: 0,
+      },
+    ],
+  };
+}
+
+// ── epochToBlockTime ─────────────────────────────────────────────────────────
+
+describe('epochToBlockTime', () => {
+  it('should round-trip with blockTimeToEpoch at epoch boundaries', () => {
+    expect(blockTimeToEpoch(epochToBlockTime(520))).toBe(520);
+    expect(blockTimeToEpoch(epochEndTime(520))).toBe(520);
+    expect(blockTimeToEpoch(epochEndTime(520) + 1)).toBe(521);
+  });
+});
+
+// ── filterRowsAsOfEpoch ──────────────────────────────────────────────────────
+
+describe('filterRowsAsOfEpoch', () => {
+  it('should drop votes and proposals after the target epoch', () => {
+    const filtered = filterRowsAsOfEpoch(makeRows(), 521);
+    expect(filtered.proposalRows.map((p) => p.tx_hash)).toEqual(['p1']);
+    expect(filtered.voteRows).toHaveLength(2);
+  });
+
+  it('should clear outcome epochs that had not happened yet', () => {
+    const before = filterRowsAsOfEpoch(makeRows(), 522);
+    expect(before.proposalRows[0].ratified_epoch).toBeNull();
+
+    const after = filterRowsAsOfEpoch(makeRows(), 523);
+    expect(after.proposalRows[0].ratified_epoch).toBe(523);
+  });
+
+  it('should rebuild tallies from visible votes instead of final summaries', () => {
+    const filtered = filterRowsAsOfEpoch(makeRows(), 520);
+    expect(filtered.summaryRows).toEqual([
+      {
+        proposal_tx_hash: 'p1',
+        proposal_index: 0,
+        drep_yes_vote_power: 5000,
+        drep_no_vote_power: 0,
+        drep_abstain_vote_power: 0,
+      },
+    ]);
+  });
+
+  it('should only include DReps that had voted when no lifecycle data is given', () => {
+    const filtered = filterRowsAsOfEpoch(makeRows(), 521);
+    expect(filtered.drepRows.map((d) => d.id)).toEqual(['drep_a', 'drep_b']);
+  });
+
+  it('should use lifecycle events to determine the registered DRep set', () => {
+    const rows = makeRows();
+    rows.lifecycleRows = [
+      { drep_id: 'drep_a', action: 'registration', epoch_no: 510 },
+      { drep_id: 'drep_b', action: 'registration', epoch_no: 510 },
+      { drep_id: 'drep_b', action: 'deregistration', epoch_no: 519 },
+      { drep_id: 'drep_c', action: 'registration', epoch_no: 519 },
+    ];
+    const filtered = filterRowsAsOfEpoch(rows, 520);
+    expect(filtered.drepRows.map((d) => d.id)).toEqual(['drep_a', 'drep_c']);
+  });
+
+  it('should drop the votes of deregistered DReps but keep them in the tallies', () => {
+    const rows = makeRows();
+    rows.lifecycleRows = [
+      { drep_id: 'drep_a', action: 'registration', epoch_no: 510 },
+      { drep_id: 'drep_b', action: 'registration', epoch_no: 510 },
+      { drep_id: 'drep_b', action: 'deregistration', epoch_no: 522 },
+    ];
+    const filtered = filterRowsAsOfEpoch(rows, 522);
+
+    expect(filtered.voteRows.map((v) => v.drep_id)).toEqual(['drep_a']);
+    expect(filtered.summaryRows[0].drep_no_vote_power).toBe(2000);
+  });
+});
+
+// ── replayScoresAtEpoch ──────────────────────────────────────────────────────
+
+describe('replayScoresAtEpoch', () => {
+  it('should score only DReps known at the target epoch', () => {
+    const result = replayScoresAtEpoch(makeRows(), 521);
+    expect([...result.scores.keys()].sort()).toEqual(['drep_a', 'drep_b']);
+    expect(result.voteCount).toBe(2);
+    expect(result.proposalCount).toBe(1);
+  });
+
+  it('should attach a tier and leave momentum empty', () => {
+    const result = replayScoresAtEpoch(makeRows(), 526);
+    for (const s of result.scores.values()) {
+      expect(s.composite).toBeGreaterThanOrEqual(0);
+      expect(s.composite).toBeLessThanOrEqual(100);
+      expect(typeof s.tier).toBe('string');
+      expect(s.momentum).toBeNull();
+    }
+  });
+
+  it('should be deterministic for the same epoch', () => {
+    const a = replayScoresAtEpoch(makeRows(), 526);
+    const b = replayScoresAtEpoch(makeRows(), 526);
+    expect([...a.scores.entries()]).toEqual([...b.scores.entries()]);
+    expect(a.asOfSeconds).toBe(epochEndTime(526));
+  });
+});
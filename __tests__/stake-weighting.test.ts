@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { bech32 } from 'bech32';
+import {
+  dedupeByStakeKey,
+  proposalCloseEpoch,
+  tallyBorda,
+  tallyOptions,
+} from '@/lib/stakeWeighting';
+import { stakeAddressFromAddress } from '@/utils/drepId';
+
+function bytes(fill: number, length = 28): number[] {
+  return Array.from({ length }, () => fill);
+}
+
+function encode(prefix: string, data: number[]): string {
+  return bech32.encode(prefix, bech32.toWords(Uint8Array.from(data)), 256);
+}
+
+/** Base address (type 0, mainnet) with the given payment and stake key hashes */
+function baseAddress(payment: number, stake: number): string {
+  return encode('addr', [0x01, ...bytes(payment), ...bytes(stake)]);
+}
+
+function stakeAddress(stake: number): string {
+  return encode('stake', [0xe1, ...bytes(stake)]);
+}
+
+describe('stakeAddressFromAddress', () => {
+  it('should derive the stake address from a base address', () => {
+    expect(stakeAddressFromAddress(baseAddress(1, 7))).toBe(stakeAddress(7));
+  });
+
+  it('should map wallets with different payment keys on one stake key to the same address', () => {
+    expect(stakeAddressFromAddress(baseAddress(1, 7))).toBe(
+      stakeAddressFromAddress(baseAddress(2, 7)),
+    );
+  });
+
+  it('should use the script-hash stake header when the stake credential is a script', () => {
+    const address = encode('addr', [0x21, ...bytes(1), ...bytes(7)]);
+    const decoded = bech32.fromWords(bech32.decode(stakeAddressFromAddress(address)!, 256).words);
+    expect(decoded[0]).toBe(0xf1);
+  });
+
+  it('should return stake addresses unchanged', () => {
+    expect(stakeAddressFromAddress(stakeAddress(3))).toBe(stakeAddress(3));
+  });
+
+  it('should return null when the address has no stake credential', () => {
+    const enterprise = encode('addr', [0x61, ...bytes(1)]);
+    expect(stakeAddressFromAddress(enterprise)).toBeNull();
+    expect(stakeAddressFromAddress('not-an-address')).toBeNull();
+  });
+});
+
+describe('dedupeByStakeKey', () => {
+  it('should keep only the latest response when several wallets share a stake key', () => {
+    const { voters, duplicateResponses } = dedupeByStakeKey([
+      { userId: 'u1', walletAddress: baseAddress(1, 7), at: '2026-01-01', choice: 'yes' },
+      { userId: 'u2', walletAddress: baseAddress(2, 7), at: '2026-01-03', choice: 'no' },
+      { userId: 'u3', walletAddress: baseAddress(3, 8), at: '2026-01-02', choice: 'yes' },
+    ]);
+    expect(duplicateResponses).toBe(1);
+    expect(voters).toHaveLength(2);
+    expect(voters.find((v) => v.stakeKey === stakeAddress(7))?.choice).toBe('no');
+  });
+
+  it('should fall back to the user when no stake key resolves', () => {
+    const enterprise = encode('addr', [0x61, ...bytes(1)]);
+    const { voters } = dedupeByStakeKey([
+      { userId: 'u1', walletAddress: enterprise, at: null, choice: 'yes' },
+      { userId: 'u2', walletAddress: enterprise, at: null, choice: 'yes' },
+    ]);
+    expect(voters).toHaveLength(2);
+    expect(voters.every((v) => v.stakeKey === null)).toBe(true);
+  });
+
+  it('should keep one response per scope when a scope function is given', () => {
+    const { voters } = dedupeByStakeKey(
+      [
+        { userId: 'u1', walletAddress: baseAddress(1, 7), at: null, choice: 'a' },
+        { userId: 'u2', walletAddress: baseAddress(2, 7), at: null, choice: 'a' },
+        { userId: 'u2', walletAddress: baseAddress(2, 7), at: null, choice: 'b' },
+      ],
+      (v) => v.choice,
+    );
+    expect(voters.map((v) => v.choice).sort()).toEqual(['a', 'b']);
+  });
+});
+
+describe('tallyOptions', () => {
+  it('should report headcount and stake side by side when whales and small holders disagree', () => {
+    const { voters } = dedupeByStakeKey([
+      { userId: 'u1', walletAddress: baseAddress(1, 1), at: null, choice: 'yes' },
+      { userId: 'u2', walletAddress: baseAddress(2, 2), at: null, choice: 'yes' },
+      { userId: 'u3', walletAddress: baseAddress(3, 3), at: null, choice: 'yes' },
+      { userId: 'u4', walletAddress: baseAddress(4, 4), at: null, choice: 'no' },
+    ]);
+    const stake = new Map([
+      [stakeAddress(1), 10_000_000],
+      [stakeAddress(2), 10_000_000],
+      [stakeAddress(3), 10_000_000],
+      [stakeAddress(4), 970_000_000],
+    ]);
+    const { options, summary } = tallyOptions(voters, stake, ['yes', 'no']);
+
+    expect(options).toEqual([
+      { key: 'yes', count: 3, percentage: 75, stakeLovelace: 30_000_000, stakePercentage: 3 },
+      { key: 'no', count: 1, percentage: 25, stakeLovelace: 970_000_000, stakePercentage: 97 },
+    ]);
+    expect(summary.headcount).toBe(4);
+    expect(summary.totalStakeLovelace).toBe(1_000_000_000);
+    expect(summary.unweightedVoters).toBe(0);
+  });
+
+  it('should count voters without a snapshot as unweighted', () => {
+    const { voters } = dedupeByStakeKey([
+      { userId: 'u1', walletAddress: baseAddress(1, 1), at: null, choice: 'yes' },
+      { userId: 'u2', walletAddress: baseAddress(2, 2), at: null, choice: 'no' },
+    ]);
+    const { options, summary } = tallyOptions(voters, new Map([[stakeAddress(1), 5]]), [
+      'yes',
+      'no',
+    ]);
+    expect(summary.unweightedVoters).toBe(1);
+    expect(options.find((o) => o.key === 'no')).toMatchObject({ count: 1, stakePercentage: 0 });
+  });
+});
+
+describe('tallyBorda', () => {
+  it('should rank by points for headcount and by points × ADA for stake', () => {
+    const { voters } = dedupeByStakeKey([
+      { userId: 'u1', walletAddress: baseAddress(1, 1), at: null, ranking: ['a', 'b'] },
+      { userId: 'u2', walletAddress: baseAddress(2, 2), at: null, ranking: ['a', 'b'] },
+      { userId: 'u3', walletAddress: baseAddress(3, 3), at: null, ranking: ['b', 'a'] },
+    ]);
+    const stake = new Map([
+      [stakeAddress(1), 1_000_000],
+      [stakeAddress(2), 1_000_000],
+      [stakeAddress(3), 100_000_000],
+    ]);
+    const { rankings, stakeWeighted } = tallyBorda(voters, stake, ['a', 'b', 'c']);
+
+    expect(rankings[0]).toMatchObject({ priority: 'a', score: 14, rank: 1, firstChoiceCount: 2 });
+    expect(stakeWeighted[0]).toMatchObject({ priority: 'b', rank: 1, score: 508 });
+    expect(stakeWeighted[0].firstChoiceLovelace).toBe(100_000_000);
+    expect(stakeWeighted.find((r) => r.priority === 'c')?.share).toBe(0);
+  });
+});
+
+describe('proposalCloseEpoch', () => {
+  it('should return null while the proposal is open', () => {
+    expect(
+      proposalCloseEpoch({
+        ratified_epoch: null,
+        enacted_epoch: null,
+        expired_epoch: null,
+        dropped_epoch: null,
+      }),
+    ).toBeNull();
+  });
+
+  it('should prefer the ratification epoch over later enactment', () => {
+    expect(
+      proposalCloseEpoch({
+        ratified_epoch: 510,
+        enacted_epoch: 511,
+        expired_epoch: null,
+        dropped_epoch: null,
+      }),
+    ).toBe(510);
+  });
+});
@@ -0,0 +1,267 @@
+// @vitest-environment node
+/**
+ * Koios mock server tests — fixture matching, replay/record modes, and the
+ * real Koios client running against the recorded sync baseline.
+ */
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import {
+  KOIOS_FIXTURE_VERSION,
+  KoiosFixtureIndex,
+  canonicalJson,
+  fixtureKey,
+  loadFixtureSet,
+  normalizeQuery,
+  type KoiosFixtureSet,
+} from '@/lib/koiosMock/fixtures';
+import { startKoiosMockServer, type KoiosMockServer } from '@/lib/koiosMock/server';
+
+const BASELINE_PATH = resolve(__dirname, '../fixtures/koios/sync-baseline.json');
+
+function fixtureSet(entries: KoiosFixtureSet['entries']): KoiosFixtureSet {
+  return {
+    version: KOIOS_FIXTURE_VERSION,
+    name: 'test',
+    recordedAt: '2025-09-02T00:00:00.000Z',
+    source: 'hand-authored',
+    entries,
+  };
+}
+
+const PAGED_SET = fixtureSet([
+  {
+    method: 'GET',
+    path: '/proposal_list',
+    query: 'limit=2&offset=0',
+    body: null,
+    status: 200,
+    response: [{ n: 1 }, { n: 2 }],
+  },
+  {
+    method: 'POST',
+    path: '/drep_info',
+    query: '',
+    body: { _drep_ids: ['drep1b', 'drep1a'] },
+    status: 200,
+    response: [{ drep_id: 'drep1a' }, { drep_id: 'drep1b' }],
+  },
+]);
+
+// ---------------------------------------------------------------------------
+// Fixture keys
+// ---------------------------------------------------------------------------
+
+describe('fixture keys', () => {
+  it('should ignore query parameter order', () => {
+    expect(normalizeQuery('offset=0&limit=500&voter_role=eq.DRep')).toBe(
+      normalizeQuery('voter_role=eq.DRep&limit=500&offset=0'),
+    );
+  });
+
+  it('should treat bulk ID arrays as sets', () => {
+    expect(canonicalJson({ _drep_ids: ['b', 'a'] })).toBe(canonicalJson({ _drep_ids: ['a', 'b'] }));
+  });
+
+  it('should keep the order of non-string arrays', () => {
+    expect(canonicalJson([2, 1])).not.toBe(canonicalJson([1, 2]));
+  });
+
+  it('should distinguish methods and bodies', () => {
+    const get = { method: 'GET', path: '/tip', query: '', body: null };
+    expect(fixtureKey(get)).not.toBe(fixtureKey({ ...get, method: 'POST' }));
+    expect(fixtureKey({ ...get, body: { a: 1 } })).not.toBe(fixtureKey(get));
+  });
+});
+
+describe('KoiosFixtureIndex', () => {
+  const index = new KoiosFixtureIndex(PAGED_SET);
+
+  it('should match POST bodies regardless of ID order', () => {
+    const hit = index.match({
+      method: 'POST',
+      path: '/drep_info',
+      query: '',
+      body: { _drep_ids: ['drep1a', 'drep1b'] },
+    });
+    expect(hit?.response).toHaveLength(2);
+  });
+
+  it('should return an empty page past the last recorded page', () => {
+    const hit = index.match({
+      method: 'GET',
+      path: '/proposal_list',
+      query: 'limit=2&offset=2',
+      body: null,
+    });
+    expect(hit).toEqual({ status: 200, response: [] });
+  });
+
+  it('should not invent responses for unrecorded requests', () => {
+    expect(index.match({ method: 'GET', path: '/tip', query: '', body: null })).toBeNull();
+    expect(
+      index.match({
+        method: 'GET',
+        path: '/proposal_list',
+        query: 'limit=2&offset=0&x=1',
+        body: null,
+      }),
+    ).toBeNull();
+  });
+});
+
+describe('loadFixtureSet', () => {
+  it('should reject fixture sets from another version', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'koios-fixtures-'));
+    const path = join(dir, 'old.json');
+    writeFileSync(path, JSON.stringify({ ...PAGED_SET, version: KOIOS_FIXTURE_VERSION + 1 }));
+    expect(() => loadFixtureSet(path)).toThrow(/Re-record/);
+  });
+
+  it('should load the committed sync baseline', () => {
+    const set = loadFixtureSet(BASELINE_PATH);
+    expect(set.source).toBe('hand-authored');
+    expect(set.entries.length).toBeGreaterThan(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+describe('startKoiosMockServer', () => {
+  const servers: KoiosMockServer[] = [];
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map((s) => s.close()));
+  });
+
+  it('should replay recorded responses and 404 unmatched requests in strict mode', async () => {
+    const server = await startKoiosMockServer({ fixtures: PAGED_SET });
+    servers.push(server);
+
+    const hit = await fetch(`${server.baseUrl}/proposal_list?offset=0&limit=2`);
+    expect(hit.status).toBe(200);
+    expect(await hit.json()).toEqual([{ n: 1 }, { n: 2 }]);
+
+    const miss = await fetch(`${server.baseUrl}/tip`);
+    expect(miss.status).toBe(404);
+    expect(server.unmatched).toEqual([
+      fixtureKey({ method: 'GET', path: '/tip', query: '', body: null }),
+    ]);
+  });
+
+  it('should answer unmatched requests with an empty array when lenient', async () => {
+    const server = await startKoiosMockServer({ fixtures: PAGED_SET, strict: false });
+    servers.push(server);
+
+    const res = await fetch(`${server.baseUrl}/tip`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual([]);
+    expect(server.unmatched).toHaveLength(1);
+  });
+
+  it('should record upstream responses, truncated to maxRows', async () => {
+    const upstream = await startKoiosMockServer({ fixtures: PAGED_SET });
+    const recorder = await startKoiosMockServer({
+      mode: 'record',
+      upstream: upstream.baseUrl,
+      maxRows: 1,
+      name: 'recorded-test',
+    });
+    servers.push(upstream, recorder);
+
+    const res = await fetch(`${recorder.baseUrl}/drep_info`, {
+      method: 'POST',
+      body: JSON.stringify({ _drep_ids: ['drep1a', 'drep1b'] }),
+    });
+    expect(await res.json()).toEqual([{ drep_id: 'drep1a' }]);
+    await fetch(`${recorder.baseUrl}/tip`);
+
+    const set = recorder.recorded();
+    expect(set.name).toBe('recorded-test');
+    expect(set.source).toBe(upstream.baseUrl);
+    expect(set.entries).toHaveLength(2);
+
+    // The recording replays through a fresh server
+    const replay = await startKoiosMockServer({ fixtures: set });
+    servers.push(replay);
+    const again = await fetch(`${replay.baseUrl}/drep_info`, {
+      method: 'POST',
+      body: JSON.stringify({ _drep_ids: ['drep1b', 'drep1a'] }),
+    });
+    expect(await again.json()).toEqual([{ drep_id: 'drep1a' }]);
+    expect((await fetch(`${replay.baseUrl}/tip`)).status).toBe(404);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Koios client against the sync baseline
+// ---------------------------------------------------------------------------
+
+describe('Koios client against the sync baseline', () => {
+  let server: KoiosMockServer;
+  let koios: typeof import('@/utils/koios');
+
+  beforeAll(async () => {
+    server = await startKoiosMockServer({ fixtures: loadFixtureSet(BASELINE_PATH) });
+    // KOIOS_BASE_URL is read at module load
+    vi.stubEnv('NEXT_PUBLIC_KOIOS_BASE_URL', server.baseUrl);
+    vi.resetModules();
+    koios = await import('@/utils/koios');
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await server.close();
+  });
+
+  afterEach(() => {
+    expect(server.unmatched).toEqual([]);
+  });
+
+  it('should page through bulk DRep votes', async () => {
+    const votes = await koios.fetchAllVotesBulk();
+    const voters = Object.keys(votes);
+    expect(voters).toHaveLength(3);
+    expect(Object.values(votes).flat()).toHaveLength(7);
+  });
+
+  it('should load proposals and their open-proposal votes', async () => {
+    const proposals = await koios.fetchProposals();
+    expect(proposals).toHaveLength(3);
+
+    const open = proposals
+      .filter((p) => p.ratified_epoch === null)
+      .map((p) => ({ txHash: p.proposal_tx_hash, index: p.proposal_index }));
+    const votes = await koios.fetchVotesForProposals(open);
+    expect(Object.values(votes).flat()).toHaveLength(4);
+
+    const summary = await koios.fetchProposalVotingSummary(proposals[2].proposal_id);
+    expect(summary?.drep_yes_votes_cast).toBe(1);
+  });
+
+  it('should load DRep details in batches', async () => {
+    const list = await koios.fetchAllDReps();
+    const ids = list.filter((d) => d.registered).map((d) => d.drep_id);
+    const { info, metadata } = await koios.fetchDRepsWithDetails([...ids].reverse());
+    expect(info).toHaveLength(3);
+    expect(metadata.filter((m) => m.meta_json?.body?.givenName)).toHaveLength(2);
+  });
+
+  it('should resolve ADA handles from account assets', async () => {
+    const list = await koios.fetchAllDReps();
+    const handles = await koios.resolveADAHandles(
+      list.filter((d) => d.registered).map((d) => ({ drepId: d.drep_id, drepHash: d.drep_hash })),
+    );
+    expect([...handles.values()]).toEqual(['$alpha']);
+  });
+
+  it('should load SPO, CC and committee data', async () => {
+    expect(await koios.fetchAllSPOVotesBulk()).toHaveLength(3);
+    expect(await koios.fetchAllCCVotesBulk()).toHaveLength(3);
+    const committee = await koios.fetchCommitteeInfo();
+    expect(committee?.members).toHaveLength(2);
+    expect(await koios.checkKoiosHealth()).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+// @vitest-environment node
+/**
+ * End-to-end sync pipeline against the Koios mock and a local Supabase.
+ *
+ * Skipped unless a disposable local database is configured:
+ *   supabase start && supabase db reset
+ *   SYNC_TEST_SUPABASE_URL=http://127.0.0.1:54321 \
+ *   SYNC_TEST_SUPABASE_SECRET_KEY=<service role key> \
+ *   npx vitest run __tests__/sync/pipeline.test.ts
+ *
+ * The run writes to the configured database — never point it at production.
+ */
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { resolve } from 'path';
+import { loadFixtureSet } from '@/lib/koiosMock/fixtures';
+import { startKoiosMockServer, type KoiosMockServer } from '@/lib/koiosMock/server';
+
+const SUPABASE_URL = process.env.SYNC_TEST_SUPABASE_URL;
+const SUPABASE_SECRET_KEY = process.env.SYNC_TEST_SUPABASE_SECRET_KEY;
+const BASELINE_PATH = resolve(__dirname, '../fixtures/koios/sync-baseline.json');
+
+// Fixture tip is mid-epoch 580, so epoch math matches the recorded data
+const FIXTURE_NOW = new Date('2025-09-03T00:00:00Z');
+
+describe.skipIf(!SUPABASE_URL || !SUPABASE_SECRET_KEY)('sync pipeline (Koios mock)', () => {
+  let server: KoiosMockServer;
+  let sync: {
+    proposals: typeof import('@/lib/sync/proposals');
+    dreps: typeof import('@/lib/sync/dreps');
+    votes: typeof import('@/lib/sync/votes');
+    slow: typeof import('@/lib/sync/slow');
+  };
+  let supabase: ReturnType<typeof import('@/lib/supabase').getSupabaseAdmin>;
+
+  beforeAll(async () => {
+    server = await startKoiosMockServer({ fixtures: loadFixtureSet(BASELINE_PATH) });
+    vi.stubEnv('NEXT_PUBLIC_KOIOS_BASE_URL', server.baseUrl);
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', SUPABASE_URL!);
+    vi.stubEnv('SUPABASE_SECRET_KEY', SUPABASE_SECRET_KEY!);
+    vi.useFakeTimers({ toFake: ['Date'], now: FIXTURE_NOW });
+    vi.resetModules();
+
+    sync = {
+      proposals: await import('@/lib/sync/proposals'),
+      dreps: await import('@/lib/sync/dreps'),
+      votes: await import('@/lib/sync/votes'),
+      slow: await import('@/lib/sync/slow'),
+    };
+    supabase = (await import('@/lib/supabase')).getSupabaseAdmin();
+  });
+
+  afterAll(async () => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    await server?.close();
+  });
+
+  it('should sync proposals and open-proposal votes', async () => {
+    await sync.proposals.executeProposalsSync();
+
+    const { data: proposals } = await supabase
+      .from('proposals')
+      .select('tx_hash, proposal_index, ratified_epoch');
+    expect(proposals).toHaveLength(3);
+
+    const { count } = await supabase
+      .from('proposal_voting_summary')
+      .select('*', { count: 'exact', head: true });
+    expect(count).toBe(2);
+  }, 60_000);
+
+  it('should sync registered DReps with handles', async () => {
+    await sync.dreps.executeDrepsSync();
+
+    const { data: dreps } = await supabase.from('dreps').select('id, info');
+    expect(dreps).toHaveLength(3);
+    const handles = (dreps ?? [])
+      .map((d) => (d.info as { handle?: string } | null)?.handle)
+      .filter(Boolean);
+    expect(handles).toEqual(['$alpha']);
+  }, 60_000);
+
+  it('should sync every DRep vote', async () => {
+    await sync.votes.executeVotesSync();
+
+    const { count } = await supabase.from('drep_votes').select('*', { count: 'exact', head: true });
+    expect(count).toBe(7);
+  }, 60_000);
+
+  it('should run the slow sync without leaving the fixture set', async () => {
+    await sync.slow.executeSlowSync();
+    expect(server.unmatched).toEqual([]);
+  }, 120_000);
+});
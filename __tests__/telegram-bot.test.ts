@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_CALLBACK_BYTES,
+  decodeCallback,
+  encodeCallback,
+  parseCommand,
+  proposalKeyboard,
+  voteAgreement,
+  type CallbackAction,
+} from '@/lib/telegram/format';
+import { parseProposalRef, proposalStatus } from '@/utils/proposalRef';
+import { matchDReps } from '@/utils/display';
+import type { EnrichedDRep } from '@/lib/koios';
+
+const TX = 'ab'.repeat(32);
+
+describe('parseCommand', () => {
+  it('should strip the bot username when a group addresses the command', () => {
+    expect(parseCommand('/Proposal@CivicaBot gov_action1xyz')).toEqual({
+      command: '/proposal',
+      args: ['gov_action1xyz'],
+    });
+  });
+});
+
+describe('parseProposalRef', () => {
+  it('should accept CIP-129 proposal ids', () => {
+    expect(parseProposalRef(['gov_action1qpzry9x8gf2tvdw0s3jn54khce6mua7l'])).toEqual({
+      proposalId: 'gov_action1qpzry9x8gf2tvdw0s3jn54khce6mua7l',
+    });
+  });
+
+  it('should accept hash#index, hash:index and space-separated forms', () => {
+    expect(parseProposalRef([`${TX}#2`])).toEqual({ txHash: TX, index: 2 });
+    expect(parseProposalRef([`${TX}:3`])).toEqual({ txHash: TX, index: 3 });
+    expect(parseProposalRef([TX, '4'])).toEqual({ txHash: TX, index: 4 });
+  });
+
+  it('should default to index 0 when only a tx hash is given', () => {
+    expect(parseProposalRef([TX.toUpperCase()])).toEqual({ txHash: TX, index: 0 });
+  });
+
+  it('should return null when the input is not a proposal reference', () => {
+    expect(parseProposalRef(['drep1abc'])).toBeNull();
+    expect(parseProposalRef([])).toBeNull();
+  });
+});
+
+describe('callback payloads', () => {
+  const actions: CallbackAction[] = [
+    { type: 'sentiment', sentiment: 'oppose', txHash: TX, index: 12 },
+    { type: 'watch_proposal', txHash: TX, index: 0 },
+    { type: 'proposal', txHash: TX, index: 999 },
+    { type: 'unwatch', subscriptionId: 123456 },
+  ];
+
+  it('should round-trip every action within the 64-byte limit', () => {
+    for (const action of actions) {
+      const encoded = encodeCallback(action);
+      expect(Buffer.byteLength(encoded)).toBeLessThanOrEqual(MAX_CALLBACK_BYTES);
+      expect(decodeCallback(encoded)).toEqual(action);
+    }
+  });
+
+  it('should return null when the payload is malformed', () => {
+    expect(decodeCallback('sv:x:abc:1')).toBeNull();
+    expect(decodeCallback('uw:-1')).toBeNull();
+    expect(decodeCallback('zz')).toBeNull();
+  });
+});
+
+describe('proposalStatus and proposalKeyboard', () => {
+  const open = {
+    txHash: TX,
+    proposalIndex: 0,
+    ratifiedEpoch: null,
+    enactedEpoch: null,
+    droppedEpoch: null,
+    expiredEpoch: null,
+  };
+
+  it('should report enactment over ratification', () => {
+    expect(proposalStatus({ ...open, ratifiedEpoch: 500, enactedEpoch: 501 })).toBe('Enacted');
+  });
+
+  it('should offer sentiment buttons only while the proposal is open', () => {
+    expect(proposalKeyboard(open)).toHaveLength(2);
+    expect(proposalKeyboard({ ...open, expiredEpoch: 510 })).toHaveLength(1);
+  });
+});
+
+describe('voteAgreement', () => {
+  it('should compare only proposals both DReps voted on', () => {
+    const a = [
+      { proposal_tx_hash: 'p1', proposal_index: 0, vote: 'Yes' },
+      { proposal_tx_hash: 'p2', proposal_index: 0, vote: 'No' },
+      { proposal_tx_hash: 'p3', proposal_index: 0, vote: 'Yes' },
+    ];
+    const b = [
+      { proposal_tx_hash: 'p1', proposal_index: 0, vote: 'Yes' },
+      { proposal_tx_hash: 'p2', proposal_index: 0, vote: 'Yes' },
+      { proposal_tx_hash: 'p4', proposal_index: 0, vote: 'No' },
+    ];
+    expect(voteAgreement(a, b)).toEqual({ shared: 2, agreed: 1, rate: 50 });
+  });
+
+  it('should return a null rate when there is no overlap', () => {
+    expect(voteAgreement([], [])).toEqual({ shared: 0, agreed: 0, rate: null });
+  });
+});
+
+describe('matchDReps', () => {
+  const dreps = [
+    { drepId: 'drep1aaa', name: 'Alice Pool', ticker: 'ALC', handle: null },
+    { drepId: 'drep1bbb', name: null, ticker: null, handle: '$bob' },
+  ] as unknown as EnrichedDRep[];
+
+  it('should match on name, ticker, handle or id case-insensitively', () => {
+    expect(matchDReps(dreps, 'alice', 10).map((d) => d.drepId)).toEqual(['drep1aaa']);
+    expect(matchDReps(dreps, 'BOB', 10).map((d) => d.drepId)).toEqual(['drep1bbb']);
+    expect(matchDReps(dreps, 'drep1b', 10).map((d) => d.drepId)).toEqual(['drep1bbb']);
+  });
+
+  it('should list the first DReps when the query is empty', () => {
+    expect(matchDReps(dreps, '  ', 1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import type { z } from 'zod';
+import { TreasuryScenarioSchema } from '@/lib/api/schemas/treasury';
+import {
+  decodeScenario,
+  encodeScenario,
+  proposalKey,
+  ScenarioError,
+  simulateScenario,
+  type RunwayBaseline,
+  type TreasuryScenario,
+} from '@/lib/treasuryScenarios';
+
+const GRANT = proposalKey('a'.repeat(64), 0);
+
+const BASELINE: RunwayBaseline = {
+  epoch: 600,
+  balanceAda: 1_000_000_000,
+  burnRatePerEpoch: 12_000_000,
+  incomePerEpoch: 8_000_000,
+  incomeVolatility: 0.1,
+  feeShare: 0.1,
+  pending: [{ key: GRANT, title: 'Core development grant', withdrawalAda: 300_000_000 }],
+  adaUsd: 0.5,
+};
+
+function scenario(input: Partial<z.input<typeof TreasuryScenarioSchema>> = {}): TreasuryScenario {
+  return TreasuryScenarioSchema.parse({ name: 'Test', ...input });
+}
+
+describe('scenario share tokens', () => {
+  it('should round-trip a scenario through its token', () => {
+    const s = scenario({
+      proposals: [GRANT],
+      burnChanges: [{ fromEpoch: 620, multiplier: 1.5 }],
+      usdBudgets: [{ label: 'Audits', usdPerEpoch: 50_000, fromEpoch: 601 }],
+    });
+    expect(decodeScenario(encodeScenario(s))).toEqual(s);
+  });
+
+  it('should reject malformed or invalid tokens', () => {
+    expect(() => decodeScenario('not json!')).toThrow(ScenarioError);
+    const invalid = encodeScenario({ ...scenario(), horizonEpochs: 5 });
+    expect(() => decodeScenario(invalid)).toThrow(/Invalid scenario/);
+  });
+});
+
+describe('simulateScenario', () => {
+  it('should be deterministic for the same scenario', () => {
+    const s = scenario({ proposals: [GRANT] });
+    expect(simulateScenario(BASELINE, s)).toEqual(simulateScenario(BASELINE, s));
+  });
+
+  it('should never deplete when spending is frozen', () => {
+    const result = simulateScenario(
+      BASELINE,
+      scenario({ burnChanges: [{ fromEpoch: 601, multiplier: 0 }] }),
+    );
+    expect(result.depletionProbability).toBe(0);
+    expect(result.depletionEpoch).toEqual({ p10: null, p50: null, p90: null });
+  });
+
+  it('should bring depletion forward when a withdrawal is selected', () => {
+    const base = simulateScenario(BASELINE, scenario());
+    const withGrant = simulateScenario(BASELINE, scenario({ proposals: [GRANT] }));
+
+    expect(withGrant.selectedWithdrawalAda).toBe(300_000_000);
+    expect(withGrant.depletionEpoch.p50!).toBeLessThan(base.depletionEpoch.p50!);
+  });
+
+  it('should deplete sooner under reserve decay than with constant income', () => {
+    const steady = { ...BASELINE, burnRatePerEpoch: 9_000_000, incomeVolatility: 0 };
+    const decay = simulateScenario(steady, scenario({ incomeModel: 'reserve-decay' }));
+    const constant = simulateScenario(steady, scenario({ incomeModel: 'constant' }));
+
+    expect(decay.bands.at(-1)!.p50).toBeLessThan(constant.bands.at(-1)!.p50);
+  });
+
+  it('should only apply a burn change from its epoch', () => {
+    const steady = { ...BASELINE, incomeVolatility: 0 };
+    const result = simulateScenario(
+      steady,
+      scenario({
+        burnChanges: [{ fromEpoch: 611, multiplier: 0 }],
+        incomeModel: 'constant',
+        horizonEpochs: 20,
+      }),
+    );
+    const at = (epoch: number) => result.bands.find((b) => b.epoch === epoch)!.p50;
+
+    // Net burn of 4M per epoch for ten epochs, then income only
+    expect(at(610)).toBe(1_000_000_000 - 10 * 4_000_000);
+    expect(at(615) - at(610)).toBe(5 * 8_000_000);
+  });
+
+  it('should require a price for USD budgets', () => {
+    const s = scenario({ usdBudgets: [{ label: 'Ops', usdPerEpoch: 100_000, fromEpoch: 601 }] });
+    expect(() => simulateScenario({ ...BASELINE, adaUsd: null }, s)).toThrow(ScenarioError);
+    expect(() => simulateScenario(BASELINE, s)).not.toThrow();
+  });
+
+  it('should spend more ADA on USD budgets when the price band is lower', () => {
+    const budget = [{ label: 'Ops', usdPerEpoch: 1_000_000, fromEpoch: 601 }];
+    const cheap = simulateScenario(
+      BASELINE,
+      scenario({ usdBudgets: budget, price: { start: 0.2, low: 0.1, high: 0.3 } }),
+    );
+    const dear = simulateScenario(
+      BASELINE,
+      scenario({ usdBudgets: budget, price: { start: 2, low: 1, high: 3 } }),
+    );
+
+    expect(cheap.depletionEpoch.p50!).toBeLessThan(dear.depletionEpoch.p50!);
+  });
+
+  it('should report selected proposals that are no longer pending', () => {
+    const gone = proposalKey('b'.repeat(64), 3);
+    const result = simulateScenario(BASELINE, scenario({ proposals: [GRANT, gone] }));
+
+    expect(result.unknownProposals).toEqual([gone]);
+    expect(result.selectedWithdrawalAda).toBe(300_000_000);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi } from 'vitest';
+import { lookup } from 'node:dns';
+
+vi.mock('@/lib/supabase', () => ({
+  getSupabaseAdmin: vi.fn(),
+}));
+
+vi.mock('node:dns', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:dns')>();
+  const lookup = vi.fn();
+  return { ...actual, default: { ...actual, lookup }, lookup };
+});
+
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  subscriptionMatches,
+  retryDelaySeconds,
+  isAllowedWebhookUrl,
+  sendWebhook,
+  getWebhookEventKeys,
+  type WebhookEvent,
+  type WebhookSubscription,
+} from '@/lib/webhooks';
+import { getUserFacingEvents } from '@/lib/notificationRegistry';
+import { WebhookCreateSchema } from '@/lib/api/schemas/webhooks';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function sub(overrides: Partial<WebhookSubscription> = {}): WebhookSubscription {
+  return {
+    id: 'sub-1',
+    apiKeyId: 'key-1',
+    url: 'https://example.com/hook',
+    events: ['drep-voted', 'proposal-new'],
+    filters: {},
+    active: true,
+    consecutiveFailures: 0,
+    disabledReason: null,
+    createdAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function event(type: string, data: WebhookEvent['data'] = {}): WebhookEvent {
+  return { id: `${type}:x`, type, occurredAt: '2026-01-01T00:00:00Z', data };
+}
+
+// ── Signing ──────────────────────────────────────────────────────────────────
+
+describe('webhook signatures', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ id: 'e1', type: 'proposal-new' });
+  const now = 1_750_000_000;
+
+  it('should verify a signature it produced when within tolerance', () => {
+    const header = signWebhookPayload(secret, now, body);
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(secret, header, body, now + 60)).toBe(true);
+  });
+
+  it('should reject when the body was tampered with', () => {
+    const header = signWebhookPayload(secret, now, body);
+    expect(verifyWebhookSignature(secret, header, body + ' ', now)).toBe(false);
+  });
+
+  it('should reject when signed with a different secret', () => {
+    const header = signWebhookPayload('whsec_other', now, body);
+    expect(verifyWebhookSignature(secret, header, body, now)).toBe(false);
+  });
+
+  it('should reject when the timestamp is stale', () => {
+    const header = signWebhookPayload(secret, now, body);
+    expect(verifyWebhookSignature(secret, header, body, now + 3600)).toBe(false);
+  });
+
+  it('should reject when the header is malformed', () => {
+    expect(verifyWebhookSignature(secret, 'garbage', body, now)).toBe(false);
+  });
+});
+
+// ── Filters ──────────────────────────────────────────────────────────────────
+
+describe('subscriptionMatches', () => {
+  it('should match when the event type is subscribed and no filters are set', () => {
+    expect(subscriptionMatches(sub(), event('drep-voted', { drepId: 'drep1a' }))).toBe(true);
+  });
+
+  it('should not match when the event type is not subscribed', () => {
+    expect(subscriptionMatches(sub(), event('proposal-ratified'))).toBe(false);
+  });
+
+  it('should not match when the subscription is inactive', () => {
+    expect(subscriptionMatches(sub({ active: false }), event('proposal-new'))).toBe(false);
+  });
+
+  it('should apply DRep filters only to events carrying a DRep', () => {
+    const s = sub({ filters: { drepIds: ['drep1a'] } });
+    expect(subscriptionMatches(s, event('drep-voted', { drepId: 'drep1a' }))).toBe(true);
+    expect(subscriptionMatches(s, event('drep-voted', { drepId: 'drep1b' }))).toBe(false);
+    expect(subscriptionMatches(s, event('proposal-new', { proposalType: 'InfoAction' }))).toBe(
+      true,
+    );
+  });
+
+  it('should require every set filter to match when combined', () => {
+    const s = sub({ filters: { drepIds: ['drep1a'], proposalTypes: ['TreasuryWithdrawals'] } });
+    expect(
+      subscriptionMatches(
+        s,
+        event('drep-voted', { drepId: 'drep1a', proposalType: 'TreasuryWithdrawals' }),
+      ),
+    ).toBe(true);
+    expect(
+      subscriptionMatches(s, event('drep-voted', { drepId: 'drep1a', proposalType: 'InfoAction' })),
+    ).toBe(false);
+  });
+
+  it('should filter SPO events by pool ID', () => {
+    const s = sub({ events: ['spo-tier-change'], filters: { poolIds: ['pool1x'] } });
+    expect(subscriptionMatches(s, event('spo-tier-change', { poolId: 'pool1x' }))).toBe(true);
+    expect(subscriptionMatches(s, event('spo-tier-change', { poolId: 'pool1y' }))).toBe(false);
+  });
+});
+
+// ── Retry & URL safety ───────────────────────────────────────────────────────
+
+describe('retryDelaySeconds', () => {
+  it('should double the delay per attempt and cap at six hours', () => {
+    expect(retryDelaySeconds(1)).toBe(30);
+    expect(retryDelaySeconds(2)).toBe(60);
+    expect(retryDelaySeconds(3)).toBe(120);
+    expect(retryDelaySeconds(20)).toBe(6 * 3600);
+  });
+});
+
+describe('isAllowedWebhookUrl', () => {
+  it('should accept public https URLs', () => {
+    expect(isAllowedWebhookUrl('https://hooks.example.com/cardano')).toBe(true);
+  });
+
+  it('should reject plain http, credentials and private hosts', () => {
+    expect(isAllowedWebhookUrl('http://hooks.example.com')).toBe(false);
+    expect(isAllowedWebhookUrl('https://user:pw@example.com')).toBe(false);
+    expect(isAllowedWebhookUrl('https://localhost/hook')).toBe(false);
+    expect(isAllowedWebhookUrl('https://127.0.0.1/hook')).toBe(false);
+    expect(isAllowedWebhookUrl('https://192.168.1.10/hook')).toBe(false);
+    expect(isAllowedWebhookUrl('https://169.254.169.254/latest')).toBe(false);
+    expect(isAllowedWebhookUrl('not a url')).toBe(false);
+  });
+
+  it('should reject IPv6 literals that reach private or IPv4-mapped addresses', () => {
+    expect(isAllowedWebhookUrl('https://[::1]/hook')).toBe(false);
+    expect(isAllowedWebhookUrl('https://[::ffff:7f00:1]/hook')).toBe(false);
+    expect(isAllowedWebhookUrl('https://[::ffff:169.254.169.254]/hook')).toBe(false);
+    expect(isAllowedWebhookUrl('https://[fd00::1]/hook')).toBe(false);
+    expect(isAllowedWebhookUrl('https://[fe80::1]/hook')).toBe(false);
+    expect(isAllowedWebhookUrl('https://[2606:4700::1111]/hook')).toBe(true);
+  });
+});
+
+describe('sendWebhook', () => {
+  it('should refuse delivery when the hostname resolves to a private address', async () => {
+    vi.mocked(lookup).mockImplementation(((
+      _host: string,
+      _opts: unknown,
+      cb: (err: null, addresses: Array<{ address: string; family: number }>) => void,
+    ) => cb(null, [{ address: '10.0.0.5', family: 4 }])) as unknown as typeof lookup);
+
+    const result = await sendWebhook(
+      { url: 'https://rebind.example.com/hook', secret: 'whsec_x' },
+      'delivery-1',
+      'proposal-new',
+      '{}',
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.statusCode).toBeNull();
+
+    expect(result.error).toContain('non-public address');
+  });
+
+  it('should refuse delivery when the stored URL is no longer allowed', async () => {
+    const result = await sendWebhook(
+      { url: 'https://127.0.0.1/hook', secret: 'whsec_x' },
+      'delivery-1',
+      'proposal-new',
+      '{}',
+    );
+    expect(result).toMatchObject({ ok: false, statusCode: null });
+  });
+});
+
+// ── Catalog ──────────────────────────────────────────────────────────────────
+
+describe('webhook event catalog', () => {
+  it('should include the governance events and exclude user-only events', () => {
+    const keys = getWebhookEventKeys();
+    for (const k of [
+      'proposal-new',
+      'drep-voted',
+      'proposal-ratified',
+      'proposal-expired',
+      'drep-score-change',
+      'tier-change',
+      'treasury-withdrawal-enacted',
+    ]) {
+      expect(keys).toContain(k);
+    }
+  });
+
+  it('should hide webhook-only events from notification preferences', () => {
+    const userKeys = getUserFacingEvents(true).map((e) => e.key);
+    expect(userKeys).not.toContain('proposal-new');
+    expect(userKeys).not.toContain('treasury-withdrawal-enacted');
+  });
+
+  it('should reject unknown event types when creating a subscription', () => {
+    const result = WebhookCreateSchema.safeParse({
+      url: 'https://example.com/hook',
+      events: ['proposal-new', 'not-an-event'],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should normalize snake_case filters when creating a subscription', () => {
+    const result = WebhookCreateSchema.parse({
+      url: 'https://example.com/hook',
+      events: ['drep-voted', 'drep-voted'],
+      filters: { drep_ids: ['drep1a'], pool_ids: [] },
+    });
+    expect(result.events).toEqual(['drep-voted']);
+    expect(result.filters).toEqual({ drepIds: ['drep1a'] });
+  });
+});
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/supabaseAuth';
+import { isAdminWallet } from '@/lib/adminAuth';
+import { logAdminAction } from '@/lib/adminAudit';
+import { withRouteHandler } from '@/lib/api/withRouteHandler';
+import { CoordinationReviewSchema } from '@/lib/api/schemas/admin';
+import { getCoordinationOverview, setClusterReview } from '@/lib/coordination';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET: Latest DRep and SPO coordination clusters with review status, plus
+ * per-epoch cluster counts for the trend view.
+ */
+export const GET = withRouteHandler(async (request) => {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+  if (!isAdminWallet(auth.wallet)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return NextResponse.json(await getCoordinationOverview());
+});
+
+/**
+ * PATCH: Record an admin review. Dismissed clusters stop showing the profile
+ * badge until their membership changes.
+ */
+export const PATCH = withRouteHandler(async (request) => {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+  if (!isAdminWallet(auth.wallet)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const body = CoordinationReviewSchema.parse(await request.json());
+  await setClusterReview(body.clusterKey, body.status, body.note ?? null, auth.wallet);
+  logAdminAction(auth.wallet, 'review_coordination_cluster', body.clusterKey, body);
+
+  return NextResponse.json({ ok: true, ...body });
+});
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase';
+import { requireAuth } from '@/lib/supabaseAuth';
+import { isAdminWallet } from '@/lib/adminAuth';
+import { withRouteHandler } from '@/lib/api/withRouteHandler';
+import { fetchAll } from '@/lib/sync-utils';
+import { MethodologyDiffSchema } from '@/lib/api/schemas/admin';
+import {
+  METHODOLOGY_PROFILES,
+  CURRENT_METHODOLOGY_VERSION,
+  compareMethodologies,
+  type MethodologyScoreEntry,
+  type TierName,
+} from '@/lib/scoring';
+
+export const dynamic = 'force-dynamic';
+
+interface MethodologyScoreRow {
+  drep_id: string;
+  methodology_version: string;
+  score: number;
+  tier: string;
+  epoch_no: number;
+  computed_at: string;
+}
+
+/**
+ * GET: Methodology profiles, or a diff report between two of them.
+ * Without query params: lists all profiles.
+ * With ?base=v3&candidate=v3.1-candidate[&top=20][&full=true]: rank changes and tier
+ * crossings computed from the latest shadow scores in drep_methodology_scores.
+ * Per-DRep changes are only included with full=true.
+ */
+export const GET = withRouteHandler(async (request) => {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+  if (!isAdminWallet(auth.wallet)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  if (!searchParams.has('base') && !searchParams.has('candidate')) {
+    return NextResponse.json({
+      current: CURRENT_METHODOLOGY_VERSION,
+      profiles: Object.values(METHODOLOGY_PROFILES),
+    });
+  }
+
+  const { base, candidate, top } = MethodologyDiffSchema.parse({
+    base: searchParams.get('base') ?? CURRENT_METHODOLOGY_VERSION,
+    candidate: searchParams.get('candidate'),
+    top: searchParams.get('top') ?? undefined,
+  });
+
+  const supabase = createClient();
+  let data: MethodologyScoreRow[];
+  try {
+    data = await fetchAll<MethodologyScoreRow>(
+      supabase
+        .from('drep_methodology_scores')
+        .select('drep_id, methodology_version, score, tier, epoch_no, computed_at')
+        .in('methodology_version', [base, candidate])
+        .order('methodology_version')
+        .order('drep_id'),
+    );
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 },
+    );
+  }
+
+  const baseScores = new Map<string, MethodologyScoreEntry>();
+  const candidateScores = new Map<string, MethodologyScoreEntry>();
+  let epoch: number | null = null;
+  let computedAt: string | null = null;
+
+  for (const row of data) {
+    const entry = { composite: row.score, tier: row.tier as TierName };
+    if (row.methodology_version === base) baseScores.set(row.drep_id, entry);
+    if (row.methodology_version === candidate) candidateScores.set(row.drep_id, entry);
+    epoch = Math.max(epoch ?? 0, row.epoch_no);
+    if (!computedAt || row.computed_at > computedAt) computedAt = row.computed_at;
+  }
+
+  if (candidateScores.size === 0) {
+    return NextResponse.json(
+      { error: `No shadow scores for ${candidate} yet — wait for the next scoring run` },
+      { status: 404 },
+    );
+  }
+
+  const report = compareMethodologies(baseScores, candidateScores, base, candidate, top);
+  const full = searchParams.get('full') === 'true';
+
+  return NextResponse.json({
+    ...report,
+    changes: full ? report.changes : undefined,
+    epoch,
+    computedAt,
+  });
+});
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/supabaseAuth';
+import { isAdminWallet } from '@/lib/adminAuth';
+import { logAdminAction } from '@/lib/adminAudit';
+import { withRouteHandler } from '@/lib/api/withRouteHandler';
+import { OriginalityAppealReviewSchema } from '@/lib/api/schemas/admin';
+import { getOriginalityOverview, reviewOriginalityAppeal } from '@/lib/rationaleOriginality';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET: Flag counts by type, DRep appeals awaiting a ruling and the most
+ * recently detected flags, each with the flagged and original text.
+ */
+export const GET = withRouteHandler(async (request) => {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+  if (!isAdminWallet(auth.wallet)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return NextResponse.json(await getOriginalityOverview());
+});
+
+/**
+ * PATCH: Rule on a DRep's appeal. Upheld flags stop discounting Engagement
+ * Quality from the next score sync.
+ */
+export const PATCH = withRouteHandler(async (request) => {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+  if (!isAdminWallet(auth.wallet)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const body = OriginalityAppealReviewSchema.parse(await request.json());
+  const updated = await reviewOriginalityAppeal(
+    body.voteTxHash,
+    body.status,
+    body.note ?? null,
+    auth.wallet,
+  );
+  if (!updated) {
+    return NextResponse.json({ error: 'No appeal on file for this rationale' }, { status: 404 });
+  }
+  logAdminAction(auth.wallet, 'review_originality_appeal', body.voteTxHash, body);
+
+  return NextResponse.json({ ok: true, ...body });
+});
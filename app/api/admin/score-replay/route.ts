@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { inngest } from '@/lib/inngest';
+import { createClient } from '@/lib/supabase';
+import { requireAuth } from '@/lib/supabaseAuth';
+import { logAdminAction } from '@/lib/adminAudit';
+import { isAdminWallet } from '@/lib/adminAuth';
+import { withRouteHandler } from '@/lib/api/withRouteHandler';
+import { ScoreReplaySchema } from '@/lib/api/schemas/admin';
+import { CURRENT_METHODOLOGY_VERSION } from '@/lib/scoring/methodology';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET: Replayed vs recorded score history for one DRep.
+ * Query: drepId (required), methodologyVersion (default: current methodology).
+ * Each epoch carries both the replayed score/tier and the score that was live at the time.
+ */
+export const GET = withRouteHandler(async (request) => {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+  if (!isAdminWallet(auth.wallet)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const drepId = searchParams.get('drepId');
+  const methodologyVersion = searchParams.get('methodologyVersion') || CURRENT_METHODOLOGY_VERSION;
+  if (!drepId) {
+    return NextResponse.json({ error: 'drepId is required' }, { status: 400 });
+  }
+
+  const supabase = createClient();
+  const [{ data: replays, error }, { data: history }] = await Promise.all([
+    supabase
+      .from('drep_score_replays')
+      .select('epoch_no, score, tier, replayed_at')
+      .eq('drep_id', drepId)
+      .eq('methodology_version', methodologyVersion)
+      .order('epoch_no', { ascending: true }),
+    supabase
+      .from('drep_score_history')
+      .select('epoch_no, score, snapshot_date')
+      .eq('drep_id', drepId)
+      .not('epoch_no', 'is', null)
+      .order('snapshot_date', { ascending: true }),
+  ]);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  // Last recorded live snapshot per epoch
+  const recordedByEpoch = new Map<number, number>();
+  for (const h of history || []) recordedByEpoch.set(h.epoch_no, h.score);
+
+  const epochs = (replays || []).map((r) => ({
+    epoch: r.epoch_no,
+    replayedScore: r.score,
+    replayedTier: r.tier,
+    recordedScore: recordedByEpoch.get(r.epoch_no) ?? null,
+    delta: recordedByEpoch.has(r.epoch_no) ? r.score - recordedByEpoch.get(r.epoch_no)! : null,
+    replayedAt: r.replayed_at,
+  }));
+
+  return NextResponse.json({ drepId, methodologyVersion, epochs });
+});
+
+/**
+ * POST: Queue a replay for an epoch range. Requires an authenticated admin session.
+ */
+export const POST = withRouteHandler(async (request) => {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) return auth;
+  if (!isAdminWallet(auth.wallet)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const body = ScoreReplaySchema.parse(await request.json());
+
+  await inngest.send({ name: 'drepscore/replay.scores', data: body });
+  logAdminAction(auth.wallet, 'replay_scores', `${body.fromEpoch}-${body.toEpoch ?? ''}`, body);
+
+  return NextResponse.json({ queued: true, ...body }, { status: 202 });
+});
@@ -96,6 +96,7 @@ export const GET = withRouteHandler(async (request, { requestId }) => {
         title: getProposalDisplayTitle(p.title, p.txHash, p.proposalIndex),
         proposalType: p.proposalType || 'Proposal',
         epochsRemaining: expiryEpoch > 0 ? Math.max(0, expiryEpoch - currentEpochNow) : null,
+        submittedVote: p.submittedVote ?? null,
       };
     })
     .sort((a: any, b: any) => (a.epochsRemaining ?? 999) - (b.epochsRemaining ?? 999))
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
+import { rotateOwnedApiKey } from '@/lib/api/keys';
+import { captureServerEvent } from '@/lib/posthog-server';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withRouteHandler(
+  async (request: NextRequest, { wallet }: RouteContext) => {
+    const keyId = request.nextUrl.pathname.split('/')[4];
+
+    const issued = await rotateOwnedApiKey(wallet!, keyId);
+    if (!issued) {
+      return NextResponse.json({ error: 'Key not found' }, { status: 404 });
+    }
+    captureServerEvent('api_key_rotated', { key_prefix: issued.key.keyPrefix }, wallet!);
+    return NextResponse.json({ key: issued.key, secret: issued.rawKey }, { status: 201 });
+  },
+  { auth: 'required', rateLimit: { max: 10, window: 3600 } },
+);
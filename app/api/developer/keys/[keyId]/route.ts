@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
+import { ApiKeyUpdateSchema } from '@/lib/api/schemas/developer';
+import { updateOwnedApiKey, revokeOwnedApiKey } from '@/lib/api/keys';
+import { captureServerEvent } from '@/lib/posthog-server';
+
+export const dynamic = 'force-dynamic';
+
+export const PATCH = withRouteHandler(
+  async (request: NextRequest, { wallet }: RouteContext) => {
+    const keyId = request.nextUrl.pathname.split('/')[4];
+    const changes = ApiKeyUpdateSchema.parse(await request.json());
+
+    const key = await updateOwnedApiKey(wallet!, keyId, changes);
+    if (!key) {
+      return NextResponse.json({ error: 'Key not found' }, { status: 404 });
+    }
+    return NextResponse.json({ key });
+  },
+  { auth: 'required', rateLimit: { max: 30, window: 60 } },
+);
+
+export const DELETE = withRouteHandler(
+  async (request: NextRequest, { wallet }: RouteContext) => {
+    const keyId = request.nextUrl.pathname.split('/')[4];
+
+    const revoked = await revokeOwnedApiKey(wallet!, keyId);
+    if (!revoked) {
+      return NextResponse.json({ error: 'Key not found' }, { status: 404 });
+    }
+    captureServerEvent('api_key_revoked', { key_id: keyId }, wallet!);
+    return NextResponse.json({ ok: true });
+  },
+  { auth: 'required' },
+);
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
+import { ApiKeyUsageSchema } from '@/lib/api/schemas/developer';
+import { getOwnedApiKey } from '@/lib/api/keys';
+import { summarizeApiUsage, type ApiUsageRow } from '@/lib/api/usageStats';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { fetchAll } from '@/lib/sync-utils';
+
+export const dynamic = 'force-dynamic';
+
+/** Upper bound on log rows pulled per request; the busiest keys are sampled to the most recent */
+const MAX_USAGE_ROWS = 50_000;
+
+export const GET = withRouteHandler(
+  async (request: NextRequest, { wallet }: RouteContext) => {
+    const keyId = request.nextUrl.pathname.split('/')[4];
+    const { days, granularity } = ApiKeyUsageSchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+
+    const key = await getOwnedApiKey(wallet!, keyId);
+    if (!key) {
+      return NextResponse.json({ error: 'Key not found' }, { status: 404 });
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 86_400_000);
+
+    // Paged, since PostgREST caps each response at 1000 rows; one row past the
+    // cap tells whether the window was truncated
+    const supabase = getSupabaseAdmin();
+    const rows = await fetchAll<ApiUsageRow>(
+      supabase
+        .from('api_usage_log')
+        .select('created_at, endpoint, status_code, response_ms')
+        .eq('key_id', keyId)
+        .gte('created_at', from.toISOString())
+        .order('created_at', { ascending: false })
+        .order('id'),
+      { maxRows: MAX_USAGE_ROWS + 1 },
+    );
+
+    const truncated = rows.length > MAX_USAGE_ROWS;
+    return NextResponse.json({
+      key,
+      truncated,
+      usage: summarizeApiUsage(rows.slice(0, MAX_USAGE_ROWS), from, to, granularity),
+    });
+  },
+  { auth: 'required' },
+);
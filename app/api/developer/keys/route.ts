@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
+import { ApiKeyCreateSchema } from '@/lib/api/schemas/developer';
+import { listApiKeysForWallet, createApiKeyForWallet, ApiKeyLimitError } from '@/lib/api/keys';
+import { captureServerEvent } from '@/lib/posthog-server';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withRouteHandler(
+  async (_request: NextRequest, { wallet }: RouteContext) => {
+    const keys = await listApiKeysForWallet(wallet!);
+    return NextResponse.json({ keys });
+  },
+  { auth: 'required' },
+);
+
+export const POST = withRouteHandler(
+  async (request: NextRequest, { wallet }: RouteContext) => {
+    const { name, scopes } = ApiKeyCreateSchema.parse(await request.json());
+
+    try {
+      const { rawKey, key } = await createApiKeyForWallet(wallet!, name, scopes ?? null);
+      captureServerEvent('api_key_created', { key_prefix: key.keyPrefix, tier: key.tier }, wallet!);
+      return NextResponse.json({ key, secret: rawKey }, { status: 201 });
+    } catch (err) {
+      if (err instanceof ApiKeyLimitError) {
+        return NextResponse.json({ error: err.message }, { status: 409 });
+      }
+      throw err;
+    }
+  },
+  { auth: 'required', rateLimit: { max: 10, window: 3600 } },
+);
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyDiscordSignature } from '@/lib/discord/verify';
+import { handleInteraction, type Interaction } from '@/lib/discord/interactions';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST: Discord interactions endpoint (slash commands).
+ * Set as the Interactions Endpoint URL in the Discord developer portal:
+ * {SITE_URL}/api/discord/interactions. Discord sends a signed PING on save.
+ */
+export async function POST(request: NextRequest) {
+  const publicKey = process.env.DISCORD_PUBLIC_KEY;
+  if (!publicKey) {
+    return NextResponse.json({ error: 'Discord integration not configured' }, { status: 503 });
+  }
+
+  const rawBody = await request.text();
+  const valid = verifyDiscordSignature(
+    rawBody,
+    request.headers.get('x-signature-ed25519'),
+    request.headers.get('x-signature-timestamp'),
+    publicKey,
+  );
+  if (!valid) {
+    return NextResponse.json({ error: 'Invalid request signature' }, { status: 401 });
+  }
+
+  try {
+    const interaction = JSON.parse(rawBody) as Interaction;
+    return NextResponse.json(await handleInteraction(interaction));
+  } catch (err) {
+    logger.error('Error', { context: 'discord-interactions', error: err });
+    return NextResponse.json({
+      type: 4,
+      data: { content: 'Something went wrong. Please try again.', flags: 1 << 6 },
+    });
+  }
+}
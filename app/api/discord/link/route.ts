@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { captureServerEvent } from '@/lib/posthog-server';
+import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
+import { DiscordLinkSchema } from '@/lib/api/schemas/user';
+import { postChannelMessage } from '@/lib/discord/api';
+import { getDRepById } from '@/lib/data';
+import { getDRepPrimaryName } from '@/utils/display';
+
+/**
+ * POST: Complete a `/drep-announce link` started in a Discord server.
+ * Only the account that claimed a DRep profile can point that DRep's
+ * announcements at a server.
+ */
+export const POST = withRouteHandler(
+  async (request: NextRequest, { userId, wallet }: RouteContext) => {
+    const body = await request.json();
+    const { token } = DiscordLinkSchema.parse(body);
+
+    const supabase = getSupabaseAdmin();
+    const { data: user } = await supabase
+      .from('users')
+      .select('claimed_drep_id')
+      .eq('id', userId!)
+      .maybeSingle();
+    if (!user?.claimed_drep_id) {
+      return NextResponse.json(
+        { error: 'Claim your DRep profile before linking a Discord server' },
+        { status: 403 },
+      );
+    }
+
+    const { data: guild } = await supabase
+      .from('discord_guilds')
+      .select('guild_id, link_channel_id, link_expires_at')
+      .eq('link_token', token)
+      .maybeSingle();
+    if (!guild?.link_channel_id || !guild.link_expires_at) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 400 });
+    }
+    if (new Date(guild.link_expires_at).getTime() < Date.now()) {
+      return NextResponse.json(
+        { error: 'Link expired. Run /drep-announce link again.' },
+        { status: 410 },
+      );
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('discord_guilds')
+      .update({
+        drep_id: user.claimed_drep_id,
+        drep_channel_id: guild.link_channel_id,
+        // Announce votes detected from now on, not the back catalog
+        drep_cursor: now,
+        linked_by: userId!,
+        linked_at: now,
+        link_token: null,
+        link_channel_id: null,
+        link_expires_at: null,
+      })
+      .eq('guild_id', guild.guild_id);
+    if (error) {
+      return NextResponse.json({ error: 'Failed to link server' }, { status: 500 });
+    }
+
+    captureServerEvent(
+      'discord_drep_linked',
+      { guild_id: guild.guild_id, drep_id: user.claimed_drep_id },
+      wallet!,
+    );
+
+    const drep = await getDRepById(user.claimed_drep_id);
+    const name = drep ? getDRepPrimaryName(drep) : user.claimed_drep_id;
+    await postChannelMessage(guild.link_channel_id, {
+      content: `✅ **${name}** is linked. Their votes and rationales will be announced here.`,
+    });
+
+    return NextResponse.json({ ok: true, drepId: user.claimed_drep_id });
+  },
+  { auth: 'required', rateLimit: { max: 5, window: 60 } },
+);
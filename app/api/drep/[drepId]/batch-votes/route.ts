@@ -0,0 +1,65 @@
+/**
+ * DRep Batch Votes API
+ * Records the votes of a submitted batch transaction per proposal, so the
+ * dashboard can show them before the vote sync sees the transaction.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { captureServerEvent } from '@/lib/posthog-server';
+import { logger } from '@/lib/logger';
+import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
+import { BatchVoteRecordSchema } from '@/lib/api/schemas/drep';
+import { deriveDRepIdFromStakeAddress, stakeAddressFromAddress } from '@/utils/drepId';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = withRouteHandler(
+  async (request: NextRequest, { wallet }: RouteContext) => {
+    const drepId = request.nextUrl.pathname.split('/')[3];
+    const { txHash, votes } = BatchVoteRecordSchema.parse(await request.json());
+
+    const supabase = getSupabaseAdmin();
+
+    // The DRep key is the wallet's stake key; claimed DReps are also accepted
+    const stakeAddress = stakeAddressFromAddress(wallet!);
+    const ownsDRep = !!stakeAddress && deriveDRepIdFromStakeAddress(stakeAddress) === drepId;
+    if (!ownsDRep) {
+      const { data: user } = await supabase
+        .from('users')
+        .select('claimed_drep_id')
+        .eq('wallet_address', wallet!)
+        .maybeSingle();
+      if (user?.claimed_drep_id !== drepId) {
+        return NextResponse.json({ error: 'Not authorized for this DRep' }, { status: 403 });
+      }
+    }
+
+    const { error } = await supabase.from('batch_votes').upsert(
+      votes.map((v) => ({
+        tx_hash: txHash.toLowerCase(),
+        drep_id: drepId,
+        proposal_tx_hash: v.proposalTxHash,
+        proposal_index: v.proposalIndex,
+        vote: v.vote,
+        anchor_url: v.anchorUrl ?? null,
+        anchor_hash: v.anchorHash?.toLowerCase() ?? null,
+      })),
+      { onConflict: 'tx_hash,proposal_tx_hash,proposal_index' },
+    );
+
+    if (error) {
+      logger.error('Error', { context: 'batch-votes-post', error: error.message });
+      return NextResponse.json({ error: 'Failed to record batch votes' }, { status: 500 });
+    }
+
+    captureServerEvent(
+      'batch_votes_recorded',
+      { drep_id: drepId, vote_count: votes.length, tx_hash: txHash },
+      drepId,
+    );
+
+    return NextResponse.json({ recorded: votes.length });
+  },
+  { auth: 'required', rateLimit: { max: 20, window: 3600 } },
+);
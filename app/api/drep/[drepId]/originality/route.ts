@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { captureServerEvent } from '@/lib/posthog-server';
+import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
+import { OriginalityAppealSchema } from '@/lib/api/schemas/drep';
+import { getDRepOriginalityFlags, submitOriginalityAppeal } from '@/lib/rationaleOriginality';
+
+export const dynamic = 'force-dynamic';
+
+/** GET: The DRep's rationale originality flags with appeal status. */
+export const GET = withRouteHandler(async (request: NextRequest) => {
+  const drepId = request.nextUrl.pathname.split('/')[3];
+  return NextResponse.json({ flags: await getDRepOriginalityFlags(drepId) });
+});
+
+/**
+ * POST: Appeal a flag. Only the account that claimed the DRep profile can
+ * appeal, once per flag; an admin rules on it from /admin/integrity.
+ */
+export const POST = withRouteHandler(
+  async (request: NextRequest, { userId, wallet }: RouteContext) => {
+    const drepId = request.nextUrl.pathname.split('/')[3];
+    const { voteTxHash, reason } = OriginalityAppealSchema.parse(await request.json());
+
+    const { data: user } = await getSupabaseAdmin()
+      .from('users')
+      .select('claimed_drep_id')
+      .eq('id', userId!)
+      .maybeSingle();
+    if (!user || user.claimed_drep_id !== drepId) {
+      return NextResponse.json({ error: 'Not authorized for this DRep' }, { status: 403 });
+    }
+
+    const filed = await submitOriginalityAppeal(voteTxHash, drepId, reason);
+    if (!filed) {
+      return NextResponse.json({ error: 'Flag not found or already appealed' }, { status: 409 });
+    }
+
+    captureServerEvent('originality_appeal_filed', { drep_id: drepId }, wallet!);
+    return NextResponse.json({ ok: true });
+  },
+  { auth: 'required', rateLimit: { max: 10, window: 60 } },
+);
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
+import { blockTimeToEpoch } from '@/lib/koios';
 import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
+import { tallyAssembly } from '@/lib/stakeWeighting';
 
 export const dynamic = 'force-dynamic';
 
@@ -36,26 +38,11 @@ export const GET = withRouteHandler(
       if (response) userVote = response.selected_option;
     }
 
-    // Get current vote counts
-    const { data: responses } = await supabase
-      .from('citizen_assembly_responses')
-      .select('selected_option')
-      .eq('assembly_id', assembly.id);
-
-    const voteCounts: Record<string, number> = {};
-    for (const r of responses || []) {
-      voteCounts[r.selected_option] = (voteCounts[r.selected_option] || 0) + 1;
-    }
-
-    const totalVotes = (responses || []).length;
+    // Live tally: headcount plus stake weighted at the current epoch's snapshots
     const options =
       (assembly.options as { key: string; label: string; description?: string }[]) || [];
-    const results = options.map((opt) => ({
-      key: opt.key,
-      label: opt.label,
-      count: voteCounts[opt.key] || 0,
-      percentage: totalVotes > 0 ? Math.round(((voteCounts[opt.key] || 0) / totalVotes) * 100) : 0,
-    }));
+    const currentEpoch = blockTimeToEpoch(Math.floor(Date.now() / 1000));
+    const { results, summary } = await tallyAssembly(assembly.id, options, currentEpoch);
 
     return NextResponse.json({
       id: assembly.id,
@@ -68,7 +55,12 @@ export const GET = withRouteHandler(
       opensAt: assembly.opens_at,
       closesAt: assembly.closes_at,
       results,
-      totalVotes,
+      totalVotes: summary.headcount,
+      stakeWeighted: {
+        totalStakeLovelace: summary.totalStakeLovelace,
+        unweightedVoters: summary.unweightedVoters,
+        snapshotEpoch: currentEpoch,
+      },
       userVote,
     });
   },
@@ -15,21 +15,53 @@ export const GET = withRouteHandler(
       .order('closes_at', { ascending: false })
       .limit(20);
 
-    const result = (assemblies || []).map((a) => ({
-      id: a.id,
-      title: a.title,
-      description: a.description,
-      question: a.question,
-      options: a.options,
-      status: a.status,
-      epoch: a.epoch,
-      opensAt: a.opens_at,
-      closesAt: a.closes_at,
-      results: a.results,
-      totalVotes: a.total_votes,
-    }));
+    const result = (assemblies || []).map((a) => {
+      const stakeByKey = new Map(
+        ((a.stake_weighted_results as StakeResult[] | null) ?? []).map((r) => [r.key, r]),
+      );
+      const results = (a.results as HeadcountResult[] | null)?.map((r) => ({
+        ...r,
+        stakeLovelace: stakeByKey.get(r.key)?.stakeLovelace,
+        stakePercentage: stakeByKey.get(r.key)?.stakePercentage,
+      }));
+      return {
+        id: a.id,
+        title: a.title,
+        description: a.description,
+        question: a.question,
+        options: a.options,
+        status: a.status,
+        epoch: a.epoch,
+        opensAt: a.opens_at,
+        closesAt: a.closes_at,
+        results: results ?? null,
+        totalVotes: a.total_votes,
+        // Assemblies closed before stake snapshots existed have headcount only
+        stakeWeighted:
+          a.snapshot_epoch !== null
+            ? {
+                totalStakeLovelace: a.total_stake_lovelace ?? 0,
+                unweightedVoters: a.unweighted_voters ?? 0,
+                snapshotEpoch: a.snapshot_epoch,
+              }
+            : null,
+      };
+    });
 
     return NextResponse.json(result);
   },
   { auth: 'optional' },
 );
+
+interface HeadcountResult {
+  key: string;
+  label: string;
+  count: number;
+  percentage: number;
+}
+
+interface StakeResult {
+  key: string;
+  stakeLovelace: number;
+  stakePercentage: number;
+}
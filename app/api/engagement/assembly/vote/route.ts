@@ -5,6 +5,7 @@ import { captureServerEvent } from '@/lib/posthog-server';
 import { logger } from '@/lib/logger';
 import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
 import { AssemblyVoteSchema } from '@/lib/api/schemas/engagement';
+import { stakeAddressFromAddress } from '@/utils/drepId';
 
 export const dynamic = 'force-dynamic';
 
@@ -43,7 +44,8 @@ export const POST = withRouteHandler(
       assembly_id: assemblyId,
       user_id: userId!,
       wallet_address: walletAddress,
-      stake_address: stakeAddress || null,
+      // The wallet's own stake key, so a voter cannot claim someone else's stake
+      stake_address: stakeAddressFromAddress(walletAddress) ?? stakeAddress ?? null,
       selected_option: selectedOption,
     });
 
@@ -3,6 +3,13 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
 import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
 import { CONCERN_FLAG_TYPES } from '@/lib/api/schemas/engagement';
+import { blockTimeToEpoch } from '@/lib/koios';
+import {
+  dedupeByStakeKey,
+  loadStakeWeights,
+  proposalCloseEpoch,
+  tallyOptions,
+} from '@/lib/stakeWeighting';
 
 export const dynamic = 'force-dynamic';
 
@@ -28,7 +35,7 @@ export const GET = withRouteHandler(
 
     const { data: allFlags, error } = await supabase
       .from('citizen_concern_flags')
-      .select('flag_type, user_id')
+      .select('flag_type, user_id, wallet_address, created_at')
       .eq('proposal_tx_hash', proposalTxHash)
       .eq('proposal_index', proposalIndex);
 
@@ -42,13 +49,35 @@ export const GET = withRouteHandler(
 
     const rows = allFlags || [];
 
-    // Aggregate counts per flag type
+    // One flag of each type per stake key; weighted at the proposal's close epoch
+    const { voters } = dedupeByStakeKey(
+      rows.map((r) => ({
+        userId: r.user_id,
+        walletAddress: r.wallet_address,
+        at: r.created_at,
+        choice: r.flag_type,
+      })),
+      (v) => v.choice,
+    );
+    const { data: proposal } = await supabase
+      .from('proposals')
+      .select('ratified_epoch, enacted_epoch, expired_epoch, dropped_epoch')
+      .eq('tx_hash', proposalTxHash)
+      .eq('proposal_index', proposalIndex)
+      .maybeSingle();
+    const weightEpoch =
+      (proposal && proposalCloseEpoch(proposal)) ?? blockTimeToEpoch(Math.floor(Date.now() / 1000));
+    const stake = await loadStakeWeights(
+      voters.map((v) => v.stakeKey).filter((k): k is string => !!k),
+      weightEpoch,
+    );
+    const tally = tallyOptions(voters, stake, [...CONCERN_FLAG_TYPES]);
+
     const flags: Record<string, number> = {};
-    for (const ft of CONCERN_FLAG_TYPES) {
-      flags[ft] = 0;
-    }
-    for (const row of rows) {
-      flags[row.flag_type] = (flags[row.flag_type] || 0) + 1;
+    const stakeWeighted: Record<string, number> = {};
+    for (const option of tally.options) {
+      flags[option.key] = option.count;
+      stakeWeighted[option.key] = option.stakeLovelace;
     }
 
     // User's own flags
@@ -58,7 +87,11 @@ export const GET = withRouteHandler(
 
     return NextResponse.json({
       flags,
-      total: rows.length,
+      total: voters.length,
+      stakeWeighted,
+      flaggers: tally.summary.headcount,
+      flaggerStakeLovelace: tally.summary.totalStakeLovelace,
+      snapshotEpoch: weightEpoch,
       userFlags,
     });
   },
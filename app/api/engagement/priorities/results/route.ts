@@ -4,6 +4,7 @@ import { blockTimeToEpoch } from '@/lib/koios';
 import { logger } from '@/lib/logger';
 import { withRouteHandler } from '@/lib/api/withRouteHandler';
 import { PRIORITY_AREAS } from '@/lib/api/schemas/engagement';
+import { dedupeByStakeKey, loadStakeWeights, tallyBorda } from '@/lib/stakeWeighting';
 
 export const dynamic = 'force-dynamic';
 
@@ -32,6 +33,9 @@ export const GET = withRouteHandler(
       return NextResponse.json({
         rankings: precomputed.rankings,
         totalVoters: precomputed.total_voters,
+        stakeWeightedRankings: precomputed.stake_weighted_rankings,
+        totalStakeLovelace: precomputed.total_stake_lovelace,
+        unweightedVoters: precomputed.unweighted_voters,
         epoch,
       });
     }
@@ -39,7 +43,7 @@ export const GET = withRouteHandler(
     // Compute on the fly if no precomputed data
     const { data: signals, error } = await supabase
       .from('citizen_priority_signals')
-      .select('ranked_priorities')
+      .select('user_id, wallet_address, ranked_priorities, updated_at, created_at')
       .eq('epoch', epoch);
 
     if (error) {
@@ -50,51 +54,33 @@ export const GET = withRouteHandler(
       return NextResponse.json({ error: 'Failed to fetch results' }, { status: 500 });
     }
 
-    const rows = signals || [];
-    const rankings = computeBordaRankings(rows.map((r) => r.ranked_priorities));
+    const { voters, duplicateResponses } = dedupeByStakeKey(
+      (signals || []).map((s) => ({
+        userId: s.user_id,
+        walletAddress: s.wallet_address,
+        at: s.updated_at ?? s.created_at,
+        ranking: s.ranked_priorities,
+      })),
+    );
+    const stake = await loadStakeWeights(
+      voters.map((v) => v.stakeKey).filter((k): k is string => !!k),
+      epoch,
+    );
+    const { rankings, stakeWeighted, summary } = tallyBorda(
+      voters,
+      stake,
+      PRIORITY_AREAS,
+      duplicateResponses,
+    );
 
     return NextResponse.json({
       rankings,
-      totalVoters: rows.length,
+      totalVoters: summary.headcount,
+      stakeWeightedRankings: stakeWeighted,
+      totalStakeLovelace: summary.totalStakeLovelace,
+      unweightedVoters: summary.unweightedVoters,
       epoch,
     });
   },
   { auth: 'optional' },
 );
-
-/**
- * Borda count ranking: 1st choice gets N points, 2nd gets N-1, etc.
- * Where N = max choices allowed (5).
- */
-function computeBordaRankings(
-  allRankings: string[][],
-): { priority: string; score: number; rank: number; firstChoiceCount: number }[] {
-  const maxPoints = 5;
-  const scores: Record<string, number> = {};
-  const firstChoiceCounts: Record<string, number> = {};
-
-  for (const area of PRIORITY_AREAS) {
-    scores[area] = 0;
-    firstChoiceCounts[area] = 0;
-  }
-
-  for (const ranking of allRankings) {
-    for (let i = 0; i < ranking.length; i++) {
-      const area = ranking[i];
-      scores[area] = (scores[area] || 0) + (maxPoints - i);
-      if (i === 0) {
-        firstChoiceCounts[area] = (firstChoiceCounts[area] || 0) + 1;
-      }
-    }
-  }
-
-  return Object.entries(scores)
-    .map(([priority, score]) => ({
-      priority,
-      score,
-      rank: 0,
-      firstChoiceCount: firstChoiceCounts[priority] || 0,
-    }))
-    .sort((a, b) => b.score - a.score)
-    .map((item, i) => ({ ...item, rank: i + 1 }));
-}
@@ -3,6 +3,16 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
 import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
 import { aggregateSentiment } from '@/lib/api/engagement-utils';
+import { blockTimeToEpoch } from '@/lib/koios';
+import { fetchAll } from '@/lib/sync-utils';
+import {
+  dedupeByStakeKey,
+  loadStakeWeights,
+  proposalCloseEpoch,
+  tallyOptions,
+} from '@/lib/stakeWeighting';
+
+const SENTIMENTS = ['support', 'oppose', 'unsure'] as const;
 
 export const dynamic = 'force-dynamic';
 
@@ -27,22 +37,51 @@ export const GET = withRouteHandler(
 
     const supabase = getSupabaseAdmin();
 
-    const { data: allVotes, error } = await supabase
-      .from('citizen_sentiment')
-      .select('sentiment, user_id, delegated_drep_id, stake_address')
-      .eq('proposal_tx_hash', proposalTxHash)
-      .eq('proposal_index', proposalIndex);
-
-    if (error) {
+    let rows: SentimentRow[];
+    try {
+      rows = await fetchAll<SentimentRow>(
+        supabase
+          .from('citizen_sentiment')
+          .select(
+            'sentiment, user_id, wallet_address, delegated_drep_id, stake_address, updated_at, created_at',
+          )
+          .eq('proposal_tx_hash', proposalTxHash)
+          .eq('proposal_index', proposalIndex)
+          .order('id'),
+      );
+    } catch (error) {
       logger.error('Sentiment results query error', {
         context: 'engagement/sentiment/results',
-        error: error.message,
+        error: error instanceof Error ? error.message : String(error),
       });
       return NextResponse.json({ error: 'Failed to fetch results' }, { status: 500 });
     }
 
-    const rows = allVotes || [];
-    const community = aggregateSentiment(rows);
+    const { voters, duplicateResponses } = dedupeByStakeKey(
+      rows.map((r) => ({
+        userId: r.user_id,
+        walletAddress: r.wallet_address,
+        at: r.updated_at ?? r.created_at,
+        choice: r.sentiment,
+      })),
+    );
+    const community = aggregateSentiment(voters.map((v) => ({ sentiment: v.choice })));
+
+    // Community-wide stake weighting at the proposal's close epoch (current epoch while open)
+    const { data: proposal } = await supabase
+      .from('proposals')
+      .select('ratified_epoch, enacted_epoch, expired_epoch, dropped_epoch')
+      .eq('tx_hash', proposalTxHash)
+      .eq('proposal_index', proposalIndex)
+      .maybeSingle();
+    const weightEpoch =
+      (proposal && proposalCloseEpoch(proposal)) ?? blockTimeToEpoch(Math.floor(Date.now() / 1000));
+    const stake = await loadStakeWeights(
+      voters.map((v) => v.stakeKey).filter((k): k is string => !!k),
+      weightEpoch,
+    );
+    const tally = tallyOptions(voters, stake, [...SENTIMENTS], duplicateResponses);
+    const byKey = new Map(tally.options.map((o) => [o.key, o.stakeLovelace]));
 
     // User's own sentiment
     let userSentiment: string | null = null;
@@ -53,6 +92,14 @@ export const GET = withRouteHandler(
 
     const result: SentimentResultsResponse = {
       community,
+      communityStakeWeighted: {
+        support: byKey.get('support') ?? 0,
+        oppose: byKey.get('oppose') ?? 0,
+        unsure: byKey.get('unsure') ?? 0,
+        total: tally.summary.totalStakeLovelace,
+        unweightedVoters: tally.summary.unweightedVoters,
+        snapshotEpoch: weightEpoch,
+      },
       userSentiment: userSentiment as SentimentResultsResponse['userSentiment'],
       hasVoted: userSentiment !== null,
     };
@@ -106,8 +153,27 @@ export const GET = withRouteHandler(
   { auth: 'optional' },
 );
 
+interface SentimentRow {
+  sentiment: string;
+  user_id: string;
+  wallet_address: string;
+  delegated_drep_id: string | null;
+  stake_address: string | null;
+  updated_at: string | null;
+  created_at: string | null;
+}
+
 interface SentimentResultsResponse {
   community: { support: number; oppose: number; unsure: number; total: number };
+  /** Lovelace per sentiment across all voters, one vote per stake key */
+  communityStakeWeighted: {
+    support: number;
+    oppose: number;
+    unsure: number;
+    total: number;
+    unweightedVoters: number;
+    snapshotEpoch: number;
+  };
   delegators?: { support: number; oppose: number; unsure: number; total: number };
   stakeWeighted?: { support: number; oppose: number; unsure: number; total: number };
   userSentiment: 'support' | 'oppose' | 'unsure' | null;
@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server';
 import { withRouteHandler } from '@/lib/api/withRouteHandler';
 import { createClient } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
+import { listChainAdapters } from '@/lib/crossChain';
+import { periodStart } from '@/lib/crossChain/adapter';
 
 export const dynamic = 'force-dynamic';
 
@@ -18,37 +20,68 @@ interface BenchmarkRow {
   raw_data: Record<string, unknown> | null;
   ai_insight: string | null;
   fetched_at: string;
+  period_start: string | null;
 }
 
-export const GET = withRouteHandler(async (_request, { requestId }) => {
+const MAX_HISTORY_WEEKS = 52;
+/** How far back to look for a chain's latest row when its last sync failed */
+const LATEST_LOOKBACK_WEEKS = 4;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Latest benchmark per registered chain. `?history=N` adds each chain's
+ * weekly series for the last N weeks (oldest first).
+ */
+export const GET = withRouteHandler(async (request) => {
   const supabase = createClient();
+  const historyWeeks = Math.min(
+    MAX_HISTORY_WEEKS,
+    Math.max(0, parseInt(request.nextUrl.searchParams.get('history') ?? '0', 10) || 0),
+  );
+  const lookback = Math.max(historyWeeks, LATEST_LOOKBACK_WEEKS);
+  const since = periodStart(new Date(Date.now() - lookback * WEEK_MS));
 
   const { data: latest, error: latestErr } = await supabase
     .from('governance_benchmarks')
     .select(
-      'chain, period_label, participation_rate, delegate_count, proposal_count, proposal_throughput, avg_rationale_rate, governance_score, grade, raw_data, ai_insight, fetched_at',
+      'chain, period_label, period_start, participation_rate, delegate_count, proposal_count, proposal_throughput, avg_rationale_rate, governance_score, grade, raw_data, ai_insight, fetched_at',
     )
-    .order('fetched_at', { ascending: false })
-    .limit(3);
+    .gte('period_start', since)
+    .order('fetched_at', { ascending: false });
 
   if (latestErr) {
     logger.error('Latest fetch error', { context: 'benchmarks', error: latestErr.message });
     return NextResponse.json({ error: 'Failed to fetch benchmarks' }, { status: 500 });
   }
 
-  const chains = ['cardano', 'ethereum', 'polkadot'] as const;
+  const rows = (latest ?? []) as BenchmarkRow[];
+  const chains = listChainAdapters().map((a) => a.chain);
   const latestByChain: Record<string, BenchmarkRow | null> = {};
   for (const chain of chains) {
-    latestByChain[chain] = (latest as BenchmarkRow[])?.find((r) => r.chain === chain) ?? null;
+    latestByChain[chain] = rows.find((r) => r.chain === chain) ?? null;
+  }
+
+  let history: Record<string, BenchmarkRow[]> | undefined;
+  if (historyWeeks > 0) {
+    const historySince = periodStart(new Date(Date.now() - historyWeeks * WEEK_MS));
+    history = {};
+    for (const chain of chains) {
+      history[chain] = rows
+        .filter(
+          (r) => r.chain === chain && r.period_start != null && r.period_start >= historySince,
+        )
+        .reverse();
+    }
   }
 
-  const aiInsight = (latest as BenchmarkRow[])?.find((r) => r.ai_insight)?.ai_insight ?? null;
+  const aiInsight = rows.find((r) => r.ai_insight)?.ai_insight ?? null;
 
   return NextResponse.json(
     {
       benchmarks: latestByChain,
+      ...(history && { history }),
       aiInsight,
-      updatedAt: latest?.[0]?.fetched_at ?? null,
+      updatedAt: rows[0]?.fetched_at ?? null,
     },
     {
       headers: {
@@ -0,0 +1,59 @@
+/**
+ * GET /api/governance/calendar/ics/:token — personal iCalendar feed.
+ * The token (from /api/user/calendar-feed) identifies the user. `scope`
+ * picks proposals: mine (claimed DRep's open votes), watchlist, or all.
+ * Accepts the same include/type/alarm parameters as the public feed.
+ */
+import { NextResponse } from 'next/server';
+import { withRouteHandler } from '@/lib/api/withRouteHandler';
+import {
+  CALENDAR_SCOPES,
+  getGovernanceCalendarFeed,
+  parseCalendarFilter,
+  resolvePersonalCalendar,
+  type CalendarScope,
+} from '@/lib/governanceCalendar';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withRouteHandler(
+  async (request) => {
+    // Calendar apps sometimes append .ics to subscription URLs
+    const token = decodeURIComponent(request.nextUrl.pathname.split('/')[5] || '').replace(
+      /\.ics$/,
+      '',
+    );
+    const params = request.nextUrl.searchParams;
+
+    const scope = params.get('scope') || 'mine';
+    if (!(CALENDAR_SCOPES as readonly string[]).includes(scope)) {
+      return NextResponse.json(
+        { error: `scope must be one of ${CALENDAR_SCOPES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const parsed = parseCalendarFilter(params);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const personal = token ? await resolvePersonalCalendar(token, scope as CalendarScope) : null;
+    if (!personal) {
+      return NextResponse.json({ error: 'Unknown calendar feed' }, { status: 404 });
+    }
+
+    const ics = await getGovernanceCalendarFeed(
+      { ...parsed.filter, obligationsOf: personal.obligationsOf },
+      personal.name,
+    );
+
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="civica-governance.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  },
+  { rateLimit: { max: 30, window: 60 } },
+);
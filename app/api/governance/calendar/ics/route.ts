@@ -0,0 +1,31 @@
+/**
+ * GET /api/governance/calendar/ics — public iCalendar feed.
+ * Query: include (proposals,epochs,polls,assemblies), type (proposal types),
+ * drep (DRep IDs whose open votes to follow), alarm (hours before deadlines).
+ */
+import { NextResponse } from 'next/server';
+import { withRouteHandler } from '@/lib/api/withRouteHandler';
+import { getGovernanceCalendarFeed, parseCalendarFilter } from '@/lib/governanceCalendar';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withRouteHandler(
+  async (request) => {
+    const parsed = parseCalendarFilter(request.nextUrl.searchParams);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const name = parsed.filter.obligationsOf ? 'Civica — DRep Votes Due' : 'Civica Governance';
+    const ics = await getGovernanceCalendarFeed(parsed.filter, name);
+
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="civica-governance.ics"',
+        'Cache-Control': 'public, s-maxage=900, stale-while-revalidate=1800',
+      },
+    });
+  },
+  { rateLimit: { max: 60, window: 60 } },
+);
@@ -3,11 +3,33 @@ import { withRouteHandler } from '@/lib/api/withRouteHandler';
 import { createClient } from '@/lib/supabase';
 import { blockTimeToEpoch } from '@/lib/koios';
 import { logger } from '@/lib/logger';
+import { DEFAULT_LOCALE, toLocale, type Locale } from '@/lib/i18n';
+import { getLocalizedContent } from '@/lib/i18n/aiContent';
 
 export const dynamic = 'force-dynamic';
 
+type RecapRow = { epoch: number; ai_narrative: string | null };
+
+/** Swap in cached translations of ai_narrative; untranslated recaps stay in English */
+async function localizeRecaps<T extends RecapRow>(recaps: T[], locale: Locale): Promise<T[]> {
+  if (locale === DEFAULT_LOCALE) return recaps;
+  const translations = await getLocalizedContent(
+    'epoch_recap',
+    recaps
+      .filter((r) => r.ai_narrative)
+      .map((r) => ({ key: String(r.epoch), text: r.ai_narrative! })),
+    locale,
+  );
+  return recaps.map((r) => {
+    const narrative = translations.get(String(r.epoch));
+    return narrative ? { ...r, ai_narrative: narrative, locale } : r;
+  });
+}
+
 export const GET = withRouteHandler(async (request, { requestId }) => {
   const epochParam = request.nextUrl.searchParams.get('epoch');
+  // Query param rather than cookie: responses are cached publicly per URL
+  const locale = toLocale(request.nextUrl.searchParams.get('locale'));
   const supabase = createClient();
 
   if (epochParam) {
@@ -26,7 +48,8 @@ export const GET = withRouteHandler(async (request, { requestId }) => {
       return NextResponse.json({ error: 'Epoch recap not found' }, { status: 404 });
     }
 
-    return NextResponse.json(data, {
+    const [recap] = await localizeRecaps([data], locale);
+    return NextResponse.json(recap, {
       headers: { 'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=3600' },
     });
   }
@@ -49,7 +72,7 @@ export const GET = withRouteHandler(async (request, { requestId }) => {
       .order('epoch', { ascending: false })
       .limit(limit);
 
-    return NextResponse.json(data ?? [], {
+    return NextResponse.json(await localizeRecaps(data ?? [], locale), {
       headers: { 'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=3600' },
     });
   }
@@ -68,7 +91,8 @@ export const GET = withRouteHandler(async (request, { requestId }) => {
     return NextResponse.json({ error: 'No epoch recaps available' }, { status: 404 });
   }
 
-  return NextResponse.json(data, {
+  const [recap] = await localizeRecaps([data], locale);
+  return NextResponse.json(recap, {
     headers: { 'Cache-Control': 'public, s-maxage=120, stale-while-revalidate=600' },
   });
 });
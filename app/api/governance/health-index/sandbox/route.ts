@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { withRouteHandler } from '@/lib/api/withRouteHandler';
+import { GhiSandboxQuerySchema } from '@/lib/api/schemas/governance';
+import { loadGHIInputs, scoreGHIInputs } from '@/lib/ghi';
+import { baselineFromInputs, runSandbox, type SandboxBaseline } from '@/lib/ghi/sandbox';
+import type { GHIBand } from '@/lib/ghi';
+
+export const dynamic = 'force-dynamic';
+
+let cachedBaseline: {
+  data: { baseline: SandboxBaseline; live: { score: number; band: GHIBand } };
+  ts: number;
+} | null = null;
+const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+async function getBaseline() {
+  if (cachedBaseline && Date.now() - cachedBaseline.ts < CACHE_TTL_MS) {
+    return cachedBaseline.data;
+  }
+  const inputs = await loadGHIInputs();
+  const live = scoreGHIInputs(inputs);
+  const data = {
+    baseline: baselineFromInputs(inputs),
+    live: { score: live.score, band: live.band },
+  };
+  cachedBaseline = { data, ts: Date.now() };
+  return data;
+}
+
+export const GET = withRouteHandler(async (request) => {
+  const overrides = GhiSandboxQuerySchema.parse(
+    Object.fromEntries(request.nextUrl.searchParams.entries()),
+  );
+
+  const { baseline, live } = await getBaseline();
+
+  return NextResponse.json(
+    {
+      baseline: baseline.inputs,
+      live,
+      scenario: runSandbox(baseline, overrides),
+    },
+    { headers: { 'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=600' } },
+  );
+});
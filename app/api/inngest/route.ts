@@ -13,16 +13,27 @@ import { alertIntegrity } from '@/inngest/functions/alert-integrity';
 import { alertInbox } from '@/inngest/functions/alert-inbox';
 import { alertApiHealth } from '@/inngest/functions/alert-api-health';
 import { checkNotifications } from '@/inngest/functions/check-notifications';
+import { detectWebhookEvents } from '@/inngest/functions/detect-webhook-events';
+import { notifyTelegramSubscriptions } from '@/inngest/functions/notify-telegram-subscriptions';
+import { postDiscordFeeds } from '@/inngest/functions/post-discord-feeds';
+import { localizeAiContent } from '@/inngest/functions/localize-ai-content';
+import { deliverWebhooks } from '@/inngest/functions/deliver-webhooks';
 import { checkAccountabilityPolls } from '@/inngest/functions/check-accountability-polls';
 import { generateEpochSummary } from '@/inngest/functions/generate-epoch-summary';
 import { generateGovernanceBrief } from '@/inngest/functions/generate-governance-brief';
 import { generateStateOfGovernance } from '@/inngest/functions/generate-state-of-governance';
 import { syncAlignment } from '@/inngest/functions/sync-alignment';
 import { syncDrepScores } from '@/inngest/functions/sync-drep-scores';
+import { replayDrepScores } from '@/inngest/functions/replay-drep-scores';
 import { syncSpoAndCcVotes } from '@/inngest/functions/sync-spo-cc-votes';
 import { syncSpoScores } from '@/inngest/functions/sync-spo-scores';
 import { checkSnapshotCompleteness } from '@/inngest/functions/check-snapshot-completeness';
 import { cleanupRevokedSessions } from '@/inngest/functions/cleanup-revoked-sessions';
+import { detectCoordination } from '@/inngest/functions/detect-coordination';
+import { indexRationaleOriginality } from '@/inngest/functions/index-rationale-originality';
+import { generateReportExports } from '@/inngest/functions/generate-report-exports';
+import { projectProposalOutcomes } from '@/inngest/functions/compute-outcome-projections';
+import { retryAnchorFetches } from '@/inngest/functions/retry-anchor-fetches';
 import { detectAlignmentDrift } from '@/inngest/functions/detect-alignment-drift';
 import { precomputeCitizenSummaries } from '@/inngest/functions/precompute-citizen-summaries';
 import { generateGovernanceWrapped } from '@/inngest/functions/generate-governance-wrapped';
@@ -53,17 +64,28 @@ export const { GET, POST, PUT } = serve({
     alertInbox,
     alertApiHealth,
     checkNotifications,
+    detectWebhookEvents,
+    notifyTelegramSubscriptions,
+    postDiscordFeeds,
+    localizeAiContent,
+    deliverWebhooks,
     checkAccountabilityPolls,
     generateEpochSummary,
     generateGovernanceBrief,
     generateStateOfGovernance,
     syncAlignment,
     syncDrepScores,
+    replayDrepScores,
     syncSpoAndCcVotes,
     syncSpoScores,
     checkSnapshotCompleteness,
     cleanupRevokedSessions,
     detectAlignmentDrift,
+    detectCoordination,
+    indexRationaleOriginality,
+    generateReportExports,
+    projectProposalOutcomes,
+    retryAnchorFetches,
     precomputeCitizenSummaries,
     generateGovernanceWrapped,
     generateWeeklyDigest,
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRouteHandler } from '@/lib/api/withRouteHandler';
+import { drepScriptHash } from '@/utils/drepId';
+import { fetchNativeScriptCbor } from '@/utils/koios';
+import { decodeNativeScript, describeScript, scriptKeyHashes } from '@/lib/multisig/nativeScript';
+
+export const dynamic = 'force-dynamic';
+
+/** Native script behind a script DRep, when it has appeared on-chain */
+export const GET = withRouteHandler(
+  async (request: NextRequest) => {
+    const drepId = request.nextUrl.searchParams.get('drepId') ?? '';
+    const scriptHash = drepScriptHash(drepId);
+    if (!scriptHash) {
+      return NextResponse.json({ error: 'Not a script DRep ID' }, { status: 400 });
+    }
+
+    const scriptCbor = await fetchNativeScriptCbor(scriptHash);
+    if (!scriptCbor) return NextResponse.json({ scriptHash, scriptCbor: null });
+
+    const script = decodeNativeScript(scriptCbor);
+    return NextResponse.json({
+      scriptHash,
+      scriptCbor,
+      rule: describeScript(script),
+      keyHashes: scriptKeyHashes(script),
+    });
+  },
+  { rateLimit: { max: 60, window: 60 } },
+);
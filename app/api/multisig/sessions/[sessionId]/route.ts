@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
+import { cancelSigningSession, getSigningSession } from '@/lib/multisig/session';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withRouteHandler(async (request: NextRequest) => {
+  const sessionId = request.nextUrl.pathname.split('/')[4];
+  const session = await getSigningSession(sessionId);
+  if (!session) {
+    return NextResponse.json({ error: 'Signing session not found' }, { status: 404 });
+  }
+  return NextResponse.json({ session });
+});
+
+export const DELETE = withRouteHandler(
+  async (request: NextRequest, { userId }: RouteContext) => {
+    const sessionId = request.nextUrl.pathname.split('/')[4];
+    const cancelled = await cancelSigningSession(sessionId, userId!);
+    if (!cancelled) {
+      return NextResponse.json({ error: 'No open session of yours to cancel' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  },
+  { auth: 'required' },
+);
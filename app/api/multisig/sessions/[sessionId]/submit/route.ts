@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRouteHandler } from '@/lib/api/withRouteHandler';
+import { MultisigSessionError, submitIfComplete } from '@/lib/multisig/session';
+
+export const dynamic = 'force-dynamic';
+
+/** Retry submission of a fully signed session (e.g. after a Koios outage) */
+export const POST = withRouteHandler(
+  async (request: NextRequest) => {
+    const sessionId = request.nextUrl.pathname.split('/')[4];
+
+    try {
+      const session = await submitIfComplete(sessionId);
+      return NextResponse.json({ session });
+    } catch (err) {
+      if (err instanceof MultisigSessionError) {
+        return NextResponse.json({ error: err.message }, { status: err.status });
+      }
+      throw err;
+    }
+  },
+  { auth: 'optional', rateLimit: { max: 10, window: 600 } },
+);
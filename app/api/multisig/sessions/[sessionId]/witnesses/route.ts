@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRouteHandler } from '@/lib/api/withRouteHandler';
+import { MultisigWitnessSchema } from '@/lib/api/schemas/governance';
+import { addSessionWitnesses, MultisigSessionError } from '@/lib/multisig/session';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Co-signers need not have an account here: the witness itself proves they
+ * hold a key the script names, so the endpoint is open but rate limited.
+ */
+export const POST = withRouteHandler(
+  async (request: NextRequest) => {
+    const sessionId = request.nextUrl.pathname.split('/')[4];
+    const { witnesses, signerAddress } = MultisigWitnessSchema.parse(await request.json());
+
+    try {
+      const session = await addSessionWitnesses(sessionId, witnesses, signerAddress);
+      return NextResponse.json({ session });
+    } catch (err) {
+      if (err instanceof MultisigSessionError) {
+        return NextResponse.json({ error: err.message }, { status: err.status });
+      }
+      throw err;
+    }
+  },
+  { auth: 'optional', rateLimit: { max: 30, window: 3600 } },
+);
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
+import { MultisigSessionCreateSchema } from '@/lib/api/schemas/governance';
+import {
+  createSigningSession,
+  listSigningSessions,
+  MultisigSessionError,
+} from '@/lib/multisig/session';
+import { captureServerEvent } from '@/lib/posthog-server';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = withRouteHandler(async (request: NextRequest) => {
+  const drepId = request.nextUrl.searchParams.get('drepId');
+  if (!drepId) {
+    return NextResponse.json({ error: 'drepId is required' }, { status: 400 });
+  }
+  const sessions = await listSigningSessions(drepId);
+  return NextResponse.json({ sessions });
+});
+
+export const POST = withRouteHandler(
+  async (request: NextRequest, { userId, wallet }: RouteContext) => {
+    const input = MultisigSessionCreateSchema.parse(await request.json());
+
+    try {
+      const session = await createSigningSession({
+        ...input,
+        createdBy: userId,
+        creatorAddress: wallet!,
+      });
+      captureServerEvent(
+        'multisig_session_created',
+        { kind: session.kind, drep_id: session.drepId, rule: session.rule },
+        wallet!,
+      );
+      return NextResponse.json({ session }, { status: 201 });
+    } catch (err) {
+      if (err instanceof MultisigSessionError) {
+        return NextResponse.json({ error: err.message }, { status: err.status });
+      }
+      throw err;
+    }
+  },
+  { auth: 'required', rateLimit: { max: 20, window: 3600 } },
+);
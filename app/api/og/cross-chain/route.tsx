@@ -1,51 +1,33 @@
 import { ImageResponse } from 'next/og';
 import { createClient } from '@/lib/supabase';
-import { CHAIN_IDENTITIES, type Chain } from '@/lib/crossChain';
+import {
+  benchmarkFromRow,
+  chainIdentity,
+  listChainAdapters,
+  type GovernanceBenchmarkRow,
+} from '@/lib/crossChain';
 
 export const dynamic = 'force-dynamic';
 
-interface BenchmarkRow {
-  chain: string;
-  delegate_count: number | null;
-  proposal_count: number | null;
-  participation_rate: number | null;
-  ai_insight: string | null;
-}
-
-function headlineFor(chain: Chain, row: BenchmarkRow): string {
-  switch (chain) {
-    case 'cardano':
-      return row.delegate_count != null ? `${fmt(row.delegate_count)} DReps` : 'No data';
-    case 'ethereum':
-      return row.delegate_count != null ? `${fmt(row.delegate_count)} delegates` : 'No data';
-    case 'polkadot':
-      return row.proposal_count != null ? `${fmt(row.proposal_count)} referenda` : 'No data';
-  }
-}
-
-function fmt(n: number): string {
-  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
-  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
-  return n.toLocaleString();
-}
-
-const TAGLINES: Record<Chain, string> = {
-  cardano: 'DRep-based delegation',
-  ethereum: 'DAO token voting',
-  polkadot: 'Conviction voting',
-};
+type BenchmarkRow = GovernanceBenchmarkRow & { ai_insight: string | null };
 
 export async function GET() {
   try {
     const supabase = createClient();
 
+    const adapters = listChainAdapters({ featured: true });
+    const chains = adapters.map((a) => a.chain);
+
+    // A few weeks per chain so one failed sync still leaves a recent row
     const { data: rows } = await supabase
       .from('governance_benchmarks')
-      .select('chain, delegate_count, proposal_count, participation_rate, ai_insight')
+      .select(
+        'chain, period_label, participation_rate, delegate_count, proposal_count, proposal_throughput, avg_rationale_rate, raw_data, ai_insight, fetched_at',
+      )
+      .in('chain', chains)
       .order('fetched_at', { ascending: false })
-      .limit(3);
+      .limit(chains.length * 4);
 
-    const chains: Chain[] = ['cardano', 'ethereum', 'polkadot'];
     const byChain: Record<string, BenchmarkRow> = {};
     let insight: string | null = null;
 
@@ -90,9 +72,10 @@ export async function GET() {
         </span>
 
         <div style={{ display: 'flex', gap: '32px' }}>
-          {chains.map((chain) => {
+          {adapters.map((adapter) => {
+            const { chain, model } = adapter;
             const d = byChain[chain];
-            const identity = CHAIN_IDENTITIES[chain];
+            const identity = chainIdentity(chain);
 
             return (
               <div
@@ -114,7 +97,7 @@ export async function GET() {
                   {identity.name}
                 </span>
                 <span style={{ fontSize: '13px', color: '#6b7280', marginBottom: '16px' }}>
-                  {TAGLINES[chain]}
+                  {model.tagline}
                 </span>
                 <span
                   style={{
@@ -124,7 +107,7 @@ export async function GET() {
                     lineHeight: 1,
                   }}
                 >
-                  {d ? headlineFor(chain, d) : '—'}
+                  {d ? adapter.headline(benchmarkFromRow(d)) : '—'}
                 </span>
                 {d?.participation_rate != null && (
                   <span style={{ fontSize: '14px', color: '#9ca3af', marginTop: '8px' }}>
@@ -9,6 +9,10 @@ export async function GET(request: NextRequest) {
   const scenario = searchParams.get('scenario') || 'Current';
   const months = searchParams.get('months') || '—';
   const balance = searchParams.get('balance') || '—';
+  // Monte Carlo range (pessimistic–optimistic months) and depletion risk, when shared from a scenario
+  const low = searchParams.get('low');
+  const high = searchParams.get('high');
+  const risk = searchParams.get('risk');
 
   return new ImageResponse(
     <OGBackground glow={OG.amber}>
@@ -46,6 +50,11 @@ export async function GET(request: NextRequest) {
               <div style={{ display: 'flex', fontSize: '56px', fontWeight: 700, color: OG.amber }}>
                 {months}mo
               </div>
+              {low && high && (
+                <div style={{ display: 'flex', fontSize: '16px', color: OG.textMuted }}>
+                  {low}–{high}mo in 80% of runs
+                </div>
+              )}
             </div>
             <div style={{ display: 'flex', flexDirection: 'column' }}>
               <div style={{ display: 'flex', fontSize: '14px', color: OG.textMuted }}>
@@ -53,6 +62,14 @@ export async function GET(request: NextRequest) {
               </div>
               <div style={{ display: 'flex', fontSize: '56px', fontWeight: 700 }}>{balance}</div>
             </div>
+            {risk && (
+              <div style={{ display: 'flex', flexDirection: 'column' }}>
+                <div style={{ display: 'flex', fontSize: '14px', color: OG.textMuted }}>
+                  Depletion Risk
+                </div>
+                <div style={{ display: 'flex', fontSize: '56px', fontWeight: 700 }}>{risk}%</div>
+              </div>
+            )}
           </div>
         </div>
 
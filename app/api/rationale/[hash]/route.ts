@@ -1,7 +1,9 @@
 /**
  * Rationale Document Retrieval API
  * GET: Serves a CIP-100 JSON-LD document by its Blake2b-256 content hash.
- * This URL is used as the on-chain vote anchor.
+ * This URL is used as the on-chain vote anchor (or the HTTP mirror of an
+ * ipfs:// anchor). The stored serialization is served verbatim so the bytes
+ * match the anchor hash.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -22,7 +24,7 @@ export async function GET(
   const supabase = getSupabaseAdmin();
   const { data, error } = await supabase
     .from('rationale_documents')
-    .select('document')
+    .select('document, document_text')
     .eq('content_hash', hash)
     .single();
 
@@ -30,10 +32,10 @@ export async function GET(
     return NextResponse.json({ error: 'Rationale not found' }, { status: 404 });
   }
 
-  return NextResponse.json(data.document, {
-    headers: {
-      'Content-Type': 'application/json+ld',
-      'Cache-Control': 'public, max-age=31536000, immutable',
-    },
-  });
+  const headers = {
+    'Content-Type': 'application/json+ld',
+    'Cache-Control': 'public, max-age=31536000, immutable',
+  };
+  if (data.document_text) return new NextResponse(data.document_text, { headers });
+  return NextResponse.json(data.document, { headers });
 }
@@ -2,12 +2,28 @@
  * Rationale Submission API
  * POST: Accepts rationale text, builds CIP-100 JSON-LD, stores in Supabase,
  *       returns the anchor URL and Blake2b-256 hash for on-chain vote anchoring.
+ *       An optional wallet signature over the body hash is verified and embedded
+ *       as the author witness (the DRep is named only when its own key signed);
+ *       publishToIpfs pins the document and returns an ipfs:// anchor, falling
+ *       back to our own URL when pinning is unavailable.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
 import { getSupabaseAdmin } from '@/lib/supabase';
-import { buildAndHashRationale } from '@/lib/rationale';
+import {
+  buildAndHashRationale,
+  buildCip100Document,
+  serializeRationale,
+  type Cip100Witness,
+} from '@/lib/rationale';
+import { isSignedByDRep, verifyRationaleWitness } from '@/lib/rationaleWitness';
+import {
+  getPinningBackend,
+  ipfsAnchorUrl,
+  pinContent,
+  type PinResult,
+} from '@/lib/anchors/pinning';
 import { BASE_URL } from '@/lib/constants';
 import { logger } from '@/lib/logger';
 import { captureServerEvent } from '@/lib/posthog-server';
@@ -19,12 +35,69 @@ export const POST = withRouteHandler(
   async (request: NextRequest, { requestId }: RouteContext) => {
     const body = RationaleSubmitSchema.parse(await request.json());
 
-    const { document, contentHash } = buildAndHashRationale(body.rationaleText, body.drepId);
+    let witness: Cip100Witness | undefined;
+    let signerAddress: string | null = null;
+    let signerStakeAddress: string | null = null;
+    let signedByDRep = false;
+    if (body.witness) {
+      const { body: documentBody } = buildCip100Document(body.rationaleText, body.drepId);
+      const verification = await verifyRationaleWitness(documentBody, body.witness);
+      if (!verification.valid) {
+        return NextResponse.json(
+          { error: `Invalid author witness: ${verification.reason}` },
+          { status: 400 },
+        );
+      }
+      witness = verification.witness;
+      signerAddress = body.witness.address;
+      signerStakeAddress = verification.stakeAddress;
+      signedByDRep = isSignedByDRep(verification.keyHash, body.drepId);
+    }
+
+    // A witnessed document only names the DRep when the DRep's own key signed it
+    const namedDRep = witness && !signedByDRep ? undefined : body.drepId;
 
-    const anchorUrl = `${BASE_URL}/api/rationale/${contentHash}`;
+    const { document, contentHash } = buildAndHashRationale(body.rationaleText, namedDRep, witness);
+    const documentText = serializeRationale(document);
+    const httpUrl = `${BASE_URL}/api/rationale/${contentHash}`;
 
-    // Upsert: if same content hash exists, just return the URL
     const supabase = getSupabaseAdmin();
+    const { data: existing } = await supabase
+      .from('rationale_documents')
+      .select('ipfs_cid, pinning_backend, pinned_at')
+      .eq('content_hash', contentHash)
+      .maybeSingle();
+
+    // Same content hash means same bytes — an existing pin is reused
+    let pin: PinResult | null =
+      existing?.ipfs_cid && existing.pinning_backend
+        ? { cid: existing.ipfs_cid, backend: existing.pinning_backend }
+        : null;
+    let pinnedAt = existing?.pinned_at ?? null;
+    let ipfsError: string | undefined;
+    if (body.publishToIpfs && !pin) {
+      const backend = getPinningBackend();
+      if (!backend) {
+        ipfsError = 'IPFS publishing is not configured';
+      } else {
+        try {
+          pin = await pinContent(
+            new TextEncoder().encode(documentText),
+            `rationale-${contentHash}.jsonld`,
+            backend,
+          );
+          pinnedAt = new Date().toISOString();
+        } catch (err) {
+          logger.warn('[Rationale] IPFS pinning failed', {
+            error: err,
+            backend: backend.name,
+            requestId,
+          });
+          ipfsError = 'IPFS pinning failed';
+        }
+      }
+    }
+
     const { error } = await supabase.from('rationale_documents').upsert(
       {
         content_hash: contentHash,
@@ -32,7 +105,13 @@ export const POST = withRouteHandler(
         proposal_tx_hash: body.proposalTxHash,
         proposal_index: body.proposalIndex,
         document,
+        document_text: documentText,
         rationale_text: body.rationaleText,
+        signer_address: signerAddress,
+        signer_stake_address: signerStakeAddress,
+        ipfs_cid: pin?.cid ?? null,
+        pinning_backend: pin?.backend ?? null,
+        pinned_at: pinnedAt,
       },
       { onConflict: 'content_hash' },
     );
@@ -46,6 +125,8 @@ export const POST = withRouteHandler(
       contentHash,
       drepId: body.drepId,
       proposalTxHash: body.proposalTxHash,
+      signed: !!witness,
+      ipfsCid: pin?.cid,
       requestId,
     });
 
@@ -57,14 +138,20 @@ export const POST = withRouteHandler(
         proposal_index: body.proposalIndex,
         content_hash: contentHash,
         rationale_length: body.rationaleText.length,
+        signed: !!witness,
+        ipfs_pinned: !!pin,
       },
       body.drepId,
     );
 
     return NextResponse.json({
-      anchorUrl,
+      anchorUrl: pin ? ipfsAnchorUrl(pin.cid) : httpUrl,
       anchorHash: contentHash,
       contentHash,
+      httpUrl,
+      ipfsCid: pin?.cid ?? null,
+      signed: !!witness,
+      ...(ipfsError && { ipfsError }),
     });
   },
   { auth: 'none', rateLimit: { max: 20, window: 60 } },
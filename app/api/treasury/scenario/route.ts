@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { withRouteHandler } from '@/lib/api/withRouteHandler';
+import { getRunwayBaseline } from '@/lib/treasury';
+import {
+  decodeScenario,
+  defaultScenario,
+  ScenarioError,
+  simulateScenario,
+  type RunwayBaseline,
+} from '@/lib/treasuryScenarios';
+
+export const dynamic = 'force-dynamic';
+
+let cachedBaseline: { data: RunwayBaseline; ts: number } | null = null;
+const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+async function getBaseline(): Promise<RunwayBaseline | null> {
+  if (cachedBaseline && Date.now() - cachedBaseline.ts < CACHE_TTL_MS) {
+    return cachedBaseline.data;
+  }
+  const data = await getRunwayBaseline();
+  if (data) cachedBaseline = { data, ts: Date.now() };
+  return data;
+}
+
+/**
+ * Monte Carlo runway for a user-composed scenario. `?s=` carries the share
+ * token from encodeScenario(); without it the current trajectory is run.
+ */
+export const GET = withRouteHandler(
+  async (request) => {
+    const token = request.nextUrl.searchParams.get('s');
+
+    let scenario;
+    try {
+      scenario = token ? decodeScenario(token) : defaultScenario();
+    } catch (err) {
+      if (err instanceof ScenarioError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    const baseline = await getBaseline();
+    if (!baseline) {
+      return NextResponse.json({ error: 'No treasury data' }, { status: 404 });
+    }
+
+    try {
+      return NextResponse.json(
+        { baseline, scenario, result: simulateScenario(baseline, scenario) },
+        { headers: { 'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=600' } },
+      );
+    } catch (err) {
+      if (err instanceof ScenarioError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+  },
+  { rateLimit: { max: 30, window: 60 } },
+);
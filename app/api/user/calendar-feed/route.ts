@@ -0,0 +1,34 @@
+/**
+ * GET  /api/user/calendar-feed — the user's personal iCalendar feed URL
+ * POST /api/user/calendar-feed — rotate the token, revoking the old URL
+ */
+import { NextResponse } from 'next/server';
+import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
+import { calendarFeedUrl, ensureCalendarToken } from '@/lib/governanceCalendar';
+import { captureServerEvent } from '@/lib/posthog-server';
+
+export const dynamic = 'force-dynamic';
+
+async function respond(userId: string, rotate: boolean): Promise<NextResponse> {
+  const token = await ensureCalendarToken(userId, rotate);
+  if (!token) {
+    return NextResponse.json({ error: 'Failed to create calendar feed' }, { status: 500 });
+  }
+  return NextResponse.json(
+    { url: calendarFeedUrl(token) },
+    { headers: { 'Cache-Control': 'private, no-store' } },
+  );
+}
+
+export const GET = withRouteHandler(
+  async (_request, { userId }: RouteContext) => respond(userId!, false),
+  { auth: 'required' },
+);
+
+export const POST = withRouteHandler(
+  async (_request, { userId }: RouteContext) => {
+    captureServerEvent('calendar_feed_rotated', {}, userId);
+    return respond(userId!, true);
+  },
+  { auth: 'required', rateLimit: { max: 5, window: 60 } },
+);
@@ -3,6 +3,7 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { SupabaseUser, SupabaseUserUpdate } from '@/types/supabase';
 import { logger } from '@/lib/logger';
 import { withRouteHandler, type RouteContext } from '@/lib/api/withRouteHandler';
+import { isLocale } from '@/lib/i18n/config';
 
 export const GET = withRouteHandler(
   async (request: NextRequest, { userId, wallet }: RouteContext) => {
@@ -38,8 +39,13 @@ export const PATCH = withRouteHandler(
       'push_subscriptions',
       'display_name',
       'digest_frequency',
+      'locale',
     ];
 
+    if (updates.locale !== undefined && !isLocale(updates.locale)) {
+      return NextResponse.json({ error: 'Unsupported locale' }, { status: 400 });
+    }
+
     const sanitizedUpdates: Record<string, unknown> = { last_active: new Date().toISOString() };
     for (const field of allowedFields) {
       if (updates[field] !== undefined) {
@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { withApiHandler } from '@/lib/api/handler';
+import { apiSuccess, apiError } from '@/lib/api/response';
+import { buildRepresentationAudit } from '@/lib/representationAudit';
+import { isStakeAddress } from '@/utils/drepId';
+import type { ApiContext } from '@/lib/api/handler';
+
+async function handler(request: NextRequest, ctx: ApiContext) {
+  const stakeAddress = decodeURIComponent(request.nextUrl.pathname.split('/')[4] || '');
+  if (!isStakeAddress(stakeAddress)) {
+    return apiError('invalid_stake_address', { value: stakeAddress }, { requestId: ctx.requestId });
+  }
+
+  const audit = await buildRepresentationAudit(stakeAddress);
+  if (!audit) {
+    return apiError('account_not_found', { value: stakeAddress }, { requestId: ctx.requestId });
+  }
+
+  const data = {
+    stake_address: audit.stakeAddress,
+    current_epoch: audit.currentEpoch,
+    current: {
+      drep_id: audit.current.drepId,
+      drep_name: audit.current.drepName,
+      status: audit.current.status,
+      stake_lovelace: audit.current.stakeLovelace,
+    },
+    coverage: {
+      from_epoch: audit.coverage.fromEpoch,
+      to_epoch: audit.coverage.toEpoch,
+      epochs: audit.coverage.epochs,
+    },
+    summary: {
+      epochs_represented: audit.summary.epochsRepresented,
+      representation_rate: audit.summary.representationRate,
+      dreps_delegated_to: audit.summary.drepsDelegatedTo,
+      votes_cast: audit.summary.votesCast,
+      proposals_missed: audit.summary.proposalsMissed,
+    },
+    delegations: audit.tenures.map((t) => ({
+      drep_id: t.drepId,
+      drep_name: t.drepName,
+      start_epoch: t.startEpoch,
+      end_epoch: t.endEpoch,
+      epochs: t.epochs,
+      unrepresented_epochs: t.unrepresentedEpochs,
+      avg_stake_lovelace: t.avgStakeLovelace,
+      current: t.current,
+    })),
+    votes: audit.votes.map((v) => ({
+      proposal_tx_hash: v.proposalTxHash,
+      proposal_index: v.proposalIndex,
+      proposal_title: v.proposalTitle,
+      proposal_type: v.proposalType,
+      drep_id: v.drepId,
+      epoch: v.epoch,
+      vote: v.vote,
+      has_rationale: v.hasRationale,
+      stake_lovelace: v.stakeLovelace,
+      drep_power_lovelace: v.drepPowerLovelace,
+      power_share: v.powerShare,
+    })),
+    missed_proposals: audit.missed.map((m) => ({
+      proposal_tx_hash: m.proposalTxHash,
+      proposal_index: m.proposalIndex,
+      proposal_title: m.proposalTitle,
+      proposal_type: m.proposalType,
+      drep_id: m.drepId,
+    })),
+    unrepresented_periods: audit.unrepresented.map((u) => ({
+      start_epoch: u.startEpoch,
+      end_epoch: u.endEpoch,
+      epochs: u.epochs,
+      reason: u.reason,
+      drep_id: u.drepId,
+    })),
+  };
+
+  return apiSuccess(data, { requestId: ctx.requestId, cacheSeconds: 900 });
+}
+
+export const GET = withApiHandler(handler);
+export const dynamic = 'force-dynamic';
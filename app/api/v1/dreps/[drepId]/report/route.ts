@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiHandler } from '@/lib/api/handler';
+import { apiError } from '@/lib/api/response';
+import { currentEpoch, getDRepReportExport, isReportFormat } from '@/lib/reports/exports';
+import type { ApiContext } from '@/lib/api/handler';
+
+async function handler(request: NextRequest, ctx: ApiContext) {
+  const drepId = decodeURIComponent(request.nextUrl.pathname.split('/')[4] || '');
+  if (!drepId) {
+    return apiError(
+      'missing_parameter',
+      { param: 'drepId', context: 'DRep ID is required in the URL path.' },
+      { requestId: ctx.requestId },
+    );
+  }
+
+  const url = request.nextUrl;
+  const rawEpoch = url.searchParams.get('epoch');
+  const epoch = rawEpoch ? Number(rawEpoch) : currentEpoch();
+  if (!Number.isInteger(epoch) || epoch < 0 || epoch > currentEpoch()) {
+    return apiError(
+      'invalid_parameter',
+      {
+        param: 'epoch',
+        value: rawEpoch ?? '',
+        context: 'Use a past or current epoch number; defaults to the current epoch.',
+      },
+      { requestId: ctx.requestId },
+    );
+  }
+  const format = url.searchParams.get('format') || 'pdf';
+  if (!isReportFormat(format)) {
+    return apiError(
+      'invalid_parameter',
+      { param: 'format', value: format, context: 'Valid formats: pdf, json, csv.' },
+      { requestId: ctx.requestId },
+    );
+  }
+
+  const file = await getDRepReportExport(drepId, epoch, format);
+  if (!file) {
+    return apiError('drep_not_found', { value: drepId }, { requestId: ctx.requestId });
+  }
+
+  return new NextResponse(typeof file.body === 'string' ? file.body : new Uint8Array(file.body), {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.filename}"`,
+      'X-Generated-At': file.generatedAt,
+      'X-Request-Id': ctx.requestId,
+    },
+  });
+}
+
+export const GET = withApiHandler(handler);
+export const dynamic = 'force-dynamic';
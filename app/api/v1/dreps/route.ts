@@ -2,6 +2,18 @@ import { NextRequest } from 'next/server';
 import { withApiHandler } from '@/lib/api/handler';
 import { apiSuccess, apiError } from '@/lib/api/response';
 import { getAllDReps } from '@/lib/data';
+import {
+  parseSortSpec,
+  formatSortSpec,
+  buildComparator,
+  decodeCursor,
+  paginateSorted,
+  parseFields,
+  projectFields,
+  type ListCursor,
+  type SortOrder,
+  type SortValue,
+} from '@/lib/api/listQuery';
 import type { ApiContext } from '@/lib/api/handler';
 
 function getScoreTier(score: number): string {
@@ -10,42 +22,144 @@ function getScoreTier(score: number): string {
   return 'Low';
 }
 
-const VALID_SORT_FIELDS = ['score', 'name', 'participation', 'rationale', 'reliability'] as const;
+const VALID_SORT_FIELDS = [
+  'score',
+  'name',
+  'participation',
+  'rationale',
+  'reliability',
+  'voting_power',
+  'delegators',
+] as const;
 const VALID_ORDERS = ['asc', 'desc'] as const;
+const VALID_SCORE_TIERS = ['Strong', 'Good', 'Low'] as const;
+const VALID_SIZE_TIERS = ['Small', 'Medium', 'Large', 'Whale'] as const;
+
+const RESPONSE_FIELDS = [
+  'drep_id',
+  'name',
+  'ticker',
+  'handle',
+  'score',
+  'score_tier',
+  'size_tier',
+  'effective_participation',
+  'rationale_rate',
+  'reliability_score',
+  'profile_completeness',
+  'voting_power_lovelace',
+  'delegator_count',
+  'is_active',
+  'last_vote_time',
+] as const;
+
+type DRepRow = Awaited<ReturnType<typeof getAllDReps>>['dreps'][number];
+
+const SORT_GETTERS: Record<string, (d: DRepRow) => SortValue> = {
+  score: (d) => d.drepScore ?? 0,
+  name: (d) => (d.name || d.ticker || d.drepId).toLowerCase(),
+  participation: (d) => d.effectiveParticipation ?? 0,
+  rationale: (d) => d.rationaleRate ?? 0,
+  reliability: (d) => d.reliabilityScore ?? 0,
+  voting_power: (d) => Number(d.votingPowerLovelace) || 0,
+  delegators: (d) => d.delegatorCount ?? 0,
+};
+
+/** Numeric range filters: query param → value extractor */
+const RANGE_FILTERS: Record<string, (d: DRepRow) => number> = {
+  score: (d) => d.drepScore ?? 0,
+  voting_power: (d) => Number(d.votingPowerLovelace) || 0,
+  participation: (d) => d.effectiveParticipation ?? 0,
+};
+
+function parseEnumList<T extends string>(
+  raw: string | null,
+  valid: readonly T[],
+): { values: T[] | null; invalid: string | null } {
+  if (!raw) return { values: null, invalid: null };
+  const values: T[] = [];
+  for (const part of raw.split(',')) {
+    const match = valid.find((v) => v.toLowerCase() === part.trim().toLowerCase());
+    if (!match) return { values: null, invalid: part };
+    values.push(match);
+  }
+  return { values, invalid: null };
+}
 
 async function handler(request: NextRequest, ctx: ApiContext) {
   const url = request.nextUrl;
   const search = url.searchParams.get('search')?.toLowerCase() || '';
-  const sortField = url.searchParams.get('sort') || 'score';
+  const sortParam = url.searchParams.get('sort') || 'score';
   const order = url.searchParams.get('order') || 'desc';
   const activeOnly = url.searchParams.get('active_only') !== 'false';
   const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '50') || 50, 1), 100);
   const offset = Math.max(parseInt(url.searchParams.get('offset') || '0') || 0, 0);
+  const cursorParam = url.searchParams.get('cursor');
+  const invalid = (param: string, value: string, context: string) =>
+    apiError('invalid_parameter', { param, value, context }, { requestId: ctx.requestId });
 
-  if (!VALID_SORT_FIELDS.includes(sortField as any)) {
-    return apiError(
-      'invalid_parameter',
-      {
-        param: 'sort',
-        value: sortField,
-        context: `Valid values: ${VALID_SORT_FIELDS.join(', ')}`,
-      },
-      { requestId: ctx.requestId },
-    );
+  if (!VALID_ORDERS.includes(order as any)) {
+    return invalid('order', order, "Valid values: 'asc', 'desc'");
   }
 
-  if (!VALID_ORDERS.includes(order as any)) {
-    return apiError(
-      'invalid_parameter',
-      {
-        param: 'order',
-        value: order,
-        context: "Valid values: 'asc', 'desc'",
-      },
-      { requestId: ctx.requestId },
+  const { keys: sortKeys, error: sortError } = parseSortSpec(
+    sortParam,
+    VALID_SORT_FIELDS,
+    order as SortOrder,
+  );
+  if (sortError) return invalid(sortError.param, sortError.value, sortError.context);
+
+  const { fields, error: fieldsError } = parseFields(
+    url.searchParams.get('fields'),
+    RESPONSE_FIELDS,
+    ['drep_id'],
+  );
+  if (fieldsError) return invalid(fieldsError.param, fieldsError.value, fieldsError.context);
+
+  const ranges: { get: (d: DRepRow) => number; min: number | null; max: number | null }[] = [];
+  for (const [name, get] of Object.entries(RANGE_FILTERS)) {
+    const bounds = { get, min: null as number | null, max: null as number | null };
+    for (const bound of ['min', 'max'] as const) {
+      const param = `${bound}_${name}`;
+      const raw = url.searchParams.get(param);
+      if (raw === null) continue;
+      const value = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(value)) {
+        return invalid(param, raw, 'Expected a number');
+      }
+      bounds[bound] = value;
+    }
+    if (bounds.min !== null || bounds.max !== null) ranges.push(bounds);
+  }
+
+  const tierFilter = parseEnumList(url.searchParams.get('tier'), VALID_SCORE_TIERS);
+  if (tierFilter.invalid !== null) {
+    return invalid('tier', tierFilter.invalid, `Valid values: ${VALID_SCORE_TIERS.join(', ')}`);
+  }
+  const sizeTierFilter = parseEnumList(url.searchParams.get('size_tier'), VALID_SIZE_TIERS);
+  if (sizeTierFilter.invalid !== null) {
+    return invalid(
+      'size_tier',
+      sizeTierFilter.invalid,
+      `Valid values: ${VALID_SIZE_TIERS.join(', ')}`,
     );
   }
 
+  let cursor: ListCursor | null = null;
+  if (cursorParam) {
+    cursor = decodeCursor(cursorParam);
+    if (!cursor) {
+      return invalid('cursor', cursorParam, 'Use a next_cursor or prev_cursor value as returned.');
+    }
+    if (cursor.sort !== formatSortSpec(sortKeys)) {
+      return invalid(
+        'cursor',
+        cursorParam,
+        `Cursor was issued for sort '${cursor.sort}'. Repeat the same sort when paging.`,
+      );
+    }
+  }
+
   const { dreps, allDReps } = await getAllDReps();
   const pool = activeOnly ? dreps : allDReps;
 
@@ -60,44 +174,56 @@ async function handler(request: NextRequest, ctx: ApiContext) {
     );
   }
 
-  const sortKeyMap: Record<string, (d: any) => number | string> = {
-    score: (d) => d.drepScore,
-    name: (d) => (d.name || d.ticker || d.drepId).toLowerCase(),
-    participation: (d) => d.effectiveParticipation,
-    rationale: (d) => d.rationaleRate,
-    reliability: (d) => d.reliabilityScore,
-  };
-  const sortFn = sortKeyMap[sortField];
-  filtered.sort((a, b) => {
-    const aVal = sortFn(a);
-    const bVal = sortFn(b);
-    if (typeof aVal === 'string' && typeof bVal === 'string') {
-      return order === 'asc' ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal);
-    }
-    return order === 'asc'
-      ? (aVal as number) - (bVal as number)
-      : (bVal as number) - (aVal as number);
+  for (const { get, min, max } of ranges) {
+    filtered = filtered.filter((d) => {
+      const v = get(d);
+      return (min === null || v >= min) && (max === null || v <= max);
+    });
+  }
+
+  if (tierFilter.values) {
+    const tiers = tierFilter.values as string[];
+    filtered = filtered.filter((d) => tiers.includes(getScoreTier(d.drepScore)));
+  }
+
+  if (sizeTierFilter.values) {
+    const sizeTiers = sizeTierFilter.values as string[];
+    filtered = filtered.filter((d) => sizeTiers.includes(d.sizeTier));
+  }
+
+  const getId = (d: DRepRow) => d.drepId;
+  const sorted = [...filtered].sort(buildComparator(sortKeys, SORT_GETTERS, getId));
+  const page = paginateSorted(sorted, {
+    keys: sortKeys,
+    getters: SORT_GETTERS,
+    getId,
+    limit,
+    offset,
+    cursor,
   });
 
-  const total = filtered.length;
-  const page = filtered.slice(offset, offset + limit);
-
-  const data = page.map((d) => ({
-    drep_id: d.drepId,
-    name: d.name,
-    ticker: d.ticker,
-    handle: d.handle || null,
-    score: d.drepScore,
-    score_tier: getScoreTier(d.drepScore),
-    effective_participation: d.effectiveParticipation,
-    rationale_rate: d.rationaleRate,
-    reliability_score: d.reliabilityScore,
-    profile_completeness: d.profileCompleteness,
-    voting_power_lovelace: d.votingPowerLovelace,
-    delegator_count: d.delegatorCount,
-    is_active: d.isActive,
-    last_vote_time: d.lastVoteTime,
-  }));
+  const data = page.rows.map((d) =>
+    projectFields(
+      {
+        drep_id: d.drepId,
+        name: d.name,
+        ticker: d.ticker,
+        handle: d.handle || null,
+        score: d.drepScore,
+        score_tier: getScoreTier(d.drepScore),
+        size_tier: d.sizeTier,
+        effective_participation: d.effectiveParticipation,
+        rationale_rate: d.rationaleRate,
+        reliability_score: d.reliabilityScore,
+        profile_completeness: d.profileCompleteness,
+        voting_power_lovelace: d.votingPowerLovelace,
+        delegator_count: d.delegatorCount,
+        is_active: d.isActive,
+        last_vote_time: d.lastVoteTime,
+      },
+      fields,
+    ),
+  );
 
   const latestUpdate = pool.reduce((max, d) => {
     const t = d.updatedAt ? new Date(d.updatedAt).getTime() : 0;
@@ -109,10 +235,12 @@ async function handler(request: NextRequest, ctx: ApiContext) {
     dataCachedAt: latestUpdate ? new Date(latestUpdate) : undefined,
     cacheSeconds: 900,
     pagination: {
-      total,
+      total: sorted.length,
       limit,
-      offset,
-      has_more: offset + limit < total,
+      offset: page.startIndex,
+      has_more: page.hasMore,
+      next_cursor: page.nextCursor,
+      prev_cursor: page.prevCursor,
     },
   });
 }
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiHandler } from '@/lib/api/handler';
+import { apiError } from '@/lib/api/response';
+import {
+  getGovernanceReportExport,
+  isReportFormat,
+  latestReportEpoch,
+} from '@/lib/reports/exports';
+import { DATASETS, isDatasetName } from '@/lib/reports/datasets';
+import type { ApiContext } from '@/lib/api/handler';
+
+async function handler(request: NextRequest, ctx: ApiContext) {
+  const rawEpoch = decodeURIComponent(request.nextUrl.pathname.split('/')[5] || '');
+  const epoch = rawEpoch === 'latest' ? await latestReportEpoch() : Number(rawEpoch);
+  if (epoch == null) {
+    return apiError('report_not_found', { value: rawEpoch }, { requestId: ctx.requestId });
+  }
+  if (!Number.isInteger(epoch) || epoch < 0) {
+    return apiError(
+      'invalid_parameter',
+      { param: 'epoch', value: rawEpoch, context: "Use an epoch number or 'latest'." },
+      { requestId: ctx.requestId },
+    );
+  }
+
+  const url = request.nextUrl;
+  const format = url.searchParams.get('format') || 'json';
+  if (!isReportFormat(format)) {
+    return apiError(
+      'invalid_parameter',
+      { param: 'format', value: format, context: 'Valid formats: pdf, json, csv.' },
+      { requestId: ctx.requestId },
+    );
+  }
+  const dataset = url.searchParams.get('dataset') || 'proposals';
+  if (!isDatasetName(dataset)) {
+    return apiError(
+      'invalid_parameter',
+      { param: 'dataset', value: dataset, context: `Valid datasets: ${DATASETS.join(', ')}.` },
+      { requestId: ctx.requestId },
+    );
+  }
+
+  const file = await getGovernanceReportExport(epoch, format, dataset);
+  if (!file) {
+    return apiError('report_not_found', { value: String(epoch) }, { requestId: ctx.requestId });
+  }
+
+  return new NextResponse(typeof file.body === 'string' ? file.body : new Uint8Array(file.body), {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.filename}"`,
+      'X-Generated-At': file.generatedAt,
+      'X-Request-Id': ctx.requestId,
+    },
+  });
+}
+
+export const GET = withApiHandler(handler);
+export const dynamic = 'force-dynamic';
@@ -2,7 +2,11 @@ import { NextRequest } from 'next/server';
 import { withApiHandler } from '@/lib/api/handler';
 import { apiSuccess, apiError } from '@/lib/api/response';
 import { getSupabaseAdmin } from '@/lib/supabase';
+import { getFeatureFlag } from '@/lib/featureFlags';
+import { getProposalProjection, toApiProjection } from '@/lib/projection';
 import type { ApiContext } from '@/lib/api/handler';
+import { DEFAULT_LOCALE, toLocale } from '@/lib/i18n';
+import { getLocalizedContent, proposalContentKey } from '@/lib/i18n/aiContent';
 
 async function handler(
   request: NextRequest,
@@ -49,12 +53,31 @@ async function handler(
           ? 'dropped'
           : 'active';
 
+  const projection =
+    status === 'active' && (await getFeatureFlag('outcome_projections', true))
+      ? await getProposalProjection(data.tx_hash, data.proposal_index)
+      : null;
+
+  // ?locale= serves the cached translation of the AI summary when one exists
+  const locale = toLocale(request.nextUrl.searchParams.get('locale'));
+  const summaryKey = proposalContentKey(data.tx_hash, data.proposal_index);
+  const localizedSummary = data.ai_summary
+    ? (
+        await getLocalizedContent(
+          'proposal_summary',
+          [{ key: summaryKey, text: data.ai_summary }],
+          locale,
+        )
+      ).get(summaryKey)
+    : undefined;
+
   const proposal = {
     tx_hash: data.tx_hash,
     proposal_index: data.proposal_index,
     title: data.title,
     abstract: data.abstract,
-    ai_summary: data.ai_summary,
+    ai_summary: localizedSummary ?? data.ai_summary,
+    ai_summary_locale: localizedSummary ? locale : DEFAULT_LOCALE,
     proposal_type: data.proposal_type,
     status,
     withdrawal_amount: data.withdrawal_amount,
@@ -70,6 +93,7 @@ async function handler(
       expired_epoch: data.expired_epoch,
       expiration_epoch: data.expiration_epoch,
     },
+    projection: projection ? toApiProjection(projection) : null,
   };
 
   return apiSuccess(proposal, {
@@ -2,6 +2,8 @@ import { NextRequest } from 'next/server';
 import { withApiHandler } from '@/lib/api/handler';
 import { apiSuccess, apiError } from '@/lib/api/response';
 import { getAllProposalsWithVoteSummary } from '@/lib/data';
+import { getFeatureFlag } from '@/lib/featureFlags';
+import { getProposalProjections, toApiProjection } from '@/lib/projection';
 import type { ApiContext } from '@/lib/api/handler';
 
 const VALID_STATUSES = ['active', 'ratified', 'enacted', 'expired', 'dropped', 'all'] as const;
@@ -47,7 +49,12 @@ async function handler(request: NextRequest, ctx: ApiContext) {
     );
   }
 
-  const proposals = await getAllProposalsWithVoteSummary();
+  const [proposals, projections] = await Promise.all([
+    getAllProposalsWithVoteSummary(),
+    getFeatureFlag('outcome_projections', true).then((enabled) =>
+      enabled ? getProposalProjections() : null,
+    ),
+  ]);
 
   let filtered = proposals.map((p) => ({ ...p, status: getProposalStatus(p) }));
 
@@ -70,6 +77,12 @@ async function handler(request: NextRequest, ctx: ApiContext) {
   }
   // 'newest' is default sort from the data layer (block_time DESC)
 
+  // Projections only describe proposals still being voted on
+  const projectionFor = (txHash: string, index: number, status: string) => {
+    const projection = status === 'active' ? projections?.get(`${txHash}-${index}`) : undefined;
+    return projection ? toApiProjection(projection) : null;
+  };
+
   const total = filtered.length;
   const page = filtered.slice(offset, offset + limit);
 
@@ -98,6 +111,7 @@ async function handler(request: NextRequest, ctx: ApiContext) {
       expired_epoch: p.expiredEpoch,
       expiration_epoch: p.expirationEpoch,
     },
+    projection: projectionFor(p.txHash, p.proposalIndex, p.status),
   }));
 
   return apiSuccess(data, {
@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server';
+import { withApiHandler } from '@/lib/api/handler';
+import { apiSuccess, apiError } from '@/lib/api/response';
+import type { ApiContext } from '@/lib/api/handler';
+import { WebhookDeliveriesQuerySchema } from '@/lib/api/schemas/webhooks';
+import { getWebhookSubscription, listWebhookDeliveries } from '@/lib/webhooks';
+
+/** Delivery log for one subscription, newest first. */
+async function handler(request: NextRequest, ctx: ApiContext) {
+  const id = decodeURIComponent(request.nextUrl.pathname.split('/')[4] || '');
+  const sub = await getWebhookSubscription(ctx.keyId!, id);
+  if (!sub) return apiError('webhook_not_found', { value: id }, { requestId: ctx.requestId });
+
+  const sp = request.nextUrl.searchParams;
+  const parsed = WebhookDeliveriesQuerySchema.safeParse({
+    status: sp.get('status') ?? undefined,
+    limit: sp.get('limit') ?? undefined,
+  });
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return apiError(
+      'invalid_parameter',
+      {
+        param: String(issue.path[0] ?? 'query'),
+        value: sp.get(String(issue.path[0])) ?? '',
+        context: issue.message,
+      },
+      { requestId: ctx.requestId },
+    );
+  }
+
+  const deliveries = await listWebhookDeliveries(id, parsed.data);
+  return apiSuccess(deliveries, { requestId: ctx.requestId });
+}
+
+export const GET = withApiHandler(handler, { requiredTier: 'public', privateResponse: true });
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { withApiHandler } from '@/lib/api/handler';
+import { apiSuccess, apiError } from '@/lib/api/response';
+import type { ApiContext } from '@/lib/api/handler';
+import { WebhookUpdateSchema } from '@/lib/api/schemas/webhooks';
+import {
+  deleteWebhookSubscription,
+  getWebhookSubscription,
+  serializeWebhookSubscription,
+  updateWebhookSubscription,
+} from '@/lib/webhooks';
+
+function subscriptionId(request: NextRequest): string {
+  return decodeURIComponent(request.nextUrl.pathname.split('/')[4] || '');
+}
+
+async function getHandler(request: NextRequest, ctx: ApiContext) {
+  const id = subscriptionId(request);
+  const sub = await getWebhookSubscription(ctx.keyId!, id);
+  if (!sub) return apiError('webhook_not_found', { value: id }, { requestId: ctx.requestId });
+  return apiSuccess(serializeWebhookSubscription(sub), { requestId: ctx.requestId });
+}
+
+async function patchHandler(request: NextRequest, ctx: ApiContext) {
+  const id = subscriptionId(request);
+  const parsed = WebhookUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return apiError(
+      'invalid_parameter',
+      {
+        param: issue.path.join('.') || 'body',
+        value: '',
+        context: issue.message,
+      },
+      { requestId: ctx.requestId },
+    );
+  }
+
+  const sub = await updateWebhookSubscription(ctx.keyId!, id, parsed.data);
+  if (!sub) return apiError('webhook_not_found', { value: id }, { requestId: ctx.requestId });
+  return apiSuccess(serializeWebhookSubscription(sub), { requestId: ctx.requestId });
+}
+
+async function deleteHandler(request: NextRequest, ctx: ApiContext) {
+  const id = subscriptionId(request);
+  const deleted = await deleteWebhookSubscription(ctx.keyId!, id);
+  if (!deleted) return apiError('webhook_not_found', { value: id }, { requestId: ctx.requestId });
+  return apiSuccess({ id, deleted: true }, { requestId: ctx.requestId });
+}
+
+const options = { requiredTier: 'public', privateResponse: true };
+export const GET = withApiHandler(getHandler, options);
+export const PATCH = withApiHandler(patchHandler, options);
+export const DELETE = withApiHandler(deleteHandler, options);
+export const dynamic = 'force-dynamic';
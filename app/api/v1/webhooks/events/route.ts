@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { withApiHandler } from '@/lib/api/handler';
+import { apiSuccess } from '@/lib/api/response';
+import type { ApiContext } from '@/lib/api/handler';
+import { getWebhookEvents } from '@/lib/notificationRegistry';
+
+/** Event catalog — the EVENT_REGISTRY entries deliverable over webhooks. */
+async function handler(_request: NextRequest, ctx: ApiContext) {
+  const events = getWebhookEvents().map((e) => ({
+    type: e.key,
+    label: e.label,
+    description: e.description,
+    category: e.category,
+  }));
+  return apiSuccess(events, { requestId: ctx.requestId, cacheSeconds: 3600 });
+}
+
+export const GET = withApiHandler(handler);
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { withApiHandler } from '@/lib/api/handler';
+import { apiSuccess, apiError } from '@/lib/api/response';
+import type { ApiContext } from '@/lib/api/handler';
+import { WebhookCreateSchema } from '@/lib/api/schemas/webhooks';
+import {
+  MAX_SUBSCRIPTIONS_PER_KEY,
+  WebhookLimitError,
+  createWebhookSubscription,
+  listWebhookSubscriptions,
+  serializeWebhookSubscription,
+} from '@/lib/webhooks';
+
+async function getHandler(_request: NextRequest, ctx: ApiContext) {
+  const subs = await listWebhookSubscriptions(ctx.keyId!);
+  return apiSuccess(subs.map(serializeWebhookSubscription), { requestId: ctx.requestId });
+}
+
+async function postHandler(request: NextRequest, ctx: ApiContext) {
+  const parsed = WebhookCreateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return apiError(
+      'invalid_parameter',
+      {
+        param: issue.path.join('.') || 'body',
+        value: '',
+        context: issue.message,
+      },
+      { requestId: ctx.requestId },
+    );
+  }
+
+  try {
+    const { secret, subscription } = await createWebhookSubscription(ctx.keyId!, parsed.data);
+    return apiSuccess(
+      { ...serializeWebhookSubscription(subscription), secret },
+      { requestId: ctx.requestId, status: 201 },
+    );
+  } catch (err) {
+    if (err instanceof WebhookLimitError) {
+      return apiError(
+        'webhook_limit_reached',
+        { limit: MAX_SUBSCRIPTIONS_PER_KEY },
+        { requestId: ctx.requestId },
+      );
+    }
+    throw err;
+  }
+}
+
+export const GET = withApiHandler(getHandler, { requiredTier: 'public', privateResponse: true });
+export const POST = withApiHandler(postHandler, { requiredTier: 'public', privateResponse: true });
+export const dynamic = 'force-dynamic';
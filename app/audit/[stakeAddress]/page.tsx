@@ -0,0 +1,252 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { PageViewTracker } from '@/components/PageViewTracker';
+import { ShieldCheck, History, AlertTriangle, Vote } from 'lucide-react';
+import {
+  buildRepresentationAudit,
+  DREP_ACTIVITY_EPOCHS,
+  type EpochStatus,
+} from '@/lib/representationAudit';
+import { lovelaceToAda, formatAda } from '@/lib/treasury';
+import { isStakeAddress } from '@/utils/drepId';
+
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  params: Promise<{ stakeAddress: string }>;
+}
+
+const STATUS_LABELS: Record<EpochStatus, string> = {
+  represented: 'Represented',
+  no_delegation: 'Not delegated',
+  drep_inactive: 'DRep inactive',
+  drep_retired: 'DRep retired',
+  always_abstain: 'Always abstain',
+  always_no_confidence: 'Always no confidence',
+};
+
+const VOTE_COLORS: Record<string, string> = {
+  Yes: 'text-green-600 dark:text-green-400',
+  No: 'text-red-600 dark:text-red-400',
+  Abstain: 'text-muted-foreground',
+};
+
+function shortId(id: string): string {
+  return id.length > 20 ? `${id.slice(0, 12)}…${id.slice(-6)}` : id;
+}
+
+function ada(lovelace: number | null): string {
+  return lovelace == null ? '—' : `₳${formatAda(lovelaceToAda(lovelace))}`;
+}
+
+function epochRange(start: number, end: number): string {
+  return start === end ? `Epoch ${start}` : `Epochs ${start}–${end}`;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { stakeAddress } = await params;
+  const short = shortId(stakeAddress);
+  return {
+    title: `Representation Audit ${short} — Civica`,
+    description: `DRep delegation history, votes cast on its behalf, and unrepresented periods for stake address ${short} on Cardano.`,
+    robots: { index: false },
+  };
+}
+
+export default async function RepresentationAuditPage({ params }: PageProps) {
+  const { stakeAddress } = await params;
+  if (!isStakeAddress(stakeAddress)) notFound();
+
+  const audit = await buildRepresentationAudit(stakeAddress);
+  if (!audit) notFound();
+
+  const { current, coverage, summary } = audit;
+
+  return (
+    <div className="container mx-auto max-w-5xl px-4 py-8 space-y-6">
+      <PageViewTracker event="representation_audit_viewed" />
+
+      <div className="space-y-1">
+        <h1 className="text-2xl font-bold">Representation Audit</h1>
+        <p className="font-mono text-xs text-muted-foreground break-all">{stakeAddress}</p>
+        <p className="text-sm text-muted-foreground">
+          {epochRange(coverage.fromEpoch, coverage.toEpoch)} &middot; delegation reconstructed from
+          per-epoch snapshots. Also available as JSON via{' '}
+          <code className="text-xs">/api/v1/accounts/:stakeAddress/audit</code>.
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardContent className="pt-6 space-y-1">
+            <p className="text-xs text-muted-foreground">Represented</p>
+            <p className="text-3xl font-bold tabular-nums">{summary.representationRate}%</p>
+            <p className="text-xs text-muted-foreground">
+              {summary.epochsRepresented} of {coverage.epochs} epochs
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6 space-y-1">
+            <p className="text-xs text-muted-foreground">Currently</p>
+            <p className="text-lg font-semibold truncate">
+              {current.drepId && !current.drepId.startsWith('drep_always_')
+                ? current.drepName || shortId(current.drepId)
+                : STATUS_LABELS[current.status]}
+            </p>
+            <Badge variant={current.status === 'represented' ? 'secondary' : 'destructive'}>
+              {STATUS_LABELS[current.status]}
+            </Badge>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6 space-y-1">
+            <p className="text-xs text-muted-foreground">Votes cast on its behalf</p>
+            <p className="text-3xl font-bold tabular-nums">{summary.votesCast}</p>
+            <p className="text-xs text-muted-foreground">
+              {summary.proposalsMissed} proposals missed
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6 space-y-1">
+            <p className="text-xs text-muted-foreground">Stake</p>
+            <p className="text-3xl font-bold tabular-nums">{ada(current.stakeLovelace)}</p>
+            <p className="text-xs text-muted-foreground">
+              {summary.drepsDelegatedTo} DRep{summary.drepsDelegatedTo === 1 ? '' : 's'} over time
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <History className="h-4 w-4 text-primary" /> Delegation History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {audit.tenures.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No delegation to a registered DRep in the covered epochs.
+            </p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {[...audit.tenures].reverse().map((t) => (
+                <li
+                  key={`${t.drepId}-${t.startEpoch}`}
+                  className="flex items-center justify-between py-2 gap-4"
+                >
+                  <div className="min-w-0">
+                    <Link
+                      href={`/drep/${encodeURIComponent(t.drepId)}`}
+                      className="font-medium hover:underline truncate block"
+                    >
+                      {t.drepName || shortId(t.drepId)}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">
+                      {epochRange(t.startEpoch, t.endEpoch)} &middot; avg {ada(t.avgStakeLovelace)}
+                      {t.unrepresentedEpochs > 0 &&
+                        ` · ${t.unrepresentedEpochs} epochs inactive or retired`}
+                    </p>
+                  </div>
+                  {t.current && <Badge variant="secondary">Current</Badge>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {audit.unrepresented.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <AlertTriangle className="h-4 w-4 text-amber-500" /> Unrepresented Periods
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y divide-border">
+              {[...audit.unrepresented].reverse().map((u) => (
+                <li
+                  key={`${u.reason}-${u.startEpoch}`}
+                  className="flex items-center justify-between py-2 text-sm"
+                >
+                  <span>{epochRange(u.startEpoch, u.endEpoch)}</span>
+                  <span className="text-muted-foreground">
+                    {STATUS_LABELS[u.reason]}
+                    {u.drepId && u.reason.startsWith('drep_') && ` (${shortId(u.drepId)})`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Vote className="h-4 w-4 text-primary" /> Votes Cast With This Stake
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {audit.votes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No DRep votes were cast while this stake was delegated.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Proposal</th>
+                    <th className="py-2 pr-4 font-medium">Epoch</th>
+                    <th className="py-2 pr-4 font-medium">Vote</th>
+                    <th className="py-2 font-medium text-right">Share of DRep power</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {[...audit.votes].reverse().map((v) => (
+                    <tr key={`${v.drepId}-${v.proposalTxHash}-${v.proposalIndex}-${v.epoch}`}>
+                      <td className="py-2 pr-4">
+                        <Link
+                          href={`/proposal/${v.proposalTxHash}/${v.proposalIndex}`}
+                          className="hover:underline"
+                        >
+                          {v.proposalTitle || `${v.proposalTxHash.slice(0, 10)}…`}
+                        </Link>
+                        {!v.hasRationale && (
+                          <span className="ml-2 text-xs text-muted-foreground">no rationale</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 tabular-nums">{v.epoch}</td>
+                      <td className={`py-2 pr-4 font-medium ${VOTE_COLORS[v.vote] ?? ''}`}>
+                        {v.vote}
+                      </td>
+                      <td className="py-2 text-right tabular-nums">
+                        {v.powerShare == null
+                          ? '—'
+                          : `${(v.powerShare * 100).toFixed(v.powerShare < 0.001 ? 4 : 2)}%`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <p className="flex items-start gap-2 text-xs text-muted-foreground">
+        <ShieldCheck className="h-4 w-4 shrink-0" />
+        DRep activity follows CIP-1694: a DRep counts as inactive after {DREP_ACTIVITY_EPOCHS}{' '}
+        epochs without registering, updating or voting. Epochs before our snapshots began are not
+        covered.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import type { Metadata } from 'next';
+import { ApiKeyDashboard } from '@/components/ApiKeyDashboard';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'API Keys — Civica Developers',
+  description: 'Create, rotate, scope and revoke Civica API keys and monitor their usage.',
+};
+
+export default function ApiKeysPage() {
+  return (
+    <main className="container mx-auto max-w-4xl px-4 py-12 space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">API Keys</h1>
+        <p className="text-muted-foreground">
+          Manage keys for the Civica v1 API. Keys are tied to your connected wallet; request volume,
+          errors, latency and rate-limit hits are tracked per key.
+        </p>
+      </div>
+      <ApiKeyDashboard />
+    </main>
+  );
+}
@@ -81,6 +81,8 @@ import { SocialProofBadge } from '@/components/SocialProofBadge';
 import { ScoreDeepDive } from '@/components/ScoreDeepDive';
 import { DRepOutcomeSummary } from '@/components/civica/profiles/DRepOutcomeSummary';
 import { getProposalOutcomesBatch } from '@/lib/proposalOutcomes';
+import { getEntityCoordinationCluster } from '@/lib/coordination';
+import { CoordinatedBlocBadge } from '@/components/CoordinatedBlocBadge';
 import {
   getDRepById,
   getVotesByDRepId,
@@ -443,6 +445,7 @@ export default async function DRepDetailPage({ params, searchParams }: DRepDetai
     isClaimed,
     spoAlignPct,
     drepCommunicationEnabled,
+    coordinationCluster,
   ] = await Promise.all([
     getScoreHistory(drep.drepId),
     getDRepPercentile(drep.drepScore),
@@ -452,6 +455,9 @@ export default async function DRepDetailPage({ params, searchParams }: DRepDetai
     isDRepClaimed(drep.drepId),
     getSpoAlignment(drep.votes),
     getFeatureFlag('drep_communication', false),
+    getFeatureFlag('coordination_badges', false).then((enabled) =>
+      enabled ? getEntityCoordinationCluster('drep', drep.drepId) : null,
+    ),
   ]);
 
   const brokenLinks = new Set(linkChecks.filter((c) => c.status === 'broken').map((c) => c.uri));
@@ -743,6 +749,13 @@ export default async function DRepDetailPage({ params, searchParams }: DRepDetai
             </Tooltip>
           </TooltipProvider>
         )}
+        {coordinationCluster && (
+          <CoordinatedBlocBadge
+            entityType="drep"
+            clusterSize={coordinationCluster.members.length}
+            confirmed={coordinationCluster.review?.status === 'confirmed'}
+          />
+        )}
         <SocialIconsLarge metadata={drep.metadata} brokenLinks={brokenLinks} />
         <CopyableAddress address={drep.drepId} className="text-xs" />
         <ProfileViewStats drepId={drep.drepId} />
@@ -2,6 +2,7 @@ export const dynamic = 'force-dynamic';
 
 import { TIERS } from '@/lib/scoring/tiers';
 import { PILLAR_WEIGHTS, DECAY_HALF_LIFE_DAYS } from '@/lib/scoring/types';
+import { CURRENT_METHODOLOGY, getCandidateProfiles } from '@/lib/scoring/methodology';
 import { cn } from '@/lib/utils';
 
 const DREP_PILLARS = [
@@ -39,6 +40,8 @@ const DREP_PILLARS = [
   },
 ];
 
+const CANDIDATE_PROFILES = getCandidateProfiles();
+
 const GHI_COMPONENTS = [
   { name: 'DRep Participation', weight: 20, description: 'Active DRep voting rates' },
   { name: 'Citizen Engagement', weight: 15, description: 'Delegator activity and poll voting' },
@@ -97,7 +100,12 @@ export default function MethodologyPage() {
 
         {/* V3 Score Model */}
         <section className="space-y-4">
-          <h2 className="text-xl font-bold">DRep Score V3</h2>
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-xl font-bold">DRep Score V3</h2>
+            <span className="rounded-full border border-border px-2.5 py-0.5 text-xs font-mono text-muted-foreground">
+              methodology {CURRENT_METHODOLOGY.version}
+            </span>
+          </div>
           <p className="text-sm text-muted-foreground leading-relaxed">
             Every DRep receives a composite score from 0-100, computed from four weighted pillars.
             Each pillar is percentile-normalized across all active DReps, ensuring the score
@@ -138,6 +146,15 @@ export default function MethodologyPage() {
               </div>
             ))}
           </div>
+
+          {CANDIDATE_PROFILES.length > 0 && (
+            <p className="text-xs text-muted-foreground leading-relaxed">
+              Under evaluation:{' '}
+              {CANDIDATE_PROFILES.map((p) => `${p.label} — ${p.description}`).join(' ')} Candidate
+              methodologies are scored in parallel and compared against the live score before any
+              change ships.
+            </p>
+          )}
         </section>
 
         {/* Tier System */}
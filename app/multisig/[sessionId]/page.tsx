@@ -0,0 +1,20 @@
+import type { Metadata } from 'next';
+import { MultisigSessionClient } from '@/components/civica/multisig/MultisigSessionClient';
+
+export const metadata: Metadata = {
+  title: 'Civica — Multisig signing session',
+  description: 'Review and co-sign a multisig DRep transaction.',
+};
+
+export default async function MultisigSessionPage({
+  params,
+}: {
+  params: Promise<{ sessionId: string }>;
+}) {
+  const { sessionId } = await params;
+  return (
+    <div className="mx-auto max-w-2xl px-4 sm:px-6 py-8">
+      <MultisigSessionClient sessionId={sessionId} />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import type { Metadata } from 'next';
+import { StartMultisigSession } from '@/components/civica/multisig/StartMultisigSession';
+
+export const metadata: Metadata = {
+  title: 'Civica — Multisig DRep signing',
+  description: 'Collect co-signer signatures for votes and updates by native-script DReps.',
+};
+
+export default function MultisigPage() {
+  return (
+    <div className="mx-auto max-w-2xl px-4 sm:px-6 py-8">
+      <StartMultisigSession />
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+export const dynamic = 'force-dynamic';
+
+import type { Metadata } from 'next';
+import { BatchVoteForWallet } from '@/components/civica/mygov/BatchVotePanel';
+
+export const metadata: Metadata = {
+  title: 'Civica — Batch Vote',
+  description: 'Vote on several governance actions in a single transaction.',
+};
+
+export default function BatchVotePage() {
+  return (
+    <div className="mx-auto max-w-2xl px-4 sm:px-6 py-8">
+      <BatchVoteForWallet />
+    </div>
+  );
+}
@@ -13,6 +13,9 @@ import nextDynamic from 'next/dynamic';
 import { TierThemeProvider } from '@/components/providers/TierThemeProvider';
 import { generateSpoNarrative } from '@/lib/narratives';
 import { cn } from '@/lib/utils';
+import { getFeatureFlag } from '@/lib/featureFlags';
+import { getEntityCoordinationCluster } from '@/lib/coordination';
+import { CoordinatedBlocBadge } from '@/components/CoordinatedBlocBadge';
 
 const TierCelebrationManager = nextDynamic(() =>
   import('@/components/civica/shared/TierCelebrationManager').then((m) => m.TierCelebrationManager),
@@ -262,7 +265,7 @@ export default async function PoolProfilePage({ params }: PageProps) {
   const poolRow = await getPoolRow(poolId);
   const hasScored = poolRow != null;
 
-  const [scoreHistoryRes, scoreRank, interBody] = await Promise.all([
+  const [scoreHistoryRes, scoreRank, interBody, coordinationCluster] = await Promise.all([
     hasScored
       ? supabase
           .from('spo_score_snapshots')
@@ -281,6 +284,9 @@ export default async function PoolProfilePage({ params }: PageProps) {
       ? getGovernanceScoreRank(poolRow.governance_score)
       : Promise.resolve(null),
     getInterBodyAlignment(poolId, safeVotes),
+    getFeatureFlag('coordination_badges', false).then((enabled) =>
+      enabled ? getEntityCoordinationCluster('spo', poolId) : null,
+    ),
   ]);
 
   const scoreSnapshots = scoreHistoryRes.data ?? [];
@@ -774,6 +780,14 @@ export default async function PoolProfilePage({ params }: PageProps) {
           lastVotedText={lastVotedText}
         />
 
+        {coordinationCluster && (
+          <CoordinatedBlocBadge
+            entityType="spo"
+            clusterSize={coordinationCluster.members.length}
+            confirmed={coordinationCluster.review?.status === 'confirmed'}
+          />
+        )}
+
         {tierProgressBar}
 
         {/* VP2: The Record */}
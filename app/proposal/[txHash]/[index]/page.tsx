@@ -4,6 +4,9 @@ import Link from 'next/link';
 import { getProposalByKey, getVotesByProposal } from '@/lib/data';
 import { blockTimeToEpoch } from '@/lib/koios';
 import { getTreasuryBalance } from '@/lib/treasury';
+import { getProposalProjection } from '@/lib/projection';
+import { getTeamTrackRecord } from '@/lib/catalyst/trackRecord';
+import { getFeatureFlag } from '@/lib/featureFlags';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ProposalDescription } from '@/components/ProposalDescription';
@@ -20,8 +23,12 @@ import { ProposalHeroV1 } from '@/components/civica/proposals/ProposalHeroV1';
 import { VoteAdoptionCurve } from '@/components/civica/charts/VoteAdoptionCurve';
 import { ProposalDimensionTags } from '@/components/civica/proposals/ProposalDimensionTags';
 import { ProposalTopRationales } from '@/components/civica/proposals/ProposalTopRationales';
+import { ProposalKeyArguments } from '@/components/civica/proposals/ProposalKeyArguments';
+import { analyzeProposalRationales } from '@/lib/rationaleAnalysis';
 import { ProposalLifecycleTimeline } from '@/components/civica/proposals/ProposalLifecycleTimeline';
 import { ParamChangesCard } from '@/components/civica/proposals/ParamChangesCard';
+import { ProposalProjectionCard } from '@/components/civica/proposals/ProposalProjectionCard';
+import { TeamTrackRecordCard } from '@/components/civica/proposals/TeamTrackRecordCard';
 import { AlignmentCohortBreakdown } from '@/components/civica/proposals/AlignmentCohortBreakdown';
 import { VoteRationaleFlow } from '@/components/civica/proposals/VoteRationaleFlow';
 import { ConstitutionalAlignmentCard } from '@/components/ConstitutionalAlignmentCard';
@@ -54,10 +61,12 @@ export default async function ProposalDetailPage({ params }: PageProps) {
 
   if (isNaN(proposalIndex)) notFound();
 
-  const [proposal, votes, treasury] = await Promise.all([
+  const [proposal, votes, treasury, projectionsEnabled, trackRecordEnabled] = await Promise.all([
     getProposalByKey(txHash, proposalIndex),
     getVotesByProposal(txHash, proposalIndex),
     getTreasuryBalance(),
+    getFeatureFlag('outcome_projections', true),
+    getFeatureFlag('catalyst_track_record', true),
   ]);
 
   if (!proposal) notFound();
@@ -65,6 +74,12 @@ export default async function ProposalDetailPage({ params }: PageProps) {
   const currentEpoch = blockTimeToEpoch(Math.floor(Date.now() / 1000));
   const status = getProposalStatus(proposal);
   const isOpen = status === 'open';
+  const projection =
+    isOpen && projectionsEnabled ? await getProposalProjection(txHash, proposalIndex) : null;
+  const trackRecord =
+    proposal.proposalType === 'TreasuryWithdrawals' && trackRecordEnabled
+      ? await getTeamTrackRecord(txHash, proposalIndex)
+      : null;
 
   const timelineVotes = votes.map((v) => ({
     drepName: v.drepName,
@@ -105,6 +120,8 @@ export default async function ProposalDetailPage({ params }: PageProps) {
       hashVerified: v.hashVerified,
     }));
 
+  const rationaleAnalysis = analyzeProposalRationales(votes);
+
   const title = proposal.title || `Proposal ${txHash.slice(0, 12)}...`;
 
   return (
@@ -193,6 +210,9 @@ export default async function ProposalDetailPage({ params }: PageProps) {
       {/* 2. Full Description */}
       <ProposalDescription aiSummary={null} abstract={proposal.abstract} />
 
+      {/* 2b. Team track record (treasury withdrawals linked to Catalyst teams) */}
+      {trackRecord && <TeamTrackRecordCard record={trackRecord} />}
+
       {/* 3. Threshold Meter */}
       <Card>
         <CardHeader>
@@ -216,6 +236,17 @@ export default async function ProposalDetailPage({ params }: PageProps) {
         </CardContent>
       </Card>
 
+      {/* 3a. Outcome Projection (open proposals only) */}
+      {projection && (
+        <ProposalProjectionCard
+          probability={projection.probability}
+          probabilityLow={projection.probabilityLow}
+          probabilityHigh={projection.probabilityHigh}
+          bodies={projection.bodies}
+          computedAt={projection.computedAt}
+        />
+      )}
+
       {/* 3b. Vote Adoption Curve */}
       {adoptionData.length > 1 && (
         <Card>
@@ -231,6 +262,9 @@ export default async function ProposalDetailPage({ params }: PageProps) {
       {/* 4. Alignment Cohort Breakdown */}
       <AlignmentCohortBreakdown votes={votes} />
 
+      {/* 4b. Key arguments by side, explanation coverage and copied rationales */}
+      <ProposalKeyArguments analysis={rationaleAnalysis} />
+
       {/* 5. What Representatives Are Saying (real rationales) */}
       <ProposalTopRationales rationales={rationaleEntries} />
 
@@ -3,8 +3,11 @@ import { Metadata } from 'next';
 import { PageViewTracker } from '@/components/PageViewTracker';
 import { CivicaPulseOverview } from '@/components/civica/pulse/CivicaPulseOverview';
 import { Skeleton } from '@/components/ui/skeleton';
+import { BASE_URL } from '@/lib/constants';
+import { formatAda, getRunwayBaseline } from '@/lib/treasury';
+import { decodeScenario, simulateScenario, type ScenarioResult } from '@/lib/treasuryScenarios';
 
-export const metadata: Metadata = {
+const DEFAULT_METADATA: Metadata = {
   title: 'Civica — Pulse',
   description:
     "Real-time state of Cardano's on-chain governance — active proposals, treasury activity, DRep participation, and governance health.",
@@ -20,6 +23,54 @@ export const metadata: Metadata = {
   },
 };
 
+interface PulsePageProps {
+  searchParams: Promise<{ s?: string }>;
+}
+
+function monthsLabel(months: number | null, result: ScenarioResult): string {
+  return months != null ? String(months) : `${Math.round((result.horizonEpochs * 5) / 30.44)}+`;
+}
+
+/** Shared treasury scenarios (?s=) get a preview card with their Monte Carlo runway */
+export async function generateMetadata({ searchParams }: PulsePageProps): Promise<Metadata> {
+  const { s } = await searchParams;
+  if (!s) return DEFAULT_METADATA;
+
+  try {
+    const scenario = decodeScenario(s);
+    const baseline = await getRunwayBaseline();
+    if (!baseline) return DEFAULT_METADATA;
+    const result = simulateScenario(baseline, scenario);
+
+    const { p10, p50, p90 } = result.runwayMonths;
+    const params = new URLSearchParams({
+      scenario: scenario.name,
+      months: monthsLabel(p50, result),
+      low: monthsLabel(p10, result),
+      high: monthsLabel(p90, result),
+      risk: String(Math.round(result.depletionProbability * 100)),
+      balance: `₳${formatAda(baseline.balanceAda)}`,
+    });
+    const ogImageUrl = `${BASE_URL}/api/og/treasury-scenario?${params}`;
+    const title = `Treasury scenario: ${scenario.name} — Civica`;
+    const description = `Projected treasury runway of ${params.get('months')} months (${params.get('low')}–${params.get('high')} across ${result.runs} simulations).`;
+
+    return {
+      title,
+      description,
+      openGraph: {
+        title,
+        description,
+        type: 'website',
+        images: [{ url: ogImageUrl, width: 1200, height: 630, alt: title }],
+      },
+      twitter: { card: 'summary_large_image', title, description, images: [ogImageUrl] },
+    };
+  } catch {
+    return DEFAULT_METADATA;
+  }
+}
+
 export const dynamic = 'force-dynamic';
 
 function PulseFallback() {
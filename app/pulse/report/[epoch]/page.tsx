@@ -8,7 +8,8 @@ import { GHI_BAND_COLORS, GHI_BAND_LABELS, type GHIBand } from '@/lib/ghi';
 import { StateOfGovernanceContent } from './report-content';
 import type { ReportData } from '@/lib/stateOfGovernance';
 import { BASE_URL } from '@/lib/constants';
-import { ArrowLeft, Calendar, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { DATASETS, DATASET_LABELS } from '@/lib/reports/datasets';
+import { ArrowLeft, Calendar, Download, TrendingUp, TrendingDown, Minus } from 'lucide-react';
 
 interface Props {
   params: Promise<{ epoch: string }>;
@@ -155,6 +156,29 @@ export default async function StateOfGovernancePage({ params }: Props) {
 
       {/* Share footer */}
       <div className="border-t pt-8 space-y-4">
+        <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+          <span className="inline-flex items-center gap-1.5 text-muted-foreground">
+            <Download className="h-4 w-4" /> Download
+          </span>
+          {[
+            { label: 'PDF report', query: 'format=pdf' },
+            { label: 'JSON bundle', query: 'format=json' },
+            ...DATASETS.map((d) => ({
+              label: `${DATASET_LABELS[d]} CSV`,
+              query: `format=csv&dataset=${d}`,
+            })),
+          ].map((f) => (
+            <a
+              key={f.query}
+              href={`/api/v1/governance/reports/${data.epoch}?${f.query}`}
+              download
+              className="rounded-md border px-2.5 py-1 hover:bg-muted transition-colors"
+            >
+              {f.label}
+            </a>
+          ))}
+        </div>
+
         <ShareActions
           url={`https://drepscore.io/pulse/report/${data.epoch}`}
           text={`State of Governance — Epoch ${data.epoch}. GHI: ${data.ghi.score}/100. Via @CivicaGov`}
@@ -33,10 +33,42 @@ const ENDPOINTS: EndpointDef[] = [
         name: 'sort',
         type: 'string',
         default: 'score',
-        description: 'Sort field: score, name, voting_power',
+        description:
+          'Comma-separated sort keys with optional direction, e.g. score:desc,name:asc. Fields: score, name, participation, rationale, reliability, voting_power, delegators',
       },
-      { name: 'limit', type: 'number', default: '20', description: 'Results per page (max 100)' },
-      { name: 'offset', type: 'number', default: '0', description: 'Pagination offset' },
+      {
+        name: 'fields',
+        type: 'string',
+        description: 'Comma-separated response fields to return (drep_id is always included)',
+      },
+      {
+        name: 'min_score / max_score',
+        type: 'number',
+        description: 'Score range filter (0-100)',
+      },
+      {
+        name: 'min_voting_power / max_voting_power',
+        type: 'number',
+        description: 'Voting power range filter, in lovelace',
+      },
+      {
+        name: 'min_participation / max_participation',
+        type: 'number',
+        description: 'Effective participation range filter (0-100)',
+      },
+      { name: 'tier', type: 'string', description: 'Score tier(s): Strong, Good, Low' },
+      {
+        name: 'size_tier',
+        type: 'string',
+        description: 'Size tier(s): Small, Medium, Large, Whale',
+      },
+      { name: 'limit', type: 'number', default: '50', description: 'Results per page (max 100)' },
+      {
+        name: 'cursor',
+        type: 'string',
+        description: 'next_cursor / prev_cursor from a previous response; stable across re-sorts',
+      },
+      { name: 'offset', type: 'number', default: '0', description: 'Pagination offset (legacy)' },
     ],
     examplePath: '/api/v1/dreps?limit=3&sort=score',
   },
@@ -76,6 +108,20 @@ const ENDPOINTS: EndpointDef[] = [
     ],
     examplePath: '/api/v1/dreps/drep1.../history?days=30',
   },
+  {
+    id: 'drep-report',
+    method: 'GET',
+    path: '/api/v1/dreps/:drepId/report',
+    title: 'DRep Accountability Report',
+    description:
+      'Downloadable per-epoch accountability report: score pillars, participation on live proposals, votes cast with rationale status and missed proposals.',
+    tier: 'public',
+    params: [
+      { name: 'epoch', type: 'number', description: 'Epoch (defaults to the current epoch)' },
+      { name: 'format', type: 'string', default: 'pdf', description: 'Output: pdf, json, csv' },
+    ],
+    examplePath: '/api/v1/dreps/drep1.../report?format=json',
+  },
   {
     id: 'list-proposals',
     method: 'GET',
@@ -94,6 +140,17 @@ const ENDPOINTS: EndpointDef[] = [
     ],
     examplePath: '/api/v1/proposals?status=open&limit=5',
   },
+  {
+    id: 'account-audit',
+    method: 'GET',
+    path: '/api/v1/accounts/:stakeAddress/audit',
+    title: 'Representation Audit',
+    description:
+      'Delegation history for any stake address: DRep tenures by epoch, every vote cast on its behalf with the voting power it contributed, missed proposals, and unrepresented periods (no delegation, inactive or retired DRep, abstain, no confidence).',
+    tier: 'public',
+    params: [{ name: 'stakeAddress', type: 'string', description: 'Stake address (stake1...)' }],
+    examplePath: '/api/v1/accounts/stake1.../audit',
+  },
   {
     id: 'governance-health',
     method: 'GET',
@@ -104,6 +161,26 @@ const ENDPOINTS: EndpointDef[] = [
     params: [],
     examplePath: '/api/v1/governance/health',
   },
+  {
+    id: 'governance-report',
+    method: 'GET',
+    path: '/api/v1/governance/reports/:epoch',
+    title: 'Governance Report Export',
+    description:
+      "An epoch's State of Governance report as PDF, the full JSON bundle (report plus proposals, votes, scores and GHI components), or one dataset as CSV.",
+    tier: 'public',
+    params: [
+      { name: 'epoch', type: 'string', description: "Epoch number or 'latest'" },
+      { name: 'format', type: 'string', default: 'json', description: 'Output: pdf, json, csv' },
+      {
+        name: 'dataset',
+        type: 'string',
+        default: 'proposals',
+        description: 'CSV dataset: proposals, votes, scores, ghi',
+      },
+    ],
+    examplePath: '/api/v1/governance/reports/latest?format=csv&dataset=scores',
+  },
   {
     id: 'drep-embed',
     method: 'GET',
@@ -123,6 +200,17 @@ const ENDPOINTS: EndpointDef[] = [
     ],
     examplePath: '/api/v1/embed/drep1...?format=json',
   },
+  {
+    id: 'webhook-events',
+    method: 'GET',
+    path: '/api/v1/webhooks/events',
+    title: 'Webhook Event Catalog',
+    description:
+      'Event types deliverable to webhook subscriptions. Manage subscriptions with an API key via POST /api/v1/webhooks, GET/PATCH/DELETE /api/v1/webhooks/:id and GET /api/v1/webhooks/:id/deliveries. Payloads are signed: X-Civica-Signature: t=<unix>,v1=<hex HMAC-SHA256 of "<t>.<body>">.',
+    tier: 'public',
+    params: [],
+    examplePath: '/api/v1/webhooks/events',
+  },
 ];
 
 function generateCodeExamples(endpoint: EndpointDef, baseUrl: string): Record<string, string> {
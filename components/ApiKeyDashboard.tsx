@@ -0,0 +1,457 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useWallet } from '@/utils/wallet';
+import { getStoredSession } from '@/lib/supabaseAuth';
+import { API_KEY_SCOPES, type ApiKeyScope } from '@/lib/api/scopes';
+import type { ApiKeyRecord } from '@/lib/api/keys';
+import type { ApiUsageSummary } from '@/lib/api/usageStats';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { KeyRound, Loader2, Copy, Check, RotateCw, Trash2, BarChart3 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface UsageResponse {
+  truncated: boolean;
+  usage: ApiUsageSummary;
+}
+
+function formatMs(ms: number | null): string {
+  return ms == null ? '—' : `${ms} ms`;
+}
+
+export function ApiKeyDashboard() {
+  const { connected, isAuthenticated } = useWallet();
+  const token = getStoredSession();
+
+  const [keys, setKeys] = useState<ApiKeyRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newScopes, setNewScopes] = useState<ApiKeyScope[]>([]);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [secret, setSecret] = useState<{ keyId: string; value: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [usage, setUsage] = useState<UsageResponse | null>(null);
+  const [usageDays, setUsageDays] = useState(7);
+
+  const request = useCallback(
+    async (path: string, init: RequestInit = {}) => {
+      const res = await fetch(path, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || `Request failed (${res.status})`);
+      return body;
+    },
+    [token],
+  );
+
+  const loadKeys = useCallback(async () => {
+    if (!token) {
+      setLoading(false);
+      return;
+    }
+    try {
+      const body = await request('/api/developer/keys');
+      setKeys(body.keys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load keys');
+    } finally {
+      setLoading(false);
+    }
+  }, [request, token]);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  useEffect(() => {
+    if (!selected || !token) return;
+    setUsage(null);
+    request(
+      `/api/developer/keys/${selected}/usage?days=${usageDays}&granularity=${usageDays <= 2 ? 'hour' : 'day'}`,
+    )
+      .then((body) => setUsage(body))
+      .catch((err) => setError(err.message));
+  }, [selected, usageDays, request, token]);
+
+  const run = async (keyId: string, fn: () => Promise<void>) => {
+    setBusyKey(keyId);
+    setError(null);
+    try {
+      await fn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const createKey = () =>
+    run('new', async () => {
+      const body = await request('/api/developer/keys', {
+        method: 'POST',
+        body: JSON.stringify({ name: newName, scopes: newScopes.length ? newScopes : null }),
+      });
+      setSecret({ keyId: body.key.id, value: body.secret });
+      setNewName('');
+      setNewScopes([]);
+      await loadKeys();
+    });
+
+  const rotateKey = (keyId: string) =>
+    run(keyId, async () => {
+      const body = await request(`/api/developer/keys/${keyId}/rotate`, { method: 'POST' });
+      setSecret({ keyId: body.key.id, value: body.secret });
+      if (selected === keyId) setSelected(body.key.id);
+      await loadKeys();
+    });
+
+  const revokeKey = (keyId: string) =>
+    run(keyId, async () => {
+      await request(`/api/developer/keys/${keyId}`, { method: 'DELETE' });
+      await loadKeys();
+    });
+
+  const renameKey = (keyId: string, name: string) =>
+    run(keyId, async () => {
+      await request(`/api/developer/keys/${keyId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ name }),
+      });
+      await loadKeys();
+    });
+
+  const toggleScope = (key: ApiKeyRecord, scope: ApiKeyScope) =>
+    run(key.id, async () => {
+      const current = key.scopes ?? [...API_KEY_SCOPES];
+      const next = current.includes(scope)
+        ? current.filter((s) => s !== scope)
+        : [...current, scope];
+      if (next.length === 0) throw new Error('A key needs at least one scope');
+      await request(`/api/developer/keys/${key.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ scopes: next.length === API_KEY_SCOPES.length ? null : next }),
+      });
+      await loadKeys();
+    });
+
+  if (!isAuthenticated || !connected) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" /> API Keys
+          </CardTitle>
+          <CardDescription>Connect your wallet to create and manage API keys</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const activeKeys = keys.filter((k) => !k.revokedAt);
+  const revokedKeys = keys.filter((k) => k.revokedAt);
+  const maxBucket = Math.max(1, ...(usage?.usage.series.map((b) => b.requests) ?? [0]));
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/5 px-4 py-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {secret && (
+        <Card className="border-primary/30 bg-primary/5">
+          <CardHeader>
+            <CardTitle className="text-base">Copy your new key now</CardTitle>
+            <CardDescription>
+              This is the only time the full key is shown. Store it somewhere safe.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center gap-2">
+            <code className="flex-1 truncate rounded-md border border-border bg-background px-3 py-2 font-mono text-xs">
+              {secret.value}
+            </code>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                navigator.clipboard.writeText(secret.value);
+                setCopied(true);
+                setTimeout(() => setCopied(false), 2000);
+              }}
+            >
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setSecret(null)}>
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" /> Create a key
+          </CardTitle>
+          <CardDescription>
+            New keys start on the public tier. Leave all scopes unchecked for full access.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Key name, e.g. Production wallet"
+              value={newName}
+              maxLength={60}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <Button onClick={createKey} disabled={!newName.trim() || busyKey === 'new'}>
+              {busyKey === 'new' ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Create'}
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {API_KEY_SCOPES.map((scope) => (
+              <button
+                key={scope}
+                type="button"
+                onClick={() =>
+                  setNewScopes((prev) =>
+                    prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope],
+                  )
+                }
+                className={cn(
+                  'rounded-full border px-2.5 py-0.5 text-xs',
+                  newScopes.includes(scope)
+                    ? 'border-primary bg-primary/10 text-primary'
+                    : 'border-border text-muted-foreground',
+                )}
+              >
+                {scope}
+              </button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your keys</CardTitle>
+          <CardDescription>
+            {activeKeys.length} active{revokedKeys.length ? `, ${revokedKeys.length} revoked` : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {activeKeys.length === 0 && (
+            <p className="text-sm text-muted-foreground">No active keys yet.</p>
+          )}
+          {activeKeys.map((key) => (
+            <div key={key.id} className="rounded-lg border border-border p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  defaultValue={key.name}
+                  maxLength={60}
+                  className="h-8 max-w-xs"
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    if (name && name !== key.name) renameKey(key.id, name);
+                  }}
+                />
+                <code className="font-mono text-xs text-muted-foreground">{key.keyPrefix}…</code>
+                <Badge variant="outline">{key.tier}</Badge>
+                <span className="text-xs text-muted-foreground">
+                  {key.lastUsedAt
+                    ? `Last used ${new Date(key.lastUsedAt).toLocaleDateString()}`
+                    : 'Never used'}
+                </span>
+                <div className="ml-auto flex gap-1">
+                  <Button
+                    size="sm"
+                    variant={selected === key.id ? 'secondary' : 'ghost'}
+                    onClick={() => setSelected(selected === key.id ? null : key.id)}
+                  >
+                    <BarChart3 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={busyKey === key.id}
+                    onClick={() => rotateKey(key.id)}
+                    title="Rotate: issue a new secret and revoke this one"
+                  >
+                    <RotateCw className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={busyKey === key.id}
+                    onClick={() => revokeKey(key.id)}
+                    title="Revoke"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {API_KEY_SCOPES.map((scope) => {
+                  const enabled = !key.scopes || key.scopes.includes(scope);
+                  return (
+                    <button
+                      key={scope}
+                      type="button"
+                      disabled={busyKey === key.id}
+                      onClick={() => toggleScope(key, scope)}
+                      className={cn(
+                        'rounded-full border px-2.5 py-0.5 text-xs',
+                        enabled
+                          ? 'border-primary bg-primary/10 text-primary'
+                          : 'border-border text-muted-foreground line-through',
+                      )}
+                    >
+                      {scope}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-3">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="h-5 w-5" /> Usage
+              </CardTitle>
+              <CardDescription>{keys.find((k) => k.id === selected)?.name}</CardDescription>
+            </div>
+            <div className="flex gap-1">
+              {[1, 7, 30].map((d) => (
+                <Button
+                  key={d}
+                  size="sm"
+                  variant={usageDays === d ? 'secondary' : 'ghost'}
+                  onClick={() => setUsageDays(d)}
+                >
+                  {d === 1 ? '24h' : `${d}d`}
+                </Button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!usage ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                  <Stat label="Requests" value={usage.usage.totals.requests.toLocaleString()} />
+                  <Stat
+                    label="Error rate"
+                    value={`${(usage.usage.totals.errorRate * 100).toFixed(2)}%`}
+                  />
+                  <Stat
+                    label="Rate-limit hits"
+                    value={usage.usage.totals.rateLimitHits.toLocaleString()}
+                  />
+                  <Stat
+                    label="Latency p50 / p95 / p99"
+                    value={`${formatMs(usage.usage.totals.p50Ms)} / ${formatMs(usage.usage.totals.p95Ms)} / ${formatMs(usage.usage.totals.p99Ms)}`}
+                  />
+                </div>
+
+                <div className="flex h-32 items-end gap-0.5">
+                  {usage.usage.series.map((b) => (
+                    <div
+                      key={b.bucket}
+                      className="flex-1 flex flex-col justify-end"
+                      title={`${new Date(b.bucket).toLocaleString()}: ${b.requests} requests, ${b.errors} errors, ${b.rateLimitHits} rate-limited, p95 ${formatMs(b.p95Ms)}`}
+                    >
+                      <div
+                        className="w-full rounded-t bg-amber-500/70"
+                        style={{ height: `${(b.rateLimitHits / maxBucket) * 100}%` }}
+                      />
+                      <div
+                        className="w-full bg-destructive/70"
+                        style={{ height: `${(b.errors / maxBucket) * 100}%` }}
+                      />
+                      <div
+                        className="w-full bg-primary/60"
+                        style={{
+                          height: `${((b.requests - b.errors - b.rateLimitHits) / maxBucket) * 100}%`,
+                        }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-4 text-[11px] text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <span className="h-2 w-2 rounded-sm bg-primary/60" /> OK
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <span className="h-2 w-2 rounded-sm bg-destructive/70" /> Errors
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <span className="h-2 w-2 rounded-sm bg-amber-500/70" /> Rate-limited
+                  </span>
+                </div>
+
+                {usage.usage.topEndpoints.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">Top endpoints</p>
+                    {usage.usage.topEndpoints.map((e) => (
+                      <div key={e.endpoint} className="flex justify-between text-xs">
+                        <code className="font-mono">{e.endpoint}</code>
+                        <span className="tabular-nums text-muted-foreground">
+                          {e.requests.toLocaleString()} req · {e.errors} err
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {usage.truncated && (
+                  <p className="text-[11px] text-muted-foreground">
+                    Showing the most recent requests only; totals for this window are sampled.
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border border-border px-3 py-2">
+      <p className="text-[11px] text-muted-foreground">{label}</p>
+      <p className="text-sm font-semibold tabular-nums">{value}</p>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { Network } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+
+interface CoordinatedBlocBadgeProps {
+  entityType: 'drep' | 'spo';
+  clusterSize: number;
+  /** true once an admin has reviewed and confirmed the cluster */
+  confirmed: boolean;
+}
+
+/**
+ * Shown on profiles that belong to a coordination cluster (lib/coordination).
+ * Worded as a possibility: clusters come from statistical signals, not proof.
+ */
+export function CoordinatedBlocBadge({
+  entityType,
+  clusterSize,
+  confirmed,
+}: CoordinatedBlocBadgeProps) {
+  const peers = clusterSize - 1;
+  const noun = entityType === 'drep' ? 'DRep' : 'pool';
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge
+            variant="outline"
+            className="border-amber-500/40 bg-amber-500/10 text-amber-600 dark:text-amber-400 cursor-default"
+          >
+            <Network />
+            Possible coordinated bloc
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <p className="text-xs">
+            This {noun} acts in close coordination with {peers} other {noun}
+            {peers === 1 ? '' : 's'}: near-identical votes, votes in the same blocks, shared
+            metadata hosting or shared delegator stake.{' '}
+            {confirmed
+              ? 'Reviewed and confirmed by the DRepScore team.'
+              : 'Detected automatically and not yet reviewed.'}{' '}
+            It does not affect the score.
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
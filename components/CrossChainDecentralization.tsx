@@ -3,7 +3,7 @@
 import { motion } from 'framer-motion';
 import { fadeInUp } from '@/lib/animations';
 import { Lock, Info } from 'lucide-react';
-import { CHAIN_IDENTITIES, type Chain } from '@/lib/crossChain';
+import { chainIdentity, listChainAdapters, type Chain } from '@/lib/crossChain';
 
 interface EDIData {
   chain: Chain;
@@ -19,7 +19,7 @@ export function CrossChainDecentralization({
   data = [],
   className = '',
 }: CrossChainDecentralizationProps) {
-  const chains: Chain[] = ['cardano', 'ethereum', 'polkadot'];
+  const chains = listChainAdapters({ featured: true }).map((a) => a.chain);
   const hasAnyData = data.some((d) => d.composite != null);
 
   return (
@@ -41,7 +41,7 @@ export function CrossChainDecentralization({
       {hasAnyData ? (
         <div className="space-y-3">
           {chains.map((chain) => {
-            const identity = CHAIN_IDENTITIES[chain];
+            const identity = chainIdentity(chain);
             const edi = data.find((d) => d.chain === chain);
             const score = edi?.composite;
 
@@ -3,7 +3,7 @@
 import { motion } from 'framer-motion';
 import { fadeInUp } from '@/lib/animations';
 import { Info } from 'lucide-react';
-import { CHAIN_IDENTITIES, type Chain, type ChainBenchmark } from '@/lib/crossChain';
+import { chainIdentity, type ChainBenchmark } from '@/lib/crossChain';
 import {
   getChainMetrics,
   GOVERNANCE_MODELS,
@@ -17,7 +17,7 @@ interface CrossChainReportCardProps {
 }
 
 export function CrossChainReportCard({ benchmark, className = '' }: CrossChainReportCardProps) {
-  const identity = CHAIN_IDENTITIES[benchmark.chain];
+  const identity = chainIdentity(benchmark.chain);
   const model = GOVERNANCE_MODELS[benchmark.chain];
   const metrics = getChainMetrics(benchmark);
 
@@ -101,6 +101,9 @@ export function DeveloperPage() {
               <Button size="lg" variant="outline" asChild>
                 <a href="#widgets">Embed Widgets</a>
               </Button>
+              <Button size="lg" variant="outline" asChild>
+                <Link href="/developers/keys">Manage API Keys</Link>
+              </Button>
             </motion.div>
           </motion.div>
         </div>
@@ -1,51 +1,27 @@
 'use client';
 
 import { useGovernanceBenchmarks } from '@/hooks/queries';
-import { CHAIN_IDENTITIES, type Chain } from '@/lib/crossChain';
+import {
+  benchmarkFromRow,
+  chainIdentity,
+  listChainAdapters,
+  type GovernanceBenchmarkRow,
+} from '@/lib/crossChain';
+import { getHeadlineMetric } from '@/lib/crossChain/chainMetrics';
 
 interface EmbedCrossChainProps {
   theme: 'dark' | 'light';
 }
 
-interface BenchmarkData {
-  delegate_count: number | null;
-  proposal_count: number | null;
-  participation_rate: number | null;
-}
-
-const TAGLINES: Record<Chain, string> = {
-  cardano: 'DRep delegation',
-  ethereum: 'DAO token voting',
-  polkadot: 'Conviction voting',
-};
-
-function headline(chain: Chain, b: BenchmarkData | null): string {
-  if (!b) return '—';
-  switch (chain) {
-    case 'cardano':
-      return b.delegate_count != null ? `${fmt(b.delegate_count)} DReps` : '—';
-    case 'ethereum':
-      return b.delegate_count != null ? `${fmt(b.delegate_count)} delegates` : '—';
-    case 'polkadot':
-      return b.proposal_count != null ? `${fmt(b.proposal_count)} referenda` : '—';
-  }
-}
-
-function fmt(n: number): string {
-  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
-  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
-  return n.toLocaleString();
-}
-
 export function EmbedCrossChain({ theme }: EmbedCrossChainProps) {
   const isDark = theme === 'dark';
   const { data: benchmarkData, isLoading: loading } = useGovernanceBenchmarks();
   const benchmarks = ((benchmarkData as any)?.benchmarks ?? {}) as Record<
     string,
-    BenchmarkData | null
+    GovernanceBenchmarkRow | null
   >;
 
-  const chains: Chain[] = ['cardano', 'ethereum', 'polkadot'];
+  const adapters = listChainAdapters({ featured: true });
 
   if (loading) {
     return (
@@ -80,9 +56,9 @@ export function EmbedCrossChain({ theme }: EmbedCrossChainProps) {
       </div>
 
       <div className="space-y-2">
-        {chains.map((chain) => {
-          const b = benchmarks[chain] as BenchmarkData | null;
-          const identity = CHAIN_IDENTITIES[chain];
+        {adapters.map(({ chain, model }) => {
+          const row = benchmarks[chain];
+          const identity = chainIdentity(chain);
 
           return (
             <div
@@ -99,11 +75,11 @@ export function EmbedCrossChain({ theme }: EmbedCrossChainProps) {
               <div className="min-w-0 flex-1">
                 <span className="text-sm font-medium">{identity.name}</span>
                 <div className="text-[10px]" style={{ color: isDark ? '#6b7280' : '#9ca3af' }}>
-                  {TAGLINES[chain]}
+                  {model.tagline}
                 </div>
               </div>
               <span className="text-sm font-bold tabular-nums" style={{ color: identity.color }}>
-                {headline(chain, b)}
+                {row ? getHeadlineMetric(benchmarkFromRow(row)) : '—'}
               </span>
             </div>
           );
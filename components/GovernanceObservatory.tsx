@@ -9,51 +9,34 @@ import { CrossChainDecentralization } from './CrossChainDecentralization';
 import { ShareActions } from './ShareActions';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { BASE_URL } from '@/lib/constants';
-import { CHAIN_IDENTITIES, type Chain, type ChainBenchmark } from '@/lib/crossChain';
+import {
+  benchmarkFromRow,
+  chainIdentity,
+  listChainAdapters,
+  type GovernanceBenchmarkRow,
+} from '@/lib/crossChain';
 import { getHeadlineMetric } from '@/lib/crossChain/chainMetrics';
 
-interface BenchmarkRow {
-  chain: string;
-  period_label: string;
-  participation_rate: number | null;
-  delegate_count: number | null;
-  proposal_count: number | null;
-  proposal_throughput: number | null;
-  avg_rationale_rate: number | null;
-  raw_data: Record<string, unknown> | null;
-  fetched_at: string;
-}
-
 interface GovernanceObservatoryProps {
   variant?: 'full' | 'compact';
   className?: string;
 }
 
-function rowToBenchmark(chain: Chain, row: BenchmarkRow): ChainBenchmark {
-  return {
-    chain,
-    periodLabel: row.period_label,
-    participationRate: row.participation_rate,
-    delegateCount: row.delegate_count,
-    proposalCount: row.proposal_count,
-    proposalThroughput: row.proposal_throughput,
-    avgRationaleRate: row.avg_rationale_rate,
-    rawData: row.raw_data ?? {},
-    fetchedAt: row.fetched_at,
-  };
-}
-
 export function GovernanceObservatory({
   variant = 'full',
   className = '',
 }: GovernanceObservatoryProps) {
   const { data: rawData, isLoading } = useGovernanceBenchmarks();
   const benchmarks =
-    (rawData as { benchmarks?: Record<string, BenchmarkRow | null>; aiInsight?: string | null })
-      ?.benchmarks ?? {};
+    (
+      rawData as {
+        benchmarks?: Record<string, GovernanceBenchmarkRow | null>;
+        aiInsight?: string | null;
+      }
+    )?.benchmarks ?? {};
   const aiInsight = (rawData as { aiInsight?: string | null })?.aiInsight ?? null;
 
-  const chains: Chain[] = ['cardano', 'ethereum', 'polkadot'];
+  const chains = listChainAdapters({ featured: variant === 'compact' }).map((a) => a.chain);
   const hasData = chains.some((c) => benchmarks[c] != null);
 
   if (isLoading) {
@@ -89,17 +72,16 @@ export function GovernanceObservatory({
       >
         <span className="flex items-center gap-1.5 text-muted-foreground">
           <Globe className="h-3.5 w-3.5" />
-          Governance across 3 chains:
+          Governance across {chains.length} chains:
         </span>
         {chains.map((chain) => {
           const row = benchmarks[chain];
           if (!row) return null;
-          const b = rowToBenchmark(chain, row);
-          const headline = getHeadlineMetric(b);
-          const color = CHAIN_IDENTITIES[chain].color;
+          const headline = getHeadlineMetric(benchmarkFromRow(row));
+          const { name, color } = chainIdentity(chain);
           return (
             <span key={chain} className="flex items-center gap-1.5">
-              <span className="font-medium capitalize">{chain}</span>
+              <span className="font-medium">{name}</span>
               <span
                 className="rounded-md px-1.5 py-0.5 text-xs font-semibold"
                 style={{
@@ -149,7 +131,7 @@ export function GovernanceObservatory({
           {chains.map((chain) => {
             const row = benchmarks[chain];
             if (!row) return null;
-            return <CrossChainReportCard key={chain} benchmark={rowToBenchmark(chain, row)} />;
+            return <CrossChainReportCard key={chain} benchmark={benchmarkFromRow(row)} />;
           })}
         </motion.div>
 
@@ -5,6 +5,7 @@ import { QueryClientProvider } from '@tanstack/react-query';
 import { WalletProvider } from '@/utils/wallet';
 import { initPostHog } from '@/lib/posthog';
 import { getQueryClient } from '@/lib/queryClient';
+import { LocaleProvider } from '@/components/providers/LocaleProvider';
 
 export function Providers({ children }: { children: React.ReactNode }) {
   const queryClient = getQueryClient();
@@ -15,7 +16,9 @@ export function Providers({ children }: { children: React.ReactNode }) {
 
   return (
     <QueryClientProvider client={queryClient}>
-      <WalletProvider>{children}</WalletProvider>
+      <WalletProvider>
+        <LocaleProvider>{children}</LocaleProvider>
+      </WalletProvider>
     </QueryClientProvider>
   );
 }
@@ -25,7 +25,16 @@ import {
   RotateCw,
   Wrench,
   Lightbulb,
+  Network,
+  Copy,
 } from 'lucide-react';
+import { getStoredSession } from '@/lib/supabaseAuth';
+import type {
+  ClusterReviewStatus,
+  CoordinationOverview,
+  StoredCoordinationCluster,
+} from '@/lib/coordination';
+import type { OriginalityOverview, StoredOriginalityFlag } from '@/lib/rationaleOriginality';
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -379,6 +388,406 @@ function SyncRow({ entry }: { entry: IntegrityData['sync_history'][0] }) {
 
 // ── Main Component ───────────────────────────────────────────────────────────
 
+// ── Coordination Clusters ────────────────────────────────────────────────────
+
+const SIGNAL_LABELS: { key: keyof StoredCoordinationCluster['signals']; label: string }[] = [
+  { key: 'voteAgreement', label: 'Vote agreement' },
+  { key: 'timingCorrelation', label: 'Same block' },
+  { key: 'sharedInfrastructure', label: 'Shared hosting' },
+  { key: 'delegatorOverlap', label: 'Stake overlap' },
+];
+
+const MAX_MEMBERS_SHOWN = 8;
+
+function ClusterCard({
+  cluster,
+  saving,
+  onReview,
+}: {
+  cluster: StoredCoordinationCluster;
+  saving: boolean;
+  onReview: (status: ClusterReviewStatus) => void;
+}) {
+  const status = cluster.review?.status ?? 'open';
+  const profilePath = cluster.entityType === 'drep' ? '/drep/' : '/pool/';
+  return (
+    <Card className={status === 'dismissed' ? 'opacity-60' : ''}>
+      <CardContent className="pt-3 pb-3 px-4 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-semibold">{cluster.members.length} members</span>
+            <span className="text-xs text-muted-foreground">
+              cohesion {pct1(cluster.cohesion * 100)}
+            </span>
+            <Badge
+              variant={status === 'confirmed' ? 'destructive' : 'secondary'}
+              className="text-[10px]"
+            >
+              {status}
+            </Badge>
+          </div>
+          <div className="flex gap-1">
+            {status !== 'confirmed' && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={saving}
+                onClick={() => onReview('confirmed')}
+              >
+                Confirm
+              </Button>
+            )}
+            {status !== 'dismissed' && (
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={saving}
+                onClick={() => onReview('dismissed')}
+              >
+                Dismiss
+              </Button>
+            )}
+            {status !== 'open' && (
+              <Button size="sm" variant="ghost" disabled={saving} onClick={() => onReview('open')}>
+                Reopen
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {SIGNAL_LABELS.map(({ key, label }) => (
+            <Badge key={key} variant="outline" className="text-[10px] font-normal">
+              {label}: {pct1(cluster.signals[key] * 100)}
+            </Badge>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] font-mono">
+          {cluster.members.slice(0, MAX_MEMBERS_SHOWN).map((id) => (
+            <a
+              key={id}
+              href={`${profilePath}${encodeURIComponent(id)}`}
+              className="text-muted-foreground hover:text-foreground underline decoration-dotted"
+            >
+              {id.slice(0, 16)}…
+            </a>
+          ))}
+          {cluster.members.length > MAX_MEMBERS_SHOWN && (
+            <span className="text-muted-foreground">
+              +{cluster.members.length - MAX_MEMBERS_SHOWN} more
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CoordinationSection() {
+  const [overview, setOverview] = useState<CoordinationOverview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [entityType, setEntityType] = useState<'drep' | 'spo'>('drep');
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const token = getStoredSession();
+    if (!token) return;
+    try {
+      const res = await fetch('/api/admin/coordination', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) throw new Error(`${res.status}`);
+      setOverview(await res.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const review = async (clusterKey: string, status: ClusterReviewStatus) => {
+    const token = getStoredSession();
+    if (!token) return;
+    setSaving(clusterKey);
+    try {
+      await fetch('/api/admin/coordination', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ clusterKey, status }),
+      });
+      await load();
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const clusters = overview?.latest[entityType] ?? [];
+  const history = (overview?.history ?? []).filter((h) => h.entityType === entityType);
+
+  return (
+    <div>
+      <SectionHeader
+        icon={Network}
+        title="Coordination Clusters"
+        description="DReps and SPOs that vote alike, vote in the same blocks, share metadata hosting or share delegator stake."
+      />
+      <div className="flex items-center gap-2 mb-3">
+        {(['drep', 'spo'] as const).map((t) => (
+          <Button
+            key={t}
+            size="sm"
+            variant={entityType === t ? 'default' : 'outline'}
+            onClick={() => setEntityType(t)}
+          >
+            {t === 'drep' ? 'DReps' : 'SPOs'} ({overview?.latest[t].length ?? 0})
+          </Button>
+        ))}
+        {history.length > 0 && (
+          <span className="text-[11px] text-muted-foreground ml-2">
+            Trend:{' '}
+            {history
+              .slice(-6)
+              .map((h) => `E${h.epoch} ${h.clusters}/${h.entities}`)
+              .join(' · ')}
+          </span>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-500">Failed to load clusters: {error}</p>}
+      {!error && overview && clusters.length === 0 && (
+        <p className="text-xs text-muted-foreground">No clusters in the latest detection run.</p>
+      )}
+      <div className="space-y-2">
+        {clusters.map((c) => (
+          <ClusterCard
+            key={c.clusterKey}
+            cluster={c}
+            saving={saving === c.clusterKey}
+            onReview={(status) => review(c.clusterKey, status)}
+          />
+        ))}
+      </div>
+      <GuidancePanel>
+        <GuidanceNote type="expected">
+          Clusters are evidence, not verdicts: DReps following the same public voting guide will
+          agree often. Same-block voting and shared hosting are the stronger signals.
+        </GuidanceNote>
+        <GuidanceNote type="action-needed">
+          Confirm clusters you have verified so the profile badge stays on; dismiss false positives
+          to hide the badge until the cluster&apos;s membership changes.
+        </GuidanceNote>
+      </GuidancePanel>
+    </div>
+  );
+}
+
+// ── Rationale Originality ────────────────────────────────────────────────────
+
+const ORIGINALITY_LABELS: Record<StoredOriginalityFlag['flag'], string> = {
+  duplicate: 'Copied from another DRep',
+  template: 'Reused across proposals',
+  boilerplate: 'Boilerplate',
+};
+
+function OriginalityFlagCard({
+  flag,
+  saving,
+  onReview,
+}: {
+  flag: StoredOriginalityFlag;
+  saving: boolean;
+  onReview?: (status: 'upheld' | 'rejected') => void;
+}) {
+  const { appeal } = flag;
+  return (
+    <Card className={appeal.status === 'upheld' ? 'opacity-60' : ''}>
+      <CardContent className="pt-3 pb-3 px-4 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm flex-wrap">
+            <span className="font-semibold">{ORIGINALITY_LABELS[flag.flag]}</span>
+            {flag.similarity != null && (
+              <span className="text-xs text-muted-foreground">
+                {pct1(flag.similarity * 100)} similar
+              </span>
+            )}
+            <span className="text-xs text-muted-foreground">
+              credit ×{flag.multiplier.toFixed(2)}
+            </span>
+            {appeal.status !== 'none' && (
+              <Badge
+                variant={appeal.status === 'rejected' ? 'destructive' : 'secondary'}
+                className="text-[10px]"
+              >
+                appeal {appeal.status}
+              </Badge>
+            )}
+          </div>
+          {onReview && (
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={saving}
+                onClick={() => onReview('upheld')}
+              >
+                Uphold
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={saving}
+                onClick={() => onReview('rejected')}
+              >
+                Reject
+              </Button>
+            </div>
+          )}
+        </div>
+        <div className="text-[11px] font-mono text-muted-foreground">
+          <a
+            href={`/drep/${encodeURIComponent(flag.drepId)}`}
+            className="hover:text-foreground underline decoration-dotted"
+          >
+            {flag.drepId.slice(0, 16)}…
+          </a>{' '}
+          on{' '}
+          <a
+            href={`/proposal/${flag.proposalTxHash}/${flag.proposalIndex}`}
+            className="hover:text-foreground underline decoration-dotted"
+          >
+            {flag.proposalTxHash.slice(0, 10)}…#{flag.proposalIndex}
+          </a>
+        </div>
+        {flag.excerpt && <p className="text-xs text-foreground/80 italic">“{flag.excerpt}”</p>}
+        {flag.markers.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {flag.markers.map((m) => (
+              <Badge key={m} variant="outline" className="text-[10px] font-normal">
+                {m}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {flag.original && (
+          <div className="text-[11px] text-muted-foreground border-l-2 pl-2 space-y-0.5">
+            <p>
+              First published by{' '}
+              <a
+                href={`/drep/${encodeURIComponent(flag.original.drepId)}`}
+                className="font-mono hover:text-foreground underline decoration-dotted"
+              >
+                {flag.original.drepId.slice(0, 16)}…
+              </a>{' '}
+              on {new Date(flag.original.publishedAt).toLocaleDateString()}
+            </p>
+            {flag.original.excerpt && <p className="italic">“{flag.original.excerpt}”</p>}
+          </div>
+        )}
+        {appeal.reason && (
+          <p className="text-xs">
+            <span className="font-medium">DRep&apos;s appeal:</span> {appeal.reason}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function OriginalitySection() {
+  const [overview, setOverview] = useState<OriginalityOverview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const token = getStoredSession();
+    if (!token) return;
+    try {
+      const res = await fetch('/api/admin/rationale-originality', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) throw new Error(`${res.status}`);
+      setOverview(await res.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const review = async (voteTxHash: string, status: 'upheld' | 'rejected') => {
+    const token = getStoredSession();
+    if (!token) return;
+    setSaving(voteTxHash);
+    try {
+      await fetch('/api/admin/rationale-originality', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ voteTxHash, status }),
+      });
+      await load();
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div>
+      <SectionHeader
+        icon={Copy}
+        title="Rationale Originality"
+        description="Vote rationales copied from another DRep, recycled across proposals, or made of generic boilerplate. Flagged rationales earn reduced Engagement Quality credit."
+      />
+      {overview && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {(Object.keys(ORIGINALITY_LABELS) as StoredOriginalityFlag['flag'][]).map((f) => (
+            <Badge key={f} variant="outline" className="text-[11px] font-normal">
+              {ORIGINALITY_LABELS[f]}: {overview.counts[f]}
+            </Badge>
+          ))}
+          <Badge variant="secondary" className="text-[11px]">
+            Pending appeals: {overview.pendingAppeals.length}
+          </Badge>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-500">Failed to load flags: {error}</p>}
+      {overview && overview.pendingAppeals.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {overview.pendingAppeals.map((f) => (
+            <OriginalityFlagCard
+              key={f.voteTxHash}
+              flag={f}
+              saving={saving === f.voteTxHash}
+              onReview={(status) => review(f.voteTxHash, status)}
+            />
+          ))}
+        </div>
+      )}
+      {!error && overview && overview.recent.length === 0 && (
+        <p className="text-xs text-muted-foreground">No flagged rationales.</p>
+      )}
+      <div className="space-y-2">
+        {overview?.recent.slice(0, 20).map((f) => (
+          <OriginalityFlagCard key={f.voteTxHash} flag={f} saving={false} />
+        ))}
+      </div>
+      <GuidancePanel>
+        <GuidanceNote type="expected">
+          DReps in a collective often publish one shared rationale; the earliest copy is treated as
+          the original and is never flagged.
+        </GuidanceNote>
+        <GuidanceNote type="action-needed">
+          Uphold an appeal when the DRep authored the shared text or the match is coincidental.
+          Upheld flags stop discounting the score from the next score sync.
+        </GuidanceNote>
+      </GuidancePanel>
+    </div>
+  );
+}
+
 export function IntegrityDashboard({ adminAddress }: { adminAddress: string }) {
   const [data, setData] = useState<IntegrityData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -878,6 +1287,12 @@ export function IntegrityDashboard({ adminAddress }: { adminAddress: string }) {
             />
           </div>
         </div>
+
+        {/* ── Coordination Clusters ───────────────────────────────────────── */}
+        <CoordinationSection />
+
+        {/* ── Rationale Originality ───────────────────────────────────────── */}
+        <OriginalitySection />
       </div>
     </TooltipProvider>
   );
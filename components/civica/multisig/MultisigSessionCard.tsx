@@ -0,0 +1,211 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Circle,
+  Copy,
+  ExternalLink,
+  Loader2,
+  PenLine,
+  RotateCw,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useMultisigSigning } from '@/hooks/useMultisigSigning';
+import { formatAda } from '@/utils/scoring';
+import type { SigningSession, SigningSessionStatus } from '@/lib/multisig/session';
+
+const STATUS_LABELS: Record<SigningSessionStatus, { label: string; className: string }> = {
+  collecting: { label: 'Collecting signatures', className: 'text-amber-500 bg-amber-500/10' },
+  submitting: { label: 'Submitting', className: 'text-primary bg-primary/10' },
+  submitted: { label: 'Submitted', className: 'text-emerald-500 bg-emerald-500/10' },
+  failed: { label: 'Submission failed', className: 'text-rose-500 bg-rose-500/10' },
+  cancelled: { label: 'Cancelled', className: 'text-muted-foreground bg-muted' },
+  expired: { label: 'Expired', className: 'text-muted-foreground bg-muted' },
+};
+
+function shortHash(hash: string): string {
+  return `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+}
+
+function SessionSummary({ session }: { session: SigningSession }) {
+  if (session.drepUpdate) {
+    return (
+      <p className="text-sm text-foreground">
+        Update DRep metadata to{' '}
+        <span className="font-mono text-xs break-all">
+          {session.drepUpdate.anchorUrl ?? 'none'}
+        </span>
+      </p>
+    );
+  }
+  return (
+    <ul className="space-y-1">
+      {session.votes.map((v) => (
+        <li key={`${v.govActionTxHash}#${v.govActionIndex}`} className="text-sm text-foreground">
+          Vote <span className="font-semibold">{v.vote}</span> on{' '}
+          <a
+            href={`/proposal/${v.govActionTxHash}/${v.govActionIndex}`}
+            className="font-mono text-xs text-primary hover:underline"
+          >
+            {shortHash(v.govActionTxHash)}#{v.govActionIndex}
+          </a>
+          {v.anchorUrl && <span className="text-xs text-muted-foreground"> · with rationale</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** What the transaction spends besides the vote: its outputs and fee, read from the bytes */
+function SessionPayments({ session }: { session: SigningSession }) {
+  return (
+    <div className="space-y-1 text-xs text-muted-foreground">
+      <p>Outputs, change included · fee ₳{formatAda(session.fee / 1_000_000)}</p>
+      {session.outputs.map((o, i) => (
+        <p key={i} className="flex items-center justify-between gap-3">
+          <span className="font-mono truncate">{shortHash(o.address)}</span>
+          <span className="shrink-0">
+            ₳{formatAda(o.lovelace / 1_000_000)}
+            {o.assets > 0 && ` + ${o.assets} token${o.assets !== 1 ? 's' : ''}`}
+          </span>
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export function MultisigSessionCard({ session }: { session: SigningSession }) {
+  const { phase, sign, retrySubmit, isProcessing, canSign } = useMultisigSigning();
+  const [copied, setCopied] = useState(false);
+  const status = STATUS_LABELS[session.status];
+  const signedCount = session.signers.filter((s) => s.signed).length;
+
+  const copyLink = () => {
+    navigator.clipboard
+      .writeText(`${window.location.origin}/multisig/${session.id}`)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch(() => {});
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1 min-w-0">
+            <p className="text-sm font-semibold text-foreground">
+              {session.kind === 'vote' ? 'Multisig vote' : 'Multisig DRep update'}
+            </p>
+            <p className="text-xs text-muted-foreground font-mono truncate">{session.drepId}</p>
+          </div>
+          <span
+            className={cn(
+              'shrink-0 rounded-full px-2 py-0.5 text-xs font-medium',
+              status.className,
+            )}
+          >
+            {status.label}
+          </span>
+        </div>
+
+        <SessionSummary session={session} />
+        <SessionPayments session={session} />
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>Signing rule: {session.rule}</span>
+            <span>
+              {signedCount} signed
+              {session.status === 'collecting' &&
+                Number.isFinite(session.signaturesNeeded) &&
+                ` · ${session.signaturesNeeded} more needed`}
+            </span>
+          </div>
+          <ul className="space-y-1">
+            {session.signers.map((s) => (
+              <li key={s.keyHash} className="flex items-center gap-2 text-xs">
+                {s.signed ? (
+                  <CheckCircle2 className="h-3.5 w-3.5 text-emerald-500" />
+                ) : (
+                  <Circle className="h-3.5 w-3.5 text-muted-foreground" />
+                )}
+                <span className="font-mono text-muted-foreground">{shortHash(s.keyHash)}</span>
+                {s.signerAddress && (
+                  <span className="truncate text-muted-foreground">
+                    · {shortHash(s.signerAddress)}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+          {!session.feePayerSigned && (
+            <p className="text-xs text-amber-500">Waiting for the fee payer&apos;s signature.</p>
+          )}
+        </div>
+
+        {session.status === 'submitted' && (
+          <a
+            href={`https://cardanoscan.io/transaction/${session.txHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+          >
+            <ExternalLink className="h-3 w-3" />
+            View transaction
+          </a>
+        )}
+        {session.error && (
+          <div className="flex items-start gap-2 text-xs text-rose-500">
+            <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+            <p className="break-all">{session.error}</p>
+          </div>
+        )}
+        {session.status === 'collecting' && (
+          <p className="text-xs text-muted-foreground">
+            Co-signers must sign before {new Date(session.expiresAt).toLocaleString()}.
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          {session.status === 'collecting' && (
+            <Button size="sm" onClick={() => sign(session)} disabled={!canSign || isProcessing}>
+              {isProcessing ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <PenLine className="h-4 w-4" />
+              )}
+              Sign with wallet
+            </Button>
+          )}
+          {session.status === 'failed' && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => retrySubmit(session)}
+              disabled={isProcessing}
+            >
+              <RotateCw className="h-4 w-4" />
+              Retry submission
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" onClick={copyLink}>
+            <Copy className="h-4 w-4" />
+            {copied ? 'Copied' : 'Copy link for co-signers'}
+          </Button>
+        </div>
+        {!canSign && session.status === 'collecting' && (
+          <p className="text-xs text-muted-foreground">
+            Connect a wallet holding one of the keys above to sign.
+          </p>
+        )}
+        {phase.status === 'error' && <p className="text-xs text-rose-500">{phase.message}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,15 @@
+'use client';
+
+import { Skeleton } from '@/components/ui/skeleton';
+import { useMultisigSession } from '@/hooks/queries';
+import { MultisigSessionCard } from './MultisigSessionCard';
+
+export function MultisigSessionClient({ sessionId }: { sessionId: string }) {
+  const { data, isLoading, isError } = useMultisigSession(sessionId);
+
+  if (isLoading) return <Skeleton className="h-64 w-full rounded-xl" />;
+  if (isError || !data) {
+    return <p className="text-sm text-muted-foreground">Signing session not found.</p>;
+  }
+  return <MultisigSessionCard session={data.session} />;
+}
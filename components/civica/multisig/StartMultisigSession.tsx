@@ -0,0 +1,248 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Loader2, Users } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useMultisigScript, useMultisigSessions } from '@/hooks/queries';
+import { useMultisigSigning } from '@/hooks/useMultisigSigning';
+import { nativeScriptHash } from '@/lib/multisig/nativeScript';
+import { drepScriptHash } from '@/utils/drepId';
+import type { VoteChoice } from '@/lib/voting';
+
+const VOTES: VoteChoice[] = ['Yes', 'No', 'Abstain'];
+
+const PHASE_LABELS = {
+  building: 'Building transaction…',
+  signing: 'Sign as fee payer in your wallet…',
+  saving: 'Opening signing session…',
+} as const;
+
+function scriptMatches(cbor: string, scriptHash: string | null): boolean {
+  try {
+    return !!scriptHash && nativeScriptHash(cbor.trim()) === scriptHash;
+  } catch {
+    return false;
+  }
+}
+
+export function StartMultisigSession() {
+  const router = useRouter();
+  const { phase, start, isProcessing, canSign } = useMultisigSigning();
+  const [drepId, setDrepId] = useState('');
+  const [pastedScript, setPastedScript] = useState('');
+  const [kind, setKind] = useState<'vote' | 'drep_update'>('vote');
+  const [txHash, setTxHash] = useState('');
+  const [txIndex, setTxIndex] = useState('0');
+  const [vote, setVote] = useState<VoteChoice>('Yes');
+  const [anchorUrl, setAnchorUrl] = useState('');
+  const [anchorHash, setAnchorHash] = useState('');
+
+  const scriptHash = drepScriptHash(drepId.trim());
+  const { data: scriptInfo, isLoading: scriptLoading } = useMultisigScript(
+    scriptHash ? drepId.trim() : null,
+  );
+  const { data: sessionsData } = useMultisigSessions(scriptHash ? drepId.trim() : null);
+
+  const scriptCbor =
+    scriptInfo?.scriptCbor ??
+    (scriptMatches(pastedScript, scriptHash) ? pastedScript.trim() : null);
+  const anchorComplete = !!anchorUrl.trim() && /^[0-9a-f]{64}$/i.test(anchorHash.trim());
+  const detailsComplete =
+    kind === 'vote'
+      ? /^[0-9a-f]{64}$/i.test(txHash.trim()) && Number.isInteger(Number(txIndex))
+      : anchorComplete;
+
+  const handleStart = async () => {
+    if (!scriptHash || !scriptCbor) return;
+    const common = { drepId: drepId.trim(), scriptCbor };
+    const anchor = anchorComplete
+      ? { anchorUrl: anchorUrl.trim(), anchorHash: anchorHash.trim().toLowerCase() }
+      : {};
+    const session = await start(
+      kind === 'vote'
+        ? {
+            ...common,
+            kind,
+            target: { txHash: txHash.trim().toLowerCase(), txIndex: Number(txIndex) },
+            vote,
+            ...anchor,
+          }
+        : {
+            ...common,
+            kind,
+            anchorUrl: anchorUrl.trim(),
+            anchorHash: anchorHash.trim().toLowerCase(),
+          },
+    );
+    if (session) router.push(`/multisig/${session.id}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <Users className="h-4 w-4 text-primary" />
+            <p className="text-sm font-semibold text-foreground">
+              Start a multisig signing session
+            </p>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            For DReps controlled by a native script. Your wallet builds the transaction and pays the
+            fee; each co-signer then opens the session link and adds their signature. It is
+            submitted automatically once the script&apos;s threshold is met.
+          </p>
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-medium text-muted-foreground">Script DRep ID</label>
+            <Input
+              value={drepId}
+              onChange={(e) => setDrepId(e.target.value)}
+              placeholder="drep1… or drep_script1…"
+            />
+            {drepId.trim() && !scriptHash && (
+              <p className="text-xs text-rose-500">
+                Not a script DRep ID. Key-based DReps vote directly from the proposal page.
+              </p>
+            )}
+            {scriptHash && scriptLoading && (
+              <p className="text-xs text-muted-foreground">Looking up the script…</p>
+            )}
+            {scriptInfo?.rule && (
+              <p className="text-xs text-emerald-500">Signing rule: {scriptInfo.rule}</p>
+            )}
+          </div>
+
+          {scriptHash && !scriptLoading && !scriptInfo?.scriptCbor && (
+            <div className="space-y-1.5">
+              <label className="text-xs font-medium text-muted-foreground">
+                Native script CBOR (not yet seen on-chain)
+              </label>
+              <textarea
+                value={pastedScript}
+                onChange={(e) => setPastedScript(e.target.value)}
+                className="w-full min-h-[72px] p-3 font-mono text-xs border rounded-lg bg-background resize-y focus:outline-none focus:ring-2 focus:ring-primary/30"
+              />
+              {pastedScript.trim() && !scriptCbor && (
+                <p className="text-xs text-rose-500">This script does not hash to the DRep ID.</p>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            {(['vote', 'drep_update'] as const).map((k) => (
+              <button
+                key={k}
+                type="button"
+                onClick={() => setKind(k)}
+                className={cn(
+                  'rounded-lg border px-3 py-2 text-sm',
+                  kind === k
+                    ? 'border-primary bg-primary/10 text-foreground'
+                    : 'text-muted-foreground',
+                )}
+              >
+                {k === 'vote' ? 'Vote' : 'Update metadata'}
+              </button>
+            ))}
+          </div>
+
+          {kind === 'vote' && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-[1fr_80px] gap-2">
+                <Input
+                  value={txHash}
+                  onChange={(e) => setTxHash(e.target.value)}
+                  placeholder="Governance action tx hash"
+                />
+                <Input
+                  value={txIndex}
+                  onChange={(e) => setTxIndex(e.target.value)}
+                  inputMode="numeric"
+                  placeholder="Index"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {VOTES.map((v) => (
+                  <button
+                    key={v}
+                    type="button"
+                    onClick={() => setVote(v)}
+                    className={cn(
+                      'rounded-lg border px-3 py-2 text-sm',
+                      vote === v
+                        ? 'border-primary bg-primary/10 text-foreground'
+                        : 'text-muted-foreground',
+                    )}
+                  >
+                    {v}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-medium text-muted-foreground">
+              {kind === 'vote' ? 'Rationale anchor (optional)' : 'Metadata anchor'}
+            </label>
+            <Input
+              value={anchorUrl}
+              onChange={(e) => setAnchorUrl(e.target.value)}
+              placeholder="https://… or ipfs://…"
+            />
+            <Input
+              value={anchorHash}
+              onChange={(e) => setAnchorHash(e.target.value)}
+              placeholder="blake2b-256 hash of the document"
+            />
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={handleStart}
+            disabled={!canSign || !scriptCbor || !detailsComplete || isProcessing}
+          >
+            {isProcessing && <Loader2 className="h-4 w-4 animate-spin" />}
+            {isProcessing && phase.status in PHASE_LABELS
+              ? PHASE_LABELS[phase.status as keyof typeof PHASE_LABELS]
+              : 'Build and start session'}
+          </Button>
+          {!canSign && (
+            <p className="text-xs text-muted-foreground">
+              Connect the wallet that will pay the fee.
+            </p>
+          )}
+          {phase.status === 'error' && <p className="text-xs text-rose-500">{phase.message}</p>}
+        </CardContent>
+      </Card>
+
+      {!!sessionsData?.sessions.length && (
+        <div className="space-y-2">
+          <p className="text-sm font-semibold text-foreground">Recent sessions</p>
+          <ul className="space-y-1">
+            {sessionsData.sessions.map((s) => (
+              <li key={s.id}>
+                <Link
+                  href={`/multisig/${s.id}`}
+                  className="flex items-center justify-between rounded-lg border px-3 py-2 text-xs hover:bg-muted/50"
+                >
+                  <span>
+                    {s.kind === 'vote' ? 'Vote' : 'Metadata update'} ·{' '}
+                    {new Date(s.createdAt).toLocaleDateString()}
+                  </span>
+                  <span className="text-muted-foreground">{s.status}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
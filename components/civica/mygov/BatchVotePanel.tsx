@@ -0,0 +1,346 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle2, ExternalLink, FileText, Layers, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { RationalePublishOptions } from '@/components/civica/proposals/RationalePublishOptions';
+import { useDashboardInbox } from '@/hooks/queries';
+import { useBatchVote, type BatchVoteDraft } from '@/hooks/useBatchVote';
+import { MAX_BATCH_VOTES, type VoteChoice } from '@/lib/voting';
+import { getProposalDisplayTitle } from '@/utils/display';
+import { useWallet } from '@/utils/wallet';
+
+const VOTES: VoteChoice[] = ['Yes', 'No', 'Abstain'];
+
+const PHASE_LABELS = {
+  building: 'Building transaction…',
+  signing: 'Sign the transaction in your wallet…',
+  submitting: 'Submitting to Cardano…',
+} as const;
+
+interface InboxProposal {
+  txHash: string;
+  proposalIndex: number;
+  title: string | null;
+  proposalType: string;
+  epochsRemaining: number | null;
+  submittedVote: { vote: string; txHash: string } | null;
+}
+
+interface Selection {
+  vote: VoteChoice;
+  rationale: string;
+}
+
+const keyOf = (p: { txHash: string; proposalIndex: number }) => `${p.txHash}#${p.proposalIndex}`;
+
+export function BatchVotePanel({ drepId }: { drepId: string }) {
+  const { data: rawInbox, isLoading } = useDashboardInbox(drepId);
+  const {
+    phase,
+    submitBatch,
+    reset,
+    isProcessing,
+    canVote,
+    rationaleOptions,
+    setRationaleOptions,
+    canSignRationales,
+  } = useBatchVote(drepId);
+  const [step, setStep] = useState<'select' | 'review'>('select');
+  const [selections, setSelections] = useState<Record<string, Selection>>({});
+  const [openRationale, setOpenRationale] = useState<string | null>(null);
+  // Submitted proposals drop out of the inbox once recorded, so keep their titles
+  const [submittedTitles, setSubmittedTitles] = useState<Record<string, string>>({});
+
+  const inbox = rawInbox as { pendingProposals?: InboxProposal[] } | undefined;
+  const proposals = (inbox?.pendingProposals ?? []).filter((p) => !p.submittedVote);
+  const selected = proposals.filter((p) => selections[keyOf(p)]);
+  const atLimit = selected.length >= MAX_BATCH_VOTES;
+
+  const choose = (p: InboxProposal, vote: VoteChoice) => {
+    const key = keyOf(p);
+    setSelections((prev) => {
+      const next = { ...prev };
+      if (prev[key]?.vote === vote) delete next[key];
+      else next[key] = { vote, rationale: prev[key]?.rationale ?? '' };
+      return next;
+    });
+  };
+
+  const setRationale = (p: InboxProposal, rationale: string) => {
+    const key = keyOf(p);
+    setSelections((prev) => (prev[key] ? { ...prev, [key]: { ...prev[key], rationale } } : prev));
+  };
+
+  const handleSubmit = () => {
+    setSubmittedTitles(
+      Object.fromEntries(
+        selected.map((p) => [
+          keyOf(p),
+          getProposalDisplayTitle(p.title, p.txHash, p.proposalIndex),
+        ]),
+      ),
+    );
+    const drafts: BatchVoteDraft[] = selected.map((p) => {
+      const s = selections[keyOf(p)];
+      return {
+        target: { txHash: p.txHash, txIndex: p.proposalIndex },
+        vote: s.vote,
+        rationaleText: s.rationale.trim() || undefined,
+      };
+    });
+    submitBatch(drafts);
+  };
+
+  if (phase.status === 'success') {
+    return (
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <CheckCircle2 className="h-5 w-5 text-emerald-500" />
+            <p className="text-sm font-semibold text-foreground">
+              {phase.outcomes.length} vote{phase.outcomes.length !== 1 ? 's' : ''} submitted
+            </p>
+          </div>
+          <ul className="space-y-1.5">
+            {phase.outcomes.map((o) => (
+              <li
+                key={`${o.target.txHash}#${o.target.txIndex}`}
+                className="flex items-center justify-between gap-3 text-sm"
+              >
+                <Link
+                  href={`/proposal/${o.target.txHash}/${o.target.txIndex}`}
+                  className="truncate hover:text-primary"
+                >
+                  {
+                    submittedTitles[
+                      keyOf({ txHash: o.target.txHash, proposalIndex: o.target.txIndex })
+                    ]
+                  }
+                </Link>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {o.vote}
+                  {o.anchorUrl && ' · with rationale'}
+                  {o.rationaleError && <span className="text-amber-500"> · no rationale</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            {phase.confirmed ? 'Confirmed on-chain.' : 'Waiting for on-chain confirmation…'}
+            {!phase.recorded && ' Your dashboard will update once the votes are synced.'}
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <a
+              href={`https://cardanoscan.io/transaction/${phase.txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              <ExternalLink className="h-3 w-3" />
+              View transaction
+            </a>
+            <Link href="/my-gov" className="text-xs text-muted-foreground hover:text-primary">
+              Back to dashboard
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[0, 1, 2].map((i) => (
+          <Skeleton key={i} className="h-16 w-full rounded-xl" />
+        ))}
+      </div>
+    );
+  }
+
+  if (proposals.length === 0) {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-sm text-muted-foreground">
+          No open proposals are waiting for your vote.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (step === 'review') {
+    return (
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <p className="text-sm font-semibold text-foreground">
+            Review {selected.length} vote{selected.length !== 1 ? 's' : ''}
+          </p>
+          <ul className="divide-y divide-border rounded-lg border">
+            {selected.map((p) => {
+              const s = selections[keyOf(p)];
+              return (
+                <li key={keyOf(p)} className="px-3 py-2.5 space-y-1">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-sm truncate">
+                      {getProposalDisplayTitle(p.title, p.txHash, p.proposalIndex)}
+                    </p>
+                    <span className="shrink-0 text-xs font-semibold">{s.vote}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground whitespace-pre-line line-clamp-3">
+                    {s.rationale.trim() || 'No rationale'}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+          {selected.some((p) => selections[keyOf(p)].rationale.trim()) && (
+            <RationalePublishOptions
+              options={rationaleOptions}
+              onChange={setRationaleOptions}
+              canSign={canSignRationales}
+              disabled={isProcessing}
+            />
+          )}
+          <p className="text-xs text-muted-foreground">
+            All votes go into a single transaction: one signature and one fee. Rationales are
+            published first and anchored to their votes.
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => {
+                reset();
+                setStep('select');
+              }}
+              disabled={isProcessing}
+            >
+              Back
+            </Button>
+            <Button className="flex-1" onClick={handleSubmit} disabled={!canVote}>
+              {isProcessing && <Loader2 className="h-4 w-4 animate-spin" />}
+              {phase.status === 'publishing'
+                ? `Publishing rationales (${phase.done}/${phase.total})…`
+                : phase.status in PHASE_LABELS
+                  ? PHASE_LABELS[phase.status as keyof typeof PHASE_LABELS]
+                  : `Sign and submit ${selected.length} vote${selected.length !== 1 ? 's' : ''}`}
+            </Button>
+          </div>
+          {phase.status === 'error' && (
+            <div className="text-xs">
+              <p className="text-rose-500">{phase.message}</p>
+              <p className="text-muted-foreground">{phase.hint}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Layers className="h-4 w-4 text-primary" />
+        <p className="text-sm text-muted-foreground">
+          Choose a vote for each proposal to include, up to {MAX_BATCH_VOTES} per transaction.
+        </p>
+      </div>
+      <div className="rounded-xl border border-border bg-card divide-y divide-border">
+        {proposals.map((p) => {
+          const key = keyOf(p);
+          const s = selections[key];
+          return (
+            <div key={key} className="px-4 py-3 space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <Link
+                    href={`/proposal/${p.txHash}/${p.proposalIndex}`}
+                    className="text-sm truncate block hover:text-primary"
+                  >
+                    {getProposalDisplayTitle(p.title, p.txHash, p.proposalIndex)}
+                  </Link>
+                  <p className="text-[10px] text-muted-foreground">
+                    {p.proposalType}
+                    {p.epochsRemaining != null &&
+                      ` · ${p.epochsRemaining} epoch${p.epochsRemaining !== 1 ? 's' : ''} left`}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  {VOTES.map((v) => (
+                    <button
+                      key={v}
+                      type="button"
+                      onClick={() => choose(p, v)}
+                      disabled={!s && atLimit}
+                      className={cn(
+                        'rounded-md border px-2 py-1 text-xs disabled:opacity-40',
+                        s?.vote === v
+                          ? 'border-primary bg-primary/10 text-foreground'
+                          : 'text-muted-foreground',
+                      )}
+                    >
+                      {v}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {s &&
+                (openRationale === key || s.rationale ? (
+                  <textarea
+                    value={s.rationale}
+                    onChange={(e) => setRationale(p, e.target.value)}
+                    placeholder="Explain your vote. Published as a CIP-100 document anchored to it."
+                    className="w-full min-h-[72px] p-2 text-xs border rounded-lg bg-background resize-y focus:outline-none focus:ring-2 focus:ring-primary/30"
+                    maxLength={10000}
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setOpenRationale(key)}
+                    className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    <FileText className="h-3 w-3" />
+                    Add rationale (optional)
+                  </button>
+                ))}
+            </div>
+          );
+        })}
+      </div>
+      <Button className="w-full" onClick={() => setStep('review')} disabled={!selected.length}>
+        Review {selected.length} vote{selected.length !== 1 ? 's' : ''}
+      </Button>
+    </div>
+  );
+}
+
+/** Page entry: batch voting is only available to the connected wallet's own DRep */
+export function BatchVoteForWallet() {
+  const { connected, ownDRepId } = useWallet();
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-lg font-semibold text-foreground">Vote in one transaction</h1>
+        <p className="text-sm text-muted-foreground">
+          Cast several votes with a single signature and fee, each with its own rationale.
+        </p>
+      </div>
+      {ownDRepId ? (
+        <BatchVotePanel drepId={ownDRepId} />
+      ) : (
+        <Card>
+          <CardContent className="pt-6 text-sm text-muted-foreground">
+            {connected
+              ? 'The connected wallet is not registered as a DRep.'
+              : 'Connect your DRep wallet to vote.'}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -30,6 +30,7 @@ import {
   TIER_BORDER,
 } from '@/components/civica/cards/tierStyles';
 import { computeTier } from '@/lib/scoring/tiers';
+import { useLocale } from '@/components/providers/LocaleProvider';
 import { generateActions } from '@/lib/actionFeed';
 import { ActionFeed } from './ActionFeed';
 
@@ -291,6 +292,7 @@ export function CitizenCommandCenter({
   const { data: rawPulse, isLoading: pulseLoading } = useGovernancePulse();
   const { data: rawVotes, isLoading: votesLoading } = useDRepVotes(delegatedDrep);
   const { data: rawRecap } = useGovernanceEpochRecap();
+  const { locale } = useLocale();
 
   const card = rawCard as any;
   const pulse = rawPulse as any;
@@ -326,6 +328,7 @@ export function CitizenCommandCenter({
     delegatedDrep,
     delegatedDrepScore: drepScore,
     delegatedDrepIsActive: drepIsActive,
+    locale,
   });
 
   const DeltaIcon =
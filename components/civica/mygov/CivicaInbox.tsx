@@ -17,8 +17,10 @@ import {
 import { cn } from '@/lib/utils';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useSegment } from '@/components/providers/SegmentProvider';
+import { useLocale } from '@/components/providers/LocaleProvider';
 import { useDRepReportCard, useGovernancePulse, useDashboardInbox } from '@/hooks/queries';
 import { generateActions } from '@/lib/actionFeed';
+import { formatNumber, tPlural, type Locale, type MessageKey, type Translator } from '@/lib/i18n';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -67,12 +69,12 @@ function markRead(ids: string[]) {
 // Filter tabs
 // ---------------------------------------------------------------------------
 
-const FILTER_TABS: { key: FilterTab; label: string }[] = [
-  { key: 'all', label: 'All' },
-  { key: 'proposal', label: 'Proposals' },
-  { key: 'score', label: 'Score' },
-  { key: 'alignment', label: 'Alignment' },
-  { key: 'system', label: 'System' },
+const FILTER_TABS: { key: FilterTab; label: MessageKey }[] = [
+  { key: 'all', label: 'inbox.tabAll' },
+  { key: 'proposal', label: 'inbox.tabProposal' },
+  { key: 'score', label: 'inbox.tabScore' },
+  { key: 'alignment', label: 'inbox.tabAlignment' },
+  { key: 'system', label: 'inbox.tabSystem' },
 ];
 
 // ---------------------------------------------------------------------------
@@ -200,7 +202,7 @@ function NotificationCard({
 // Supplemental system notifications (epoch health, governance activity)
 // ---------------------------------------------------------------------------
 
-function buildSystemNotifications(pulse: any): NotificationItem[] {
+function buildSystemNotifications(pulse: any, locale: Locale, t: Translator): NotificationItem[] {
   const items: NotificationItem[] = [];
   if (!pulse) return items;
 
@@ -212,16 +214,17 @@ function buildSystemNotifications(pulse: any): NotificationItem[] {
       iconColor: 'text-sky-400',
       borderColor: 'border-sky-900/30',
       bgColor: 'bg-sky-950/10',
-      title: `${pulse.activeProposals} governance proposal${pulse.activeProposals > 1 ? 's' : ''} in progress`,
-      description: 'Cardano governance is active. Your delegation is participating.',
+      title: tPlural(locale, 'inbox.activeProposalsTitle', pulse.activeProposals),
+      description: t('inbox.activeProposalsBody'),
       href: '/discover?tab=proposals',
-      cta: 'View',
+      cta: t('inbox.ctaView'),
       priority: 3,
     });
   }
 
   if (pulse.ghiScore != null) {
     const ghiDir = pulse.ghiDelta > 0 ? 'up' : pulse.ghiDelta < 0 ? 'down' : 'stable';
+    const score = formatNumber(pulse.ghiScore, locale, { maximumFractionDigits: 0 });
     items.push({
       id: 'sys_ghi',
       category: 'system',
@@ -234,10 +237,20 @@ function buildSystemNotifications(pulse: any): NotificationItem[] {
             : 'text-muted-foreground',
       borderColor: 'border-border',
       bgColor: 'bg-card',
-      title: `Governance health: ${pulse.ghiScore.toFixed(0)}${pulse.ghiDelta != null ? ` (${pulse.ghiDelta > 0 ? '+' : ''}${pulse.ghiDelta.toFixed(1)} this epoch)` : ''}`,
-      description: 'The Governance Health Index reflects current ecosystem health.',
+      title:
+        pulse.ghiDelta != null
+          ? t('inbox.ghiTitleWithDelta', {
+              score,
+              delta: formatNumber(pulse.ghiDelta, locale, {
+                minimumFractionDigits: 1,
+                maximumFractionDigits: 1,
+                signDisplay: 'exceptZero',
+              }),
+            })
+          : t('inbox.ghiTitle', { score }),
+      description: t('inbox.ghiBody'),
       href: '/pulse',
-      cta: 'See Pulse',
+      cta: t('inbox.ctaSeePulse'),
       priority: 3,
     });
   }
@@ -251,6 +264,7 @@ function buildSystemNotifications(pulse: any): NotificationItem[] {
 
 export function CivicaInbox() {
   const { segment, drepId, delegatedDrep } = useSegment();
+  const { locale, t } = useLocale();
   const [activeFilter, setActiveFilter] = useState<FilterTab>('all');
   const [readSet, setReadSet] = useState<Set<string>>(new Set());
 
@@ -296,9 +310,10 @@ export function CivicaInbox() {
     spoScoreDelta: segment === 'spo' ? card?.momentum : undefined,
     spoVoteCount: segment === 'spo' ? (card?.totalVotes ?? 0) : undefined,
     spoIsClaimed: segment === 'spo' ? (card?.claimed ?? true) : undefined,
+    locale,
   });
 
-  const systemNotes = buildSystemNotifications(pulse);
+  const systemNotes = buildSystemNotifications(pulse, locale, t);
   const allNotifications: NotificationItem[] = [
     ...actions.map(actionToNotification),
     ...systemNotes,
@@ -318,11 +333,11 @@ export function CivicaInbox() {
       {/* Header */}
       <div className="flex items-start justify-between">
         <div>
-          <h2 className="font-display text-xl font-bold">Inbox</h2>
+          <h2 className="font-display text-xl font-bold">{t('inbox.title')}</h2>
           <p className="text-sm text-muted-foreground mt-0.5">
             {unreadCount > 0
-              ? `${unreadCount} unread notification${unreadCount > 1 ? 's' : ''}`
-              : 'All caught up'}
+              ? tPlural(locale, 'inbox.unread', unreadCount)
+              : t('inbox.allCaughtUp')}
           </p>
         </div>
         {unreadCount > 0 && (
@@ -331,16 +346,16 @@ export function CivicaInbox() {
             className="text-xs text-muted-foreground hover:text-primary transition-colors flex items-center gap-1"
           >
             <CheckCircle className="h-3 w-3" />
-            Mark all read
+            {t('inbox.markAllRead')}
           </button>
         )}
       </div>
 
       {/* Filter tabs */}
       <div className="flex gap-1 overflow-x-auto pb-1 scrollbar-none">
-        {FILTER_TABS.filter((t) => {
+        {FILTER_TABS.filter((tab) => {
           // Hide system tab for anon
-          if (t.key === 'system' && segment === 'anonymous') return false;
+          if (tab.key === 'system' && segment === 'anonymous') return false;
           return true;
         }).map((tab) => {
           const count =
@@ -358,7 +373,7 @@ export function CivicaInbox() {
                   : 'text-muted-foreground hover:text-foreground hover:bg-muted/60',
               )}
             >
-              {tab.label}
+              {t(tab.label)}
               {count > 0 && (
                 <span
                   className={cn(
@@ -386,11 +401,13 @@ export function CivicaInbox() {
       ) : filtered.length === 0 ? (
         <div className="rounded-xl border border-emerald-900/30 bg-emerald-950/10 px-5 py-10 text-center space-y-2">
           <CheckCircle className="h-8 w-8 text-emerald-400 mx-auto" />
-          <p className="text-sm font-medium text-emerald-300">You&apos;re all caught up</p>
+          <p className="text-sm font-medium text-emerald-300">{t('inbox.emptyTitle')}</p>
           <p className="text-xs text-muted-foreground">
             {activeFilter === 'all'
-              ? 'No governance notifications right now. Your participation is healthy.'
-              : `No ${activeFilter} notifications right now.`}
+              ? t('inbox.emptyAll')
+              : t('inbox.emptyFiltered', {
+                  category: t(FILTER_TABS.find((tab) => tab.key === activeFilter)!.label),
+                })}
           </p>
         </div>
       ) : (
@@ -411,11 +428,16 @@ export function CivicaInbox() {
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-              Pending Votes ({inbox.pendingCount})
+              {t('inbox.pendingVotes', { count: formatNumber(inbox.pendingCount, locale) })}
             </p>
             {inbox.scoreImpact?.potentialGain > 0 && (
               <span className="text-xs text-emerald-400 font-medium">
-                +{inbox.scoreImpact.potentialGain.toFixed(1)} pts potential
+                {t('inbox.potentialGain', {
+                  points: formatNumber(inbox.scoreImpact.potentialGain, locale, {
+                    minimumFractionDigits: 1,
+                    maximumFractionDigits: 1,
+                  }),
+                })}
               </span>
             )}
           </div>
@@ -428,22 +450,24 @@ export function CivicaInbox() {
               >
                 <div className="flex-1 min-w-0">
                   <p className="text-sm truncate font-medium">
-                    {p.title ?? p.proposalTitle ?? 'Proposal'}
+                    {p.title ?? p.proposalTitle ?? t('inbox.proposalFallback')}
                   </p>
                   <div className="flex items-center gap-2 mt-0.5">
                     {p.priority === 'critical' && (
                       <span className="text-[10px] font-bold text-rose-400 uppercase tracking-wider">
-                        Critical
+                        {t('inbox.critical')}
                       </span>
                     )}
                     {p.epochsRemaining != null && (
                       <span className="text-[10px] text-muted-foreground">
-                        {p.epochsRemaining} epoch{p.epochsRemaining !== 1 ? 's' : ''} left
+                        {tPlural(locale, 'inbox.epochsLeft', p.epochsRemaining)}
                       </span>
                     )}
                     {p.perProposalScoreImpact > 0 && (
                       <span className="text-[10px] text-emerald-400">
-                        +{p.perProposalScoreImpact} pts
+                        {t('inbox.pointsGain', {
+                          points: formatNumber(p.perProposalScoreImpact, locale),
+                        })}
                       </span>
                     )}
                   </div>
@@ -457,7 +481,7 @@ export function CivicaInbox() {
               href="/discover"
               className="block text-center text-xs text-muted-foreground hover:text-primary transition-colors py-1"
             >
-              View all {inbox.pendingCount} pending proposals
+              {t('inbox.viewAllPending', { count: formatNumber(inbox.pendingCount, locale) })}
             </Link>
           )}
         </div>
@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { useQueryClient } from '@tanstack/react-query';
 import Link from 'next/link';
 import {
@@ -20,6 +21,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { useSegment } from '@/components/providers/SegmentProvider';
 import { useWallet } from '@/utils/wallet-context';
 import { useUser } from '@/hooks/queries';
+import { getStoredSession } from '@/lib/supabaseAuth';
 import {
   tierKey,
   TIER_SCORE_COLOR,
@@ -28,6 +30,8 @@ import {
 } from '@/components/civica/cards/tierStyles';
 import { computeTier } from '@/lib/scoring/tiers';
 import { GovernancePhilosophyEditor } from '@/components/GovernancePhilosophyEditor';
+import { useLocale } from '@/components/providers/LocaleProvider';
+import { LOCALE_NAMES, SUPPORTED_LOCALES, type Locale } from '@/lib/i18n';
 
 // ---------------------------------------------------------------------------
 // Notification preference toggle
@@ -146,6 +150,104 @@ function Section({
   );
 }
 
+// ---------------------------------------------------------------------------
+// Discord server link (?discord_link=TOKEN from /drep-announce link)
+// ---------------------------------------------------------------------------
+
+function DiscordLinkNotice() {
+  const searchParams = useSearchParams();
+  const linkToken = searchParams.get('discord_link');
+  const [state, setState] = useState<{ status: 'linking' | 'linked' | 'error'; message?: string }>({
+    status: 'linking',
+  });
+
+  useEffect(() => {
+    if (!linkToken) return;
+
+    const link = async () => {
+      const session = getStoredSession();
+      if (!session) throw new Error('Connect your DRep wallet, then open the link again.');
+      const r = await fetch('/api/discord/link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session}` },
+        body: JSON.stringify({ token: linkToken }),
+      });
+      const d = await r.json();
+      if (!r.ok || !d.ok) throw new Error(d.error ?? 'Could not link the Discord server.');
+    };
+
+    link()
+      .then(() => {
+        setState({ status: 'linked' });
+        window.history.replaceState({}, '', '/my-gov/profile');
+      })
+      .catch((e: Error) => setState({ status: 'error', message: e.message }));
+  }, [linkToken]);
+
+  if (!linkToken) return null;
+
+  return (
+    <div
+      className={cn(
+        'rounded-xl border px-4 py-3 text-sm flex items-center gap-2',
+        state.status === 'error' ? 'border-destructive/40 text-destructive' : 'border-border',
+      )}
+    >
+      {state.status === 'linking' && <Loader2 className="h-4 w-4 animate-spin" />}
+      {state.status === 'linked' && <Check className="h-4 w-4 text-emerald-500" />}
+      {state.status === 'linking' && 'Linking your DRep profile to the Discord server…'}
+      {state.status === 'linked' &&
+        'Discord server linked. Your votes and rationales will be announced there.'}
+      {state.status === 'error' && (state.message ?? 'Could not link the Discord server.')}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Language picker
+// ---------------------------------------------------------------------------
+
+function LanguagePicker() {
+  const { locale, setLocale, t } = useLocale();
+  const queryClient = useQueryClient();
+  const [saving, setSaving] = useState<Locale | null>(null);
+
+  const choose = (next: Locale) => {
+    setSaving(next);
+    setLocale(next)
+      .then(() => queryClient.invalidateQueries({ queryKey: ['user'] }))
+      .catch(() => {})
+      .finally(() => setSaving(null));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <p className="text-sm font-medium">{t('common.language')}</p>
+        <p className="text-xs text-muted-foreground">{t('common.languageHint')}</p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {SUPPORTED_LOCALES.map((l) => (
+          <button
+            key={l}
+            onClick={() => choose(l)}
+            disabled={saving !== null}
+            lang={l}
+            className={cn(
+              'px-3 py-2 rounded-lg text-xs font-medium transition-colors',
+              locale === l
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-muted/50 text-muted-foreground hover:text-foreground hover:bg-muted',
+            )}
+          >
+            {saving === l ? <Loader2 className="h-3 w-3 animate-spin" /> : LOCALE_NAMES[l]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main component
 // ---------------------------------------------------------------------------
@@ -213,6 +315,8 @@ export function CivicaProfile() {
         </p>
       </div>
 
+      <DiscordLinkNotice />
+
       {/* Identity card */}
       <div
         className={cn(
@@ -413,6 +517,7 @@ export function CivicaProfile() {
               Use system toggle
             </Link>
           </div>
+          <LanguagePicker />
         </div>
       </Section>
 
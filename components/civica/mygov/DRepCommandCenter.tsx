@@ -41,8 +41,10 @@ import {
   TIER_BG,
 } from '@/components/civica/cards/tierStyles';
 import { computeTier } from '@/lib/scoring/tiers';
+import { useLocale } from '@/components/providers/LocaleProvider';
 import { generateActions } from '@/lib/actionFeed';
 import { ActionFeed } from './ActionFeed';
+import { RationaleOriginalityCard } from './RationaleOriginalityCard';
 
 const PILLAR_META = [
   { key: 'engagementQuality', label: 'Engagement', icon: Zap, weight: '35%' },
@@ -137,6 +139,7 @@ export function DRepCommandCenter({ drepId }: { drepId: string }) {
   const { data: rawVotes, isLoading: votesLoading } = useDRepVotes(drepId);
   const { data: rawCompetitive } = useDashboardCompetitive(drepId);
   const { data: rawUrgent } = useDashboardUrgent(drepId);
+  const { locale } = useLocale();
 
   const card = rawCard as any;
   const pulse = rawPulse as any;
@@ -187,6 +190,7 @@ export function DRepCommandCenter({ drepId }: { drepId: string }) {
     drepIsActive,
     pendingVotesCount,
     drepTier,
+    locale,
   });
 
   const DeltaIcon =
@@ -434,15 +438,25 @@ export function DRepCommandCenter({ drepId }: { drepId: string }) {
                 {pendingCount} proposal{pendingCount !== 1 ? 's' : ''} awaiting your vote
               </p>
             </div>
-            {pendingCount > 5 && (
-              <Link
-                href="/discover"
-                className="text-xs text-muted-foreground hover:text-primary transition-colors flex items-center gap-1"
-              >
-                View all
-                <ChevronRight className="h-3 w-3" />
-              </Link>
-            )}
+            <div className="flex items-center gap-3">
+              {pendingCount > 1 && (
+                <Link
+                  href="/my-gov/batch-vote"
+                  className="text-xs text-primary hover:underline transition-colors"
+                >
+                  Vote in one transaction
+                </Link>
+              )}
+              {pendingCount > 5 && (
+                <Link
+                  href="/discover"
+                  className="text-xs text-muted-foreground hover:text-primary transition-colors flex items-center gap-1"
+                >
+                  View all
+                  <ChevronRight className="h-3 w-3" />
+                </Link>
+              )}
+            </div>
           </div>
           <div className="divide-y divide-border">
             {pendingProposals.map((p: any) => (
@@ -469,9 +483,15 @@ export function DRepCommandCenter({ drepId }: { drepId: string }) {
                     )}
                   </p>
                 </div>
-                <span className="text-xs text-primary font-medium shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
-                  Vote
-                </span>
+                {p.submittedVote ? (
+                  <span className="text-xs text-emerald-500 font-medium shrink-0">
+                    Submitted {p.submittedVote.vote}
+                  </span>
+                ) : (
+                  <span className="text-xs text-primary font-medium shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                    Vote
+                  </span>
+                )}
                 <ChevronRight className="h-3.5 w-3.5 text-muted-foreground shrink-0 group-hover:text-primary transition-colors" />
               </Link>
             ))}
@@ -479,6 +499,9 @@ export function DRepCommandCenter({ drepId }: { drepId: string }) {
         </div>
       )}
 
+      {/* Non-original rationale flags + appeals */}
+      <RationaleOriginalityCard drepId={drepId} />
+
       {/* Unanswered questions */}
       {unansweredQuestions > 0 && (
         <Link href={`/drep/${drepId}?tab=community`} className="block group">
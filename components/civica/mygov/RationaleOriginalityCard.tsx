@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQueryClient } from '@tanstack/react-query';
+import { Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { getStoredSession } from '@/lib/supabaseAuth';
+import { useDRepOriginalityFlags } from '@/hooks/queries';
+import type { StoredOriginalityFlag } from '@/lib/rationaleOriginality';
+
+const FLAG_COPY: Record<StoredOriginalityFlag['flag'], string> = {
+  duplicate: 'Matches a rationale another DRep published first',
+  template: 'Reuses the text of one of your earlier rationales',
+  boilerplate: 'Reads as generic boilerplate',
+};
+
+const APPEAL_STATUS: Record<StoredOriginalityFlag['appeal']['status'], string | null> = {
+  none: null,
+  pending: 'Appeal under review',
+  upheld: 'Appeal upheld — no score impact',
+  rejected: 'Appeal rejected',
+};
+
+function FlagRow({ drepId, flag }: { drepId: string; flag: StoredOriginalityFlag }) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const submit = async () => {
+    const token = getStoredSession();
+    if (!token) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/drep/${encodeURIComponent(drepId)}/originality`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ voteTxHash: flag.voteTxHash, reason }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        setError(body?.error ?? 'Failed to submit appeal');
+        return;
+      }
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['drep-originality', drepId] });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const status = APPEAL_STATUS[flag.appeal.status];
+  return (
+    <div className="px-4 py-3 space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 space-y-0.5">
+          <Link
+            href={`/proposal/${flag.proposalTxHash}/${flag.proposalIndex}`}
+            className="text-sm hover:text-primary transition-colors"
+          >
+            {FLAG_COPY[flag.flag]}
+          </Link>
+          <p className="text-[10px] text-muted-foreground">
+            {status ??
+              `Counts for ${Math.round(flag.multiplier * 100)}% of normal rationale credit`}
+            {flag.original &&
+              ` · original ${new Date(flag.original.publishedAt).toLocaleDateString()}`}
+          </p>
+        </div>
+        {flag.appeal.status === 'none' && !open && (
+          <Button size="sm" variant="outline" onClick={() => setOpen(true)}>
+            Appeal
+          </Button>
+        )}
+      </div>
+      {open && (
+        <div className="space-y-2">
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. I co-wrote this rationale with the DRep it matches and published it under both names."
+            rows={3}
+            className="text-sm"
+          />
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <div className="flex gap-2">
+            <Button size="sm" disabled={saving || reason.trim().length < 20} onClick={submit}>
+              Submit appeal
+            </Button>
+            <Button size="sm" variant="ghost" disabled={saving} onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Rationales the originality index flagged, with an appeal path. Hidden when
+ * the DRep has no flags.
+ */
+export function RationaleOriginalityCard({ drepId }: { drepId: string }) {
+  const { data } = useDRepOriginalityFlags(drepId);
+  const flags = (data as { flags?: StoredOriginalityFlag[] } | undefined)?.flags ?? [];
+  if (flags.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-border bg-card overflow-hidden">
+      <div className="px-4 py-3 border-b border-border flex items-center gap-2">
+        <Copy className="h-4 w-4 text-amber-400" />
+        <div>
+          <p className="text-sm font-medium">
+            {flags.length} rationale{flags.length !== 1 ? 's' : ''} flagged as non-original
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Flagged rationales earn reduced Engagement Quality credit. Appeal if the text is your
+            own work.
+          </p>
+        </div>
+      </div>
+      <div className="divide-y divide-border">
+        {flags.map((f) => (
+          <FlagRow key={f.voteTxHash} drepId={drepId} flag={f} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -41,6 +41,7 @@ import {
   TIER_BG,
 } from '@/components/civica/cards/tierStyles';
 import { computeTier } from '@/lib/scoring/tiers';
+import { useLocale } from '@/components/providers/LocaleProvider';
 import { generateActions } from '@/lib/actionFeed';
 import { ActionFeed } from './ActionFeed';
 import { SPOClaimHero } from './SPOClaimHero';
@@ -166,6 +167,7 @@ export function SPOCommandCenter({ poolId }: { poolId: string }) {
   const { data: rawPulse } = useGovernancePulse();
   const { data: rawDelegatorTrends } = useSPODelegatorTrends(poolId);
   const { data: rawUrgent } = useSPOUrgent(poolId);
+  const { locale } = useLocale();
 
   const summary = rawSummary as any;
   const pulse = rawPulse as any;
@@ -239,6 +241,7 @@ export function SPOCommandCenter({ poolId }: { poolId: string }) {
     spoPoolId: poolId,
     spoHasGovernanceStatement: hasGovernanceStatement,
     spoUnexplainedVotesCount: unexplainedVotes.length,
+    locale,
   });
 
   const DeltaIcon =
@@ -0,0 +1,142 @@
+import Link from 'next/link';
+import { Copy, Scale } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { ArgumentSummary, RationaleAnalysis, VoteSide } from '@/lib/rationaleAnalysis';
+
+interface ProposalKeyArgumentsProps {
+  analysis: RationaleAnalysis;
+}
+
+const MAX_ARGUMENTS = 5;
+
+const SIDE_BAR: Record<VoteSide, string> = {
+  Yes: 'bg-green-500',
+  No: 'bg-red-500',
+  Abstain: 'bg-muted-foreground/40',
+};
+
+const SIDE_BADGE: Record<VoteSide, 'default' | 'destructive' | 'secondary'> = {
+  Yes: 'default',
+  No: 'destructive',
+  Abstain: 'secondary',
+};
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+function drepLabel(drepId: string, drepName: string | null) {
+  return drepName || `${drepId.slice(0, 16)}…`;
+}
+
+function ArgumentRow({ argument }: { argument: ArgumentSummary }) {
+  const sides = (['Yes', 'No', 'Abstain'] as VoteSide[]).filter((s) => argument.counts[s] > 0);
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline justify-between gap-2">
+        <p className="text-sm font-medium">{argument.label}</p>
+        <p className="text-xs text-muted-foreground tabular-nums">
+          {sides.map((s) => `${argument.counts[s]} ${s}`).join(' · ')} · {pct(argument.share)} of
+          rationales
+        </p>
+      </div>
+      <div className="flex h-1.5 rounded-full overflow-hidden bg-muted">
+        {sides.map((s) => (
+          <div
+            key={s}
+            className={SIDE_BAR[s]}
+            style={{ width: `${(argument.counts[s] / argument.total) * 100}%` }}
+          />
+        ))}
+      </div>
+      {argument.quotes.length > 0 && (
+        <ul className="space-y-2 pt-1">
+          {argument.quotes.map((q) => (
+            <li key={`${q.drepId}-${q.vote}`} className="text-sm border-l-2 pl-3 space-y-1">
+              <p className="text-foreground/80 leading-relaxed">“{q.quote}”</p>
+              <p className="text-xs text-muted-foreground flex items-center gap-2">
+                <Badge variant={SIDE_BADGE[q.vote]} className="text-[10px] px-1.5 py-0">
+                  {q.vote}
+                </Badge>
+                <Link href={`/drep/${q.drepId}`} className="hover:text-primary transition-colors">
+                  {drepLabel(q.drepId, q.drepName)}
+                </Link>
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function ProposalKeyArguments({ analysis }: ProposalKeyArgumentsProps) {
+  const { coverage, explainedCount, duplicateGroups } = analysis;
+  if (explainedCount === 0) return null;
+
+  const totalVoters = coverage.voters.Yes + coverage.voters.No + coverage.voters.Abstain;
+  const coverageLine = (['Yes', 'No', 'Abstain'] as VoteSide[])
+    .filter((s) => coverage.voters[s] > 0)
+    .map((s) => `${s} ${coverage.explained[s]}/${coverage.voters[s]}`)
+    .join(' · ');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-4 w-4" />
+          Key Arguments
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          {explainedCount} of {totalVoters} DReps explained their vote ({coverageLine})
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {analysis.arguments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            The rationales so far don’t make any of the arguments we track.
+          </p>
+        ) : (
+          analysis.arguments
+            .slice(0, MAX_ARGUMENTS)
+            .map((a) => <ArgumentRow key={a.key} argument={a} />)
+        )}
+
+        {duplicateGroups.length > 0 && (
+          <div className="space-y-3 border-t pt-4">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <Copy className="h-3.5 w-3.5 text-amber-500" />
+              Shared rationale text
+            </p>
+            {duplicateGroups.map((g) => (
+              <div key={g.original.drepId} className="text-sm space-y-1">
+                <p className="text-muted-foreground">
+                  {g.copies.length} DRep{g.copies.length !== 1 ? 's' : ''} posted near-identical
+                  text to{' '}
+                  <Link href={`/drep/${g.original.drepId}`} className="font-medium text-foreground">
+                    {drepLabel(g.original.drepId, g.original.drepName)}
+                  </Link>{' '}
+                  (first published):
+                </p>
+                <ul className="space-y-1 pl-3">
+                  {g.copies.map((c) => (
+                    <li key={c.drepId} className="text-xs text-muted-foreground">
+                      <Link href={`/drep/${c.drepId}`} className="hover:text-primary">
+                        {drepLabel(c.drepId, c.drepName)}
+                      </Link>{' '}
+                      · {c.vote} · {pct(c.similarity)} similar
+                      {c.addedSentences.length > 0 && (
+                        <span className="block text-foreground/70 italic">
+                          Adds: “{c.addedSentences[0]}”
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
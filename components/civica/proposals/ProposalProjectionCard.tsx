@@ -0,0 +1,114 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { TrendingUp } from 'lucide-react';
+import type { BodyProjection, GovernanceBody } from '@/lib/projection/model';
+
+interface ProposalProjectionCardProps {
+  probability: number;
+  probabilityLow: number;
+  probabilityHigh: number;
+  bodies: BodyProjection[];
+  computedAt: string;
+}
+
+const BODY_LABELS: Record<GovernanceBody, string> = {
+  drep: 'DReps',
+  spo: 'SPOs',
+  cc: 'Constitutional Committee',
+};
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+function outlook(probability: number): { label: string; className: string } {
+  if (probability >= 0.8)
+    return { label: 'Likely to pass', className: 'text-green-600 dark:text-green-400' };
+  if (probability >= 0.5)
+    return { label: 'Leaning pass', className: 'text-green-600/80 dark:text-green-400/80' };
+  if (probability >= 0.2)
+    return { label: 'Leaning fail', className: 'text-amber-600 dark:text-amber-400' };
+  return { label: 'Unlikely to pass', className: 'text-red-600 dark:text-red-400' };
+}
+
+export function ProposalProjectionCard({
+  probability,
+  probabilityLow,
+  probabilityHigh,
+  bodies,
+  computedAt,
+}: ProposalProjectionCardProps) {
+  const { label, className } = outlook(probability);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-4 w-4 text-primary" /> Projected Outcome
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="flex items-end gap-4">
+          <div>
+            <p className={`text-4xl font-bold tabular-nums ${className}`}>{pct(probability)}</p>
+            <p className={`text-sm font-medium ${className}`}>{label}</p>
+          </div>
+          <p className="text-xs text-muted-foreground pb-1">
+            chance of ratification · {pct(probabilityLow)}–{pct(probabilityHigh)} if sentiment
+            swings against or towards it
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          {bodies.map((b) => {
+            const { p10, p50, p90 } = b.projectedYesShare;
+            return (
+              <div key={b.body} className="space-y-1.5">
+                <div className="flex justify-between text-xs">
+                  <span className="font-medium">{BODY_LABELS[b.body]}</span>
+                  <span className="text-muted-foreground tabular-nums">
+                    {pct(b.passProbability)} pass · {pct(b.undecidedShare)} yet to vote
+                  </span>
+                </div>
+                <div className="relative h-3 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="absolute inset-y-0 left-0 bg-green-500"
+                    style={{ width: `${Math.min(b.currentYesShare, 1) * 100}%` }}
+                  />
+                  <div
+                    className="absolute inset-y-0 bg-green-500/30"
+                    style={{
+                      left: `${Math.min(p10, 1) * 100}%`,
+                      width: `${Math.max(0, Math.min(p90, 1) - Math.min(p10, 1)) * 100}%`,
+                    }}
+                  />
+                  <div
+                    className="absolute inset-y-0 w-0.5 bg-green-700 dark:bg-green-300"
+                    style={{ left: `${Math.min(p50, 1) * 100}%` }}
+                  />
+                  <div
+                    className="absolute inset-y-0 w-0.5 bg-foreground/60"
+                    style={{ left: `${b.threshold * 100}%` }}
+                  />
+                </div>
+                <div className="flex justify-between text-[10px] text-muted-foreground tabular-nums">
+                  <span>
+                    Yes now {pct(b.currentYesShare)} · projected {pct(p50)} ({pct(p10)}–{pct(p90)})
+                  </span>
+                  <span>{pct(b.threshold)} needed</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <p className="text-[11px] text-muted-foreground">
+          Projected from current tallies, how each remaining voter voted on similar proposals, their
+          alignment and usual turnout, and the time left before expiry. Updated{' '}
+          {new Date(computedAt).toLocaleString('en-US', {
+            dateStyle: 'medium',
+            timeStyle: 'short',
+          })}
+          .
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { Switch } from '@/components/ui/switch';
+import type { RationalePublishOptions as Options } from '@/hooks/usePublishRationale';
+
+interface RationalePublishOptionsProps {
+  options: Options;
+  onChange: (options: Options) => void;
+  canSign: boolean;
+  disabled?: boolean;
+}
+
+export function RationalePublishOptions({
+  options,
+  onChange,
+  canSign,
+  disabled,
+}: RationalePublishOptionsProps) {
+  return (
+    <div className="space-y-1.5">
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Switch
+          size="sm"
+          checked={options.sign && canSign}
+          onCheckedChange={(sign) => onChange({ ...options, sign })}
+          disabled={disabled || !canSign}
+        />
+        Sign as author with your wallet
+      </label>
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Switch
+          size="sm"
+          checked={options.ipfs}
+          onCheckedChange={(ipfs) => onChange({ ...options, ipfs })}
+          disabled={disabled}
+        />
+        Publish to IPFS (anchor stays reachable without this site)
+      </label>
+    </div>
+  );
+}
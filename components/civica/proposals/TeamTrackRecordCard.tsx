@@ -0,0 +1,197 @@
+import Link from 'next/link';
+import { History, ExternalLink } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ProposalDeliveryBadge } from '@/components/civica/proposals/ProposalDeliveryBadge';
+import { formatAda } from '@/lib/treasury';
+import type { TeamTrackRecord, TrackRecordProject } from '@/lib/catalyst/trackRecord';
+import type { LinkSignal } from '@/lib/catalyst/resolve';
+
+interface TeamTrackRecordCardProps {
+  record: TeamTrackRecord;
+}
+
+const SIGNAL_LABELS: Record<LinkSignal, string> = {
+  handle: 'shared account',
+  website: 'project website',
+  author: 'listed author',
+  mention: 'named in proposal',
+};
+
+const PROJECT_STATUS: Record<string, { label: string; className: string }> = {
+  complete: { label: 'Completed', className: 'text-green-600 dark:text-green-400' },
+  in_progress: { label: 'In progress', className: 'text-blue-600 dark:text-blue-400' },
+};
+
+const MAX_PROJECTS = 8;
+
+function formatAmount(amount: number, currency: string): string {
+  return currency === 'ADA' ? `₳${formatAda(amount)}` : `$${formatAda(amount)}`;
+}
+
+function projectStatus(p: TrackRecordProject) {
+  if (p.status && PROJECT_STATUS[p.status]) return PROJECT_STATUS[p.status];
+  if (p.status === 'unfunded' || p.fundingStatus === 'not_approved') {
+    return { label: 'Not funded', className: 'text-muted-foreground' };
+  }
+  return { label: p.status?.replace(/_/g, ' ') ?? 'Unknown', className: 'text-muted-foreground' };
+}
+
+export function TeamTrackRecordCard({ record }: TeamTrackRecordCardProps) {
+  const { members, projects, relatedWithdrawals, summary } = record;
+  const received = Object.entries(summary.receivedByCurrency);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-4 w-4 text-primary" /> Team Track Record
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <div>
+            <p className="text-2xl font-bold tabular-nums">{summary.fundedProjects}</p>
+            <p className="text-xs text-muted-foreground">Catalyst projects funded</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold tabular-nums">
+              {summary.completionRate != null
+                ? `${Math.round(summary.completionRate * 100)}%`
+                : '—'}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              completed ({summary.completedProjects}/{summary.fundedProjects})
+            </p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold tabular-nums">
+              {received.length > 0
+                ? received.map(([currency, amount]) => formatAmount(amount, currency)).join(' + ')
+                : '—'}
+            </p>
+            <p className="text-xs text-muted-foreground">received from Catalyst</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold tabular-nums">
+              {summary.deliveredWithdrawals}/{summary.relatedWithdrawals}
+            </p>
+            <p className="text-xs text-muted-foreground">other withdrawals delivered</p>
+          </div>
+        </div>
+
+        {members.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Linked Catalyst team members</h4>
+            <ul className="flex flex-wrap gap-2">
+              {members.map((m) => (
+                <li key={m.id}>
+                  <Badge
+                    variant="outline"
+                    className="gap-1.5 text-xs"
+                    title={`Matched by ${m.signals.map((s) => SIGNAL_LABELS[s]).join(', ')}`}
+                  >
+                    {m.name || m.username || 'Unnamed member'}
+                    <span className="text-muted-foreground tabular-nums">
+                      {Math.round(m.confidence * 100)}%
+                    </span>
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {projects.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Catalyst projects</h4>
+            <ul className="divide-y divide-border">
+              {projects.slice(0, MAX_PROJECTS).map((p) => {
+                const status = projectStatus(p);
+                return (
+                  <li key={p.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      {p.link ? (
+                        <a
+                          href={p.link}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 hover:underline"
+                        >
+                          <span className="truncate">{p.title}</span>
+                          <ExternalLink className="h-3 w-3 shrink-0 text-muted-foreground" />
+                        </a>
+                      ) : (
+                        <span className="truncate">{p.title}</span>
+                      )}
+                      <p className="text-xs text-muted-foreground">{p.fund ?? 'Unknown fund'}</p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className="font-mono tabular-nums text-xs">
+                        {p.amountReceived
+                          ? formatAmount(p.amountReceived, p.currency)
+                          : p.amountRequested
+                            ? `${formatAmount(p.amountRequested, p.currency)} asked`
+                            : '—'}
+                      </p>
+                      <p className={`text-xs ${status.className}`}>{status.label}</p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+            {projects.length > MAX_PROJECTS && (
+              <p className="text-xs text-muted-foreground">
+                and {projects.length - MAX_PROJECTS} more
+              </p>
+            )}
+          </div>
+        )}
+
+        {relatedWithdrawals.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Other treasury withdrawals</h4>
+            <ul className="divide-y divide-border">
+              {relatedWithdrawals.map((w) => (
+                <li
+                  key={`${w.txHash}-${w.proposalIndex}`}
+                  className="flex items-center justify-between gap-3 py-2 text-sm"
+                >
+                  <div className="min-w-0">
+                    <Link
+                      href={`/proposal/${w.txHash}/${w.proposalIndex}`}
+                      className="truncate hover:underline"
+                    >
+                      {w.title || `Proposal ${w.txHash.slice(0, 12)}...`}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">
+                      {w.via.includes('wallet') ? 'Paid to the same wallet' : 'Same team'}
+                      {w.withdrawalAda != null && ` · ₳${formatAda(w.withdrawalAda)}`}
+                    </p>
+                  </div>
+                  {w.outcome ? (
+                    <ProposalDeliveryBadge
+                      status={w.outcome.deliveryStatus}
+                      score={w.outcome.deliveryScore}
+                      compact
+                    />
+                  ) : (
+                    <span className="text-xs text-muted-foreground">
+                      {w.enactedEpoch ? `Enacted epoch ${w.enactedEpoch}` : 'Not enacted'}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <p className="text-[11px] text-muted-foreground">
+          Teams are matched from the proposal&apos;s authors, references and links against Catalyst
+          team profiles and project websites. Matches are automated — check them before relying on
+          them.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -17,7 +17,9 @@ import { Card, CardContent } from '@/components/ui/card';
 import { useWallet } from '@/utils/wallet';
 import { useSegment } from '@/components/providers/SegmentProvider';
 import { useVote, type VotePhase } from '@/hooks/useVote';
+import { usePublishRationale } from '@/hooks/usePublishRationale';
 import { useFeatureFlag } from '@/components/FeatureGate';
+import { RationalePublishOptions } from '@/components/civica/proposals/RationalePublishOptions';
 import type { VoteChoice, VoterRole } from '@/lib/voting';
 
 interface VoteCastingPanelProps {
@@ -145,7 +147,14 @@ export function VoteCastingPanel({
   const [rationaleText, setRationaleText] = useState('');
   const [showRationale, setShowRationale] = useState(true);
   const [isDrafting, setIsDrafting] = useState(false);
-  const [isPublishing, setIsPublishing] = useState(false);
+  const {
+    publish,
+    options: publishOptions,
+    setOptions: setPublishOptions,
+    canSign,
+    isPublishing,
+    error: publishError,
+  } = usePublishRationale();
   const voteCastingEnabled = useFeatureFlag('governance_vote_casting');
 
   // Determine voter role and credential from segment
@@ -214,25 +223,16 @@ export function VoteCastingPanel({
 
     // Publish rationale if provided
     if (rationaleText.trim()) {
-      setIsPublishing(true);
-      try {
-        const res = await fetch('/api/rationale', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            drepId: voterId,
-            proposalTxHash: txHash,
-            proposalIndex,
-            rationaleText: rationaleText.trim(),
-          }),
-        });
-        if (res.ok) {
-          const data = await res.json();
-          anchorUrl = data.anchorUrl;
-          anchorHash = data.anchorHash;
-        }
-      } finally {
-        setIsPublishing(false);
+      const result = await publish({
+        drepId: voterId,
+        proposalTxHash: txHash,
+        proposalIndex,
+        rationaleText,
+      });
+      if (!result.ok && result.reason === 'declined') return;
+      if (result.ok) {
+        anchorUrl = result.rationale.anchorUrl;
+        anchorHash = result.rationale.anchorHash;
       }
     }
 
@@ -349,6 +349,12 @@ export function VoteCastingPanel({
                     {rationaleText.length.toLocaleString()} / 10,000
                   </p>
                 </div>
+                <RationalePublishOptions
+                  options={publishOptions}
+                  onChange={setPublishOptions}
+                  canSign={canSign}
+                  disabled={isPublishing}
+                />
               </div>
             ) : (
               <button
@@ -364,6 +370,12 @@ export function VoteCastingPanel({
               <span className="text-muted-foreground">Estimated fee</span>
               <span className="font-medium">{phase.preflight.estimatedFee}</span>
             </div>
+            {publishError && (
+              <p className="flex items-center gap-1.5 text-xs text-amber-500">
+                <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                {publishError}
+              </p>
+            )}
             <Button onClick={handleConfirm} className="w-full" disabled={!canVote || isPublishing}>
               {isPublishing ? (
                 <>
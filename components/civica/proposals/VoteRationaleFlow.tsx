@@ -23,7 +23,9 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { useWallet } from '@/utils/wallet';
 import { useVote, type VotePhase } from '@/hooks/useVote';
+import { usePublishRationale } from '@/hooks/usePublishRationale';
 import { useFeatureFlag } from '@/components/FeatureGate';
+import { RationalePublishOptions } from '@/components/civica/proposals/RationalePublishOptions';
 import type { VoteChoice } from '@/lib/voting';
 
 interface VoteRationaleFlowProps {
@@ -229,6 +231,7 @@ export function VoteRationaleFlow({
   const [isDrafting, setIsDrafting] = useState(false);
   const [submitSubPhase, setSubmitSubPhase] = useState<SubmitSubPhase>('building');
   const [showContext, setShowContext] = useState(false);
+  const rationalePublisher = usePublishRationale();
 
   // Detect success — transition flow step when vote succeeds
   useEffect(() => {
@@ -310,24 +313,20 @@ export function VoteRationaleFlow({
     // Publish rationale first if provided
     if (rationaleText.trim()) {
       setSubmitSubPhase('publishing');
-      try {
-        const res = await fetch('/api/rationale', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            drepId: ownDRepId,
-            proposalTxHash: txHash,
-            proposalIndex,
-            rationaleText: rationaleText.trim(),
-          }),
-        });
-        if (res.ok) {
-          const data = await res.json();
-          anchorUrl = data.anchorUrl;
-          anchorHash = data.anchorHash;
-        }
-      } catch {
-        // Continue without anchor — vote is still valuable
+      const result = await rationalePublisher.publish({
+        drepId: ownDRepId,
+        proposalTxHash: txHash,
+        proposalIndex,
+        rationaleText,
+      });
+      if (!result.ok && result.reason === 'declined') {
+        setFlowStep('review');
+        return;
+      }
+      // On failure, continue without anchor — vote is still valuable
+      if (result.ok) {
+        anchorUrl = result.rationale.anchorUrl;
+        anchorHash = result.rationale.anchorHash;
       }
     }
 
@@ -641,9 +640,23 @@ export function VoteRationaleFlow({
                 <p className="text-sm text-foreground/80 line-clamp-4 whitespace-pre-wrap">
                   {rationaleText.trim()}
                 </p>
+                <div className="pt-2">
+                  <RationalePublishOptions
+                    options={rationalePublisher.options}
+                    onChange={rationalePublisher.setOptions}
+                    canSign={rationalePublisher.canSign}
+                  />
+                </div>
               </div>
             )}
 
+            {rationalePublisher.error && (
+              <p className="flex items-center gap-1.5 text-xs text-amber-500">
+                <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                {rationalePublisher.error}
+              </p>
+            )}
+
             {/* Navigation */}
             <div className="flex gap-2">
               <Button
@@ -719,6 +732,7 @@ function PostVoteRationale({
   const [isDrafting, setIsDrafting] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
+  const rationalePublisher = usePublishRationale();
 
   // Pending anchor data: when set, we auto-confirm after preflight completes
   const pendingAnchorRef = useRef<{ url: string; hash: string } | null>(null);
@@ -779,23 +793,19 @@ function PostVoteRationale({
     setIsSubmitting(true);
     try {
       // 1. Publish the rationale document
-      const res = await fetch('/api/rationale', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          drepId: ownDRepId,
-          proposalTxHash: txHash,
-          proposalIndex,
-          rationaleText: rationaleText.trim(),
-        }),
+      const result = await rationalePublisher.publish({
+        drepId: ownDRepId,
+        proposalTxHash: txHash,
+        proposalIndex,
+        rationaleText,
       });
 
-      if (!res.ok) {
+      if (!result.ok) {
         setIsSubmitting(false);
         return;
       }
 
-      const { anchorUrl, anchorHash } = await res.json();
+      const { anchorUrl, anchorHash } = result.rationale;
 
       // 2. Store anchor and start vote preflight.
       //    The useEffect above will auto-confirm when preflight completes.
@@ -857,6 +867,12 @@ function PostVoteRationale({
           {rationaleText.length.toLocaleString()} / 10,000
         </p>
       </div>
+      <RationalePublishOptions
+        options={rationalePublisher.options}
+        onChange={rationalePublisher.setOptions}
+        canSign={rationalePublisher.canSign}
+        disabled={isSubmitting}
+      />
 
       {/* Submission progress */}
       {isSubmitting && (
@@ -881,6 +897,12 @@ function PostVoteRationale({
           <span>{phase.hint}</span>
         </div>
       )}
+      {rationalePublisher.error && (
+        <div className="flex items-start gap-2 text-xs text-amber-500">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+          <span>{rationalePublisher.error}</span>
+        </div>
+      )}
 
       {!isSubmitting && (
         <div className="flex gap-2">
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CalendarPlus, Check, Copy, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useWallet } from '@/utils/wallet-context';
+import { useSegment } from '@/components/providers/SegmentProvider';
+import { getStoredSession } from '@/lib/supabaseAuth';
+import { posthog } from '@/lib/posthog';
+import type { CalendarScope } from '@/lib/governanceCalendar';
+
+const SCOPE_LABELS: Record<CalendarScope, string> = {
+  mine: 'My votes due',
+  watchlist: 'Watched DReps',
+  all: 'Everything',
+};
+
+function toWebcal(url: string): string {
+  return url.replace(/^https?:\/\//, 'webcal://');
+}
+
+function FeedRow({ label, url }: { label: string; url: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <a
+        href={toWebcal(url)}
+        onClick={() => posthog.capture('calendar_feed_subscribed', { feed: label })}
+        className="text-sm hover:text-primary transition-colors truncate"
+      >
+        {label}
+      </a>
+      <Button size="sm" variant="ghost" onClick={copy} aria-label={`Copy ${label} URL`}>
+        {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+      </Button>
+    </div>
+  );
+}
+
+/** Subscribe links for the public and personal governance calendar feeds */
+export function CalendarSubscribe() {
+  const { isAuthenticated } = useWallet();
+  const { drepId } = useSegment();
+  const [personalUrl, setPersonalUrl] = useState<string | null>(null);
+  const [scope, setScope] = useState<CalendarScope>('mine');
+  const [rotating, setRotating] = useState(false);
+
+  useEffect(() => {
+    const token = getStoredSession();
+    if (!isAuthenticated || !token) return;
+    fetch('/api/user/calendar-feed', { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => (r.ok ? r.json() : null))
+      .then((d) => d?.url && setPersonalUrl(d.url))
+      .catch(() => {});
+  }, [isAuthenticated]);
+
+  const rotate = async () => {
+    const token = getStoredSession();
+    if (!token) return;
+    setRotating(true);
+    try {
+      const res = await fetch('/api/user/calendar-feed', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const body = res.ok ? await res.json() : null;
+      if (body?.url) setPersonalUrl(body.url);
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  const publicUrl = `${origin}/api/governance/calendar/ics`;
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <CalendarPlus className="h-4 w-4 text-primary" />
+        <p className="text-sm font-medium">Add to your calendar</p>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Proposal expiries, epoch boundaries, accountability polls and assembly deadlines, with a
+        reminder a day before. Events update as proposals ratify or expire.
+      </p>
+
+      <FeedRow label="All governance deadlines" url={publicUrl} />
+      {drepId && (
+        <FeedRow
+          label="Votes due for my DRep"
+          url={`${publicUrl}?drep=${encodeURIComponent(drepId)}`}
+        />
+      )}
+
+      {personalUrl && (
+        <div className="border-t border-border pt-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-[11px] text-muted-foreground uppercase tracking-wider font-medium">
+              Personal feed
+            </p>
+            <div className="flex gap-1">
+              {(Object.keys(SCOPE_LABELS) as CalendarScope[]).map((s) => (
+                <button
+                  key={s}
+                  onClick={() => setScope(s)}
+                  className={`text-[11px] rounded px-1.5 py-0.5 transition-colors ${
+                    scope === s ? 'bg-primary/10 text-primary' : 'text-muted-foreground'
+                  }`}
+                >
+                  {SCOPE_LABELS[s]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <FeedRow label={SCOPE_LABELS[scope]} url={`${personalUrl}?scope=${scope}`} />
+          <button
+            onClick={rotate}
+            disabled={rotating}
+            className="inline-flex items-center gap-1 text-[11px] text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <RefreshCw className={`h-3 w-3 ${rotating ? 'animate-spin' : ''}`} />
+            Reset link (old subscriptions stop updating)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { Calendar, Clock, AlertTriangle, ChevronRight, ChevronDown } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Skeleton } from '@/components/ui/skeleton';
+import { CalendarSubscribe } from './CalendarSubscribe';
 import {
   useGovernancePulse,
   useGovernanceEpochRecap,
@@ -291,6 +292,8 @@ export function CivicaGovernanceCalendar() {
         </div>
       )}
 
+      <CalendarSubscribe />
+
       {/* Active proposals context */}
       {pulse?.activeProposals > 0 && (
         <Link
@@ -11,7 +11,12 @@ import {
   useGovernanceInterBody,
 } from '@/hooks/queries';
 import { getChainMetrics, GOVERNANCE_MODELS } from '@/lib/crossChain/chainMetrics';
-import type { ChainBenchmark } from '@/lib/crossChain';
+import {
+  benchmarkFromRow,
+  chainIdentity,
+  getChainAdapter,
+  type ChainBenchmark,
+} from '@/lib/crossChain';
 import { CrossChainRadar } from '@/components/civica/charts/CrossChainRadar';
 import { VotingPowerTreemap } from '@/components/civica/charts/VotingPowerTreemap';
 
@@ -270,20 +275,16 @@ function InterBodySummary({ interBody }: { interBody: any }) {
 }
 
 function ChainComparisonBar({ chain, benchmark }: { chain: string; benchmark: ChainBenchmark }) {
-  const model = GOVERNANCE_MODELS[chain as keyof typeof GOVERNANCE_MODELS];
+  const model = GOVERNANCE_MODELS[chain];
   const metrics = getChainMetrics(benchmark);
-
-  const chainColors: Record<string, string> = {
-    cardano: 'bg-primary',
-    ethereum: 'bg-indigo-500',
-    polkadot: 'bg-pink-500',
-  };
+  const identity = chainIdentity(chain);
+  const isCardano = chain === 'cardano';
 
   return (
     <div className="space-y-2">
       <div className="flex items-center justify-between">
         <div>
-          <p className="text-sm font-medium capitalize">{chain}</p>
+          <p className="text-sm font-medium">{identity.name}</p>
           <p className="text-[11px] text-muted-foreground">{model?.tagline ?? ''}</p>
         </div>
         <span className="text-[10px] text-muted-foreground">{model?.source ?? ''}</span>
@@ -304,12 +305,10 @@ function ChainComparisonBar({ chain, benchmark }: { chain: string; benchmark: Ch
           </div>
           <div className="h-2 rounded-full bg-border overflow-hidden">
             <div
-              className={cn(
-                'h-full rounded-full transition-all',
-                chainColors[chain] ?? 'bg-primary',
-              )}
+              className={cn('h-full rounded-full transition-all', isCardano && 'bg-primary')}
               style={{
                 width: `${Math.min(100, benchmark.participationRate)}%`,
+                backgroundColor: isCardano ? undefined : identity.color,
               }}
             />
           </div>
@@ -329,17 +328,7 @@ export function CivicaObservatory() {
   const benchmarksObj = ((rawBenchmarks as any)?.benchmarks ?? {}) as Record<string, any>;
   const benchmarks: ChainBenchmark[] = Object.values(benchmarksObj)
     .filter(Boolean)
-    .map((row: any) => ({
-      chain: row.chain,
-      periodLabel: row.period_label ?? row.periodLabel ?? '',
-      participationRate: row.participation_rate ?? row.participationRate ?? null,
-      delegateCount: row.delegate_count ?? row.delegateCount ?? null,
-      proposalCount: row.proposal_count ?? row.proposalCount ?? null,
-      proposalThroughput: row.proposal_throughput ?? row.proposalThroughput ?? null,
-      avgRationaleRate: row.avg_rationale_rate ?? row.avgRationaleRate ?? null,
-      rawData: row.raw_data ?? row.rawData ?? {},
-      fetchedAt: row.fetched_at ?? row.fetchedAt ?? '',
-    }));
+    .map(benchmarkFromRow);
   const decentralization = rawDecentralization as any;
   const interBody = rawInterBody as any;
 
@@ -428,12 +417,7 @@ export function CivicaObservatory() {
               <CrossChainRadar
                 chains={benchmarks.map((b) => ({
                   chain: b.chain,
-                  color:
-                    b.chain === 'cardano'
-                      ? '#818cf8'
-                      : b.chain === 'ethereum'
-                        ? '#6366f1'
-                        : '#ec4899',
+                  color: b.chain === 'cardano' ? '#818cf8' : chainIdentity(b.chain).color,
                   values: {
                     participation: Math.min(100, b.participationRate ?? 0),
                     delegates: Math.min(
@@ -442,8 +426,8 @@ export function CivicaObservatory() {
                         Math.max(1, ...benchmarks.map((x) => x.delegateCount ?? 0))) *
                         100,
                     ),
-                    onchain: b.chain === 'cardano' ? 90 : b.chain === 'polkadot' ? 85 : 40,
-                    rationale: b.chain === 'cardano' ? 70 : b.chain === 'ethereum' ? 20 : 30,
+                    onchain: getChainAdapter(b.chain)?.structure.onchain ?? 0,
+                    rationale: getChainAdapter(b.chain)?.structure.rationale ?? 0,
                     diversity: Math.min(100, ((b.delegateCount ?? 0) / 10) * 5),
                   },
                 }))}
@@ -487,15 +471,24 @@ export function CivicaObservatory() {
 }
 
 function generateInsight(cardano: ChainBenchmark, others: ChainBenchmark[]): string {
-  const eth = others.find((b) => b.chain === 'ethereum');
-  if (cardano.delegateCount && eth?.delegateCount && cardano.delegateCount > eth.delegateCount) {
-    const ratio = (cardano.delegateCount / eth.delegateCount).toFixed(1);
-    return `Cardano has ${ratio}x more active governance delegates than Ethereum's combined DAO delegate pool, with on-chain rationale requirements driving higher accountability.`;
+  // Compare against the largest delegate pool among the other chains
+  const largest = others
+    .filter((b) => b.delegateCount)
+    .sort((a, b) => (b.delegateCount ?? 0) - (a.delegateCount ?? 0))[0];
+  if (
+    cardano.delegateCount &&
+    largest?.delegateCount &&
+    cardano.delegateCount > largest.delegateCount
+  ) {
+    const ratio = (cardano.delegateCount / largest.delegateCount).toFixed(1);
+    return `Cardano has ${ratio}x more active governance delegates than ${chainIdentity(largest.chain).name}, the largest delegate pool among the ${others.length} other chains tracked, with on-chain rationale requirements driving higher accountability.`;
   }
-  if (cardano.participationRate && eth?.participationRate) {
-    const diff = cardano.participationRate - eth.participationRate;
+  const rates = others.map((b) => b.participationRate).filter((r): r is number => r != null);
+  if (cardano.participationRate && rates.length > 0) {
+    const avg = rates.reduce((s, r) => s + r, 0) / rates.length;
+    const diff = Math.round(cardano.participationRate - avg);
     if (diff > 0) {
-      return `Cardano's DRep participation rate is ${diff} percentage points higher than Ethereum's average voter turnout, reflecting broader governance engagement.`;
+      return `Cardano's DRep participation rate is ${diff} percentage points higher than the average turnout across ${rates.length} other governance systems, reflecting broader governance engagement.`;
     }
   }
   return 'Cardano operates one of the most active on-chain governance systems in crypto, with delegated representatives, mandatory voting windows, and on-chain rationale support.';
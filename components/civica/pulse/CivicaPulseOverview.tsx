@@ -24,13 +24,16 @@ import { CivicaGovernanceTrends } from './CivicaGovernanceTrends';
 import { CivicaObservatory } from './CivicaObservatory';
 import { CivicaGovernanceCalendar } from './CivicaGovernanceCalendar';
 import { StateOfGovernance } from './StateOfGovernance';
+import { GhiSandbox } from './GhiSandbox';
+import { TreasuryScenarioBuilder } from './TreasuryScenarioBuilder';
 
-type PulseTab = 'now' | 'history' | 'observatory';
+type PulseTab = 'now' | 'history' | 'observatory' | 'sandbox';
 
 const TABS: { id: PulseTab; label: string }[] = [
   { id: 'now', label: 'Now' },
   { id: 'history', label: 'History' },
   { id: 'observatory', label: 'Observatory' },
+  { id: 'sandbox', label: 'What-if' },
 ];
 
 const VALID_PULSE_TABS = new Set<PulseTab>(TABS.map((t) => t.id));
@@ -176,6 +179,13 @@ export function CivicaPulseOverview() {
 
       {activeTab === 'observatory' && <CivicaObservatory />}
 
+      {activeTab === 'sandbox' && (
+        <div className="space-y-10">
+          <GhiSandbox />
+          <TreasuryScenarioBuilder />
+        </div>
+      )}
+
       {/* ── History tab: epoch report + trends + calendar ───── */}
       {activeTab === 'history' && (
         <div className="space-y-8">
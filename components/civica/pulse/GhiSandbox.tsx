@@ -0,0 +1,266 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FlaskConical, Undo2, ArrowUpRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useGhiSandbox } from '@/hooks/queries';
+import { posthog } from '@/lib/posthog';
+import { GHI_BAND_COLORS, GHI_BAND_LABELS, type GHIBand, type GHIComponent } from '@/lib/ghi';
+import {
+  SANDBOX_LIMITS,
+  type SandboxInput,
+  type SandboxInputs,
+  type SandboxResult,
+} from '@/lib/ghi/sandbox';
+
+interface SandboxResponse {
+  baseline: SandboxInputs;
+  live: { score: number; band: GHIBand };
+  scenario: SandboxResult;
+}
+
+const INPUTS: { key: SandboxInput; label: string; hint: string; format: (v: number) => string }[] =
+  [
+    {
+      key: 'participationRate',
+      label: 'DRep participation',
+      hint: 'Median share of proposals active DReps vote on',
+      format: (v) => `${Math.round(v)}%`,
+    },
+    {
+      key: 'rationaleRate',
+      label: 'Rationale quality',
+      hint: 'How well recent votes are explained',
+      format: (v) => `${Math.round(v)}%`,
+    },
+    {
+      key: 'activeDrepCount',
+      label: 'Active DReps',
+      hint: 'DReps holding voting power',
+      format: (v) => Math.round(v).toLocaleString(),
+    },
+    {
+      key: 'concentration',
+      label: 'Power concentration',
+      hint: '0 = equal voting power; higher = more held by the largest DReps',
+      format: (v) => v.toFixed(2),
+    },
+  ];
+
+const EDI_LABELS: Record<keyof SandboxResult['edi']['breakdown'], string> = {
+  nakamotoCoefficient: 'Nakamoto coefficient',
+  gini: 'Gini',
+  shannonEntropy: 'Shannon entropy',
+  hhi: 'HHI',
+  theilIndex: 'Theil index',
+  concentrationRatio: '1 − top share',
+  tauDecentralization: 'τ (66%)',
+};
+
+const DEBOUNCE_MS = 250;
+
+function sliderMax(key: SandboxInput, baseline: number): number {
+  // A 5000-wide slider is unusable around a few hundred DReps
+  if (key === 'activeDrepCount') {
+    return Math.min(SANDBOX_LIMITS.activeDrepCount.max, Math.max(100, baseline * 4));
+  }
+  return SANDBOX_LIMITS[key].max;
+}
+
+export function GhiSandbox() {
+  const [overrides, setOverrides] = useState<Partial<SandboxInputs>>({});
+  const [debounced, setDebounced] = useState<Partial<SandboxInputs>>({});
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(overrides), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [overrides]);
+
+  const { data: raw, isLoading, isError, isFetching } = useGhiSandbox(debounced);
+  const data = raw as SandboxResponse | undefined;
+
+  if (isError) {
+    return (
+      <div className="rounded-xl border border-border bg-card p-6 text-sm text-muted-foreground">
+        The sandbox is unavailable right now.
+      </div>
+    );
+  }
+  if (isLoading || !data) return <Skeleton className="h-96 w-full" />;
+
+  const { baseline, live, scenario } = data;
+  const valueOf = (key: SandboxInput) => overrides[key] ?? baseline[key];
+
+  const handleChange = (key: SandboxInput, value: number) => {
+    setOverrides((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleReset = () => {
+    setOverrides({});
+    posthog.capture('ghi_sandbox_reset');
+  };
+
+  const applyLever = (key: SandboxInput, value: number) => {
+    handleChange(key, value);
+    posthog.capture('ghi_sandbox_lever_applied', { input: key, value });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            <FlaskConical className="h-4 w-4 text-primary" /> What-if sandbox
+          </h2>
+          <p className="text-sm text-muted-foreground mt-0.5">
+            Adjust the inputs to see how the Governance Health Index would respond. Everything else
+            stays at today&apos;s values.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleReset}>
+          <Undo2 className="h-3.5 w-3.5 mr-1" /> Reset
+        </Button>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_1fr]">
+        {/* Controls */}
+        <div className="rounded-xl border border-border bg-card p-4 space-y-5">
+          {INPUTS.map(({ key, label, hint, format }) => {
+            const { min, step } = SANDBOX_LIMITS[key];
+            const value = valueOf(key);
+            const changed = overrides[key] !== undefined && overrides[key] !== baseline[key];
+            return (
+              <div key={key}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium">{label}</span>
+                  <span className={cn('font-mono tabular-nums', changed && 'text-primary')}>
+                    {format(value)}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={min}
+                  max={sliderMax(key, baseline[key])}
+                  step={step}
+                  value={value}
+                  onChange={(e) => handleChange(key, parseFloat(e.target.value))}
+                  className="w-full accent-primary"
+                  aria-label={label}
+                />
+                <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                  <span>{hint}</span>
+                  <span>Today: {format(baseline[key])}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Outcome */}
+        <div className={cn('space-y-4 transition-opacity', isFetching && 'opacity-70')}>
+          <div className="rounded-xl border border-border bg-card p-4 flex items-center gap-6">
+            <div>
+              <p className="text-xs text-muted-foreground font-medium uppercase tracking-wider">
+                Scenario GHI
+              </p>
+              <p
+                className="font-display text-4xl font-bold tabular-nums"
+                style={{ color: GHI_BAND_COLORS[scenario.band] }}
+              >
+                {scenario.score}
+              </p>
+              <p className="text-sm font-medium" style={{ color: GHI_BAND_COLORS[scenario.band] }}>
+                {GHI_BAND_LABELS[scenario.band]}
+              </p>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Live GHI: <span className="tabular-nums">{live.score}</span> (
+              {GHI_BAND_LABELS[live.band]})
+            </div>
+          </div>
+
+          {scenario.nextBand ? (
+            <div className="rounded-xl border border-border bg-muted/10 p-4 space-y-2">
+              <p className="text-sm font-medium">
+                What would it take to reach{' '}
+                <span style={{ color: GHI_BAND_COLORS[scenario.nextBand.band] }}>
+                  {GHI_BAND_LABELS[scenario.nextBand.band]}
+                </span>{' '}
+                ({scenario.nextBand.threshold}+, {scenario.nextBand.pointsNeeded} points away)?
+              </p>
+              <ul className="space-y-1">
+                {scenario.nextBand.levers.map(({ input, value }) => {
+                  const meta = INPUTS.find((i) => i.key === input)!;
+                  return (
+                    <li key={input} className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">{meta.label}</span>
+                      {value === null ? (
+                        <span className="text-xs text-muted-foreground">Not enough on its own</span>
+                      ) : (
+                        <button
+                          onClick={() => applyLever(input, value)}
+                          className="flex items-center gap-1 font-mono tabular-nums text-primary hover:underline"
+                        >
+                          {meta.format(value)} <ArrowUpRight className="h-3 w-3" />
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ) : (
+            <div className="rounded-xl border border-border bg-muted/10 p-4 text-sm text-muted-foreground">
+              This scenario is already in the top band.
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <ComponentBreakdown components={scenario.components} />
+        <div className="rounded-xl border border-border bg-card p-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Decentralization (EDI)</h3>
+            <span className="text-sm font-mono tabular-nums">
+              {scenario.edi.compositeScore}/100
+            </span>
+          </div>
+          <dl className="divide-y divide-border">
+            {(Object.keys(EDI_LABELS) as (keyof typeof EDI_LABELS)[]).map((key) => (
+              <div key={key} className="flex justify-between py-1.5 text-sm">
+                <dt className="text-muted-foreground">{EDI_LABELS[key]}</dt>
+                <dd className="font-mono tabular-nums">{scenario.edi.breakdown[key]}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ComponentBreakdown({ components }: { components: GHIComponent[] }) {
+  return (
+    <div className="rounded-xl border border-border bg-card p-4 space-y-3">
+      <h3 className="text-sm font-semibold">Components</h3>
+      {components
+        .filter((c) => c.weight > 0)
+        .map((c) => (
+          <div key={c.name} className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">
+                {c.name} · {Math.round(c.weight * 100)}%
+              </span>
+              <span className="font-mono tabular-nums">{c.value}</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-muted/40 overflow-hidden">
+              <div className="h-full rounded-full bg-primary" style={{ width: `${c.value}%` }} />
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,551 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Landmark, Link2, Plus, Undo2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useTreasuryScenario } from '@/hooks/queries';
+import { posthog } from '@/lib/posthog';
+import {
+  decodeScenario,
+  defaultScenario,
+  encodeScenario,
+  type RunwayBaseline,
+  type ScenarioResult,
+  type TreasuryScenario,
+} from '@/lib/treasuryScenarios';
+
+interface ScenarioResponse {
+  baseline: RunwayBaseline;
+  scenario: TreasuryScenario;
+  result: ScenarioResult;
+}
+
+const DEBOUNCE_MS = 400;
+const CHART_W = 560;
+const CHART_H = 160;
+
+function initialScenario(token: string | null): TreasuryScenario {
+  if (!token) return defaultScenario();
+  try {
+    return decodeScenario(token);
+  } catch {
+    return defaultScenario();
+  }
+}
+
+function formatAdaShort(ada: number): string {
+  if (ada >= 1_000_000_000) return `₳${(ada / 1_000_000_000).toFixed(2)}B`;
+  if (ada >= 1_000_000) return `₳${(ada / 1_000_000).toFixed(1)}M`;
+  if (ada >= 1_000) return `₳${Math.round(ada / 1_000)}K`;
+  return `₳${Math.round(ada)}`;
+}
+
+function monthsLabel(months: number | null, horizonEpochs: number): string {
+  return months != null ? `${months}mo` : `${Math.round((horizonEpochs * 5) / 30.44)}+mo`;
+}
+
+function numberOr<T>(value: string, fallback: T): number | T {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+export function TreasuryScenarioBuilder() {
+  const searchParams = useSearchParams();
+  const [scenario, setScenario] = useState<TreasuryScenario>(() =>
+    initialScenario(searchParams.get('s')),
+  );
+  const [debounced, setDebounced] = useState(scenario);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(scenario), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [scenario]);
+
+  const token = useMemo(() => encodeScenario(debounced), [debounced]);
+  const isDefault = token === encodeScenario(defaultScenario());
+  const {
+    data: raw,
+    isLoading,
+    isError,
+    isFetching,
+  } = useTreasuryScenario(isDefault ? null : token);
+  const data = raw as ScenarioResponse | undefined;
+
+  // Keep the address bar shareable without re-rendering the force-dynamic page
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (isDefault) params.delete('s');
+    else params.set('s', token);
+    const qs = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${qs ? `?${qs}` : ''}`);
+  }, [token, isDefault]);
+
+  if (isLoading && !data) return <Skeleton className="h-96 w-full" />;
+  if (!data) {
+    return (
+      <div className="rounded-xl border border-border bg-card p-6 text-sm text-muted-foreground">
+        The treasury scenario builder is unavailable right now.
+      </div>
+    );
+  }
+
+  const { baseline, result } = data;
+  const update = (patch: Partial<TreasuryScenario>) =>
+    setScenario((prev) => ({ ...prev, ...patch }));
+
+  const toggleProposal = (key: string) => {
+    const selected = scenario.proposals.includes(key);
+    update({
+      proposals: selected
+        ? scenario.proposals.filter((k) => k !== key)
+        : [...scenario.proposals, key],
+    });
+    posthog.capture('treasury_scenario_proposal_toggled', { selected: !selected });
+  };
+
+  const addUsdBudget = () => {
+    const spot = baseline.adaUsd ?? 0.5;
+    update({
+      usdBudgets: [
+        ...scenario.usdBudgets,
+        { label: 'Budget', usdPerEpoch: 100_000, fromEpoch: baseline.epoch + 1, untilEpoch: null },
+      ],
+      price: scenario.price ?? {
+        start: baseline.adaUsd == null ? spot : null,
+        low: Math.round(spot * 50) / 100,
+        high: Math.round(spot * 200) / 100,
+        volatility: 0.7,
+      },
+    });
+  };
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}/pulse?tab=sandbox&s=${encodeScenario(scenario)}`;
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+    posthog.capture('treasury_scenario_shared', {
+      proposals: scenario.proposals.length,
+      burn_changes: scenario.burnChanges.length,
+      usd_budgets: scenario.usdBudgets.length,
+    });
+  };
+
+  const handleReset = () => {
+    setScenario(defaultScenario());
+    posthog.capture('treasury_scenario_reset');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            <Landmark className="h-4 w-4 text-primary" /> Treasury runway scenarios
+          </h2>
+          <p className="text-sm text-muted-foreground mt-0.5">
+            Choose which withdrawals pass, change spending and income assumptions, and see how long
+            the treasury lasts across {result.runs} simulated futures.
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button variant="outline" size="sm" onClick={handleReset}>
+            <Undo2 className="h-3.5 w-3.5 mr-1" /> Reset
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleShare}>
+            <Link2 className="h-3.5 w-3.5 mr-1" /> {copied ? 'Copied' : 'Share'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_1fr]">
+        {/* Controls */}
+        <div className="rounded-xl border border-border bg-card p-4 space-y-5 text-sm">
+          <label className="block space-y-1">
+            <span className="font-medium">Scenario name</span>
+            <input
+              value={scenario.name}
+              maxLength={80}
+              onChange={(e) => update({ name: e.target.value })}
+              className="w-full rounded-md border border-border bg-background px-2 py-1"
+            />
+          </label>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">Pending withdrawals that pass</span>
+              <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                Paid in epoch
+                <input
+                  type="number"
+                  min={baseline.epoch + 1}
+                  placeholder={String(baseline.epoch + 1)}
+                  value={scenario.enactEpoch ?? ''}
+                  onChange={(e) => update({ enactEpoch: numberOr(e.target.value, null) })}
+                  className="w-20 rounded-md border border-border bg-background px-1.5 py-0.5 font-mono"
+                />
+              </label>
+            </div>
+            {baseline.pending.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No treasury withdrawals are pending.</p>
+            ) : (
+              <ul className="max-h-48 overflow-y-auto divide-y divide-border">
+                {baseline.pending.map((p) => (
+                  <li key={p.key}>
+                    <label className="flex items-center gap-2 py-1.5 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={scenario.proposals.includes(p.key)}
+                        onChange={() => toggleProposal(p.key)}
+                        className="accent-primary"
+                      />
+                      <span className="flex-1 truncate">{p.title}</span>
+                      <span className="font-mono tabular-nums text-xs">
+                        {formatAdaShort(p.withdrawalAda)}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">Burn rate changes</span>
+              <button
+                onClick={() =>
+                  update({
+                    burnChanges: [
+                      ...scenario.burnChanges,
+                      { fromEpoch: baseline.epoch + 10, multiplier: 1.5 },
+                    ],
+                  })
+                }
+                disabled={scenario.burnChanges.length >= 12}
+                className="flex items-center gap-1 text-xs text-primary hover:underline disabled:opacity-50"
+              >
+                <Plus className="h-3 w-3" /> Add
+              </button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Today: {formatAdaShort(baseline.burnRatePerEpoch)} per epoch
+            </p>
+            {scenario.burnChanges.map((c, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">From epoch</span>
+                <input
+                  type="number"
+                  value={c.fromEpoch}
+                  onChange={(e) =>
+                    update({
+                      burnChanges: scenario.burnChanges.map((b, j) =>
+                        j === i ? { ...b, fromEpoch: numberOr(e.target.value, b.fromEpoch) } : b,
+                      ),
+                    })
+                  }
+                  className="w-20 rounded-md border border-border bg-background px-1.5 py-0.5 font-mono"
+                />
+                <input
+                  type="range"
+                  min={0}
+                  max={3}
+                  step={0.05}
+                  value={c.multiplier}
+                  onChange={(e) =>
+                    update({
+                      burnChanges: scenario.burnChanges.map((b, j) =>
+                        j === i ? { ...b, multiplier: parseFloat(e.target.value) } : b,
+                      ),
+                    })
+                  }
+                  className="flex-1 accent-primary"
+                  aria-label="Burn rate multiplier"
+                />
+                <span className="w-12 text-right font-mono tabular-nums">
+                  {c.multiplier.toFixed(2)}×
+                </span>
+                <button
+                  onClick={() =>
+                    update({ burnChanges: scenario.burnChanges.filter((_, j) => j !== i) })
+                  }
+                  aria-label="Remove burn change"
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <span className="font-medium">Income</span>
+            <div className="flex gap-1">
+              {(
+                [
+                  ['reserve-decay', 'Reserves shrink'],
+                  ['constant', 'Held at today'],
+                ] as const
+              ).map(([model, label]) => (
+                <button
+                  key={model}
+                  onClick={() => update({ incomeModel: model })}
+                  className={cn(
+                    'rounded-md border px-2 py-1 text-xs',
+                    scenario.incomeModel === model
+                      ? 'border-primary text-primary'
+                      : 'border-border text-muted-foreground',
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Today: {formatAdaShort(baseline.incomePerEpoch)} per epoch, about{' '}
+              {Math.round((1 - baseline.feeShare) * 100)}% from reserves
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">USD-denominated budgets</span>
+              <button
+                onClick={addUsdBudget}
+                disabled={scenario.usdBudgets.length >= 12}
+                className="flex items-center gap-1 text-xs text-primary hover:underline disabled:opacity-50"
+              >
+                <Plus className="h-3 w-3" /> Add
+              </button>
+            </div>
+            {scenario.usdBudgets.map((b, i) => {
+              const patchBudget = (patch: Partial<typeof b>) =>
+                update({
+                  usdBudgets: scenario.usdBudgets.map((u, j) => (j === i ? { ...u, ...patch } : u)),
+                });
+              return (
+                <div key={i} className="flex flex-wrap items-center gap-2">
+                  <input
+                    value={b.label}
+                    maxLength={60}
+                    onChange={(e) => patchBudget({ label: e.target.value })}
+                    className="w-28 rounded-md border border-border bg-background px-1.5 py-0.5"
+                    aria-label="Budget label"
+                  />
+                  <span className="text-xs text-muted-foreground">$</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={b.usdPerEpoch}
+                    onChange={(e) =>
+                      patchBudget({ usdPerEpoch: numberOr(e.target.value, b.usdPerEpoch) })
+                    }
+                    className="w-24 rounded-md border border-border bg-background px-1.5 py-0.5 font-mono"
+                    aria-label="USD per epoch"
+                  />
+                  <span className="text-xs text-muted-foreground">/epoch, epochs</span>
+                  <input
+                    type="number"
+                    value={b.fromEpoch}
+                    onChange={(e) =>
+                      patchBudget({ fromEpoch: numberOr(e.target.value, b.fromEpoch) })
+                    }
+                    className="w-16 rounded-md border border-border bg-background px-1.5 py-0.5 font-mono"
+                    aria-label="First epoch"
+                  />
+                  <span className="text-xs text-muted-foreground">–</span>
+                  <input
+                    type="number"
+                    placeholder="∞"
+                    value={b.untilEpoch ?? ''}
+                    onChange={(e) => patchBudget({ untilEpoch: numberOr(e.target.value, null) })}
+                    className="w-16 rounded-md border border-border bg-background px-1.5 py-0.5 font-mono"
+                    aria-label="Last epoch"
+                  />
+                  <button
+                    onClick={() =>
+                      update({ usdBudgets: scenario.usdBudgets.filter((_, j) => j !== i) })
+                    }
+                    aria-label="Remove budget"
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              );
+            })}
+            {scenario.price && scenario.usdBudgets.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                ADA price
+                <input
+                  type="number"
+                  step={0.01}
+                  placeholder={baseline.adaUsd != null ? String(baseline.adaUsd) : 'start'}
+                  value={scenario.price.start ?? ''}
+                  onChange={(e) =>
+                    update({
+                      price: { ...scenario.price!, start: numberOr(e.target.value, null) },
+                    })
+                  }
+                  className="w-16 rounded-md border border-border bg-background px-1.5 py-0.5 font-mono"
+                  aria-label="Starting ADA price"
+                />
+                held between $
+                <input
+                  type="number"
+                  step={0.01}
+                  value={scenario.price.low}
+                  onChange={(e) =>
+                    update({
+                      price: {
+                        ...scenario.price!,
+                        low: numberOr(e.target.value, scenario.price!.low),
+                      },
+                    })
+                  }
+                  className="w-16 rounded-md border border-border bg-background px-1.5 py-0.5 font-mono"
+                  aria-label="Lowest ADA price"
+                />
+                and $
+                <input
+                  type="number"
+                  step={0.01}
+                  value={scenario.price.high}
+                  onChange={(e) =>
+                    update({
+                      price: {
+                        ...scenario.price!,
+                        high: numberOr(e.target.value, scenario.price!.high),
+                      },
+                    })
+                  }
+                  className="w-16 rounded-md border border-border bg-background px-1.5 py-0.5 font-mono"
+                  aria-label="Highest ADA price"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Outcome */}
+        <div className={cn('space-y-4 transition-opacity', isFetching && 'opacity-70')}>
+          {isError && (
+            <div className="rounded-xl border border-border bg-muted/10 p-3 text-xs text-muted-foreground">
+              This scenario can&apos;t be simulated as entered — showing the last valid result.
+            </div>
+          )}
+          <div className="rounded-xl border border-border bg-card p-4 grid grid-cols-3 gap-4">
+            <div>
+              <p className="text-xs text-muted-foreground font-medium uppercase tracking-wider">
+                Runway
+              </p>
+              <p className="font-display text-3xl font-bold tabular-nums">
+                {monthsLabel(result.runwayMonths.p50, result.horizonEpochs)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {monthsLabel(result.runwayMonths.p10, result.horizonEpochs)} –{' '}
+                {monthsLabel(result.runwayMonths.p90, result.horizonEpochs)} in 80% of runs
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground font-medium uppercase tracking-wider">
+                Depletion epoch
+              </p>
+              <p className="font-display text-3xl font-bold tabular-nums">
+                {result.depletionEpoch.p50 ?? '—'}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {result.depletionEpoch.p10 ?? '—'} – {result.depletionEpoch.p90 ?? 'beyond'}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground font-medium uppercase tracking-wider">
+                Depletion risk
+              </p>
+              <p
+                className={cn(
+                  'font-display text-3xl font-bold tabular-nums',
+                  result.depletionProbability >= 0.5 && 'text-rose-500',
+                )}
+              >
+                {Math.round(result.depletionProbability * 100)}%
+              </p>
+              <p className="text-xs text-muted-foreground">
+                within {Math.round((result.horizonEpochs * 5) / 365)} years
+              </p>
+            </div>
+          </div>
+
+          <BalanceBands result={result} />
+
+          <dl className="rounded-xl border border-border bg-card p-4 divide-y divide-border text-sm">
+            <div className="flex justify-between py-1.5">
+              <dt className="text-muted-foreground">Balance today</dt>
+              <dd className="font-mono tabular-nums">{formatAdaShort(baseline.balanceAda)}</dd>
+            </div>
+            <div className="flex justify-between py-1.5">
+              <dt className="text-muted-foreground">Selected withdrawals</dt>
+              <dd className="font-mono tabular-nums">
+                {formatAdaShort(result.selectedWithdrawalAda)}
+              </dd>
+            </div>
+            {result.unknownProposals.length > 0 && (
+              <div className="flex justify-between py-1.5">
+                <dt className="text-muted-foreground">No longer pending</dt>
+                <dd className="font-mono tabular-nums">{result.unknownProposals.length}</dd>
+              </div>
+            )}
+          </dl>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function BalanceBands({ result }: { result: ScenarioResult }) {
+  const { bands } = result;
+  if (bands.length < 2) return null;
+
+  const first = bands[0].epoch;
+  const last = bands[bands.length - 1].epoch;
+  const max = Math.max(...bands.map((b) => b.p90), 1);
+  const x = (epoch: number) => ((epoch - first) / Math.max(last - first, 1)) * CHART_W;
+  const y = (ada: number) => CHART_H - (ada / max) * CHART_H;
+
+  const upper = bands.map((b) => `${x(b.epoch)},${y(b.p90)}`);
+  const lower = bands.map((b) => `${x(b.epoch)},${y(b.p10)}`).reverse();
+  const median = bands.map((b) => `${x(b.epoch)},${y(b.p50)}`).join(' ');
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-4 space-y-2">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Treasury balance (10th–90th percentile)</span>
+        <span>Peak {formatAdaShort(max)}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${CHART_W} ${CHART_H}`}
+        className="w-full h-40"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Projected treasury balance range"
+      >
+        <polygon points={[...upper, ...lower].join(' ')} className="fill-primary/20" />
+        <polyline
+          points={median}
+          className="stroke-primary"
+          fill="none"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground font-mono">
+        <span>Epoch {first}</span>
+        <span>Epoch {last}</span>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { History, Users } from 'lucide-react';
 import { useAssemblyHistory, type Assembly } from '@/hooks/useEngagement';
+import { formatAda } from '@/lib/treasury';
 
 export function AssemblyHistory() {
   const { data: assemblies, isLoading } = useAssemblyHistory();
@@ -58,6 +59,13 @@ function PastAssemblyCard({ assembly }: { assembly: Assembly }) {
                   <span className={i === 0 ? 'font-medium' : ''}>{opt.label}</span>
                   <span className="tabular-nums text-muted-foreground">
                     {opt.count} ({opt.percentage}%)
+                    {opt.stakeLovelace !== undefined && (
+                      <>
+                        {' '}
+                        &middot; ₳{formatAda(opt.stakeLovelace / 1_000_000)} ({opt.stakePercentage}
+                        %)
+                      </>
+                    )}
                   </span>
                 </div>
                 <div className="h-1.5 rounded-full bg-muted overflow-hidden">
@@ -76,6 +84,13 @@ function PastAssemblyCard({ assembly }: { assembly: Assembly }) {
         <p className="text-[11px] text-muted-foreground flex items-center gap-1 pt-1">
           <Users className="h-3 w-3" />
           {assembly.totalVotes} citizen{assembly.totalVotes !== 1 ? 's' : ''} participated
+          {assembly.stakeWeighted && (
+            <>
+              {' '}
+              &middot; ₳{formatAda(assembly.stakeWeighted.totalStakeLovelace / 1_000_000)} at epoch{' '}
+              {assembly.stakeWeighted.snapshotEpoch}
+            </>
+          )}
         </p>
       </CardContent>
     </Card>
@@ -10,6 +10,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Vote, Clock, CheckCircle2, Wallet, Users } from 'lucide-react';
 import { hapticLight } from '@/lib/haptics';
 import { useActiveAssembly } from '@/hooks/useEngagement';
+import { formatAda } from '@/lib/treasury';
 
 export function CitizenAssembly() {
   const { connected, isAuthenticated, authenticate } = useWallet();
@@ -140,6 +141,13 @@ export function CitizenAssembly() {
                     </span>
                     <span className="tabular-nums text-muted-foreground">
                       {opt.count} ({opt.percentage}%)
+                      {opt.stakeLovelace !== undefined && assembly.stakeWeighted && (
+                        <>
+                          {' '}
+                          &middot; ₳{formatAda(opt.stakeLovelace / 1_000_000)} (
+                          {opt.stakePercentage}%)
+                        </>
+                      )}
                     </span>
                   </div>
                   <div className="h-2.5 rounded-full bg-muted overflow-hidden">
@@ -156,6 +164,9 @@ export function CitizenAssembly() {
             <p className="text-xs text-muted-foreground flex items-center gap-1">
               <Users className="h-3 w-3" />
               {assembly.totalVotes} citizen{assembly.totalVotes !== 1 ? 's' : ''} voted
+              {assembly.stakeWeighted && assembly.stakeWeighted.totalStakeLovelace > 0 && (
+                <> &middot; ₳{formatAda(assembly.stakeWeighted.totalStakeLovelace / 1_000_000)}</>
+              )}
             </p>
           </div>
         )}
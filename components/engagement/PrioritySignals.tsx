@@ -128,6 +128,9 @@ export function PrioritySignals({ epoch }: PrioritySignalsProps) {
 
   const rankingData = rankings?.rankings ?? [];
   const totalVoters = rankings?.totalVoters ?? 0;
+  const stakeRanks = new Map(
+    (rankings?.stakeWeightedRankings ?? []).map((r) => [r.priority, r] as const),
+  );
 
   return (
     <div className="space-y-6">
@@ -171,6 +174,9 @@ export function PrioritySignals({ epoch }: PrioritySignalsProps) {
                         </span>
                         <span className="text-xs text-muted-foreground tabular-nums">
                           {item.firstChoiceCount} first-choice
+                          {stakeRanks.get(item.priority) && (
+                            <> &middot; #{stakeRanks.get(item.priority)!.rank} by stake</>
+                          )}
                         </span>
                       </div>
                       <div className="h-2 rounded-full bg-muted overflow-hidden">
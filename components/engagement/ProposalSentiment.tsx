@@ -159,6 +159,7 @@ export function ProposalSentiment({ txHash, proposalIndex, isOpen }: ProposalSen
             community={community}
             delegators={ownDRepId ? (results?.delegators ?? null) : null}
             stakeWeighted={ownDRepId ? (results?.stakeWeighted ?? null) : null}
+            communityStake={results?.communityStakeWeighted ?? null}
             userSentiment={hasVoted && !changingVote ? userSentiment : null}
             isOpen={isOpen}
             onChangeVote={hasVoted && isOpen ? () => setChangingVote(true) : undefined}
@@ -272,6 +273,7 @@ function ResultsView({
   community,
   delegators,
   stakeWeighted,
+  communityStake,
   userSentiment,
   isOpen,
   onChangeVote,
@@ -279,6 +281,7 @@ function ResultsView({
   community: SentimentResults['community'];
   delegators: SentimentResults['delegators'] | null;
   stakeWeighted: SentimentResults['stakeWeighted'] | null;
+  communityStake: SentimentResults['communityStakeWeighted'] | null;
   userSentiment: SentimentChoice | null;
   isOpen: boolean;
   onChangeVote?: () => void;
@@ -356,6 +359,13 @@ function ResultsView({
 
       <p className="text-xs text-muted-foreground">
         {total} citizen{total !== 1 ? 's' : ''} shared their opinion
+        {communityStake && communityStake.total > 0 && (
+          <span>
+            {' '}
+            &middot; by stake: {Math.round((communityStake.support / communityStake.total) * 100)}%
+            support, {Math.round((communityStake.oppose / communityStake.total) * 100)}% oppose
+          </span>
+        )}
       </p>
 
       {isOpen && userSentiment && onChangeVote && (
@@ -0,0 +1,88 @@
+'use client';
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useSyncExternalStore,
+  type ReactNode,
+} from 'react';
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  getTranslator,
+  isLocale,
+  negotiateLocale,
+  type Locale,
+  type Translator,
+} from '@/lib/i18n';
+import { getStoredSession } from '@/lib/supabaseAuth';
+
+export interface LocaleState {
+  locale: Locale;
+  /** Persists to the cookie, and to users.locale when signed in */
+  setLocale: (locale: Locale) => Promise<void>;
+  t: Translator;
+}
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Saved choice first, then the browser's languages */
+function readLocale(): Locale {
+  const saved = document.cookie
+    .split('; ')
+    .find((c) => c.startsWith(`${LOCALE_COOKIE}=`))
+    ?.split('=')[1];
+  if (isLocale(saved)) return saved;
+  return negotiateLocale(navigator.languages?.join(','));
+}
+
+const LocaleContext = createContext<LocaleState>({
+  locale: DEFAULT_LOCALE,
+  setLocale: async () => {},
+  t: getTranslator(DEFAULT_LOCALE),
+});
+
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  // Server render is always English; the client switches after hydration
+  const locale = useSyncExternalStore(subscribe, readLocale, () => DEFAULT_LOCALE);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback(async (next: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`;
+    listeners.forEach((l) => l());
+
+    const session = getStoredSession();
+    if (!session) return;
+    await fetch('/api/user', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session}` },
+      body: JSON.stringify({ locale: next }),
+    });
+  }, []);
+
+  const value = useMemo(
+    () => ({ locale, setLocale, t: getTranslator(locale) }),
+    [locale, setLocale],
+  );
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
+
+export function useLocale(): LocaleState {
+  return useContext(LocaleContext);
+}
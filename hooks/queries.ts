@@ -1,6 +1,7 @@
 'use client';
 
-import { useQuery } from '@tanstack/react-query';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import type { SigningSession } from '@/lib/multisig/session';
 
 async function fetchJson<T>(url: string): Promise<T> {
   const res = await fetch(url);
@@ -40,6 +41,27 @@ export function useGovernanceHealthIndex(epochs = 20) {
   });
 }
 
+export function useGhiSandbox(inputs: Record<string, number | undefined>) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(inputs)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const qs = params.toString();
+  return useQuery({
+    queryKey: ['ghi-sandbox', qs],
+    queryFn: () => fetchJson(`/api/governance/health-index/sandbox${qs ? `?${qs}` : ''}`),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useTreasuryScenario(token: string | null) {
+  return useQuery({
+    queryKey: ['treasury-scenario', token],
+    queryFn: () => fetchJson(`/api/treasury/scenario${token ? `?s=${token}` : ''}`),
+    placeholderData: keepPreviousData,
+  });
+}
+
 export function useGovernanceTimeline() {
   return useQuery({
     queryKey: ['governance-timeline'],
@@ -91,6 +113,14 @@ export function useDRepVotes(drepId: string | null | undefined) {
   });
 }
 
+export function useDRepOriginalityFlags(drepId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['drep-originality', drepId],
+    queryFn: () => fetchJson(`/api/drep/${drepId}/originality`),
+    enabled: !!drepId,
+  });
+}
+
 export function useDRepTrajectory(drepId: string | null | undefined) {
   return useQuery({
     queryKey: ['drep-trajectory', drepId],
@@ -505,3 +535,47 @@ export function useDRepOutcomeSummary(drepId: string | null | undefined) {
     staleTime: 5 * 60_000,
   });
 }
+
+export interface MultisigScriptInfo {
+  scriptHash: string;
+  scriptCbor: string | null;
+  rule?: string;
+  keyHashes?: string[];
+}
+
+export function useMultisigScript(drepId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['multisig-script', drepId],
+    queryFn: () =>
+      fetchJson<MultisigScriptInfo>(`/api/multisig/script?drepId=${encodeURIComponent(drepId!)}`),
+    enabled: !!drepId,
+    staleTime: 60 * 60_000,
+  });
+}
+
+export function useMultisigSessions(drepId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['multisig-sessions', drepId],
+    queryFn: () =>
+      fetchJson<{ sessions: SigningSession[] }>(
+        `/api/multisig/sessions?drepId=${encodeURIComponent(drepId!)}`,
+      ),
+    enabled: !!drepId,
+  });
+}
+
+/** Polls while co-signers are still signing so progress shows up live */
+export function useMultisigSession(sessionId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['multisig-session', sessionId],
+    queryFn: () =>
+      fetchJson<{ session: SigningSession }>(
+        `/api/multisig/sessions/${encodeURIComponent(sessionId!)}`,
+      ),
+    enabled: !!sessionId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.session.status;
+      return status === 'collecting' || status === 'submitting' ? 15_000 : false;
+    },
+  });
+}
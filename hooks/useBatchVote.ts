@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useWallet } from '@/utils/wallet';
+import { checkGovernanceSupport } from '@/lib/delegation';
+import { getStoredSession } from '@/lib/supabaseAuth';
+import { usePublishRationale } from '@/hooks/usePublishRationale';
+import {
+  castVotes,
+  waitForTxConfirmation,
+  VoteError,
+  type BatchVoteItem,
+  type VoteChoice,
+  type VoteTarget,
+} from '@/lib/voting';
+
+export interface BatchVoteDraft {
+  target: VoteTarget;
+  vote: VoteChoice;
+  /** Published as a CIP-100 rationale and anchored to this vote */
+  rationaleText?: string;
+}
+
+export interface BatchVoteOutcome {
+  target: VoteTarget;
+  vote: VoteChoice;
+  anchorUrl: string | null;
+  /** Set when the rationale could not be published and the vote went without it */
+  rationaleError?: string;
+}
+
+export type BatchVotePhase =
+  | { status: 'idle' }
+  | { status: 'publishing'; done: number; total: number }
+  | { status: 'building' }
+  | { status: 'signing' }
+  | { status: 'submitting' }
+  | {
+      status: 'success';
+      txHash: string;
+      outcomes: BatchVoteOutcome[];
+      confirmed: boolean;
+      recorded: boolean;
+    }
+  | { status: 'error'; code: string; message: string; hint: string };
+
+/**
+ * Cast many DRep votes in one transaction: publish each rationale, build a
+ * single transaction with every voting procedure, then record the result per
+ * proposal so the dashboard reflects it before the vote sync does.
+ */
+export function useBatchVote(drepId: string | null | undefined) {
+  const { wallet, walletName, connected } = useWallet();
+  const queryClient = useQueryClient();
+  const rationale = usePublishRationale();
+  const [phase, setPhase] = useState<BatchVotePhase>({ status: 'idle' });
+  const { publish } = rationale;
+
+  const submitBatch = useCallback(
+    async (drafts: BatchVoteDraft[]) => {
+      if (!wallet || !connected || !drepId) {
+        setPhase({
+          status: 'error',
+          code: !drepId ? 'no_drep_credential' : 'no_wallet',
+          message: !drepId ? 'Not registered as a DRep' : 'Wallet not connected',
+          hint: 'Connect your DRep wallet to vote.',
+        });
+        return;
+      }
+      if (walletName) {
+        const govCheck = checkGovernanceSupport(walletName);
+        if (!govCheck.supported) {
+          setPhase({
+            status: 'error',
+            code: 'wallet_unsupported',
+            message: 'Wallet does not support governance voting.',
+            hint: govCheck.hint || 'Try Eternl or Lace.',
+          });
+          return;
+        }
+      }
+
+      // Rationales first: each anchor must exist before the transaction is built
+      const withRationale = drafts.filter((d) => d.rationaleText?.trim());
+      const outcomes: BatchVoteOutcome[] = [];
+      const items: BatchVoteItem[] = [];
+      let done = 0;
+      for (const draft of drafts) {
+        const outcome: BatchVoteOutcome = {
+          target: draft.target,
+          vote: draft.vote,
+          anchorUrl: null,
+        };
+        const item: BatchVoteItem = { target: draft.target, vote: draft.vote };
+        if (draft.rationaleText?.trim()) {
+          setPhase({ status: 'publishing', done, total: withRationale.length });
+          const result = await publish({
+            drepId,
+            proposalTxHash: draft.target.txHash,
+            proposalIndex: draft.target.txIndex,
+            rationaleText: draft.rationaleText,
+          });
+          done++;
+          if (!result.ok && result.reason === 'declined') {
+            setPhase({
+              status: 'error',
+              code: 'user_rejected',
+              message: 'Rationale signature was declined.',
+              hint: 'Sign each rationale, or turn off rationale signing, then try again.',
+            });
+            return;
+          }
+          if (result.ok) {
+            item.anchorUrl = result.rationale.anchorUrl;
+            item.anchorHash = result.rationale.anchorHash;
+            outcome.anchorUrl = result.rationale.anchorUrl;
+          } else {
+            outcome.rationaleError = 'Rationale could not be published';
+          }
+        }
+        items.push(item);
+        outcomes.push(outcome);
+      }
+
+      try {
+        const result = await castVotes(wallet, items, 'drep', drepId, {
+          onPhase: (p) => setPhase({ status: p }),
+        });
+
+        setPhase({
+          status: 'success',
+          txHash: result.txHash,
+          outcomes,
+          confirmed: false,
+          recorded: false,
+        });
+
+        import('@/lib/posthog')
+          .then(({ posthog }) => {
+            posthog.capture('governance_batch_vote_cast', {
+              vote_count: items.length,
+              with_rationale: items.filter((i) => i.anchorUrl).length,
+              tx_hash: result.txHash,
+            });
+          })
+          .catch(() => {});
+
+        const token = getStoredSession();
+        fetch(`/api/drep/${encodeURIComponent(drepId)}/batch-votes`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token && { Authorization: `Bearer ${token}` }),
+          },
+          body: JSON.stringify({
+            txHash: result.txHash,
+            votes: items.map((i) => ({
+              proposalTxHash: i.target.txHash,
+              proposalIndex: i.target.txIndex,
+              vote: i.vote,
+              anchorUrl: i.anchorUrl,
+              anchorHash: i.anchorHash,
+            })),
+          }),
+        })
+          .then((res) => {
+            if (!res.ok) return;
+            setPhase((prev) =>
+              prev.status === 'success' && prev.txHash === result.txHash
+                ? { ...prev, recorded: true }
+                : prev,
+            );
+            queryClient.invalidateQueries({ queryKey: ['dashboard-urgent', drepId] });
+            queryClient.invalidateQueries({ queryKey: ['dashboard-inbox', drepId] });
+          })
+          .catch(() => {});
+
+        waitForTxConfirmation(result.txHash, {
+          maxAttempts: 30,
+          intervalMs: 10_000,
+          onConfirmed: () => {
+            setPhase((prev) =>
+              prev.status === 'success' && prev.txHash === result.txHash
+                ? { ...prev, confirmed: true }
+                : prev,
+            );
+          },
+        }).catch(() => {});
+      } catch (err) {
+        if (err instanceof VoteError) {
+          setPhase({ status: 'error', code: err.code, message: err.message, hint: err.hint });
+        } else {
+          setPhase({
+            status: 'error',
+            code: 'unknown',
+            message: String(err),
+            hint: 'Something went wrong. Please try again.',
+          });
+        }
+      }
+    },
+    [wallet, walletName, connected, drepId, publish, queryClient],
+  );
+
+  const reset = useCallback(() => setPhase({ status: 'idle' }), []);
+
+  const isProcessing =
+    phase.status === 'publishing' ||
+    phase.status === 'building' ||
+    phase.status === 'signing' ||
+    phase.status === 'submitting';
+
+  return {
+    phase,
+    submitBatch,
+    reset,
+    isProcessing,
+    canVote: connected && !!wallet && !!drepId && !isProcessing,
+    rationaleOptions: rationale.options,
+    setRationaleOptions: rationale.setOptions,
+    canSignRationales: rationale.canSign,
+  };
+}
@@ -21,6 +21,15 @@ export interface SentimentResults {
   community: { support: number; oppose: number; unsure: number; total: number };
   delegators?: { support: number; oppose: number; unsure: number; total: number };
   stakeWeighted?: { support: number; oppose: number; unsure: number; total: number };
+  /** Lovelace per sentiment across all voters, one vote per stake key */
+  communityStakeWeighted?: {
+    support: number;
+    oppose: number;
+    unsure: number;
+    total: number;
+    unweightedVoters: number;
+    snapshotEpoch: number;
+  };
   userSentiment: 'support' | 'oppose' | 'unsure' | null;
   hasVoted: boolean;
 }
@@ -44,6 +53,10 @@ export function useSentimentResults(txHash: string, proposalIndex: number, drepI
 export interface ConcernFlagResults {
   flags: Record<string, number>;
   total: number;
+  /** Lovelace behind each flag type */
+  stakeWeighted?: Record<string, number>;
+  flaggers?: number;
+  flaggerStakeLovelace?: number;
   userFlags: string[];
 }
 
@@ -83,6 +96,18 @@ export function useImpactTags(txHash: string, proposalIndex: number) {
 export interface PriorityRankings {
   rankings: { priority: string; score: number; rank: number; firstChoiceCount: number }[];
   totalVoters: number;
+  /** Borda points × ADA; null for epochs ranked before stake snapshots */
+  stakeWeightedRankings?:
+    | {
+        priority: string;
+        score: number;
+        share: number;
+        rank: number;
+        firstChoiceLovelace: number;
+      }[]
+    | null;
+  totalStakeLovelace?: number | null;
+  unweightedVoters?: number | null;
   epoch: number;
 }
 
@@ -121,8 +146,24 @@ export interface Assembly {
   epoch: number;
   opensAt: string;
   closesAt: string;
-  results: { key: string; label: string; count: number; percentage: number }[] | null;
+  results: AssemblyOptionResult[] | null;
+  /** Unique stake keys (several wallets on one key count once) */
   totalVotes: number;
+  /** null for assemblies closed before stake snapshots existed */
+  stakeWeighted: {
+    totalStakeLovelace: number;
+    unweightedVoters: number;
+    snapshotEpoch: number;
+  } | null;
+}
+
+export interface AssemblyOptionResult {
+  key: string;
+  label: string;
+  count: number;
+  percentage: number;
+  stakeLovelace?: number;
+  stakePercentage?: number;
 }
 
 export interface AssemblyWithUserVote extends Assembly {
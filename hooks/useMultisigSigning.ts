@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useWallet } from '@/utils/wallet';
+import { getStoredSession } from '@/lib/supabaseAuth';
+import { buildMultisigDRepUpdate, buildMultisigVote } from '@/lib/multisig/build';
+import type { SigningSession } from '@/lib/multisig/session';
+import type { VoteChoice, VoteTarget } from '@/lib/voting';
+
+export type MultisigPhase =
+  | { status: 'idle' }
+  | { status: 'building' }
+  | { status: 'signing' }
+  | { status: 'saving' }
+  | { status: 'success'; session: SigningSession }
+  | { status: 'error'; message: string };
+
+export type StartSessionInput = { drepId: string; scriptCbor: string } & (
+  | { kind: 'vote'; target: VoteTarget; vote: VoteChoice; anchorUrl?: string; anchorHash?: string }
+  | { kind: 'drep_update'; anchorUrl: string; anchorHash: string }
+);
+
+function errorMessage(err: unknown): string {
+  const msg = err instanceof Error ? err.message : String(err);
+  const lower = msg.toLowerCase();
+  if (lower.includes('reject') || lower.includes('cancel') || lower.includes('declined')) {
+    return 'Signing was declined in the wallet.';
+  }
+  return msg || 'Something went wrong. Please try again.';
+}
+
+async function postJson(url: string, body: unknown, auth = false): Promise<SigningSession> {
+  const token = auth ? getStoredSession() : null;
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data.session as SigningSession;
+}
+
+/**
+ * Start and co-sign multisig DRep sessions with the connected wallet. Wallets
+ * sign with partialSign so they add witnesses for the keys they hold (script
+ * keys, fee inputs) without insisting on completing the transaction.
+ */
+export function useMultisigSigning() {
+  const { wallet, connected, address } = useWallet();
+  const queryClient = useQueryClient();
+  const [phase, setPhase] = useState<MultisigPhase>({ status: 'idle' });
+
+  const start = useCallback(
+    async (input: StartSessionInput): Promise<SigningSession | null> => {
+      if (!wallet || !connected) {
+        setPhase({ status: 'error', message: 'Connect the wallet that pays the fee first.' });
+        return null;
+      }
+      try {
+        setPhase({ status: 'building' });
+        const { unsignedTx } =
+          input.kind === 'vote'
+            ? await buildMultisigVote(
+                wallet,
+                input.drepId,
+                input.scriptCbor,
+                input.target,
+                input.vote,
+                input.anchorUrl && input.anchorHash
+                  ? { anchorUrl: input.anchorUrl, anchorHash: input.anchorHash }
+                  : undefined,
+              )
+            : await buildMultisigDRepUpdate(
+                wallet,
+                input.drepId,
+                input.scriptCbor,
+                input.anchorUrl,
+                input.anchorHash,
+              );
+
+        // The creator pays the fee, so their witness is needed regardless
+        setPhase({ status: 'signing' });
+        const witnesses = await wallet.signTx(unsignedTx, true);
+
+        setPhase({ status: 'saving' });
+        const session = await postJson(
+          '/api/multisig/sessions',
+          {
+            kind: input.kind,
+            drepId: input.drepId,
+            unsignedTx,
+            witnesses,
+            signerAddress: address ?? undefined,
+          },
+          true,
+        );
+        setPhase({ status: 'success', session });
+        queryClient.invalidateQueries({ queryKey: ['multisig-sessions', input.drepId] });
+        return session;
+      } catch (err) {
+        setPhase({ status: 'error', message: errorMessage(err) });
+        return null;
+      }
+    },
+    [wallet, connected, address, queryClient],
+  );
+
+  const sign = useCallback(
+    async (session: SigningSession): Promise<SigningSession | null> => {
+      if (!wallet || !connected) {
+        setPhase({ status: 'error', message: 'Connect a co-signer wallet first.' });
+        return null;
+      }
+      try {
+        setPhase({ status: 'signing' });
+        const witnesses = await wallet.signTx(session.unsignedTx, true);
+
+        setPhase({ status: 'saving' });
+        const updated = await postJson(`/api/multisig/sessions/${session.id}/witnesses`, {
+          witnesses,
+          signerAddress: address ?? undefined,
+        });
+        setPhase({ status: 'success', session: updated });
+        queryClient.setQueryData(['multisig-session', session.id], { session: updated });
+        return updated;
+      } catch (err) {
+        setPhase({ status: 'error', message: errorMessage(err) });
+        return null;
+      }
+    },
+    [wallet, connected, address, queryClient],
+  );
+
+  const retrySubmit = useCallback(
+    async (session: SigningSession): Promise<SigningSession | null> => {
+      try {
+        setPhase({ status: 'saving' });
+        const updated = await postJson(`/api/multisig/sessions/${session.id}/submit`, {});
+        setPhase({ status: 'success', session: updated });
+        queryClient.setQueryData(['multisig-session', session.id], { session: updated });
+        return updated;
+      } catch (err) {
+        setPhase({ status: 'error', message: errorMessage(err) });
+        return null;
+      }
+    },
+    [queryClient],
+  );
+
+  const reset = useCallback(() => setPhase({ status: 'idle' }), []);
+
+  const isProcessing =
+    phase.status === 'building' || phase.status === 'signing' || phase.status === 'saving';
+
+  return { phase, start, sign, retrySubmit, reset, isProcessing, canSign: connected && !!wallet };
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useWallet } from '@/utils/wallet';
+import { buildCip100Document, hashRationaleBody } from '@/lib/rationale';
+
+export interface RationalePublishOptions {
+  /** Witness the document with the connected wallet (CIP-100 author signature) */
+  sign: boolean;
+  /** Pin the document to IPFS and anchor the vote to ipfs:// */
+  ipfs: boolean;
+}
+
+export interface PublishedRationale {
+  anchorUrl: string;
+  anchorHash: string;
+  /** Our own mirror of the document, also valid for the same hash */
+  httpUrl: string;
+  ipfsCid: string | null;
+  signed: boolean;
+  /** Set when IPFS was requested but the document fell back to our URL */
+  ipfsError?: string;
+}
+
+export type PublishRationaleResult =
+  | { ok: true; rationale: PublishedRationale }
+  /** 'declined': the wallet refused to sign — the user should decide before voting */
+  | { ok: false; reason: 'declined' | 'failed' };
+
+interface PublishInput {
+  drepId: string;
+  proposalTxHash: string;
+  proposalIndex: number;
+  rationaleText: string;
+}
+
+export function usePublishRationale() {
+  const { address, connected, signData } = useWallet();
+  const [options, setOptions] = useState<RationalePublishOptions>({ sign: true, ipfs: true });
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSign = connected && !!address;
+
+  const publish = useCallback(
+    async (input: PublishInput): Promise<PublishRationaleResult> => {
+      const rationaleText = input.rationaleText.trim();
+      setError(null);
+      setIsPublishing(true);
+      try {
+        let witness: { address: string; signature: string; key: string } | undefined;
+        if (options.sign && canSign && address) {
+          // The server rebuilds the same body and checks the signature against it
+          const { body } = buildCip100Document(rationaleText, input.drepId);
+          const signed = await signData(await hashRationaleBody(body));
+          if (!signed) {
+            setError('Rationale signature was declined. Turn off signing to publish unsigned.');
+            return { ok: false, reason: 'declined' };
+          }
+          witness = { address, ...signed };
+        }
+
+        const res = await fetch('/api/rationale', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...input,
+            rationaleText,
+            witness,
+            publishToIpfs: options.ipfs,
+          }),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          setError(data.error || 'Failed to publish rationale');
+          return { ok: false, reason: 'failed' };
+        }
+
+        import('@/lib/posthog')
+          .then(({ posthog }) => {
+            posthog.capture('rationale_published', {
+              drep_id: input.drepId,
+              signed: data.signed,
+              ipfs: !!data.ipfsCid,
+            });
+          })
+          .catch(() => {});
+
+        if (data.ipfsError) setError(`${data.ipfsError} — anchored to ${data.httpUrl} instead`);
+        return { ok: true, rationale: data as PublishedRationale };
+      } catch {
+        setError('Failed to publish rationale');
+        return { ok: false, reason: 'failed' };
+      } finally {
+        setIsPublishing(false);
+      }
+    },
+    [options, canSign, address, signData],
+  );
+
+  return { publish, options, setOptions, canSign, isPublishing, error };
+}
@@ -150,9 +150,12 @@ export const checkNotifications = inngest.createFunction(
           if (Math.abs(delta) >= SCORE_CHANGE_THRESHOLD) {
             await notifyUser(user.id, {
               eventType: 'score-change',
-              title: `Score ${delta > 0 ? 'increased' : 'decreased'} by ${Math.abs(delta)} points`,
-              body: `Your DRepScore is now ${history[0].score}/100.`,
-              url: `${BASE_URL}/dashboard`,
+              data: { delta, score: history[0].score },
+              fallback: {
+                title: `Score ${delta > 0 ? 'increased' : 'decreased'} by ${Math.abs(delta)} points`,
+                body: `Your DRepScore is now ${history[0].score}/100.`,
+                url: `${BASE_URL}/dashboard`,
+              },
             });
             stats.scoreChange++;
           }
@@ -176,18 +179,24 @@ export const checkNotifications = inngest.createFunction(
           if (delegatorDelta !== 0) {
             await notifyUser(user.id, {
               eventType: 'delegation-change',
-              title: `${delegatorDelta > 0 ? '+' : ''}${delegatorDelta} delegator${Math.abs(delegatorDelta) !== 1 ? 's' : ''}`,
-              body: `You now have ${snapshots[0].delegator_count} delegators.`,
-              url: `${BASE_URL}/dashboard`,
+              data: { delta: delegatorDelta, count: snapshots[0].delegator_count },
+              fallback: {
+                title: `${delegatorDelta > 0 ? '+' : ''}${delegatorDelta} delegator${Math.abs(delegatorDelta) !== 1 ? 's' : ''}`,
+                body: `You now have ${snapshots[0].delegator_count} delegators.`,
+                url: `${BASE_URL}/dashboard`,
+              },
             });
             stats.delegation++;
 
             if (delegatorDelta > 0) {
               await notifyUser(user.id, {
                 eventType: 'delegator-growth',
-                title: `You gained ${delegatorDelta} delegator${delegatorDelta !== 1 ? 's' : ''}`,
-                body: `Your delegation is growing — ${snapshots[0].delegator_count} total delegators.`,
-                url: `${BASE_URL}/dashboard`,
+                data: { gained: delegatorDelta, count: snapshots[0].delegator_count },
+                fallback: {
+                  title: `You gained ${delegatorDelta} delegator${delegatorDelta !== 1 ? 's' : ''}`,
+                  body: `Your delegation is growing — ${snapshots[0].delegator_count} total delegators.`,
+                  url: `${BASE_URL}/dashboard`,
+                },
               });
             }
           }
@@ -203,9 +212,12 @@ export const checkNotifications = inngest.createFunction(
       if (openProposals.length > 0) {
         await broadcastEvent({
           eventType: 'pending-proposals',
-          title: `${openProposals.length} proposals awaiting votes`,
-          body: `There are ${openProposals.length} open governance proposals.`,
-          url: `${BASE_URL}/dashboard/inbox`,
+          data: { count: openProposals.length },
+          fallback: {
+            title: `${openProposals.length} proposals awaiting votes`,
+            body: `There are ${openProposals.length} open governance proposals.`,
+            url: `${BASE_URL}/dashboard/inbox`,
+          },
         });
         stats.pending++;
       }
@@ -218,17 +230,23 @@ export const checkNotifications = inngest.createFunction(
       if (urgentProposals.length > 0) {
         await broadcastEvent({
           eventType: 'urgent-deadline',
-          title: `${urgentProposals.length} proposal${urgentProposals.length !== 1 ? 's' : ''} expiring soon`,
-          body: `These proposals expire within 2 epochs. Vote now.`,
-          url: `${BASE_URL}/dashboard/inbox`,
+          data: { count: urgentProposals.length, epochs: 2 },
+          fallback: {
+            title: `${urgentProposals.length} proposal${urgentProposals.length !== 1 ? 's' : ''} expiring soon`,
+            body: `These proposals expire within 2 epochs. Vote now.`,
+            url: `${BASE_URL}/dashboard/inbox`,
+          },
         });
 
         for (const user of context.users) {
           await notifyUser(user.id, {
             eventType: 'proposal-deadline',
-            title: `${urgentProposals.length} proposal${urgentProposals.length !== 1 ? 's' : ''} expire in 2 epochs`,
-            body: 'Vote now to maintain your participation rate.',
-            url: `${BASE_URL}/dashboard/inbox`,
+            data: { count: urgentProposals.length, epochs: 2 },
+            fallback: {
+              title: `${urgentProposals.length} proposal${urgentProposals.length !== 1 ? 's' : ''} expire in 2 epochs`,
+              body: 'Vote now to maintain your participation rate.',
+              url: `${BASE_URL}/dashboard/inbox`,
+            },
           });
         }
         stats.urgent++;
@@ -252,9 +270,12 @@ export const checkNotifications = inngest.createFunction(
           if (distance <= 5) {
             await notifyUser(user.id, {
               eventType: 'score-opportunity',
-              title: `You're ${distance} point${distance !== 1 ? 's' : ''} from the top 10`,
-              body: `Ranked #${rank} — a few more rationales could push you into the top 10.`,
-              url: `${BASE_URL}/dashboard`,
+              data: { distance, rank },
+              fallback: {
+                title: `You're ${distance} point${distance !== 1 ? 's' : ''} from the top 10`,
+                body: `Ranked #${rank} — a few more rationales could push you into the top 10.`,
+                url: `${BASE_URL}/dashboard`,
+              },
             });
             stats.opportunity++;
           }
@@ -278,9 +299,12 @@ export const checkNotifications = inngest.createFunction(
             if (def) {
               await notifyUser(user.id, {
                 eventType: 'near-milestone',
-                title: `Achievement unlocked: ${def.label}`,
-                body: def.description,
-                url: `${BASE_URL}/dashboard`,
+                data: { label: def.label, description: def.description },
+                fallback: {
+                  title: `Achievement unlocked: ${def.label}`,
+                  body: def.description,
+                  url: `${BASE_URL}/dashboard`,
+                },
               });
               stats.milestone++;
             }
@@ -309,9 +333,12 @@ export const checkNotifications = inngest.createFunction(
         if (pctChange < -5) {
           await broadcastEvent({
             eventType: 'treasury-health-alert',
-            title: 'Treasury balance dropped significantly',
-            body: `Treasury declined ${Math.abs(pctChange).toFixed(1)}% this epoch. Current balance: ${(current / 1_000_000).toFixed(1)}M ADA.`,
-            url: `${BASE_URL}/treasury`,
+            data: { dropFraction: Math.abs(pctChange) / 100, balanceAda: current },
+            fallback: {
+              title: 'Treasury balance dropped significantly',
+              body: `Treasury declined ${Math.abs(pctChange).toFixed(1)}% this epoch. Current balance: ${(current / 1_000_000).toFixed(1)}M ADA.`,
+              url: `${BASE_URL}/treasury`,
+            },
           });
         }
       }
@@ -327,9 +354,16 @@ export const checkNotifications = inngest.createFunction(
         if (p.treasury_tier === 'major' || p.treasury_tier === 'significant') {
           await broadcastEvent({
             eventType: 'treasury-proposal-new',
-            title: `New ${p.treasury_tier} treasury proposal`,
-            body: `"${p.title || 'Untitled'}" requests ${(p.withdrawal_amount || 0).toLocaleString()} ADA from the treasury.`,
-            url: `${BASE_URL}/proposals/${p.tx_hash}/${p.proposal_index}`,
+            data: {
+              tier: p.treasury_tier,
+              title: p.title,
+              amountAda: p.withdrawal_amount || 0,
+            },
+            fallback: {
+              title: `New ${p.treasury_tier} treasury proposal`,
+              body: `"${p.title || 'Untitled'}" requests ${(p.withdrawal_amount || 0).toLocaleString()} ADA from the treasury.`,
+              url: `${BASE_URL}/proposals/${p.tx_hash}/${p.proposal_index}`,
+            },
           });
         }
       }
@@ -343,9 +377,12 @@ export const checkNotifications = inngest.createFunction(
       for (const poll of openPolls || []) {
         await broadcastEvent({
           eventType: 'treasury-accountability-open',
-          title: 'Treasury accountability poll opened',
-          body: `Cycle ${poll.cycle_number} accountability poll is now open. Rate whether this treasury spending delivered.`,
-          url: `${BASE_URL}/proposals/${poll.proposal_tx_hash}/${poll.proposal_index}`,
+          data: { cycle: poll.cycle_number },
+          fallback: {
+            title: 'Treasury accountability poll opened',
+            body: `Cycle ${poll.cycle_number} accountability poll is now open. Rate whether this treasury spending delivered.`,
+            url: `${BASE_URL}/proposals/${poll.proposal_tx_hash}/${poll.proposal_index}`,
+          },
         });
       }
     });
@@ -375,9 +412,18 @@ export const checkNotifications = inngest.createFunction(
           if (user) {
             await notifyUser(user.id, {
               eventType: 'tier-change',
-              title: `${isUp ? '🎉' : '⚠️'} Tier ${isUp ? 'up' : 'down'}: ${tc.old_tier} → ${tc.new_tier}`,
-              body: `Your governance tier ${isUp ? 'rose' : 'dropped'} to ${tc.new_tier} (score: ${tc.new_score}).${isUp ? ' Share your achievement!' : ''}`,
-              url: `${BASE_URL}/dashboard`,
+              data: {
+                entityType: 'drep',
+                direction: isUp ? 'up' : 'down',
+                oldTier: tc.old_tier,
+                newTier: tc.new_tier,
+                newScore: tc.new_score,
+              },
+              fallback: {
+                title: `${isUp ? '🎉' : '⚠️'} Tier ${isUp ? 'up' : 'down'}: ${tc.old_tier} → ${tc.new_tier}`,
+                body: `Your governance tier ${isUp ? 'rose' : 'dropped'} to ${tc.new_tier} (score: ${tc.new_score}).${isUp ? ' Share your achievement!' : ''}`,
+                url: `${BASE_URL}/dashboard`,
+              },
             });
           }
         } else if (tc.entity_type === 'spo') {
@@ -389,9 +435,18 @@ export const checkNotifications = inngest.createFunction(
           if (pool?.claimed_by) {
             await notifyUser(pool.claimed_by, {
               eventType: 'spo-tier-change',
-              title: `Pool tier ${isUp ? 'up' : 'down'}: ${tc.old_tier} → ${tc.new_tier}`,
-              body: `Your pool's governance tier ${isUp ? 'rose' : 'dropped'} to ${tc.new_tier} (score: ${tc.new_score}).`,
-              url: `${BASE_URL}/pool/${tc.entity_id}`,
+              data: {
+                entityType: 'spo',
+                direction: isUp ? 'up' : 'down',
+                oldTier: tc.old_tier,
+                newTier: tc.new_tier,
+                newScore: tc.new_score,
+              },
+              fallback: {
+                title: `Pool tier ${isUp ? 'up' : 'down'}: ${tc.old_tier} → ${tc.new_tier}`,
+                body: `Your pool's governance tier ${isUp ? 'rose' : 'dropped'} to ${tc.new_tier} (score: ${tc.new_score}).`,
+                url: `${BASE_URL}/pool/${tc.entity_id}`,
+              },
             });
           }
         }
@@ -418,9 +473,12 @@ export const checkNotifications = inngest.createFunction(
         const severity = drift.drift_classification === 'high' ? 'significantly' : 'noticeably';
         await notifyUser(drift.user_id, {
           eventType: 'alignment-drift',
-          title: `Your DRep has ${severity} drifted from your values`,
-          body: `Alignment drift score: ${drift.drift_score}. Review your delegation or explore alternatives.`,
-          url: `${BASE_URL}/my-gov`,
+          data: { driftScore: drift.drift_score, classification: drift.drift_classification },
+          fallback: {
+            title: `Your DRep has ${severity} drifted from your values`,
+            body: `Alignment drift score: ${drift.drift_score}. Review your delegation or explore alternatives.`,
+            url: `${BASE_URL}/my-gov`,
+          },
         });
       }
     });
@@ -451,9 +509,12 @@ export const checkNotifications = inngest.createFunction(
           if (currentDelegators >= threshold && previousDelegators < threshold) {
             await notifyUser(user.id, {
               eventType: 'delegation-milestone',
-              title: `🎉 ${threshold.toLocaleString()} delegators!`,
-              body: `You've reached ${threshold.toLocaleString()} delegators. Your governance voice represents a growing community.`,
-              url: `${BASE_URL}/dashboard`,
+              data: { threshold },
+              fallback: {
+                title: `🎉 ${threshold.toLocaleString()} delegators!`,
+                body: `You've reached ${threshold.toLocaleString()} delegators. Your governance voice represents a growing community.`,
+                url: `${BASE_URL}/dashboard`,
+              },
             });
           }
         }
@@ -489,9 +550,12 @@ export const checkNotifications = inngest.createFunction(
         const poolName = pool.pool_name || pool.ticker || pool.pool_id.slice(0, 12);
         await broadcastEvent({
           eventType: 'spo-inactivity',
-          title: `Pool ${poolName} has been inactive for ${epochsSinceVote} epochs`,
-          body: `This pool hasn't voted in ${epochsSinceVote} epochs. If you're staked here, check their governance commitment.`,
-          url: `${BASE_URL}/pool/${pool.pool_id}`,
+          data: { pool: poolName, epochs: epochsSinceVote },
+          fallback: {
+            title: `Pool ${poolName} has been inactive for ${epochsSinceVote} epochs`,
+            body: `This pool hasn't voted in ${epochsSinceVote} epochs. If you're staked here, check their governance commitment.`,
+            url: `${BASE_URL}/pool/${pool.pool_id}`,
+          },
         });
       }
     });
@@ -517,9 +581,12 @@ export const checkNotifications = inngest.createFunction(
         if (gap <= 3 && gap > 0 && current.claimed_by) {
           await notifyUser(current.claimed_by, {
             eventType: 'competitive-movement',
-            title: `You're ${gap} point${gap !== 1 ? 's' : ''} from overtaking a competitor`,
-            body: `A few more governance actions could move your pool up in the rankings.`,
-            url: `${BASE_URL}/pool/${current.pool_id}`,
+            data: { gap },
+            fallback: {
+              title: `You're ${gap} point${gap !== 1 ? 's' : ''} from overtaking a competitor`,
+              body: `A few more governance actions could move your pool up in the rankings.`,
+              url: `${BASE_URL}/pool/${current.pool_id}`,
+            },
           });
         }
       }
@@ -599,9 +666,12 @@ export const checkNotifications = inngest.createFunction(
           if (delta < -SCORE_CHANGE_THRESHOLD) {
             await notifyUser(citizen.userId, {
               eventType: 'drep-score-change',
-              title: `Your DRep's score dropped ${Math.abs(delta)} points`,
-              body: `Their score is now ${history[0].score}/100. Consider reviewing their recent activity.`,
-              url: `${BASE_URL}/drep/${citizen.drepId}`,
+              data: { delta, score: history[0].score },
+              fallback: {
+                title: `Your DRep's score dropped ${Math.abs(delta)} points`,
+                body: `Their score is now ${history[0].score}/100. Consider reviewing their recent activity.`,
+                url: `${BASE_URL}/drep/${citizen.drepId}`,
+              },
             });
             stats.citizenAlerts++;
           }
@@ -629,17 +699,23 @@ export const checkNotifications = inngest.createFunction(
             if (epochsSinceVote >= INACTIVITY_EPOCH_THRESHOLD) {
               await notifyUser(citizen.userId, {
                 eventType: 'drep-inactive',
-                title: `Your DRep hasn't voted in ${epochsSinceVote} epochs`,
-                body: `Your representative has been inactive. Your delegation isn't being used.`,
-                url: `${BASE_URL}/drep/${citizen.drepId}`,
+                data: { epochs: epochsSinceVote },
+                fallback: {
+                  title: `Your DRep hasn't voted in ${epochsSinceVote} epochs`,
+                  body: `Your representative has been inactive. Your delegation isn't being used.`,
+                  url: `${BASE_URL}/drep/${citizen.drepId}`,
+                },
               });
               stats.citizenAlerts++;
             } else if (epochsSinceVote >= 1) {
               await notifyUser(citizen.userId, {
                 eventType: 'drep-missed-vote',
-                title: `Your DRep missed voting this epoch`,
-                body: `${context.proposals.length} proposal${context.proposals.length !== 1 ? 's were' : ' was'} open but your DRep didn't vote.`,
-                url: `${BASE_URL}/drep/${citizen.drepId}`,
+                data: { count: context.proposals.length },
+                fallback: {
+                  title: `Your DRep missed voting this epoch`,
+                  body: `${context.proposals.length} proposal${context.proposals.length !== 1 ? 's were' : ' was'} open but your DRep didn't vote.`,
+                  url: `${BASE_URL}/drep/${citizen.drepId}`,
+                },
               });
               stats.citizenAlerts++;
             }
@@ -665,9 +741,12 @@ export const checkNotifications = inngest.createFunction(
             if (def) {
               await notifyUser(citizen.userId, {
                 eventType: 'citizen-level-up',
-                title: `Achievement unlocked: ${def.label}`,
-                body: def.description,
-                url: `${BASE_URL}/my-gov`,
+                data: { label: def.label, description: def.description },
+                fallback: {
+                  title: `Achievement unlocked: ${def.label}`,
+                  body: def.description,
+                  url: `${BASE_URL}/my-gov`,
+                },
               });
               stats.citizenMilestones++;
             }
@@ -0,0 +1,38 @@
+/**
+ * Outcome projections — re-projects every open proposal shortly after each
+ * proposals sync so the probabilities track the latest tallies.
+ */
+
+import { inngest } from '@/lib/inngest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { blockTimeToEpoch } from '@/lib/koios';
+import { computeOutcomeProjections } from '@/lib/projection';
+import { SyncLogger, errMsg } from '@/lib/sync-utils';
+import { logger } from '@/lib/logger';
+
+export const projectProposalOutcomes = inngest.createFunction(
+  {
+    id: 'compute-outcome-projections',
+    retries: 2,
+    concurrency: { limit: 1, scope: 'env', key: '"outcome-projections"' },
+  },
+  [{ cron: '15,45 * * * *' }, { event: 'drepscore/projections.compute' }],
+  async ({ step }) => {
+    const epoch = blockTimeToEpoch(Math.floor(Date.now() / 1000));
+
+    return step.run('project-open-proposals', async () => {
+      const syncLog = new SyncLogger(getSupabaseAdmin(), 'projections');
+      await syncLog.start();
+      try {
+        const result = await computeOutcomeProjections(epoch);
+        const summary = { epoch, ...result };
+        logger.info('[projections] Outcome projections updated', summary);
+        await syncLog.finalize(true, null, summary);
+        return summary;
+      } catch (err) {
+        await syncLog.finalize(false, errMsg(err), { epoch });
+        throw err;
+      }
+    });
+  },
+);
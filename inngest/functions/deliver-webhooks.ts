@@ -0,0 +1,18 @@
+import { inngest } from '@/lib/inngest';
+import { processDueDeliveries } from '@/lib/webhooks';
+
+/**
+ * Drains due webhook deliveries. The cron picks up scheduled retries; the
+ * event trigger gives freshly queued deliveries low latency.
+ */
+export const deliverWebhooks = inngest.createFunction(
+  {
+    id: 'deliver-webhooks',
+    retries: 1,
+    concurrency: { limit: 1, scope: 'env', key: '"webhook-deliver"' },
+  },
+  [{ cron: '*/5 * * * *' }, { event: 'drepscore/webhooks.deliver' }],
+  async ({ step }) => {
+    return step.run('process-due-deliveries', () => processDueDeliveries());
+  },
+);
@@ -0,0 +1,40 @@
+/**
+ * Coordination detection — clusters DReps and SPOs that appear to act as a
+ * bloc and records the clusters for the current epoch. Runs daily after the
+ * score syncs; re-running within an epoch replaces that epoch's clusters.
+ */
+
+import { inngest } from '@/lib/inngest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { blockTimeToEpoch } from '@/lib/koios';
+import { runCoordinationDetection } from '@/lib/coordination';
+import { SyncLogger, errMsg } from '@/lib/sync-utils';
+import { logger } from '@/lib/logger';
+
+export const detectCoordination = inngest.createFunction(
+  {
+    id: 'detect-coordination',
+    retries: 1,
+    concurrency: { limit: 1, scope: 'env', key: '"scoring-compute"' },
+  },
+  [{ cron: '45 5 * * *' }, { event: 'drepscore/coordination.detect' }],
+  async ({ step }) => {
+    const epoch = blockTimeToEpoch(Math.floor(Date.now() / 1000));
+
+    return step.run('detect-clusters', async () => {
+      const syncLog = new SyncLogger(getSupabaseAdmin(), 'coordination');
+      await syncLog.start();
+      try {
+        const drep = await runCoordinationDetection('drep', epoch);
+        const spo = await runCoordinationDetection('spo', epoch);
+        const summary = { epoch, drep, spo };
+        logger.info('[coordination] Detection complete', summary);
+        await syncLog.finalize(true, null, summary);
+        return summary;
+      } catch (err) {
+        await syncLog.finalize(false, errMsg(err), { epoch });
+        throw err;
+      }
+    });
+  },
+);
@@ -0,0 +1,226 @@
+/**
+ * Detect Webhook Events — scans recent governance activity and records it as
+ * webhook events. Event IDs are deterministic, so overlapping scan windows
+ * never deliver the same fact twice.
+ */
+
+import { inngest } from '@/lib/inngest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { blockTimeToEpoch, epochToBlockTime } from '@/lib/koios';
+import { fanOutWebhookEvents, type WebhookEvent } from '@/lib/webhooks';
+import { fetchAll } from '@/lib/sync-utils';
+
+/** Twice the cron interval would suffice; a day tolerates missed runs */
+const LOOKBACK_SECONDS = 86400;
+const SCORE_CHANGE_THRESHOLD = 3;
+
+interface ProposalRow {
+  tx_hash: string;
+  proposal_index: number;
+  proposal_type: string;
+  title: string | null;
+  block_time: number | null;
+  withdrawal_amount: number | null;
+  ratified_epoch: number | null;
+  expired_epoch: number | null;
+  enacted_epoch: number | null;
+}
+
+const PROPOSAL_COLUMNS =
+  'tx_hash, proposal_index, proposal_type, title, block_time, withdrawal_amount, ratified_epoch, expired_epoch, enacted_epoch';
+
+function toIso(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toISOString();
+}
+
+function proposalData(p: ProposalRow) {
+  return {
+    txHash: p.tx_hash,
+    index: p.proposal_index,
+    proposalType: p.proposal_type,
+    title: p.title,
+  };
+}
+
+export const detectWebhookEvents = inngest.createFunction(
+  {
+    id: 'detect-webhook-events',
+    retries: 2,
+    concurrency: { limit: 1, scope: 'env', key: '"webhook-detect"' },
+  },
+  [{ cron: '*/15 * * * *' }, { event: 'drepscore/webhooks.detect' }],
+  async ({ step }) => {
+    const events = await step.run('collect-events', async () => {
+      const supabase = getSupabaseAdmin();
+      const nowSec = Math.floor(Date.now() / 1000);
+      const since = nowSec - LOOKBACK_SECONDS;
+      const sinceIso = toIso(since);
+      const sinceEpoch = blockTimeToEpoch(nowSec) - 1;
+      const collected: WebhookEvent[] = [];
+
+      const [newProposals, ratified, expired, enacted] = await Promise.all([
+        supabase.from('proposals').select(PROPOSAL_COLUMNS).gte('block_time', since),
+        supabase.from('proposals').select(PROPOSAL_COLUMNS).gte('ratified_epoch', sinceEpoch),
+        supabase.from('proposals').select(PROPOSAL_COLUMNS).gte('expired_epoch', sinceEpoch),
+        supabase
+          .from('proposals')
+          .select(PROPOSAL_COLUMNS)
+          .eq('proposal_type', 'TreasuryWithdrawals')
+          .gte('enacted_epoch', sinceEpoch),
+      ]);
+
+      for (const p of (newProposals.data || []) as ProposalRow[]) {
+        collected.push({
+          id: `proposal-new:${p.tx_hash}#${p.proposal_index}`,
+          type: 'proposal-new',
+          occurredAt: toIso(p.block_time!),
+          data: { ...proposalData(p), withdrawalAmount: p.withdrawal_amount },
+        });
+      }
+      for (const p of (ratified.data || []) as ProposalRow[]) {
+        collected.push({
+          id: `proposal-ratified:${p.tx_hash}#${p.proposal_index}`,
+          type: 'proposal-ratified',
+          occurredAt: toIso(epochToBlockTime(p.ratified_epoch!)),
+          data: { ...proposalData(p), epoch: p.ratified_epoch },
+        });
+      }
+      for (const p of (expired.data || []) as ProposalRow[]) {
+        collected.push({
+          id: `proposal-expired:${p.tx_hash}#${p.proposal_index}`,
+          type: 'proposal-expired',
+          occurredAt: toIso(epochToBlockTime(p.expired_epoch!)),
+          data: { ...proposalData(p), epoch: p.expired_epoch },
+        });
+      }
+      for (const p of (enacted.data || []) as ProposalRow[]) {
+        collected.push({
+          id: `treasury-withdrawal-enacted:${p.tx_hash}#${p.proposal_index}`,
+          type: 'treasury-withdrawal-enacted',
+          occurredAt: toIso(epochToBlockTime(p.enacted_epoch!)),
+          data: {
+            ...proposalData(p),
+            withdrawalAmount: p.withdrawal_amount,
+            epoch: p.enacted_epoch,
+          },
+        });
+      }
+
+      // DRep votes — proposal type is looked up so proposal-type filters apply.
+      // Paged: a busy day exceeds PostgREST's 1000-row response cap
+      const votes = await fetchAll<{
+        drep_id: string;
+        proposal_tx_hash: string;
+        proposal_index: number;
+        vote: string;
+        vote_tx_hash: string;
+        block_time: number;
+      }>(
+        supabase
+          .from('drep_votes')
+          .select('drep_id, proposal_tx_hash, proposal_index, vote, vote_tx_hash, block_time')
+          .gte('block_time', since)
+          .order('vote_tx_hash'),
+      );
+      if (votes.length) {
+        const txHashes = [...new Set(votes.map((v) => v.proposal_tx_hash))];
+        const voted = await fetchAll<{
+          tx_hash: string;
+          proposal_index: number;
+          proposal_type: string;
+          title: string | null;
+        }>(
+          supabase
+            .from('proposals')
+            .select('tx_hash, proposal_index, proposal_type, title')
+            .in('tx_hash', txHashes)
+            .order('tx_hash')
+            .order('proposal_index'),
+        );
+        const byKey = new Map<string, { proposal_type: string; title: string | null }>(
+          voted.map((p) => [`${p.tx_hash}#${p.proposal_index}`, p]),
+        );
+        for (const v of votes) {
+          const key = `${v.proposal_tx_hash}#${v.proposal_index}`;
+          const p = byKey.get(key);
+          collected.push({
+            id: `drep-voted:${v.drep_id}:${key}:${v.vote_tx_hash}`,
+            type: 'drep-voted',
+            occurredAt: toIso(v.block_time),
+            data: {
+              drepId: v.drep_id,
+              txHash: v.proposal_tx_hash,
+              index: v.proposal_index,
+              vote: v.vote,
+              voteTxHash: v.vote_tx_hash,
+              proposalType: p?.proposal_type,
+              title: p?.title ?? null,
+            },
+          });
+        }
+      }
+
+      // Score changes between the two most recent daily snapshots
+      const twoDaysAgo = new Date((nowSec - 2 * 86400) * 1000).toISOString().slice(0, 10);
+      const history = await fetchAll<{ drep_id: string; score: number; snapshot_date: string }>(
+        supabase
+          .from('drep_score_history')
+          .select('drep_id, score, snapshot_date')
+          .gte('snapshot_date', twoDaysAgo)
+          .order('snapshot_date', { ascending: false })
+          .order('drep_id'),
+      );
+      const byDrep = new Map<string, { score: number; snapshot_date: string }[]>();
+      for (const h of history) {
+        const list = byDrep.get(h.drep_id) ?? [];
+        list.push(h);
+        byDrep.set(h.drep_id, list);
+      }
+      for (const [drepId, [latest, previous]] of byDrep) {
+        if (!previous) continue;
+        const delta = latest.score - previous.score;
+        if (Math.abs(delta) < SCORE_CHANGE_THRESHOLD) continue;
+        collected.push({
+          id: `drep-score-change:${drepId}:${latest.snapshot_date}`,
+          type: 'drep-score-change',
+          occurredAt: new Date(`${latest.snapshot_date}T00:00:00Z`).toISOString(),
+          data: { drepId, previousScore: previous.score, score: latest.score, delta },
+        });
+      }
+
+      const { data: tierChanges } = await supabase
+        .from('tier_changes')
+        .select('id, entity_type, entity_id, old_tier, new_tier, old_score, new_score, created_at')
+        .gte('created_at', sinceIso);
+      for (const tc of tierChanges || []) {
+        const isSpo = tc.entity_type === 'spo';
+        const type = isSpo ? 'spo-tier-change' : 'tier-change';
+        collected.push({
+          id: `${type}:${tc.id}`,
+          type,
+          occurredAt: tc.created_at ?? new Date().toISOString(),
+          data: {
+            ...(isSpo ? { poolId: tc.entity_id } : { drepId: tc.entity_id }),
+            oldTier: tc.old_tier,
+            newTier: tc.new_tier,
+            oldScore: tc.old_score,
+            newScore: tc.new_score,
+          },
+        });
+      }
+
+      return collected;
+    });
+
+    const queued = await step.run('fan-out', () => fanOutWebhookEvents(events as WebhookEvent[]));
+
+    if (queued > 0) {
+      await step.sendEvent('trigger-delivery', { name: 'drepscore/webhooks.deliver', data: {} });
+    }
+    if (events.length > 0) {
+      await step.sendEvent('trigger-discord-feeds', { name: 'drepscore/discord.feeds', data: {} });
+    }
+
+    return { events: events.length, queued };
+  },
+);
@@ -0,0 +1,29 @@
+/**
+ * Report exports — pre-builds the governance report files (PDF, JSON bundle,
+ * per-dataset CSV) so downloads are served from cache. Triggered for an epoch
+ * when its State of Governance report is published; the daily cron refreshes
+ * the epoch in progress and prunes expired files.
+ */
+
+import { inngest } from '@/lib/inngest';
+import { currentEpoch, pruneExpiredExports, warmGovernanceExports } from '@/lib/reports/exports';
+import { logger } from '@/lib/logger';
+
+export const generateReportExports = inngest.createFunction(
+  {
+    id: 'generate-report-exports',
+    retries: 2,
+    concurrency: { limit: 1, scope: 'env', key: '"report-exports"' },
+  },
+  [{ cron: '30 3 * * *' }, { event: 'drepscore/report.exports' }],
+  async ({ event, step }) => {
+    const requested = event.data?.epoch as number | undefined;
+    const epoch = requested ?? currentEpoch();
+
+    const built = await step.run('build-exports', () => warmGovernanceExports(epoch));
+    const pruned = requested == null ? await step.run('prune-expired', pruneExpiredExports) : 0;
+
+    logger.info('[report-exports] Exports built', { epoch, built, pruned });
+    return { epoch, built, pruned };
+  },
+);
@@ -3,6 +3,7 @@
  *
  * Runs on epoch boundaries (approximately every 5 days, Sunday 20:00 UTC)
  * to generate the State of Governance report — the canonical weekly artifact.
+ * Once stored, the epoch's downloadable exports are built.
  */
 
 import { inngest } from '@/lib/inngest';
@@ -25,6 +26,13 @@ export const generateStateOfGovernance = inngest.createFunction(
       epoch: result.epoch,
       stored: result.stored,
     });
+
+    if (result.stored) {
+      await step.sendEvent('build-report-exports', {
+        name: 'drepscore/report.exports',
+        data: { epoch: result.epoch },
+      });
+    }
     return result;
   },
 );
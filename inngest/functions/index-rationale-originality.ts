@@ -0,0 +1,39 @@
+/**
+ * Rationale originality index — flags duplicated, templated and boilerplate
+ * DRep rationales across every fetched rationale. Runs daily ahead of the
+ * score sync so Engagement Quality picks up new flags the same night.
+ */
+
+import { inngest } from '@/lib/inngest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { runRationaleOriginalityIndex } from '@/lib/rationaleOriginality';
+import { SyncLogger, errMsg } from '@/lib/sync-utils';
+import { logger } from '@/lib/logger';
+
+export const indexRationaleOriginality = inngest.createFunction(
+  {
+    id: 'index-rationale-originality',
+    retries: 1,
+    concurrency: { limit: 1, scope: 'env', key: '"scoring-compute"' },
+  },
+  [{ cron: '15 1 * * *' }, { event: 'drepscore/rationale-originality.index' }],
+  async ({ step }) => {
+    return step.run('index-rationales', async () => {
+      const syncLog = new SyncLogger(getSupabaseAdmin(), 'rationale_originality');
+      await syncLog.start();
+      try {
+        const summary = await runRationaleOriginalityIndex();
+        logger.info('[rationale-originality] Index complete', summary);
+        await syncLog.finalize(
+          summary.errors === 0,
+          summary.errors ? `${summary.errors} flags failed to upsert` : null,
+          summary,
+        );
+        return summary;
+      } catch (err) {
+        await syncLog.finalize(false, errMsg(err), {});
+        throw err;
+      }
+    });
+  },
+);
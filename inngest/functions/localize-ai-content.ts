@@ -0,0 +1,125 @@
+/**
+ * Localize AI Content — translates English AI output into every supported
+ * locale and caches it in localized_ai_content. Covers summaries of open
+ * proposals and the most recent epoch recaps; rows whose English source has
+ * changed since they were generated are redone.
+ */
+
+import { inngest } from '@/lib/inngest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from '@/lib/i18n';
+import {
+  hashSource,
+  proposalContentKey,
+  translateAIContent,
+  type LocalizableSource,
+  type LocalizedContentType,
+} from '@/lib/i18n/aiContent';
+
+/** Caps AI calls per step so a backlog is worked off over several runs */
+const MAX_TRANSLATIONS_PER_STEP = 40;
+const RECENT_RECAPS = 6;
+
+const TARGET_LOCALES = SUPPORTED_LOCALES.filter((l) => l !== DEFAULT_LOCALE);
+
+async function localizeSources(
+  type: LocalizedContentType,
+  sources: LocalizableSource[],
+): Promise<{ translated: number; pending: number }> {
+  if (sources.length === 0) return { translated: 0, pending: 0 };
+  const supabase = getSupabaseAdmin();
+
+  const { data: cached } = await supabase
+    .from('localized_ai_content')
+    .select('content_key, locale, source_hash')
+    .eq('content_type', type)
+    .in(
+      'content_key',
+      sources.map((s) => s.key),
+    );
+  const cachedHash = new Map(
+    (cached ?? []).map((r) => [`${r.content_key}|${r.locale}`, r.source_hash]),
+  );
+
+  const work = sources.flatMap((source) => {
+    const hash = hashSource(source.text);
+    return TARGET_LOCALES.filter((l) => cachedHash.get(`${source.key}|${l}`) !== hash).map(
+      (locale) => ({ source, locale, hash }),
+    );
+  });
+
+  let translated = 0;
+  for (const { source, locale, hash } of work.slice(0, MAX_TRANSLATIONS_PER_STEP)) {
+    const content = await translateAIContent(type, source.text, locale);
+    // AI unavailable — leave the rest for the next run
+    if (!content) break;
+    const { error } = await supabase.from('localized_ai_content').upsert(
+      {
+        content_type: type,
+        content_key: source.key,
+        locale,
+        content,
+        source_hash: hash,
+        generated_at: new Date().toISOString(),
+      },
+      { onConflict: 'content_type,content_key,locale' },
+    );
+    if (error) {
+      logger.error('[localize] Upsert failed', { type, key: source.key, locale, error });
+      break;
+    }
+    translated++;
+  }
+  return { translated, pending: work.length - translated };
+}
+
+export const localizeAiContent = inngest.createFunction(
+  {
+    id: 'localize-ai-content',
+    retries: 1,
+    concurrency: { limit: 1, scope: 'env', key: '"localize-ai-content"' },
+  },
+  [{ cron: '40 */2 * * *' }, { event: 'drepscore/ai-content.localize' }],
+  async ({ step }) => {
+    if (!process.env.ANTHROPIC_API_KEY) return { skipped: true };
+
+    const proposals = await step.run('localize-proposal-summaries', async () => {
+      const supabase = getSupabaseAdmin();
+      const { data } = await supabase
+        .from('proposals')
+        .select('tx_hash, proposal_index, ai_summary')
+        .not('ai_summary', 'is', null)
+        .is('ratified_epoch', null)
+        .is('enacted_epoch', null)
+        .is('expired_epoch', null)
+        .is('dropped_epoch', null);
+      return localizeSources(
+        'proposal_summary',
+        (data ?? []).map((p) => ({
+          key: proposalContentKey(p.tx_hash, p.proposal_index),
+          text: p.ai_summary!,
+        })),
+      );
+    });
+
+    const recaps = await step.run('localize-epoch-recaps', async () => {
+      const supabase = getSupabaseAdmin();
+      const { data } = await supabase
+        .from('epoch_recaps')
+        .select('epoch, ai_narrative')
+        .not('ai_narrative', 'is', null)
+        .order('epoch', { ascending: false })
+        .limit(RECENT_RECAPS);
+      return localizeSources(
+        'epoch_recap',
+        (data ?? []).map((r) => ({ key: String(r.epoch), text: r.ai_narrative! })),
+      );
+    });
+
+    if (proposals.translated + recaps.translated > 0) {
+      logger.info('[localize] AI content translated', { proposals, recaps });
+    }
+    return { proposals, recaps };
+  },
+);
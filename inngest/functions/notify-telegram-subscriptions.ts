@@ -0,0 +1,165 @@
+/**
+ * Notify Telegram Subscriptions — posts new votes by watched DReps and outcomes
+ * of watched proposals to the chats that asked for them (/watch). Each
+ * subscription keeps its own cursor, so a missed run catches up on the next.
+ */
+
+import { inngest } from '@/lib/inngest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { sendMessage } from '@/lib/telegram/api';
+import { escapeHtml, formatVoteAlert } from '@/lib/telegram/format';
+import { proposalStatus } from '@/utils/proposalRef';
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://drepscore.io';
+/** Caps catch-up after downtime so a chat is not flooded */
+const MAX_VOTES_PER_SUBSCRIPTION = 10;
+
+interface SubscriptionRow {
+  id: number;
+  chat_id: number;
+  target_id: string;
+  last_vote_block_time: number | null;
+  last_status: string | null;
+}
+
+export const notifyTelegramSubscriptions = inngest.createFunction(
+  {
+    id: 'notify-telegram-subscriptions',
+    retries: 2,
+    concurrency: { limit: 1, scope: 'env', key: '"telegram-watch"' },
+  },
+  [{ cron: '*/15 * * * *' }, { event: 'drepscore/telegram.watch' }],
+  async ({ step }) => {
+    if (!process.env.TELEGRAM_BOT_TOKEN) return { skipped: true };
+
+    const drepResult = await step.run('notify-drep-votes', async () => {
+      const supabase = getSupabaseAdmin();
+      const { data: subs } = await supabase
+        .from('telegram_subscriptions')
+        .select('id, chat_id, target_id, last_vote_block_time, last_status')
+        .eq('target_type', 'drep');
+      if (!subs?.length) return { sent: 0 };
+
+      const byDrep = new Map<string, SubscriptionRow[]>();
+      for (const s of subs) byDrep.set(s.target_id, [...(byDrep.get(s.target_id) ?? []), s]);
+
+      let sent = 0;
+      for (const [drepId, drepSubs] of byDrep) {
+        const since = Math.min(...drepSubs.map((s) => s.last_vote_block_time ?? 0));
+        const { data: votes } = await supabase
+          .from('drep_votes')
+          .select('vote_tx_hash, proposal_tx_hash, proposal_index, vote, block_time')
+          .eq('drep_id', drepId)
+          .gt('block_time', since)
+          .order('block_time', { ascending: true });
+        if (!votes?.length) continue;
+
+        const [{ data: drep }, { data: proposals }, { data: rationales }] = await Promise.all([
+          supabase.from('dreps').select('info').eq('id', drepId).maybeSingle(),
+          supabase
+            .from('proposals')
+            .select('tx_hash, proposal_index, title')
+            .in('tx_hash', [...new Set(votes.map((v) => v.proposal_tx_hash))]),
+          supabase
+            .from('vote_rationales')
+            .select('vote_tx_hash, ai_summary, rationale_text')
+            .in(
+              'vote_tx_hash',
+              votes.map((v) => v.vote_tx_hash),
+            ),
+        ]);
+        const drepName =
+          (drep?.info as { name?: string | null } | null)?.name || `${drepId.slice(0, 16)}…`;
+        const titles = new Map(
+          (proposals ?? []).map((p) => [`${p.tx_hash}#${p.proposal_index}`, p.title]),
+        );
+        const rationaleByVote = new Map(
+          (rationales ?? []).map((r) => [r.vote_tx_hash, r.ai_summary || r.rationale_text]),
+        );
+
+        for (const sub of drepSubs) {
+          const pending = votes
+            .filter((v) => v.block_time > (sub.last_vote_block_time ?? 0))
+            .slice(-MAX_VOTES_PER_SUBSCRIPTION);
+          if (pending.length === 0) continue;
+
+          for (const v of pending) {
+            const ok = await sendMessage(
+              sub.chat_id,
+              formatVoteAlert(
+                drepName,
+                v.vote,
+                {
+                  title: titles.get(`${v.proposal_tx_hash}#${v.proposal_index}`) ?? null,
+                  txHash: v.proposal_tx_hash,
+                  index: v.proposal_index,
+                },
+                SITE_URL,
+                rationaleByVote.get(v.vote_tx_hash),
+              ),
+            );
+            if (ok) sent++;
+          }
+
+          await supabase
+            .from('telegram_subscriptions')
+            .update({ last_vote_block_time: pending[pending.length - 1].block_time })
+            .eq('id', sub.id);
+        }
+      }
+      return { sent };
+    });
+
+    const proposalResult = await step.run('notify-proposal-outcomes', async () => {
+      const supabase = getSupabaseAdmin();
+      const { data: subs } = await supabase
+        .from('telegram_subscriptions')
+        .select('id, chat_id, target_id, last_vote_block_time, last_status')
+        .eq('target_type', 'proposal');
+      if (!subs?.length) return { sent: 0 };
+
+      const txHashes = [...new Set(subs.map((s) => s.target_id.split('#')[0]))];
+      const { data: proposals } = await supabase
+        .from('proposals')
+        .select(
+          'tx_hash, proposal_index, title, ratified_epoch, enacted_epoch, dropped_epoch, expired_epoch',
+        )
+        .in('tx_hash', txHashes);
+      const byKey = new Map((proposals ?? []).map((p) => [`${p.tx_hash}#${p.proposal_index}`, p]));
+
+      let sent = 0;
+      for (const sub of subs) {
+        const p = byKey.get(sub.target_id);
+        if (!p) continue;
+        const status = proposalStatus({
+          ratifiedEpoch: p.ratified_epoch,
+          enactedEpoch: p.enacted_epoch,
+          droppedEpoch: p.dropped_epoch,
+          expiredEpoch: p.expired_epoch,
+        });
+        if (status === sub.last_status) continue;
+
+        const ok = await sendMessage(
+          sub.chat_id,
+          `📜 <b>${escapeHtml(p.title || 'Untitled proposal')}</b>\n` +
+            `Status: <b>${status}</b>\n\n` +
+            `<a href="${SITE_URL}/proposal/${p.tx_hash}/${p.proposal_index}">View proposal</a>`,
+        );
+        if (ok) sent++;
+
+        // Enactment is the last transition; nothing more to watch for
+        if (status === 'Enacted' || status === 'Dropped' || status === 'Expired') {
+          await supabase.from('telegram_subscriptions').delete().eq('id', sub.id);
+        } else {
+          await supabase
+            .from('telegram_subscriptions')
+            .update({ last_status: status })
+            .eq('id', sub.id);
+        }
+      }
+      return { sent };
+    });
+
+    return { dreps: drepResult, proposals: proposalResult };
+  },
+);
@@ -0,0 +1,157 @@
+/**
+ * Post Discord Feeds — replays newly detected governance events (webhook_events)
+ * into the Discord channels each server configured with /feeds, and announces a
+ * linked DRep's votes and rationales in their community server. Feeds and DRep
+ * links each keep a detected_at cursor, so reruns never post twice.
+ */
+
+import { inngest } from '@/lib/inngest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { isPermanentChannelError, postChannelMessage } from '@/lib/discord/api';
+import { drepVoteEmbed, feedEventEmbed } from '@/lib/discord/format';
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://drepscore.io';
+/** Caps catch-up after downtime so a channel is not flooded */
+const MAX_POSTS_PER_RUN = 10;
+
+export const postDiscordFeeds = inngest.createFunction(
+  {
+    id: 'post-discord-feeds',
+    retries: 2,
+    concurrency: { limit: 1, scope: 'env', key: '"discord-feeds"' },
+  },
+  [{ cron: '5-59/15 * * * *' }, { event: 'drepscore/discord.feeds' }],
+  async ({ step }) => {
+    if (!process.env.DISCORD_BOT_TOKEN) return { skipped: true };
+
+    const feedResult = await step.run('post-guild-feeds', async () => {
+      const supabase = getSupabaseAdmin();
+      const { data: feeds } = await supabase
+        .from('discord_guild_feeds')
+        .select('id, channel_id, event_type, cursor');
+
+      let posted = 0;
+      let dropped = 0;
+      for (const feed of feeds ?? []) {
+        const { data: events } = await supabase
+          .from('webhook_events')
+          .select('event_type, occurred_at, detected_at, data')
+          .eq('event_type', feed.event_type)
+          .gt('detected_at', feed.cursor)
+          .order('detected_at', { ascending: true })
+          .limit(MAX_POSTS_PER_RUN);
+        if (!events?.length) continue;
+
+        let cursor = feed.cursor;
+        let gone = false;
+        for (const event of events) {
+          const res = await postChannelMessage(feed.channel_id, {
+            embeds: [
+              feedEventEmbed(
+                { ...event, data: (event.data ?? {}) as Record<string, unknown> },
+                SITE_URL,
+              ),
+            ],
+          });
+          if (isPermanentChannelError(res.status)) {
+            gone = true;
+            break;
+          }
+          if (!res.ok) break;
+          cursor = event.detected_at;
+          posted++;
+        }
+
+        if (gone) {
+          await supabase.from('discord_guild_feeds').delete().eq('id', feed.id);
+          dropped++;
+        } else if (cursor !== feed.cursor) {
+          await supabase.from('discord_guild_feeds').update({ cursor }).eq('id', feed.id);
+        }
+      }
+      return { feeds: feeds?.length ?? 0, posted, dropped };
+    });
+
+    const drepResult = await step.run('announce-drep-votes', async () => {
+      const supabase = getSupabaseAdmin();
+      const { data: guilds } = await supabase
+        .from('discord_guilds')
+        .select('guild_id, drep_id, drep_channel_id, drep_cursor')
+        .not('drep_id', 'is', null)
+        .not('drep_channel_id', 'is', null);
+
+      let posted = 0;
+      for (const guild of guilds ?? []) {
+        const since = guild.drep_cursor ?? new Date().toISOString();
+        const { data: events } = await supabase
+          .from('webhook_events')
+          .select('occurred_at, detected_at, data')
+          .eq('event_type', 'drep-voted')
+          .eq('data->>drepId', guild.drep_id!)
+          .gt('detected_at', since)
+          .order('detected_at', { ascending: true })
+          .limit(MAX_POSTS_PER_RUN);
+        if (!events?.length) continue;
+
+        const votes = events.map((e) => ({
+          detectedAt: e.detected_at,
+          occurredAt: e.occurred_at,
+          ...(e.data as {
+            txHash: string;
+            index: number;
+            vote: string;
+            voteTxHash: string;
+            title: string | null;
+          }),
+        }));
+        const [{ data: drep }, { data: rationales }] = await Promise.all([
+          supabase.from('dreps').select('info').eq('id', guild.drep_id!).maybeSingle(),
+          supabase
+            .from('vote_rationales')
+            .select('vote_tx_hash, rationale_text, ai_summary')
+            .in(
+              'vote_tx_hash',
+              votes.map((v) => v.voteTxHash),
+            ),
+        ]);
+        const drepName =
+          (drep?.info as { name?: string | null } | null)?.name ||
+          `${guild.drep_id!.slice(0, 16)}…`;
+        // The DRep's own words first; the AI summary only when the full text is missing
+        const rationaleByVote = new Map(
+          (rationales ?? []).map((r) => [r.vote_tx_hash, r.rationale_text || r.ai_summary]),
+        );
+
+        let cursor = since;
+        for (const v of votes) {
+          const res = await postChannelMessage(guild.drep_channel_id!, {
+            embeds: [
+              drepVoteEmbed(drepName, v, rationaleByVote.get(v.voteTxHash) ?? null, SITE_URL),
+            ],
+          });
+          if (isPermanentChannelError(res.status)) {
+            await supabase
+              .from('discord_guilds')
+              .update({ drep_id: null, drep_channel_id: null, drep_cursor: null })
+              .eq('guild_id', guild.guild_id);
+            cursor = since;
+            break;
+          }
+          if (!res.ok) break;
+          cursor = v.detectedAt;
+          posted++;
+        }
+
+        if (cursor !== since) {
+          await supabase
+            .from('discord_guilds')
+            .update({ drep_cursor: cursor })
+            .eq('guild_id', guild.guild_id);
+        }
+      }
+      return { guilds: guilds?.length ?? 0, posted };
+    });
+
+    return { feeds: feedResult, dreps: drepResult };
+  },
+);
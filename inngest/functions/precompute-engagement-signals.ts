@@ -4,6 +4,15 @@ import type { SupabaseClient } from '@supabase/supabase-js';
 import { blockTimeToEpoch } from '@/lib/koios';
 import { logger } from '@/lib/logger';
 import { PRIORITY_AREAS } from '@/lib/api/schemas/engagement';
+import { fetchAll } from '@/lib/sync-utils';
+import {
+  dedupeByStakeKey,
+  loadStakeWeights,
+  resolveStakeKey,
+  snapshotVoterStake,
+  tallyAssembly,
+  tallyBorda,
+} from '@/lib/stakeWeighting';
 
 const BATCH_SIZE = 5000;
 
@@ -32,6 +41,8 @@ async function fetchAllBatched<T>(
  * Runs every 2 hours + on-demand via event.
  *
  * Aggregates: sentiment, concern flags, impact tags, priority rankings, assembly results.
+ * Snapshots voter stake for open polls first so rankings and closed assemblies carry
+ * stake-weighted results next to headcount.
  * Writes to `engagement_signal_aggregations` and `citizen_priority_rankings`.
  */
 export const precomputeEngagementSignals = inngest.createFunction(
@@ -45,6 +56,62 @@ export const precomputeEngagementSignals = inngest.createFunction(
     const supabase = getSupabaseAdmin();
     const currentEpoch = blockTimeToEpoch(Math.floor(Date.now() / 1000));
 
+    // Step 0: Snapshot live stake for everyone voting in an open poll, so each
+    // poll's stake-weighted tally can be read at its close epoch
+    const stakeSnapshotStats = await step.run('snapshot-voter-stake', async () => {
+      const now = new Date().toISOString();
+      const [openAssemblies, openProposals, prioritySignals] = await Promise.all([
+        supabase
+          .from('citizen_assemblies')
+          .select('id')
+          .eq('status', 'active')
+          .lte('opens_at', now),
+        fetchAll(
+          supabase
+            .from('proposals')
+            .select('tx_hash, proposal_index')
+            .is('ratified_epoch', null)
+            .is('enacted_epoch', null)
+            .is('expired_epoch', null)
+            .is('dropped_epoch', null),
+        ),
+        fetchAll(
+          supabase
+            .from('citizen_priority_signals')
+            .select('wallet_address')
+            .eq('epoch', currentEpoch),
+        ),
+      ]);
+
+      const wallets = new Set<string>(prioritySignals.map((r) => r.wallet_address));
+      const assemblyIds = (openAssemblies.data ?? []).map((a) => a.id);
+      if (assemblyIds.length > 0) {
+        const responses = await fetchAll(
+          supabase
+            .from('citizen_assembly_responses')
+            .select('wallet_address')
+            .in('assembly_id', assemblyIds),
+        );
+        responses.forEach((r) => wallets.add(r.wallet_address));
+      }
+
+      const openKeys = new Set(openProposals.map((p) => `${p.tx_hash}:${p.proposal_index}`));
+      for (const table of ['citizen_sentiment', 'citizen_concern_flags'] as const) {
+        const rows = await fetchAllBatched<{
+          proposal_tx_hash: string;
+          proposal_index: number;
+          wallet_address: string;
+        }>(() => supabase.from(table).select('proposal_tx_hash, proposal_index, wallet_address'));
+        for (const r of rows) {
+          if (openKeys.has(`${r.proposal_tx_hash}:${r.proposal_index}`))
+            wallets.add(r.wallet_address);
+        }
+      }
+
+      const stakeKeys = [...wallets].map((w) => resolveStakeKey(w)).filter((k): k is string => !!k);
+      return snapshotVoterStake(stakeKeys, currentEpoch);
+    });
+
     // Step 1: Aggregate sentiment per proposal
     const sentimentStats = await step.run('aggregate-sentiment', async () => {
       const sentiments = await fetchAllBatched<{
@@ -234,48 +301,44 @@ export const precomputeEngagementSignals = inngest.createFunction(
     const priorityStats = await step.run('compute-priority-rankings', async () => {
       const { data: signals } = await supabase
         .from('citizen_priority_signals')
-        .select('ranked_priorities')
+        .select('user_id, wallet_address, ranked_priorities, updated_at, created_at')
         .eq('epoch', currentEpoch);
 
       if (!signals || signals.length === 0) return { voters: 0 };
 
-      const maxPoints = 5;
-      const scores: Record<string, number> = {};
-      const firstChoiceCounts: Record<string, number> = {};
-      for (const area of PRIORITY_AREAS) {
-        scores[area] = 0;
-        firstChoiceCounts[area] = 0;
-      }
-
-      for (const s of signals) {
-        const ranking = s.ranked_priorities;
-        for (let i = 0; i < ranking.length; i++) {
-          scores[ranking[i]] = (scores[ranking[i]] || 0) + (maxPoints - i);
-          if (i === 0) firstChoiceCounts[ranking[i]] = (firstChoiceCounts[ranking[i]] || 0) + 1;
-        }
-      }
-
-      const rankings = Object.entries(scores)
-        .map(([priority, score]) => ({
-          priority,
-          score,
-          rank: 0,
-          firstChoiceCount: firstChoiceCounts[priority] || 0,
-        }))
-        .sort((a, b) => b.score - a.score)
-        .map((item, i) => ({ ...item, rank: i + 1 }));
+      const { voters, duplicateResponses } = dedupeByStakeKey(
+        signals.map((s) => ({
+          userId: s.user_id,
+          walletAddress: s.wallet_address,
+          at: s.updated_at ?? s.created_at,
+          ranking: s.ranked_priorities,
+        })),
+      );
+      const stake = await loadStakeWeights(
+        voters.map((v) => v.stakeKey).filter((k): k is string => !!k),
+        currentEpoch,
+      );
+      const { rankings, stakeWeighted, summary } = tallyBorda(
+        voters,
+        stake,
+        PRIORITY_AREAS,
+        duplicateResponses,
+      );
 
       await supabase.from('citizen_priority_rankings').upsert(
         {
           epoch: currentEpoch,
           rankings,
-          total_voters: signals.length,
+          total_voters: summary.headcount,
+          stake_weighted_rankings: stakeWeighted,
+          total_stake_lovelace: summary.totalStakeLovelace,
+          unweighted_voters: summary.unweightedVoters,
           computed_at: new Date().toISOString(),
         },
         { onConflict: 'epoch' },
       );
 
-      return { voters: signals.length };
+      return { voters: summary.headcount, duplicateResponses };
     });
 
     // Step 5: Close expired assemblies
@@ -283,39 +346,38 @@ export const precomputeEngagementSignals = inngest.createFunction(
       const now = new Date().toISOString();
       const { data: expired } = await supabase
         .from('citizen_assemblies')
-        .select('id, options')
+        .select('id, options, closes_at')
         .eq('status', 'active')
         .lt('closes_at', now);
 
       if (!expired || expired.length === 0) return { closed: 0 };
 
       for (const assembly of expired) {
-        const { data: responses } = await supabase
-          .from('citizen_assembly_responses')
-          .select('selected_option')
-          .eq('assembly_id', assembly.id);
-
-        const voteCounts: Record<string, number> = {};
-        for (const r of responses || []) {
-          voteCounts[r.selected_option] = (voteCounts[r.selected_option] || 0) + 1;
-        }
-
-        const totalVotes = (responses || []).length;
         const options = (assembly.options as { key: string; label: string }[]) || [];
-        const results = options.map((opt) => ({
-          key: opt.key,
-          label: opt.label,
-          count: voteCounts[opt.key] || 0,
-          percentage:
-            totalVotes > 0 ? Math.round(((voteCounts[opt.key] || 0) / totalVotes) * 100) : 0,
-        }));
+        const closeEpoch = blockTimeToEpoch(
+          Math.floor(new Date(assembly.closes_at).getTime() / 1000),
+        );
+        const { results, summary } = await tallyAssembly(assembly.id, options, closeEpoch);
 
         await supabase
           .from('citizen_assemblies')
           .update({
             status: 'closed',
-            results,
-            total_votes: totalVotes,
+            results: results.map(({ key, label, count, percentage }) => ({
+              key,
+              label,
+              count,
+              percentage,
+            })),
+            stake_weighted_results: results.map(({ key, stakeLovelace, stakePercentage }) => ({
+              key,
+              stakeLovelace,
+              stakePercentage,
+            })),
+            total_votes: summary.headcount,
+            total_stake_lovelace: summary.totalStakeLovelace,
+            unweighted_voters: summary.unweightedVoters,
+            snapshot_epoch: closeEpoch,
             updated_at: new Date().toISOString(),
           })
           .eq('id', assembly.id);
@@ -330,6 +392,7 @@ export const precomputeEngagementSignals = inngest.createFunction(
         sync_type: 'engagement_signals',
         status: 'success',
         details: {
+          stakeSnapshots: stakeSnapshotStats,
           sentiment: sentimentStats,
           concerns: concernStats,
           impact: impactStats,
@@ -340,6 +403,7 @@ export const precomputeEngagementSignals = inngest.createFunction(
     });
 
     return {
+      stakeSnapshotStats,
       sentimentStats,
       concernStats,
       impactStats,
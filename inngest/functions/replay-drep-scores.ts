@@ -0,0 +1,151 @@
+/**
+ * DRep Score V3 historical replay.
+ * Triggered on demand (admin). Recomputes scores "as of" each epoch in a range
+ * under a methodology profile (current by default) and persists them to
+ * drep_score_replays.
+ */
+
+import { inngest } from '@/lib/inngest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { blockTimeToEpoch } from '@/lib/koios';
+import {
+  replayScoresAtEpoch,
+  getMethodologyProfile,
+  CURRENT_METHODOLOGY_VERSION,
+  type ReplayRows,
+} from '@/lib/scoring';
+import { batchUpsert, fetchAll, SyncLogger, errMsg } from '@/lib/sync-utils';
+import { logger } from '@/lib/logger';
+
+/** Guard against accidentally replaying the whole chain history in one run */
+const MAX_EPOCHS_PER_RUN = 100;
+
+export const replayDrepScores = inngest.createFunction(
+  {
+    id: 'replay-drep-scores',
+    retries: 1,
+    concurrency: { limit: 1, scope: 'env', key: '"scoring-compute"' },
+  },
+  { event: 'drepscore/replay.scores' },
+  async ({ event, step }) => {
+    const data = (event.data || {}) as {
+      fromEpoch?: number;
+      toEpoch?: number;
+      methodologyVersion?: string;
+    };
+    const currentEpoch = blockTimeToEpoch(Math.floor(Date.now() / 1000));
+    const toEpoch = Math.min(data.toEpoch ?? currentEpoch - 1, currentEpoch - 1);
+    const fromEpoch = Math.max(data.fromEpoch ?? toEpoch, toEpoch - MAX_EPOCHS_PER_RUN + 1);
+    const methodologyVersion = data.methodologyVersion ?? CURRENT_METHODOLOGY_VERSION;
+    const profile = getMethodologyProfile(methodologyVersion);
+    if (!profile) {
+      logger.warn('[score-replay] Unknown methodology version', { methodologyVersion });
+      return { success: false, error: `Unknown methodology version: ${methodologyVersion}` };
+    }
+
+    return step.run('replay-epochs', async () => {
+      const supabase = getSupabaseAdmin();
+      const syncLog = new SyncLogger(supabase, 'score_replay');
+      await syncLog.start();
+
+      try {
+        // Full history: PostgREST caps each response at 1000 rows
+        const [drepRows, voteRows, proposalRows, lifecycleRows] = await Promise.all([
+          fetchAll<ReplayRows['drepRows'][number]>(
+            supabase.from('dreps').select('id, info, metadata, metadata_hash_verified').order('id'),
+          ),
+          fetchAll<ReplayRows['voteRows'][number]>(
+            supabase
+              .from('drep_votes')
+              .select(
+                'drep_id, proposal_tx_hash, proposal_index, vote, block_time, epoch_no, rationale_quality, voting_power_lovelace',
+              )
+              .order('vote_tx_hash'),
+          ),
+          fetchAll<ReplayRows['proposalRows'][number]>(
+            supabase
+              .from('proposals')
+              .select(
+                'tx_hash, proposal_index, proposal_type, treasury_tier, withdrawal_amount, block_time, proposed_epoch, expired_epoch, ratified_epoch, dropped_epoch',
+              )
+              .order('tx_hash')
+              .order('proposal_index'),
+          ),
+          fetchAll<NonNullable<ReplayRows['lifecycleRows']>[number]>(
+            supabase.from('drep_lifecycle_events').select('drep_id, action, epoch_no').order('id'),
+          ),
+        ]);
+
+        if (!drepRows.length || !voteRows.length) {
+          logger.info('[score-replay] No DReps or votes — skipping');
+          return { success: true, skipped: true };
+        }
+
+        const rows: ReplayRows = {
+          drepRows,
+          voteRows,
+          proposalRows,
+          summaryRows: [],
+          lifecycleRows,
+        };
+
+        const epochs: { epoch: number; dreps: number; votes: number; rowsWritten: number }[] = [];
+
+        for (let epoch = fromEpoch; epoch <= toEpoch; epoch++) {
+          const replay = replayScoresAtEpoch(rows, epoch, profile);
+          if (replay.voteCount === 0) continue;
+
+          const inserts = [...replay.scores.entries()].map(([drepId, s]) => ({
+            drep_id: drepId,
+            epoch_no: epoch,
+            methodology_version: methodologyVersion,
+            score: s.composite,
+            tier: s.tier,
+            engagement_quality: s.engagementQualityPercentile,
+            engagement_quality_raw: s.engagementQualityRaw,
+            effective_participation_v3: s.effectiveParticipationPercentile,
+            effective_participation_v3_raw: s.effectiveParticipationRaw,
+            reliability_v3: s.reliabilityPercentile,
+            reliability_v3_raw: s.reliabilityRaw,
+            governance_identity: s.governanceIdentityPercentile,
+            governance_identity_raw: s.governanceIdentityRaw,
+            replayed_at: new Date().toISOString(),
+          }));
+
+          const result = await batchUpsert(
+            supabase,
+            'drep_score_replays',
+            inserts,
+            'drep_id,epoch_no,methodology_version',
+            `Score replay epoch ${epoch}`,
+          );
+
+          epochs.push({
+            epoch,
+            dreps: replay.scores.size,
+            votes: replay.voteCount,
+            rowsWritten: result.success,
+          });
+        }
+
+        const summary = {
+          success: true,
+          fromEpoch,
+          toEpoch,
+          methodologyVersion,
+          epochsReplayed: epochs.length,
+          epochs,
+        };
+
+        logger.info('[score-replay] Replay complete', summary);
+        await syncLog.finalize(true, null, summary as Record<string, unknown>);
+        return summary;
+      } catch (err) {
+        const msg = errMsg(err);
+        logger.error('[score-replay] Fatal error', { error: err });
+        await syncLog.finalize(false, msg, { fromEpoch, toEpoch });
+        throw err;
+      }
+    });
+  },
+);
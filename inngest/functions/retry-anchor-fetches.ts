@@ -0,0 +1,36 @@
+/**
+ * Anchor retry queue — re-fetches rationale and metadata anchors that were
+ * unreachable during a sync once their backoff has elapsed.
+ */
+
+import { inngest } from '@/lib/inngest';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { retryQueuedAnchors } from '@/lib/anchors';
+import { SyncLogger, errMsg } from '@/lib/sync-utils';
+import { logger } from '@/lib/logger';
+
+const RETRY_BATCH = 300;
+
+export const retryAnchorFetches = inngest.createFunction(
+  {
+    id: 'retry-anchor-fetches',
+    retries: 1,
+    concurrency: { limit: 1, scope: 'env', key: '"anchor-retry"' },
+  },
+  [{ cron: '20 * * * *' }, { event: 'drepscore/anchors.retry' }],
+  async ({ step }) => {
+    return step.run('retry-due-anchors', async () => {
+      const syncLog = new SyncLogger(getSupabaseAdmin(), 'anchor_retry');
+      await syncLog.start();
+      try {
+        const result = await retryQueuedAnchors(RETRY_BATCH);
+        if (result.attempted > 0) logger.info('[anchors] Retry queue processed', result);
+        await syncLog.finalize(true, null, result);
+        return result;
+      } catch (err) {
+        await syncLog.finalize(false, errMsg(err), {});
+        throw err;
+      }
+    });
+  },
+);
@@ -4,13 +4,18 @@
  * Streams (each as a separate Inngest step for durability):
  * 1. Sync Catalyst funds (14 rounds, lightweight)
  * 2. Sync all proposals with campaigns and team members
+ * 3. Link treasury withdrawals to the Catalyst teams behind them
  */
 
 import { inngest } from '@/lib/inngest';
 import { logger } from '@/lib/logger';
 import { alertCritical, emitPostHog, errMsg } from '@/lib/sync-utils';
 import { cronCheckIn, cronCheckOut } from '@/lib/sentry-cron';
-import { syncCatalystFunds, syncCatalystProposals } from '@/lib/sync/catalyst';
+import {
+  syncCatalystFunds,
+  syncCatalystProposals,
+  syncTreasuryTeamLinks,
+} from '@/lib/sync/catalyst';
 
 export const syncCatalyst = inngest.createFunction(
   {
@@ -48,9 +53,19 @@ export const syncCatalyst = inngest.createFunction(
         }
       });
 
-      // Step 3: Emit analytics + alert on failures
+      // Step 3: Resolve treasury withdrawal teams against the refreshed members
+      const linkResult = await step.run('link-treasury-teams', async () => {
+        try {
+          return await syncTreasuryTeamLinks();
+        } catch (err) {
+          logger.error('[catalyst] Treasury team linking failed', { error: err });
+          return { proposalsLinked: 0, linksStored: 0, linksRemoved: 0, errors: [errMsg(err)] };
+        }
+      });
+
+      // Step 4: Emit analytics + alert on failures
       await step.run('emit-analytics', async () => {
-        const allErrors = [...fundResult.errors, ...proposalResult.errors];
+        const allErrors = [...fundResult.errors, ...proposalResult.errors, ...linkResult.errors];
 
         await emitPostHog(allErrors.length === 0, 'catalyst', 0, {
           funds_stored: fundResult.fundsStored,
@@ -58,6 +73,7 @@ export const syncCatalyst = inngest.createFunction(
           campaigns_stored: proposalResult.campaignsStored,
           team_members_stored: proposalResult.teamMembersStored,
           team_links_stored: proposalResult.teamLinksStored,
+          treasury_proposals_linked: linkResult.proposalsLinked,
           error_count: allErrors.length,
         });
 
@@ -73,6 +89,7 @@ export const syncCatalyst = inngest.createFunction(
       return {
         funds: fundResult,
         proposals: proposalResult,
+        treasuryLinks: linkResult,
       };
     } catch (error) {
       cronCheckOut('sync-catalyst', checkInId, false);
@@ -63,7 +63,7 @@ export const syncCcRationales = inngest.createFunction(
         const batch = uncached.slice(i, i + 5);
         const results = await Promise.allSettled(
           batch.map(async (v) => {
-            const rationale = await fetchCip136Rationale(v.meta_url!);
+            const rationale = await fetchCip136Rationale(v.meta_url!, v.meta_hash);
             if (!rationale) return null;
 
             const { error } = await supabase.from('cc_rationales').upsert(
@@ -2,26 +2,26 @@
  * Dedicated DRep Score V3 sync function.
  * Triggered after sync-dreps completes. Computes 4-pillar scores,
  * percentile-normalizes, computes composite + momentum, persists to DB.
+ * Candidate methodology profiles are scored alongside as shadows.
  */
 
 import { inngest } from '@/lib/inngest';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { blockTimeToEpoch } from '@/lib/koios';
 import {
-  computeEngagementQuality,
-  computeEffectiveParticipation,
-  getExtendedImportanceWeight,
-  computeReliability,
-  computeGovernanceIdentity,
+  buildScoringInputs,
+  computeRawPillars,
   computeDRepScores,
   computeTier,
   detectTierChange,
-  type VoteData,
-  type ProposalScoringContext,
-  type ProposalVotingSummary,
-  type DRepProfileData,
+  getCandidateProfiles,
+  CURRENT_METHODOLOGY,
+  type DRepScoreResult,
+  type MethodologyProfile,
+  type ScoringRows,
 } from '@/lib/scoring';
 import { getFeatureFlag } from '@/lib/featureFlags';
+import { loadOriginalityMultipliers } from '@/lib/rationaleOriginality';
 import { batchUpsert, SyncLogger, errMsg, emitPostHog } from '@/lib/sync-utils';
 import { logger } from '@/lib/logger';
 
@@ -48,6 +48,7 @@ export const syncDrepScores = inngest.createFunction(
           { data: voteRows },
           { data: proposalRows },
           { data: summaryRows },
+          originality,
         ] = await Promise.all([
           supabase.from('dreps').select('id, info, metadata, metadata_hash_verified, anchor_hash'),
           supabase
@@ -65,6 +66,7 @@ export const syncDrepScores = inngest.createFunction(
             .select(
               'proposal_tx_hash, proposal_index, drep_yes_vote_power, drep_no_vote_power, drep_abstain_vote_power',
             ),
+          loadOriginalityMultipliers(),
         ]);
 
         if (!drepRows?.length || !voteRows?.length) {
@@ -79,153 +81,29 @@ export const syncDrepScores = inngest.createFunction(
         const nowSeconds = Math.floor(Date.now() / 1000);
         const currentEpoch = blockTimeToEpoch(nowSeconds);
 
-        // Proposal context map
-        const proposalContexts = new Map<string, ProposalScoringContext>();
-        const allProposalTypes = new Set<string>();
-        const proposalBlockTimes = new Map<string, number>();
-
-        for (const p of (proposalRows || []) as any[]) {
-          const key = `${p.tx_hash}-${p.proposal_index}`;
-          const weight = getExtendedImportanceWeight(
-            p.proposal_type,
-            p.treasury_tier,
-            p.withdrawal_amount != null ? Number(p.withdrawal_amount) : null,
-          );
-          proposalContexts.set(key, {
-            proposalKey: key,
-            proposalType: p.proposal_type,
-            treasuryTier: p.treasury_tier,
-            withdrawalAmount: p.withdrawal_amount != null ? Number(p.withdrawal_amount) : null,
-            blockTime: p.block_time || 0,
-            importanceWeight: weight,
-          });
-          allProposalTypes.add(p.proposal_type);
-          proposalBlockTimes.set(key, p.block_time || 0);
-        }
-
-        // Voting summary map (for margins + majority)
-        const votingSummaries = new Map<string, ProposalVotingSummary>();
-        for (const s of (summaryRows || []) as any[]) {
-          const key = `${s.proposal_tx_hash}-${s.proposal_index}`;
-          votingSummaries.set(key, {
-            proposalKey: key,
-            drepYesVotePower: Number(s.drep_yes_vote_power) || 0,
-            drepNoVotePower: Number(s.drep_no_vote_power) || 0,
-            drepAbstainVotePower: Number(s.drep_abstain_vote_power) || 0,
-          });
-        }
-
-        // Active proposal epochs for reliability
-        const proposalEpochs = new Map<number, number>();
-        for (const p of (proposalRows || []) as any[]) {
-          if (p.proposed_epoch == null) continue;
-          const start = p.proposed_epoch;
-          const endEpoch = Math.min(
-            ...[p.expired_epoch, p.ratified_epoch, p.dropped_epoch, currentEpoch].filter(
-              (e: number | null): e is number => e != null,
-            ),
-          );
-          for (let e = start; e <= endEpoch; e++) {
-            proposalEpochs.set(e, (proposalEpochs.get(e) || 0) + 1);
-          }
-        }
-
-        // Group votes by DRep with enriched VoteData
-        const drepVotes = new Map<string, VoteData[]>();
-        const drepEpochData = new Map<string, { counts: number[]; firstEpoch: number }>();
-
-        // Temp: epoch counts per DRep
-        const drepEpochCounts = new Map<string, Map<number, number>>();
-
-        for (const v of voteRows as any[]) {
-          const proposalKey = `${v.proposal_tx_hash}-${v.proposal_index}`;
-          const ctx = proposalContexts.get(proposalKey);
-
-          const voteData: VoteData = {
-            drepId: v.drep_id,
-            proposalKey,
-            vote: v.vote,
-            blockTime: v.block_time,
-            proposalBlockTime: proposalBlockTimes.get(proposalKey) || 0,
-            proposalType: ctx?.proposalType || 'InfoAction',
-            rationaleQuality: v.rationale_quality,
-            importanceWeight: ctx?.importanceWeight || 1,
-          };
-
-          if (!drepVotes.has(v.drep_id)) drepVotes.set(v.drep_id, []);
-          drepVotes.get(v.drep_id)!.push(voteData);
-
-          // Track epoch counts
-          const epoch = v.epoch_no ?? blockTimeToEpoch(v.block_time);
-          if (epoch != null) {
-            if (!drepEpochCounts.has(v.drep_id)) drepEpochCounts.set(v.drep_id, new Map());
-            const ec = drepEpochCounts.get(v.drep_id)!;
-            ec.set(epoch, (ec.get(epoch) || 0) + 1);
-          }
-        }
-
-        // Convert epoch count maps to arrays
-        for (const [drepId, epochMap] of drepEpochCounts) {
-          const epochs = [...epochMap.keys()].sort((a, b) => a - b);
-          if (epochs.length === 0) continue;
-          const firstEpoch = epochs[0];
-          const lastEpoch = Math.max(epochs[epochs.length - 1], currentEpoch);
-          const counts: number[] = [];
-          for (let e = firstEpoch; e <= lastEpoch; e++) {
-            counts.push(epochMap.get(e) || 0);
-          }
-          drepEpochData.set(drepId, { counts, firstEpoch });
-        }
-
-        // Ensure all DReps from the dreps table have entries (even those with 0 votes)
-        for (const row of drepRows as any[]) {
-          if (!drepVotes.has(row.id)) drepVotes.set(row.id, []);
-        }
-
-        // Profile data for governance identity
-        const profiles = new Map<string, DRepProfileData>();
-        const allDelegatorCounts: number[] = [];
-
-        for (const row of drepRows as any[]) {
-          const info = (row.info || {}) as Record<string, unknown>;
-          const delegatorCount = (info.delegatorCount as number) || 0;
-
-          profiles.set(row.id, {
-            drepId: row.id,
-            metadata: row.metadata || null,
-            delegatorCount,
-            metadataHashVerified: row.metadata_hash_verified || false,
-          });
-          allDelegatorCounts.push(delegatorCount);
-        }
+        const inputs = buildScoringInputs(
+          {
+            drepRows: drepRows as ScoringRows['drepRows'],
+            // Copied / boilerplate rationales earn partial Engagement Quality credit
+            voteRows: (voteRows as ScoringRows['voteRows']).map((v) => ({
+              ...v,
+              rationale_originality: originality.get(
+                `${v.drep_id}|${v.proposal_tx_hash}-${v.proposal_index}`,
+              ),
+            })),
+            proposalRows: (proposalRows || []) as ScoringRows['proposalRows'],
+            summaryRows: (summaryRows || []) as ScoringRows['summaryRows'],
+          },
+          currentEpoch,
+        );
+        const { drepVotes, proposalContexts } = inputs;
 
         timing.step2_build_maps_ms = Date.now() - s2;
 
         // ── Step 3: Compute raw pillar scores ──────────────────────────
         const s3 = Date.now();
 
-        const rawEngagement = computeEngagementQuality(
-          drepVotes,
-          votingSummaries,
-          allProposalTypes,
-          nowSeconds,
-        );
-
-        const rawParticipation = computeEffectiveParticipation(
-          drepVotes,
-          proposalContexts,
-          votingSummaries,
-          nowSeconds,
-        );
-
-        const rawReliability = computeReliability(
-          drepVotes,
-          proposalEpochs,
-          currentEpoch,
-          drepEpochData,
-        );
-
-        const rawIdentity = computeGovernanceIdentity(profiles, allDelegatorCounts);
+        const raw = computeRawPillars(inputs, nowSeconds, currentEpoch);
 
         timing.step3_compute_pillars_ms = Date.now() - s3;
 
@@ -252,10 +130,10 @@ export const syncDrepScores = inngest.createFunction(
         const s5 = Date.now();
 
         const finalScores = computeDRepScores(
-          rawEngagement,
-          rawParticipation,
-          rawReliability,
-          rawIdentity,
+          raw.engagement,
+          raw.participation,
+          raw.reliability,
+          raw.identity,
           scoreHistory,
         );
 
@@ -276,6 +154,7 @@ export const syncDrepScores = inngest.createFunction(
           governance_identity: s.governanceIdentityPercentile,
           governance_identity_raw: s.governanceIdentityRaw,
           score_momentum: s.momentum,
+          methodology_version: CURRENT_METHODOLOGY.version,
         }));
 
         await batchUpsert(
@@ -306,6 +185,7 @@ export const syncDrepScores = inngest.createFunction(
           rationale_rate: s.engagementQualityPercentile,
           reliability_score: s.reliabilityPercentile,
           profile_completeness: s.governanceIdentityPercentile,
+          methodology_version: CURRENT_METHODOLOGY.version,
         }));
 
         await batchUpsert(
@@ -388,12 +268,62 @@ export const syncDrepScores = inngest.createFunction(
 
         timing.step6_persist_ms = Date.now() - s6;
 
+        // ── Step 8: Shadow methodology profiles ────────────────────────
+        // Persist the current profile next to every candidate so diffs read one table.
+        const s8 = Date.now();
+        const candidates = getCandidateProfiles();
+        let shadowProfilesScored = 0;
+
+        if (candidates.length > 0) {
+          const computedAt = new Date().toISOString();
+          const toRows = (profile: MethodologyProfile, scores: Map<string, DRepScoreResult>) =>
+            [...scores.entries()].map(([drepId, s]) => ({
+              drep_id: drepId,
+              methodology_version: profile.version,
+              epoch_no: currentEpoch,
+              score: s.composite,
+              tier: computeTier(s.composite),
+              engagement_quality: s.engagementQualityPercentile,
+              effective_participation_v3: s.effectiveParticipationPercentile,
+              reliability_v3: s.reliabilityPercentile,
+              governance_identity: s.governanceIdentityPercentile,
+              computed_at: computedAt,
+            }));
+
+          const shadowRows = toRows(CURRENT_METHODOLOGY, finalScores);
+          for (const profile of candidates) {
+            const shadowRaw = computeRawPillars(inputs, nowSeconds, currentEpoch, profile);
+            const shadowScores = computeDRepScores(
+              shadowRaw.engagement,
+              shadowRaw.participation,
+              shadowRaw.reliability,
+              shadowRaw.identity,
+              new Map(),
+              profile,
+            );
+            shadowRows.push(...toRows(profile, shadowScores));
+            shadowProfilesScored++;
+          }
+
+          await batchUpsert(
+            supabase,
+            'drep_methodology_scores',
+            shadowRows,
+            'drep_id,methodology_version',
+            'Methodology shadow scores',
+          );
+        }
+
+        timing.step8_shadow_ms = Date.now() - s8;
+
         const summary = {
           success: true,
           drepsScored: finalScores.size,
           proposalsLoaded: proposalContexts.size,
           votesProcessed: voteRows.length,
           tierChangesDetected,
+          methodologyVersion: CURRENT_METHODOLOGY.version,
+          shadowProfilesScored,
           timing,
         };
 
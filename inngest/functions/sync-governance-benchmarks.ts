@@ -1,9 +1,9 @@
 /**
  * Inngest Function: sync-governance-benchmarks
  *
- * Runs weekly (Sunday 06:00 UTC) to fetch governance metrics from
- * Tally (Ethereum) and SubSquare (Polkadot), plus Cardano GHI data.
- * Stores snapshots in governance_benchmarks table.
+ * Runs weekly (Sunday 06:00 UTC) to collect governance metrics from every
+ * registered chain adapter (Cardano GHI, Tally, SubSquare, Cosmos, Agora,
+ * TzKT). Stores one snapshot per chain per ISO week in governance_benchmarks.
  */
 
 import { inngest } from '@/lib/inngest';
@@ -12,12 +12,8 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { generateText } from '@/lib/ai';
 import { SyncLogger, errMsg } from '@/lib/sync-utils';
 import { logger } from '@/lib/logger';
-import {
-  fetchEthereumBenchmark,
-  fetchPolkadotBenchmark,
-  fetchCardanoBenchmark,
-  type ChainBenchmark,
-} from '@/lib/crossChain';
+import { collectBenchmark, listChainAdapters, type ChainBenchmark } from '@/lib/crossChain';
+import { periodStart } from '@/lib/crossChain/adapter';
 
 export const syncGovernanceBenchmarks = inngest.createFunction(
   {
@@ -27,17 +23,14 @@ export const syncGovernanceBenchmarks = inngest.createFunction(
   },
   [{ cron: '0 6 * * 0' }, { event: 'drepscore/sync.benchmarks' }],
   async ({ step }) => {
-    const cardano = await step.run('fetch-cardano', async () => {
-      return fetchCardanoBenchmark();
-    });
-
-    const ethereum = await step.run('fetch-ethereum', async () => {
-      return fetchEthereumBenchmark();
-    });
-
-    const polkadot = await step.run('fetch-polkadot', async () => {
-      return fetchPolkadotBenchmark();
-    });
+    const adapters = listChainAdapters();
+    const collected: (ChainBenchmark | null)[] = [];
+    for (const adapter of adapters) {
+      collected.push(
+        await step.run(`fetch-${adapter.chain}`, async () => collectBenchmark(adapter)),
+      );
+    }
+    const benchmarks = collected.filter(Boolean) as ChainBenchmark[];
 
     const results = await step.run('store-benchmarks', async () => {
       const supabase = getSupabaseAdmin();
@@ -46,13 +39,12 @@ export const syncGovernanceBenchmarks = inngest.createFunction(
       const stored: string[] = [];
 
       try {
-        const benchmarks = [cardano, ethereum, polkadot].filter(Boolean) as ChainBenchmark[];
-
         for (const b of benchmarks) {
           const { error } = await supabase.from('governance_benchmarks').upsert(
             {
               chain: b.chain,
               period_label: b.periodLabel,
+              period_start: periodStart(new Date(b.fetchedAt)),
               participation_rate: b.participationRate,
               delegate_count: b.delegateCount,
               proposal_count: b.proposalCount,
@@ -79,8 +71,8 @@ export const syncGovernanceBenchmarks = inngest.createFunction(
             epoch_no: 0,
             snapshot_date: new Date().toISOString().slice(0, 10),
             record_count: stored.length,
-            expected_count: 3,
-            coverage_pct: Math.round((stored.length / 3) * 10000) / 100,
+            expected_count: adapters.length,
+            coverage_pct: Math.round((stored.length / adapters.length) * 10000) / 100,
             metadata: { chains: stored },
           },
           { onConflict: 'snapshot_type,epoch_no,snapshot_date' },
@@ -104,7 +96,6 @@ export const syncGovernanceBenchmarks = inngest.createFunction(
     let aiInsight: string | null = null;
 
     aiInsight = await step.run('generate-ai-insight', async () => {
-      const benchmarks = [cardano, ethereum, polkadot].filter(Boolean) as ChainBenchmark[];
       if (benchmarks.length < 2) return null;
 
       const metricsContext = benchmarks
@@ -148,7 +139,6 @@ export const syncGovernanceBenchmarks = inngest.createFunction(
     if (aiInsight) {
       await step.run('store-ai-insight', async () => {
         const supabase = getSupabaseAdmin();
-        const benchmarks = [cardano, ethereum, polkadot].filter(Boolean) as ChainBenchmark[];
         for (const b of benchmarks) {
           await supabase
             .from('governance_benchmarks')
@@ -13,7 +13,6 @@ import {
 } from '@/lib/scoring/spoGovernanceIdentity';
 import { computeSpoDeliberationQuality } from '@/lib/scoring/spoDeliberationQuality';
 import { computeConfidence } from '@/lib/scoring/confidence';
-import { detectSybilPairs } from '@/lib/scoring/sybilDetection';
 import { getExtendedImportanceWeight } from '@/lib/scoring';
 import { getFeatureFlag } from '@/lib/featureFlags';
 import { logger } from '@/lib/logger';
@@ -193,7 +192,6 @@ export const syncSpoScores = inngest.createFunction(
         // Build vote data with V3 fields
         const allVotes: SpoVoteDataV3[] = [];
         const poolVotes = new Map<string, SpoVoteDataV3[]>();
-        const poolVoteMap = new Map<string, Map<string, 'Yes' | 'No' | 'Abstain'>>();
 
         for (const v of voteRows as SpoVoteRow[]) {
           const proposalKey = `${v.proposal_tx_hash}-${v.proposal_index}`;
@@ -217,10 +215,6 @@ export const syncSpoScores = inngest.createFunction(
           allVotes.push(voteData);
           if (!poolVotes.has(v.pool_id)) poolVotes.set(v.pool_id, []);
           poolVotes.get(v.pool_id)!.push(voteData);
-
-          // Build pool vote map for sybil detection
-          if (!poolVoteMap.has(v.pool_id)) poolVoteMap.set(v.pool_id, new Map());
-          poolVoteMap.get(v.pool_id)!.set(proposalKey, v.vote as 'Yes' | 'No' | 'Abstain');
         }
 
         // Compute V3 Deliberation Quality scores
@@ -331,27 +325,6 @@ export const syncSpoScores = inngest.createFunction(
           activeEpochs,
         );
 
-        // Run sybil detection
-        const sybilFlags = detectSybilPairs(poolVoteMap);
-        if (sybilFlags.length > 0) {
-          logger.warn('[sync-spo-scores] Sybil flags detected', { count: sybilFlags.length });
-          const sybilInserts = sybilFlags.map((f) => ({
-            pool_a: f.poolA,
-            pool_b: f.poolB,
-            agreement_rate: f.agreementRate,
-            shared_votes: f.sharedVotes,
-            detected_at: new Date().toISOString(),
-            epoch_no: currentEpoch,
-          }));
-          await batchUpsert(
-            supabase,
-            'spo_sybil_flags',
-            sybilInserts as unknown as Record<string, unknown>[],
-            'pool_a,pool_b,epoch_no',
-            'spo_sybil_flags',
-          );
-        }
-
         // Alignment computation
         const classificationMap = new Map<string, Record<string, number>>();
         for (const c of (classificationRows || []) as ClassificationRow[]) {
@@ -512,7 +485,6 @@ export const syncSpoScores = inngest.createFunction(
               identityEnabled,
               votesProcessed: voteRows.length,
               poolsWithIdentity: identityScores.size,
-              sybilFlagsDetected: sybilFlags.length,
               v3: true,
             },
           },
@@ -525,7 +497,6 @@ export const syncSpoScores = inngest.createFunction(
           votesProcessed: voteRows.length,
           identityEnabled,
           poolsWithIdentity: identityScores.size,
-          sybilFlags: sybilFlags.length,
         };
         await syncLog.finalize(true, null, summary);
         await emitPostHog(true, 'spo_scores', syncLog.elapsed, summary);
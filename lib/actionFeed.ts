@@ -1,3 +1,5 @@
+import { DEFAULT_LOCALE, formatNumber, t, tPlural, type Locale } from '@/lib/i18n';
+
 export type ActionType =
   | 'vote_required'
   | 'delegation_stale'
@@ -40,6 +42,8 @@ export interface ActionFeedInput {
   spoUnexplainedVotesCount?: number;
   /** When set, injects a wrapped_ready action linking to /my-gov/wrapped/[period] */
   wrappedReadyPeriod?: string;
+  /** Language of the action copy; defaults to English */
+  locale?: Locale;
 }
 
 const TIER_THRESHOLDS: Record<string, number> = {
@@ -62,7 +66,10 @@ export function generateActions(input: ActionFeedInput): Action[] {
     delegatedDrepScore,
     delegatedDrepIsActive,
     pendingVotesCount,
+    locale = DEFAULT_LOCALE,
   } = input;
+  const points = (value: number) =>
+    formatNumber(value, locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
 
   const actions: Action[] = [];
 
@@ -71,11 +78,11 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'vote_required',
         type: 'vote_required',
-        title: `${pendingVotesCount} proposal${pendingVotesCount > 1 ? 's' : ''} await your vote`,
-        description: 'Voting on open proposals improves your participation score.',
+        title: tPlural(locale, 'actions.voteRequiredTitle', pendingVotesCount),
+        description: t(locale, 'actions.voteRequiredBody'),
         href: '/discover',
         priority: 1,
-        cta: 'View Proposals',
+        cta: t(locale, 'actions.ctaViewProposals'),
       });
     }
 
@@ -83,11 +90,11 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'score_dropped',
         type: 'score_dropped',
-        title: `Score dropped ${Math.abs(scoreDelta).toFixed(1)} pts`,
-        description: 'Review recent participation and rationale to recover your score.',
+        title: t(locale, 'actions.scoreDroppedTitle', { points: points(Math.abs(scoreDelta)) }),
+        description: t(locale, 'actions.scoreDroppedBody'),
         href: '/my-gov',
         priority: 1,
-        cta: 'See Breakdown',
+        cta: t(locale, 'actions.ctaSeeBreakdown'),
       });
     }
 
@@ -95,11 +102,11 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'inactive_drep',
         type: 'delegation_stale',
-        title: 'Your DRep status is inactive',
-        description: 'Vote on open proposals to restore your active status.',
+        title: t(locale, 'actions.drepInactiveTitle'),
+        description: t(locale, 'actions.drepInactiveBody'),
         href: '/discover',
         priority: 1,
-        cta: 'View Proposals',
+        cta: t(locale, 'actions.ctaViewProposals'),
       });
     }
 
@@ -111,11 +118,14 @@ export function generateActions(input: ActionFeedInput): Action[] {
           actions.push({
             id: 'tier_approaching',
             type: 'tier_approaching',
-            title: `${gap.toFixed(1)} pts from ${nextTier[0]} tier`,
-            description: 'Keep up your participation and rationale rate to reach the next tier.',
+            title: t(locale, 'actions.tierApproachingTitle', {
+              points: points(gap),
+              tier: nextTier[0],
+            }),
+            description: t(locale, 'actions.tierApproachingBody'),
             href: '/my-gov',
             priority: 2,
-            cta: 'See Breakdown',
+            cta: t(locale, 'actions.ctaSeeBreakdown'),
           });
         }
       }
@@ -125,11 +135,11 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'critical_proposal',
         type: 'proposal_expiring',
-        title: `${criticalProposals} critical proposal${criticalProposals > 1 ? 's' : ''} active`,
-        description: 'High-importance proposals may expire soon.',
+        title: tPlural(locale, 'actions.criticalActiveTitle', criticalProposals),
+        description: t(locale, 'actions.criticalActiveBody'),
         href: '/discover',
         priority: 2,
-        cta: 'View Now',
+        cta: t(locale, 'actions.ctaViewNow'),
       });
     }
   }
@@ -139,31 +149,33 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'no_delegation',
         type: 'delegation_stale',
-        title: 'You have no active delegation',
-        description: 'Delegate to a DRep to participate in governance.',
+        title: t(locale, 'actions.noDelegationTitle'),
+        description: t(locale, 'actions.noDelegationBody'),
         href: '/discover',
         priority: 1,
-        cta: 'Find a DRep',
+        cta: t(locale, 'actions.ctaFindDrep'),
       });
     } else if (delegatedDrepIsActive === false) {
       actions.push({
         id: 'delegation_stale',
         type: 'delegation_stale',
-        title: 'Your delegated DRep is inactive',
-        description: "Your DRep hasn't voted recently. Consider re-delegating.",
+        title: t(locale, 'actions.delegationStaleTitle'),
+        description: t(locale, 'actions.delegationStaleBody'),
         href: '/discover',
         priority: 1,
-        cta: 'Find Another DRep',
+        cta: t(locale, 'actions.ctaFindAnotherDrep'),
       });
     } else if (delegatedDrepScore !== undefined && delegatedDrepScore < 30) {
       actions.push({
         id: 'score_dropped',
         type: 'score_dropped',
-        title: "Your DRep's score is low",
-        description: `Score: ${delegatedDrepScore.toFixed(0)}. Consider reviewing their performance.`,
+        title: t(locale, 'actions.delegatedScoreLowTitle'),
+        description: t(locale, 'actions.delegatedScoreLowBody', {
+          score: formatNumber(delegatedDrepScore, locale, { maximumFractionDigits: 0 }),
+        }),
         href: delegatedDrep ? `/drep/${delegatedDrep}` : '/discover',
         priority: 2,
-        cta: 'Review DRep',
+        cta: t(locale, 'actions.ctaReviewDrep'),
       });
     }
 
@@ -171,11 +183,11 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'critical_proposal',
         type: 'proposal_expiring',
-        title: `${criticalProposals} critical proposal${criticalProposals > 1 ? 's' : ''} in progress`,
-        description: 'Important governance decisions are being made.',
+        title: tPlural(locale, 'actions.criticalInProgressTitle', criticalProposals),
+        description: t(locale, 'actions.criticalInProgressBody'),
         href: '/discover',
         priority: 2,
-        cta: 'View Proposals',
+        cta: t(locale, 'actions.ctaViewProposals'),
       });
     }
 
@@ -183,11 +195,11 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'active_proposals',
         type: 'vote_required',
-        title: `${activeProposals} open proposal${activeProposals > 1 ? 's' : ''} being voted on`,
-        description: 'Your DRep is representing your vote on these proposals.',
+        title: tPlural(locale, 'actions.activeProposalsTitle', activeProposals),
+        description: t(locale, 'actions.activeProposalsBody'),
         href: '/discover',
         priority: 3,
-        cta: 'See Proposals',
+        cta: t(locale, 'actions.ctaSeeProposals'),
       });
     }
   }
@@ -197,11 +209,11 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'spo_vote_required',
         type: 'vote_required',
-        title: `${pendingVotesCount} proposal${pendingVotesCount > 1 ? 's' : ''} await your pool\u2019s vote`,
-        description: 'Voting on governance proposals builds your governance reputation.',
+        title: tPlural(locale, 'actions.spoVoteRequiredTitle', pendingVotesCount),
+        description: t(locale, 'actions.spoVoteRequiredBody'),
         href: '/discover',
         priority: 1,
-        cta: 'View Proposals',
+        cta: t(locale, 'actions.ctaViewProposals'),
       });
     }
 
@@ -209,11 +221,13 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'spo_score_dropped',
         type: 'score_dropped',
-        title: `Pool score dropped ${Math.abs(input.spoScoreDelta).toFixed(1)} pts`,
-        description: 'Review your voting participation and rationale to recover.',
+        title: t(locale, 'actions.spoScoreDroppedTitle', {
+          points: points(Math.abs(input.spoScoreDelta)),
+        }),
+        description: t(locale, 'actions.spoScoreDroppedBody'),
         href: '/my-gov',
         priority: 1,
-        cta: 'See Breakdown',
+        cta: t(locale, 'actions.ctaSeeBreakdown'),
       });
     }
 
@@ -221,12 +235,11 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'spo_claim_pool',
         type: 'delegation_stale',
-        title: 'Claim your pool',
-        description:
-          'Verify ownership to unlock your governance dashboard and build your reputation.',
+        title: t(locale, 'actions.claimPoolTitle'),
+        description: t(locale, 'actions.claimPoolBody'),
         href: '/my-gov',
         priority: 1,
-        cta: 'Claim Now',
+        cta: t(locale, 'actions.ctaClaimNow'),
       });
     }
 
@@ -234,11 +247,11 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'spo_first_vote',
         type: 'vote_required',
-        title: 'Cast your first governance vote',
-        description: 'Start building your governance score by voting on an open proposal.',
+        title: t(locale, 'actions.firstVoteTitle'),
+        description: t(locale, 'actions.firstVoteBody'),
         href: '/discover',
         priority: 2,
-        cta: 'View Proposals',
+        cta: t(locale, 'actions.ctaViewProposals'),
       });
     }
 
@@ -246,11 +259,11 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'spo_critical_proposal',
         type: 'proposal_expiring',
-        title: `${criticalProposals} critical proposal${criticalProposals > 1 ? 's' : ''} active`,
-        description: 'High-importance proposals may expire soon.',
+        title: tPlural(locale, 'actions.criticalActiveTitle', criticalProposals),
+        description: t(locale, 'actions.criticalActiveBody'),
         href: '/discover',
         priority: 2,
-        cta: 'View Now',
+        cta: t(locale, 'actions.ctaViewNow'),
       });
     }
 
@@ -258,12 +271,11 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'spo_no_statement',
         type: 'statement_missing',
-        title: 'Publish your governance statement',
-        description:
-          'Tell delegators what your pool stands for in governance. Boosts your Identity score.',
+        title: t(locale, 'actions.statementTitle'),
+        description: t(locale, 'actions.statementBody'),
         href: input.spoPoolId ? `/pool/${input.spoPoolId}` : '/my-gov',
         priority: 2,
-        cta: 'Write Statement',
+        cta: t(locale, 'actions.ctaWriteStatement'),
       });
     }
 
@@ -271,11 +283,11 @@ export function generateActions(input: ActionFeedInput): Action[] {
       actions.push({
         id: 'spo_unexplained_votes',
         type: 'rationale_missing',
-        title: `${input.spoUnexplainedVotesCount} vote${input.spoUnexplainedVotesCount > 1 ? 's' : ''} without rationale`,
-        description: 'Adding rationales improves your Deliberation Quality score.',
+        title: tPlural(locale, 'actions.unexplainedVotesTitle', input.spoUnexplainedVotesCount),
+        description: t(locale, 'actions.unexplainedVotesBody'),
         href: input.spoPoolId ? `/pool/${input.spoPoolId}` : '/my-gov',
         priority: 2,
-        cta: 'Add Rationale',
+        cta: t(locale, 'actions.ctaAddRationale'),
       });
     }
 
@@ -287,11 +299,14 @@ export function generateActions(input: ActionFeedInput): Action[] {
           actions.push({
             id: 'spo_tier_approaching',
             type: 'tier_approaching',
-            title: `${gap.toFixed(1)} pts from ${nextTier[0]} tier`,
-            description: 'Keep voting and providing rationales to reach the next tier.',
+            title: t(locale, 'actions.tierApproachingTitle', {
+              points: points(gap),
+              tier: nextTier[0],
+            }),
+            description: t(locale, 'actions.spoTierApproachingBody'),
             href: '/my-gov',
             priority: 3,
-            cta: 'See Breakdown',
+            cta: t(locale, 'actions.ctaSeeBreakdown'),
           });
         }
       }
@@ -302,11 +317,11 @@ export function generateActions(input: ActionFeedInput): Action[] {
     actions.push({
       id: 'wrapped_ready',
       type: 'wrapped_ready',
-      title: 'Your Governance Wrapped is ready',
-      description: `See your governance story for ${input.wrappedReadyPeriod}.`,
+      title: t(locale, 'actions.wrappedTitle'),
+      description: t(locale, 'actions.wrappedBody', { period: input.wrappedReadyPeriod }),
       href: `/my-gov/wrapped/${input.wrappedReadyPeriod}`,
       priority: 2,
-      cta: 'View Wrapped',
+      cta: t(locale, 'actions.ctaViewWrapped'),
     });
   }
 
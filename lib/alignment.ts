@@ -132,6 +132,13 @@ export function classifyProposal(proposal: ProposalInfo): ClassifiedProposal {
       proposal.meta_json?.body?.motivation ||
       null,
     withdrawalAmountAda,
+    withdrawalAddresses: [...new Set((proposal.withdrawal ?? []).map((w) => w.stake_address))],
+    authors: (proposal.meta_json?.authors ?? [])
+      .map((a) => a?.name?.trim())
+      .filter((name): name is string => !!name),
+    references: (proposal.meta_json?.body?.references ?? [])
+      .map((r) => r?.uri?.trim())
+      .filter((uri): uri is string => !!uri),
     treasuryTier,
     paramChanges: proposal.param_proposal,
     relevantPrefs,
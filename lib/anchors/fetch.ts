@@ -0,0 +1,215 @@
+/**
+ * Network layer of the anchor fetcher: races candidate URLs (staggered so the
+ * preferred gateway gets a head start), reads each body as a stream (hashing
+ * with blake2b-256 as bytes arrive and giving up past the byte limit), checks
+ * the hash against the on-chain anchor hash, and falls back through the
+ * remaining candidates.
+ * No persistence here — see ./index for the content cache and retry queue.
+ */
+
+import { blake2bFinal, blake2bHex, blake2bInit, blake2bUpdate } from 'blakejs';
+import { candidateUrls, hostOf } from './gateways';
+import type { HostLimiter } from './limiter';
+
+export const ANCHOR_FETCH_TIMEOUT_MS = 10_000;
+export const ANCHOR_MAX_BYTES = 500_000;
+/** Delay before the next gateway is raced alongside a slow one */
+export const ANCHOR_HEDGE_DELAY_MS = 1_500;
+
+export type AnchorFetchStatus =
+  'ok' | 'hash_mismatch' | 'not_found' | 'too_large' | 'timeout' | 'error';
+
+export interface AnchorContent {
+  status: AnchorFetchStatus;
+  /** Candidate URL that produced this result */
+  url: string;
+  text: string | null;
+  /** blake2b-256 of the raw bytes, when any were received */
+  contentHash: string | null;
+  /** true/false when an expected hash was given, null otherwise */
+  hashVerified: boolean | null;
+  error?: string;
+}
+
+export interface AnchorFetchOptions {
+  expectedHash?: string | null;
+  timeoutMs?: number;
+  maxBytes?: number;
+  hedgeDelayMs?: number;
+  gateways?: string[];
+  limiter?: HostLimiter;
+}
+
+/** Failure statuses in order of how much they tell the caller */
+const FAILURE_RANK: AnchorFetchStatus[] = [
+  'hash_mismatch',
+  'too_large',
+  'not_found',
+  'timeout',
+  'error',
+];
+
+export function blake2b256(bytes: Uint8Array): string {
+  return blake2bHex(bytes, undefined, 32);
+}
+
+/**
+ * Read a response body chunk by chunk, hashing as it goes. Returns null (and
+ * cancels the stream) as soon as more than maxBytes arrive, so a body with no
+ * or a false content-length is never buffered past the limit.
+ */
+async function readBody(
+  res: Response,
+  maxBytes: number,
+): Promise<{ bytes: Uint8Array; contentHash: string } | null> {
+  const ctx = blake2bInit(32);
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  if (res.body) {
+    const reader = res.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      length += value.length;
+      if (length > maxBytes) {
+        await reader.cancel().catch(() => {});
+        return null;
+      }
+      blake2bUpdate(ctx, value);
+      chunks.push(value);
+    }
+  }
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  const contentHash = Array.from(blake2bFinal(ctx), (b) => b.toString(16).padStart(2, '0')).join(
+    '',
+  );
+  return { bytes, contentHash };
+}
+
+async function fetchCandidate(
+  url: string,
+  opts: Required<Pick<AnchorFetchOptions, 'timeoutMs' | 'maxBytes'>> & {
+    expectedHash: string | null;
+    signal: AbortSignal;
+  },
+): Promise<AnchorContent> {
+  const result = (
+    status: AnchorFetchStatus,
+    extra: Partial<AnchorContent> = {},
+  ): AnchorContent => ({
+    status,
+    url,
+    text: null,
+    contentHash: null,
+    hashVerified: null,
+    ...extra,
+  });
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  opts.signal.addEventListener('abort', abort);
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, opts.timeoutMs);
+
+  try {
+    const res = await fetch(url, {
+      signal: controller.signal,
+      headers: { Accept: 'application/json, application/ld+json, text/plain, */*' },
+      redirect: 'follow',
+    });
+    if (res.status === 404 || res.status === 410) return result('not_found');
+    if (!res.ok) return result('error', { error: `HTTP ${res.status}` });
+
+    const contentLength = res.headers.get('content-length');
+    if (contentLength && parseInt(contentLength, 10) > opts.maxBytes) return result('too_large');
+
+    const body = await readBody(res, opts.maxBytes);
+    if (!body) return result('too_large');
+
+    const { bytes, contentHash } = body;
+    const hashVerified = opts.expectedHash ? contentHash === opts.expectedHash.toLowerCase() : null;
+    return result(hashVerified === false ? 'hash_mismatch' : 'ok', {
+      text: new TextDecoder('utf-8').decode(bytes),
+      contentHash,
+      hashVerified,
+    });
+  } catch (err) {
+    if (timedOut) return result('timeout');
+    return result('error', { error: err instanceof Error ? err.message : String(err) });
+  } finally {
+    clearTimeout(timeoutId);
+    opts.signal.removeEventListener('abort', abort);
+  }
+}
+
+function bestFailure(url: string, attempts: AnchorContent[]): AnchorContent {
+  for (const status of FAILURE_RANK) {
+    const match = attempts.find((a) => a.status === status);
+    if (match) return match;
+  }
+  return { status: 'error', url, text: null, contentHash: null, hashVerified: null };
+}
+
+/**
+ * Fetch an anchor from the first candidate that returns verified content.
+ * Candidates start one hedge delay apart, or immediately once the previous one
+ * fails; the first verified response aborts the rest. Content that fails hash
+ * verification is only returned when no candidate produced a match.
+ */
+export async function fetchAnchorContent(
+  url: string,
+  options: AnchorFetchOptions = {},
+): Promise<AnchorContent> {
+  const candidates = candidateUrls(url, options.gateways);
+  const timeoutMs = options.timeoutMs ?? ANCHOR_FETCH_TIMEOUT_MS;
+  const maxBytes = options.maxBytes ?? ANCHOR_MAX_BYTES;
+  const hedgeDelayMs = options.hedgeDelayMs ?? ANCHOR_HEDGE_DELAY_MS;
+  const expectedHash = options.expectedHash ?? null;
+  const race = new AbortController();
+
+  return new Promise<AnchorContent>((resolve) => {
+    const attempts: AnchorContent[] = [];
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    let launched = 0;
+    let settled = false;
+
+    const settle = (result: AnchorContent) => {
+      if (settled) return;
+      settled = true;
+      timers.forEach(clearTimeout);
+      race.abort();
+      resolve(result);
+    };
+
+    const launch = () => {
+      if (settled || launched >= candidates.length) return;
+      const candidate = candidates[launched++];
+      const attempt = () =>
+        race.signal.aborted
+          ? Promise.resolve(null)
+          : fetchCandidate(candidate, { timeoutMs, maxBytes, expectedHash, signal: race.signal });
+      const run = options.limiter ? options.limiter.run(hostOf(candidate), attempt) : attempt();
+
+      run.then((result) => {
+        if (!result || settled) return;
+        if (result.status === 'ok') return settle(result);
+        attempts.push(result);
+        if (attempts.length === candidates.length) return settle(bestFailure(url, attempts));
+        launch();
+      });
+    };
+
+    launch();
+    for (let i = 1; i < candidates.length; i++) {
+      timers.push(setTimeout(launch, i * hedgeDelayMs));
+    }
+  });
+}
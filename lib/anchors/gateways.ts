@@ -0,0 +1,55 @@
+/**
+ * IPFS gateway resolution for governance anchors.
+ * An ipfs:// anchor (or a URL that is already a gateway path) resolves to the same
+ * content on every gateway, so each becomes one candidate per configured gateway.
+ */
+
+export const DEFAULT_IPFS_GATEWAYS = [
+  'https://ipfs.io',
+  'https://dweb.link',
+  'https://w3s.link',
+  'https://gateway.pinata.cloud',
+];
+
+/** Gateways in preference order; IPFS_GATEWAYS (comma-separated origins) overrides the default */
+export function ipfsGateways(): string[] {
+  const configured = process.env.IPFS_GATEWAYS?.split(',')
+    .map((g) => g.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+  return configured?.length ? configured : DEFAULT_IPFS_GATEWAYS;
+}
+
+/**
+ * The `<cid>[/path]` part of an IPFS anchor, or null for location-addressed URLs.
+ * Accepts ipfs://<cid>, ipfs://ipfs/<cid> and http(s) gateway URLs of the form /ipfs/<cid>.
+ */
+export function ipfsPath(url: string): string | null {
+  const trimmed = url.trim();
+  if (trimmed.startsWith('ipfs://')) {
+    const path = trimmed.slice(7).replace(/^ipfs\//, '');
+    return path || null;
+  }
+  const match = trimmed.match(/^https?:\/\/[^/]+\/ipfs\/(.+)$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Candidate URLs to try for an anchor, in order. A gateway URL keeps its own host
+ * first so anchors pinned on a private gateway are still served from it.
+ */
+export function candidateUrls(url: string, gateways: string[] = ipfsGateways()): string[] {
+  const path = ipfsPath(url);
+  if (!path) return [url.trim()];
+
+  const candidates = gateways.map((g) => `${g}/ipfs/${path}`);
+  if (!url.startsWith('ipfs://')) candidates.unshift(url.trim());
+  return [...new Set(candidates)];
+}
+
+export function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
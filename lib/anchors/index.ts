@@ -0,0 +1,213 @@
+/**
+ * Anchor Fetcher — shared, content-addressed fetch for off-chain governance anchors
+ * (CIP-100 vote rationales, CIP-136 CC rationales, CIP-119/108 metadata).
+ *
+ * Every fetch goes through three layers:
+ * 1. Content cache — verified bytes are stored once, keyed by their blake2b-256 hash,
+ *    so an anchor whose on-chain hash we know is never fetched twice.
+ * 2. Network — multi-gateway racing with per-host concurrency limits (./fetch).
+ * 3. Retry queue — unreachable anchors are parked with exponential backoff and
+ *    retried by the retry-anchor-fetches function instead of on every sync.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { errMsg } from '@/lib/sync-utils';
+import { fetchAnchorContent, type AnchorContent, type AnchorFetchOptions } from './fetch';
+import { createHostLimiter } from './limiter';
+
+export * from './fetch';
+export { candidateUrls, ipfsGateways, ipfsPath } from './gateways';
+
+const ANCHOR_HOST_CONCURRENCY = 4;
+const RETRY_BASE_DELAY_MS = 30 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+/** Roughly a week of retries before an anchor is given up on */
+export const MAX_ANCHOR_ATTEMPTS = 10;
+const RETRY_CONCURRENCY = 8;
+
+const hostLimiter = createHostLimiter(ANCHOR_HOST_CONCURRENCY);
+
+export type AnchorQueueStatus = 'ok' | 'mismatch' | 'pending' | 'dead';
+
+export interface AnchorResult extends Omit<AnchorContent, 'status'> {
+  /** 'deferred': the anchor is waiting in the retry queue and was not fetched */
+  status: AnchorContent['status'] | 'deferred';
+  fromCache: boolean;
+}
+
+export interface FetchAnchorOptions extends Omit<AnchorFetchOptions, 'limiter'> {
+  /** Fetch even if the retry queue says the anchor is not due yet */
+  force?: boolean;
+}
+
+/** Delay before retry number `attempts` (1-based): 30 min doubling, capped at a day */
+export function anchorRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_DELAY_MS);
+}
+
+function fromCacheRow(
+  url: string,
+  row: { content_hash: string; content: string },
+  expectedHash: string | null,
+): AnchorResult {
+  const hashVerified = expectedHash ? row.content_hash === expectedHash.toLowerCase() : null;
+  return {
+    status: hashVerified === false ? 'hash_mismatch' : 'ok',
+    url,
+    text: row.content,
+    contentHash: row.content_hash,
+    hashVerified,
+    fromCache: true,
+  };
+}
+
+/**
+ * Fetch an anchor through the content cache, gateways and retry queue.
+ * Never throws: storage errors are logged and the network result is still returned.
+ */
+export async function fetchAnchor(
+  url: string,
+  options: FetchAnchorOptions = {},
+): Promise<AnchorResult> {
+  const supabase = getSupabaseAdmin();
+  const expectedHash = options.expectedHash?.toLowerCase() ?? null;
+
+  const [cached, queued] = await Promise.all([
+    expectedHash
+      ? supabase
+          .from('anchor_content_cache')
+          .select('content_hash, content')
+          .eq('content_hash', expectedHash)
+          .maybeSingle()
+      : Promise.resolve({ data: null }),
+    supabase
+      .from('anchor_fetch_queue')
+      .select('status, expected_hash, content_hash, attempts, next_attempt_at')
+      .eq('url', url)
+      .maybeSingle(),
+  ]);
+
+  if (cached.data) return fromCacheRow(url, cached.data, expectedHash);
+
+  const queue = queued.data;
+  // The queue row describes the URL as fetched for one on-chain hash; a new
+  // hash (e.g. metadata fixed in place) means the old verdict no longer applies
+  const sameHash = (queue?.expected_hash ?? null) === expectedHash;
+  if (queue?.status === 'ok' && sameHash && queue.content_hash) {
+    const { data } = await supabase
+      .from('anchor_content_cache')
+      .select('content_hash, content')
+      .eq('content_hash', queue.content_hash)
+      .maybeSingle();
+    if (data) return fromCacheRow(url, data, expectedHash);
+  }
+
+  const notDue =
+    sameHash &&
+    (queue?.status === 'dead' ||
+      (queue?.status === 'pending' &&
+        queue.next_attempt_at &&
+        new Date(queue.next_attempt_at).getTime() > Date.now()));
+  if (notDue && !options.force) {
+    return {
+      status: 'deferred',
+      url,
+      text: null,
+      contentHash: null,
+      hashVerified: null,
+      fromCache: false,
+    };
+  }
+
+  const result = await fetchAnchorContent(url, { ...options, expectedHash, limiter: hostLimiter });
+  const priorAttempts = sameHash ? (queue?.attempts ?? 0) : 0;
+  const now = new Date().toISOString();
+
+  try {
+    if (result.text !== null && result.contentHash) {
+      await supabase.from('anchor_content_cache').upsert(
+        {
+          content_hash: result.contentHash,
+          content: result.text,
+          byte_size: new TextEncoder().encode(result.text).length,
+          source_url: result.url,
+        },
+        { onConflict: 'content_hash', ignoreDuplicates: true },
+      );
+      // Content-addressed hits need no queue row; everything else records url → hash
+      if (queue || result.status !== 'ok' || !expectedHash) {
+        await supabase.from('anchor_fetch_queue').upsert(
+          {
+            url,
+            expected_hash: expectedHash,
+            status: (result.status === 'ok' ? 'ok' : 'mismatch') as AnchorQueueStatus,
+            content_hash: result.contentHash,
+            attempts: priorAttempts + 1,
+            last_status: result.status,
+            last_error: null,
+            next_attempt_at: null,
+            last_attempt_at: now,
+          },
+          { onConflict: 'url' },
+        );
+      }
+    } else {
+      const attempts = priorAttempts + 1;
+      const dead = result.status === 'too_large' || attempts >= MAX_ANCHOR_ATTEMPTS;
+      await supabase.from('anchor_fetch_queue').upsert(
+        {
+          url,
+          expected_hash: expectedHash,
+          status: (dead ? 'dead' : 'pending') as AnchorQueueStatus,
+          content_hash: null,
+          attempts,
+          last_status: result.status,
+          last_error: result.error ?? null,
+          next_attempt_at: dead
+            ? null
+            : new Date(Date.now() + anchorRetryDelayMs(attempts)).toISOString(),
+          last_attempt_at: now,
+        },
+        { onConflict: 'url' },
+      );
+    }
+  } catch (err) {
+    logger.warn('[anchors] Failed to persist fetch result', { url, error: errMsg(err) });
+  }
+
+  return { ...result, fromCache: false };
+}
+
+/**
+ * Retry anchors whose backoff has elapsed. Recovered content lands in the cache,
+ * where the next rationale or metadata sync picks it up without a network call.
+ */
+export async function retryQueuedAnchors(limit = 200): Promise<{
+  attempted: number;
+  recovered: number;
+  failed: number;
+}> {
+  const supabase = getSupabaseAdmin();
+  const { data: due, error } = await supabase
+    .from('anchor_fetch_queue')
+    .select('url, expected_hash')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at')
+    .limit(limit);
+  if (error) throw new Error(`anchor_fetch_queue: ${error.message}`);
+
+  const rows = due ?? [];
+  let recovered = 0;
+
+  for (let i = 0; i < rows.length; i += RETRY_CONCURRENCY) {
+    const chunk = rows.slice(i, i + RETRY_CONCURRENCY);
+    const results = await Promise.all(
+      chunk.map((r) => fetchAnchor(r.url, { expectedHash: r.expected_hash, force: true })),
+    );
+    recovered += results.filter((r) => r.text !== null).length;
+  }
+
+  return { attempted: rows.length, recovered, failed: rows.length - recovered };
+}
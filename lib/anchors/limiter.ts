@@ -0,0 +1,44 @@
+/**
+ * Per-host concurrency limiter — keeps a burst of anchors on one gateway or
+ * self-hosted server from tripping its rate limits while other hosts proceed.
+ */
+
+export interface HostLimiter {
+  run<T>(host: string, task: () => Promise<T>): Promise<T>;
+  /** In-flight tasks for a host (for tests and logging) */
+  active(host: string): number;
+}
+
+export function createHostLimiter(perHost: number): HostLimiter {
+  const slots = new Map<string, { active: number; waiting: Array<() => void> }>();
+
+  function slot(host: string) {
+    let s = slots.get(host);
+    if (!s) {
+      s = { active: 0, waiting: [] };
+      slots.set(host, s);
+    }
+    return s;
+  }
+
+  return {
+    async run<T>(host: string, task: () => Promise<T>): Promise<T> {
+      const s = slot(host);
+      if (s.active >= perHost) {
+        await new Promise<void>((resolve) => s.waiting.push(resolve));
+      }
+      s.active++;
+      try {
+        return await task();
+      } finally {
+        s.active--;
+        const next = s.waiting.shift();
+        if (next) next();
+        else if (s.active === 0) slots.delete(host);
+      }
+    },
+    active(host: string) {
+      return slots.get(host)?.active ?? 0;
+    },
+  };
+}
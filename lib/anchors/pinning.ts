@@ -0,0 +1,187 @@
+/**
+ * IPFS pinning for documents we publish as governance anchors (CIP-100 vote
+ * rationales). Backends are pluggable: Pinata is built in and used when
+ * PINATA_JWT is set, and the in-memory local backend stands in for tests and
+ * development. IPFS_PINNING_BACKEND selects one by name.
+ *
+ * Pinned bytes are addressed by a CIDv1 (raw codec, sha2-256), which is what
+ * IPFS assigns a single-block file added with CID version 1. computeCid()
+ * reproduces it locally, so a backend's answer can be checked.
+ */
+
+import { createHash } from 'node:crypto';
+import { logger } from '@/lib/logger';
+
+export interface PinResult {
+  cid: string;
+  backend: string;
+}
+
+export interface PinningBackend {
+  name: string;
+  /** Whether the backend has what it needs (credentials) to pin */
+  isConfigured(): boolean;
+  /** Pin the exact bytes and return their CID */
+  pin(content: Uint8Array, filename: string): Promise<string>;
+}
+
+export class PinningError extends Error {
+  constructor(
+    message: string,
+    public readonly backend: string,
+  ) {
+    super(message);
+    this.name = 'PinningError';
+  }
+}
+
+/** Single-block IPFS files are at most one default chunk */
+const MAX_SINGLE_BLOCK_BYTES = 256 * 1024;
+const PIN_TIMEOUT_MS = 15_000;
+
+// ---------------------------------------------------------------------------
+// CIDs
+// ---------------------------------------------------------------------------
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+function base32(bytes: Uint8Array): string {
+  let out = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return out;
+}
+
+/** CIDv1 of a single raw block: multibase 'b' + version, raw codec, sha2-256 multihash */
+export function computeCid(content: Uint8Array): string {
+  if (content.length > MAX_SINGLE_BLOCK_BYTES) {
+    throw new Error(`Content exceeds a single IPFS block (${content.length} bytes)`);
+  }
+  const digest = createHash('sha256').update(content).digest();
+  return `b${base32(new Uint8Array([0x01, 0x55, 0x12, 0x20, ...digest]))}`;
+}
+
+export function ipfsAnchorUrl(cid: string): string {
+  return `ipfs://${cid}`;
+}
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+export function createPinataBackend(
+  jwt: () => string | undefined = () => process.env.PINATA_JWT,
+  fetchImpl: typeof fetch = (...args) => fetch(...args),
+): PinningBackend {
+  return {
+    name: 'pinata',
+    isConfigured: () => !!jwt(),
+    async pin(content, filename) {
+      const token = jwt();
+      if (!token) throw new PinningError('PINATA_JWT is not set', 'pinata');
+
+      const form = new FormData();
+      form.append(
+        'file',
+        new Blob([new Uint8Array(content)], { type: 'application/ld+json' }),
+        filename,
+      );
+      form.append('pinataOptions', JSON.stringify({ cidVersion: 1 }));
+      form.append('pinataMetadata', JSON.stringify({ name: filename }));
+
+      const res = await fetchImpl('https://api.pinata.cloud/pinning/pinFileToIPFS', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+        body: form,
+        signal: AbortSignal.timeout(PIN_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        throw new PinningError(`Pinata responded ${res.status}`, 'pinata');
+      }
+      const data = (await res.json()) as { IpfsHash?: string };
+      if (!data.IpfsHash) throw new PinningError('Pinata returned no CID', 'pinata');
+      return data.IpfsHash;
+    },
+  };
+}
+
+export interface LocalPinningBackend extends PinningBackend {
+  /** Bytes pinned under a CID, if any */
+  get(cid: string): Uint8Array | undefined;
+}
+
+/** In-memory stand-in: content-addresses bytes exactly as IPFS would, stores nothing durable */
+export function createLocalPinningBackend(): LocalPinningBackend {
+  const pins = new Map<string, Uint8Array>();
+  return {
+    name: 'local',
+    isConfigured: () => true,
+    async pin(content) {
+      const cid = computeCid(content);
+      pins.set(cid, content);
+      return cid;
+    },
+    get: (cid) => pins.get(cid),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const backends = new Map<string, PinningBackend>();
+
+export function registerPinningBackend(backend: PinningBackend): void {
+  if (backends.has(backend.name)) {
+    throw new Error(`Pinning backend "${backend.name}" is already registered`);
+  }
+  backends.set(backend.name, backend);
+}
+
+/** Test helper: drop a registered backend */
+export function unregisterPinningBackend(name: string): boolean {
+  return backends.delete(name);
+}
+
+/**
+ * The backend to pin with: IPFS_PINNING_BACKEND when set, otherwise the first
+ * configured non-local backend. Null when nothing can pin.
+ */
+export function getPinningBackend(): PinningBackend | null {
+  const selected = process.env.IPFS_PINNING_BACKEND;
+  if (selected) {
+    const backend = backends.get(selected);
+    return backend?.isConfigured() ? backend : null;
+  }
+  return [...backends.values()].find((b) => b.name !== 'local' && b.isConfigured()) ?? null;
+}
+
+/**
+ * Pin content and check the returned CID against the locally computed one, so
+ * the anchor we hand out is guaranteed to resolve to these exact bytes.
+ */
+export async function pinContent(
+  content: Uint8Array,
+  filename: string,
+  backend: PinningBackend,
+): Promise<PinResult> {
+  const expected = computeCid(content);
+  const cid = await backend.pin(content, filename);
+  if (cid !== expected) {
+    logger.error('[pinning] CID mismatch', { backend: backend.name, expected, cid });
+    throw new PinningError(`Backend returned CID ${cid}, expected ${expected}`, backend.name);
+  }
+  return { cid, backend: backend.name };
+}
+
+registerPinningBackend(createPinataBackend());
+registerPinningBackend(createLocalPinningBackend());
@@ -60,6 +60,11 @@ const ERROR_REGISTRY: Record<string, Omit<ApiErrorDef, 'code'>> = {
     message: "Parameter '{param}' has invalid value '{value}'.",
     hint: '{context}',
   },
+  invalid_stake_address: {
+    status: 400,
+    message: "The stake address '{value}' is not a valid format.",
+    hint: "Expected bech32 'stake1...' (or 'stake_test1...' on testnets).",
+  },
   missing_parameter: {
     status: 400,
     message: "Required parameter '{param}' is missing.",
@@ -77,6 +82,28 @@ const ERROR_REGISTRY: Record<string, Omit<ApiErrorDef, 'code'>> = {
     message: "No proposal found with ID '{value}'.",
     hint: 'The proposal may not have been synced yet. Data syncs every 30 minutes.',
   },
+  account_not_found: {
+    status: 404,
+    message: "No delegation history found for stake address '{value}'.",
+    hint: 'The address may be unregistered, or has never delegated since our snapshots began.',
+  },
+  report_not_found: {
+    status: 404,
+    message: "No governance report is available for epoch '{value}'.",
+    hint: 'State of Governance reports are published at the end of each epoch. Future epochs have no data.',
+  },
+  webhook_not_found: {
+    status: 404,
+    message: "No webhook subscription found with ID '{value}'.",
+    hint: 'Subscriptions are only visible to the API key that created them.',
+  },
+
+  // Conflict (409)
+  webhook_limit_reached: {
+    status: 409,
+    message: 'This API key already has the maximum of {limit} webhook subscriptions.',
+    hint: 'Delete an unused subscription, or widen the filters of an existing one.',
+  },
 
   // Access (403)
   tier_insufficient: {
@@ -85,6 +112,11 @@ const ERROR_REGISTRY: Record<string, Omit<ApiErrorDef, 'code'>> = {
       "This endpoint requires '{required_tier}' tier or above. Your key is '{current_tier}'.",
     hint: 'Upgrade at drepscore.io/developers/upgrade.',
   },
+  scope_insufficient: {
+    status: 403,
+    message: "This API key is not scoped for '{scope}' endpoints.",
+    hint: 'Add the scope to the key at drepscore.io/developers/keys, or use a different key.',
+  },
 
   // Server (500)
   internal_error: {
@@ -7,7 +7,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { generateRequestId, normalizeEndpoint } from './response';
 import { apiError } from './response';
 import { checkRateLimit, rateLimitHeaders } from './rateLimit';
-import { validateApiKey } from './keys';
+import { validateApiKey, keyAllowsEndpoint, scopeForEndpoint } from './keys';
 import { logApiRequest, trackFirstRequest } from './logging';
 import { createHash } from 'crypto';
 
@@ -24,6 +24,8 @@ type ApiHandler = (request: NextRequest, ctx: ApiContext) => Promise<NextRespons
 interface HandlerOptions {
   requiredTier?: string;
   skipRateLimit?: boolean;
+  /** Per-key data: never cache at the edge */
+  privateResponse?: boolean;
 }
 
 function hashIp(ip: string): string {
@@ -50,6 +52,13 @@ export function withApiHandler(handler: ApiHandler, options: HandlerOptions = {}
           keyId = result.key.id;
           keyPrefix = result.key.keyPrefix;
           tier = result.key.tier;
+          if (!keyAllowsEndpoint(result.key, endpoint)) {
+            return apiError(
+              'scope_insufficient',
+              { scope: scopeForEndpoint(endpoint) ?? endpoint },
+              { requestId },
+            );
+          }
         } else {
           return apiError(result.errorCode || 'invalid_api_key', {}, { requestId });
         }
@@ -81,6 +90,19 @@ export function withApiHandler(handler: ApiHandler, options: HandlerOptions = {}
         rlHeaders = rateLimitHeaders(rl);
 
         if (!rl.allowed) {
+          // Logged so owners can see rate-limit hits per key in the developer dashboard
+          logApiRequest({
+            keyId,
+            keyPrefix,
+            tier,
+            endpoint,
+            method: request.method,
+            statusCode: 429,
+            responseMs: Date.now() - startMs,
+            ipHash,
+            userAgent: request.headers.get('user-agent'),
+            errorCode: 'rate_limit_exceeded',
+          });
           return apiError(
             'rate_limit_exceeded',
             {
@@ -116,7 +138,9 @@ export function withApiHandler(handler: ApiHandler, options: HandlerOptions = {}
         response.headers.set(k, v);
       }
 
-      if (request.method === 'GET' && response.status >= 200 && response.status < 300) {
+      if (options.privateResponse) {
+        response.headers.set('Cache-Control', 'private, no-store');
+      } else if (request.method === 'GET' && response.status >= 200 && response.status < 300) {
         response.headers.set('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=600');
       }
 
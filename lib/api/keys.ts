@@ -1,13 +1,18 @@
 /**
  * API Key Management
- * Generation, hashing, validation against Supabase api_keys table.
+ * Generation, hashing, validation against Supabase api_keys table,
+ * plus owner self-service (create, rotate, rename, scope, revoke).
  */
 
 import { createHash, randomBytes } from 'crypto';
 import { getSupabaseAdmin } from '@/lib/supabase';
+import { scopeForEndpoint, type ApiKeyScope } from './scopes';
+
+export { API_KEY_SCOPES, scopeForEndpoint, type ApiKeyScope } from './scopes';
 
 const KEY_PREFIX = 'ds_live_';
 const KEY_BYTE_LENGTH = 30; // 40 chars in base64url
+const MAX_ACTIVE_KEYS_PER_WALLET = 5;
 
 export interface ApiKeyRecord {
   id: string;
@@ -20,6 +25,8 @@ export interface ApiKeyRecord {
   createdAt: string;
   lastUsedAt: string | null;
   revokedAt: string | null;
+  /** null = unrestricted */
+  scopes: ApiKeyScope[] | null;
 }
 
 export function hashApiKey(rawKey: string): string {
@@ -39,6 +46,42 @@ export function isApiKeyFormat(value: string): boolean {
   return value.startsWith(KEY_PREFIX) && value.length >= 20;
 }
 
+interface ApiKeyRow {
+  id: string;
+  key_prefix: string;
+  name: string;
+  tier: ApiKeyRecord['tier'];
+  owner_wallet: string | null;
+  rate_limit: number;
+  rate_window: ApiKeyRecord['rateWindow'];
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  scopes?: ApiKeyScope[] | null;
+}
+
+function toApiKeyRecord(row: ApiKeyRow): ApiKeyRecord {
+  return {
+    id: row.id,
+    keyPrefix: row.key_prefix,
+    name: row.name,
+    tier: row.tier,
+    ownerWallet: row.owner_wallet,
+    rateLimit: row.rate_limit,
+    rateWindow: row.rate_window,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+    scopes: row.scopes ?? null,
+  };
+}
+
+export function keyAllowsEndpoint(key: Pick<ApiKeyRecord, 'scopes'>, endpoint: string): boolean {
+  if (!key.scopes) return true;
+  const scope = scopeForEndpoint(endpoint);
+  return scope === null || key.scopes.includes(scope);
+}
+
 export interface KeyValidationResult {
   valid: boolean;
   key?: ApiKeyRecord;
@@ -74,21 +117,7 @@ export async function validateApiKey(rawKey: string): Promise<KeyValidationResul
     .eq('id', row.id)
     .then();
 
-  return {
-    valid: true,
-    key: {
-      id: row.id,
-      keyPrefix: row.key_prefix,
-      name: row.name,
-      tier: row.tier,
-      ownerWallet: row.owner_wallet,
-      rateLimit: row.rate_limit,
-      rateWindow: row.rate_window,
-      createdAt: row.created_at,
-      lastUsedAt: row.last_used_at,
-      revokedAt: row.revoked_at,
-    },
-  };
+  return { valid: true, key: toApiKeyRecord(row) };
 }
 
 export function resolveApiKeyFromRequest(request: Request): string | null {
@@ -105,3 +134,161 @@ const TIER_DEFAULTS: Record<string, { rateLimit: number; rateWindow: 'hour' | 'd
 export function getTierDefaults(tier: string) {
   return TIER_DEFAULTS[tier] || TIER_DEFAULTS.public;
 }
+
+// ── Owner self-service ───────────────────────────────────────────────────────
+
+const KEY_COLUMNS =
+  'id, key_prefix, name, tier, owner_wallet, rate_limit, rate_window, created_at, last_used_at, revoked_at, scopes';
+
+export class ApiKeyLimitError extends Error {
+  constructor() {
+    super(`A wallet can hold at most ${MAX_ACTIVE_KEYS_PER_WALLET} active API keys`);
+    this.name = 'ApiKeyLimitError';
+  }
+}
+
+export interface IssuedApiKey {
+  /** Shown to the owner exactly once — only the hash is stored */
+  rawKey: string;
+  key: ApiKeyRecord;
+}
+
+export async function listApiKeysForWallet(ownerWallet: string): Promise<ApiKeyRecord[]> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(KEY_COLUMNS)
+    .eq('owner_wallet', ownerWallet)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data || []).map(toApiKeyRecord);
+}
+
+/** Fetch a key only if it belongs to `ownerWallet` */
+export async function getOwnedApiKey(
+  ownerWallet: string,
+  keyId: string,
+): Promise<ApiKeyRecord | null> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from('api_keys')
+    .select(KEY_COLUMNS)
+    .eq('id', keyId)
+    .eq('owner_wallet', ownerWallet)
+    .maybeSingle();
+  return data ? toApiKeyRecord(data) : null;
+}
+
+/**
+ * Issue a new key for a wallet. Self-service keys start on the public tier;
+ * tier upgrades remain an admin action.
+ */
+export async function createApiKeyForWallet(
+  ownerWallet: string,
+  name: string,
+  scopes: ApiKeyScope[] | null,
+  options: { tier?: ApiKeyRecord['tier']; rotatedFrom?: string } = {},
+): Promise<IssuedApiKey> {
+  const supabase = getSupabaseAdmin();
+
+  if (!options.rotatedFrom) {
+    const { count } = await supabase
+      .from('api_keys')
+      .select('id', { count: 'exact', head: true })
+      .eq('owner_wallet', ownerWallet)
+      .is('revoked_at', null);
+    if ((count ?? 0) >= MAX_ACTIVE_KEYS_PER_WALLET) throw new ApiKeyLimitError();
+  }
+
+  const tier = options.tier ?? 'public';
+  const { rateLimit, rateWindow } = getTierDefaults(tier);
+  const rawKey = generateApiKey();
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .insert({
+      key_hash: hashApiKey(rawKey),
+      key_prefix: extractKeyPrefix(rawKey),
+      name,
+      tier,
+      owner_wallet: ownerWallet,
+      rate_limit: rateLimit,
+      rate_window: rateWindow,
+      scopes,
+      rotated_from: options.rotatedFrom ?? null,
+    })
+    .select(KEY_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(error?.message || 'Failed to create API key');
+
+  return { rawKey, key: toApiKeyRecord(data) };
+}
+
+export async function updateOwnedApiKey(
+  ownerWallet: string,
+  keyId: string,
+  changes: { name?: string; scopes?: ApiKeyScope[] | null },
+): Promise<ApiKeyRecord | null> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update(changes)
+    .eq('id', keyId)
+    .eq('owner_wallet', ownerWallet)
+    .is('revoked_at', null)
+    .select(KEY_COLUMNS)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? toApiKeyRecord(data) : null;
+}
+
+export async function revokeOwnedApiKey(ownerWallet: string, keyId: string): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', keyId)
+    .eq('owner_wallet', ownerWallet)
+    .is('revoked_at', null)
+    .select('id');
+  if (error) throw new Error(error.message);
+  if (!data?.length) return false;
+
+  // Webhook subscriptions belong to the key, so they stop with it
+  const { error: subError } = await supabase
+    .from('webhook_subscriptions')
+    .update({
+      active: false,
+      disabled_reason: 'API key revoked',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('api_key_id', keyId)
+    .eq('active', true);
+  if (subError) throw new Error(subError.message);
+  return true;
+}
+
+/**
+ * Replace a key with a fresh secret carrying the same name, tier, scopes and
+ * webhook subscriptions, then revoke the old one. Returns null if the key is
+ * not owned or already revoked.
+ */
+export async function rotateOwnedApiKey(
+  ownerWallet: string,
+  keyId: string,
+): Promise<IssuedApiKey | null> {
+  const existing = await getOwnedApiKey(ownerWallet, keyId);
+  if (!existing || existing.revokedAt) return null;
+
+  const issued = await createApiKeyForWallet(ownerWallet, existing.name, existing.scopes, {
+    tier: existing.tier,
+    rotatedFrom: existing.id,
+  });
+  const { error } = await getSupabaseAdmin()
+    .from('webhook_subscriptions')
+    .update({ api_key_id: issued.key.id, updated_at: new Date().toISOString() })
+    .eq('api_key_id', existing.id);
+  if (error) throw new Error(error.message);
+  await revokeOwnedApiKey(ownerWallet, existing.id);
+  return issued;
+}
@@ -0,0 +1,234 @@
+/**
+ * List Query Helpers
+ * Multi-key sorting, keyset cursors and field projection for /api/v1/ list endpoints.
+ *
+ * Cursors are opaque base64url tokens encoding the sort values of the boundary row
+ * plus its ID. Paging "after" a row instead of "skip N rows" means a re-sort between
+ * requests (e.g. a score sync) never skips or duplicates entries.
+ */
+
+export type SortOrder = 'asc' | 'desc';
+export type SortValue = number | string;
+
+export interface SortKey {
+  field: string;
+  order: SortOrder;
+}
+
+export interface ListCursor {
+  /** Sort spec the cursor was issued for, e.g. 'score:desc,name:asc' */
+  sort: string;
+  /** Sort values of the boundary row, in sort-key order */
+  values: SortValue[];
+  /** Tiebreaker: ID of the boundary row */
+  id: string;
+  direction: 'next' | 'prev';
+}
+
+export type ListQueryError = { param: string; value: string; context: string } | null;
+
+/**
+ * Parse `sort=score:desc,name:asc`. Keys without an explicit direction use `defaultOrder`,
+ * which keeps the legacy `sort=score&order=asc` form working.
+ */
+export function parseSortSpec(
+  raw: string,
+  validFields: readonly string[],
+  defaultOrder: SortOrder,
+): { keys: SortKey[]; error: ListQueryError } {
+  const keys: SortKey[] = [];
+  const seen = new Set<string>();
+
+  for (const part of raw.split(',')) {
+    const [field, dir] = part.trim().split(':');
+    if (!field || !validFields.includes(field) || seen.has(field)) {
+      return {
+        keys: [],
+        error: {
+          param: 'sort',
+          value: raw,
+          context: `Comma-separated 'field' or 'field:asc|desc', no repeats. Valid fields: ${validFields.join(', ')}`,
+        },
+      };
+    }
+    if (dir !== undefined && dir !== 'asc' && dir !== 'desc') {
+      return {
+        keys: [],
+        error: {
+          param: 'sort',
+          value: raw,
+          context: `Direction for '${field}' must be asc or desc`,
+        },
+      };
+    }
+    seen.add(field);
+    keys.push({ field, order: (dir as SortOrder | undefined) ?? defaultOrder });
+  }
+
+  return { keys, error: null };
+}
+
+export function formatSortSpec(keys: SortKey[]): string {
+  return keys.map((k) => `${k.field}:${k.order}`).join(',');
+}
+
+function compareValues(a: SortValue, b: SortValue): number {
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+  return (a as number) - (b as number);
+}
+
+/**
+ * Build a comparator over `keys`, with ID ascending as the final tiebreaker so the
+ * ordering is total and cursors are unambiguous.
+ */
+export function buildComparator<T>(
+  keys: SortKey[],
+  getters: Record<string, (row: T) => SortValue>,
+  getId: (row: T) => string,
+): (a: T, b: T) => number {
+  return (a, b) => {
+    for (const { field, order } of keys) {
+      const cmp = compareValues(getters[field](a), getters[field](b));
+      if (cmp !== 0) return order === 'asc' ? cmp : -cmp;
+    }
+    return getId(a).localeCompare(getId(b));
+  };
+}
+
+export function encodeCursor(cursor: ListCursor): string {
+  const payload = JSON.stringify([cursor.sort, cursor.values, cursor.id, cursor.direction]);
+  return Buffer.from(payload, 'utf8').toString('base64url');
+}
+
+export function decodeCursor(token: string): ListCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || parsed.length !== 4) return null;
+    const [sort, values, id, direction] = parsed;
+    if (
+      typeof sort !== 'string' ||
+      !Array.isArray(values) ||
+      !values.every((v) => typeof v === 'number' || typeof v === 'string') ||
+      typeof id !== 'string' ||
+      (direction !== 'next' && direction !== 'prev')
+    ) {
+      return null;
+    }
+    return { sort, values, id, direction };
+  } catch {
+    return null;
+  }
+}
+
+export interface CursorPage<T> {
+  rows: T[];
+  /** Index of the first returned row in the full sorted list */
+  startIndex: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * Slice an already sorted list into a page. With a cursor, the page starts strictly
+ * after (next) or ends strictly before (prev) the boundary row's sort position — the
+ * boundary row itself does not need to still exist. Without one, `offset` is used.
+ */
+export function paginateSorted<T>(
+  sorted: T[],
+  options: {
+    keys: SortKey[];
+    getters: Record<string, (row: T) => SortValue>;
+    getId: (row: T) => string;
+    limit: number;
+    offset: number;
+    cursor: ListCursor | null;
+  },
+): CursorPage<T> {
+  const { keys, getters, getId, limit, cursor } = options;
+  const sortSpec = formatSortSpec(keys);
+
+  let start: number;
+  let end: number;
+
+  if (cursor) {
+    // `null` stands in for the boundary row, whose sort values come from the cursor
+    const compare = buildComparator<T | null>(
+      keys,
+      Object.fromEntries(
+        keys.map((k, i) => [
+          k.field,
+          (row: T | null) => (row === null ? cursor.values[i] : getters[k.field](row)),
+        ]),
+      ),
+      (row) => (row === null ? cursor.id : getId(row)),
+    );
+
+    if (cursor.direction === 'next') {
+      start = sorted.findIndex((row) => compare(row, null) > 0);
+      if (start === -1) start = sorted.length;
+      end = Math.min(start + limit, sorted.length);
+    } else {
+      end = sorted.findIndex((row) => compare(row, null) >= 0);
+      if (end === -1) end = sorted.length;
+      start = Math.max(end - limit, 0);
+    }
+  } else {
+    start = Math.min(options.offset, sorted.length);
+    end = Math.min(start + limit, sorted.length);
+  }
+
+  const rows = sorted.slice(start, end);
+  const cursorFor = (row: T, direction: ListCursor['direction']) =>
+    encodeCursor({
+      sort: sortSpec,
+      values: keys.map((k) => getters[k.field](row)),
+      id: getId(row),
+      direction,
+    });
+
+  return {
+    rows,
+    startIndex: start,
+    nextCursor:
+      end < sorted.length && rows.length ? cursorFor(rows[rows.length - 1], 'next') : null,
+    prevCursor: start > 0 && rows.length ? cursorFor(rows[0], 'prev') : null,
+    hasMore: end < sorted.length,
+  };
+}
+
+/**
+ * Parse `fields=drep_id,name,score`. Returns null when no projection was requested.
+ * `alwaysInclude` fields (e.g. the row ID) are added even if omitted.
+ */
+export function parseFields(
+  raw: string | null,
+  validFields: readonly string[],
+  alwaysInclude: readonly string[] = [],
+): { fields: string[] | null; error: ListQueryError } {
+  if (!raw) return { fields: null, error: null };
+  const requested = raw
+    .split(',')
+    .map((f) => f.trim())
+    .filter(Boolean);
+  const invalid = requested.find((f) => !validFields.includes(f));
+  if (invalid || requested.length === 0) {
+    return {
+      fields: null,
+      error: {
+        param: 'fields',
+        value: invalid ?? raw,
+        context: `Valid fields: ${validFields.join(', ')}`,
+      },
+    };
+  }
+  return { fields: [...new Set([...alwaysInclude, ...requested])], error: null };
+}
+
+export function projectFields<T extends Record<string, unknown>>(
+  row: T,
+  fields: string[] | null,
+): Partial<T> {
+  if (!fields) return row;
+  return Object.fromEntries(fields.map((f) => [f, row[f]])) as Partial<T>;
+}
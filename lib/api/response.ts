@@ -39,6 +39,10 @@ export interface ApiPagination {
   limit: number;
   offset: number;
   has_more: boolean;
+  /** Opaque cursor for the following page; present on cursor-capable endpoints, null on the last page */
+  next_cursor?: string | null;
+  /** Opaque cursor for the preceding page; null on the first page */
+  prev_cursor?: string | null;
 }
 
 interface SuccessOptions {
@@ -47,6 +51,8 @@ interface SuccessOptions {
   pagination?: ApiPagination;
   cacheSeconds?: number;
   headers?: Record<string, string>;
+  /** Defaults to 200 */
+  status?: number;
 }
 
 export function apiSuccess(data: unknown, options: SuccessOptions): NextResponse {
@@ -78,7 +84,7 @@ export function apiSuccess(data: unknown, options: SuccessOptions): NextResponse
   }
 
   return new NextResponse(JSON.stringify(body), {
-    status: 200,
+    status: options.status ?? 200,
     headers: responseHeaders,
   });
 }
@@ -125,7 +131,10 @@ export function normalizeEndpoint(pathname: string): string {
     .replace(/^\/api/, '')
     .replace(/\/dreps\/[^/]+/, '/dreps/:id')
     .replace(/\/proposals\/[^/]+/, '/proposals/:id')
-    .replace(/\/embed\/[^/]+/, '/embed/:id');
+    .replace(/\/embed\/[^/]+/, '/embed/:id')
+    .replace(/\/accounts\/[^/]+/, '/accounts/:id')
+    .replace(/\/reports\/[^/]+/, '/reports/:epoch')
+    .replace(/\/webhooks\/(?!events$)[^/]+/, '/webhooks/:id');
 }
 
 /**
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { METHODOLOGY_PROFILES } from '@/lib/scoring/methodology';
+import { TxHashSchema } from './common';
+
+const MethodologyVersionSchema = z
+  .string()
+  .refine((v) => v in METHODOLOGY_PROFILES, { message: 'Unknown methodology version' });
+
+export const ScoreReplaySchema = z
+  .object({
+    fromEpoch: z.number().int().min(500),
+    toEpoch: z.number().int().min(500).optional(),
+    methodologyVersion: MethodologyVersionSchema.optional(),
+  })
+  .refine((d) => d.toEpoch == null || d.toEpoch >= d.fromEpoch, {
+    message: 'toEpoch must be >= fromEpoch',
+    path: ['toEpoch'],
+  });
+
+export const MethodologyDiffSchema = z.object({
+  base: MethodologyVersionSchema,
+  candidate: MethodologyVersionSchema,
+  top: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+export const CoordinationReviewSchema = z.object({
+  clusterKey: z.string().min(1).max(80),
+  status: z.enum(['open', 'confirmed', 'dismissed']),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+export const OriginalityAppealReviewSchema = z.object({
+  voteTxHash: TxHashSchema,
+  status: z.enum(['upheld', 'rejected']),
+  note: z.string().trim().max(500).nullable().optional(),
+});
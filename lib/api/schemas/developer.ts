@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { API_KEY_SCOPES } from '@/lib/api/scopes';
+
+const KeyNameSchema = z.string().trim().min(1, 'name is required').max(60);
+
+/** null or omitted = unrestricted */
+const KeyScopesSchema = z.array(z.enum(API_KEY_SCOPES)).min(1).nullable();
+
+export const ApiKeyCreateSchema = z.object({
+  name: KeyNameSchema,
+  scopes: KeyScopesSchema.optional(),
+});
+
+export const ApiKeyUpdateSchema = z
+  .object({
+    name: KeyNameSchema.optional(),
+    scopes: KeyScopesSchema.optional(),
+  })
+  .refine((d) => d.name !== undefined || d.scopes !== undefined, {
+    message: 'Provide name and/or scopes',
+  });
+
+export const ApiKeyUsageSchema = z.object({
+  days: z.coerce.number().int().min(1).max(30).default(7),
+  granularity: z.enum(['hour', 'day']).default('day'),
+});
@@ -25,3 +25,28 @@ export const DrepExplanationSchema = z.object({
   explanationText: z.string().min(1, 'explanationText is required').max(5000),
   aiAssisted: z.boolean().optional(),
 });
+
+export const OriginalityAppealSchema = z.object({
+  voteTxHash: TxHashSchema,
+  reason: z.string().trim().min(20, 'Explain why the rationale is your own').max(2000),
+});
+
+export const BatchVoteRecordSchema = z.object({
+  txHash: z.string().regex(/^[0-9a-f]{64}$/i, 'txHash must be a transaction hash'),
+  /** At most MAX_BATCH_VOTES (lib/voting) per transaction */
+  votes: z
+    .array(
+      z.object({
+        proposalTxHash: TxHashSchema,
+        proposalIndex: ProposalIndexSchema,
+        vote: z.enum(['Yes', 'No', 'Abstain']),
+        anchorUrl: z.string().max(128).optional(),
+        anchorHash: z
+          .string()
+          .regex(/^[0-9a-f]{64}$/i)
+          .optional(),
+      }),
+    )
+    .min(1)
+    .max(20),
+});
@@ -20,6 +20,21 @@ export const RationaleSubmitSchema = z.object({
   proposalTxHash: TxHashSchema,
   proposalIndex: ProposalIndexSchema,
   rationaleText: z.string().min(1, 'Rationale text is required').max(10000),
+  /** CIP-30 signData over the rationale body hash — becomes the CIP-100 author witness */
+  witness: z
+    .object({
+      address: z.string().min(1).max(200),
+      signature: z
+        .string()
+        .regex(/^[0-9a-f]+$/i, 'signature must be hex')
+        .max(4000),
+      key: z
+        .string()
+        .regex(/^[0-9a-f]+$/i, 'key must be hex')
+        .max(1000),
+    })
+    .optional(),
+  publishToIpfs: z.boolean().optional().default(false),
 });
 
 export const PollVoteSchema = z.object({
@@ -47,3 +62,30 @@ export const ViewSchema = z.object({
   drepId: DrepIdSchema,
   sessionToken: z.string().optional(),
 });
+
+export const GhiSandboxQuerySchema = z.object({
+  participationRate: z.coerce.number().min(0).max(100).optional(),
+  rationaleRate: z.coerce.number().min(0).max(100).optional(),
+  activeDrepCount: z.coerce.number().int().min(1).max(5000).optional(),
+  concentration: z.coerce.number().min(0).max(3).optional(),
+});
+
+const CborHexSchema = z
+  .string()
+  .regex(/^[0-9a-f]+$/i, 'must be CBOR hex')
+  .max(32_000);
+
+export const MultisigSessionCreateSchema = z.object({
+  kind: z.enum(['vote', 'drep_update']),
+  drepId: DrepIdSchema,
+  unsignedTx: CborHexSchema,
+  /** The creator's signTx result, when they sign while creating */
+  witnesses: CborHexSchema.optional(),
+  signerAddress: z.string().max(200).optional(),
+});
+
+export const MultisigWitnessSchema = z.object({
+  /** What the co-signer's wallet returned from signTx (witness set or signed tx) */
+  witnesses: CborHexSchema,
+  signerAddress: z.string().max(200).optional(),
+});
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+const EpochSchema = z.number().int().min(0).max(10_000);
+
+export const TreasuryScenarioSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  proposals: z
+    .array(z.string().regex(/^[0-9a-f]{16}#\d{1,4}$/))
+    .max(50)
+    .default([]),
+  enactEpoch: EpochSchema.nullable().default(null),
+  burnChanges: z
+    .array(z.object({ fromEpoch: EpochSchema, multiplier: z.number().min(0).max(10) }))
+    .max(12)
+    .default([]),
+  incomeModel: z.enum(['constant', 'reserve-decay']).default('reserve-decay'),
+  usdBudgets: z
+    .array(
+      z.object({
+        label: z.string().trim().min(1).max(60),
+        usdPerEpoch: z.number().min(0).max(1e9),
+        fromEpoch: EpochSchema,
+        untilEpoch: EpochSchema.nullable().default(null),
+      }),
+    )
+    .max(12)
+    .default([]),
+  price: z
+    .object({
+      start: z.number().positive().max(1000).nullable().default(null),
+      low: z.number().positive().max(1000),
+      high: z.number().positive().max(1000),
+      volatility: z.number().min(0).max(5).default(0.7),
+    })
+    .refine((p) => p.low <= p.high, { message: 'price.low must not exceed price.high' })
+    .nullable()
+    .default(null),
+  horizonEpochs: z.number().int().min(10).max(730).default(365),
+});
@@ -25,6 +25,10 @@ export const TelegramConnectSchema = z.object({
   token: z.string().min(1, 'token is required'),
 });
 
+export const DiscordLinkSchema = z.object({
+  token: z.string().min(1, 'token is required'),
+});
+
 export const OnboardingSchema = z.object({
   sessionToken: SessionTokenSchema,
   item: z.string().min(1, 'item is required'),
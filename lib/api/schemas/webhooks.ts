@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { getWebhookEventKeys, isAllowedWebhookUrl } from '@/lib/webhooks';
+
+const WebhookUrlSchema = z
+  .string()
+  .trim()
+  .max(2048)
+  .refine(isAllowedWebhookUrl, 'url must be a public https:// endpoint');
+
+const WebhookEventsSchema = z
+  .array(z.string())
+  .min(1, 'Subscribe to at least one event')
+  .refine((events) => events.every((e) => getWebhookEventKeys().includes(e)), {
+    message: 'Unknown event type — see GET /api/v1/webhooks/events',
+  })
+  .transform((events) => [...new Set(events)]);
+
+const FilterListSchema = z.array(z.string().trim().min(1).max(128)).max(100).optional();
+
+/** Empty or omitted lists match everything */
+const WebhookFiltersSchema = z
+  .object({
+    drep_ids: FilterListSchema,
+    proposal_types: FilterListSchema,
+    pool_ids: FilterListSchema,
+  })
+  .strict()
+  .transform((f) => ({
+    ...(f.drep_ids?.length ? { drepIds: f.drep_ids } : {}),
+    ...(f.proposal_types?.length ? { proposalTypes: f.proposal_types } : {}),
+    ...(f.pool_ids?.length ? { poolIds: f.pool_ids } : {}),
+  }));
+
+export const WebhookCreateSchema = z.object({
+  url: WebhookUrlSchema,
+  events: WebhookEventsSchema,
+  filters: WebhookFiltersSchema.optional(),
+});
+
+export const WebhookUpdateSchema = z
+  .object({
+    url: WebhookUrlSchema.optional(),
+    events: WebhookEventsSchema.optional(),
+    filters: WebhookFiltersSchema.optional(),
+    active: z.boolean().optional(),
+  })
+  .refine((d) => Object.values(d).some((v) => v !== undefined), {
+    message: 'Provide at least one of url, events, filters, active',
+  });
+
+export const WebhookDeliveriesQuerySchema = z.object({
+  status: z.enum(['pending', 'retrying', 'delivered', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
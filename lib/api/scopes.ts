@@ -0,0 +1,25 @@
+/**
+ * API Key Scopes
+ * Client-safe scope catalog shared by key validation and the developer dashboard.
+ */
+
+/** Resource scopes a key can be restricted to — the first path segment under /v1/ */
+export const API_KEY_SCOPES = [
+  'dreps',
+  'proposals',
+  'governance',
+  'treasury',
+  'embed',
+  'webhooks',
+  'accounts',
+] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Scope required to call a normalized endpoint ('/v1/dreps/:id' → 'dreps').
+ * Returns null for paths outside the scoped namespaces.
+ */
+export function scopeForEndpoint(endpoint: string): ApiKeyScope | null {
+  const segment = endpoint.replace(/^\/v1\//, '').split('/')[0];
+  return (API_KEY_SCOPES as readonly string[]).includes(segment) ? (segment as ApiKeyScope) : null;
+}
@@ -0,0 +1,123 @@
+/**
+ * API Usage Analytics
+ * Aggregates api_usage_log rows into per-key volume, error rate, latency
+ * percentiles and rate-limit hits, bucketed by hour or day.
+ */
+
+export type UsageGranularity = 'hour' | 'day';
+
+export interface ApiUsageRow {
+  created_at: string;
+  endpoint: string;
+  status_code: number;
+  response_ms: number | null;
+}
+
+export interface UsageStats {
+  requests: number;
+  /** 4xx/5xx responses other than 429 */
+  errors: number;
+  errorRate: number;
+  rateLimitHits: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+}
+
+export interface UsageBucket extends UsageStats {
+  /** ISO timestamp of the bucket start (UTC) */
+  bucket: string;
+}
+
+export interface ApiUsageSummary {
+  from: string;
+  to: string;
+  granularity: UsageGranularity;
+  totals: UsageStats;
+  series: UsageBucket[];
+  topEndpoints: { endpoint: string; requests: number; errors: number }[];
+}
+
+const BUCKET_MS: Record<UsageGranularity, number> = {
+  hour: 3_600_000,
+  day: 86_400_000,
+};
+
+/** Nearest-rank percentile over an ascending-sorted array. */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+function computeStats(rows: ApiUsageRow[]): UsageStats {
+  let errors = 0;
+  let rateLimitHits = 0;
+  const latencies: number[] = [];
+
+  for (const r of rows) {
+    if (r.status_code === 429) rateLimitHits++;
+    else if (r.status_code >= 400) errors++;
+    // Rate-limited requests never reach the handler, so their latency is not representative
+    if (r.response_ms != null && r.status_code !== 429) latencies.push(r.response_ms);
+  }
+  latencies.sort((a, b) => a - b);
+
+  return {
+    requests: rows.length,
+    errors,
+    errorRate: rows.length ? Math.round((errors / rows.length) * 10000) / 10000 : 0,
+    rateLimitHits,
+    p50Ms: percentile(latencies, 50),
+    p95Ms: percentile(latencies, 95),
+    p99Ms: percentile(latencies, 99),
+  };
+}
+
+/**
+ * Summarize usage rows between `from` and `to`. Every bucket in the range is
+ * present in `series`, including empty ones, so charts have a continuous axis.
+ */
+export function summarizeApiUsage(
+  rows: ApiUsageRow[],
+  from: Date,
+  to: Date,
+  granularity: UsageGranularity,
+): ApiUsageSummary {
+  const size = BUCKET_MS[granularity];
+  const firstBucket = Math.floor(from.getTime() / size) * size;
+  const inRange = rows.filter((r) => {
+    const t = new Date(r.created_at).getTime();
+    return t >= from.getTime() && t <= to.getTime();
+  });
+
+  const buckets = new Map<number, ApiUsageRow[]>();
+  for (let b = firstBucket; b <= to.getTime(); b += size) buckets.set(b, []);
+  for (const r of inRange) {
+    const b = Math.floor(new Date(r.created_at).getTime() / size) * size;
+    buckets.get(b)?.push(r);
+  }
+
+  const byEndpoint = new Map<string, { requests: number; errors: number }>();
+  for (const r of inRange) {
+    const e = byEndpoint.get(r.endpoint) ?? { requests: 0, errors: 0 };
+    e.requests++;
+    if (r.status_code >= 400 && r.status_code !== 429) e.errors++;
+    byEndpoint.set(r.endpoint, e);
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    granularity,
+    totals: computeStats(inRange),
+    series: [...buckets.entries()].map(([b, bucketRows]) => ({
+      bucket: new Date(b).toISOString(),
+      ...computeStats(bucketRows),
+    })),
+    topEndpoints: [...byEndpoint.entries()]
+      .map(([endpoint, e]) => ({ endpoint, ...e }))
+      .sort((a, b) => b.requests - a.requests)
+      .slice(0, 10),
+  };
+}
@@ -0,0 +1,286 @@
+/**
+ * Catalyst entity resolution — links treasury withdrawal proposals to the
+ * Catalyst team members behind them. Pure; lib/sync/catalyst.ts loads the
+ * data and stores the links.
+ *
+ * A withdrawal discloses who is asking through its CIP-100 authors, its
+ * CIP-108 references and links in its abstract. Each is matched against
+ * Catalyst identities:
+ *   - handle:  a Twitter/X, LinkedIn, Telegram or GitHub account that a team
+ *              member lists (or a project's GitHub organisation)
+ *   - website: the site of a Catalyst project, crediting its whole team
+ *   - author:  an author name equal to a member's name or username
+ *   - mention: a member's full name written in the title or abstract
+ *
+ * Signals combine as independent evidence (1 − Π(1 − weight)). Names shared
+ * by many members are too ambiguous to count.
+ */
+
+export type LinkSignal = 'handle' | 'website' | 'author' | 'mention';
+
+export const SIGNAL_WEIGHTS: Record<LinkSignal, number> = {
+  handle: 0.9,
+  website: 0.7,
+  author: 0.6,
+  mention: 0.35,
+};
+
+/** Links below this confidence are not stored */
+export const MIN_LINK_CONFIDENCE = 0.5;
+
+/** A name matching more members than this is ignored */
+const MAX_NAME_MATCHES = 3;
+/** Mentions need a full name of at least this many characters */
+const MIN_MENTION_LENGTH = 6;
+
+/** Hosts shared by unrelated projects — a link there says nothing about who wrote it */
+const SHARED_HOSTS = new Set([
+  'cardano.org',
+  'forum.cardano.org',
+  'docs.cardano.org',
+  'intersectmbo.org',
+  'gov.tools',
+  'projectcatalyst.io',
+  'cardanoscan.io',
+  'cexplorer.io',
+  'adastat.net',
+  'ipfs.io',
+  'gateway.pinata.cloud',
+  'docs.google.com',
+  'drive.google.com',
+  'youtube.com',
+  'youtu.be',
+  'discord.gg',
+  'discord.com',
+  'notion.so',
+  'gitbook.com',
+  'linktr.ee',
+  'wikipedia.org',
+]);
+
+/** Hosts whose first path segment identifies an account */
+const ACCOUNT_HOSTS: Record<string, string> = {
+  'twitter.com': 'twitter',
+  'x.com': 'twitter',
+  'github.com': 'github',
+  't.me': 'telegram',
+  'telegram.me': 'telegram',
+  'medium.com': 'medium',
+};
+
+export interface CatalystMemberIdentity {
+  id: string;
+  name: string | null;
+  username: string | null;
+  twitter: string | null;
+  linkedin: string | null;
+  telegram: string | null;
+}
+
+export interface CatalystProjectIdentity {
+  id: string;
+  website: string | null;
+  teamMemberIds: string[];
+}
+
+export interface TreasuryProposalIdentity {
+  title: string | null;
+  abstract: string | null;
+  authors: string[];
+  references: string[];
+}
+
+export interface TeamLink {
+  teamMemberId: string;
+  confidence: number;
+  signals: LinkSignal[];
+}
+
+export interface CatalystIndex {
+  byHandle: Map<string, Set<string>>;
+  bySite: Map<string, Set<string>>;
+  byName: Map<string, Set<string>>;
+  /** Full names eligible for mention matching */
+  mentionNames: Map<string, Set<string>>;
+}
+
+// ---------------------------------------------------------------------------
+// Normalisation
+// ---------------------------------------------------------------------------
+
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function parseUrl(raw: string): URL | null {
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+}
+
+function hostOf(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+}
+
+function firstSegment(url: URL): string | null {
+  const segment = url.pathname.split('/').filter(Boolean)[0];
+  return segment ? segment.replace(/^@/, '').toLowerCase() : null;
+}
+
+/**
+ * Account key (`platform:handle`) of a profile URL, or null when the URL is
+ * not a profile on a known platform.
+ */
+export function accountKey(raw: string): string | null {
+  const url = parseUrl(raw);
+  if (!url) return null;
+  const host = hostOf(url);
+
+  if (host === 'linkedin.com') {
+    const [kind, slug] = url.pathname.split('/').filter(Boolean);
+    return (kind === 'in' || kind === 'company') && slug ? `linkedin:${slug.toLowerCase()}` : null;
+  }
+  const platform = ACCOUNT_HOSTS[host];
+  const handle = platform ? firstSegment(url) : null;
+  return platform && handle ? `${platform}:${handle}` : null;
+}
+
+/** Account key of a profile field, which may hold a bare handle or a URL */
+function profileKey(platform: 'twitter' | 'linkedin' | 'telegram', value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (trimmed.includes('/')) return accountKey(trimmed);
+  return `${platform}:${trimmed.replace(/^@/, '').toLowerCase()}`;
+}
+
+/**
+ * Site key of a project or reference URL: the host, or host plus account for
+ * platforms hosting many projects. Null for hosts shared by unrelated projects.
+ */
+export function siteKey(raw: string): string | null {
+  const url = parseUrl(raw);
+  if (!url) return null;
+  const host = hostOf(url);
+  if (!host.includes('.') || SHARED_HOSTS.has(host)) return null;
+  if (host === 'linkedin.com' || ACCOUNT_HOSTS[host]) {
+    const account = accountKey(raw);
+    return account && host !== 'x.com' && host !== 'twitter.com' ? account : null;
+  }
+  return host;
+}
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>()"'\]]+/gi;
+
+function urlsIn(text: string | null): string[] {
+  return text ? (text.match(URL_PATTERN) ?? []).map((u) => u.replace(/[.,;:!?]+$/, '')) : [];
+}
+
+// ---------------------------------------------------------------------------
+// Index
+// ---------------------------------------------------------------------------
+
+function add(map: Map<string, Set<string>>, key: string | null, id: string) {
+  if (!key) return;
+  const set = map.get(key) ?? new Set<string>();
+  set.add(id);
+  map.set(key, set);
+}
+
+export function buildCatalystIndex(
+  members: CatalystMemberIdentity[],
+  projects: CatalystProjectIdentity[],
+): CatalystIndex {
+  const index: CatalystIndex = {
+    byHandle: new Map(),
+    bySite: new Map(),
+    byName: new Map(),
+    mentionNames: new Map(),
+  };
+
+  for (const m of members) {
+    if (m.twitter) add(index.byHandle, profileKey('twitter', m.twitter), m.id);
+    if (m.linkedin) add(index.byHandle, profileKey('linkedin', m.linkedin), m.id);
+    if (m.telegram) add(index.byHandle, profileKey('telegram', m.telegram), m.id);
+
+    const name = m.name ? normalizeName(m.name) : '';
+    const username = m.username ? normalizeName(m.username) : '';
+    if (name) add(index.byName, name, m.id);
+    if (username && username !== name) add(index.byName, username, m.id);
+    if (name.includes(' ') && name.length >= MIN_MENTION_LENGTH) {
+      add(index.mentionNames, name, m.id);
+    }
+  }
+
+  for (const p of projects) {
+    const site = p.website ? siteKey(p.website) : null;
+    for (const memberId of p.teamMemberIds) add(index.bySite, site, memberId);
+  }
+
+  return index;
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+/** Links of a treasury proposal to Catalyst team members, strongest first */
+export function resolveTeamLinks(
+  proposal: TreasuryProposalIdentity,
+  index: CatalystIndex,
+): TeamLink[] {
+  const evidence = new Map<string, Set<LinkSignal>>();
+  const credit = (ids: Set<string> | undefined, signal: LinkSignal) => {
+    if (!ids) return;
+    for (const id of ids) {
+      const signals = evidence.get(id) ?? new Set<LinkSignal>();
+      signals.add(signal);
+      evidence.set(id, signals);
+    }
+  };
+  const unambiguous = (ids: Set<string> | undefined) =>
+    ids && ids.size <= MAX_NAME_MATCHES ? ids : undefined;
+
+  const urls = [...proposal.references, ...urlsIn(proposal.abstract)];
+  for (const url of urls) {
+    const account = accountKey(url);
+    if (account) credit(index.byHandle.get(account), 'handle');
+    // A project's GitHub organisation is an account of its team, not just a site
+    const site = siteKey(url);
+    if (site) credit(index.bySite.get(site), site.includes(':') ? 'handle' : 'website');
+  }
+
+  for (const author of proposal.authors) {
+    credit(unambiguous(index.byName.get(normalizeName(author))), 'author');
+  }
+
+  const text = ` ${normalizeName(`${proposal.title ?? ''} ${proposal.abstract ?? ''}`)} `;
+  if (text.trim()) {
+    for (const [name, ids] of index.mentionNames) {
+      if (text.includes(` ${name} `)) credit(unambiguous(ids), 'mention');
+    }
+  }
+
+  const links: TeamLink[] = [];
+  for (const [teamMemberId, signals] of evidence) {
+    const miss = [...signals].reduce((m, s) => m * (1 - SIGNAL_WEIGHTS[s]), 1);
+    const confidence = Math.round((1 - miss) * 1000) / 1000;
+    if (confidence < MIN_LINK_CONFIDENCE) continue;
+    links.push({
+      teamMemberId,
+      confidence,
+      signals: [...signals].sort((a, b) => SIGNAL_WEIGHTS[b] - SIGNAL_WEIGHTS[a]),
+    });
+  }
+  return links.sort(
+    (a, b) => b.confidence - a.confidence || a.teamMemberId.localeCompare(b.teamMemberId),
+  );
+}
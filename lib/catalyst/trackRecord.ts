@@ -0,0 +1,280 @@
+/**
+ * Team track record for a treasury withdrawal — the Catalyst projects of the
+ * team members it is linked to (see resolve.ts) and other treasury
+ * withdrawals by the same team or paid to the same wallet, with their
+ * delivery outcomes.
+ */
+
+import { createClient } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { getProposalOutcomesBatch, type ProposalOutcome } from '@/lib/proposalOutcomes';
+import type { LinkSignal } from './resolve';
+
+export interface TrackRecordMember {
+  id: string;
+  name: string | null;
+  username: string | null;
+  confidence: number;
+  signals: LinkSignal[];
+  fundedProposals: number;
+  completedProposals: number;
+}
+
+export interface TrackRecordProject {
+  id: string;
+  title: string;
+  fund: string | null;
+  status: string | null;
+  fundingStatus: string | null;
+  amountRequested: number | null;
+  amountReceived: number | null;
+  currency: string;
+  fundedAt: string | null;
+  link: string | null;
+  /** Linked members on the project's team */
+  memberIds: string[];
+}
+
+export interface TrackRecordWithdrawal {
+  txHash: string;
+  proposalIndex: number;
+  title: string | null;
+  withdrawalAda: number | null;
+  proposedEpoch: number | null;
+  enactedEpoch: number | null;
+  /** How it relates to this proposal: same recipient wallet or same team */
+  via: Array<'wallet' | 'team'>;
+  outcome: ProposalOutcome | null;
+}
+
+export interface TrackRecordSummary {
+  fundedProjects: number;
+  completedProjects: number;
+  inProgressProjects: number;
+  /** Completed share of funded projects, null when none were funded */
+  completionRate: number | null;
+  /** Catalyst funding received, per currency */
+  receivedByCurrency: Record<string, number>;
+  relatedWithdrawals: number;
+  deliveredWithdrawals: number;
+}
+
+export interface TeamTrackRecord {
+  members: TrackRecordMember[];
+  projects: TrackRecordProject[];
+  relatedWithdrawals: TrackRecordWithdrawal[];
+  summary: TrackRecordSummary;
+}
+
+export function isFundedProject(
+  p: Pick<TrackRecordProject, 'status' | 'fundingStatus' | 'amountReceived'>,
+) {
+  return (
+    p.status === 'complete' ||
+    p.status === 'in_progress' ||
+    p.fundingStatus === 'funded' ||
+    (p.amountReceived ?? 0) > 0
+  );
+}
+
+export function summarizeTrackRecord(
+  projects: TrackRecordProject[],
+  withdrawals: TrackRecordWithdrawal[],
+): TrackRecordSummary {
+  const funded = projects.filter(isFundedProject);
+  const completed = funded.filter((p) => p.status === 'complete').length;
+  const receivedByCurrency: Record<string, number> = {};
+  for (const p of funded) {
+    if (!p.amountReceived) continue;
+    receivedByCurrency[p.currency] = (receivedByCurrency[p.currency] ?? 0) + p.amountReceived;
+  }
+
+  return {
+    fundedProjects: funded.length,
+    completedProjects: completed,
+    inProgressProjects: funded.filter((p) => p.status === 'in_progress').length,
+    completionRate: funded.length > 0 ? Math.round((completed / funded.length) * 100) / 100 : null,
+    receivedByCurrency,
+    relatedWithdrawals: withdrawals.length,
+    deliveredWithdrawals: withdrawals.filter((w) => w.outcome?.deliveryStatus === 'delivered')
+      .length,
+  };
+}
+
+/**
+ * Track record of the team behind a treasury withdrawal, or null when
+ * nothing links it to a known team or another withdrawal.
+ */
+export async function getTeamTrackRecord(
+  txHash: string,
+  proposalIndex: number,
+): Promise<TeamTrackRecord | null> {
+  try {
+    const supabase = createClient();
+
+    const [{ data: proposal }, { data: links }] = await Promise.all([
+      supabase
+        .from('proposals')
+        .select('withdrawal_addresses')
+        .eq('tx_hash', txHash)
+        .eq('proposal_index', proposalIndex)
+        .maybeSingle(),
+      supabase
+        .from('treasury_team_links')
+        .select('team_member_id, confidence, signals')
+        .eq('proposal_tx_hash', txHash)
+        .eq('proposal_index', proposalIndex),
+    ]);
+
+    const memberIds = (links ?? []).map((l) => l.team_member_id);
+    const addresses = proposal?.withdrawal_addresses ?? [];
+    if (memberIds.length === 0 && addresses.length === 0) return null;
+
+    const [{ data: memberRows }, { data: teamRows }, { data: teamLinks }, { data: walletRows }] =
+      await Promise.all([
+        memberIds.length > 0
+          ? supabase
+              .from('catalyst_team_members')
+              .select('id, name, username, funded_proposals, completed_proposals')
+              .in('id', memberIds)
+          : Promise.resolve({ data: [] }),
+        memberIds.length > 0
+          ? supabase
+              .from('catalyst_proposal_team')
+              .select('proposal_id, team_member_id')
+              .in('team_member_id', memberIds)
+          : Promise.resolve({ data: [] }),
+        memberIds.length > 0
+          ? supabase
+              .from('treasury_team_links')
+              .select('proposal_tx_hash, proposal_index')
+              .in('team_member_id', memberIds)
+          : Promise.resolve({ data: [] }),
+        addresses.length > 0
+          ? supabase
+              .from('proposals')
+              .select('tx_hash, proposal_index')
+              .eq('proposal_type', 'TreasuryWithdrawals')
+              .overlaps('withdrawal_addresses', addresses)
+          : Promise.resolve({ data: [] }),
+      ]);
+
+    const linkById = new Map((links ?? []).map((l) => [l.team_member_id, l]));
+    const members: TrackRecordMember[] = (memberRows ?? [])
+      .map((m) => ({
+        id: m.id,
+        name: m.name,
+        username: m.username,
+        confidence: linkById.get(m.id)?.confidence ?? 0,
+        signals: (linkById.get(m.id)?.signals ?? []) as LinkSignal[],
+        fundedProposals: m.funded_proposals ?? 0,
+        completedProposals: m.completed_proposals ?? 0,
+      }))
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const projects = await loadProjects(supabase, teamRows ?? []);
+
+    // Other withdrawals by the same team or to the same wallet
+    const self = `${txHash}-${proposalIndex}`;
+    const via = new Map<string, Set<'wallet' | 'team'>>();
+    const relate = (tx: string, i: number, reason: 'wallet' | 'team') => {
+      const key = `${tx}-${i}`;
+      if (key === self) return;
+      via.set(key, (via.get(key) ?? new Set()).add(reason));
+    };
+    for (const r of walletRows ?? []) relate(r.tx_hash, r.proposal_index, 'wallet');
+    for (const r of teamLinks ?? []) relate(r.proposal_tx_hash, r.proposal_index, 'team');
+    const relatedWithdrawals = await loadWithdrawals(supabase, via);
+
+    if (members.length === 0 && relatedWithdrawals.length === 0) return null;
+
+    return {
+      members,
+      projects,
+      relatedWithdrawals,
+      summary: summarizeTrackRecord(projects, relatedWithdrawals),
+    };
+  } catch (err) {
+    logger.error('[TrackRecord] getTeamTrackRecord error', { error: err });
+    return null;
+  }
+}
+
+async function loadProjects(
+  supabase: ReturnType<typeof createClient>,
+  teamRows: Array<{ proposal_id: string; team_member_id: string }>,
+): Promise<TrackRecordProject[]> {
+  if (teamRows.length === 0) return [];
+
+  const membersByProject = new Map<string, string[]>();
+  for (const t of teamRows) {
+    membersByProject.set(t.proposal_id, [
+      ...(membersByProject.get(t.proposal_id) ?? []),
+      t.team_member_id,
+    ]);
+  }
+
+  const { data: rows } = await supabase
+    .from('catalyst_proposals')
+    .select(
+      'id, title, fund_id, status, funding_status, amount_requested, amount_received, currency, funded_at, link',
+    )
+    .in('id', [...membersByProject.keys()]);
+  if (!rows || rows.length === 0) return [];
+
+  const fundIds = [...new Set(rows.map((r) => r.fund_id).filter((id): id is string => !!id))];
+  const { data: funds } = fundIds.length
+    ? await supabase.from('catalyst_funds').select('id, title').in('id', fundIds)
+    : { data: [] };
+  const fundTitle = new Map((funds ?? []).map((f) => [f.id, f.title]));
+
+  return rows
+    .map((r) => ({
+      id: r.id,
+      title: r.title,
+      fund: r.fund_id ? (fundTitle.get(r.fund_id) ?? null) : null,
+      status: r.status,
+      fundingStatus: r.funding_status,
+      amountRequested: r.amount_requested,
+      amountReceived: r.amount_received,
+      currency: r.currency ?? 'USD',
+      fundedAt: r.funded_at,
+      link: r.link,
+      memberIds: membersByProject.get(r.id) ?? [],
+    }))
+    .sort((a, b) => (b.fundedAt ?? '').localeCompare(a.fundedAt ?? ''));
+}
+
+async function loadWithdrawals(
+  supabase: ReturnType<typeof createClient>,
+  via: Map<string, Set<'wallet' | 'team'>>,
+): Promise<TrackRecordWithdrawal[]> {
+  if (via.size === 0) return [];
+
+  const hashes = [...new Set([...via.keys()].map((k) => k.slice(0, k.lastIndexOf('-'))))];
+  const { data: rows } = await supabase
+    .from('proposals')
+    .select('tx_hash, proposal_index, title, withdrawal_amount, proposed_epoch, enacted_epoch')
+    .in('tx_hash', hashes);
+  const related = (rows ?? []).filter((r) => via.has(`${r.tx_hash}-${r.proposal_index}`));
+
+  const outcomes = await getProposalOutcomesBatch(
+    related.map((r) => ({ txHash: r.tx_hash, proposalIndex: r.proposal_index })),
+  );
+
+  return related
+    .map((r) => {
+      const key = `${r.tx_hash}-${r.proposal_index}`;
+      return {
+        txHash: r.tx_hash,
+        proposalIndex: r.proposal_index,
+        title: r.title,
+        withdrawalAda: r.withdrawal_amount,
+        proposedEpoch: r.proposed_epoch,
+        enactedEpoch: r.enacted_epoch,
+        via: [...(via.get(key) ?? [])].sort(),
+        outcome: outcomes.get(key) ?? null,
+      };
+    })
+    .sort((a, b) => (b.proposedEpoch ?? 0) - (a.proposedEpoch ?? 0));
+}
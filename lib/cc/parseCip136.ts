@@ -6,6 +6,8 @@
  * conclusion, internalVote, and RelevantArticles references.
  */
 
+import { fetchAnchor } from '@/lib/anchors';
+
 const FETCH_TIMEOUT_MS = 15_000;
 const MAX_CONTENT_SIZE = 500_000; // 500KB
 
@@ -30,32 +32,22 @@ export interface InternalVote {
 }
 
 /**
- * Fetch a CIP-136 rationale from a URL (HTTP or IPFS).
+ * Fetch a CIP-136 rationale from a URL (HTTP or IPFS) via the shared anchor fetcher.
  * Returns null if fetch fails or content is not valid CIP-136.
  */
-export async function fetchCip136Rationale(metaUrl: string): Promise<CIP136Rationale | null> {
+export async function fetchCip136Rationale(
+  metaUrl: string,
+  metaHash?: string | null,
+): Promise<CIP136Rationale | null> {
   try {
-    let url = metaUrl;
-    if (url.startsWith('ipfs://')) {
-      url = `https://ipfs.io/ipfs/${url.slice(7)}`;
-    }
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: { Accept: 'application/json, text/plain, */*' },
+    const anchor = await fetchAnchor(metaUrl, {
+      expectedHash: metaHash,
+      timeoutMs: FETCH_TIMEOUT_MS,
+      maxBytes: MAX_CONTENT_SIZE,
     });
-    clearTimeout(timeoutId);
-
-    if (!response.ok) return null;
-    const contentLength = response.headers.get('content-length');
-    if (contentLength && parseInt(contentLength) > MAX_CONTENT_SIZE) return null;
-
-    const text = await response.text();
-    if (text.length > MAX_CONTENT_SIZE) return null;
+    if (anchor.text === null) return null;
 
-    const json = JSON.parse(text);
+    const json = JSON.parse(anchor.text);
     return parseCip136(json);
   } catch {
     return null;
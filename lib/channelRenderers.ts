@@ -8,16 +8,28 @@
  *   - Telegram: MarkdownV2 formatted text
  *
  * Renderers use structured `data` when available, falling back to `fallback`
- * for backward compatibility with existing callers.
+ * for backward compatibility with existing callers. Structured content is
+ * rendered in `payload.locale`; fallback text is passed through as written.
  */
 
 import { type Channel, getEventColor } from './notificationRegistry';
+import {
+  DEFAULT_LOCALE,
+  formatAdaAmount,
+  formatNumber,
+  formatPercent,
+  t,
+  tPlural,
+  type Locale,
+} from './i18n';
 
 export interface NotificationPayload {
   eventType: string;
   data?: Record<string, unknown>;
   fallback: { title: string; body: string; url?: string };
   metadata?: Record<string, unknown>;
+  /** Recipient's language; notifyUser fills it from users.locale */
+  locale?: Locale;
 }
 
 export interface PushContent {
@@ -56,38 +68,226 @@ function escapeMarkdown(text: string): string {
 
 // ── Event-Specific Content Builders ───────────────────────────────────────────
 
-function buildTierChangeContent(data: Record<string, unknown>): { title: string; body: string } {
-  const entity = data.entityType === 'spo' ? 'Pool' : 'DRep';
-  const direction = data.direction === 'up' ? '↑' : '↓';
+type Content = { title: string; body: string };
+
+function buildTierChangeContent(data: Record<string, unknown>, locale: Locale): Content {
+  const entity = t(
+    locale,
+    data.entityType === 'spo' ? 'notifications.entityPool' : 'notifications.entityDrep',
+  );
+  const up = data.direction === 'up';
+  const body = t(locale, 'notifications.tierChangeBody', {
+    oldTier: String(data.oldTier),
+    newTier: String(data.newTier),
+    score: formatNumber(Number(data.newScore), locale),
+  });
   return {
-    title: `${entity} Tier ${direction} ${data.newTier}`,
-    body: `Your governance tier changed from ${data.oldTier} to ${data.newTier} (score: ${data.newScore})`,
+    title: t(locale, 'notifications.tierChangeTitle', {
+      entity,
+      direction: up ? '↑' : '↓',
+      tier: String(data.newTier),
+    }),
+    body: up ? `${body} ${t(locale, 'notifications.tierChangeShare')}` : body,
   };
 }
 
-function buildDriftContent(data: Record<string, unknown>): { title: string; body: string } {
+function buildDriftContent(data: Record<string, unknown>, locale: Locale): Content {
   return {
-    title: 'Alignment Drift Detected',
-    body: `Your DRep has drifted ${data.driftScore} points from your governance values. ${data.classification === 'high' ? 'Consider reviewing alternative matches.' : 'Keep an eye on this.'}`,
+    title: t(locale, 'notifications.driftTitle'),
+    body: `${t(locale, 'notifications.driftBody', { points: formatNumber(Number(data.driftScore), locale) })} ${t(locale, data.classification === 'high' ? 'notifications.driftHigh' : 'notifications.driftLow')}`,
   };
 }
 
-function buildCompetitiveContent(data: Record<string, unknown>): { title: string; body: string } {
+function buildCompetitiveContent(data: Record<string, unknown>, locale: Locale): Content {
+  const gap = Number(data.gap);
   return {
-    title: 'Competitive Movement',
-    body: `${data.competitorTicker ?? 'A nearby pool'} just passed your pool in governance score.`,
+    title: tPlural(locale, 'notifications.competitiveTitle', gap, {
+      gap: formatNumber(gap, locale),
+    }),
+    body: t(locale, 'notifications.competitiveBody'),
   };
 }
 
-const CONTENT_BUILDERS: Record<
-  string,
-  (data: Record<string, unknown>) => { title: string; body: string }
-> = {
-  'tier-change': buildTierChangeContent,
-  'spo-tier-change': buildTierChangeContent,
-  'alignment-drift': buildDriftContent,
-  'competitive-movement': buildCompetitiveContent,
-};
+function buildScoreChangeContent(data: Record<string, unknown>, locale: Locale): Content {
+  const delta = Number(data.delta);
+  return {
+    title: t(locale, delta > 0 ? 'notifications.scoreUpTitle' : 'notifications.scoreDownTitle', {
+      points: formatNumber(Math.abs(delta), locale),
+    }),
+    body: t(locale, 'notifications.scoreChangeBody', {
+      score: formatNumber(Number(data.score), locale),
+    }),
+  };
+}
+
+function buildDelegationChangeContent(data: Record<string, unknown>, locale: Locale): Content {
+  const delta = Number(data.delta);
+  return {
+    title: tPlural(locale, 'notifications.delegationChangeTitle', Math.abs(delta), {
+      delta: formatNumber(delta, locale, { signDisplay: 'exceptZero' }),
+    }),
+    body: t(locale, 'notifications.delegationChangeBody', {
+      count: formatNumber(Number(data.count), locale),
+    }),
+  };
+}
+
+function buildDelegatorGrowthContent(data: Record<string, unknown>, locale: Locale): Content {
+  return {
+    title: tPlural(locale, 'notifications.delegatorGrowthTitle', Number(data.gained)),
+    body: t(locale, 'notifications.delegatorGrowthBody', {
+      total: formatNumber(Number(data.count), locale),
+    }),
+  };
+}
+
+function buildPendingProposalsContent(data: Record<string, unknown>, locale: Locale): Content {
+  const count = Number(data.count);
+  return {
+    title: tPlural(locale, 'notifications.pendingProposalsTitle', count),
+    body: tPlural(locale, 'notifications.pendingProposalsBody', count),
+  };
+}
+
+function buildUrgentDeadlineContent(data: Record<string, unknown>, locale: Locale): Content {
+  const epochs = formatNumber(Number(data.epochs), locale);
+  return {
+    title: tPlural(locale, 'notifications.urgentDeadlineTitle', Number(data.count)),
+    body: t(locale, 'notifications.urgentDeadlineBody', { epochs }),
+  };
+}
+
+function buildProposalDeadlineContent(data: Record<string, unknown>, locale: Locale): Content {
+  const epochs = formatNumber(Number(data.epochs), locale);
+  return {
+    title: tPlural(locale, 'notifications.proposalDeadlineTitle', Number(data.count), { epochs }),
+    body: t(locale, 'notifications.proposalDeadlineBody'),
+  };
+}
+
+function buildScoreOpportunityContent(data: Record<string, unknown>, locale: Locale): Content {
+  const distance = Number(data.distance);
+  return {
+    title: tPlural(locale, 'notifications.scoreOpportunityTitle', distance, {
+      distance: formatNumber(distance, locale),
+    }),
+    body: t(locale, 'notifications.scoreOpportunityBody', {
+      rank: formatNumber(Number(data.rank), locale),
+    }),
+  };
+}
+
+/** Milestone names and descriptions come from the milestone definitions, in English */
+function buildAchievementContent(data: Record<string, unknown>, locale: Locale): Content {
+  return {
+    title: t(locale, 'notifications.achievementTitle', { label: String(data.label) }),
+    body: String(data.description),
+  };
+}
+
+function buildTreasuryHealthContent(data: Record<string, unknown>, locale: Locale): Content {
+  return {
+    title: t(locale, 'notifications.treasuryDropTitle'),
+    body: t(locale, 'notifications.treasuryDropBody', {
+      percent: formatPercent(Number(data.dropFraction), locale, 1),
+      balance: formatAdaAmount(Number(data.balanceAda), locale, { compact: true }),
+    }),
+  };
+}
+
+function buildTreasuryProposalContent(data: Record<string, unknown>, locale: Locale): Content {
+  return {
+    title: t(locale, 'notifications.treasuryProposalTitle', {
+      tier: t(
+        locale,
+        data.tier === 'major'
+          ? 'notifications.treasuryTierMajor'
+          : 'notifications.treasuryTierSignificant',
+      ),
+    }),
+    body: t(locale, 'notifications.treasuryProposalBody', {
+      title: (data.title as string | null) || t(locale, 'notifications.untitledProposal'),
+      amount: formatAdaAmount(Number(data.amountAda), locale),
+    }),
+  };
+}
+
+function buildAccountabilityContent(data: Record<string, unknown>, locale: Locale): Content {
+  return {
+    title: t(locale, 'notifications.accountabilityTitle'),
+    body: t(locale, 'notifications.accountabilityBody', {
+      cycle: formatNumber(Number(data.cycle), locale),
+    }),
+  };
+}
+
+function buildDelegationMilestoneContent(data: Record<string, unknown>, locale: Locale): Content {
+  const count = formatNumber(Number(data.threshold), locale);
+  return {
+    title: t(locale, 'notifications.delegationMilestoneTitle', { count }),
+    body: t(locale, 'notifications.delegationMilestoneBody', { count }),
+  };
+}
+
+function buildPoolInactiveContent(data: Record<string, unknown>, locale: Locale): Content {
+  const epochs = formatNumber(Number(data.epochs), locale);
+  return {
+    title: t(locale, 'notifications.poolInactiveTitle', { pool: String(data.pool), epochs }),
+    body: t(locale, 'notifications.poolInactiveBody', { epochs }),
+  };
+}
+
+function buildDRepScoreDropContent(data: Record<string, unknown>, locale: Locale): Content {
+  return {
+    title: t(locale, 'notifications.drepScoreDropTitle', {
+      points: formatNumber(Math.abs(Number(data.delta)), locale),
+    }),
+    body: t(locale, 'notifications.drepScoreDropBody', {
+      score: formatNumber(Number(data.score), locale),
+    }),
+  };
+}
+
+function buildDRepInactiveContent(data: Record<string, unknown>, locale: Locale): Content {
+  return {
+    title: t(locale, 'notifications.drepInactiveTitle', {
+      epochs: formatNumber(Number(data.epochs), locale),
+    }),
+    body: t(locale, 'notifications.drepInactiveBody'),
+  };
+}
+
+function buildDRepMissedVoteContent(data: Record<string, unknown>, locale: Locale): Content {
+  return {
+    title: t(locale, 'notifications.drepMissedVoteTitle'),
+    body: tPlural(locale, 'notifications.drepMissedVoteBody', Number(data.count)),
+  };
+}
+
+const CONTENT_BUILDERS: Record<string, (data: Record<string, unknown>, locale: Locale) => Content> =
+  {
+    'tier-change': buildTierChangeContent,
+    'spo-tier-change': buildTierChangeContent,
+    'alignment-drift': buildDriftContent,
+    'competitive-movement': buildCompetitiveContent,
+    'score-change': buildScoreChangeContent,
+    'delegation-change': buildDelegationChangeContent,
+    'delegator-growth': buildDelegatorGrowthContent,
+    'pending-proposals': buildPendingProposalsContent,
+    'urgent-deadline': buildUrgentDeadlineContent,
+    'proposal-deadline': buildProposalDeadlineContent,
+    'score-opportunity': buildScoreOpportunityContent,
+    'near-milestone': buildAchievementContent,
+    'citizen-level-up': buildAchievementContent,
+    'treasury-health-alert': buildTreasuryHealthContent,
+    'treasury-proposal-new': buildTreasuryProposalContent,
+    'treasury-accountability-open': buildAccountabilityContent,
+    'delegation-milestone': buildDelegationMilestoneContent,
+    'spo-inactivity': buildPoolInactiveContent,
+    'drep-score-change': buildDRepScoreDropContent,
+    'drep-inactive': buildDRepInactiveContent,
+    'drep-missed-vote': buildDRepMissedVoteContent,
+  };
 
 function resolveContent(payload: NotificationPayload): {
   title: string;
@@ -96,7 +296,7 @@ function resolveContent(payload: NotificationPayload): {
 } {
   const builder = CONTENT_BUILDERS[payload.eventType];
   if (builder && payload.data) {
-    const { title, body } = builder(payload.data);
+    const { title, body } = builder(payload.data, payload.locale ?? DEFAULT_LOCALE);
     return { title, body, url: payload.fallback.url };
   }
   return payload.fallback;
@@ -134,7 +334,10 @@ export function renderDiscord(payload: NotificationPayload): DiscordContent {
 export function renderTelegram(payload: NotificationPayload): TelegramContent {
   const content = resolveContent(payload);
   let text = `*${escapeMarkdown(content.title)}*\n${escapeMarkdown(content.body)}`;
-  if (content.url) text += `\n[View on Civica](${content.url})`;
+  if (content.url) {
+    const label = t(payload.locale ?? DEFAULT_LOCALE, 'common.viewOnCivica');
+    text += `\n[${escapeMarkdown(label)}](${content.url})`;
+  }
   return { text, parseMode: 'MarkdownV2' };
 }
 
@@ -151,6 +354,7 @@ export function renderEmail(payload: NotificationPayload): {
       body: content.body,
       url: content.url,
       eventType: payload.eventType,
+      locale: payload.locale ?? DEFAULT_LOCALE,
     },
   };
 }
@@ -0,0 +1,362 @@
+/**
+ * Coordination Clusters — loading, persistence and lookups around
+ * lib/scoring/coordinationDetection.
+ *
+ * Detection runs per entity type and epoch (detect-coordination). Admins review
+ * clusters on /admin/integrity; a review is keyed by cluster_key, which is
+ * stable for a given membership, so a dismissal holds until the bloc changes.
+ */
+
+import { createClient, getSupabaseAdmin } from '@/lib/supabase';
+import { fetchAll } from '@/lib/sync-utils';
+import {
+  detectCoordinationClusters,
+  type CoordinationCluster,
+  type CoordinationEntity,
+  type CoordinationEntityType,
+  type CoordinationSignals,
+} from '@/lib/scoring/coordinationDetection';
+
+export type ClusterReviewStatus = 'open' | 'confirmed' | 'dismissed';
+
+/** Delegations below this are ignored for the stake-overlap signal */
+const MIN_DELEGATOR_LOVELACE = 1_000_000_000;
+/** Compare current delegations with this many epochs back to catch stake rotating between DReps */
+const DELEGATION_LOOKBACK_EPOCHS = 6;
+/** Edges persisted per cluster for the admin evidence view */
+const MAX_STORED_EDGES = 50;
+
+type AdminClient = ReturnType<typeof getSupabaseAdmin>;
+
+interface VoteRow {
+  entity_id: string;
+  proposal_tx_hash: string;
+  proposal_index: number;
+  vote: string;
+  block_time: number;
+}
+
+function emptyEntity(id: string): CoordinationEntity {
+  return { id, votes: new Map(), urls: [], delegatorStake: new Map() };
+}
+
+function addVotes(entities: Map<string, CoordinationEntity>, rows: VoteRow[]): void {
+  for (const r of rows) {
+    if (r.vote !== 'Yes' && r.vote !== 'No' && r.vote !== 'Abstain') continue;
+    let entity = entities.get(r.entity_id);
+    if (!entity) {
+      entity = emptyEntity(r.entity_id);
+      entities.set(r.entity_id, entity);
+    }
+    // Rows arrive oldest first, so a re-vote overwrites the earlier choice
+    entity.votes.set(`${r.proposal_tx_hash}-${r.proposal_index}`, {
+      vote: r.vote,
+      blockTime: r.block_time,
+    });
+  }
+}
+
+function referenceUris(metadata: unknown): string[] {
+  const refs = (metadata as { references?: { uri?: unknown }[] } | null)?.references;
+  if (!Array.isArray(refs)) return [];
+  return refs.map((r) => r?.uri).filter((u): u is string => typeof u === 'string');
+}
+
+async function loadDrepEntities(supabase: AdminClient): Promise<CoordinationEntity[]> {
+  const entities = new Map<string, CoordinationEntity>();
+
+  const votes = await fetchAll<Omit<VoteRow, 'entity_id'> & { drep_id: string }>(
+    supabase
+      .from('drep_votes')
+      .select('drep_id, proposal_tx_hash, proposal_index, vote, block_time')
+      .order('block_time', { ascending: true }),
+  );
+  addVotes(
+    entities,
+    votes.map((v) => ({ ...v, entity_id: v.drep_id })),
+  );
+
+  const dreps = await fetchAll<{ id: string; anchor_url: string | null; metadata: unknown }>(
+    supabase.from('dreps').select('id, anchor_url, metadata'),
+  );
+  for (const d of dreps) {
+    const entity = entities.get(d.id);
+    if (!entity) continue;
+    if (d.anchor_url) entity.urls.push(d.anchor_url);
+    entity.urls.push(...referenceUris(d.metadata));
+  }
+
+  const { data: latest } = await supabase
+    .from('drep_delegator_snapshots')
+    .select('epoch_no')
+    .order('epoch_no', { ascending: false })
+    .limit(1);
+  const latestEpoch = latest?.[0]?.epoch_no;
+  if (latestEpoch != null) {
+    const delegations = await fetchAll<{
+      drep_id: string;
+      stake_address: string;
+      amount_lovelace: number;
+    }>(
+      supabase
+        .from('drep_delegator_snapshots')
+        .select('drep_id, stake_address, amount_lovelace')
+        .in('epoch_no', [latestEpoch, latestEpoch - DELEGATION_LOOKBACK_EPOCHS])
+        .gte('amount_lovelace', MIN_DELEGATOR_LOVELACE),
+    );
+    for (const d of delegations) {
+      const entity = entities.get(d.drep_id);
+      if (!entity) continue;
+      const prev = entity.delegatorStake.get(d.stake_address) ?? 0;
+      entity.delegatorStake.set(d.stake_address, Math.max(prev, Number(d.amount_lovelace)));
+    }
+  }
+
+  return [...entities.values()];
+}
+
+async function loadSpoEntities(supabase: AdminClient): Promise<CoordinationEntity[]> {
+  const entities = new Map<string, CoordinationEntity>();
+
+  const votes = await fetchAll<Omit<VoteRow, 'entity_id'> & { pool_id: string }>(
+    supabase
+      .from('spo_votes')
+      .select('pool_id, proposal_tx_hash, proposal_index, vote, block_time')
+      .order('block_time', { ascending: true }),
+  );
+  addVotes(
+    entities,
+    votes.map((v) => ({ ...v, entity_id: v.pool_id })),
+  );
+
+  const pools = await fetchAll<{ pool_id: string; homepage_url: string | null }>(
+    supabase.from('pools').select('pool_id, homepage_url'),
+  );
+  for (const p of pools) {
+    const entity = entities.get(p.pool_id);
+    if (entity && p.homepage_url) entity.urls.push(p.homepage_url);
+  }
+
+  return [...entities.values()];
+}
+
+/** Load inputs, detect clusters and replace the epoch's stored clusters for `entityType`. */
+export async function runCoordinationDetection(
+  entityType: CoordinationEntityType,
+  epoch: number,
+): Promise<{ entities: number; clusters: number; flaggedEntities: number }> {
+  const supabase = getSupabaseAdmin();
+  const entities =
+    entityType === 'drep' ? await loadDrepEntities(supabase) : await loadSpoEntities(supabase);
+  const clusters = detectCoordinationClusters(entityType, entities);
+
+  const { error: delError } = await supabase
+    .from('coordination_clusters')
+    .delete()
+    .eq('epoch_no', epoch)
+    .eq('entity_type', entityType);
+  if (delError) throw new Error(`coordination_clusters delete failed: ${delError.message}`);
+
+  if (clusters.length > 0) {
+    const { error } = await supabase.from('coordination_clusters').insert(
+      clusters.map((c) => ({
+        epoch_no: epoch,
+        entity_type: entityType,
+        cluster_key: c.key,
+        member_ids: c.members,
+        size: c.members.length,
+        cohesion: c.cohesion,
+        signals: c.signals,
+        edges: c.edges.slice(0, MAX_STORED_EDGES),
+      })),
+    );
+    if (error) throw new Error(`coordination_clusters insert failed: ${error.message}`);
+  }
+
+  return {
+    entities: entities.length,
+    clusters: clusters.length,
+    flaggedEntities: clusters.reduce((n, c) => n + c.members.length, 0),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+export interface StoredCoordinationCluster {
+  clusterKey: string;
+  entityType: CoordinationEntityType;
+  epoch: number;
+  members: string[];
+  cohesion: number;
+  signals: CoordinationSignals;
+  edges: CoordinationCluster['edges'];
+  detectedAt: string;
+  review: { status: ClusterReviewStatus; note: string | null; reviewedAt: string } | null;
+}
+
+interface ClusterRow {
+  cluster_key: string;
+  entity_type: string;
+  epoch_no: number;
+  member_ids: string[];
+  cohesion: number;
+  signals: CoordinationSignals;
+  edges: CoordinationCluster['edges'];
+  detected_at: string;
+}
+
+interface ReviewRow {
+  cluster_key: string;
+  status: ClusterReviewStatus;
+  note: string | null;
+  reviewed_at: string;
+}
+
+function toStoredCluster(row: ClusterRow, review?: ReviewRow): StoredCoordinationCluster {
+  return {
+    clusterKey: row.cluster_key,
+    entityType: row.entity_type as CoordinationEntityType,
+    epoch: row.epoch_no,
+    members: row.member_ids,
+    cohesion: Number(row.cohesion),
+    signals: row.signals,
+    edges: row.edges ?? [],
+    detectedAt: row.detected_at,
+    review: review
+      ? { status: review.status, note: review.note, reviewedAt: review.reviewed_at }
+      : null,
+  };
+}
+
+async function latestEpoch(
+  supabase: ReturnType<typeof createClient>,
+  entityType: CoordinationEntityType,
+): Promise<number | null> {
+  const { data } = await supabase
+    .from('coordination_clusters')
+    .select('epoch_no')
+    .eq('entity_type', entityType)
+    .order('epoch_no', { ascending: false })
+    .limit(1);
+  return data?.[0]?.epoch_no ?? null;
+}
+
+/**
+ * The entity's cluster from the most recent detection run, unless an admin
+ * dismissed it. Drives the "possible coordinated bloc" profile badge.
+ */
+export async function getEntityCoordinationCluster(
+  entityType: CoordinationEntityType,
+  entityId: string,
+): Promise<StoredCoordinationCluster | null> {
+  const supabase = createClient();
+  const epoch = await latestEpoch(supabase, entityType);
+  if (epoch == null) return null;
+
+  const { data } = await supabase
+    .from('coordination_clusters')
+    .select('cluster_key, entity_type, epoch_no, member_ids, cohesion, signals, edges, detected_at')
+    .eq('entity_type', entityType)
+    .eq('epoch_no', epoch)
+    .contains('member_ids', [entityId])
+    .limit(1);
+  const row = data?.[0] as ClusterRow | undefined;
+  if (!row) return null;
+
+  const { data: review } = await supabase
+    .from('coordination_cluster_reviews')
+    .select('cluster_key, status, note, reviewed_at')
+    .eq('cluster_key', row.cluster_key)
+    .maybeSingle();
+  if ((review as ReviewRow | null)?.status === 'dismissed') return null;
+  return toStoredCluster(row, (review as ReviewRow | null) ?? undefined);
+}
+
+export interface CoordinationOverview {
+  latest: Record<CoordinationEntityType, StoredCoordinationCluster[]>;
+  /** Clusters and flagged entities per epoch, oldest first */
+  history: {
+    epoch: number;
+    entityType: CoordinationEntityType;
+    clusters: number;
+    entities: number;
+  }[];
+}
+
+const HISTORY_EPOCHS = 12;
+
+export async function getCoordinationOverview(): Promise<CoordinationOverview> {
+  const supabase = createClient();
+  const overview: CoordinationOverview = { latest: { drep: [], spo: [] }, history: [] };
+
+  for (const entityType of ['drep', 'spo'] as const) {
+    const epoch = await latestEpoch(supabase, entityType);
+    if (epoch == null) continue;
+
+    const [{ data: rows }, { data: historyRows }] = await Promise.all([
+      supabase
+        .from('coordination_clusters')
+        .select(
+          'cluster_key, entity_type, epoch_no, member_ids, cohesion, signals, edges, detected_at',
+        )
+        .eq('entity_type', entityType)
+        .eq('epoch_no', epoch)
+        .order('size', { ascending: false }),
+      supabase
+        .from('coordination_clusters')
+        .select('epoch_no, size')
+        .eq('entity_type', entityType)
+        .gt('epoch_no', epoch - HISTORY_EPOCHS),
+    ]);
+
+    const clusterRows = (rows || []) as ClusterRow[];
+    const { data: reviews } = clusterRows.length
+      ? await supabase
+          .from('coordination_cluster_reviews')
+          .select('cluster_key, status, note, reviewed_at')
+          .in(
+            'cluster_key',
+            clusterRows.map((r) => r.cluster_key),
+          )
+      : { data: [] };
+    const reviewByKey = new Map(((reviews || []) as ReviewRow[]).map((r) => [r.cluster_key, r]));
+    overview.latest[entityType] = clusterRows.map((r) =>
+      toStoredCluster(r, reviewByKey.get(r.cluster_key)),
+    );
+
+    const perEpoch = new Map<number, { clusters: number; entities: number }>();
+    for (const h of historyRows || []) {
+      const e = perEpoch.get(h.epoch_no) ?? { clusters: 0, entities: 0 };
+      e.clusters++;
+      e.entities += h.size;
+      perEpoch.set(h.epoch_no, e);
+    }
+    for (const [ep, counts] of [...perEpoch].sort((a, b) => a[0] - b[0])) {
+      overview.history.push({ epoch: ep, entityType, ...counts });
+    }
+  }
+
+  return overview;
+}
+
+export async function setClusterReview(
+  clusterKey: string,
+  status: ClusterReviewStatus,
+  note: string | null,
+  reviewedBy: string,
+): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase.from('coordination_cluster_reviews').upsert(
+    {
+      cluster_key: clusterKey,
+      status,
+      note,
+      reviewed_by: reviewedBy,
+      reviewed_at: new Date().toISOString(),
+    },
+    { onConflict: 'cluster_key' },
+  );
+  if (error) throw new Error(error.message);
+}
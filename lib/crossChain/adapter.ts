@@ -0,0 +1,149 @@
+/**
+ * Chain adapter contract.
+ *
+ * An adapter fetches a chain's raw governance data through an injected
+ * transport, then normalizes it into the shared ChainBenchmark metrics in a
+ * pure function. Tests replay recorded API responses through the transport,
+ * so every adapter can be exercised without network access.
+ */
+
+import { logger } from '@/lib/logger';
+import { withRetry } from '@/lib/retry';
+import type { ChainBenchmark, ChainIdentity, ChainMetric, GovernanceModel } from './types';
+
+export interface HttpRequest {
+  url: string;
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/** Resolves to the parsed JSON body, or null when the request failed */
+export type Transport = (req: HttpRequest) => Promise<unknown>;
+
+export interface AdapterContext {
+  request: Transport;
+  env: Record<string, string | undefined>;
+}
+
+/** The normalized metrics an adapter contributes; period and timestamps are added by the caller */
+export type NormalizedMetrics = Omit<ChainBenchmark, 'chain' | 'periodLabel' | 'fetchedAt'>;
+
+export interface ChainAdapter<Raw = unknown> {
+  chain: string;
+  identity: Omit<ChainIdentity, 'chain'>;
+  model: GovernanceModel;
+  /**
+   * Structural properties of the governance system scored 0-100 for the
+   * comparison radar: how much of the process executes on-chain, and how far
+   * the protocol supports attaching rationales to votes.
+   */
+  structure: { onchain: number; rationale: number };
+  /** Shown on compact surfaces (embed, OG image) */
+  featured?: boolean;
+  fetch(ctx: AdapterContext): Promise<Raw | null>;
+  normalize(raw: Raw): NormalizedMetrics | null;
+  metrics(b: ChainBenchmark): ChainMetric[];
+  headline(b: ChainBenchmark): string;
+}
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+/** fetch-based transport: retries 5xx/429 and timeouts, resolves null on other failures */
+export const httpTransport: Transport = async (req) => {
+  const attempt = async () => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const res = await fetch(req.url, {
+        method: req.method ?? 'GET',
+        headers: { Accept: 'application/json', ...req.headers },
+        body: req.body,
+        signal: controller.signal,
+        cache: 'no-store',
+      });
+      if (!res.ok) {
+        const msg = `${new URL(req.url).hostname} error: ${res.status} ${res.statusText}`;
+        if (res.status >= 500 || res.status === 429) throw new Error(msg);
+        logger.error('[crossChain] API error', { url: req.url, status: res.status });
+        return null;
+      }
+      return (await res.json()) as unknown;
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  try {
+    return await withRetry(attempt, {
+      maxRetries: 3,
+      baseDelayMs: 2000,
+      label: `crossChain/${new URL(req.url).hostname}`,
+    });
+  } catch (err) {
+    logger.error('[crossChain] Request failed', { url: req.url, error: err });
+    return null;
+  }
+};
+
+export function defaultAdapterContext(): AdapterContext {
+  return { request: httpTransport, env: process.env };
+}
+
+// ---------------------------------------------------------------------------
+// Normalization helpers
+// ---------------------------------------------------------------------------
+
+export function pct(part: number, whole: number): number | null {
+  if (!(whole > 0)) return null;
+  return Math.min(100, Math.round((part / whole) * 1000) / 10);
+}
+
+export function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((s, v) => s + v, 0) / values.length) * 10) / 10;
+}
+
+/** Parse a big integer string (token amounts) into a float; null when absent */
+export function num(value: string | number | null | undefined): number | null {
+  if (value == null || value === '') return null;
+  const n = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Read an adapter-specific field back out of a stored benchmark's raw data */
+export function rawField<T>(b: ChainBenchmark, key: string): T | undefined {
+  return b.rawData?.[key] as T | undefined;
+}
+
+export function formatCompact(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
+  return n.toLocaleString();
+}
+
+export function pctLabel(value: number | null): string | null {
+  return value != null ? `${value}%` : null;
+}
+
+export function isoWeek(date: Date): number {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  d.setUTCDate(d.getUTCDate() + 4 - (d.getUTCDay() || 7));
+  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  return Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+}
+
+/** ISO week label shared by every chain so history lines up across chains */
+export function periodLabel(date: Date): string {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // The ISO year is the year of the week's Thursday
+  d.setUTCDate(d.getUTCDate() + 4 - (d.getUTCDay() || 7));
+  return `${d.getUTCFullYear()}-W${String(isoWeek(date)).padStart(2, '0')}`;
+}
+
+/** Monday 00:00 UTC of the date's ISO week */
+export function periodStart(date: Date): string {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() || 7) - 1));
+  return d.toISOString().slice(0, 10);
+}
@@ -0,0 +1,179 @@
+/**
+ * Agora-hosted token governance (Optimism, Arbitrum). Every Agora instance
+ * serves the same REST API, so one factory builds an adapter per DAO.
+ */
+
+import { logger } from '@/lib/logger';
+import {
+  average,
+  formatCompact,
+  num,
+  pct,
+  pctLabel,
+  rawField,
+  type ChainAdapter,
+} from '../adapter';
+import type { ChainIdentity, GovernanceModel } from '../types';
+
+const CLOSED_STATUSES = new Set(['SUCCEEDED', 'DEFEATED', 'QUEUED', 'EXECUTED']);
+
+interface AgoraProposal {
+  id: string;
+  status: string;
+  proposalResults?: { for?: string; against?: string; abstain?: string };
+}
+
+export interface AgoraRaw {
+  proposals: AgoraProposal[];
+  votableSupply: string | null;
+}
+
+export interface AgoraAdapterConfig {
+  chain: string;
+  identity: Omit<ChainIdentity, 'chain'>;
+  model: GovernanceModel;
+  structure: { onchain: number; rationale: number };
+  /** Agora instance, e.g. https://vote.optimism.io */
+  baseUrl: string;
+  /** Env var holding the instance's API key */
+  apiKeyEnv: string;
+}
+
+function votesCast(p: AgoraProposal): number {
+  const r = p.proposalResults;
+  return (num(r?.for) ?? 0) + (num(r?.against) ?? 0) + (num(r?.abstain) ?? 0);
+}
+
+export function createAgoraAdapter(config: AgoraAdapterConfig): ChainAdapter<AgoraRaw> {
+  const source = `Agora (${new URL(config.baseUrl).hostname})`;
+
+  return {
+    chain: config.chain,
+    identity: config.identity,
+    model: config.model,
+    structure: config.structure,
+
+    async fetch(ctx) {
+      const apiKey = ctx.env[config.apiKeyEnv];
+      if (!apiKey) {
+        logger.warn(`[crossChain] ${config.apiKeyEnv} not set, skipping ${config.chain} fetch`);
+        return null;
+      }
+      const headers = { Authorization: `Bearer ${apiKey}` };
+
+      const [proposalsRes, supplyRes] = await Promise.all([
+        ctx.request({ url: `${config.baseUrl}/api/v1/proposals?limit=20&offset=0`, headers }),
+        ctx.request({ url: `${config.baseUrl}/api/v1/votable_supply`, headers }),
+      ]);
+
+      const proposals = (proposalsRes as { data?: AgoraProposal[] } | null)?.data;
+      if (!proposals) return null;
+
+      return {
+        proposals,
+        votableSupply: (supplyRes as { votable_supply?: string } | null)?.votable_supply ?? null,
+      };
+    },
+
+    normalize({ proposals, votableSupply }) {
+      const supply = num(votableSupply);
+      const closed = proposals.filter((p) => CLOSED_STATUSES.has(p.status));
+
+      // Offchain (Snapshot-style) proposals on Agora report no token results;
+      // only onchain tallies count toward turnout
+      const tallied = closed.filter((p) => p.proposalResults);
+      const turnouts =
+        supply != null
+          ? tallied.map((p) => pct(votesCast(p), supply)).filter((v): v is number => v != null)
+          : [];
+
+      return {
+        participationRate: average(turnouts),
+        delegateCount: null,
+        proposalCount: proposals.length,
+        proposalThroughput:
+          tallied.length > 0
+            ? pct(tallied.filter((p) => votesCast(p) > 0).length, tallied.length)
+            : null,
+        avgRationaleRate: null,
+        rawData: {
+          closedProposals: closed.length,
+          passed: closed.filter((p) => p.status !== 'DEFEATED').length,
+          votableSupply,
+        },
+      };
+    },
+
+    metrics(b) {
+      const closed = rawField<number>(b, 'closedProposals') ?? 0;
+      const passed = rawField<number>(b, 'passed');
+
+      return [
+        {
+          key: 'turnout',
+          label: 'Avg Supply Turnout',
+          value: pctLabel(b.participationRate),
+          context: 'Average share of votable token supply cast on recently closed proposals',
+          source,
+        },
+        {
+          key: 'proposals',
+          label: 'Recent Proposals',
+          value: b.proposalCount,
+          context: 'Proposals in the most recent batch fetched',
+          source,
+        },
+        {
+          key: 'throughput',
+          label: 'Proposal Throughput',
+          value: pctLabel(b.proposalThroughput),
+          context: 'Percentage of closed onchain proposals that received votes',
+          source,
+        },
+        {
+          key: 'passRate',
+          label: 'Recent Pass Rate',
+          value: passed != null && closed > 0 ? pctLabel(pct(passed, closed)) : null,
+          context: 'Share of recently closed proposals that succeeded',
+          source,
+        },
+      ];
+    },
+
+    headline(b) {
+      return b.participationRate != null
+        ? `${b.participationRate}% turnout`
+        : b.proposalCount != null
+          ? `${formatCompact(b.proposalCount)} proposals`
+          : 'No data';
+    },
+  };
+}
+
+export const optimismAdapter = createAgoraAdapter({
+  chain: 'optimism',
+  identity: { name: 'Optimism', color: '#ef4444', logo: '/chains/optimism.svg' },
+  model: {
+    tagline: 'Bicameral token and citizen voting',
+    description:
+      'The Optimism Collective splits governance between the Token House, where OP delegates vote on protocol upgrades and grants, and the Citizens’ House, which allocates retroactive public goods funding. Delegates publish statements and can attach reasons to votes.',
+    source: 'Agora',
+  },
+  structure: { onchain: 60, rationale: 40 },
+  baseUrl: 'https://vote.optimism.io',
+  apiKeyEnv: 'OPTIMISM_AGORA_API_KEY',
+});
+
+export const arbitrumAdapter = createAgoraAdapter({
+  chain: 'arbitrum',
+  identity: { name: 'Arbitrum', color: '#3b82f6', logo: '/chains/arbitrum.svg' },
+  model: {
+    tagline: 'Delegated token voting',
+    description:
+      'Arbitrum DAO governance is driven by ARB delegates. Constitutional proposals need a higher quorum and pass through an L2 and L1 timelock; non-constitutional proposals cover grants and treasury spending.',
+    source: 'Agora',
+  },
+  structure: { onchain: 55, rationale: 40 },
+  baseUrl: 'https://vote.arbitrum.foundation',
+  apiKeyEnv: 'ARBITRUM_AGORA_API_KEY',
+});
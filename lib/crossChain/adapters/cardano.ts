@@ -0,0 +1,130 @@
+/**
+ * Cardano — reads the Governance Health Index and DRep/proposal counts from
+ * our own database rather than an external API.
+ */
+
+import { logger } from '@/lib/logger';
+import { formatCompact, pctLabel, rawField, type ChainAdapter } from '../adapter';
+
+export interface CardanoRaw {
+  ghi: { score: number; band: string; components: { name: string; value: number }[] };
+  drepCount: number;
+  proposalCount: number;
+  epoch: number;
+}
+
+export const cardanoAdapter: ChainAdapter<CardanoRaw> = {
+  chain: 'cardano',
+  identity: { name: 'Cardano', color: '#06b6d4', logo: '/chains/cardano.svg' },
+  model: {
+    tagline: 'DRep-based delegation',
+    description:
+      'Cardano uses delegated representatives (DReps) who vote on governance proposals on behalf of ADA holders. Any ADA holder can become a DRep or delegate to one. Proposals cover treasury spending, protocol parameters, and constitutional changes.',
+    source: 'Cardano GHI (on-chain via Koios)',
+  },
+  structure: { onchain: 90, rationale: 70 },
+  featured: true,
+
+  async fetch() {
+    const { computeGHI } = await import('../../ghi');
+    const { createClient } = await import('../../supabase');
+
+    try {
+      const ghi = await computeGHI();
+      const supabase = createClient();
+
+      const [drepsRes, proposalsRes, epochRes] = await Promise.all([
+        supabase.from('dreps').select('id, info', { count: 'exact', head: true }),
+        supabase.from('proposals').select('tx_hash', { count: 'exact', head: true }),
+        supabase.from('governance_stats').select('current_epoch').eq('id', 1).single(),
+      ]);
+
+      return {
+        ghi: {
+          score: ghi.score,
+          band: ghi.band,
+          components: ghi.components.map((c) => ({ name: c.name, value: c.value })),
+        },
+        drepCount: drepsRes.count ?? 0,
+        proposalCount: proposalsRes.count ?? 0,
+        epoch: epochRes.data?.current_epoch ?? 0,
+      };
+    } catch (err) {
+      logger.error('[crossChain] Cardano benchmark fetch failed', { error: err });
+      return null;
+    }
+  },
+
+  normalize(data) {
+    const component = (name: string) =>
+      data.ghi.components.find((c) => c.name === name)?.value ?? null;
+
+    return {
+      participationRate: component('Participation'),
+      delegateCount: data.drepCount,
+      proposalCount: data.proposalCount,
+      proposalThroughput: component('Proposal Throughput'),
+      avgRationaleRate: component('Rationale'),
+      rawData: {
+        ghiScore: data.ghi.score,
+        ghiBand: data.ghi.band,
+        components: data.ghi.components,
+        epoch: data.epoch,
+      },
+    };
+  },
+
+  metrics(b) {
+    const ghiScore = rawField<number>(b, 'ghiScore');
+    const ghiBand = rawField<string>(b, 'ghiBand');
+
+    return [
+      {
+        key: 'ghi',
+        label: 'GHI Score',
+        value: ghiScore != null ? `${ghiScore} (${ghiBand ?? '—'})` : null,
+        context: 'Governance Health Index — composite health score for Cardano governance',
+        source: 'GHI',
+      },
+      {
+        key: 'dreps',
+        label: 'Active DReps',
+        value: b.delegateCount,
+        context: 'Delegated representatives currently registered and eligible to vote',
+        source: 'GHI',
+      },
+      {
+        key: 'participation',
+        label: 'DRep Participation',
+        value: pctLabel(b.participationRate),
+        context: 'Median participation rate of active DReps across recent proposals',
+        source: 'GHI',
+      },
+      {
+        key: 'rationale',
+        label: 'Rationale Rate',
+        value: pctLabel(b.avgRationaleRate),
+        context: 'Percentage of DRep votes that include a written rationale',
+        source: 'GHI',
+      },
+      {
+        key: 'proposals',
+        label: 'Open Proposals',
+        value: b.proposalCount,
+        context: 'Governance proposals currently tracked',
+        source: 'GHI',
+      },
+      {
+        key: 'throughput',
+        label: 'Proposal Throughput',
+        value: pctLabel(b.proposalThroughput),
+        context: 'Percentage of proposals receiving votes from DReps',
+        source: 'GHI',
+      },
+    ];
+  },
+
+  headline(b) {
+    return b.delegateCount != null ? `${formatCompact(b.delegateCount)} DReps` : 'No data';
+  },
+};
@@ -0,0 +1,161 @@
+/**
+ * Cosmos Hub — x/gov proposals and staking pool from a public LCD (REST)
+ * endpoint. Validators vote with their delegators' stake unless a delegator
+ * overrides, so validators play the delegate role.
+ */
+
+import {
+  average,
+  formatCompact,
+  num,
+  pct,
+  pctLabel,
+  rawField,
+  type ChainAdapter,
+} from '../adapter';
+
+const DEFAULT_LCD_URL = 'https://cosmos-rest.publicnode.com';
+
+const FINAL_STATUSES = new Set(['PROPOSAL_STATUS_PASSED', 'PROPOSAL_STATUS_REJECTED']);
+
+interface CosmosTally {
+  yes_count?: string;
+  abstain_count?: string;
+  no_count?: string;
+  no_with_veto_count?: string;
+}
+
+interface CosmosProposal {
+  id: string;
+  status: string;
+  title?: string;
+  final_tally_result?: CosmosTally;
+}
+
+export interface CosmosRaw {
+  proposals: CosmosProposal[];
+  proposalTotal: number | null;
+  bondedTokens: string | null;
+  validatorCount: number | null;
+}
+
+function tallyTotal(t: CosmosTally | undefined): number {
+  if (!t) return 0;
+  return (
+    (num(t.yes_count) ?? 0) +
+    (num(t.abstain_count) ?? 0) +
+    (num(t.no_count) ?? 0) +
+    (num(t.no_with_veto_count) ?? 0)
+  );
+}
+
+export const cosmosAdapter: ChainAdapter<CosmosRaw> = {
+  chain: 'cosmos',
+  identity: { name: 'Cosmos Hub', color: '#6366f1', logo: '/chains/cosmos.svg' },
+  model: {
+    tagline: 'Validator-weighted stake voting',
+    description:
+      'Cosmos Hub proposals are voted on by ATOM stakers. Validators vote with the stake delegated to them, and any delegator can override their validator by casting their own vote. Proposals pass with quorum, a majority of yes votes and no more than a third "no with veto".',
+    source: 'Cosmos LCD',
+  },
+  structure: { onchain: 85, rationale: 10 },
+
+  async fetch(ctx) {
+    const base = ctx.env.COSMOS_LCD_URL || DEFAULT_LCD_URL;
+    const [proposalsRes, poolRes, validatorsRes] = await Promise.all([
+      ctx.request({
+        url: `${base}/cosmos/gov/v1/proposals?pagination.limit=20&pagination.reverse=true&pagination.count_total=true`,
+      }),
+      ctx.request({ url: `${base}/cosmos/staking/v1beta1/pool` }),
+      ctx.request({
+        url: `${base}/cosmos/staking/v1beta1/validators?status=BOND_STATUS_BONDED&pagination.limit=1&pagination.count_total=true`,
+      }),
+    ]);
+
+    const proposals = proposalsRes as {
+      proposals?: CosmosProposal[];
+      pagination?: { total?: string };
+    } | null;
+    if (!proposals?.proposals) return null;
+
+    const pool = poolRes as { pool?: { bonded_tokens?: string } } | null;
+    const validators = validatorsRes as { pagination?: { total?: string } } | null;
+
+    return {
+      proposals: proposals.proposals,
+      proposalTotal: num(proposals.pagination?.total),
+      bondedTokens: pool?.pool?.bonded_tokens ?? null,
+      validatorCount: num(validators?.pagination?.total),
+    };
+  },
+
+  normalize({ proposals, proposalTotal, bondedTokens, validatorCount }) {
+    const bonded = num(bondedTokens);
+    const finished = proposals.filter((p) => FINAL_STATUSES.has(p.status));
+
+    // Turnout is measured against today's bonded stake, which drifts slowly
+    // enough that recent proposals compare fairly
+    const turnouts =
+      bonded != null
+        ? finished
+            .map((p) => pct(tallyTotal(p.final_tally_result), bonded))
+            .filter((v): v is number => v != null)
+        : [];
+
+    const withVotes = finished.filter((p) => tallyTotal(p.final_tally_result) > 0);
+
+    return {
+      participationRate: average(turnouts),
+      delegateCount: validatorCount,
+      proposalCount: proposalTotal ?? proposals.length,
+      proposalThroughput: finished.length > 0 ? pct(withVotes.length, finished.length) : null,
+      avgRationaleRate: null,
+      rawData: {
+        recentProposals: proposals.length,
+        finishedProposals: finished.length,
+        passed: finished.filter((p) => p.status === 'PROPOSAL_STATUS_PASSED').length,
+        bondedTokens,
+      },
+    };
+  },
+
+  metrics(b) {
+    const finished = rawField<number>(b, 'finishedProposals') ?? 0;
+    const passed = rawField<number>(b, 'passed');
+
+    return [
+      {
+        key: 'validators',
+        label: 'Active Validators',
+        value: b.delegateCount,
+        context: 'Bonded validators voting with their delegators’ stake',
+        source: 'Cosmos LCD',
+      },
+      {
+        key: 'turnout',
+        label: 'Avg Stake Turnout',
+        value: pctLabel(b.participationRate),
+        context: 'Average share of bonded ATOM voting on recently closed proposals',
+        source: 'Cosmos LCD',
+      },
+      {
+        key: 'proposals',
+        label: 'Total Proposals',
+        value: b.proposalCount,
+        context: 'Lifetime x/gov proposals on the Hub',
+        source: 'Cosmos LCD',
+      },
+      {
+        key: 'passRate',
+        label: 'Recent Pass Rate',
+        value: passed != null && finished > 0 ? pctLabel(pct(passed, finished)) : null,
+        context: 'Share of recently closed proposals that passed',
+        source: 'Cosmos LCD',
+      },
+    ];
+  },
+
+  headline(b) {
+    return b.delegateCount != null ? `${formatCompact(b.delegateCount)} validators` : 'No data';
+  },
+};
@@ -0,0 +1,20 @@
+import type { ChainAdapter } from '../adapter';
+import { arbitrumAdapter, optimismAdapter } from './agora';
+import { cardanoAdapter } from './cardano';
+import { cosmosAdapter } from './cosmos';
+import { subsquareAdapter } from './subsquare';
+import { tallyAdapter } from './tally';
+import { tezosAdapter } from './tezos';
+
+export { createAgoraAdapter, type AgoraAdapterConfig } from './agora';
+
+/** Registered at startup, in display order */
+export const BUILT_IN_ADAPTERS: ChainAdapter[] = [
+  cardanoAdapter,
+  tallyAdapter,
+  subsquareAdapter,
+  cosmosAdapter,
+  optimismAdapter,
+  arbitrumAdapter,
+  tezosAdapter,
+];
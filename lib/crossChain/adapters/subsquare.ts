@@ -0,0 +1,126 @@
+/**
+ * Polkadot — OpenGov referenda from SubSquare.
+ */
+
+import { formatCompact, pctLabel, rawField, type ChainAdapter } from '../adapter';
+
+const SUBSQUARE_BASE = 'https://polkadot.subsquare.io/api';
+
+interface SubsquareSummary {
+  gov2Referenda?: { all?: number; active?: number };
+  gov2ReferendaTracks?: { id: number; name: string; activeCount: number }[];
+  fellowshipReferenda?: { all?: number };
+}
+
+interface SubsquareReferenda {
+  items?: {
+    state?: { name: string };
+    onchainData?: { tally?: { ayes: string; nays: string } };
+  }[];
+  total?: number;
+}
+
+export interface SubsquareRaw {
+  summary: SubsquareSummary | null;
+  referenda: SubsquareReferenda | null;
+}
+
+export const subsquareAdapter: ChainAdapter<SubsquareRaw> = {
+  chain: 'polkadot',
+  identity: { name: 'Polkadot', color: '#ec4899', logo: '/chains/polkadot.svg' },
+  model: {
+    tagline: 'Conviction voting',
+    description:
+      'Polkadot uses conviction voting where token holders lock tokens for longer periods to increase their voting weight. Referenda pass through multiple tracks with different approval thresholds based on impact level.',
+    source: 'SubSquare',
+  },
+  structure: { onchain: 85, rationale: 30 },
+  featured: true,
+
+  async fetch(ctx) {
+    const headers = { Referer: 'https://polkadot.subsquare.io/' };
+    const [summary, referenda] = await Promise.all([
+      ctx.request({ url: `${SUBSQUARE_BASE}/summary`, headers }),
+      ctx.request({ url: `${SUBSQUARE_BASE}/gov2/referendums?page=1&page_size=20`, headers }),
+    ]);
+    if (!summary && !referenda) return null;
+    return {
+      summary: summary as SubsquareSummary | null,
+      referenda: referenda as SubsquareReferenda | null,
+    };
+  },
+
+  normalize({ summary, referenda }) {
+    const totalReferenda = summary?.gov2Referenda?.all ?? referenda?.total ?? 0;
+    const activeReferenda = summary?.gov2Referenda?.active ?? 0;
+    const activeTracks =
+      summary?.gov2ReferendaTracks?.filter((t) => t.activeCount > 0).length ?? null;
+
+    let proposalThroughput: number | null = null;
+    if (referenda?.items?.length) {
+      const withVotes = referenda.items.filter((r) => {
+        const ayes = parseInt(r.onchainData?.tally?.ayes || '0', 10);
+        const nays = parseInt(r.onchainData?.tally?.nays || '0', 10);
+        return ayes + nays > 0;
+      });
+      proposalThroughput = Math.round((withVotes.length / referenda.items.length) * 100);
+    }
+
+    // Participation rate: active referenda as % of total (approximate engagement metric)
+    const participationRate =
+      totalReferenda > 0
+        ? Math.min(100, Math.round((activeReferenda / totalReferenda) * 100))
+        : null;
+
+    return {
+      participationRate,
+      delegateCount: null,
+      proposalCount: totalReferenda,
+      proposalThroughput,
+      avgRationaleRate: null,
+      rawData: { summary, activeTracks, recentReferendaCount: referenda?.items?.length ?? 0 },
+    };
+  },
+
+  metrics(b) {
+    const recentCount = rawField<number>(b, 'recentReferendaCount') ?? 0;
+
+    return [
+      {
+        key: 'totalReferenda',
+        label: 'Total Referenda',
+        value: b.proposalCount,
+        context: 'Lifetime OpenGov referenda — proposals voted on by token holders',
+        source: 'SubSquare',
+      },
+      {
+        key: 'activeReferenda',
+        label: 'Active Referenda',
+        value:
+          b.participationRate != null && b.proposalCount != null
+            ? Math.round((b.participationRate / 100) * b.proposalCount)
+            : null,
+        context: 'Referenda currently open for voting',
+        source: 'SubSquare',
+      },
+      {
+        key: 'throughput',
+        label: 'Recent Throughput',
+        value: pctLabel(b.proposalThroughput),
+        context: 'Percentage of recent referenda that received on-chain votes',
+        source: 'SubSquare',
+      },
+      {
+        key: 'recentCount',
+        label: 'Recent Referenda',
+        value: recentCount || null,
+        context: 'Number of referenda in the most recent batch fetched',
+        source: 'SubSquare',
+      },
+    ];
+  },
+
+  headline(b) {
+    return b.proposalCount != null ? `${formatCompact(b.proposalCount)} referenda` : 'No data';
+  },
+};
@@ -0,0 +1,223 @@
+/**
+ * Ethereum — aggregates the most popular DAOs on Tally. There is no
+ * chain-level governance, so each DAO's delegates and proposals are summed.
+ */
+
+import { logger } from '@/lib/logger';
+import {
+  formatCompact,
+  pctLabel,
+  rawField,
+  type AdapterContext,
+  type ChainAdapter,
+} from '../adapter';
+
+const TALLY_API_URL = 'https://api.tally.xyz/query';
+
+const TALLY_ORGS_QUERY = `
+  query TopOrgs {
+    organizations(input: { sort: { field: POPULAR, order: DESC }, page: { limit: 20 } }) {
+      nodes {
+        ... on Organization {
+          id
+          slug
+          name
+          delegatesCount
+          delegatesVotesCount
+          tokenOwnersCount
+          proposalsCount
+          hasActiveProposals
+        }
+      }
+    }
+  }
+`;
+
+const TALLY_ORG_PROPOSALS_QUERY = `
+  query OrgProposals($slug: String!) {
+    proposals(input: { organizationSlug: $slug, page: { limit: 20 }, sort: { field: START_BLOCK, order: DESC } }) {
+      nodes {
+        ... on Proposal {
+          id
+          status
+          voteStats {
+            type
+            votesCount
+            votersCount
+            percent
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface TallyOrgNode {
+  slug: string;
+  name: string;
+  delegatesCount: number;
+  delegatesVotesCount: number;
+  tokenOwnersCount: number;
+  proposalsCount: number;
+}
+
+interface TallyProposalNode {
+  status: string;
+  voteStats: { votersCount: number }[];
+}
+
+export interface TallyRaw {
+  orgs: TallyOrgNode[];
+  /** Recent proposals of the most popular DAO */
+  proposals: TallyProposalNode[];
+}
+
+async function tallyQuery<T>(
+  ctx: AdapterContext,
+  apiKey: string,
+  query: string,
+  variables?: Record<string, unknown>,
+): Promise<T | null> {
+  const json = (await ctx.request({
+    url: TALLY_API_URL,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Api-Key': apiKey },
+    body: JSON.stringify({ query, variables }),
+  })) as { data?: T; errors?: unknown } | null;
+
+  if (json?.errors) {
+    logger.error('[crossChain] Tally GraphQL errors', { errors: json.errors });
+    return null;
+  }
+  return json?.data ?? null;
+}
+
+export const tallyAdapter: ChainAdapter<TallyRaw> = {
+  chain: 'ethereum',
+  identity: { name: 'Ethereum', color: '#a855f7', logo: '/chains/ethereum.svg' },
+  model: {
+    tagline: 'DAO token voting',
+    description:
+      'Ethereum governance is fragmented across independent DAOs, each with their own token and voting rules. Delegates vote on behalf of token holders within each DAO. There is no unified chain-level governance.',
+    source: 'Tally',
+  },
+  structure: { onchain: 40, rationale: 20 },
+  featured: true,
+
+  async fetch(ctx) {
+    const apiKey = ctx.env.TALLY_API_KEY;
+    if (!apiKey) {
+      logger.warn('[crossChain] TALLY_API_KEY not set, skipping Ethereum fetch');
+      return null;
+    }
+
+    const orgsData = await tallyQuery<{ organizations?: { nodes: TallyOrgNode[] } }>(
+      ctx,
+      apiKey,
+      TALLY_ORGS_QUERY,
+    );
+    const orgs = orgsData?.organizations?.nodes ?? [];
+    if (orgs.length === 0) return null;
+
+    const proposalsData = await tallyQuery<{ proposals?: { nodes: TallyProposalNode[] } }>(
+      ctx,
+      apiKey,
+      TALLY_ORG_PROPOSALS_QUERY,
+      { slug: orgs[0].slug },
+    );
+
+    return { orgs, proposals: proposalsData?.proposals?.nodes ?? [] };
+  },
+
+  normalize({ orgs, proposals }) {
+    const totalDelegates = orgs.reduce((s, o) => s + (o.delegatesCount || 0), 0);
+    const totalProposals = orgs.reduce((s, o) => s + (o.proposalsCount || 0), 0);
+    const totalTokenOwners = orgs.reduce((s, o) => s + (o.tokenOwnersCount || 0), 0);
+
+    let participationRate: number | null = null;
+    let proposalThroughput: number | null = null;
+
+    if (proposals.length > 0) {
+      const withVotes = proposals.filter((p) => p.voteStats?.some((v) => v.votersCount > 0));
+      proposalThroughput = Math.round((withVotes.length / proposals.length) * 100);
+
+      const avgVoters =
+        withVotes.reduce((s, p) => s + p.voteStats.reduce((vs, v) => vs + v.votersCount, 0), 0) /
+        Math.max(withVotes.length, 1);
+
+      participationRate =
+        totalDelegates > 0 ? Math.min(100, Math.round((avgVoters / totalDelegates) * 100)) : null;
+    }
+
+    return {
+      participationRate,
+      delegateCount: totalDelegates,
+      proposalCount: totalProposals,
+      proposalThroughput,
+      avgRationaleRate: null,
+      rawData: {
+        orgs: orgs.map((o) => ({
+          slug: o.slug,
+          name: o.name,
+          delegates: o.delegatesCount,
+          proposals: o.proposalsCount,
+        })),
+        totalTokenOwners,
+      },
+    };
+  },
+
+  metrics(b) {
+    const orgs = rawField<{ slug: string }[]>(b, 'orgs') ?? [];
+    const totalTokenOwners = rawField<number>(b, 'totalTokenOwners');
+
+    return [
+      {
+        key: 'daos',
+        label: 'Active DAOs',
+        value: orgs.length || null,
+        context: 'Top DAOs tracked via Tally — each has independent token governance',
+        source: 'Tally',
+      },
+      {
+        key: 'delegates',
+        label: 'Total Delegates',
+        value: b.delegateCount,
+        context: 'Combined delegates across all tracked DAOs',
+        source: 'Tally',
+      },
+      {
+        key: 'turnout',
+        label: 'Avg Voter Turnout',
+        value: pctLabel(b.participationRate),
+        context: 'Average voters per proposal relative to delegates in the top DAO',
+        source: 'Tally',
+      },
+      {
+        key: 'proposals',
+        label: 'Proposal Volume',
+        value: b.proposalCount,
+        context: 'Total proposals across all tracked DAOs',
+        source: 'Tally',
+      },
+      {
+        key: 'throughput',
+        label: 'Proposal Throughput',
+        value: pctLabel(b.proposalThroughput),
+        context: 'Percentage of recent proposals that received at least one vote',
+        source: 'Tally',
+      },
+      {
+        key: 'tokenOwners',
+        label: 'Token Owners',
+        value: totalTokenOwners ?? null,
+        context: 'Combined governance token holders across all tracked DAOs',
+        source: 'Tally',
+      },
+    ];
+  },
+
+  headline(b) {
+    return b.delegateCount != null ? `${formatCompact(b.delegateCount)} delegates` : 'No data';
+  },
+};
@@ -0,0 +1,122 @@
+/**
+ * Tezos — on-chain amendment voting periods from TzKT. Bakers vote with
+ * their staking power, so bakers play the delegate role.
+ */
+
+import { average, formatCompact, pct, pctLabel, rawField, type ChainAdapter } from '../adapter';
+
+const DEFAULT_TZKT_URL = 'https://api.tzkt.io';
+
+/** Periods where bakers cast yay/nay/pass ballots */
+const BALLOT_KINDS = new Set(['exploration', 'promotion']);
+
+interface TezosPeriod {
+  index: number;
+  kind: string;
+  status: string;
+  totalBakers?: number;
+  totalVotingPower?: number;
+  yayVotingPower?: number;
+  nayVotingPower?: number;
+  passVotingPower?: number;
+}
+
+export interface TezosRaw {
+  periods: TezosPeriod[];
+  proposalCount: number | null;
+}
+
+export const tezosAdapter: ChainAdapter<TezosRaw> = {
+  chain: 'tezos',
+  identity: { name: 'Tezos', color: '#2563eb', logo: '/chains/tezos.svg' },
+  model: {
+    tagline: 'On-chain amendment process',
+    description:
+      'Tezos upgrades itself through a five-period amendment cycle: bakers submit and upvote protocol proposals, then vote yay, nay or pass in exploration and promotion periods that require quorum and an 80% supermajority. Approved upgrades activate without a hard fork.',
+    source: 'TzKT',
+  },
+  structure: { onchain: 95, rationale: 10 },
+
+  async fetch(ctx) {
+    const base = ctx.env.TZKT_API_URL || DEFAULT_TZKT_URL;
+    const [periods, proposalCount] = await Promise.all([
+      ctx.request({ url: `${base}/v1/voting/periods?sort.desc=index&limit=20` }),
+      ctx.request({ url: `${base}/v1/voting/proposals/count` }),
+    ]);
+    if (!Array.isArray(periods)) return null;
+    return {
+      periods: periods as TezosPeriod[],
+      proposalCount: typeof proposalCount === 'number' ? proposalCount : null,
+    };
+  },
+
+  normalize({ periods, proposalCount }) {
+    const ballots = periods.filter((p) => BALLOT_KINDS.has(p.kind) && p.status !== 'active');
+    const turnouts = ballots
+      .map((p) =>
+        pct(
+          (p.yayVotingPower ?? 0) + (p.nayVotingPower ?? 0) + (p.passVotingPower ?? 0),
+          p.totalVotingPower ?? 0,
+        ),
+      )
+      .filter((v): v is number => v != null);
+
+    // A proposal period "moves" when at least one proposal was submitted
+    const proposalPeriods = periods.filter((p) => p.kind === 'proposal' && p.status !== 'active');
+    const withProposals = proposalPeriods.filter((p) => p.status !== 'no_proposals');
+
+    return {
+      participationRate: average(turnouts),
+      delegateCount: periods[0]?.totalBakers ?? null,
+      proposalCount,
+      proposalThroughput:
+        proposalPeriods.length > 0 ? pct(withProposals.length, proposalPeriods.length) : null,
+      avgRationaleRate: null,
+      rawData: {
+        currentPeriod: periods[0] ? { kind: periods[0].kind, index: periods[0].index } : null,
+        ballotPeriods: ballots.length,
+        adoptedUpgrades: periods.filter((p) => p.kind === 'promotion' && p.status === 'success')
+          .length,
+      },
+    };
+  },
+
+  metrics(b) {
+    const current = rawField<{ kind: string; index: number } | null>(b, 'currentPeriod');
+
+    return [
+      {
+        key: 'bakers',
+        label: 'Voting Bakers',
+        value: b.delegateCount,
+        context: 'Bakers with voting power in the current period',
+        source: 'TzKT',
+      },
+      {
+        key: 'turnout',
+        label: 'Avg Ballot Turnout',
+        value: pctLabel(b.participationRate),
+        context: 'Average share of voting power cast in recent exploration and promotion votes',
+        source: 'TzKT',
+      },
+      {
+        key: 'proposals',
+        label: 'Protocol Proposals',
+        value: b.proposalCount,
+        context: 'Lifetime protocol amendment proposals submitted by bakers',
+        source: 'TzKT',
+      },
+      {
+        key: 'period',
+        label: 'Current Period',
+        value: current ? `${current.kind} #${current.index}` : null,
+        context: 'Where the amendment cycle currently stands',
+        source: 'TzKT',
+      },
+    ];
+  },
+
+  headline(b) {
+    return b.delegateCount != null ? `${formatCompact(b.delegateCount)} bakers` : 'No data';
+  },
+};
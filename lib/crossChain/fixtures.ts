@@ -0,0 +1,116 @@
+/**
+ * Recorded chain API responses for exercising adapters offline.
+ *
+ * A fixture set holds request/response pairs; replayTransport() answers an
+ * adapter's requests from the set, matching on method, URL (query parameters
+ * in any order) and canonical JSON body, the same way Koios fixtures match.
+ * Sets are captured from the live APIs with recordingTransport() (see
+ * scripts/cross-chain-record.ts).
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { canonicalJson, normalizeQuery, parseBody } from '@/lib/koiosMock/fixtures';
+import { httpTransport, type ChainAdapter, type HttpRequest, type Transport } from './adapter';
+
+export const CHAIN_FIXTURE_VERSION = 1;
+
+export interface ChainFixtureEntry {
+  method: 'GET' | 'POST';
+  url: string;
+  /** Parsed JSON body for POST requests, null otherwise */
+  body: unknown;
+  status: number;
+  response: unknown;
+}
+
+export interface ChainFixtureSet {
+  version: number;
+  chain: string;
+  recordedAt: string;
+  /** Upstream the set was recorded from, or "hand-authored" */
+  source: string;
+  entries: ChainFixtureEntry[];
+  /**
+   * The adapter's fetch() result, kept only for adapters that make no
+   * transport requests (Cardano reads our own database); see replayAdapter()
+   */
+  raw?: unknown;
+}
+
+function requestKey(method: string, url: string, body: unknown): string {
+  const { origin, pathname, search } = new URL(url);
+  return `${method.toUpperCase()} ${origin}${pathname}?${normalizeQuery(search.slice(1))} ${canonicalJson(body)}`;
+}
+
+export function loadChainFixture(path: string): ChainFixtureSet {
+  const set = JSON.parse(readFileSync(path, 'utf8')) as ChainFixtureSet;
+  if (set.version !== CHAIN_FIXTURE_VERSION) {
+    throw new Error(
+      `Chain fixture ${path} is version ${set.version}; expected ${CHAIN_FIXTURE_VERSION}`,
+    );
+  }
+  return set;
+}
+
+/** Entries are sorted by key so re-recording produces reviewable diffs. */
+export function writeChainFixture(path: string, set: ChainFixtureSet): void {
+  const entries = [...set.entries].sort((a, b) =>
+    requestKey(a.method, a.url, a.body).localeCompare(requestKey(b.method, b.url, b.body)),
+  );
+  writeFileSync(path, `${JSON.stringify({ ...set, entries }, null, 2)}\n`);
+}
+
+/**
+ * Transport that forwards to `upstream` and keeps every exchange. Request
+ * headers (API keys) are never stored. A failed request resolves null like
+ * the live transport and is recorded with status 0, so replay fails it too.
+ */
+export function recordingTransport(upstream: Transport = httpTransport): {
+  transport: Transport;
+  entries: ChainFixtureEntry[];
+} {
+  const entries: ChainFixtureEntry[] = [];
+  const transport: Transport = async (req) => {
+    const response = await upstream(req);
+    entries.push({
+      method: req.method ?? 'GET',
+      url: req.url,
+      body: parseBody(req.body ?? ''),
+      status: response == null ? 0 : 200,
+      response,
+    });
+    return response;
+  };
+  return { transport, entries };
+}
+
+/**
+ * Adapter whose fetch() resolves the set's recorded raw data, for adapters
+ * that read from our own database instead of the transport.
+ */
+export function replayAdapter<Raw>(
+  adapter: ChainAdapter<Raw>,
+  set: ChainFixtureSet,
+): ChainAdapter<Raw> {
+  if (set.raw === undefined) throw new Error(`${set.chain} fixture has no recorded raw data`);
+  return { ...adapter, fetch: async () => set.raw as Raw };
+}
+
+/**
+ * Transport answering from a fixture set. Non-2xx entries resolve null like
+ * the live transport; unrecorded requests throw so missing fixtures are loud.
+ */
+export function replayTransport(
+  set: ChainFixtureSet,
+  onRequest?: (req: HttpRequest) => void,
+): Transport {
+  const index = new Map(set.entries.map((e) => [requestKey(e.method, e.url, e.body), e]));
+
+  return async (req) => {
+    onRequest?.(req);
+    const key = requestKey(req.method ?? 'GET', req.url, parseBody(req.body ?? ''));
+    const hit = index.get(key);
+    if (!hit) throw new Error(`No ${set.chain} fixture for ${key}`);
+    return hit.status >= 200 && hit.status < 300 ? hit.response : null;
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Chain adapter registry. Built-in adapters are registered on load; further
+ * chains can be added with registerChainAdapter() without touching the sync
+ * job, API or UI, which all iterate the registry.
+ */
+
+import type { ChainAdapter } from './adapter';
+import { BUILT_IN_ADAPTERS } from './adapters';
+import type { ChainIdentity } from './types';
+
+const adapters = new Map<string, ChainAdapter>();
+
+export function registerChainAdapter(adapter: ChainAdapter): void {
+  if (adapters.has(adapter.chain)) {
+    throw new Error(`Chain adapter "${adapter.chain}" is already registered`);
+  }
+  adapters.set(adapter.chain, adapter);
+}
+
+/** Test helper: drop a registered adapter */
+export function unregisterChainAdapter(chain: string): boolean {
+  return adapters.delete(chain);
+}
+
+export function getChainAdapter(chain: string): ChainAdapter | undefined {
+  return adapters.get(chain);
+}
+
+/** Registered adapters in registration order; `featured` limits to compact surfaces */
+export function listChainAdapters(options: { featured?: boolean } = {}): ChainAdapter[] {
+  const all = [...adapters.values()];
+  return options.featured ? all.filter((a) => a.featured) : all;
+}
+
+export function chainIdentity(chain: string): ChainIdentity {
+  const adapter = adapters.get(chain);
+  if (adapter) return { chain, ...adapter.identity };
+  return { chain, name: chain, color: '#64748b', logo: `/chains/${chain}.svg` };
+}
+
+for (const adapter of BUILT_IN_ADAPTERS) registerChainAdapter(adapter);
@@ -0,0 +1,49 @@
+/**
+ * Shared types for the cross-chain governance adapters. Client-safe: no
+ * fetching or server imports.
+ */
+
+/** Registered adapter id, e.g. 'cardano', 'cosmos', 'optimism' */
+export type Chain = string;
+
+/**
+ * One chain's governance snapshot for a period, normalized so chains can be
+ * compared. Rates are 0-100; null when the chain does not expose the metric.
+ */
+export interface ChainBenchmark {
+  chain: Chain;
+  /** ISO week, e.g. 2025-W09 */
+  periodLabel: string;
+  /** Average share of eligible voting power (or delegates) voting on recent proposals */
+  participationRate: number | null;
+  /** Accounts that vote on behalf of others: DReps, delegates, validators, bakers */
+  delegateCount: number | null;
+  proposalCount: number | null;
+  /** Share of recent proposals that received at least one vote */
+  proposalThroughput: number | null;
+  /** Share of votes accompanied by a published rationale */
+  avgRationaleRate: number | null;
+  rawData: Record<string, unknown>;
+  fetchedAt: string;
+}
+
+export interface ChainIdentity {
+  chain: Chain;
+  name: string;
+  color: string;
+  logo: string;
+}
+
+export interface GovernanceModel {
+  tagline: string;
+  description: string;
+  source: string;
+}
+
+export interface ChainMetric {
+  key: string;
+  label: string;
+  value: number | string | null;
+  context: string;
+  source: string;
+}
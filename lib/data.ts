@@ -1094,8 +1094,13 @@ export interface OpenProposal {
   noCount: number;
   abstainCount: number;
   totalVotes: number;
+  /** Cast in a batch transaction here but not yet seen by the vote sync */
+  submittedVote: { vote: string; txHash: string } | null;
 }
 
+/** How long a batch-submitted vote is shown before the sync should have it */
+const SUBMITTED_VOTE_WINDOW_MS = 3 * 86_400_000;
+
 /**
  * Get open proposals that a specific DRep has NOT voted on.
  * "Open" = no ratified, enacted, dropped, or expired epoch set.
@@ -1129,6 +1134,21 @@ export async function getOpenProposalsForDRep(drepId: string): Promise<OpenPropo
       }
     }
 
+    // Votes this DRep just submitted in a batch, pending sync
+    const { data: batchVotes } = await supabase
+      .from('batch_votes')
+      .select('tx_hash, proposal_tx_hash, proposal_index, vote')
+      .eq('drep_id', drepId)
+      .gte('created_at', new Date(Date.now() - SUBMITTED_VOTE_WINDOW_MS).toISOString())
+      .order('created_at', { ascending: true });
+    const submittedMap = new Map<string, { vote: string; txHash: string }>();
+    for (const v of batchVotes ?? []) {
+      submittedMap.set(`${v.proposal_tx_hash}-${v.proposal_index}`, {
+        vote: v.vote,
+        txHash: v.tx_hash,
+      });
+    }
+
     // Fetch vote counts for open proposals
     const openTxHashes = proposals.map((p) => p.tx_hash);
     const { data: allVotes } = await supabase
@@ -1171,6 +1191,7 @@ export async function getOpenProposalsForDRep(drepId: string): Promise<OpenPropo
           noCount: counts.no,
           abstainCount: counts.abstain,
           totalVotes: counts.yes + counts.no + counts.abstain,
+          submittedVote: submittedMap.get(key) ?? null,
         };
       });
   } catch (err) {
@@ -1364,7 +1385,7 @@ export interface VotingPowerSummary {
   thresholdLabel: string | null;
 }
 
-const PROPOSAL_TYPE_THRESHOLD_MAP: Record<string, string> = {
+export const PROPOSAL_TYPE_THRESHOLD_MAP: Record<string, string> = {
   TreasuryWithdrawals: 'dvt_treasury_withdrawal',
   ParameterChange: 'dvt_p_p_network_group',
   HardForkInitiation: 'dvt_hard_fork_initiation',
@@ -1378,7 +1399,7 @@ const PROPOSAL_TYPE_THRESHOLD_MAP: Record<string, string> = {
 let cachedThresholds: { data: Record<string, number>; fetchedAt: number } | null = null;
 const THRESHOLD_CACHE_MS = 24 * 60 * 60 * 1000;
 
-async function getGovernanceThresholds(): Promise<Record<string, number> | null> {
+export async function getGovernanceThresholds(): Promise<Record<string, number> | null> {
   if (cachedThresholds && Date.now() - cachedThresholds.fetchedAt < THRESHOLD_CACHE_MS) {
     return cachedThresholds.data;
   }
@@ -0,0 +1,79 @@
+/**
+ * Minimal Discord REST client for the Civica application (bot token auth).
+ * Calls are no-ops without DISCORD_BOT_TOKEN and never throw; callers get the
+ * HTTP status so they can drop feeds whose channel is gone or forbidden.
+ */
+
+import { logger } from '@/lib/logger';
+
+const DISCORD_API = 'https://discord.com/api/v10';
+const API_TIMEOUT_MS = 10_000;
+
+export interface DiscordEmbed {
+  title: string;
+  description?: string;
+  url?: string;
+  color?: number;
+  fields?: Array<{ name: string; value: string; inline?: boolean }>;
+  footer?: { text: string };
+  timestamp?: string;
+}
+
+export interface DiscordMessage {
+  content?: string;
+  embeds?: DiscordEmbed[];
+  /** Mentions are never resolved in bot posts */
+  allowed_mentions?: { parse: string[] };
+}
+
+async function discordRequest(
+  method: 'GET' | 'POST' | 'PUT',
+  path: string,
+  body?: unknown,
+): Promise<{ ok: boolean; status: number }> {
+  const botToken = process.env.DISCORD_BOT_TOKEN;
+  if (!botToken) return { ok: false, status: 0 };
+
+  try {
+    const res = await fetch(`${DISCORD_API}${path}`, {
+      method,
+      headers: { Authorization: `Bot ${botToken}`, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(API_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      logger.warn('[Discord] API call rejected', { method, path, status: res.status });
+    }
+    return { ok: res.ok, status: res.status };
+  } catch (err) {
+    logger.error('[Discord] API call failed', {
+      method,
+      path,
+      error: err instanceof Error ? err.message : err,
+    });
+    return { ok: false, status: 0 };
+  }
+}
+
+export function postChannelMessage(
+  channelId: string,
+  message: DiscordMessage,
+): Promise<{ ok: boolean; status: number }> {
+  return discordRequest('POST', `/channels/${channelId}/messages`, {
+    allowed_mentions: { parse: [] },
+    ...message,
+  });
+}
+
+/** Overwrite the application's global slash commands */
+export function registerGlobalCommands(
+  applicationId: string,
+  commands: unknown[],
+): Promise<{ ok: boolean; status: number }> {
+  return discordRequest('PUT', `/applications/${applicationId}/commands`, commands);
+}
+
+/** The channel is gone or the bot lost access; the feed can be dropped */
+export function isPermanentChannelError(status: number): boolean {
+  return status === 403 || status === 404;
+}
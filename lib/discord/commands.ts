@@ -0,0 +1,104 @@
+/**
+ * Slash command definitions for the Civica Discord application.
+ * Registered globally with `npx tsx scripts/register-discord-commands.ts`.
+ */
+
+import { getWebhookEvents } from '@/lib/notificationRegistry';
+
+/** Discord application command option types */
+const OPTION = { SUB_COMMAND: 1, STRING: 3, CHANNEL: 7 } as const;
+/** Text and announcement channels */
+const POSTABLE_CHANNEL_TYPES = [0, 5];
+/** Manage Server — server configuration commands are hidden from everyone else */
+export const MANAGE_GUILD_PERMISSION = BigInt(1 << 5);
+
+/** Ecosystem-wide events a server can route into its channels */
+export function getGuildFeedEvents(): { key: string; label: string }[] {
+  return getWebhookEvents()
+    .filter((e) => e.category === 'ecosystem')
+    .map((e) => ({ key: e.key, label: e.label }));
+}
+
+export function buildCommandDefinitions() {
+  const eventChoices = getGuildFeedEvents().map((e) => ({ name: e.label, value: e.key }));
+  const eventOption = {
+    type: OPTION.STRING,
+    name: 'event',
+    description: 'Governance event',
+    required: true,
+    choices: eventChoices,
+  };
+  const channelOption = (description: string) => ({
+    type: OPTION.CHANNEL,
+    name: 'channel',
+    description,
+    required: true,
+    channel_types: POSTABLE_CHANNEL_TYPES,
+  });
+
+  return [
+    {
+      name: 'drep',
+      description: 'Look up a DRep’s score and activity',
+      options: [
+        {
+          type: OPTION.STRING,
+          name: 'query',
+          description: 'DRep ID, name, ticker or $handle',
+          required: true,
+        },
+      ],
+    },
+    {
+      name: 'proposal',
+      description: 'Summarize a governance proposal with DRep, SPO and CC tallies',
+      options: [
+        {
+          type: OPTION.STRING,
+          name: 'id',
+          description: 'gov_action1… or txHash#index',
+          required: true,
+        },
+      ],
+    },
+    { name: 'ghi', description: 'Current Governance Health Index' },
+    { name: 'treasury', description: 'Treasury balance, runway and health' },
+    {
+      name: 'feeds',
+      description: 'Choose which governance events post into which channel',
+      default_member_permissions: MANAGE_GUILD_PERMISSION.toString(),
+      dm_permission: false,
+      options: [
+        {
+          type: OPTION.SUB_COMMAND,
+          name: 'add',
+          description: 'Post an event type into a channel',
+          options: [eventOption, channelOption('Channel to post into')],
+        },
+        {
+          type: OPTION.SUB_COMMAND,
+          name: 'remove',
+          description: 'Stop posting an event type',
+          options: [eventOption],
+        },
+        { type: OPTION.SUB_COMMAND, name: 'list', description: 'Show this server’s feeds' },
+      ],
+    },
+    {
+      name: 'drep-announce',
+      description: 'Announce a claimed DRep’s votes and rationales in this server',
+      default_member_permissions: MANAGE_GUILD_PERMISSION.toString(),
+      dm_permission: false,
+      options: [
+        {
+          type: OPTION.SUB_COMMAND,
+          name: 'link',
+          description: 'Link your claimed DRep profile to this server',
+          options: [channelOption('Channel for vote announcements')],
+        },
+        { type: OPTION.SUB_COMMAND, name: 'unlink', description: 'Stop announcing DRep votes' },
+        { type: OPTION.SUB_COMMAND, name: 'status', description: 'Show the linked DRep' },
+      ],
+    },
+  ];
+}
@@ -0,0 +1,195 @@
+/**
+ * Embed builders for Discord slash-command replies and channel feeds.
+ * Pure — data is fetched by the callers.
+ */
+
+import type { EnrichedDRep } from '@/lib/koios';
+import type { ProposalWithVoteSummary } from '@/lib/data';
+import type { GHIComponent } from '@/lib/ghi/types';
+import { GHI_BAND_COLORS, type GHIBand } from '@/lib/ghi/types';
+import { getEventColor, getEventDefinition } from '@/lib/notificationRegistry';
+import { formatAda, type TreasuryHealthScore } from '@/lib/treasury';
+import { getDRepPrimaryName } from '@/utils/display';
+import { proposalStatus } from '@/utils/proposalRef';
+import type { DiscordEmbed } from './api';
+
+const CIVICA_COLOR = 0x3b82f6;
+const FOOTER = { text: 'Civica' };
+/** Discord caps embed descriptions at 4096 characters; keep posts readable */
+const MAX_DESCRIPTION = 600;
+
+const PROPOSAL_TYPE_LABELS: Record<string, string> = {
+  TreasuryWithdrawals: 'Treasury Withdrawal',
+  ParameterChange: 'Parameter Change',
+  HardForkInitiation: 'Hard Fork',
+  InfoAction: 'Info Action',
+  NoConfidence: 'No Confidence',
+  NewCommittee: 'Committee Update',
+  NewConstitution: 'New Constitution',
+};
+
+function truncate(text: string, max = MAX_DESCRIPTION): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function tally(t: { yes: number; no: number; abstain: number }): string {
+  return `✅ ${t.yes} · ❌ ${t.no} · ⚪ ${t.abstain}`;
+}
+
+function proposalUrl(siteUrl: string, txHash: string, index: number): string {
+  return `${siteUrl}/proposal/${txHash}/${index}`;
+}
+
+export function drepEmbed(drep: EnrichedDRep, siteUrl: string): DiscordEmbed {
+  return {
+    title: getDRepPrimaryName(drep),
+    url: `${siteUrl}/drep/${encodeURIComponent(drep.drepId)}`,
+    color: CIVICA_COLOR,
+    fields: [
+      { name: 'Score', value: `${drep.drepScore}/100`, inline: true },
+      { name: 'Participation', value: `${drep.effectiveParticipation}%`, inline: true },
+      { name: 'Rationale', value: `${drep.rationaleRate}%`, inline: true },
+      { name: 'Reliability', value: `${drep.reliabilityScore}%`, inline: true },
+      { name: 'Votes cast', value: String(drep.totalVotes), inline: true },
+      { name: 'Profile', value: `${drep.profileCompleteness}%`, inline: true },
+    ],
+    footer: FOOTER,
+  };
+}
+
+export function proposalEmbed(p: ProposalWithVoteSummary, siteUrl: string): DiscordEmbed {
+  const status = proposalStatus(p);
+  const summary = p.aiSummary || p.abstract;
+  const meta = [
+    PROPOSAL_TYPE_LABELS[p.proposalType] ?? p.proposalType,
+    status,
+    status === 'Open' && p.expirationEpoch ? `expires epoch ${p.expirationEpoch}` : null,
+    p.withdrawalAmount ? `₳${formatAda(p.withdrawalAmount / 1_000_000)}` : null,
+  ].filter(Boolean);
+
+  const drep = p.triBody?.drep ?? { yes: p.yesCount, no: p.noCount, abstain: p.abstainCount };
+  const fields = [{ name: 'DReps', value: tally(drep), inline: true }];
+  if (p.triBody) {
+    fields.push(
+      { name: 'SPOs', value: tally(p.triBody.spo), inline: true },
+      { name: 'CC', value: tally(p.triBody.cc), inline: true },
+    );
+  }
+
+  return {
+    title: truncate(p.title || 'Untitled proposal', 256),
+    url: proposalUrl(siteUrl, p.txHash, p.proposalIndex),
+    description: [meta.join(' · '), summary ? truncate(summary) : null]
+      .filter(Boolean)
+      .join('\n\n'),
+    color: CIVICA_COLOR,
+    fields,
+    footer: FOOTER,
+  };
+}
+
+export function ghiEmbed(
+  ghi: { score: number; band: string; components: GHIComponent[]; epoch: number },
+  siteUrl: string,
+): DiscordEmbed {
+  return {
+    title: `Governance Health Index: ${Math.round(ghi.score)}/100`,
+    url: `${siteUrl}/pulse`,
+    description: `Band: **${ghi.band}** · epoch ${ghi.epoch}`,
+    color: parseInt((GHI_BAND_COLORS[ghi.band as GHIBand] ?? '#3b82f6').slice(1), 16),
+    fields: ghi.components.map((c) => ({
+      name: c.name,
+      value: `${Math.round(c.value)} (weight ${Math.round(c.weight * 100)}%)`,
+      inline: true,
+    })),
+    footer: FOOTER,
+  };
+}
+
+export function treasuryEmbed(
+  balance: { balanceAda: number; epoch: number },
+  health: TreasuryHealthScore | null,
+  siteUrl: string,
+): DiscordEmbed {
+  const fields = [{ name: 'Balance', value: `₳${formatAda(balance.balanceAda)}`, inline: true }];
+  if (health) {
+    fields.push(
+      { name: 'Health', value: `${health.score}/100`, inline: true },
+      {
+        name: 'Runway',
+        value:
+          Number.isFinite(health.runwayMonths) && health.runwayMonths < 1200
+            ? `${Math.round(health.runwayMonths)} months`
+            : 'No net outflow',
+        inline: true,
+      },
+      {
+        name: 'Burn rate',
+        value: `₳${formatAda(health.burnRatePerEpoch)} / epoch`,
+        inline: true,
+      },
+    );
+  }
+  return {
+    title: 'Cardano Treasury',
+    url: `${siteUrl}/pulse`,
+    description: `As of epoch ${balance.epoch}`,
+    color: CIVICA_COLOR,
+    fields,
+    footer: FOOTER,
+  };
+}
+
+/** One webhook_events row (ecosystem events) as a feed post */
+export function feedEventEmbed(
+  event: { event_type: string; occurred_at: string; data: Record<string, unknown> },
+  siteUrl: string,
+): DiscordEmbed {
+  const data = event.data as {
+    title?: string | null;
+    txHash?: string;
+    index?: number;
+    proposalType?: string;
+    withdrawalAmount?: number | null;
+  };
+  const label = getEventDefinition(event.event_type)?.label ?? event.event_type;
+  const meta = [
+    data.proposalType ? (PROPOSAL_TYPE_LABELS[data.proposalType] ?? data.proposalType) : null,
+    data.withdrawalAmount ? `₳${formatAda(data.withdrawalAmount / 1_000_000)}` : null,
+  ].filter(Boolean);
+
+  return {
+    title: truncate(`${label}: ${data.title || 'Untitled proposal'}`, 256),
+    url:
+      data.txHash !== undefined && data.index !== undefined
+        ? proposalUrl(siteUrl, data.txHash, data.index)
+        : undefined,
+    description: meta.length ? meta.join(' · ') : undefined,
+    color: getEventColor(event.event_type),
+    footer: FOOTER,
+    timestamp: event.occurred_at,
+  };
+}
+
+/** A linked DRep's vote, announced in their community server */
+export function drepVoteEmbed(
+  drepName: string,
+  vote: { vote: string; title: string | null; txHash: string; index: number; occurredAt: string },
+  rationale: string | null,
+  siteUrl: string,
+): DiscordEmbed {
+  const icon = vote.vote === 'Yes' ? '✅' : vote.vote === 'No' ? '❌' : '⚪';
+  return {
+    title: truncate(`${icon} ${drepName} voted ${vote.vote}`, 256),
+    url: proposalUrl(siteUrl, vote.txHash, vote.index),
+    description: [
+      `**${vote.title || 'Untitled proposal'}**`,
+      rationale
+        ? `> ${truncate(rationale).replace(/\n+/g, '\n> ')}`
+        : '_No rationale published yet._',
+    ].join('\n\n'),
+    color: vote.vote === 'Yes' ? 0x22c55e : vote.vote === 'No' ? 0xef4444 : 0x9ca3af,
+    footer: FOOTER,
+    timestamp: vote.occurredAt,
+  };
+}
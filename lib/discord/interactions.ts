@@ -0,0 +1,342 @@
+/**
+ * Discord interaction handlers — slash commands for lookups and per-guild
+ * configuration. Every reply is returned synchronously as the interaction
+ * response (Discord allows 3 s), so handlers read precomputed data only.
+ */
+
+import { randomBytes } from 'crypto';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getAllDReps, getDRepById, getProposalByKey } from '@/lib/data';
+import type { ProposalWithVoteSummary } from '@/lib/data';
+import type { GHIComponent } from '@/lib/ghi/types';
+import { calculateTreasuryHealthScore, getTreasuryBalance } from '@/lib/treasury';
+import { captureServerEvent } from '@/lib/posthog-server';
+import { getDRepPrimaryName, matchDReps } from '@/utils/display';
+import { parseProposalRef } from '@/utils/proposalRef';
+import type { DiscordEmbed } from './api';
+import { MANAGE_GUILD_PERMISSION, getGuildFeedEvents } from './commands';
+import { drepEmbed, ghiEmbed, proposalEmbed, treasuryEmbed } from './format';
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://drepscore.io';
+/** A DRep has this long to confirm a server link from their profile */
+export const LINK_TOKEN_TTL_MINUTES = 30;
+
+export const InteractionType = { PING: 1, APPLICATION_COMMAND: 2 } as const;
+const ResponseType = { PONG: 1, CHANNEL_MESSAGE: 4 } as const;
+/** Message flag: visible only to the invoking user */
+const EPHEMERAL = 1 << 6;
+
+export interface InteractionOption {
+  name: string;
+  type: number;
+  value?: string | number | boolean;
+  options?: InteractionOption[];
+}
+
+export interface Interaction {
+  id: string;
+  type: number;
+  guild_id?: string;
+  channel_id?: string;
+  member?: { user: { id: string }; permissions: string };
+  user?: { id: string };
+  data?: { name: string; options?: InteractionOption[] };
+}
+
+export interface InteractionResponse {
+  type: number;
+  data?: {
+    content?: string;
+    embeds?: DiscordEmbed[];
+    flags?: number;
+    allowed_mentions: { parse: string[] };
+  };
+}
+
+function reply(
+  body: { content?: string; embeds?: DiscordEmbed[] },
+  ephemeral = false,
+): InteractionResponse {
+  return {
+    type: ResponseType.CHANNEL_MESSAGE,
+    data: { ...body, allowed_mentions: { parse: [] }, ...(ephemeral && { flags: EPHEMERAL }) },
+  };
+}
+
+/** The (sub)command path and its leaf options, e.g. `feeds add` → { event, channel } */
+export function readCommand(data: NonNullable<Interaction['data']>): {
+  path: string[];
+  options: Record<string, string>;
+} {
+  const path = [data.name];
+  let options = data.options ?? [];
+  // Sub-command options (type 1) nest one level
+  const sub = options.find((o) => o.type === 1);
+  if (sub) {
+    path.push(sub.name);
+    options = sub.options ?? [];
+  }
+  return {
+    path,
+    options: Object.fromEntries(options.map((o) => [o.name, String(o.value ?? '')])),
+  };
+}
+
+/** Discord hides configuration commands by permission, but members can override that per server */
+export function canManageGuild(interaction: Interaction): boolean {
+  const permissions = interaction.member?.permissions;
+  if (!permissions) return false;
+  try {
+    return (BigInt(permissions) & MANAGE_GUILD_PERMISSION) === MANAGE_GUILD_PERMISSION;
+  } catch {
+    return false;
+  }
+}
+
+export async function handleInteraction(interaction: Interaction): Promise<InteractionResponse> {
+  if (interaction.type === InteractionType.PING) return { type: ResponseType.PONG };
+  if (interaction.type !== InteractionType.APPLICATION_COMMAND || !interaction.data) {
+    return reply({ content: 'Unsupported interaction.' }, true);
+  }
+
+  const { path, options } = readCommand(interaction.data);
+  const userId = interaction.member?.user.id ?? interaction.user?.id;
+  captureServerEvent(
+    'discord_command',
+    { command: path.join(' '), guild_id: interaction.guild_id ?? null },
+    `discord:${userId ?? 'unknown'}`,
+  );
+
+  switch (path[0]) {
+    case 'drep':
+      return commandDrep(options.query ?? '');
+    case 'proposal':
+      return commandProposal(options.id ?? '');
+    case 'ghi':
+      return commandGhi();
+    case 'treasury':
+      return commandTreasury();
+    case 'feeds':
+    case 'drep-announce': {
+      if (!interaction.guild_id) {
+        return reply({ content: 'This command only works inside a server.' }, true);
+      }
+      if (!canManageGuild(interaction)) {
+        return reply({ content: 'You need the Manage Server permission to do that.' }, true);
+      }
+      return path[0] === 'feeds'
+        ? commandFeeds(interaction.guild_id, path[1], options, userId)
+        : commandDrepAnnounce(interaction.guild_id, path[1], options);
+    }
+    default:
+      return reply({ content: 'Unknown command.' }, true);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Lookups
+// ---------------------------------------------------------------------------
+
+async function commandDrep(query: string): Promise<InteractionResponse> {
+  const trimmed = query.trim();
+  if (!trimmed) return reply({ content: 'Give a DRep ID, name, ticker or $handle.' }, true);
+
+  let drep = trimmed.startsWith('drep1') ? await getDRepById(trimmed) : null;
+  if (!drep) {
+    const { allDReps } = await getAllDReps();
+    [drep = null] = matchDReps(allDReps, trimmed, 1);
+  }
+  if (!drep) return reply({ content: `No DRep matches “${trimmed}”.` }, true);
+  return reply({ embeds: [drepEmbed(drep, SITE_URL)] });
+}
+
+async function resolveProposal(id: string): Promise<ProposalWithVoteSummary | null> {
+  const ref = parseProposalRef(id.split(/\s+/));
+  if (!ref) return null;
+  if ('txHash' in ref) return getProposalByKey(ref.txHash, ref.index);
+
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from('proposals')
+    .select('tx_hash, proposal_index')
+    .eq('proposal_id', ref.proposalId)
+    .maybeSingle();
+  return data ? getProposalByKey(data.tx_hash, data.proposal_index) : null;
+}
+
+async function commandProposal(id: string): Promise<InteractionResponse> {
+  const proposal = await resolveProposal(id);
+  if (!proposal) {
+    return reply({ content: 'Proposal not found. Use a gov_action1… ID or txHash#index.' }, true);
+  }
+  return reply({ embeds: [proposalEmbed(proposal, SITE_URL)] });
+}
+
+async function commandGhi(): Promise<InteractionResponse> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from('ghi_snapshots')
+    .select('epoch_no, score, band, components')
+    .order('epoch_no', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (!data) return reply({ content: 'The Governance Health Index is not available yet.' }, true);
+
+  return reply({
+    embeds: [
+      ghiEmbed(
+        {
+          score: data.score,
+          band: data.band,
+          components: (data.components as unknown as GHIComponent[]) ?? [],
+          epoch: data.epoch_no,
+        },
+        SITE_URL,
+      ),
+    ],
+  });
+}
+
+async function commandTreasury(): Promise<InteractionResponse> {
+  const [balance, health] = await Promise.all([
+    getTreasuryBalance(),
+    calculateTreasuryHealthScore(),
+  ]);
+  if (!balance) return reply({ content: 'Treasury data is not available yet.' }, true);
+  return reply({ embeds: [treasuryEmbed(balance, health, SITE_URL)] });
+}
+
+// ---------------------------------------------------------------------------
+// Server configuration
+// ---------------------------------------------------------------------------
+
+async function ensureGuild(guildId: string): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  await supabase
+    .from('discord_guilds')
+    .upsert({ guild_id: guildId }, { onConflict: 'guild_id', ignoreDuplicates: true });
+}
+
+async function commandFeeds(
+  guildId: string,
+  sub: string | undefined,
+  options: Record<string, string>,
+  userId: string | undefined,
+): Promise<InteractionResponse> {
+  const supabase = getSupabaseAdmin();
+  const events = getGuildFeedEvents();
+  const labelOf = (key: string) => events.find((e) => e.key === key)?.label ?? key;
+
+  if (sub === 'list') {
+    const { data: feeds } = await supabase
+      .from('discord_guild_feeds')
+      .select('event_type, channel_id')
+      .eq('guild_id', guildId)
+      .order('created_at');
+    if (!feeds?.length) {
+      return reply({ content: 'No feeds yet. Add one with `/feeds add`.' }, true);
+    }
+    return reply(
+      {
+        content: feeds.map((f) => `• **${labelOf(f.event_type)}** → <#${f.channel_id}>`).join('\n'),
+      },
+      true,
+    );
+  }
+
+  const event = options.event;
+  if (!events.some((e) => e.key === event)) {
+    return reply({ content: 'Unknown event type.' }, true);
+  }
+
+  if (sub === 'remove') {
+    await supabase
+      .from('discord_guild_feeds')
+      .delete()
+      .eq('guild_id', guildId)
+      .eq('event_type', event);
+    return reply({ content: `Stopped posting **${labelOf(event)}**.` }, true);
+  }
+
+  if (sub === 'add' && options.channel) {
+    await ensureGuild(guildId);
+    // Re-pointing a feed keeps its cursor so nothing is reposted
+    const { error } = await supabase.from('discord_guild_feeds').upsert(
+      {
+        guild_id: guildId,
+        event_type: event,
+        channel_id: options.channel,
+        created_by: userId ?? null,
+      },
+      { onConflict: 'guild_id,event_type' },
+    );
+    if (error) return reply({ content: 'Could not save the feed. Please try again.' }, true);
+    captureServerEvent('discord_feed_added', { guild_id: guildId, event_type: event }, guildId);
+    return reply(
+      { content: `**${labelOf(event)}** will be posted in <#${options.channel}>.` },
+      true,
+    );
+  }
+
+  return reply({ content: 'Unknown subcommand.' }, true);
+}
+
+async function commandDrepAnnounce(
+  guildId: string,
+  sub: string | undefined,
+  options: Record<string, string>,
+): Promise<InteractionResponse> {
+  const supabase = getSupabaseAdmin();
+
+  if (sub === 'status') {
+    const { data: guild } = await supabase
+      .from('discord_guilds')
+      .select('drep_id, drep_channel_id')
+      .eq('guild_id', guildId)
+      .maybeSingle();
+    if (!guild?.drep_id || !guild.drep_channel_id) {
+      return reply({ content: 'No DRep is linked. Use `/drep-announce link`.' }, true);
+    }
+    const drep = await getDRepById(guild.drep_id);
+    const name = drep ? getDRepPrimaryName(drep) : guild.drep_id;
+    return reply(
+      { content: `Announcing votes by **${name}** in <#${guild.drep_channel_id}>.` },
+      true,
+    );
+  }
+
+  if (sub === 'unlink') {
+    await supabase
+      .from('discord_guilds')
+      .update({ drep_id: null, drep_channel_id: null, drep_cursor: null })
+      .eq('guild_id', guildId);
+    return reply({ content: 'DRep vote announcements are off.' }, true);
+  }
+
+  if (sub === 'link' && options.channel) {
+    const token = randomBytes(24).toString('base64url');
+    const expiresAt = new Date(Date.now() + LINK_TOKEN_TTL_MINUTES * 60_000).toISOString();
+    const { error } = await supabase.from('discord_guilds').upsert(
+      {
+        guild_id: guildId,
+        link_token: token,
+        link_channel_id: options.channel,
+        link_expires_at: expiresAt,
+      },
+      { onConflict: 'guild_id' },
+    );
+    if (error) return reply({ content: 'Could not start the link. Please try again.' }, true);
+
+    return reply(
+      {
+        content:
+          `Open this link with the wallet of your **claimed** DRep profile to confirm ` +
+          `(expires in ${LINK_TOKEN_TTL_MINUTES} minutes):\n` +
+          `${SITE_URL}/my-gov/profile?discord_link=${token}`,
+      },
+      true,
+    );
+  }
+
+  return reply({ content: 'Unknown subcommand.' }, true);
+}
@@ -0,0 +1,50 @@
+/**
+ * Discord interaction signature verification.
+ * Discord signs every interaction with the application's Ed25519 key over
+ * `timestamp + rawBody`; endpoints that accept unsigned requests are rejected
+ * when the interactions URL is registered.
+ */
+
+import { createPublicKey, verify, type KeyObject } from 'crypto';
+
+/** DER SubjectPublicKeyInfo header for a raw 32-byte Ed25519 key */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+/** Replayed interactions older than this are refused */
+const MAX_TIMESTAMP_SKEW_SECONDS = 300;
+
+const keyCache = new Map<string, KeyObject>();
+
+function publicKeyFromHex(hex: string): KeyObject | null {
+  const cached = keyCache.get(hex);
+  if (cached) return cached;
+  const raw = Buffer.from(hex, 'hex');
+  if (raw.length !== 32) return null;
+  const key = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, raw]),
+    format: 'der',
+    type: 'spki',
+  });
+  keyCache.set(hex, key);
+  return key;
+}
+
+export function verifyDiscordSignature(
+  rawBody: string,
+  signature: string | null,
+  timestamp: string | null,
+  publicKeyHex: string,
+  nowSeconds = Math.floor(Date.now() / 1000),
+): boolean {
+  if (!signature || !timestamp || !/^[0-9a-f]{128}$/i.test(signature)) return false;
+
+  const ts = Number(timestamp);
+  if (!Number.isFinite(ts) || Math.abs(nowSeconds - ts) > MAX_TIMESTAMP_SKEW_SECONDS) return false;
+
+  try {
+    const key = publicKeyFromHex(publicKeyHex);
+    if (!key) return false;
+    return verify(null, Buffer.from(timestamp + rawBody), key, Buffer.from(signature, 'hex'));
+  } catch {
+    return false;
+  }
+}
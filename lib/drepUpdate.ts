@@ -7,6 +7,7 @@
  */
 
 import { MeshTxBuilder, KoiosProvider, BrowserWallet } from '@meshsdk/core';
+import { drepScriptHash } from '@/utils/drepId';
 
 const provider = new KoiosProvider('api');
 
@@ -17,6 +18,7 @@ const provider = new KoiosProvider('api');
 export type DRepUpdateErrorCode =
   | 'no_wallet'
   | 'no_drep_credential'
+  | 'script_credential'
   | 'user_rejected'
   | 'insufficient_funds'
   | 'tx_build_failed'
@@ -98,6 +100,14 @@ export async function updateDRepMetadata(
   },
 ): Promise<DRepUpdateResult> {
   try {
+    // Script DReps need every co-signer's witness; see lib/multisig
+    if (drepScriptHash(drepId)) {
+      throw new DRepUpdateError(
+        'script_credential',
+        'This DRep is controlled by a multisig script.',
+        'Start a multisig signing session so each co-signer can add their signature.',
+      );
+    }
     options?.onPhase?.('building');
 
     const utxos = await wallet.getUtxos();
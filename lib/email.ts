@@ -146,6 +146,7 @@ async function emailChannelSender(
     body: rendered.data.body as string,
     url: rendered.data.url as string | undefined,
     unsubscribeUrl,
+    locale: payload.locale,
   });
 
   return sendEmail(user.email, rendered.subject, emailElement, { unsubscribeUrl });
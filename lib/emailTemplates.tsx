@@ -17,6 +17,7 @@ import {
   Text,
 } from '@react-email/components';
 import * as React from 'react';
+import { DEFAULT_LOCALE, getTranslator, intlTag, type Locale } from './i18n';
 
 const BASE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://drepscore.io';
 
@@ -79,13 +80,16 @@ function EmailLayout({
   preview,
   children,
   unsubscribeUrl,
+  locale = DEFAULT_LOCALE,
 }: {
   preview: string;
   children: React.ReactNode;
   unsubscribeUrl?: string;
+  locale?: Locale;
 }) {
+  const tr = getTranslator(locale);
   return (
-    <Html>
+    <Html lang={intlTag(locale)}>
       <Head />
       <Preview>{preview}</Preview>
       <Body style={main}>
@@ -113,7 +117,7 @@ function EmailLayout({
               <>
                 {' · '}
                 <Link href={unsubscribeUrl} style={{ color: '#9ca3af' }}>
-                  Unsubscribe
+                  {tr('common.unsubscribe')}
                 </Link>
               </>
             )}
@@ -131,20 +135,22 @@ export function GenericNotificationEmail({
   body,
   url,
   unsubscribeUrl,
+  locale = DEFAULT_LOCALE,
 }: {
   title: string;
   body: string;
   url?: string;
   unsubscribeUrl?: string;
+  locale?: Locale;
 }) {
   return (
-    <EmailLayout preview={body.slice(0, 140)} unsubscribeUrl={unsubscribeUrl}>
+    <EmailLayout preview={body.slice(0, 140)} unsubscribeUrl={unsubscribeUrl} locale={locale}>
       <Heading style={heading}>{title}</Heading>
       <Text style={paragraph}>{body}</Text>
       {url && (
         <Section style={{ textAlign: 'center', margin: '24px 0' }}>
           <Button style={button} href={url.startsWith('http') ? url : `${BASE_URL}${url}`}>
-            View on DRepScore
+            {getTranslator(locale)('common.viewOnCivica')}
           </Button>
         </Section>
       )}
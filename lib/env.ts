@@ -23,8 +23,12 @@ const optionalEnv = z.object({
   VAPID_PRIVATE_KEY: z.string().min(1).optional(),
   NEXT_PUBLIC_VAPID_PUBLIC_KEY: z.string().min(1).optional(),
   DISCORD_WEBHOOK_URL: z.string().url().optional(),
+  DISCORD_APPLICATION_ID: z.string().min(1).optional(),
+  DISCORD_PUBLIC_KEY: z.string().min(1).optional(),
+  DISCORD_BOT_TOKEN: z.string().min(1).optional(),
   NEXT_PUBLIC_SENTRY_DSN: z.string().url().optional(),
   NEXT_PUBLIC_POSTHOG_KEY: z.string().min(1).optional(),
+  PINATA_JWT: z.string().min(1).optional(),
 });
 
 const OPTIONAL_KEYS = Object.keys(optionalEnv.shape) as (keyof z.infer<typeof optionalEnv>)[];
@@ -14,4 +14,10 @@ export {
   getBand,
 } from './ghi/types';
 
-export { computeGHI, type GHIComputeResult } from './ghi/index';
+export {
+  computeGHI,
+  loadGHIInputs,
+  scoreGHIInputs,
+  type GHIComputeResult,
+  type GHIInputs,
+} from './ghi/index';
@@ -11,6 +11,7 @@
 
 import { createClient } from '@/lib/supabase';
 import { computeEDI, type EDIResult } from './ediMetrics';
+import { DELIBERATION_WEIGHTS } from './scoring';
 
 // ---------------------------------------------------------------------------
 // Shared types
@@ -238,7 +239,10 @@ export async function computeDeliberationQuality({
     }
   }
 
-  const raw = rationaleScore * 0.5 + debateDiversityScore * 0.3 + independenceScore * 0.2;
+  const raw =
+    rationaleScore * DELIBERATION_WEIGHTS.rationaleQuality +
+    debateDiversityScore * DELIBERATION_WEIGHTS.debateDiversity +
+    independenceScore * DELIBERATION_WEIGHTS.votingIndependence;
 
   return {
     raw: Math.min(100, Math.max(0, Math.round(raw))),
@@ -329,7 +333,7 @@ export async function computeGovernanceEffectiveness({
 export async function computePowerDistribution({
   supabase,
   currentEpoch,
-}: ComponentInput): Promise<ComponentScore & { edi: EDIResult }> {
+}: ComponentInput): Promise<ComponentScore & { edi: EDIResult; votingPowers: number[] }> {
   const { data: dreps } = await supabase
     .from('dreps')
     .select('id, info')
@@ -367,6 +371,7 @@ export async function computePowerDistribution({
   return {
     raw,
     edi,
+    votingPowers,
     detail: {
       ediComposite: edi.compositeScore,
       onboardingBonus,
@@ -7,7 +7,6 @@
 
 import { createClient } from '@/lib/supabase';
 import { getFeatureFlag } from '@/lib/featureFlags';
-import { calibrate, CALIBRATION } from './calibration';
 import {
   computeDRepParticipation,
   computeCitizenEngagement,
@@ -16,6 +15,7 @@ import {
   computePowerDistribution,
   computeSystemStability,
   type ComponentInput,
+  type ComponentScore,
 } from './components';
 import type { EDIResult } from './ediMetrics';
 
@@ -28,43 +28,8 @@ export {
   GHI_BAND_LABELS,
   getBand,
 } from './types';
-import type { GHIComponent, GHIResult } from './types';
-import { getBand } from './types';
-
-// ---------------------------------------------------------------------------
-// Weight configuration
-// ---------------------------------------------------------------------------
-
-const BASE_WEIGHTS = {
-  'DRep Participation': 0.2,
-  'Citizen Engagement': 0.15,
-  'Deliberation Quality': 0.2,
-  'Governance Effectiveness': 0.2,
-  'Power Distribution': 0.15,
-  'System Stability': 0.1,
-} as const;
-
-type ComponentName = keyof typeof BASE_WEIGHTS;
-
-/**
- * When Citizen Engagement is off, redistribute its 15% proportionally.
- */
-function getWeights(citizenEngagementEnabled: boolean): Record<ComponentName, number> {
-  if (citizenEngagementEnabled) {
-    return { ...BASE_WEIGHTS };
-  }
-
-  const { 'Citizen Engagement': _, ...rest } = BASE_WEIGHTS;
-  const totalRemaining = Object.values(rest).reduce((s, w) => s + w, 0);
-
-  const redistributed: Record<string, number> = {};
-  for (const [name, weight] of Object.entries(rest)) {
-    redistributed[name] = weight / totalRemaining;
-  }
-  redistributed['Citizen Engagement'] = 0;
-
-  return redistributed as Record<ComponentName, number>;
-}
+import type { GHIResult } from './types';
+import { scoreGHI } from './scoring';
 
 // ---------------------------------------------------------------------------
 // Main computation
@@ -77,7 +42,22 @@ export interface GHIComputeResult extends GHIResult {
   };
 }
 
-export async function computeGHI(): Promise<GHIComputeResult> {
+export interface GHIInputs {
+  currentEpoch: number;
+  citizenEngagementEnabled: boolean;
+  participation: ComponentScore;
+  engagement: ComponentScore;
+  deliberation: ComponentScore;
+  effectiveness: ComponentScore;
+  power: ComponentScore & { edi: EDIResult; votingPowers: number[] };
+  stability: ComponentScore;
+}
+
+/**
+ * Raw (uncalibrated) component scores for the current state of governance.
+ * computeGHI calibrates and weights these; the sandbox perturbs them.
+ */
+export async function loadGHIInputs(): Promise<GHIInputs> {
   const supabase = createClient();
 
   // Get current epoch
@@ -91,7 +71,6 @@ export async function computeGHI(): Promise<GHIComputeResult> {
   const input: ComponentInput = { supabase, currentEpoch };
 
   const citizenEngagementEnabled = await getFeatureFlag('ghi_citizen_engagement', false);
-  const weights = getWeights(citizenEngagementEnabled);
 
   // Compute all components in parallel
   const [participation, deliberation, effectiveness, power, stability] = await Promise.all([
@@ -105,45 +84,49 @@ export async function computeGHI(): Promise<GHIComputeResult> {
   // Citizen engagement: only compute if flag is on
   const engagement = citizenEngagementEnabled
     ? await computeCitizenEngagement({ ...input })
-    : { raw: 0, detail: { skipped: true } };
+    : { raw: 0, detail: { skipped: 1 } };
 
-  // Apply calibration curves
-  const calibrated = {
-    'DRep Participation': calibrate(participation.raw, CALIBRATION.drepParticipation),
-    'Citizen Engagement': citizenEngagementEnabled
-      ? calibrate(engagement.raw, CALIBRATION.citizenEngagement)
-      : 0,
-    'Deliberation Quality': calibrate(deliberation.raw, CALIBRATION.deliberationQuality),
-    'Governance Effectiveness': calibrate(effectiveness.raw, CALIBRATION.governanceEffectiveness),
-    'Power Distribution': calibrate(power.raw, CALIBRATION.powerDistribution),
-    'System Stability': calibrate(stability.raw, CALIBRATION.systemStability),
+  return {
+    currentEpoch,
+    citizenEngagementEnabled,
+    participation,
+    engagement,
+    deliberation,
+    effectiveness,
+    power,
+    stability,
   };
+}
 
-  const components: GHIComponent[] = Object.entries(calibrated).map(([name, value]) => {
-    const weight = weights[name as ComponentName];
-    return {
-      name,
-      value: Math.round(value),
-      weight,
-      contribution: Math.round(value * weight),
-    };
-  });
-
-  const score = Math.min(
-    100,
-    Math.max(
-      0,
-      components.reduce((s, c) => s + c.contribution, 0),
-    ),
-  );
-
+/** Calibrate and weight loaded inputs into the GHI. */
+export function scoreGHIInputs({
+  citizenEngagementEnabled,
+  participation,
+  engagement,
+  deliberation,
+  effectiveness,
+  power,
+  stability,
+}: GHIInputs): GHIComputeResult {
   return {
-    score,
-    band: getBand(score),
-    components,
+    ...scoreGHI(
+      {
+        'DRep Participation': participation.raw,
+        'Citizen Engagement': engagement.raw,
+        'Deliberation Quality': deliberation.raw,
+        'Governance Effectiveness': effectiveness.raw,
+        'Power Distribution': power.raw,
+        'System Stability': stability.raw,
+      },
+      citizenEngagementEnabled,
+    ),
     edi: power.edi,
     meta: {
       activeDrepCount: power.detail?.activeDrepCount,
     },
   };
 }
+
+export async function computeGHI(): Promise<GHIComputeResult> {
+  return scoreGHIInputs(await loadGHIInputs());
+}
@@ -0,0 +1,238 @@
+/**
+ * GHI what-if sandbox — recomputes the Governance Health Index from adjusted
+ * inputs so users can explore questions like "what would it take to move from
+ * fair to good?".
+ *
+ * Adjustable inputs map onto the live component computations:
+ *   participationRate → DRep Participation raw (median effective participation)
+ *   rationaleRate     → rationale sub-signal of Deliberation Quality
+ *   activeDrepCount   → size of the voting-power distribution fed to computeEDI
+ *   concentration     → Zipf exponent of that distribution (0 = equal power)
+ *
+ * Everything else (effectiveness, stability, citizen engagement, the other
+ * deliberation sub-signals, the onboarding bonus) is held at its live value.
+ * A component whose inputs are untouched keeps its live raw score, so the
+ * unadjusted sandbox reproduces the live GHI exactly. Moving a distribution
+ * input switches Power Distribution to a synthetic Zipf distribution fitted
+ * to the live Gini.
+ *
+ * Pure math, no DB access.
+ */
+
+import { computeEDI, gini, type EDIResult } from './ediMetrics';
+import { DELIBERATION_WEIGHTS, scoreGHI, type ComponentName } from './scoring';
+import { getBand, type GHIBand, type GHIResult } from './types';
+import type { GHIInputs } from './index';
+
+export interface SandboxInputs {
+  /** Median DRep effective participation, 0-100 */
+  participationRate: number;
+  /** Rationale quality of recent votes, 0-100 */
+  rationaleRate: number;
+  /** DReps holding voting power */
+  activeDrepCount: number;
+  /** Zipf exponent of voting power: 0 = equal, higher = more concentrated */
+  concentration: number;
+}
+
+export type SandboxInput = keyof SandboxInputs;
+
+export interface SandboxBaseline {
+  inputs: SandboxInputs;
+  citizenEngagementEnabled: boolean;
+  /** Live raw component scores, the same values computeGHI weighs */
+  live: Record<ComponentName, number>;
+  /** Live EDI breakdown, reported while the distribution inputs are untouched */
+  liveEdi: EDIResult;
+  /** Added to the synthetic distribution's EDI, as the live Power Distribution does */
+  onboardingBonus: number;
+}
+
+export interface SandboxLever {
+  input: SandboxInput;
+  /** Value that reaches the next band on its own, or null if none in range */
+  value: number | null;
+}
+
+export interface SandboxBandTarget {
+  band: GHIBand;
+  threshold: number;
+  pointsNeeded: number;
+  levers: SandboxLever[];
+}
+
+export interface SandboxResult extends GHIResult {
+  inputs: SandboxInputs;
+  edi: EDIResult;
+  /** Next band up and the single-input changes that reach it; null when already strong */
+  nextBand: SandboxBandTarget | null;
+}
+
+export const SANDBOX_LIMITS: Record<SandboxInput, { min: number; max: number; step: number }> = {
+  participationRate: { min: 0, max: 100, step: 1 },
+  rationaleRate: { min: 0, max: 100, step: 1 },
+  activeDrepCount: { min: 1, max: 5000, step: 1 },
+  concentration: { min: 0, max: 3, step: 0.05 },
+};
+
+/** Synthetic voting powers following Zipf's law: the i-th largest holds 1/i^s. */
+export function zipfVotingPowers(count: number, concentration: number): number[] {
+  const powers: number[] = [];
+  for (let i = 1; i <= count; i++) powers.push(1e6 / Math.pow(i, concentration));
+  return powers;
+}
+
+/**
+ * Zipf exponent whose distribution over the same number of holders has the
+ * same Gini coefficient as `votingPowers`. Gini grows monotonically with the
+ * exponent, so bisection converges.
+ */
+export function fitConcentration(votingPowers: number[]): number {
+  const positive = votingPowers.filter((v) => v > 0);
+  if (positive.length < 2) return 0;
+  const target = gini(positive);
+
+  let lo = 0;
+  let hi = SANDBOX_LIMITS.concentration.max;
+  for (let i = 0; i < 40; i++) {
+    const mid = (lo + hi) / 2;
+    if (gini(zipfVotingPowers(positive.length, mid)) < target) lo = mid;
+    else hi = mid;
+  }
+  return Math.round(((lo + hi) / 2) * 100) / 100;
+}
+
+export function baselineFromInputs(inputs: GHIInputs): SandboxBaseline {
+  const { participation, engagement, deliberation, effectiveness, power, stability } = inputs;
+  return {
+    inputs: {
+      participationRate: Math.round(participation.detail?.medianParticipation ?? participation.raw),
+      rationaleRate: deliberation.detail?.rationaleQuality ?? 50,
+      activeDrepCount: Math.max(1, power.votingPowers.filter((v) => v > 0).length),
+      concentration: fitConcentration(power.votingPowers),
+    },
+    citizenEngagementEnabled: inputs.citizenEngagementEnabled,
+    live: {
+      'DRep Participation': participation.raw,
+      'Citizen Engagement': engagement.raw,
+      'Deliberation Quality': deliberation.raw,
+      'Governance Effectiveness': effectiveness.raw,
+      'Power Distribution': power.raw,
+      'System Stability': stability.raw,
+    },
+    liveEdi: power.edi,
+    onboardingBonus: power.detail?.onboardingBonus ?? 0,
+  };
+}
+
+function clampInputs(inputs: SandboxInputs): SandboxInputs {
+  const clamped = { ...inputs };
+  for (const key of Object.keys(SANDBOX_LIMITS) as SandboxInput[]) {
+    const { min, max } = SANDBOX_LIMITS[key];
+    clamped[key] = Math.min(max, Math.max(min, inputs[key]));
+  }
+  clamped.activeDrepCount = Math.round(clamped.activeDrepCount);
+  return clamped;
+}
+
+type EDICache = Map<string, EDIResult>;
+
+function evaluate(
+  baseline: SandboxBaseline,
+  inputs: SandboxInputs,
+  ediCache: EDICache,
+): GHIResult & { edi: EDIResult } {
+  const { live } = baseline;
+  const base = clampInputs(baseline.inputs);
+  const changed = (input: SandboxInput) => inputs[input] !== base[input];
+
+  let edi = baseline.liveEdi;
+  let power = live['Power Distribution'];
+  if (changed('activeDrepCount') || changed('concentration')) {
+    // Participation and rationale levers reuse the same distribution
+    const key = `${inputs.activeDrepCount}:${inputs.concentration}`;
+    const cached = ediCache.get(key);
+    edi = cached ?? computeEDI(zipfVotingPowers(inputs.activeDrepCount, inputs.concentration));
+    if (!cached) ediCache.set(key, edi);
+    power = Math.min(100, edi.compositeScore + baseline.onboardingBonus);
+  }
+
+  // Shift the live score by the rationale change; the other sub-signals keep their live values
+  const deliberation =
+    live['Deliberation Quality'] +
+    (inputs.rationaleRate - base.rationaleRate) * DELIBERATION_WEIGHTS.rationaleQuality;
+
+  const result = scoreGHI(
+    {
+      ...live,
+      'DRep Participation': changed('participationRate')
+        ? inputs.participationRate
+        : live['DRep Participation'],
+      'Deliberation Quality': Math.min(100, Math.max(0, Math.round(deliberation))),
+      'Power Distribution': power,
+    },
+    baseline.citizenEngagementEnabled,
+  );
+  return { ...result, edi };
+}
+
+/** Lowest score in the band above `score`'s band, or null when already in the top band. */
+function nextBandThreshold(score: number): { band: GHIBand; threshold: number } | null {
+  const current = getBand(score);
+  for (let s = score + 1; s <= 100; s++) {
+    const band = getBand(s);
+    if (band !== current) return { band, threshold: s };
+  }
+  return null;
+}
+
+/** Candidate values for one input, nearest first, in the direction that should help. */
+function leverCandidates(input: SandboxInput, current: number): number[] {
+  const { min, max, step } = SANDBOX_LIMITS[input];
+  const values: number[] = [];
+  if (input === 'concentration') {
+    for (let v = current - step; v >= min - 1e-9; v -= step) values.push(Math.max(min, v));
+  } else if (input === 'activeDrepCount') {
+    const stride = Math.max(step, Math.round(current * 0.05));
+    for (let v = current + stride; v <= Math.min(max, current * 4); v += stride) values.push(v);
+  } else {
+    for (let v = current + step; v <= max; v += step) values.push(v);
+  }
+  return values.map((v) => Math.round(v * 100) / 100);
+}
+
+/**
+ * Recompute the GHI with `overrides` applied to the baseline inputs.
+ */
+export function runSandbox(
+  baseline: SandboxBaseline,
+  overrides: Partial<SandboxInputs> = {},
+): SandboxResult {
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, v]) => v !== undefined),
+  ) as Partial<SandboxInputs>;
+  const inputs = clampInputs({ ...baseline.inputs, ...defined });
+  const ediCache: EDICache = new Map();
+  const result = evaluate(baseline, inputs, ediCache);
+
+  const target = nextBandThreshold(result.score);
+  let nextBand: SandboxBandTarget | null = null;
+  if (target) {
+    const levers = (Object.keys(SANDBOX_LIMITS) as SandboxInput[]).map((input) => {
+      const value =
+        leverCandidates(input, inputs[input]).find(
+          (candidate) =>
+            evaluate(baseline, { ...inputs, [input]: candidate }, ediCache).score >=
+            target.threshold,
+        ) ?? null;
+      return { input, value };
+    });
+    nextBand = {
+      ...target,
+      pointsNeeded: target.threshold - result.score,
+      levers,
+    };
+  }
+
+  return { ...result, inputs, nextBand };
+}
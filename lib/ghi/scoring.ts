@@ -0,0 +1,90 @@
+/**
+ * GHI calibration, weighting and aggregation — pure functions shared by the live
+ * orchestrator (computeGHI) and the what-if sandbox.
+ */
+
+import { calibrate, CALIBRATION } from './calibration';
+import { getBand, type GHIComponent, type GHIResult } from './types';
+
+export const BASE_WEIGHTS = {
+  'DRep Participation': 0.2,
+  'Citizen Engagement': 0.15,
+  'Deliberation Quality': 0.2,
+  'Governance Effectiveness': 0.2,
+  'Power Distribution': 0.15,
+  'System Stability': 0.1,
+} as const;
+
+/** Sub-signal weights within Deliberation Quality */
+export const DELIBERATION_WEIGHTS = {
+  rationaleQuality: 0.5,
+  debateDiversity: 0.3,
+  votingIndependence: 0.2,
+} as const;
+
+export type ComponentName = keyof typeof BASE_WEIGHTS;
+
+/**
+ * When Citizen Engagement is off, redistribute its 15% proportionally.
+ */
+export function getWeights(citizenEngagementEnabled: boolean): Record<ComponentName, number> {
+  if (citizenEngagementEnabled) {
+    return { ...BASE_WEIGHTS };
+  }
+
+  const { 'Citizen Engagement': _, ...rest } = BASE_WEIGHTS;
+  const totalRemaining = Object.values(rest).reduce((s, w) => s + w, 0);
+
+  const redistributed: Record<string, number> = {};
+  for (const [name, weight] of Object.entries(rest)) {
+    redistributed[name] = weight / totalRemaining;
+  }
+  redistributed['Citizen Engagement'] = 0;
+
+  return redistributed as Record<ComponentName, number>;
+}
+
+/**
+ * Calibrate raw component scores and combine them into the weighted GHI score.
+ */
+export function scoreGHI(
+  raw: Record<ComponentName, number>,
+  citizenEngagementEnabled: boolean,
+): GHIResult {
+  const weights = getWeights(citizenEngagementEnabled);
+
+  // Apply calibration curves
+  const calibrated: Record<ComponentName, number> = {
+    'DRep Participation': calibrate(raw['DRep Participation'], CALIBRATION.drepParticipation),
+    'Citizen Engagement': citizenEngagementEnabled
+      ? calibrate(raw['Citizen Engagement'], CALIBRATION.citizenEngagement)
+      : 0,
+    'Deliberation Quality': calibrate(raw['Deliberation Quality'], CALIBRATION.deliberationQuality),
+    'Governance Effectiveness': calibrate(
+      raw['Governance Effectiveness'],
+      CALIBRATION.governanceEffectiveness,
+    ),
+    'Power Distribution': calibrate(raw['Power Distribution'], CALIBRATION.powerDistribution),
+    'System Stability': calibrate(raw['System Stability'], CALIBRATION.systemStability),
+  };
+
+  const components: GHIComponent[] = Object.entries(calibrated).map(([name, value]) => {
+    const weight = weights[name as ComponentName];
+    return {
+      name,
+      value: Math.round(value),
+      weight,
+      contribution: Math.round(value * weight),
+    };
+  });
+
+  const score = Math.min(
+    100,
+    Math.max(
+      0,
+      components.reduce((s, c) => s + c.contribution, 0),
+    ),
+  );
+
+  return { score, band: getBand(score), components };
+}
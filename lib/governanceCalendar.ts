@@ -0,0 +1,477 @@
+/**
+ * Governance calendar feeds — proposal voting deadlines, epoch boundaries,
+ * treasury accountability poll windows and citizen assembly closing times as
+ * iCalendar events.
+ *
+ * Event UIDs are derived from the underlying record (proposal key, epoch,
+ * poll cycle, assembly id) so subscribed calendars update events in place as
+ * proposals ratify or expire instead of accumulating duplicates. Resolved
+ * items stay in the feed for RESOLVED_LOOKBACK_EPOCHS with their outcome.
+ */
+
+import { randomBytes } from 'crypto';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { blockTimeToEpoch, epochToBlockTime } from '@/lib/koios';
+import { BASE_URL } from '@/lib/constants';
+import { buildICalendar, type ICalEvent } from '@/lib/ical';
+
+export const CALENDAR_CATEGORIES = ['proposals', 'epochs', 'polls', 'assemblies'] as const;
+export type CalendarCategory = (typeof CALENDAR_CATEGORIES)[number];
+
+export const CALENDAR_SCOPES = ['mine', 'watchlist', 'all'] as const;
+export type CalendarScope = (typeof CALENDAR_SCOPES)[number];
+
+export interface CalendarFilter {
+  categories: CalendarCategory[];
+  /** Limit proposal events to these governance action types */
+  proposalTypes: string[] | null;
+  /** Only proposals at least one of these DReps has not voted on yet */
+  obligationsOf: string[] | null;
+  /** Reminder offsets for deadline events, in minutes */
+  alarmMinutes: number[];
+}
+
+export interface CalendarProposal {
+  txHash: string;
+  index: number;
+  title: string | null;
+  proposalType: string;
+  proposedEpoch: number | null;
+  expirationEpoch: number | null;
+  ratifiedEpoch: number | null;
+  enactedEpoch: number | null;
+  droppedEpoch: number | null;
+  expiredEpoch: number | null;
+  /** DReps from `obligationsOf` that have not voted; empty when not filtering */
+  pendingDReps: string[];
+}
+
+export interface CalendarPoll {
+  txHash: string;
+  index: number;
+  cycle: number;
+  title: string | null;
+  openedEpoch: number;
+  closesEpoch: number;
+  status: 'scheduled' | 'open' | 'closed';
+}
+
+export interface CalendarAssembly {
+  id: string;
+  title: string;
+  opensAt: string;
+  closesAt: string;
+  status: string;
+}
+
+export interface CalendarSources {
+  currentEpoch: number;
+  proposals: CalendarProposal[];
+  polls: CalendarPoll[];
+  assemblies: CalendarAssembly[];
+}
+
+/** How long resolved proposals, closed polls and assemblies stay in feeds */
+export const RESOLVED_LOOKBACK_EPOCHS = 6;
+const UPCOMING_EPOCHS = 6;
+/** Governance actions stay open this many epochs when no expiry is recorded */
+const DEFAULT_LIFETIME_EPOCHS = 6;
+const DEADLINE_MINUTES = 30;
+const BOUNDARY_MINUTES = 15;
+export const DEFAULT_ALARM_MINUTES = [24 * 60];
+const MAX_ALARMS = 3;
+const MAX_OBLIGATION_DREPS = 10;
+
+const DREP_ID_RE = /^(drep1[0-9a-z]{20,}|[0-9a-f]{56})$/;
+const PROPOSAL_TYPE_RE = /^[A-Za-z]{3,40}$/;
+
+const UID_DOMAIN = new URL(BASE_URL).hostname;
+
+function epochStart(epoch: number): Date {
+  return new Date(epochToBlockTime(epoch) * 1000);
+}
+
+function minutesBefore(date: Date, minutes: number): Date {
+  return new Date(date.getTime() - minutes * 60_000);
+}
+
+function minutesAfter(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60_000);
+}
+
+function proposalTitle(p: { title: string | null; txHash: string; index: number }): string {
+  return p.title || `Proposal ${p.txHash.slice(0, 8)}…#${p.index}`;
+}
+
+function shortDRep(id: string): string {
+  return id.length > 20 ? `${id.slice(0, 14)}…` : id;
+}
+
+function splitList(value: string | null): string[] {
+  return value
+    ? value
+        .split(',')
+        .map((s) => s.trim())
+        .filter(Boolean)
+    : [];
+}
+
+/**
+ * Parse feed query parameters (`include`, `type`, `drep`, `alarm`). Returns
+ * an error message for the first invalid value.
+ */
+export function parseCalendarFilter(
+  params: URLSearchParams,
+): { filter: CalendarFilter } | { error: string } {
+  const include = splitList(params.get('include'));
+  const unknown = include.find((c) => !(CALENDAR_CATEGORIES as readonly string[]).includes(c));
+  if (unknown) {
+    return { error: `Unknown category '${unknown}'. Use ${CALENDAR_CATEGORIES.join(', ')}.` };
+  }
+
+  const types = splitList(params.get('type'));
+  const badType = types.find((t) => !PROPOSAL_TYPE_RE.test(t));
+  if (badType) return { error: `Invalid proposal type '${badType}'.` };
+
+  const dreps = splitList(params.get('drep'));
+  if (dreps.length > MAX_OBLIGATION_DREPS) {
+    return { error: `At most ${MAX_OBLIGATION_DREPS} DReps per feed.` };
+  }
+  const badDRep = dreps.find((d) => !DREP_ID_RE.test(d));
+  if (badDRep) return { error: `Invalid DRep ID '${badDRep}'.` };
+
+  const alarmParam = params.get('alarm');
+  let alarmMinutes = DEFAULT_ALARM_MINUTES;
+  if (alarmParam != null) {
+    // alarm=none disables reminders; otherwise hours before the deadline
+    const hours = alarmParam === 'none' ? [] : splitList(alarmParam).map(Number);
+    if (hours.length > MAX_ALARMS || hours.some((h) => !Number.isInteger(h) || h < 0 || h > 240)) {
+      return {
+        error: `alarm takes up to ${MAX_ALARMS} whole hours between 0 and 240, or 'none'.`,
+      };
+    }
+    alarmMinutes = hours.map((h) => h * 60);
+  }
+
+  return {
+    filter: {
+      categories: include.length > 0 ? (include as CalendarCategory[]) : [...CALENDAR_CATEGORIES],
+      proposalTypes: types.length > 0 ? types : null,
+      obligationsOf: dreps.length > 0 ? dreps : null,
+      alarmMinutes,
+    },
+  };
+}
+
+export async function loadCalendarSources(filter: CalendarFilter): Promise<CalendarSources> {
+  const supabase = getSupabaseAdmin();
+  const currentEpoch = blockTimeToEpoch(Math.floor(Date.now() / 1000));
+  const sinceEpoch = currentEpoch - RESOLVED_LOOKBACK_EPOCHS;
+  const wants = (c: CalendarCategory) => filter.categories.includes(c);
+
+  let proposals: CalendarProposal[] = [];
+  if (wants('proposals')) {
+    let query = supabase
+      .from('proposals')
+      .select(
+        'tx_hash, proposal_index, title, proposal_type, proposed_epoch, expiration_epoch, ratified_epoch, enacted_epoch, dropped_epoch, expired_epoch',
+      )
+      .or(
+        `expiration_epoch.gte.${sinceEpoch},ratified_epoch.gte.${sinceEpoch},dropped_epoch.gte.${sinceEpoch},expired_epoch.gte.${sinceEpoch},proposed_epoch.gte.${sinceEpoch - DEFAULT_LIFETIME_EPOCHS}`,
+      );
+    if (filter.proposalTypes) query = query.in('proposal_type', filter.proposalTypes);
+    const { data } = await query;
+
+    proposals = (data ?? []).map((p) => ({
+      txHash: p.tx_hash,
+      index: p.proposal_index,
+      title: p.title,
+      proposalType: p.proposal_type,
+      proposedEpoch: p.proposed_epoch,
+      expirationEpoch: p.expiration_epoch,
+      ratifiedEpoch: p.ratified_epoch,
+      enactedEpoch: p.enacted_epoch,
+      droppedEpoch: p.dropped_epoch,
+      expiredEpoch: p.expired_epoch,
+      pendingDReps: [],
+    }));
+
+    if (filter.obligationsOf && proposals.length > 0) {
+      const { data: votes } = await supabase
+        .from('drep_votes')
+        .select('drep_id, proposal_tx_hash, proposal_index')
+        .in('drep_id', filter.obligationsOf)
+        .in(
+          'proposal_tx_hash',
+          proposals.map((p) => p.txHash),
+        );
+      const voted = new Set(
+        (votes ?? []).map((v) => `${v.drep_id}|${v.proposal_tx_hash}-${v.proposal_index}`),
+      );
+      const dreps = filter.obligationsOf;
+      proposals = proposals
+        .map((p) => ({
+          ...p,
+          pendingDReps: dreps.filter((d) => !voted.has(`${d}|${p.txHash}-${p.index}`)),
+        }))
+        .filter((p) => p.pendingDReps.length > 0);
+    }
+  }
+
+  let polls: CalendarPoll[] = [];
+  if (wants('polls')) {
+    const { data } = await supabase
+      .from('treasury_accountability_polls')
+      .select('proposal_tx_hash, proposal_index, cycle_number, opened_epoch, closes_epoch, status')
+      .gte('closes_epoch', sinceEpoch);
+    const rows = data ?? [];
+
+    const titles = new Map<string, string | null>();
+    if (rows.length > 0) {
+      const { data: props } = await supabase
+        .from('proposals')
+        .select('tx_hash, proposal_index, title')
+        .in(
+          'tx_hash',
+          rows.map((r) => r.proposal_tx_hash),
+        );
+      for (const p of props ?? []) titles.set(`${p.tx_hash}-${p.proposal_index}`, p.title);
+    }
+
+    polls = rows.map((r) => ({
+      txHash: r.proposal_tx_hash,
+      index: r.proposal_index,
+      cycle: r.cycle_number,
+      title: titles.get(`${r.proposal_tx_hash}-${r.proposal_index}`) ?? null,
+      openedEpoch: r.opened_epoch,
+      closesEpoch: r.closes_epoch,
+      status: r.status as CalendarPoll['status'],
+    }));
+  }
+
+  let assemblies: CalendarAssembly[] = [];
+  if (wants('assemblies')) {
+    const since = epochStart(sinceEpoch).toISOString();
+    const { data } = await supabase
+      .from('citizen_assemblies')
+      .select('id, title, opens_at, closes_at, status')
+      .in('status', ['active', 'closed', 'cancelled'])
+      .gte('closes_at', since);
+    assemblies = (data ?? []).map((a) => ({
+      id: a.id,
+      title: a.title,
+      opensAt: a.opens_at,
+      closesAt: a.closes_at,
+      status: a.status,
+    }));
+  }
+
+  return { currentEpoch, proposals, polls, assemblies };
+}
+
+function proposalEvent(p: CalendarProposal, filter: CalendarFilter): ICalEvent {
+  const title = proposalTitle(p);
+  const url = `${BASE_URL}/proposal/${p.txHash}/${p.index}`;
+  const uid = `proposal-${p.txHash}-${p.index}@${UID_DOMAIN}`;
+  const categories = ['Governance', 'Proposal', p.proposalType];
+
+  const outcome: [string, number, ICalEvent['status']] | null =
+    p.enactedEpoch != null
+      ? ['Enacted', p.enactedEpoch, 'CONFIRMED']
+      : p.ratifiedEpoch != null
+        ? ['Ratified', p.ratifiedEpoch, 'CONFIRMED']
+        : p.droppedEpoch != null
+          ? ['Dropped', p.droppedEpoch, 'CANCELLED']
+          : p.expiredEpoch != null
+            ? ['Expired', p.expiredEpoch, 'CANCELLED']
+            : null;
+
+  // Resolved: same UID, moved to the epoch boundary where it was decided
+  if (outcome) {
+    const [label, epoch, status] = outcome;
+    const at = epochStart(epoch);
+    return {
+      uid,
+      start: at,
+      end: minutesAfter(at, BOUNDARY_MINUTES),
+      summary: `${label}: ${title}`,
+      description: `${p.proposalType} — ${label.toLowerCase()} at the start of epoch ${epoch}.\n${url}`,
+      url,
+      categories,
+      status,
+      sequence: 1,
+    };
+  }
+
+  // Votes cast during the expiration epoch still count at its closing boundary
+  const expiry = p.expirationEpoch ?? (p.proposedEpoch ?? 0) + DEFAULT_LIFETIME_EPOCHS;
+  const deadline = epochStart(expiry + 1);
+  const pending =
+    p.pendingDReps.length > 0 ? `\nStill to vote: ${p.pendingDReps.map(shortDRep).join(', ')}` : '';
+  return {
+    uid,
+    start: minutesBefore(deadline, DEADLINE_MINUTES),
+    end: deadline,
+    summary: `${p.pendingDReps.length > 0 ? 'Vote due' : 'Voting closes'}: ${title}`,
+    description: `${p.proposalType} — voting closes at the end of epoch ${expiry}.${pending}\n${url}`,
+    url,
+    categories,
+    sequence: 0,
+    alarmMinutes: filter.alarmMinutes,
+  };
+}
+
+function pollEvent(p: CalendarPoll, filter: CalendarFilter): ICalEvent {
+  const closes = epochStart(p.closesEpoch);
+  const url = `${BASE_URL}/proposal/${p.txHash}/${p.index}`;
+  const closed = p.status === 'closed';
+  return {
+    uid: `poll-${p.txHash}-${p.index}-${p.cycle}@${UID_DOMAIN}`,
+    start: minutesBefore(closes, DEADLINE_MINUTES),
+    end: closes,
+    summary: `${closed ? 'Accountability poll closed' : 'Accountability poll closes'}: ${proposalTitle(p)}`,
+    description: `Treasury accountability poll (cycle ${p.cycle}), open epochs ${p.openedEpoch}–${p.closesEpoch - 1}. Did this funded proposal deliver?\n${url}`,
+    url,
+    categories: ['Governance', 'Accountability poll'],
+    sequence: closed ? 1 : 0,
+    alarmMinutes: closed ? [] : filter.alarmMinutes,
+  };
+}
+
+function assemblyEvent(a: CalendarAssembly, filter: CalendarFilter): ICalEvent {
+  const closes = new Date(a.closesAt);
+  const cancelled = a.status === 'cancelled';
+  const open = a.status === 'active';
+  const url = `${BASE_URL}/engage`;
+  return {
+    uid: `assembly-${a.id}@${UID_DOMAIN}`,
+    start: minutesBefore(closes, DEADLINE_MINUTES),
+    end: closes,
+    summary: `${open ? 'Citizen assembly closes' : 'Citizen assembly closed'}: ${a.title}`,
+    description: `Citizen assembly open ${new Date(a.opensAt).toUTCString()} to ${closes.toUTCString()}.\n${url}`,
+    url,
+    categories: ['Governance', 'Citizen assembly'],
+    status: cancelled ? 'CANCELLED' : 'CONFIRMED',
+    sequence: open ? 0 : 1,
+    alarmMinutes: open ? filter.alarmMinutes : [],
+  };
+}
+
+function epochEvent(epoch: number): ICalEvent {
+  const start = epochStart(epoch);
+  return {
+    uid: `epoch-${epoch}@${UID_DOMAIN}`,
+    start,
+    end: minutesAfter(start, BOUNDARY_MINUTES),
+    summary: `Cardano epoch ${epoch} begins`,
+    description: `Epoch boundary: proposals are ratified, enacted or expired, and voting power snapshots are taken.\n${BASE_URL}/pulse`,
+    url: `${BASE_URL}/pulse`,
+    categories: ['Governance', 'Epoch'],
+  };
+}
+
+/** Turn loaded sources into calendar events, ordered by start time */
+export function buildCalendarEvents(sources: CalendarSources, filter: CalendarFilter): ICalEvent[] {
+  const wants = (c: CalendarCategory) => filter.categories.includes(c);
+  const events: ICalEvent[] = [];
+
+  if (wants('epochs')) {
+    for (let e = sources.currentEpoch; e <= sources.currentEpoch + UPCOMING_EPOCHS; e++) {
+      events.push(epochEvent(e));
+    }
+  }
+  if (wants('proposals')) {
+    for (const p of sources.proposals) events.push(proposalEvent(p, filter));
+  }
+  if (wants('polls')) {
+    for (const p of sources.polls) events.push(pollEvent(p, filter));
+  }
+  if (wants('assemblies')) {
+    for (const a of sources.assemblies) events.push(assemblyEvent(a, filter));
+  }
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+export async function getGovernanceCalendarFeed(
+  filter: CalendarFilter,
+  name: string,
+): Promise<string> {
+  const sources = await loadCalendarSources(filter);
+  return buildICalendar({
+    name,
+    description:
+      'Cardano governance deadlines from Civica: proposal expiries, epoch boundaries, accountability polls and citizen assemblies.',
+    refreshMinutes: 60,
+    events: buildCalendarEvents(sources, filter),
+  });
+}
+
+// ── Personal feeds ──────────────────────────────────────────────────────────
+
+export function calendarFeedUrl(token: string): string {
+  return `${BASE_URL}/api/governance/calendar/ics/${token}`;
+}
+
+/** Return the user's feed token, creating one on first use or when rotating */
+export async function ensureCalendarToken(userId: string, rotate = false): Promise<string | null> {
+  const supabase = getSupabaseAdmin();
+  if (!rotate) {
+    const { data } = await supabase
+      .from('calendar_feeds')
+      .select('token')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (data) return data.token;
+  }
+
+  const token = randomBytes(24).toString('base64url');
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .upsert(
+      { user_id: userId, token, created_at: new Date().toISOString() },
+      { onConflict: 'user_id' },
+    );
+  return error ? null : token;
+}
+
+/**
+ * Resolve a personal feed token. `mine` follows the user's claimed DRep's
+ * open votes (everything for non-DReps), `watchlist` the DReps they watch.
+ */
+export async function resolvePersonalCalendar(
+  token: string,
+  scope: CalendarScope,
+): Promise<{ obligationsOf: string[] | null; name: string } | null> {
+  const supabase = getSupabaseAdmin();
+  const { data: feed } = await supabase
+    .from('calendar_feeds')
+    .select('user_id')
+    .eq('token', token)
+    .maybeSingle();
+  if (!feed) return null;
+
+  const [{ data: user }] = await Promise.all([
+    supabase
+      .from('users')
+      .select('claimed_drep_id, watchlist')
+      .eq('id', feed.user_id)
+      .maybeSingle(),
+    supabase
+      .from('calendar_feeds')
+      .update({ last_fetched_at: new Date().toISOString() })
+      .eq('user_id', feed.user_id),
+  ]);
+  if (!user) return null;
+
+  if (scope === 'watchlist') {
+    return {
+      obligationsOf: (user.watchlist ?? []).slice(0, MAX_OBLIGATION_DREPS),
+      name: 'Civica — Watched DReps',
+    };
+  }
+  if (scope === 'mine' && user.claimed_drep_id) {
+    return { obligationsOf: [user.claimed_drep_id], name: 'Civica — My Votes Due' };
+  }
+  return { obligationsOf: null, name: 'Civica Governance' };
+}
@@ -0,0 +1,91 @@
+/**
+ * Localized AI content — English AI output (proposal summaries, epoch recaps)
+ * translated per supported locale and cached in localized_ai_content.
+ *
+ * Each cached row carries the sha256 of the English text it was made from, so
+ * readers only overlay a translation that still matches its source and the
+ * localize-ai-content function regenerates stale rows after a source changes.
+ */
+
+import { createHash } from 'crypto';
+import { generateText } from '@/lib/ai';
+import { createClient } from '@/lib/supabase';
+import { DEFAULT_LOCALE, LOCALE_ENGLISH_NAMES, type Locale } from './config';
+
+export type LocalizedContentType = 'proposal_summary' | 'epoch_recap';
+
+export interface LocalizableSource {
+  key: string;
+  text: string;
+}
+
+const CONTENT_DESCRIPTIONS: Record<LocalizedContentType, string> = {
+  proposal_summary: 'one-sentence summary of a governance proposal',
+  epoch_recap: 'short newsletter recap of a governance epoch',
+};
+
+export function proposalContentKey(txHash: string, index: number): string {
+  return `${txHash}#${index}`;
+}
+
+export function hashSource(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+export function buildTranslationPrompt(
+  type: LocalizedContentType,
+  text: string,
+  locale: Locale,
+): string {
+  return `Translate this ${CONTENT_DESCRIPTIONS[type]} for the Cardano blockchain into ${LOCALE_ENGLISH_NAMES[locale]}.
+Keep the meaning, tone and length. Keep proper nouns, project names, ticker symbols, ₳/ADA amounts and the terms DRep, SPO and Constitutional Committee as they are commonly written in ${LOCALE_ENGLISH_NAMES[locale]} Cardano communities.
+
+TEXT:
+${text}
+
+Output ONLY the translation, nothing else.`;
+}
+
+/** Translate one English source. Returns null when AI is unavailable. */
+export async function translateAIContent(
+  type: LocalizedContentType,
+  text: string,
+  locale: Locale,
+): Promise<string | null> {
+  const translated = await generateText(buildTranslationPrompt(type, text, locale), {
+    maxTokens: type === 'epoch_recap' ? 400 : 200,
+    temperature: 0.2,
+  });
+  const trimmed = translated?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Cached translations for `sources`, keyed by content key. Rows whose source
+ * hash no longer matches are left out, so callers fall back to English.
+ */
+export async function getLocalizedContent(
+  type: LocalizedContentType,
+  sources: LocalizableSource[],
+  locale: Locale,
+): Promise<Map<string, string>> {
+  const result = new Map<string, string>();
+  if (locale === DEFAULT_LOCALE || sources.length === 0) return result;
+
+  const supabase = createClient();
+  const { data } = await supabase
+    .from('localized_ai_content')
+    .select('content_key, content, source_hash')
+    .eq('content_type', type)
+    .eq('locale', locale)
+    .in(
+      'content_key',
+      sources.map((s) => s.key),
+    );
+
+  const hashes = new Map(sources.map((s) => [s.key, hashSource(s.text)]));
+  for (const row of data ?? []) {
+    if (hashes.get(row.content_key) === row.source_hash) result.set(row.content_key, row.content);
+  }
+  return result;
+}
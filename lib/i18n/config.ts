@@ -0,0 +1,58 @@
+/**
+ * Locale configuration — the languages Civica ships catalogs for and how a
+ * visitor's locale is chosen when they have not picked one.
+ */
+
+export const SUPPORTED_LOCALES = ['en', 'ja', 'es', 'pt', 'vi'] as const;
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Cookie mirroring the user's choice so anonymous visitors keep it too */
+export const LOCALE_COOKIE = 'civica_locale';
+
+/** Shown in the language picker, each in its own language */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  ja: '日本語',
+  es: 'Español',
+  pt: 'Português',
+  vi: 'Tiếng Việt',
+};
+
+/** Used in AI prompts, which are written in English */
+export const LOCALE_ENGLISH_NAMES: Record<Locale, string> = {
+  en: 'English',
+  ja: 'Japanese',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  vi: 'Vietnamese',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/** Coerce a stored or user-supplied value to a supported locale */
+export function toLocale(value: unknown): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+/**
+ * Pick the best supported locale from an Accept-Language header.
+ * Region subtags are ignored (pt-BR → pt); q-values decide the order.
+ */
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) return DEFAULT_LOCALE;
+  const ranked = acceptLanguage
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find((p) => p.trim().startsWith('q='));
+      return { lang: tag.trim().toLowerCase().split('-')[0], q: q ? Number(q.split('=')[1]) : 1 };
+    })
+    .filter((r) => r.lang && !Number.isNaN(r.q) && r.q > 0)
+    .sort((a, b) => b.q - a.q);
+  const match = ranked.find((r) => isLocale(r.lang));
+  return match ? (match.lang as Locale) : DEFAULT_LOCALE;
+}
@@ -0,0 +1,55 @@
+/**
+ * Locale-aware number and ADA formatting on top of Intl. Cardano
+ * amounts keep the ₳ symbol in every locale; grouping, decimals and
+ * compact suffixes (K, 万, mil…) follow the locale.
+ */
+
+import { DEFAULT_LOCALE, type Locale } from './config';
+
+/** BCP 47 tags passed to Intl — regional defaults for the bare languages */
+const INTL_TAGS: Record<Locale, string> = {
+  en: 'en-US',
+  ja: 'ja-JP',
+  es: 'es-ES',
+  pt: 'pt-BR',
+  vi: 'vi-VN',
+};
+
+export function intlTag(locale: Locale = DEFAULT_LOCALE): string {
+  return INTL_TAGS[locale];
+}
+
+export function formatNumber(
+  value: number,
+  locale: Locale = DEFAULT_LOCALE,
+  options?: Intl.NumberFormatOptions,
+): string {
+  return new Intl.NumberFormat(intlTag(locale), options).format(value);
+}
+
+export function formatPercent(
+  fraction: number,
+  locale: Locale = DEFAULT_LOCALE,
+  maximumFractionDigits = 0,
+): string {
+  return formatNumber(fraction, locale, { style: 'percent', maximumFractionDigits });
+}
+
+/**
+ * Format an ADA amount. `compact` abbreviates large treasury and stake
+ * figures (₳1.2B, ₳12億); otherwise amounts are grouped with up to 2 decimals.
+ */
+export function formatAdaAmount(
+  ada: number,
+  locale: Locale = DEFAULT_LOCALE,
+  { compact = false }: { compact?: boolean } = {},
+): string {
+  const formatted = formatNumber(
+    ada,
+    locale,
+    compact
+      ? { notation: 'compact', maximumFractionDigits: 1 }
+      : { minimumFractionDigits: 0, maximumFractionDigits: 2 },
+  );
+  return `₳${formatted}`;
+}
@@ -0,0 +1,11 @@
+/**
+ * i18n — locale config, message catalogs and Intl formatting. Safe to import
+ * from client and server code; server-only lookups live in ./server.
+ *
+ * A user's locale is stored on users.locale and mirrored in the civica_locale
+ * cookie. Notifications read the stored value; pages read the cookie.
+ */
+
+export * from './config';
+export * from './translate';
+export * from './format';
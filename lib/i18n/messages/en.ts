@@ -0,0 +1,165 @@
+/**
+ * English catalog — the source of truth. Every key lives here first; other
+ * locales may omit keys and fall back to these strings.
+ *
+ * Placeholders use `{name}` and are filled by `t()`. A key ending in `One`
+ * is the singular form of the key without it; `tPlural()` picks between them.
+ */
+
+export const en = {
+  common: {
+    viewOnCivica: 'View on Civica',
+    unsubscribe: 'Unsubscribe',
+    language: 'Language',
+    languageHint: 'Used for the interface, notifications and AI summaries.',
+  },
+  notifications: {
+    entityDrep: 'DRep',
+    entityPool: 'Pool',
+    tierChangeTitle: '{entity} Tier {direction} {tier}',
+    tierChangeBody: 'Your governance tier changed from {oldTier} to {newTier} (score: {score})',
+    tierChangeShare: 'Share your achievement!',
+    driftTitle: 'Alignment Drift Detected',
+    driftBody: 'Your DRep has drifted {points} points from your governance values.',
+    driftHigh: 'Consider reviewing alternative matches.',
+    driftLow: 'Keep an eye on this.',
+    competitiveTitle: "You're {gap} points from overtaking a competitor",
+    competitiveTitleOne: "You're {gap} point from overtaking a competitor",
+    competitiveBody: 'A few more governance actions could move your pool up in the rankings.',
+    scoreUpTitle: 'Score increased by {points} points',
+    scoreDownTitle: 'Score decreased by {points} points',
+    scoreChangeBody: 'Your DRepScore is now {score}/100.',
+    delegationChangeTitle: '{delta} delegators',
+    delegationChangeTitleOne: '{delta} delegator',
+    delegationChangeBody: 'You now have {count} delegators.',
+    delegatorGrowthTitle: 'You gained {count} delegators',
+    delegatorGrowthTitleOne: 'You gained {count} delegator',
+    delegatorGrowthBody: 'Your delegation is growing — {total} total delegators.',
+    pendingProposalsTitle: '{count} proposals awaiting votes',
+    pendingProposalsTitleOne: '{count} proposal awaiting votes',
+    pendingProposalsBody: 'There are {count} open governance proposals.',
+    pendingProposalsBodyOne: 'There is {count} open governance proposal.',
+    urgentDeadlineTitle: '{count} proposals expiring soon',
+    urgentDeadlineTitleOne: '{count} proposal expiring soon',
+    urgentDeadlineBody: 'These proposals expire within {epochs} epochs. Vote now.',
+    proposalDeadlineTitle: '{count} proposals expire in {epochs} epochs',
+    proposalDeadlineTitleOne: '{count} proposal expires in {epochs} epochs',
+    proposalDeadlineBody: 'Vote now to maintain your participation rate.',
+    scoreOpportunityTitle: "You're {distance} points from the top 10",
+    scoreOpportunityTitleOne: "You're {distance} point from the top 10",
+    scoreOpportunityBody: 'Ranked #{rank} — a few more rationales could push you into the top 10.',
+    achievementTitle: 'Achievement unlocked: {label}',
+    treasuryDropTitle: 'Treasury balance dropped significantly',
+    treasuryDropBody: 'Treasury declined {percent} this epoch. Current balance: {balance}.',
+    treasuryTierMajor: 'major',
+    treasuryTierSignificant: 'significant',
+    treasuryProposalTitle: 'New {tier} treasury proposal',
+    treasuryProposalBody: '"{title}" requests {amount} from the treasury.',
+    untitledProposal: 'Untitled',
+    accountabilityTitle: 'Treasury accountability poll opened',
+    accountabilityBody:
+      'Cycle {cycle} accountability poll is now open. Rate whether this treasury spending delivered.',
+    delegationMilestoneTitle: '🎉 {count} delegators!',
+    delegationMilestoneBody:
+      "You've reached {count} delegators. Your governance voice represents a growing community.",
+    poolInactiveTitle: 'Pool {pool} has been inactive for {epochs} epochs',
+    poolInactiveBody:
+      "This pool hasn't voted in {epochs} epochs. If you're staked here, check their governance commitment.",
+    drepScoreDropTitle: "Your DRep's score dropped {points} points",
+    drepScoreDropBody: 'Their score is now {score}/100. Consider reviewing their recent activity.',
+    drepInactiveTitle: "Your DRep hasn't voted in {epochs} epochs",
+    drepInactiveBody: "Your representative has been inactive. Your delegation isn't being used.",
+    drepMissedVoteTitle: 'Your DRep missed voting this epoch',
+    drepMissedVoteBody: "{count} proposals were open but your DRep didn't vote.",
+    drepMissedVoteBodyOne: "{count} proposal was open but your DRep didn't vote.",
+  },
+  actions: {
+    voteRequiredTitle: '{count} proposals await your vote',
+    voteRequiredTitleOne: '{count} proposal awaits your vote',
+    voteRequiredBody: 'Voting on open proposals improves your participation score.',
+    scoreDroppedTitle: 'Score dropped {points} pts',
+    scoreDroppedBody: 'Review recent participation and rationale to recover your score.',
+    drepInactiveTitle: 'Your DRep status is inactive',
+    drepInactiveBody: 'Vote on open proposals to restore your active status.',
+    tierApproachingTitle: '{points} pts from {tier} tier',
+    tierApproachingBody: 'Keep up your participation and rationale rate to reach the next tier.',
+    criticalActiveTitle: '{count} critical proposals active',
+    criticalActiveTitleOne: '{count} critical proposal active',
+    criticalActiveBody: 'High-importance proposals may expire soon.',
+    noDelegationTitle: 'You have no active delegation',
+    noDelegationBody: 'Delegate to a DRep to participate in governance.',
+    delegationStaleTitle: 'Your delegated DRep is inactive',
+    delegationStaleBody: "Your DRep hasn't voted recently. Consider re-delegating.",
+    delegatedScoreLowTitle: "Your DRep's score is low",
+    delegatedScoreLowBody: 'Score: {score}. Consider reviewing their performance.',
+    criticalInProgressTitle: '{count} critical proposals in progress',
+    criticalInProgressTitleOne: '{count} critical proposal in progress',
+    criticalInProgressBody: 'Important governance decisions are being made.',
+    activeProposalsTitle: '{count} open proposals being voted on',
+    activeProposalsTitleOne: '{count} open proposal being voted on',
+    activeProposalsBody: 'Your DRep is representing your vote on these proposals.',
+    spoVoteRequiredTitle: '{count} proposals await your pool’s vote',
+    spoVoteRequiredTitleOne: '{count} proposal awaits your pool’s vote',
+    spoVoteRequiredBody: 'Voting on governance proposals builds your governance reputation.',
+    spoScoreDroppedTitle: 'Pool score dropped {points} pts',
+    spoScoreDroppedBody: 'Review your voting participation and rationale to recover.',
+    claimPoolTitle: 'Claim your pool',
+    claimPoolBody:
+      'Verify ownership to unlock your governance dashboard and build your reputation.',
+    firstVoteTitle: 'Cast your first governance vote',
+    firstVoteBody: 'Start building your governance score by voting on an open proposal.',
+    statementTitle: 'Publish your governance statement',
+    statementBody:
+      'Tell delegators what your pool stands for in governance. Boosts your Identity score.',
+    unexplainedVotesTitle: '{count} votes without rationale',
+    unexplainedVotesTitleOne: '{count} vote without rationale',
+    unexplainedVotesBody: 'Adding rationales improves your Deliberation Quality score.',
+    spoTierApproachingBody: 'Keep voting and providing rationales to reach the next tier.',
+    wrappedTitle: 'Your Governance Wrapped is ready',
+    wrappedBody: 'See your governance story for {period}.',
+    ctaViewProposals: 'View Proposals',
+    ctaSeeBreakdown: 'See Breakdown',
+    ctaViewNow: 'View Now',
+    ctaFindDrep: 'Find a DRep',
+    ctaFindAnotherDrep: 'Find Another DRep',
+    ctaReviewDrep: 'Review DRep',
+    ctaSeeProposals: 'See Proposals',
+    ctaClaimNow: 'Claim Now',
+    ctaWriteStatement: 'Write Statement',
+    ctaAddRationale: 'Add Rationale',
+    ctaViewWrapped: 'View Wrapped',
+  },
+  inbox: {
+    title: 'Inbox',
+    unread: '{count} unread notifications',
+    unreadOne: '{count} unread notification',
+    allCaughtUp: 'All caught up',
+    markAllRead: 'Mark all read',
+    tabAll: 'All',
+    tabProposal: 'Proposals',
+    tabScore: 'Score',
+    tabAlignment: 'Alignment',
+    tabSystem: 'System',
+    emptyTitle: "You're all caught up",
+    emptyAll: 'No governance notifications right now. Your participation is healthy.',
+    emptyFiltered: 'No notifications in {category} right now.',
+    activeProposalsTitle: '{count} governance proposals in progress',
+    activeProposalsTitleOne: '{count} governance proposal in progress',
+    activeProposalsBody: 'Cardano governance is active. Your delegation is participating.',
+    ctaView: 'View',
+    ghiTitle: 'Governance health: {score}',
+    ghiTitleWithDelta: 'Governance health: {score} ({delta} this epoch)',
+    ghiBody: 'The Governance Health Index reflects current ecosystem health.',
+    ctaSeePulse: 'See Pulse',
+    pendingVotes: 'Pending Votes ({count})',
+    potentialGain: '+{points} pts potential',
+    proposalFallback: 'Proposal',
+    critical: 'Critical',
+    epochsLeft: '{count} epochs left',
+    epochsLeftOne: '{count} epoch left',
+    pointsGain: '+{points} pts',
+    viewAllPending: 'View all {count} pending proposals',
+  },
+} satisfies Record<string, Record<string, string>>;
+
+export type Messages = typeof en;
@@ -0,0 +1,163 @@
+import type { PartialMessages } from '../translate';
+
+export const es: PartialMessages = {
+  common: {
+    viewOnCivica: 'Ver en Civica',
+    unsubscribe: 'Darse de baja',
+    language: 'Idioma',
+    languageHint: 'Se usa en la interfaz, las notificaciones y los resúmenes de IA.',
+  },
+  notifications: {
+    entityPool: 'Pool',
+    tierChangeTitle: 'Nivel de {entity} {direction} {tier}',
+    tierChangeBody: 'Tu nivel de gobernanza cambió de {oldTier} a {newTier} (puntuación: {score})',
+    tierChangeShare: '¡Comparte tu logro!',
+    driftTitle: 'Desviación de alineación detectada',
+    driftBody: 'Tu DRep se ha desviado {points} puntos de tus valores de gobernanza.',
+    driftHigh: 'Considera revisar otras coincidencias.',
+    driftLow: 'Mantente atento.',
+    competitiveTitle: 'Estás a {gap} puntos de superar a un competidor',
+    competitiveTitleOne: 'Estás a {gap} punto de superar a un competidor',
+    competitiveBody:
+      'Unas pocas acciones de gobernanza más podrían subir tu pool en la clasificación.',
+    scoreUpTitle: 'Tu puntuación subió {points} puntos',
+    scoreDownTitle: 'Tu puntuación bajó {points} puntos',
+    scoreChangeBody: 'Tu DRepScore es ahora {score}/100.',
+    delegationChangeTitle: '{delta} delegadores',
+    delegationChangeTitleOne: '{delta} delegador',
+    delegationChangeBody: 'Ahora tienes {count} delegadores.',
+    delegatorGrowthTitle: 'Ganaste {count} delegadores',
+    delegatorGrowthTitleOne: 'Ganaste {count} delegador',
+    delegatorGrowthBody: 'Tu delegación está creciendo: {total} delegadores en total.',
+    pendingProposalsTitle: '{count} propuestas esperan votos',
+    pendingProposalsTitleOne: '{count} propuesta espera votos',
+    pendingProposalsBody: 'Hay {count} propuestas de gobernanza abiertas.',
+    pendingProposalsBodyOne: 'Hay {count} propuesta de gobernanza abierta.',
+    urgentDeadlineTitle: '{count} propuestas vencen pronto',
+    urgentDeadlineTitleOne: '{count} propuesta vence pronto',
+    urgentDeadlineBody: 'Estas propuestas vencen en menos de {epochs} épocas. Vota ahora.',
+    proposalDeadlineTitle: '{count} propuestas vencen en {epochs} épocas',
+    proposalDeadlineTitleOne: '{count} propuesta vence en {epochs} épocas',
+    proposalDeadlineBody: 'Vota ahora para mantener tu tasa de participación.',
+    scoreOpportunityTitle: 'Estás a {distance} puntos del top 10',
+    scoreOpportunityTitleOne: 'Estás a {distance} punto del top 10',
+    scoreOpportunityBody:
+      'Puesto n.º {rank}: unas pocas justificaciones más podrían llevarte al top 10.',
+    achievementTitle: 'Logro desbloqueado: {label}',
+    treasuryDropTitle: 'El saldo de la tesorería bajó considerablemente',
+    treasuryDropBody: 'La tesorería bajó un {percent} en esta época. Saldo actual: {balance}.',
+    treasuryTierMajor: 'importante',
+    treasuryTierSignificant: 'significativa',
+    treasuryProposalTitle: 'Nueva propuesta de tesorería {tier}',
+    treasuryProposalBody: '"{title}" solicita {amount} de la tesorería.',
+    untitledProposal: 'Sin título',
+    accountabilityTitle: 'Se abrió una encuesta de rendición de cuentas de la tesorería',
+    accountabilityBody:
+      'La encuesta del ciclo {cycle} ya está abierta. Valora si este gasto de la tesorería dio resultados.',
+    delegationMilestoneTitle: '🎉 ¡{count} delegadores!',
+    delegationMilestoneBody:
+      'Has alcanzado {count} delegadores. Tu voz en la gobernanza representa a una comunidad en crecimiento.',
+    poolInactiveTitle: 'El pool {pool} lleva {epochs} épocas inactivo',
+    poolInactiveBody:
+      'Este pool no ha votado en {epochs} épocas. Si delegas aquí, revisa su compromiso con la gobernanza.',
+    drepScoreDropTitle: 'La puntuación de tu DRep bajó {points} puntos',
+    drepScoreDropBody:
+      'Su puntuación es ahora {score}/100. Considera revisar su actividad reciente.',
+    drepInactiveTitle: 'Tu DRep no ha votado en {epochs} épocas',
+    drepInactiveBody: 'Tu representante ha estado inactivo. Tu delegación no se está usando.',
+    drepMissedVoteTitle: 'Tu DRep no votó en esta época',
+    drepMissedVoteBody: 'Había {count} propuestas abiertas, pero tu DRep no votó.',
+    drepMissedVoteBodyOne: 'Había {count} propuesta abierta, pero tu DRep no votó.',
+  },
+  actions: {
+    voteRequiredTitle: '{count} propuestas esperan tu voto',
+    voteRequiredTitleOne: '{count} propuesta espera tu voto',
+    voteRequiredBody: 'Votar en las propuestas abiertas mejora tu puntuación de participación.',
+    scoreDroppedTitle: 'Tu puntuación bajó {points} pts',
+    scoreDroppedBody: 'Revisa tu participación y justificaciones recientes para recuperarla.',
+    drepInactiveTitle: 'Tu estado de DRep es inactivo',
+    drepInactiveBody: 'Vota en las propuestas abiertas para recuperar tu estado activo.',
+    tierApproachingTitle: 'A {points} pts del nivel {tier}',
+    tierApproachingBody:
+      'Mantén tu participación y tu tasa de justificaciones para alcanzar el siguiente nivel.',
+    criticalActiveTitle: '{count} propuestas críticas activas',
+    criticalActiveTitleOne: '{count} propuesta crítica activa',
+    criticalActiveBody: 'Las propuestas de alta importancia pueden vencer pronto.',
+    noDelegationTitle: 'No tienes una delegación activa',
+    noDelegationBody: 'Delega en un DRep para participar en la gobernanza.',
+    delegationStaleTitle: 'Tu DRep delegado está inactivo',
+    delegationStaleBody: 'Tu DRep no ha votado recientemente. Considera volver a delegar.',
+    delegatedScoreLowTitle: 'La puntuación de tu DRep es baja',
+    delegatedScoreLowBody: 'Puntuación: {score}. Considera revisar su desempeño.',
+    criticalInProgressTitle: '{count} propuestas críticas en curso',
+    criticalInProgressTitleOne: '{count} propuesta crítica en curso',
+    criticalInProgressBody: 'Se están tomando decisiones de gobernanza importantes.',
+    activeProposalsTitle: '{count} propuestas abiertas en votación',
+    activeProposalsTitleOne: '{count} propuesta abierta en votación',
+    activeProposalsBody: 'Tu DRep representa tu voto en estas propuestas.',
+    spoVoteRequiredTitle: '{count} propuestas esperan el voto de tu pool',
+    spoVoteRequiredTitleOne: '{count} propuesta espera el voto de tu pool',
+    spoVoteRequiredBody: 'Votar en las propuestas de gobernanza construye tu reputación.',
+    spoScoreDroppedTitle: 'La puntuación del pool bajó {points} pts',
+    spoScoreDroppedBody:
+      'Revisa tu participación en votaciones y tus justificaciones para recuperarla.',
+    claimPoolTitle: 'Reclama tu pool',
+    claimPoolBody:
+      'Verifica la propiedad para desbloquear tu panel de gobernanza y construir tu reputación.',
+    firstVoteTitle: 'Emite tu primer voto de gobernanza',
+    firstVoteBody: 'Empieza a construir tu puntuación votando en una propuesta abierta.',
+    statementTitle: 'Publica tu declaración de gobernanza',
+    statementBody:
+      'Cuenta a tus delegadores qué defiende tu pool en la gobernanza. Mejora tu puntuación de Identidad.',
+    unexplainedVotesTitle: '{count} votos sin justificación',
+    unexplainedVotesTitleOne: '{count} voto sin justificación',
+    unexplainedVotesBody: 'Añadir justificaciones mejora tu puntuación de Calidad de deliberación.',
+    spoTierApproachingBody:
+      'Sigue votando y aportando justificaciones para alcanzar el siguiente nivel.',
+    wrappedTitle: 'Tu Governance Wrapped está listo',
+    wrappedBody: 'Descubre tu historia de gobernanza de {period}.',
+    ctaViewProposals: 'Ver propuestas',
+    ctaSeeBreakdown: 'Ver desglose',
+    ctaViewNow: 'Ver ahora',
+    ctaFindDrep: 'Buscar un DRep',
+    ctaFindAnotherDrep: 'Buscar otro DRep',
+    ctaReviewDrep: 'Revisar DRep',
+    ctaSeeProposals: 'Ver propuestas',
+    ctaClaimNow: 'Reclamar ahora',
+    ctaWriteStatement: 'Escribir declaración',
+    ctaAddRationale: 'Añadir justificación',
+    ctaViewWrapped: 'Ver Wrapped',
+  },
+  inbox: {
+    title: 'Bandeja de entrada',
+    unread: '{count} notificaciones sin leer',
+    unreadOne: '{count} notificación sin leer',
+    allCaughtUp: 'Todo al día',
+    markAllRead: 'Marcar todo como leído',
+    tabAll: 'Todo',
+    tabProposal: 'Propuestas',
+    tabScore: 'Puntuación',
+    tabAlignment: 'Alineación',
+    tabSystem: 'Sistema',
+    emptyTitle: 'Estás al día',
+    emptyAll:
+      'No hay notificaciones de gobernanza por ahora. Tu participación está en buen estado.',
+    emptyFiltered: 'No hay notificaciones en {category} por ahora.',
+    activeProposalsTitle: '{count} propuestas de gobernanza en curso',
+    activeProposalsTitleOne: '{count} propuesta de gobernanza en curso',
+    activeProposalsBody: 'La gobernanza de Cardano está activa. Tu delegación está participando.',
+    ctaView: 'Ver',
+    ghiTitle: 'Salud de la gobernanza: {score}',
+    ghiTitleWithDelta: 'Salud de la gobernanza: {score} ({delta} esta época)',
+    ghiBody: 'El Índice de Salud de la Gobernanza refleja el estado actual del ecosistema.',
+    ctaSeePulse: 'Ver Pulse',
+    pendingVotes: 'Votos pendientes ({count})',
+    potentialGain: '+{points} pts posibles',
+    proposalFallback: 'Propuesta',
+    critical: 'Crítica',
+    epochsLeft: 'Quedan {count} épocas',
+    epochsLeftOne: 'Queda {count} época',
+    pointsGain: '+{points} pts',
+    viewAllPending: 'Ver las {count} propuestas pendientes',
+  },
+};
@@ -0,0 +1,143 @@
+import type { PartialMessages } from '../translate';
+
+export const ja: PartialMessages = {
+  common: {
+    viewOnCivica: 'Civicaで見る',
+    unsubscribe: '配信停止',
+    language: '言語',
+    languageHint: 'インターフェース、通知、AI要約に使用されます。',
+  },
+  notifications: {
+    entityPool: 'プール',
+    tierChangeTitle: '{entity} ティア {direction} {tier}',
+    tierChangeBody:
+      'ガバナンス・ティアが {oldTier} から {newTier} に変わりました（スコア: {score}）',
+    tierChangeShare: '達成をシェアしましょう！',
+    driftTitle: '方針のずれを検出',
+    driftBody: 'あなたのDRepはあなたのガバナンス方針から {points} ポイントずれています。',
+    driftHigh: '他の候補の確認をおすすめします。',
+    driftLow: '引き続き注目してください。',
+    competitiveTitle: '競合を追い抜くまであと {gap} ポイントです',
+    competitiveBody: 'あと少しガバナンス活動を重ねれば、プールの順位が上がる可能性があります。',
+    scoreUpTitle: 'スコアが {points} ポイント上がりました',
+    scoreDownTitle: 'スコアが {points} ポイント下がりました',
+    scoreChangeBody: '現在のDRepScoreは {score}/100 です。',
+    delegationChangeTitle: '委任者 {delta} 人',
+    delegationChangeBody: '現在の委任者は {count} 人です。',
+    delegatorGrowthTitle: '委任者が {count} 人増えました',
+    delegatorGrowthBody: '委任が増えています — 委任者は合計 {total} 人です。',
+    pendingProposalsTitle: '{count} 件の提案が投票を待っています',
+    pendingProposalsBody: '受付中のガバナンス提案が {count} 件あります。',
+    urgentDeadlineTitle: '{count} 件の提案がまもなく期限切れになります',
+    urgentDeadlineBody:
+      'これらの提案は {epochs} エポック以内に期限切れになります。今すぐ投票しましょう。',
+    proposalDeadlineTitle: '{count} 件の提案が {epochs} エポック後に期限切れになります',
+    proposalDeadlineBody: '参加率を維持するために今すぐ投票しましょう。',
+    scoreOpportunityTitle: 'トップ10まであと {distance} ポイントです',
+    scoreOpportunityBody:
+      '現在 {rank} 位 — もう少し根拠を公開すればトップ10に入れるかもしれません。',
+    achievementTitle: '実績を解除しました: {label}',
+    treasuryDropTitle: 'トレジャリー残高が大きく減少しました',
+    treasuryDropBody:
+      'このエポックでトレジャリーが {percent} 減少しました。現在の残高: {balance}。',
+    treasuryTierMajor: '大規模',
+    treasuryTierSignificant: '中規模',
+    treasuryProposalTitle: '新しい{tier}トレジャリー提案',
+    treasuryProposalBody: '「{title}」がトレジャリーから {amount} を要求しています。',
+    untitledProposal: '無題',
+    accountabilityTitle: 'トレジャリーの説明責任投票が始まりました',
+    accountabilityBody:
+      'サイクル {cycle} の説明責任投票が始まりました。このトレジャリー支出が成果を上げたか評価してください。',
+    delegationMilestoneTitle: '🎉 委任者 {count} 人達成！',
+    delegationMilestoneBody:
+      '委任者が {count} 人に達しました。あなたのガバナンスの声は成長するコミュニティを代表しています。',
+    poolInactiveTitle: 'プール {pool} は {epochs} エポックの間活動していません',
+    poolInactiveBody:
+      'このプールは {epochs} エポック投票していません。ステークしている場合は、ガバナンスへの取り組みを確認してください。',
+    drepScoreDropTitle: 'あなたのDRepのスコアが {points} ポイント下がりました',
+    drepScoreDropBody:
+      '現在のスコアは {score}/100 です。最近の活動を確認することをおすすめします。',
+    drepInactiveTitle: 'あなたのDRepは {epochs} エポック投票していません',
+    drepInactiveBody: 'あなたの代表者は活動していません。あなたの委任は使われていません。',
+    drepMissedVoteTitle: 'あなたのDRepは今エポック投票しませんでした',
+    drepMissedVoteBody: '{count} 件の提案が受付中でしたが、あなたのDRepは投票しませんでした。',
+  },
+  actions: {
+    voteRequiredTitle: '{count} 件の提案があなたの投票を待っています',
+    voteRequiredBody: '受付中の提案に投票すると参加スコアが上がります。',
+    scoreDroppedTitle: 'スコアが {points} pt 下がりました',
+    scoreDroppedBody: '最近の参加状況と根拠を見直してスコアを回復しましょう。',
+    drepInactiveTitle: 'DRepのステータスが非アクティブです',
+    drepInactiveBody: '受付中の提案に投票してアクティブな状態に戻しましょう。',
+    tierApproachingTitle: '{tier} ティアまであと {points} pt',
+    tierApproachingBody: '参加と根拠の公開を続けて次のティアを目指しましょう。',
+    criticalActiveTitle: '重要な提案が {count} 件進行中です',
+    criticalActiveBody: '重要度の高い提案がまもなく期限切れになる可能性があります。',
+    noDelegationTitle: '有効な委任がありません',
+    noDelegationBody: 'DRepに委任してガバナンスに参加しましょう。',
+    delegationStaleTitle: '委任先のDRepが活動していません',
+    delegationStaleBody: 'あなたのDRepは最近投票していません。委任先の変更を検討してください。',
+    delegatedScoreLowTitle: 'あなたのDRepのスコアが低くなっています',
+    delegatedScoreLowBody: 'スコア: {score}。活動内容の確認をおすすめします。',
+    criticalInProgressTitle: '重要な提案が {count} 件進行中です',
+    criticalInProgressBody: '重要なガバナンスの決定が行われています。',
+    activeProposalsTitle: '{count} 件の提案が投票受付中です',
+    activeProposalsBody: 'あなたのDRepがこれらの提案であなたの票を代表しています。',
+    spoVoteRequiredTitle: '{count} 件の提案があなたのプールの投票を待っています',
+    spoVoteRequiredBody: 'ガバナンス提案への投票はあなたの評価を高めます。',
+    spoScoreDroppedTitle: 'プールのスコアが {points} pt 下がりました',
+    spoScoreDroppedBody: '投票への参加と根拠を見直して回復しましょう。',
+    claimPoolTitle: 'プールを申請する',
+    claimPoolBody:
+      '所有権を確認すると、ガバナンス・ダッシュボードが使えるようになり評価を築けます。',
+    firstVoteTitle: '初めてのガバナンス投票をしましょう',
+    firstVoteBody: '受付中の提案に投票して、ガバナンス・スコアを築き始めましょう。',
+    statementTitle: 'ガバナンス声明を公開する',
+    statementBody:
+      'あなたのプールがガバナンスで何を重視するかを委任者に伝えましょう。アイデンティティ・スコアが上がります。',
+    unexplainedVotesTitle: '根拠のない投票が {count} 件あります',
+    unexplainedVotesBody: '根拠を追加すると審議品質スコアが上がります。',
+    spoTierApproachingBody: '投票と根拠の公開を続けて次のティアを目指しましょう。',
+    wrappedTitle: 'Governance Wrapped の準備ができました',
+    wrappedBody: '{period} のあなたのガバナンス・ストーリーを見てみましょう。',
+    ctaViewProposals: '提案を見る',
+    ctaSeeBreakdown: '内訳を見る',
+    ctaViewNow: '今すぐ見る',
+    ctaFindDrep: 'DRepを探す',
+    ctaFindAnotherDrep: '別のDRepを探す',
+    ctaReviewDrep: 'DRepを確認',
+    ctaSeeProposals: '提案を見る',
+    ctaClaimNow: '今すぐ申請',
+    ctaWriteStatement: '声明を書く',
+    ctaAddRationale: '根拠を追加',
+    ctaViewWrapped: 'Wrapped を見る',
+  },
+  inbox: {
+    title: '受信トレイ',
+    unread: '未読の通知 {count} 件',
+    allCaughtUp: 'すべて確認済み',
+    markAllRead: 'すべて既読にする',
+    tabAll: 'すべて',
+    tabProposal: '提案',
+    tabScore: 'スコア',
+    tabAlignment: '方針',
+    tabSystem: 'システム',
+    emptyTitle: 'すべて確認済みです',
+    emptyAll: '現在ガバナンスの通知はありません。参加状況は良好です。',
+    emptyFiltered: '現在「{category}」の通知はありません。',
+    activeProposalsTitle: '{count} 件のガバナンス提案が進行中です',
+    activeProposalsBody: 'Cardanoのガバナンスは活発です。あなたの委任も参加しています。',
+    ctaView: '見る',
+    ghiTitle: 'ガバナンスの健全性: {score}',
+    ghiTitleWithDelta: 'ガバナンスの健全性: {score}（今エポック {delta}）',
+    ghiBody: 'ガバナンス健全性指数はエコシステムの現在の健全性を示します。',
+    ctaSeePulse: 'Pulse を見る',
+    pendingVotes: '未投票 ({count})',
+    potentialGain: '最大 +{points} pt',
+    proposalFallback: '提案',
+    critical: '重要',
+    epochsLeft: '残り {count} エポック',
+    pointsGain: '+{points} pt',
+    viewAllPending: '未投票の提案 {count} 件をすべて見る',
+  },
+};
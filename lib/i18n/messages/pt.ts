@@ -0,0 +1,164 @@
+import type { PartialMessages } from '../translate';
+
+export const pt: PartialMessages = {
+  common: {
+    viewOnCivica: 'Ver no Civica',
+    unsubscribe: 'Cancelar inscrição',
+    language: 'Idioma',
+    languageHint: 'Usado na interface, nas notificações e nos resumos de IA.',
+  },
+  notifications: {
+    entityPool: 'Pool',
+    tierChangeTitle: 'Nível de {entity} {direction} {tier}',
+    tierChangeBody:
+      'Seu nível de governança mudou de {oldTier} para {newTier} (pontuação: {score})',
+    tierChangeShare: 'Compartilhe sua conquista!',
+    driftTitle: 'Desvio de alinhamento detectado',
+    driftBody: 'Seu DRep se afastou {points} pontos dos seus valores de governança.',
+    driftHigh: 'Considere revisar outras correspondências.',
+    driftLow: 'Fique de olho nisso.',
+    competitiveTitle: 'Você está a {gap} pontos de ultrapassar um concorrente',
+    competitiveTitleOne: 'Você está a {gap} ponto de ultrapassar um concorrente',
+    competitiveBody: 'Mais algumas ações de governança podem fazer seu pool subir no ranking.',
+    scoreUpTitle: 'Sua pontuação subiu {points} pontos',
+    scoreDownTitle: 'Sua pontuação caiu {points} pontos',
+    scoreChangeBody: 'Seu DRepScore agora é {score}/100.',
+    delegationChangeTitle: '{delta} delegadores',
+    delegationChangeTitleOne: '{delta} delegador',
+    delegationChangeBody: 'Agora você tem {count} delegadores.',
+    delegatorGrowthTitle: 'Você ganhou {count} delegadores',
+    delegatorGrowthTitleOne: 'Você ganhou {count} delegador',
+    delegatorGrowthBody: 'Sua delegação está crescendo — {total} delegadores no total.',
+    pendingProposalsTitle: '{count} propostas aguardando votos',
+    pendingProposalsTitleOne: '{count} proposta aguardando votos',
+    pendingProposalsBody: 'Há {count} propostas de governança abertas.',
+    pendingProposalsBodyOne: 'Há {count} proposta de governança aberta.',
+    urgentDeadlineTitle: '{count} propostas expiram em breve',
+    urgentDeadlineTitleOne: '{count} proposta expira em breve',
+    urgentDeadlineBody: 'Estas propostas expiram em até {epochs} épocas. Vote agora.',
+    proposalDeadlineTitle: '{count} propostas expiram em {epochs} épocas',
+    proposalDeadlineTitleOne: '{count} proposta expira em {epochs} épocas',
+    proposalDeadlineBody: 'Vote agora para manter sua taxa de participação.',
+    scoreOpportunityTitle: 'Você está a {distance} pontos do top 10',
+    scoreOpportunityTitleOne: 'Você está a {distance} ponto do top 10',
+    scoreOpportunityBody:
+      'Posição nº {rank} — mais algumas justificativas podem levar você ao top 10.',
+    achievementTitle: 'Conquista desbloqueada: {label}',
+    treasuryDropTitle: 'O saldo do tesouro caiu significativamente',
+    treasuryDropBody: 'O tesouro caiu {percent} nesta época. Saldo atual: {balance}.',
+    treasuryTierMajor: 'de grande porte',
+    treasuryTierSignificant: 'significativa',
+    treasuryProposalTitle: 'Nova proposta de tesouro {tier}',
+    treasuryProposalBody: '"{title}" solicita {amount} do tesouro.',
+    untitledProposal: 'Sem título',
+    accountabilityTitle: 'Enquete de prestação de contas do tesouro aberta',
+    accountabilityBody:
+      'A enquete do ciclo {cycle} está aberta. Avalie se este gasto do tesouro trouxe resultados.',
+    delegationMilestoneTitle: '🎉 {count} delegadores!',
+    delegationMilestoneBody:
+      'Você alcançou {count} delegadores. Sua voz na governança representa uma comunidade em crescimento.',
+    poolInactiveTitle: 'O pool {pool} está inativo há {epochs} épocas',
+    poolInactiveBody:
+      'Este pool não vota há {epochs} épocas. Se você faz stake aqui, verifique o compromisso dele com a governança.',
+    drepScoreDropTitle: 'A pontuação do seu DRep caiu {points} pontos',
+    drepScoreDropBody:
+      'A pontuação agora é {score}/100. Considere revisar a atividade recente dele.',
+    drepInactiveTitle: 'Seu DRep não vota há {epochs} épocas',
+    drepInactiveBody: 'Seu representante está inativo. Sua delegação não está sendo usada.',
+    drepMissedVoteTitle: 'Seu DRep não votou nesta época',
+    drepMissedVoteBody: 'Havia {count} propostas abertas, mas seu DRep não votou.',
+    drepMissedVoteBodyOne: 'Havia {count} proposta aberta, mas seu DRep não votou.',
+  },
+  actions: {
+    voteRequiredTitle: '{count} propostas aguardam seu voto',
+    voteRequiredTitleOne: '{count} proposta aguarda seu voto',
+    voteRequiredBody: 'Votar nas propostas abertas melhora sua pontuação de participação.',
+    scoreDroppedTitle: 'Pontuação caiu {points} pts',
+    scoreDroppedBody:
+      'Revise sua participação e justificativas recentes para recuperar a pontuação.',
+    drepInactiveTitle: 'Seu status de DRep está inativo',
+    drepInactiveBody: 'Vote nas propostas abertas para restaurar seu status ativo.',
+    tierApproachingTitle: 'A {points} pts do nível {tier}',
+    tierApproachingBody:
+      'Mantenha sua participação e sua taxa de justificativas para chegar ao próximo nível.',
+    criticalActiveTitle: '{count} propostas críticas ativas',
+    criticalActiveTitleOne: '{count} proposta crítica ativa',
+    criticalActiveBody: 'Propostas de alta importância podem expirar em breve.',
+    noDelegationTitle: 'Você não tem uma delegação ativa',
+    noDelegationBody: 'Delegue a um DRep para participar da governança.',
+    delegationStaleTitle: 'Seu DRep delegado está inativo',
+    delegationStaleBody: 'Seu DRep não votou recentemente. Considere delegar novamente.',
+    delegatedScoreLowTitle: 'A pontuação do seu DRep está baixa',
+    delegatedScoreLowBody: 'Pontuação: {score}. Considere revisar o desempenho dele.',
+    criticalInProgressTitle: '{count} propostas críticas em andamento',
+    criticalInProgressTitleOne: '{count} proposta crítica em andamento',
+    criticalInProgressBody: 'Decisões importantes de governança estão sendo tomadas.',
+    activeProposalsTitle: '{count} propostas abertas em votação',
+    activeProposalsTitleOne: '{count} proposta aberta em votação',
+    activeProposalsBody: 'Seu DRep representa seu voto nestas propostas.',
+    spoVoteRequiredTitle: '{count} propostas aguardam o voto do seu pool',
+    spoVoteRequiredTitleOne: '{count} proposta aguarda o voto do seu pool',
+    spoVoteRequiredBody: 'Votar em propostas de governança constrói sua reputação.',
+    spoScoreDroppedTitle: 'Pontuação do pool caiu {points} pts',
+    spoScoreDroppedBody:
+      'Revise sua participação nas votações e suas justificativas para recuperar.',
+    claimPoolTitle: 'Reivindique seu pool',
+    claimPoolBody:
+      'Verifique a titularidade para liberar seu painel de governança e construir sua reputação.',
+    firstVoteTitle: 'Dê seu primeiro voto de governança',
+    firstVoteBody: 'Comece a construir sua pontuação votando em uma proposta aberta.',
+    statementTitle: 'Publique sua declaração de governança',
+    statementBody:
+      'Conte aos delegadores o que seu pool defende na governança. Aumenta sua pontuação de Identidade.',
+    unexplainedVotesTitle: '{count} votos sem justificativa',
+    unexplainedVotesTitleOne: '{count} voto sem justificativa',
+    unexplainedVotesBody:
+      'Adicionar justificativas melhora sua pontuação de Qualidade da deliberação.',
+    spoTierApproachingBody:
+      'Continue votando e fornecendo justificativas para chegar ao próximo nível.',
+    wrappedTitle: 'Seu Governance Wrapped está pronto',
+    wrappedBody: 'Veja sua história de governança de {period}.',
+    ctaViewProposals: 'Ver propostas',
+    ctaSeeBreakdown: 'Ver detalhes',
+    ctaViewNow: 'Ver agora',
+    ctaFindDrep: 'Encontrar um DRep',
+    ctaFindAnotherDrep: 'Encontrar outro DRep',
+    ctaReviewDrep: 'Revisar DRep',
+    ctaSeeProposals: 'Ver propostas',
+    ctaClaimNow: 'Reivindicar agora',
+    ctaWriteStatement: 'Escrever declaração',
+    ctaAddRationale: 'Adicionar justificativa',
+    ctaViewWrapped: 'Ver Wrapped',
+  },
+  inbox: {
+    title: 'Caixa de entrada',
+    unread: '{count} notificações não lidas',
+    unreadOne: '{count} notificação não lida',
+    allCaughtUp: 'Tudo em dia',
+    markAllRead: 'Marcar tudo como lido',
+    tabAll: 'Tudo',
+    tabProposal: 'Propostas',
+    tabScore: 'Pontuação',
+    tabAlignment: 'Alinhamento',
+    tabSystem: 'Sistema',
+    emptyTitle: 'Você está em dia',
+    emptyAll: 'Nenhuma notificação de governança no momento. Sua participação está saudável.',
+    emptyFiltered: 'Nenhuma notificação em {category} no momento.',
+    activeProposalsTitle: '{count} propostas de governança em andamento',
+    activeProposalsTitleOne: '{count} proposta de governança em andamento',
+    activeProposalsBody: 'A governança da Cardano está ativa. Sua delegação está participando.',
+    ctaView: 'Ver',
+    ghiTitle: 'Saúde da governança: {score}',
+    ghiTitleWithDelta: 'Saúde da governança: {score} ({delta} nesta época)',
+    ghiBody: 'O Índice de Saúde da Governança reflete a saúde atual do ecossistema.',
+    ctaSeePulse: 'Ver Pulse',
+    pendingVotes: 'Votos pendentes ({count})',
+    potentialGain: '+{points} pts possíveis',
+    proposalFallback: 'Proposta',
+    critical: 'Crítica',
+    epochsLeft: '{count} épocas restantes',
+    epochsLeftOne: '{count} época restante',
+    pointsGain: '+{points} pts',
+    viewAllPending: 'Ver todas as {count} propostas pendentes',
+  },
+};
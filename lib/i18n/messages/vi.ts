@@ -0,0 +1,139 @@
+import type { PartialMessages } from '../translate';
+
+export const vi: PartialMessages = {
+  common: {
+    viewOnCivica: 'Xem trên Civica',
+    unsubscribe: 'Hủy đăng ký',
+    language: 'Ngôn ngữ',
+    languageHint: 'Dùng cho giao diện, thông báo và bản tóm tắt AI.',
+  },
+  notifications: {
+    entityPool: 'Pool',
+    tierChangeTitle: 'Hạng {entity} {direction} {tier}',
+    tierChangeBody: 'Hạng quản trị của bạn đã đổi từ {oldTier} sang {newTier} (điểm: {score})',
+    tierChangeShare: 'Hãy chia sẻ thành tích của bạn!',
+    driftTitle: 'Phát hiện lệch hướng',
+    driftBody: 'DRep của bạn đã lệch {points} điểm so với giá trị quản trị của bạn.',
+    driftHigh: 'Hãy cân nhắc xem các lựa chọn khác.',
+    driftLow: 'Hãy tiếp tục theo dõi.',
+    competitiveTitle: 'Bạn chỉ còn cách {gap} điểm để vượt một đối thủ',
+    competitiveBody: 'Thêm vài hoạt động quản trị nữa có thể giúp pool của bạn tăng hạng.',
+    scoreUpTitle: 'Điểm đã tăng {points} điểm',
+    scoreDownTitle: 'Điểm đã giảm {points} điểm',
+    scoreChangeBody: 'DRepScore của bạn hiện là {score}/100.',
+    delegationChangeTitle: '{delta} người ủy thác',
+    delegationChangeBody: 'Bạn hiện có {count} người ủy thác.',
+    delegatorGrowthTitle: 'Bạn có thêm {count} người ủy thác',
+    delegatorGrowthBody: 'Lượng ủy thác đang tăng — tổng cộng {total} người ủy thác.',
+    pendingProposalsTitle: '{count} đề xuất đang chờ bỏ phiếu',
+    pendingProposalsBody: 'Có {count} đề xuất quản trị đang mở.',
+    urgentDeadlineTitle: '{count} đề xuất sắp hết hạn',
+    urgentDeadlineBody: 'Các đề xuất này hết hạn trong vòng {epochs} epoch. Hãy bỏ phiếu ngay.',
+    proposalDeadlineTitle: '{count} đề xuất hết hạn sau {epochs} epoch',
+    proposalDeadlineBody: 'Hãy bỏ phiếu ngay để duy trì tỷ lệ tham gia của bạn.',
+    scoreOpportunityTitle: 'Bạn chỉ còn cách top 10 {distance} điểm',
+    scoreOpportunityBody:
+      'Đang xếp hạng #{rank} — thêm vài giải trình nữa có thể đưa bạn vào top 10.',
+    achievementTitle: 'Đã mở khóa thành tích: {label}',
+    treasuryDropTitle: 'Số dư ngân khố giảm mạnh',
+    treasuryDropBody: 'Ngân khố đã giảm {percent} trong epoch này. Số dư hiện tại: {balance}.',
+    treasuryTierMajor: 'lớn',
+    treasuryTierSignificant: 'đáng kể',
+    treasuryProposalTitle: 'Đề xuất ngân khố {tier} mới',
+    treasuryProposalBody: '"{title}" yêu cầu {amount} từ ngân khố.',
+    untitledProposal: 'Không có tiêu đề',
+    accountabilityTitle: 'Cuộc thăm dò trách nhiệm ngân khố đã mở',
+    accountabilityBody:
+      'Cuộc thăm dò chu kỳ {cycle} đã mở. Hãy đánh giá khoản chi ngân khố này có mang lại kết quả hay không.',
+    delegationMilestoneTitle: '🎉 {count} người ủy thác!',
+    delegationMilestoneBody:
+      'Bạn đã đạt {count} người ủy thác. Tiếng nói quản trị của bạn đại diện cho một cộng đồng đang lớn mạnh.',
+    poolInactiveTitle: 'Pool {pool} đã không hoạt động trong {epochs} epoch',
+    poolInactiveBody:
+      'Pool này đã không bỏ phiếu trong {epochs} epoch. Nếu bạn stake tại đây, hãy kiểm tra cam kết quản trị của họ.',
+    drepScoreDropTitle: 'Điểm của DRep của bạn đã giảm {points} điểm',
+    drepScoreDropBody: 'Điểm của họ hiện là {score}/100. Hãy xem lại hoạt động gần đây của họ.',
+    drepInactiveTitle: 'DRep của bạn đã không bỏ phiếu trong {epochs} epoch',
+    drepInactiveBody:
+      'Người đại diện của bạn không hoạt động. Phần ủy thác của bạn không được sử dụng.',
+    drepMissedVoteTitle: 'DRep của bạn đã bỏ lỡ bỏ phiếu trong epoch này',
+    drepMissedVoteBody: 'Có {count} đề xuất đang mở nhưng DRep của bạn không bỏ phiếu.',
+  },
+  actions: {
+    voteRequiredTitle: '{count} đề xuất đang chờ phiếu của bạn',
+    voteRequiredBody: 'Bỏ phiếu cho các đề xuất đang mở giúp tăng điểm tham gia của bạn.',
+    scoreDroppedTitle: 'Điểm đã giảm {points} điểm',
+    scoreDroppedBody: 'Xem lại mức tham gia và giải trình gần đây để lấy lại điểm.',
+    drepInactiveTitle: 'Trạng thái DRep của bạn đang không hoạt động',
+    drepInactiveBody: 'Bỏ phiếu cho các đề xuất đang mở để khôi phục trạng thái hoạt động.',
+    tierApproachingTitle: 'Còn {points} điểm nữa đến hạng {tier}',
+    tierApproachingBody: 'Tiếp tục tham gia và giải trình để lên hạng tiếp theo.',
+    criticalActiveTitle: '{count} đề xuất quan trọng đang mở',
+    criticalActiveBody: 'Các đề xuất quan trọng có thể sắp hết hạn.',
+    noDelegationTitle: 'Bạn chưa có ủy thác nào',
+    noDelegationBody: 'Hãy ủy thác cho một DRep để tham gia quản trị.',
+    delegationStaleTitle: 'DRep bạn ủy thác đang không hoạt động',
+    delegationStaleBody: 'DRep của bạn gần đây không bỏ phiếu. Hãy cân nhắc ủy thác lại.',
+    delegatedScoreLowTitle: 'Điểm của DRep của bạn đang thấp',
+    delegatedScoreLowBody: 'Điểm: {score}. Hãy xem lại hiệu quả hoạt động của họ.',
+    criticalInProgressTitle: '{count} đề xuất quan trọng đang diễn ra',
+    criticalInProgressBody: 'Các quyết định quản trị quan trọng đang được đưa ra.',
+    activeProposalsTitle: '{count} đề xuất đang được bỏ phiếu',
+    activeProposalsBody: 'DRep của bạn đang đại diện cho lá phiếu của bạn ở các đề xuất này.',
+    spoVoteRequiredTitle: '{count} đề xuất đang chờ phiếu của pool bạn',
+    spoVoteRequiredBody: 'Bỏ phiếu cho các đề xuất quản trị giúp xây dựng uy tín của bạn.',
+    spoScoreDroppedTitle: 'Điểm pool đã giảm {points} điểm',
+    spoScoreDroppedBody: 'Xem lại mức tham gia bỏ phiếu và giải trình để phục hồi.',
+    claimPoolTitle: 'Nhận pool của bạn',
+    claimPoolBody: 'Xác minh quyền sở hữu để mở bảng điều khiển quản trị và xây dựng uy tín.',
+    firstVoteTitle: 'Bỏ lá phiếu quản trị đầu tiên',
+    firstVoteBody: 'Bắt đầu xây dựng điểm quản trị bằng cách bỏ phiếu cho một đề xuất đang mở.',
+    statementTitle: 'Công bố tuyên bố quản trị của bạn',
+    statementBody:
+      'Cho người ủy thác biết pool của bạn theo đuổi điều gì trong quản trị. Tăng điểm Bản sắc.',
+    unexplainedVotesTitle: '{count} phiếu chưa có giải trình',
+    unexplainedVotesBody: 'Thêm giải trình giúp tăng điểm Chất lượng thảo luận.',
+    spoTierApproachingBody: 'Tiếp tục bỏ phiếu và giải trình để lên hạng tiếp theo.',
+    wrappedTitle: 'Governance Wrapped của bạn đã sẵn sàng',
+    wrappedBody: 'Xem câu chuyện quản trị của bạn trong {period}.',
+    ctaViewProposals: 'Xem đề xuất',
+    ctaSeeBreakdown: 'Xem chi tiết',
+    ctaViewNow: 'Xem ngay',
+    ctaFindDrep: 'Tìm DRep',
+    ctaFindAnotherDrep: 'Tìm DRep khác',
+    ctaReviewDrep: 'Xem DRep',
+    ctaSeeProposals: 'Xem đề xuất',
+    ctaClaimNow: 'Nhận ngay',
+    ctaWriteStatement: 'Viết tuyên bố',
+    ctaAddRationale: 'Thêm giải trình',
+    ctaViewWrapped: 'Xem Wrapped',
+  },
+  inbox: {
+    title: 'Hộp thư',
+    unread: '{count} thông báo chưa đọc',
+    allCaughtUp: 'Đã xem hết',
+    markAllRead: 'Đánh dấu tất cả đã đọc',
+    tabAll: 'Tất cả',
+    tabProposal: 'Đề xuất',
+    tabScore: 'Điểm',
+    tabAlignment: 'Định hướng',
+    tabSystem: 'Hệ thống',
+    emptyTitle: 'Bạn đã xem hết',
+    emptyAll: 'Hiện không có thông báo quản trị nào. Mức tham gia của bạn đang tốt.',
+    emptyFiltered: 'Hiện không có thông báo nào trong mục {category}.',
+    activeProposalsTitle: '{count} đề xuất quản trị đang diễn ra',
+    activeProposalsBody: 'Quản trị Cardano đang sôi động. Phần ủy thác của bạn đang tham gia.',
+    ctaView: 'Xem',
+    ghiTitle: 'Sức khỏe quản trị: {score}',
+    ghiTitleWithDelta: 'Sức khỏe quản trị: {score} ({delta} trong epoch này)',
+    ghiBody: 'Chỉ số Sức khỏe Quản trị phản ánh tình trạng hiện tại của hệ sinh thái.',
+    ctaSeePulse: 'Xem Pulse',
+    pendingVotes: 'Phiếu đang chờ ({count})',
+    potentialGain: 'có thể +{points} điểm',
+    proposalFallback: 'Đề xuất',
+    critical: 'Quan trọng',
+    epochsLeft: 'Còn {count} epoch',
+    pointsGain: '+{points} điểm',
+    viewAllPending: 'Xem tất cả {count} đề xuất đang chờ',
+  },
+};
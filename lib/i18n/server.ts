@@ -0,0 +1,22 @@
+/**
+ * Server-side locale resolution for API routes and background jobs.
+ */
+
+import type { NextRequest } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { LOCALE_COOKIE, isLocale, negotiateLocale, toLocale, type Locale } from './config';
+
+/** Explicit ?locale= first, then the preference cookie, then Accept-Language */
+export function getRequestLocale(request: NextRequest): Locale {
+  const param = request.nextUrl.searchParams.get('locale');
+  if (isLocale(param)) return param;
+  const cookie = request.cookies.get(LOCALE_COOKIE)?.value;
+  if (isLocale(cookie)) return cookie;
+  return negotiateLocale(request.headers.get('accept-language'));
+}
+
+export async function getUserLocale(userId: string): Promise<Locale> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase.from('users').select('locale').eq('id', userId).maybeSingle();
+  return toLocale(data?.locale);
+}
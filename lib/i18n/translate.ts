@@ -0,0 +1,57 @@
+/**
+ * Message lookup — `t(locale, 'namespace.key', vars)` with per-key fallback
+ * to English, so a partially translated catalog never shows a raw key.
+ * Counted messages go through `tPlural`, which follows the locale's plural rules.
+ */
+
+import { DEFAULT_LOCALE, type Locale } from './config';
+import { formatNumber, intlTag } from './format';
+import { en, type Messages } from './messages/en';
+import { es } from './messages/es';
+import { ja } from './messages/ja';
+import { pt } from './messages/pt';
+import { vi } from './messages/vi';
+
+export type PartialMessages = { [N in keyof Messages]?: Partial<Messages[N]> };
+
+export type MessageKey = {
+  [N in keyof Messages]: `${N}.${keyof Messages[N] & string}`;
+}[keyof Messages];
+
+/** Keys that also have a singular `…One` form */
+export type PluralKey = {
+  [K in MessageKey]: `${K}One` extends MessageKey ? K : never;
+}[MessageKey];
+
+export type MessageVars = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, PartialMessages> = { en, ja, es, pt, vi };
+
+export function t(locale: Locale, key: MessageKey, vars?: MessageVars): string {
+  const [ns, name] = key.split('.') as [keyof Messages, string];
+  const localized = (CATALOGS[locale]?.[ns] as Record<string, string> | undefined)?.[name];
+  const template = localized ?? (en[ns] as Record<string, string>)[name] ?? key;
+  if (!vars) return template;
+  return template.replace(/\{(\w+)\}/g, (match, v: string) =>
+    v in vars ? String(vars[v]) : match,
+  );
+}
+
+/**
+ * Counted message: `{count}` is filled with the locale-formatted count unless
+ * `vars` overrides it, e.g. with a signed delta.
+ */
+export function tPlural(locale: Locale, key: PluralKey, count: number, vars?: MessageVars): string {
+  const one = new Intl.PluralRules(intlTag(locale)).select(count) === 'one';
+  return t(locale, one ? (`${key}One` as MessageKey) : key, {
+    count: formatNumber(count, locale),
+    ...vars,
+  });
+}
+
+/** Bind a locale once, for modules that render many strings */
+export function getTranslator(locale: Locale = DEFAULT_LOCALE) {
+  return (key: MessageKey, vars?: MessageVars) => t(locale, key, vars);
+}
+
+export type Translator = ReturnType<typeof getTranslator>;
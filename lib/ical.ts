@@ -0,0 +1,122 @@
+/**
+ * iCalendar (RFC 5545) serialization for subscribable calendar feeds.
+ *
+ * Calendar apps poll the feed URL and reconcile events by UID, so callers must
+ * keep UIDs stable and bump `sequence` whenever an event's meaning changes
+ * (e.g. a proposal deadline becomes "ratified").
+ */
+
+export interface ICalEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  url?: string;
+  categories?: string[];
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  sequence?: number;
+  /** Display reminders, in minutes before the start */
+  alarmMinutes?: number[];
+}
+
+export interface ICalCalendar {
+  name: string;
+  description?: string;
+  /** Suggested polling interval for subscribers */
+  refreshMinutes?: number;
+  events: ICalEvent[];
+}
+
+/** Escape a TEXT value: backslash, semicolon, comma and newlines */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Fold a content line to 75 octets, continuation lines start with a space */
+export function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const ch of line) {
+    const len = Buffer.byteLength(ch, 'utf8');
+    // The first line holds 75 octets, continuations 74 plus the leading space
+    if (size + len > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += ch;
+    size += len;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** UTC DATE-TIME form: 20250301T214500Z */
+export function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+function durationBefore(minutes: number): string {
+  if (minutes % 1440 === 0) return `-P${minutes / 1440}D`;
+  if (minutes % 60 === 0) return `-PT${minutes / 60}H`;
+  return `-PT${minutes}M`;
+}
+
+export function buildICalendar(calendar: ICalCalendar, now = new Date()): string {
+  const stamp = formatDateTime(now);
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Civica//Governance Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+  ];
+  if (calendar.description) lines.push(`X-WR-CALDESC:${escapeText(calendar.description)}`);
+  if (calendar.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${calendar.refreshMinutes}M`);
+  }
+
+  for (const e of calendar.events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${e.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatDateTime(e.start)}`,
+      `DTEND:${formatDateTime(e.end)}`,
+      `SUMMARY:${escapeText(e.summary)}`,
+    );
+    if (e.description) lines.push(`DESCRIPTION:${escapeText(e.description)}`);
+    if (e.url) lines.push(`URL:${e.url}`);
+    if (e.categories?.length) lines.push(`CATEGORIES:${e.categories.map(escapeText).join(',')}`);
+    lines.push(`STATUS:${e.status ?? 'CONFIRMED'}`, `SEQUENCE:${e.sequence ?? 0}`);
+    if (e.status !== 'CANCELLED') {
+      for (const minutes of e.alarmMinutes ?? []) {
+        lines.push(
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeText(e.summary)}`,
+          `TRIGGER:${durationBefore(minutes)}`,
+          'END:VALARM',
+        );
+      }
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
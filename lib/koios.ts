@@ -31,6 +31,7 @@ import {
 import { isWellDocumented } from '@/utils/documentation';
 import { DRep } from '@/types/drep';
 import { getActiveProposalEpochs, getActualProposalCount } from '@/lib/data';
+import { LEGACY_V2_WEIGHTS } from '@/lib/scoring/methodology';
 
 // ---------------------------------------------------------------------------
 // Weighting Philosophy (V3 — Rationale-Forward)
@@ -52,13 +53,11 @@ export interface DRepWeights {
   profileCompleteness: number;
 }
 
-/** Default: rationale-forward weights */
-export const DEFAULT_WEIGHTS: DRepWeights = {
-  effectiveParticipation: 0.3,
-  rationale: 0.35,
-  reliability: 0.2,
-  profileCompleteness: 0.15,
-};
+/**
+ * Default: rationale-forward weights. These are the legacy V2 weights; the live
+ * V3 score uses the methodology profiles in lib/scoring/methodology.ts.
+ */
+export const DEFAULT_WEIGHTS: DRepWeights = { ...LEGACY_V2_WEIGHTS };
 
 /** DRep with computed drepScore (0-100) and pre-computed alignment scores */
 export interface EnrichedDRep extends DRep {
@@ -136,6 +135,13 @@ export function blockTimeToEpoch(blockTime: number): number {
   );
 }
 
+/**
+ * Inverse of blockTimeToEpoch: Unix timestamp of the first second of an epoch.
+ */
+export function epochToBlockTime(epoch: number): number {
+  return SHELLEY_GENESIS_TIMESTAMP + (epoch - SHELLEY_BASE_EPOCH) * EPOCH_LENGTH_SECONDS;
+}
+
 /**
  * Compute vote counts per epoch from vote array
  * Groups votes by epoch_no (or derives from block_time if missing) and returns array of counts + first epoch
@@ -0,0 +1,134 @@
+/**
+ * Koios fixture sets — recorded Koios responses stored as versioned JSON so
+ * the sync pipeline can run offline against deterministic data.
+ *
+ * Requests are matched on method, path, normalized query (sorted parameters)
+ * and canonical JSON body (sorted object keys, sorted string arrays), so
+ * callers that build the same request in a different order still hit the
+ * recorded response. Koios bulk parameters (`_drep_ids`, `_stake_addresses`)
+ * are sets, so ID lists loaded from the database in any order match too.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+
+export const KOIOS_FIXTURE_VERSION = 1;
+
+export type KoiosFixtureMethod = 'GET' | 'POST';
+
+export interface KoiosFixtureEntry {
+  method: KoiosFixtureMethod;
+  /** Path relative to the Koios base URL, e.g. "/vote_list" */
+  path: string;
+  /** Query string without the leading "?", as sent */
+  query: string;
+  /** Parsed JSON body for POST requests, null otherwise */
+  body: unknown;
+  status: number;
+  response: unknown;
+}
+
+export interface KoiosFixtureSet {
+  version: number;
+  name: string;
+  recordedAt: string;
+  /** Upstream the set was recorded from, or "hand-authored" */
+  source: string;
+  entries: KoiosFixtureEntry[];
+}
+
+export interface KoiosRequest {
+  method: string;
+  path: string;
+  query: string;
+  body: unknown;
+}
+
+export function normalizeQuery(query: string): string {
+  const params = [...new URLSearchParams(query).entries()];
+  params.sort(([ka, va], [kb, vb]) => (ka === kb ? va.localeCompare(vb) : ka.localeCompare(kb)));
+  return params.map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`).join('&');
+}
+
+/** JSON with object keys sorted. Arrays of strings are sorted; other arrays keep their order. */
+export function canonicalJson(value: unknown): string {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    const items = value.every((v) => typeof v === 'string') ? [...value].sort() : value;
+    return `[${items.map(canonicalJson).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) =>
+    a.localeCompare(b),
+  );
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+}
+
+export function fixtureKey(req: KoiosRequest): string {
+  return `${req.method.toUpperCase()} ${req.path}?${normalizeQuery(req.query)} ${canonicalJson(req.body)}`;
+}
+
+/** Parse a request body; non-JSON bodies are kept as raw strings. */
+export function parseBody(raw: string): unknown {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+const PAGING_PARAMS = new Set(['limit', 'offset']);
+
+function withoutPaging(query: string): string {
+  const params = new URLSearchParams(query);
+  for (const p of PAGING_PARAMS) params.delete(p);
+  return params.toString();
+}
+
+/**
+ * Lookup index over a fixture set. A paginated request past the recorded
+ * pages (offset > 0 with no exact match, but the same request exists at
+ * another offset) resolves to an empty page, so hand-trimmed fixtures still
+ * terminate pagination loops.
+ */
+export class KoiosFixtureIndex {
+  private readonly exact = new Map<string, KoiosFixtureEntry>();
+  private readonly paged = new Set<string>();
+
+  constructor(set: KoiosFixtureSet) {
+    for (const entry of set.entries) this.add(entry);
+  }
+
+  add(entry: KoiosFixtureEntry): void {
+    this.exact.set(fixtureKey(entry), entry);
+    this.paged.add(fixtureKey({ ...entry, query: withoutPaging(entry.query) }));
+  }
+
+  match(req: KoiosRequest): Pick<KoiosFixtureEntry, 'status' | 'response'> | null {
+    const hit = this.exact.get(fixtureKey(req));
+    if (hit) return hit;
+
+    const offset = Number(new URLSearchParams(req.query).get('offset') ?? 0);
+    if (offset > 0 && this.paged.has(fixtureKey({ ...req, query: withoutPaging(req.query) }))) {
+      return { status: 200, response: [] };
+    }
+    return null;
+  }
+}
+
+export function loadFixtureSet(path: string): KoiosFixtureSet {
+  const set = JSON.parse(readFileSync(path, 'utf8')) as KoiosFixtureSet;
+  if (set.version !== KOIOS_FIXTURE_VERSION) {
+    throw new Error(
+      `Koios fixture ${path} is version ${set.version}; expected ${KOIOS_FIXTURE_VERSION}. Re-record it with npm run koios:mock -- --record.`,
+    );
+  }
+  if (!Array.isArray(set.entries)) throw new Error(`Koios fixture ${path} has no entries`);
+  return set;
+}
+
+/** Entries are sorted by key so re-recording produces reviewable diffs. */
+export function writeFixtureSet(path: string, set: KoiosFixtureSet): void {
+  const entries = [...set.entries].sort((a, b) => fixtureKey(a).localeCompare(fixtureKey(b)));
+  writeFileSync(path, `${JSON.stringify({ ...set, entries }, null, 2)}\n`);
+}
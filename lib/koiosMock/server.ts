@@ -0,0 +1,199 @@
+/**
+ * Local Koios stand-in. Point NEXT_PUBLIC_KOIOS_BASE_URL at `server.baseUrl`
+ * and the sync pipeline talks to it instead of api.koios.rest.
+ *
+ * Modes:
+ *   replay — answers from a fixture set. Unmatched requests get a 404 in
+ *            strict mode (tests) or an empty array otherwise (local dev).
+ *   record — proxies to the real Koios and captures every successful
+ *            response into a new fixture set. `maxRows` truncates array
+ *            responses, which also ends the client's pagination early and
+ *            keeps recorded fixtures small.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  KOIOS_FIXTURE_VERSION,
+  KoiosFixtureIndex,
+  fixtureKey,
+  parseBody,
+  type KoiosFixtureEntry,
+  type KoiosFixtureMethod,
+  type KoiosFixtureSet,
+  type KoiosRequest,
+} from './fixtures';
+
+export const KOIOS_BASE_PATH = '/api/v1';
+const DEFAULT_UPSTREAM = 'https://api.koios.rest/api/v1';
+
+export interface KoiosMockServerOptions {
+  mode?: 'replay' | 'record';
+  /** Fixture set to replay (replay mode) */
+  fixtures?: KoiosFixtureSet;
+  /** Replay: 404 on unmatched requests instead of answering [] (default true) */
+  strict?: boolean;
+  /** Record: upstream Koios base URL */
+  upstream?: string;
+  /** Record: Bearer token forwarded upstream */
+  apiKey?: string;
+  /** Record: truncate array responses to this many rows */
+  maxRows?: number;
+  /** Record: name stored in the captured set */
+  name?: string;
+  /** 0 picks a free port */
+  port?: number;
+  host?: string;
+}
+
+export interface KoiosRequestLogEntry extends KoiosRequest {
+  status: number;
+  matched: boolean;
+}
+
+export interface KoiosMockServer {
+  /** Use as NEXT_PUBLIC_KOIOS_BASE_URL */
+  baseUrl: string;
+  requests: KoiosRequestLogEntry[];
+  /** Fixture keys of replay requests with no recorded response */
+  unmatched: string[];
+  /** Fixture set captured so far (record mode) */
+  recorded(): KoiosFixtureSet;
+  close(): Promise<void>;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (c: Buffer) => chunks.push(c));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+export async function startKoiosMockServer(
+  options: KoiosMockServerOptions = {},
+): Promise<KoiosMockServer> {
+  const mode = options.mode ?? 'replay';
+  const strict = options.strict ?? true;
+  const upstream = (options.upstream ?? DEFAULT_UPSTREAM).replace(/\/$/, '');
+
+  if (mode === 'replay' && !options.fixtures) {
+    throw new Error('Koios mock: replay mode needs a fixture set');
+  }
+
+  const index = new KoiosFixtureIndex(
+    options.fixtures ?? {
+      version: KOIOS_FIXTURE_VERSION,
+      name: '',
+      recordedAt: '',
+      source: '',
+      entries: [],
+    },
+  );
+  const captured = new Map<string, KoiosFixtureEntry>();
+  const requests: KoiosRequestLogEntry[] = [];
+  const unmatched: string[] = [];
+
+  async function replay(request: KoiosRequest, res: ServerResponse): Promise<void> {
+    const hit = index.match(request);
+    if (hit) {
+      requests.push({ ...request, status: hit.status, matched: true });
+      sendJson(res, hit.status, hit.response);
+      return;
+    }
+    unmatched.push(fixtureKey(request));
+    const status = strict ? 404 : 200;
+    requests.push({ ...request, status, matched: false });
+    sendJson(
+      res,
+      status,
+      strict ? { error: `No Koios fixture for ${request.method} ${request.path}` } : [],
+    );
+  }
+
+  async function record(request: KoiosRequest, rawBody: string, res: ServerResponse) {
+    const url = `${upstream}${request.path}${request.query ? `?${request.query}` : ''}`;
+    const upstreamRes = await fetch(url, {
+      method: request.method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+      },
+      body: request.method === 'POST' ? rawBody : undefined,
+    });
+    let payload: unknown = await upstreamRes.json().catch(() => null);
+    if (options.maxRows !== undefined && Array.isArray(payload)) {
+      payload = payload.slice(0, options.maxRows);
+    }
+
+    // Rate limits and outages are transient — never bake them into fixtures
+    const transient = upstreamRes.status === 429 || upstreamRes.status >= 500;
+    if (!transient) {
+      const entry: KoiosFixtureEntry = {
+        method: request.method as KoiosFixtureMethod,
+        path: request.path,
+        query: request.query,
+        body: request.body,
+        status: upstreamRes.status,
+        response: payload,
+      };
+      captured.set(fixtureKey(entry), entry);
+    }
+    requests.push({ ...request, status: upstreamRes.status, matched: !transient });
+    sendJson(res, upstreamRes.status, payload);
+  }
+
+  const server = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const method = (req.method ?? 'GET').toUpperCase();
+      if (method !== 'GET' && method !== 'POST') {
+        sendJson(res, 405, { error: `Unsupported method ${method}` });
+        return;
+      }
+      const path = url.pathname.startsWith(KOIOS_BASE_PATH)
+        ? url.pathname.slice(KOIOS_BASE_PATH.length)
+        : url.pathname;
+      const rawBody = method === 'POST' ? await readBody(req) : '';
+      const request: KoiosRequest = {
+        method,
+        path,
+        query: url.search.replace(/^\?/, ''),
+        body: parseBody(rawBody),
+      };
+
+      if (mode === 'record') await record(request, rawBody, res);
+      else await replay(request, res);
+    } catch (err) {
+      sendJson(res, 502, { error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', resolve),
+  );
+  const { address, port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://${address}:${port}${KOIOS_BASE_PATH}`,
+    requests,
+    unmatched,
+    recorded: () => ({
+      version: KOIOS_FIXTURE_VERSION,
+      name: options.name ?? 'recorded',
+      recordedAt: new Date().toISOString(),
+      source: upstream,
+      entries: [...captured.values()],
+    }),
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve())),
+      ),
+  };
+}
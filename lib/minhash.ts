@@ -0,0 +1,89 @@
+/**
+ * MinHash + LSH banding — near-linear candidate generation for set similarity.
+ *
+ * A signature holds, per hash function, the minimum hash over the set's tokens;
+ * the fraction of matching positions between two signatures estimates their
+ * Jaccard similarity. Splitting signatures into bands and bucketing by band
+ * yields candidate pairs without comparing every pair: with b bands of r rows,
+ * two sets collide with probability 1 - (1 - J^r)^b.
+ */
+
+/** FNV-1a 32-bit string hash. */
+export function hashString(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Murmur3 finalizer — derives independent-looking hashes from one base hash. */
+function mix32(x: number): number {
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x85ebca6b);
+  x ^= x >>> 13;
+  x = Math.imul(x, 0xc2b2ae35);
+  x ^= x >>> 16;
+  return x >>> 0;
+}
+
+const SEEDS: number[] = [];
+function seed(i: number): number {
+  while (SEEDS.length <= i) SEEDS.push(mix32(0x9e3779b9 + SEEDS.length * 0x632be5ab));
+  return SEEDS[i];
+}
+
+export function minhashSignature(tokens: Iterable<string>, numHashes: number): Uint32Array {
+  const sig = new Uint32Array(numHashes).fill(0xffffffff);
+  for (const token of tokens) {
+    const base = hashString(token);
+    for (let i = 0; i < numHashes; i++) {
+      const h = mix32(base ^ seed(i));
+      if (h < sig[i]) sig[i] = h;
+    }
+  }
+  return sig;
+}
+
+export function estimateJaccard(a: Uint32Array, b: Uint32Array): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let same = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++;
+  return same / a.length;
+}
+
+/** One bucket key per band; `numHashes` must be divisible by `bands`. */
+export function lshBandKeys(sig: Uint32Array, bands: number): string[] {
+  const rows = sig.length / bands;
+  const keys: string[] = [];
+  for (let b = 0; b < bands; b++) {
+    keys.push(`${b}:${Array.from(sig.subarray(b * rows, (b + 1) * rows)).join('.')}`);
+  }
+  return keys;
+}
+
+/**
+ * Candidate pairs from any bucketing: every pair of IDs sharing a bucket.
+ * Buckets larger than `maxBucketSize` are skipped — a key shared by that many
+ * members carries no discriminating signal and would reintroduce O(n²) work.
+ */
+export function pairsFromBuckets(
+  buckets: Map<string, string[]>,
+  maxBucketSize: number,
+  into: Set<string> = new Set(),
+): Set<string> {
+  for (const ids of buckets.values()) {
+    if (ids.length < 2 || ids.length > maxBucketSize) continue;
+    const unique = [...new Set(ids)].sort();
+    for (let i = 0; i < unique.length; i++) {
+      for (let j = i + 1; j < unique.length; j++) into.add(`${unique[i]}\u0000${unique[j]}`);
+    }
+  }
+  return into;
+}
+
+export function splitPairKey(key: string): [string, string] {
+  const i = key.indexOf('\u0000');
+  return [key.slice(0, i), key.slice(i + 1)];
+}
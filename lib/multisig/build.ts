@@ -0,0 +1,91 @@
+/**
+ * Unsigned transaction builders for script-credential (multisig) DReps.
+ *
+ * Same MeshJS pattern as lib/voting.ts and lib/drepUpdate.ts, but the
+ * transaction is not signed and submitted here: it carries the DRep's native
+ * script and a validity deadline, and goes to a signing session where each
+ * co-signer adds their witness. The connected wallet only pays the fee.
+ */
+
+import { MeshTxBuilder, KoiosProvider, BrowserWallet, resolveSlotNo } from '@meshsdk/core';
+import type { VoteChoice, VoteTarget } from '@/lib/voting';
+import { decodeNativeScript, type NativeScript } from './nativeScript';
+
+const provider = new KoiosProvider('api');
+
+/** How long co-signers have to sign before the transaction expires */
+export const SESSION_TTL_DAYS = 7;
+
+export interface UnsignedMultisigTx {
+  unsignedTx: string;
+}
+
+function hasAfterLock(script: NativeScript): boolean {
+  if (script.type === 'after') return true;
+  return 'scripts' in script && script.scripts.some(hasAfterLock);
+}
+
+async function buildWithScript(
+  wallet: BrowserWallet,
+  scriptCbor: string,
+  addAction: (txBuilder: MeshTxBuilder) => void,
+): Promise<UnsignedMultisigTx> {
+  const utxos = await wallet.getUtxos();
+  const changeAddress = await wallet.getChangeAddress();
+  if (!utxos || utxos.length === 0) {
+    throw new Error('No UTXOs found in wallet. Your wallet needs ADA to pay the fee.');
+  }
+
+  const now = Date.now();
+  const txBuilder = new MeshTxBuilder({ fetcher: provider });
+  addAction(txBuilder);
+  txBuilder
+    .invalidHereafter(Number(resolveSlotNo('mainnet', now + SESSION_TTL_DAYS * 86_400_000)))
+    .changeAddress(changeAddress)
+    .selectUtxosFrom(utxos);
+  // `after` locks only hold when the validity interval starts past their slot
+  if (hasAfterLock(decodeNativeScript(scriptCbor))) {
+    txBuilder.invalidBefore(Number(resolveSlotNo('mainnet', now)));
+  }
+
+  // The server reads the fee payers from the spent inputs themselves
+  return { unsignedTx: await txBuilder.complete() };
+}
+
+export async function buildMultisigVote(
+  wallet: BrowserWallet,
+  drepId: string,
+  scriptCbor: string,
+  target: VoteTarget,
+  vote: VoteChoice,
+  anchor?: { anchorUrl: string; anchorHash: string },
+): Promise<UnsignedMultisigTx> {
+  return buildWithScript(wallet, scriptCbor, (txBuilder) => {
+    txBuilder
+      .vote(
+        { type: 'DRep', drepId },
+        { txHash: target.txHash, txIndex: target.txIndex },
+        {
+          voteKind: vote,
+          ...(anchor && {
+            anchor: { anchorUrl: anchor.anchorUrl, anchorDataHash: anchor.anchorHash },
+          }),
+        },
+      )
+      .voteScript(scriptCbor);
+  });
+}
+
+export async function buildMultisigDRepUpdate(
+  wallet: BrowserWallet,
+  drepId: string,
+  scriptCbor: string,
+  anchorUrl: string,
+  anchorHash: string,
+): Promise<UnsignedMultisigTx> {
+  return buildWithScript(wallet, scriptCbor, (txBuilder) => {
+    txBuilder
+      .drepUpdateCertificate(drepId, { anchorUrl, anchorDataHash: anchorHash })
+      .certificateScript(scriptCbor);
+  });
+}
@@ -0,0 +1,221 @@
+/**
+ * Minimal CBOR reader/writer for the parts of Cardano transactions the
+ * multisig flow inspects. Every decoded node keeps its byte span, so a
+ * transaction body can be hashed and witnesses spliced in without
+ * re-serializing (and so changing) the bytes co-signers signed.
+ */
+
+export type CborNode =
+  | { kind: 'uint'; value: number | bigint; start: number; end: number }
+  | { kind: 'nint'; value: number | bigint; start: number; end: number }
+  | { kind: 'bytes'; value: Uint8Array; start: number; end: number }
+  | { kind: 'text'; value: string; start: number; end: number }
+  | { kind: 'array'; items: CborNode[]; start: number; end: number }
+  | { kind: 'map'; entries: Array<[CborNode, CborNode]>; start: number; end: number }
+  | { kind: 'tag'; tag: number; inner: CborNode; start: number; end: number }
+  | { kind: 'simple'; value: boolean | null | undefined; start: number; end: number };
+
+export class CborError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CborError';
+  }
+}
+
+const MAX_DEPTH = 64;
+
+export function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.trim();
+  if (clean.length % 2 !== 0 || /[^0-9a-f]/i.test(clean)) {
+    throw new CborError('Invalid hex string');
+  }
+  const out = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// ---------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------
+
+/** Decode exactly one CBOR item spanning the whole input */
+export function decodeCbor(bytes: Uint8Array): CborNode {
+  const node = decodeAt(bytes, 0, 0);
+  if (node.end !== bytes.length) throw new CborError('Trailing bytes after CBOR item');
+  return node;
+}
+
+function readLength(bytes: Uint8Array, pos: number, info: number): [number | bigint, number] {
+  if (info < 24) return [info, pos];
+  const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+  if (!size) throw new CborError(`Unsupported additional info ${info}`);
+  if (pos + size > bytes.length) throw new CborError('Unexpected end of CBOR');
+  let value = BigInt(0);
+  for (let i = 0; i < size; i++) value = (value << BigInt(8)) | BigInt(bytes[pos + i]);
+  const asNumber = value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+  return [asNumber, pos + size];
+}
+
+function count(value: number | bigint): number {
+  if (typeof value === 'bigint') throw new CborError('CBOR length too large');
+  return value;
+}
+
+function decodeAt(bytes: Uint8Array, start: number, depth: number): CborNode {
+  if (depth > MAX_DEPTH) throw new CborError('CBOR nested too deeply');
+  if (start >= bytes.length) throw new CborError('Unexpected end of CBOR');
+
+  const major = bytes[start] >> 5;
+  const info = bytes[start] & 0x1f;
+  const indefinite = info === 31 && major >= 2 && major <= 5;
+  const [length, pos] = indefinite ? [0, start + 1] : readLength(bytes, start + 1, info);
+
+  switch (major) {
+    case 0:
+      return { kind: 'uint', value: length, start, end: pos };
+    case 1:
+      return {
+        kind: 'nint',
+        value: typeof length === 'bigint' ? -BigInt(1) - length : -1 - length,
+        start,
+        end: pos,
+      };
+    case 2:
+    case 3: {
+      let end = pos;
+      let data: Uint8Array;
+      if (indefinite) {
+        const chunks: Uint8Array[] = [];
+        while (bytes[end] !== 0xff) {
+          const chunk = decodeAt(bytes, end, depth + 1);
+          if (chunk.kind !== 'bytes' && chunk.kind !== 'text') {
+            throw new CborError('Invalid chunk in indefinite string');
+          }
+          chunks.push(chunk.kind === 'bytes' ? chunk.value : new TextEncoder().encode(chunk.value));
+          end = chunk.end;
+        }
+        end += 1;
+        data = concat(chunks);
+      } else {
+        end = pos + count(length);
+        if (end > bytes.length) throw new CborError('Unexpected end of CBOR');
+        data = bytes.slice(pos, end);
+      }
+      return major === 2
+        ? { kind: 'bytes', value: data, start, end }
+        : { kind: 'text', value: new TextDecoder().decode(data), start, end };
+    }
+    case 4: {
+      const items: CborNode[] = [];
+      let end = pos;
+      const n = indefinite ? Infinity : count(length);
+      while (items.length < n) {
+        if (indefinite && bytes[end] === 0xff) break;
+        const item = decodeAt(bytes, end, depth + 1);
+        items.push(item);
+        end = item.end;
+      }
+      return { kind: 'array', items, start, end: indefinite ? end + 1 : end };
+    }
+    case 5: {
+      const entries: Array<[CborNode, CborNode]> = [];
+      let end = pos;
+      const n = indefinite ? Infinity : count(length);
+      while (entries.length < n) {
+        if (indefinite && bytes[end] === 0xff) break;
+        const key = decodeAt(bytes, end, depth + 1);
+        const value = decodeAt(bytes, key.end, depth + 1);
+        entries.push([key, value]);
+        end = value.end;
+      }
+      return { kind: 'map', entries, start, end: indefinite ? end + 1 : end };
+    }
+    case 6: {
+      const inner = decodeAt(bytes, pos, depth + 1);
+      return { kind: 'tag', tag: count(length), inner, start, end: inner.end };
+    }
+    default: {
+      if (info === 20 || info === 21)
+        return { kind: 'simple', value: info === 21, start, end: pos };
+      if (info === 22) return { kind: 'simple', value: null, start, end: pos };
+      if (info === 23) return { kind: 'simple', value: undefined, start, end: pos };
+      // Floats never occur in ledger CBOR
+      throw new CborError(`Unsupported simple value ${info}`);
+    }
+  }
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Accessors
+// ---------------------------------------------------------------------------
+
+/** Strip a tag 258 (set) wrapper, which Conway allows around most collections */
+export function untagSet(node: CborNode): CborNode {
+  return node.kind === 'tag' && node.tag === 258 ? node.inner : node;
+}
+
+export function mapGet(node: CborNode, key: number): CborNode | undefined {
+  if (node.kind !== 'map') return undefined;
+  return node.entries.find(([k]) => k.kind === 'uint' && k.value === key)?.[1];
+}
+
+export function asUint(node: CborNode | undefined): number | null {
+  return node?.kind === 'uint' && typeof node.value === 'number' ? node.value : null;
+}
+
+export function asBytesHex(node: CborNode | undefined): string | null {
+  return node?.kind === 'bytes' ? bytesToHex(node.value) : null;
+}
+
+export function asArray(node: CborNode | undefined): CborNode[] | null {
+  if (!node) return null;
+  const inner = untagSet(node);
+  return inner.kind === 'array' ? inner.items : null;
+}
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+export function encodeHead(major: number, length: number): Uint8Array {
+  const m = major << 5;
+  if (length < 24) return new Uint8Array([m | length]);
+  if (length < 0x100) return new Uint8Array([m | 24, length]);
+  if (length < 0x10000) return new Uint8Array([m | 25, length >> 8, length & 0xff]);
+  return new Uint8Array([
+    m | 26,
+    (length >>> 24) & 0xff,
+    (length >>> 16) & 0xff,
+    (length >>> 8) & 0xff,
+    length & 0xff,
+  ]);
+}
+
+export function encodeBytes(bytes: Uint8Array): Uint8Array {
+  return concat([encodeHead(2, bytes.length), bytes]);
+}
+
+export function encodeArray(items: Uint8Array[]): Uint8Array {
+  return concat([encodeHead(4, items.length), ...items]);
+}
+
+/** Map from already-encoded keys and values, in the given order */
+export function encodeMap(entries: Array<[Uint8Array, Uint8Array]>): Uint8Array {
+  return concat([encodeHead(5, entries.length), ...entries.flat()]);
+}
+
+export { concat as concatBytes };
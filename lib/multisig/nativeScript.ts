@@ -0,0 +1,166 @@
+/**
+ * Native (timelock) scripts behind script-based DRep credentials.
+ *
+ * A script DRep acts when its native script is satisfied by the transaction:
+ * enough of the listed keys have witnessed it and its validity interval meets
+ * any time locks. These helpers decode the script CBOR, hash it to the
+ * credential, and work out how many more signatures a session needs.
+ */
+
+import { blake2b } from 'blakejs';
+import type { NativeScript } from '@meshsdk/core';
+import {
+  asArray,
+  asBytesHex,
+  asUint,
+  bytesToHex,
+  CborError,
+  decodeCbor,
+  hexToBytes,
+  type CborNode,
+} from './cbor';
+
+export type { NativeScript };
+
+/** Slot bounds of a transaction, as set in its body */
+export interface ValidityInterval {
+  invalidBefore: number | null;
+  invalidHereafter: number | null;
+}
+
+function toScript(node: CborNode): NativeScript {
+  const items = asArray(node);
+  const type = asUint(items?.[0]);
+  if (!items || type === null) throw new CborError('Malformed native script');
+
+  switch (type) {
+    case 0: {
+      const keyHash = asBytesHex(items[1]);
+      if (!keyHash || keyHash.length !== 56) throw new CborError('Malformed key hash');
+      return { type: 'sig', keyHash };
+    }
+    case 1:
+    case 2:
+      return {
+        type: type === 1 ? 'all' : 'any',
+        scripts: (asArray(items[1]) ?? []).map(toScript),
+      };
+    case 3: {
+      const required = asUint(items[1]);
+      if (required === null) throw new CborError('Malformed atLeast script');
+      return { type: 'atLeast', required, scripts: (asArray(items[2]) ?? []).map(toScript) };
+    }
+    case 4:
+    case 5: {
+      const slot = asUint(items[1]);
+      if (slot === null) throw new CborError('Malformed time lock');
+      return { type: type === 4 ? 'after' : 'before', slot: String(slot) };
+    }
+    default:
+      throw new CborError(`Unknown native script type ${type}`);
+  }
+}
+
+export function decodeNativeScript(cborHex: string): NativeScript {
+  return toScript(decodeCbor(hexToBytes(cborHex)));
+}
+
+/** Script hash: blake2b-224 over the native script tag (0) and the script CBOR */
+export function nativeScriptHash(cborHex: string): string {
+  const script = hexToBytes(cborHex);
+  const tagged = new Uint8Array(script.length + 1);
+  tagged.set(script, 1);
+  return bytesToHex(blake2b(tagged, undefined, 28));
+}
+
+/** Every key hash the script mentions, in order of first appearance */
+export function scriptKeyHashes(script: NativeScript): string[] {
+  const keys = new Set<string>();
+  const walk = (s: NativeScript) => {
+    if (s.type === 'sig') keys.add(s.keyHash);
+    else if ('scripts' in s) s.scripts.forEach(walk);
+  };
+  walk(script);
+  return [...keys];
+}
+
+function timeLockMet(
+  s: Extract<NativeScript, { type: 'after' | 'before' }>,
+  v: ValidityInterval,
+): boolean {
+  const slot = Number(s.slot);
+  // Ledger rule: `after` needs the interval to start at or past the slot,
+  // `before` needs it to end at or before the slot
+  return s.type === 'after'
+    ? v.invalidBefore !== null && v.invalidBefore >= slot
+    : v.invalidHereafter !== null && v.invalidHereafter <= slot;
+}
+
+/**
+ * Fewest additional signatures that satisfy the script, given the keys that
+ * have already witnessed. Infinity when no set of signatures can (e.g. a
+ * time lock the transaction's validity interval does not meet).
+ */
+export function signaturesNeeded(
+  script: NativeScript,
+  signed: ReadonlySet<string>,
+  validity: ValidityInterval,
+): number {
+  switch (script.type) {
+    case 'sig':
+      return signed.has(script.keyHash) ? 0 : 1;
+    case 'after':
+    case 'before':
+      return timeLockMet(script, validity) ? 0 : Infinity;
+    case 'all':
+      return script.scripts.reduce((n, s) => n + signaturesNeeded(s, signed, validity), 0);
+    case 'any':
+      return Math.min(
+        Infinity,
+        ...script.scripts.map((s) => signaturesNeeded(s, signed, validity)),
+      );
+    case 'atLeast': {
+      if (script.required <= 0) return 0;
+      const costs = script.scripts
+        .map((s) => signaturesNeeded(s, signed, validity))
+        .sort((a, b) => a - b);
+      if (costs.length < script.required) return Infinity;
+      return costs.slice(0, script.required).reduce((n, c) => n + c, 0);
+    }
+  }
+}
+
+export function isScriptSatisfied(
+  script: NativeScript,
+  signed: ReadonlySet<string>,
+  validity: ValidityInterval,
+): boolean {
+  return signaturesNeeded(script, signed, validity) === 0;
+}
+
+/** Human summary of a script's signing rule, e.g. "2 of 3 keys" */
+export function describeScript(script: NativeScript): string {
+  switch (script.type) {
+    case 'sig':
+      return '1 key';
+    case 'after':
+      return `valid after slot ${script.slot}`;
+    case 'before':
+      return `valid before slot ${script.slot}`;
+    case 'atLeast':
+      if (script.scripts.every((s) => s.type === 'sig')) {
+        return `${script.required} of ${script.scripts.length} keys`;
+      }
+      return `${script.required} of (${script.scripts.map(describeScript).join(', ')})`;
+    case 'all':
+    case 'any': {
+      const sigs = script.scripts.every((s) => s.type === 'sig');
+      if (sigs) {
+        const n = script.scripts.length;
+        return script.type === 'all' ? `all ${n} keys` : `any 1 of ${n} keys`;
+      }
+      const joiner = script.type === 'all' ? ' and ' : ' or ';
+      return script.scripts.map(describeScript).join(joiner);
+    }
+  }
+}
@@ -0,0 +1,467 @@
+/**
+ * Multisig signing sessions for script-credential DReps.
+ *
+ * A session stores one unsigned vote or DRep update transaction. Everything a
+ * co-signer is shown (the votes, the anchor, the outputs and fee, the signing
+ * rule, the deadline) is read from the transaction bytes, never from the
+ * creator's request, and the fee payers are the owners of the spent inputs as
+ * recorded on chain. Each co-signer posts what their wallet returned from
+ * signTx; only witnesses from keys in the script or from the fee payer, with a
+ * valid signature over the transaction id, are kept. Once the script is
+ * satisfied and the fee payer has signed, the witnesses are spliced in and the
+ * transaction is submitted.
+ */
+
+import { SLOT_CONFIG_NETWORK, slotToBeginUnixTime } from '@meshsdk/core';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { drepScriptHash } from '@/utils/drepId';
+import { fetchUtxoAddresses, isTransactionOnChain, submitTransaction } from '@/utils/koios';
+import type { Json } from '@/types/database';
+import { CborError } from './cbor';
+import {
+  decodeNativeScript,
+  describeScript,
+  nativeScriptHash,
+  scriptKeyHashes,
+  signaturesNeeded,
+  type NativeScript,
+} from './nativeScript';
+import {
+  addressCredentials,
+  attachVkeyWitnesses,
+  decodeGovernanceTx,
+  extractVkeyWitnesses,
+  inputKeyHashes,
+  verifyVkeyWitness,
+  type MultisigDRepUpdate,
+  type MultisigTxKind,
+  type MultisigTxOutput,
+  type MultisigVote,
+  type VkeyWitness,
+} from './transaction';
+
+export type SigningSessionStatus =
+  'collecting' | 'submitting' | 'submitted' | 'failed' | 'cancelled' | 'expired';
+
+export interface SigningSessionSigner {
+  keyHash: string;
+  signed: boolean;
+  signedAt: string | null;
+  signerAddress: string | null;
+}
+
+export interface SigningSession {
+  id: string;
+  kind: MultisigTxKind;
+  drepId: string;
+  scriptHash: string;
+  script: NativeScript;
+  /** Signing rule in words, e.g. "2 of 3 keys" */
+  rule: string;
+  status: SigningSessionStatus;
+  error: string | null;
+  /** Transaction id; unchanged by adding witnesses */
+  txHash: string;
+  unsignedTx: string;
+  votes: MultisigVote[];
+  drepUpdate: MultisigDRepUpdate | null;
+  /** Where the spent inputs go: change back to the fee payer and anything else */
+  outputs: MultisigTxOutput[];
+  /** Lovelace */
+  fee: number;
+  signers: SigningSessionSigner[];
+  feePayerKeyHashes: string[];
+  feePayerSigned: boolean;
+  /** Further script signatures needed before the session can be submitted */
+  signaturesNeeded: number;
+  createdAt: string;
+  expiresAt: string;
+  submittedAt: string | null;
+}
+
+export class MultisigSessionError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = 'MultisigSessionError';
+  }
+}
+
+/** Longest validity window a session may ask co-signers to sign for */
+const MAX_SESSION_DAYS = 14;
+
+/** A 'submitting' claim older than this was abandoned (e.g. a crash); it reads as failed */
+const SUBMIT_CLAIM_TIMEOUT_MS = 5 * 60_000;
+
+const SESSION_COLUMNS =
+  'id, kind, drep_id, script_hash, script_cbor, unsigned_tx, tx_hash, fee_payer_key_hashes, invalid_before, invalid_hereafter, summary, status, error, created_by, expires_at, submitted_at, created_at, updated_at';
+
+interface SessionRow {
+  id: string;
+  kind: string;
+  drep_id: string;
+  script_hash: string;
+  script_cbor: string;
+  unsigned_tx: string;
+  tx_hash: string;
+  fee_payer_key_hashes: string[];
+  invalid_before: number | null;
+  invalid_hereafter: number;
+  summary: Json;
+  status: string;
+  error: string | null;
+  created_by: string | null;
+  expires_at: string;
+  submitted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface WitnessRow {
+  key_hash: string;
+  vkey: string;
+  signature: string;
+  signer_address: string | null;
+  added_at: string;
+}
+
+interface SessionSummary {
+  votes: MultisigVote[];
+  drepUpdate: MultisigDRepUpdate | null;
+  outputs: MultisigTxOutput[];
+  fee: number;
+}
+
+function invalid(message: string): MultisigSessionError {
+  return new MultisigSessionError(message, 400);
+}
+
+function validityOf(row: SessionRow) {
+  return { invalidBefore: row.invalid_before, invalidHereafter: row.invalid_hereafter };
+}
+
+function toSession(row: SessionRow, witnesses: WitnessRow[]): SigningSession {
+  const script = decodeNativeScript(row.script_cbor);
+  const signedAt = new Map(witnesses.map((w) => [w.key_hash, w]));
+  const signed = new Set(signedAt.keys());
+  const summary = row.summary as unknown as SessionSummary;
+  const expired = row.status === 'collecting' && new Date(row.expires_at).getTime() <= Date.now();
+  const stalled =
+    row.status === 'submitting' &&
+    new Date(row.updated_at).getTime() <= Date.now() - SUBMIT_CLAIM_TIMEOUT_MS;
+
+  return {
+    id: row.id,
+    kind: row.kind as MultisigTxKind,
+    drepId: row.drep_id,
+    scriptHash: row.script_hash,
+    script,
+    rule: describeScript(script),
+    status: expired ? 'expired' : stalled ? 'failed' : (row.status as SigningSessionStatus),
+    error: stalled ? 'Submission was interrupted. Retry to submit again.' : row.error,
+    txHash: row.tx_hash,
+    unsignedTx: row.unsigned_tx,
+    votes: summary.votes ?? [],
+    drepUpdate: summary.drepUpdate ?? null,
+    outputs: summary.outputs,
+    fee: summary.fee,
+    signers: scriptKeyHashes(script).map((keyHash) => ({
+      keyHash,
+      signed: signed.has(keyHash),
+      signedAt: signedAt.get(keyHash)?.added_at ?? null,
+      signerAddress: signedAt.get(keyHash)?.signer_address ?? null,
+    })),
+    feePayerKeyHashes: row.fee_payer_key_hashes,
+    feePayerSigned: row.fee_payer_key_hashes.every((k) => signed.has(k)),
+    signaturesNeeded: signaturesNeeded(script, signed, validityOf(row)),
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    submittedAt: row.submitted_at,
+  };
+}
+
+async function loadSession(
+  id: string,
+): Promise<{ row: SessionRow; witnesses: WitnessRow[] } | null> {
+  const supabase = getSupabaseAdmin();
+  const [{ data: row }, { data: witnesses }] = await Promise.all([
+    supabase.from('multisig_signing_sessions').select(SESSION_COLUMNS).eq('id', id).maybeSingle(),
+    supabase
+      .from('multisig_session_witnesses')
+      .select('key_hash, vkey, signature, signer_address, added_at')
+      .eq('session_id', id),
+  ]);
+  return row ? { row: row as SessionRow, witnesses: witnesses ?? [] } : null;
+}
+
+export async function getSigningSession(id: string): Promise<SigningSession | null> {
+  const loaded = await loadSession(id);
+  return loaded ? toSession(loaded.row, loaded.witnesses) : null;
+}
+
+/** Most recent sessions for a DRep, newest first */
+export async function listSigningSessions(drepId: string, limit = 20): Promise<SigningSession[]> {
+  const supabase = getSupabaseAdmin();
+  const { data: rows, error } = await supabase
+    .from('multisig_signing_sessions')
+    .select(SESSION_COLUMNS)
+    .eq('drep_id', drepId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+  if (!rows?.length) return [];
+
+  const { data: witnesses } = await supabase
+    .from('multisig_session_witnesses')
+    .select('session_id, key_hash, vkey, signature, signer_address, added_at')
+    .in(
+      'session_id',
+      rows.map((r) => r.id),
+    );
+  return rows.map((row) =>
+    toSession(
+      row as SessionRow,
+      (witnesses ?? []).filter((w) => w.session_id === row.id),
+    ),
+  );
+}
+
+export interface CreateSigningSessionInput {
+  kind: MultisigTxKind;
+  drepId: string;
+  unsignedTx: string;
+  /** The creator's own signTx result, if they signed while creating */
+  witnesses?: string;
+  signerAddress?: string;
+  createdBy?: string;
+  /** The creator's authenticated wallet; it must hold a script key or pay the fee */
+  creatorAddress: string;
+}
+
+/**
+ * Open a session for an unsigned transaction. Rejects transactions that do
+ * anything besides voting or updating as the script DRep, that lack the
+ * DRep's script, that spend script-locked inputs, or whose validity interval
+ * can never satisfy the script, and creators who are neither a co-signer nor
+ * the fee payer.
+ */
+export async function createSigningSession(
+  input: CreateSigningSessionInput,
+): Promise<SigningSession> {
+  const scriptHash = drepScriptHash(input.drepId);
+  if (!scriptHash) throw invalid('DRep ID is not a script credential');
+
+  let decoded;
+  try {
+    decoded = decodeGovernanceTx(input.unsignedTx, input.kind, scriptHash);
+  } catch (err) {
+    if (err instanceof CborError) throw invalid(err.message);
+    throw err;
+  }
+
+  const scriptCbor = decoded.nativeScripts.find((s) => nativeScriptHash(s) === scriptHash);
+  if (!scriptCbor) throw invalid("Transaction does not include the DRep's native script");
+
+  const { invalidHereafter } = decoded.validity;
+  if (invalidHereafter === null) throw invalid('Transaction needs a validity deadline');
+  const expiresAtMs = slotToBeginUnixTime(invalidHereafter, SLOT_CONFIG_NETWORK.mainnet);
+  if (expiresAtMs <= Date.now()) throw invalid('Transaction validity has already ended');
+  if (expiresAtMs > Date.now() + MAX_SESSION_DAYS * 86_400_000) {
+    throw invalid(`Transaction validity may not exceed ${MAX_SESSION_DAYS} days`);
+  }
+
+  const script = decodeNativeScript(scriptCbor);
+  if (signaturesNeeded(script, new Set(), decoded.validity) === Infinity) {
+    throw invalid("The script's time locks cannot be met within this transaction's validity");
+  }
+
+  if (decoded.inputs.length === 0) throw invalid('Transaction has no inputs to pay the fee');
+  let utxoAddresses: Map<string, string>;
+  try {
+    utxoAddresses = await fetchUtxoAddresses(decoded.inputs);
+  } catch (err) {
+    logger.warn('[multisig] Input lookup failed', { error: err });
+    throw new MultisigSessionError('Could not look up the transaction inputs', 503);
+  }
+  const missing = decoded.inputs.find((ref) => !utxoAddresses.has(ref));
+  if (missing) throw invalid(`Input ${missing} is spent or unknown`);
+  let feePayerKeyHashes: string[];
+  try {
+    feePayerKeyHashes = inputKeyHashes(decoded.inputs.map((ref) => utxoAddresses.get(ref)!));
+  } catch (err) {
+    if (err instanceof CborError) throw invalid(err.message);
+    throw err;
+  }
+
+  const creator = addressCredentials(input.creatorAddress);
+  const creatorKeys = [creator?.payment, creator?.stake].flatMap((c) =>
+    c?.kind === 'key' ? [c.hash] : [],
+  );
+  const allowed = new Set([...scriptKeyHashes(script), ...feePayerKeyHashes]);
+  if (!creatorKeys.some((k) => allowed.has(k))) {
+    throw new MultisigSessionError(
+      "Only a co-signer of this DRep or the transaction's fee payer can open a session",
+      403,
+    );
+  }
+
+  const summary: SessionSummary = {
+    votes: decoded.votes,
+    drepUpdate: decoded.drepUpdates[0] ?? null,
+    outputs: decoded.outputs,
+    fee: decoded.fee,
+  };
+
+  const supabase = getSupabaseAdmin();
+  const { data: row, error } = await supabase
+    .from('multisig_signing_sessions')
+    .insert({
+      kind: input.kind,
+      drep_id: input.drepId,
+      script_hash: scriptHash,
+      script_cbor: scriptCbor,
+      unsigned_tx: input.unsignedTx,
+      tx_hash: decoded.txHash,
+      fee_payer_key_hashes: feePayerKeyHashes,
+      invalid_before: decoded.validity.invalidBefore,
+      invalid_hereafter: invalidHereafter,
+      summary: summary as unknown as Json,
+      created_by: input.createdBy ?? null,
+      expires_at: new Date(expiresAtMs).toISOString(),
+    })
+    .select(SESSION_COLUMNS)
+    .single();
+  if (error?.code === '23505') {
+    throw new MultisigSessionError('A session for this transaction already exists', 409);
+  }
+  if (error || !row) throw new Error(error?.message || 'Failed to create signing session');
+
+  if (input.witnesses) {
+    return addSessionWitnesses(row.id, input.witnesses, input.signerAddress);
+  }
+  return toSession(row as SessionRow, []);
+}
+
+/**
+ * Add the witnesses from one co-signer's signTx result. Witnesses from keys
+ * the session does not need are ignored; a bad signature from a needed key
+ * rejects the whole request. Submits the transaction when this completes it.
+ */
+export async function addSessionWitnesses(
+  id: string,
+  signed: string,
+  signerAddress?: string,
+): Promise<SigningSession> {
+  const loaded = await loadSession(id);
+  if (!loaded) throw new MultisigSessionError('Signing session not found', 404);
+  const current = toSession(loaded.row, loaded.witnesses);
+  if (current.status !== 'collecting') {
+    throw new MultisigSessionError(`Signing session is ${current.status}`, 409);
+  }
+
+  let offered: VkeyWitness[];
+  try {
+    offered = extractVkeyWitnesses(signed, current.txHash);
+  } catch (err) {
+    if (err instanceof CborError) throw invalid(err.message);
+    throw err;
+  }
+
+  const wanted = new Set([...current.signers.map((s) => s.keyHash), ...current.feePayerKeyHashes]);
+  const relevant = offered.filter((w) => wanted.has(w.keyHash));
+  if (relevant.length === 0) {
+    throw invalid("None of this wallet's signatures are from a key this session needs");
+  }
+  const forged = relevant.find((w) => !verifyVkeyWitness(w, current.txHash));
+  if (forged) throw invalid(`Invalid signature from key ${forged.keyHash}`);
+
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase.from('multisig_session_witnesses').upsert(
+    relevant.map((w) => ({
+      session_id: id,
+      key_hash: w.keyHash,
+      vkey: w.vkey,
+      signature: w.signature,
+      signer_address: signerAddress ?? null,
+    })),
+    { onConflict: 'session_id,key_hash', ignoreDuplicates: true },
+  );
+  if (error) throw new Error(error.message);
+  await supabase
+    .from('multisig_signing_sessions')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  return submitIfComplete(id);
+}
+
+/**
+ * Submit the session's transaction if it has every signature it needs. A
+ * failed submission (e.g. spent inputs) leaves the session 'failed' with the
+ * node's message; calling this again retries. So does a 'submitting' claim
+ * abandoned mid-submission, once it is older than SUBMIT_CLAIM_TIMEOUT_MS.
+ */
+export async function submitIfComplete(id: string): Promise<SigningSession> {
+  const loaded = await loadSession(id);
+  if (!loaded) throw new MultisigSessionError('Signing session not found', 404);
+  const session = toSession(loaded.row, loaded.witnesses);
+  const retryable = session.status === 'collecting' || session.status === 'failed';
+  if (!retryable || session.signaturesNeeded > 0 || !session.feePayerSigned) return session;
+
+  // Claim the session so concurrent co-signers cannot submit it twice
+  const supabase = getSupabaseAdmin();
+  const staleBefore = new Date(Date.now() - SUBMIT_CLAIM_TIMEOUT_MS).toISOString();
+  const { data: claimed } = await supabase
+    .from('multisig_signing_sessions')
+    .update({ status: 'submitting', error: null, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .or(`status.in.(collecting,failed),and(status.eq.submitting,updated_at.lt.${staleBefore})`)
+    .select('id');
+  if (!claimed?.length) return (await getSigningSession(id)) ?? session;
+
+  let update: { status: string; error: string | null; submitted_at?: string };
+  try {
+    const signedTx = attachVkeyWitnesses(session.unsignedTx, loaded.witnesses.map(toWitness));
+    const txHash = await submitTransaction(signedTx);
+    if (txHash !== session.txHash) {
+      logger.warn('[multisig] Submitted tx hash differs', { id, txHash, expected: session.txHash });
+    }
+    update = { status: 'submitted', error: null, submitted_at: new Date().toISOString() };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    // A lost response or an earlier accepted submit looks like a failure here
+    if (await isTransactionOnChain(session.txHash)) {
+      logger.warn('[multisig] Submission errored but tx is on chain', { id, error: message });
+      update = { status: 'submitted', error: null, submitted_at: new Date().toISOString() };
+    } else {
+      logger.error('[multisig] Submission failed', { id, error: message });
+      update = { status: 'failed', error: message };
+    }
+  }
+
+  await supabase
+    .from('multisig_signing_sessions')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', id);
+  return (await getSigningSession(id)) ?? session;
+}
+
+/** Cancel a session still collecting signatures; only its creator may */
+export async function cancelSigningSession(id: string, userId: string): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from('multisig_signing_sessions')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('created_by', userId)
+    .in('status', ['collecting', 'failed'])
+    .select('id');
+  return !!data?.length;
+}
+
+function toWitness(row: WitnessRow): VkeyWitness {
+  return { keyHash: row.key_hash, vkey: row.vkey, signature: row.signature };
+}
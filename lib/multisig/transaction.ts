@@ -0,0 +1,371 @@
+/**
+ * Server-side reading of multisig governance transactions: what the body does
+ * (so co-signers see what they are asked to sign, derived from the bytes
+ * rather than from whoever created the session), its id, vkey witnesses and
+ * their verification, and splicing collected witnesses into the final
+ * transaction.
+ */
+
+import { createPublicKey, verify } from 'node:crypto';
+import { bech32 } from 'bech32';
+import { blake2b } from 'blakejs';
+import {
+  asArray,
+  asBytesHex,
+  asUint,
+  bytesToHex,
+  CborError,
+  concatBytes,
+  decodeCbor,
+  encodeArray,
+  encodeBytes,
+  encodeHead,
+  encodeMap,
+  hexToBytes,
+  mapGet,
+  untagSet,
+  type CborNode,
+} from './cbor';
+import type { ValidityInterval } from './nativeScript';
+
+export type MultisigTxKind = 'vote' | 'drep_update';
+
+export interface MultisigVote {
+  govActionTxHash: string;
+  govActionIndex: number;
+  vote: 'Yes' | 'No' | 'Abstain';
+  anchorUrl: string | null;
+  anchorHash: string | null;
+}
+
+export interface MultisigDRepUpdate {
+  anchorUrl: string | null;
+  anchorHash: string | null;
+}
+
+export interface MultisigTxOutput {
+  /** Bech32 for Shelley addresses, hex for Byron ones */
+  address: string;
+  lovelace: number;
+  /** Native tokens sent along, counted per asset */
+  assets: number;
+}
+
+export interface DecodedGovernanceTx {
+  /** Transaction id: blake2b-256 of the body bytes */
+  txHash: string;
+  validity: ValidityInterval;
+  /** Spent outputs as "txHash#index" */
+  inputs: string[];
+  outputs: MultisigTxOutput[];
+  /** Lovelace */
+  fee: number;
+  votes: MultisigVote[];
+  drepUpdates: MultisigDRepUpdate[];
+  /** CBOR of the native scripts in the witness set */
+  nativeScripts: string[];
+}
+
+export interface VkeyWitness {
+  /** Ed25519 public key, hex */
+  vkey: string;
+  signature: string;
+  /** blake2b-224 of the public key */
+  keyHash: string;
+}
+
+/** Body fields a vote or DRep update session must not carry */
+const FORBIDDEN_BODY_FIELDS: Record<number, string> = {
+  5: 'withdrawals',
+  9: 'minting',
+  20: 'governance proposals',
+  22: 'treasury donations',
+};
+
+const VOTE_KINDS = ['No', 'Yes', 'Abstain'] as const;
+
+/** Voter tag of a script-credential DRep in voting procedures */
+const DREP_SCRIPT_VOTER = 3;
+/** update_drep_cert */
+const UPDATE_DREP_CERT = 18;
+
+function parseTx(txHex: string): { items: CborNode[]; bytes: Uint8Array } {
+  const bytes = hexToBytes(txHex);
+  const tx = decodeCbor(bytes);
+  if (tx.kind !== 'array' || tx.items.length < 3 || tx.items[0].kind !== 'map') {
+    throw new CborError('Not a transaction');
+  }
+  return { items: tx.items, bytes };
+}
+
+function parseAnchor(node: CborNode | undefined): { url: string | null; hash: string | null } {
+  const anchor = asArray(node);
+  const url = anchor?.[0]?.kind === 'text' ? anchor[0].value : null;
+  return { url, hash: asBytesHex(anchor?.[1]) };
+}
+
+function parseOutput(node: CborNode): MultisigTxOutput {
+  // Legacy outputs are [address, amount, ...], post-Alonzo ones {0: address, 1: amount, ...}
+  const fields = node.kind === 'map' ? [mapGet(node, 0), mapGet(node, 1)] : asArray(node);
+  const [address, amount] = fields ?? [];
+  const value = amount?.kind === 'array' ? amount.items : [amount];
+  if (address?.kind !== 'bytes' || value[0]?.kind !== 'uint') {
+    throw new CborError('Malformed transaction output');
+  }
+  let assets = 0;
+  const multiasset = value[1];
+  if (multiasset?.kind === 'map') {
+    for (const [, names] of multiasset.entries) {
+      if (names.kind === 'map') assets += names.entries.length;
+    }
+  }
+  return { address: encodeAddress(address.value), lovelace: Number(value[0].value), assets };
+}
+
+/**
+ * Decode a governance transaction and check that it only votes or updates as
+ * the given script DRep. Throws a CborError describing the first problem.
+ */
+export function decodeGovernanceTx(
+  txHex: string,
+  kind: MultisigTxKind,
+  scriptHash: string,
+): DecodedGovernanceTx {
+  const { items, bytes } = parseTx(txHex);
+  const body = items[0];
+
+  for (const [field, label] of Object.entries(FORBIDDEN_BODY_FIELDS)) {
+    if (mapGet(body, Number(field))) throw new CborError(`Transaction must not include ${label}`);
+  }
+
+  const votes: MultisigVote[] = [];
+  const procedures = mapGet(body, 19);
+  if (procedures?.kind === 'map') {
+    for (const [voterNode, actions] of procedures.entries) {
+      const voter = asArray(voterNode);
+      if (asUint(voter?.[0]) !== DREP_SCRIPT_VOTER || asBytesHex(voter?.[1]) !== scriptHash) {
+        throw new CborError('Transaction votes as a different voter');
+      }
+      if (actions.kind !== 'map') throw new CborError('Malformed voting procedures');
+      for (const [actionNode, procedureNode] of actions.entries) {
+        const action = asArray(actionNode);
+        const procedure = asArray(procedureNode);
+        const govActionTxHash = asBytesHex(action?.[0]);
+        const govActionIndex = asUint(action?.[1]);
+        const vote = VOTE_KINDS[asUint(procedure?.[0]) ?? -1];
+        if (!govActionTxHash || govActionIndex === null || !vote) {
+          throw new CborError('Malformed voting procedure');
+        }
+        const anchor = parseAnchor(procedure?.[1]);
+        votes.push({
+          govActionTxHash,
+          govActionIndex,
+          vote,
+          anchorUrl: anchor.url,
+          anchorHash: anchor.hash,
+        });
+      }
+    }
+  }
+
+  const drepUpdates: MultisigDRepUpdate[] = [];
+  for (const certNode of asArray(mapGet(body, 4)) ?? []) {
+    const cert = asArray(certNode);
+    const credential = asArray(cert?.[1]);
+    if (
+      asUint(cert?.[0]) !== UPDATE_DREP_CERT ||
+      asUint(credential?.[0]) !== 1 ||
+      asBytesHex(credential?.[1]) !== scriptHash
+    ) {
+      throw new CborError('Transaction carries an unexpected certificate');
+    }
+    const anchor = parseAnchor(cert?.[2]);
+    drepUpdates.push({ anchorUrl: anchor.url, anchorHash: anchor.hash });
+  }
+
+  const inputs = (asArray(mapGet(body, 0)) ?? []).map((node) => {
+    const input = asArray(node);
+    const txHash = asBytesHex(input?.[0]);
+    const index = asUint(input?.[1]);
+    if (!txHash || index === null) throw new CborError('Malformed transaction input');
+    return `${txHash}#${index}`;
+  });
+  const fee = asUint(mapGet(body, 2));
+  if (fee === null) throw new CborError('Transaction has no fee');
+
+  if (kind === 'vote' && (votes.length === 0 || drepUpdates.length > 0)) {
+    throw new CborError('Vote sessions need a transaction with only DRep votes');
+  }
+  if (kind === 'drep_update' && (drepUpdates.length !== 1 || votes.length > 0)) {
+    throw new CborError('Update sessions need a transaction with one DRep update certificate');
+  }
+
+  return {
+    txHash: bytesToHex(blake2b(bytes.subarray(body.start, body.end), undefined, 32)),
+    validity: {
+      invalidBefore: asUint(mapGet(body, 8)),
+      invalidHereafter: asUint(mapGet(body, 3)),
+    },
+    inputs,
+    outputs: (asArray(mapGet(body, 1)) ?? []).map(parseOutput),
+    fee,
+    votes,
+    drepUpdates,
+    nativeScripts: (asArray(mapGet(untagSet(items[1]), 1)) ?? []).map((n) =>
+      bytesToHex(bytes.subarray(n.start, n.end)),
+    ),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Addresses
+// ---------------------------------------------------------------------------
+
+export interface AddressCredential {
+  kind: 'key' | 'script';
+  hash: string;
+}
+
+/** Bech32 form of raw address bytes; Byron addresses stay hex */
+export function encodeAddress(bytes: Uint8Array): string {
+  const type = bytes[0] >> 4;
+  if (type > 7 && type < 14) return bytesToHex(bytes);
+  const mainnet = (bytes[0] & 0x0f) === 1;
+  const prefix = type >= 14 ? 'stake' : 'addr';
+  return bech32.encode(mainnet ? prefix : `${prefix}_test`, bech32.toWords(bytes), 1023);
+}
+
+/**
+ * Payment and stake credentials of a bech32 Shelley address (header types
+ * 0-7, or 14-15 for stake addresses); null for anything else.
+ */
+export function addressCredentials(
+  address: string,
+): { payment: AddressCredential | null; stake: AddressCredential | null } | null {
+  let bytes: Uint8Array;
+  try {
+    bytes = new Uint8Array(bech32.fromWords(bech32.decode(address, 1023).words));
+  } catch {
+    return null;
+  }
+  const type = bytes[0] >> 4;
+  const credential = (isScript: boolean, from: number): AddressCredential | null =>
+    bytes.length >= from + 28
+      ? { kind: isScript ? 'script' : 'key', hash: bytesToHex(bytes.subarray(from, from + 28)) }
+      : null;
+  if (type === 14 || type === 15) return { payment: null, stake: credential(type === 15, 1) };
+  if (type > 7) return null;
+  return {
+    payment: credential((type & 1) === 1, 1),
+    stake: type < 4 ? credential((type & 2) === 2, 29) : null,
+  };
+}
+
+/**
+ * Payment key hashes that must witness a transaction spending from these
+ * addresses. Script-locked inputs are refused: the co-signers' keys may also
+ * satisfy a script that holds funds (the DRep's own, for one), and their
+ * witnesses would then spend from it.
+ */
+export function inputKeyHashes(addresses: string[]): string[] {
+  const hashes = new Set<string>();
+  for (const address of addresses) {
+    const payment = addressCredentials(address)?.payment;
+    if (!payment) throw new CborError('Transaction spends from an unsupported address');
+    if (payment.kind === 'script') {
+      throw new CborError('Transaction may only spend inputs locked by payment keys');
+    }
+    hashes.add(payment.hash);
+  }
+  return [...hashes];
+}
+
+/** Transaction id of a transaction, from its body bytes */
+export function transactionHash(txHex: string): string {
+  const { items, bytes } = parseTx(txHex);
+  return bytesToHex(blake2b(bytes.subarray(items[0].start, items[0].end), undefined, 32));
+}
+
+function vkeyWitnessesOf(witnessSet: CborNode): VkeyWitness[] {
+  return (asArray(mapGet(witnessSet, 0)) ?? []).map((node) => {
+    const pair = asArray(node);
+    const vkey = pair?.[0];
+    const signature = asBytesHex(pair?.[1]);
+    if (vkey?.kind !== 'bytes' || vkey.value.length !== 32 || !signature) {
+      throw new CborError('Malformed vkey witness');
+    }
+    return {
+      vkey: bytesToHex(vkey.value),
+      signature,
+      keyHash: bytesToHex(blake2b(vkey.value, undefined, 28)),
+    };
+  });
+}
+
+/**
+ * Vkey witnesses from what a CIP-30 wallet returns for signTx: a witness set,
+ * or (from some wallet wrappers) the whole signed transaction. A full
+ * transaction must carry the same body as the session's.
+ */
+export function extractVkeyWitnesses(hex: string, expectedTxHash: string): VkeyWitness[] {
+  const node = decodeCbor(hexToBytes(hex));
+  if (node.kind === 'map') return vkeyWitnessesOf(node);
+  if (node.kind === 'array' && node.items[0]?.kind === 'map' && node.items[1]) {
+    if (transactionHash(hex) !== expectedTxHash) {
+      throw new CborError('Signed transaction does not match the session transaction');
+    }
+    return vkeyWitnessesOf(node.items[1]);
+  }
+  throw new CborError('Not a witness set or transaction');
+}
+
+/** Ed25519 check of a witness over the transaction id */
+export function verifyVkeyWitness(witness: VkeyWitness, txHash: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        x: Buffer.from(witness.vkey, 'hex').toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    return verify(null, Buffer.from(txHash, 'hex'), key, Buffer.from(witness.signature, 'hex'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Add vkey witnesses to a transaction. The body and every other witness-set
+ * field are copied byte for byte; witnesses already present are kept.
+ */
+export function attachVkeyWitnesses(txHex: string, witnesses: VkeyWitness[]): string {
+  const { items, bytes } = parseTx(txHex);
+  const raw = (node: CborNode) => bytes.subarray(node.start, node.end);
+  const witnessSet = untagSet(items[1]);
+  if (witnessSet.kind !== 'map') throw new CborError('Malformed witness set');
+
+  const byVkey = new Map<string, VkeyWitness>();
+  for (const w of [...vkeyWitnessesOf(witnessSet), ...witnesses]) byVkey.set(w.vkey, w);
+  const vkeys = encodeArray(
+    [...byVkey.values()].map((w) =>
+      encodeArray([encodeBytes(hexToBytes(w.vkey)), encodeBytes(hexToBytes(w.signature))]),
+    ),
+  );
+
+  const entries: Array<[Uint8Array, Uint8Array]> = [[encodeHead(0, 0), vkeys]];
+  for (const [key, value] of witnessSet.entries) {
+    if (key.kind === 'uint' && key.value === 0) continue;
+    entries.push([raw(key), raw(value)]);
+  }
+
+  return bytesToHex(
+    concatBytes([
+      encodeHead(4, items.length),
+      raw(items[0]),
+      encodeMap(entries),
+      ...items.slice(2).map(raw),
+    ]),
+  );
+}
@@ -23,6 +23,8 @@ export interface EventDefinition {
   description: string;
   defaultChannels: Channel[];
   channels: Channel[];
+  /** Also published to API-key webhook subscriptions (the public webhook catalog) */
+  webhook?: boolean;
 }
 
 export const EVENT_REGISTRY: EventDefinition[] = [
@@ -178,6 +180,7 @@ export const EVENT_REGISTRY: EventDefinition[] = [
     description: 'When your DRep votes on a proposal',
     defaultChannels: ['email'],
     channels: ['push', 'email', 'discord', 'telegram'],
+    webhook: true,
   },
   {
     key: 'drep-score-change',
@@ -188,6 +191,7 @@ export const EVENT_REGISTRY: EventDefinition[] = [
     description: "When your DRep's score changes significantly",
     defaultChannels: ['email'],
     channels: ['push', 'email', 'discord', 'telegram'],
+    webhook: true,
   },
   {
     key: 'drep-missed-vote',
@@ -354,6 +358,7 @@ export const EVENT_REGISTRY: EventDefinition[] = [
     description: 'When your governance tier changes (e.g., Silver → Gold)',
     defaultChannels: ['push', 'email'],
     channels: ['push', 'email', 'discord', 'telegram'],
+    webhook: true,
   },
 
   // ── SPO Notifications (Phase A) ───────────────────────────────────────────
@@ -366,6 +371,7 @@ export const EVENT_REGISTRY: EventDefinition[] = [
     description: 'When your pool governance tier changes',
     defaultChannels: ['push', 'email'],
     channels: ['push', 'email', 'discord'],
+    webhook: true,
   },
   {
     key: 'spo-inactivity',
@@ -410,6 +416,52 @@ export const EVENT_REGISTRY: EventDefinition[] = [
     channels: ['push', 'email'],
   },
 
+  // ── Webhook (machine-readable, delivered to API-key subscriptions) ────────
+  {
+    key: 'proposal-new',
+    category: 'ecosystem',
+    audience: 'all',
+    urgency: 'realtime',
+    label: 'New Proposal',
+    description: 'A governance action was submitted on-chain',
+    defaultChannels: [],
+    channels: [],
+    webhook: true,
+  },
+  {
+    key: 'proposal-ratified',
+    category: 'ecosystem',
+    audience: 'all',
+    urgency: 'realtime',
+    label: 'Proposal Ratified',
+    description: 'A governance action was ratified',
+    defaultChannels: [],
+    channels: [],
+    webhook: true,
+  },
+  {
+    key: 'proposal-expired',
+    category: 'ecosystem',
+    audience: 'all',
+    urgency: 'realtime',
+    label: 'Proposal Expired',
+    description: 'A governance action expired without ratification',
+    defaultChannels: [],
+    channels: [],
+    webhook: true,
+  },
+  {
+    key: 'treasury-withdrawal-enacted',
+    category: 'ecosystem',
+    audience: 'all',
+    urgency: 'realtime',
+    label: 'Treasury Withdrawal Enacted',
+    description: 'A treasury withdrawal was enacted and paid out',
+    defaultChannels: [],
+    channels: [],
+    webhook: true,
+  },
+
   // ── System (not user-visible in preferences) ──────────────────────────────
   {
     key: 'profile-view',
@@ -447,15 +499,21 @@ export function getEventsByCategory(category: EventCategory): EventDefinition[]
   return EVENT_REGISTRY.filter((e) => e.category === category);
 }
 
-/** Events suitable for user-facing preferences UI (excludes system-only events) */
+/** Events suitable for user-facing preferences UI (excludes system-only and webhook-only events) */
 export function getUserFacingEvents(isDRep: boolean): EventDefinition[] {
   return EVENT_REGISTRY.filter((e) => {
     if (e.key === 'profile-view' || e.key === 'api-health-alert') return false;
+    if (e.channels.length === 0) return false;
     if (e.audience === 'drep' && !isDRep) return false;
     return true;
   });
 }
 
+/** Events that API-key webhook subscriptions can receive — the public webhook catalog */
+export function getWebhookEvents(): EventDefinition[] {
+  return EVENT_REGISTRY.filter((e) => e.webhook);
+}
+
 /** All valid event keys for type checking */
 export type EventKey = (typeof EVENT_REGISTRY)[number]['key'];
 
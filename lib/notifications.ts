@@ -17,6 +17,7 @@ import { logger } from '@/lib/logger';
 
 import { type NotificationPayload, renderDiscord, renderTelegram } from './channelRenderers';
 import { type Channel } from './notificationRegistry';
+import { getUserLocale } from './i18n/server';
 import { sendPushToUser } from './push';
 import { getSupabaseAdmin } from './supabase';
 
@@ -173,7 +174,7 @@ export async function notifyUser(
   userId: string,
   event: NotificationEvent | NotificationPayload,
 ): Promise<void> {
-  const payload = toPayload(event);
+  let payload = toPayload(event);
   const supabase = getSupabaseAdmin();
 
   const { data: prefs } = await supabase
@@ -186,6 +187,7 @@ export async function notifyUser(
   if (!prefs || prefs.length === 0) return;
 
   const enabledChannels = new Set(prefs.map((p) => p.channel as Channel));
+  if (!payload.locale) payload = { ...payload, locale: await getUserLocale(userId) };
 
   // For push and email, we don't require a user_channels entry —
   // push reads users.push_subscriptions, email reads users.email
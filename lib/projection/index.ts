@@ -0,0 +1,604 @@
+/**
+ * Proposal Outcome Projections — loads model inputs for every open proposal,
+ * runs lib/projection/model and stores the result in proposal_projections.
+ *
+ * Computed by compute-outcome-projections after each proposals sync; the
+ * proposal page and /api/v1/proposals read the stored rows.
+ */
+
+import { createClient, getSupabaseAdmin } from '@/lib/supabase';
+import { fetchAll } from '@/lib/sync-utils';
+import { getGovernanceThresholds, PROPOSAL_TYPE_THRESHOLD_MAP } from '@/lib/data';
+import { findSimilarByClassification } from '@/lib/proposalSimilarity';
+import { blockTimeToEpoch } from '@/lib/koios';
+import {
+  CC_APPROVAL_THRESHOLD,
+  PROJECTION_MODEL_VERSION,
+  SPO_THRESHOLD_PARAMS,
+  buildTimingCurve,
+  hashSeed,
+  projectOutcome,
+  requiredBodies,
+  windowProgress,
+  type BodyInputs,
+  type BodyProjection,
+  type GovernanceBody,
+  type PastVote,
+  type ProjectionVoter,
+  type VoteChoice,
+} from './model';
+
+export * from './model';
+
+/** Similar proposals consulted for each voter's history */
+const SIMILAR_LIMIT = 10;
+/** Below this many similar proposals, fall back to recent proposals of the same type */
+const MIN_REFERENCE_PROPOSALS = 3;
+const SAME_TYPE_SIMILARITY = 0.5;
+/** Participation and vote timing are measured over proposals from this many epochs back */
+const LOOKBACK_EPOCHS = 36;
+/** Pseudo-proposals behind a voter's participation rate, at the body average */
+const PARTICIPATION_PRIOR = 2;
+/** Used when no threshold could be loaded from epoch_params */
+const DEFAULT_DREP_THRESHOLD = 0.67;
+const DEFAULT_SPO_THRESHOLD = 0.51;
+
+/** Alignment dimensions and whether a high score means voting Yes on relevant proposals */
+const ALIGNMENT_DIRECTIONS = [
+  ['treasury_conservative', -1],
+  ['treasury_growth', 1],
+  ['decentralization', 1],
+  ['security', 1],
+  ['innovation', 1],
+] as const;
+
+type AdminClient = ReturnType<typeof getSupabaseAdmin>;
+
+interface ProposalRow {
+  tx_hash: string;
+  proposal_index: number;
+  proposal_type: string;
+  proposed_epoch: number | null;
+  expiration_epoch: number | null;
+  ratified_epoch: number | null;
+  enacted_epoch: number | null;
+  dropped_epoch: number | null;
+  expired_epoch: number | null;
+  param_changes: unknown;
+}
+
+interface BodyVote {
+  voterId: string;
+  key: string;
+  vote: VoteChoice;
+  epoch: number;
+}
+
+type AlignmentRow = Partial<Record<`alignment_${string}`, number | null>>;
+
+export interface ProposalProjection {
+  txHash: string;
+  proposalIndex: number;
+  epoch: number;
+  probability: number;
+  probabilityLow: number;
+  probabilityHigh: number;
+  bodies: BodyProjection[];
+  modelVersion: string;
+  computedAt: string;
+}
+
+const proposalKey = (txHash: string, index: number) => `${txHash}-${index}`;
+
+function isOpen(p: ProposalRow, currentEpoch: number): boolean {
+  return (
+    p.ratified_epoch == null &&
+    p.enacted_epoch == null &&
+    p.dropped_epoch == null &&
+    p.expired_epoch == null &&
+    p.expiration_epoch != null &&
+    p.expiration_epoch >= currentEpoch
+  );
+}
+
+function asVote(v: string): VoteChoice | null {
+  return v === 'Yes' || v === 'No' || v === 'Abstain' ? v : null;
+}
+
+/** −1…1 lean from a voter's alignment scores (0–100, 50 neutral) and a proposal's dimension relevance (0–1) */
+export function alignmentLean(
+  alignment: AlignmentRow,
+  dims: Record<string, number> | undefined,
+): number | null {
+  if (!dims) return null;
+  let sum = 0;
+  let weight = 0;
+  for (const [dim, direction] of ALIGNMENT_DIRECTIONS) {
+    const relevance = dims[dim] ?? 0;
+    const score = alignment[`alignment_${dim}`];
+    if (relevance <= 0 || score == null) continue;
+    sum += relevance * direction * ((score - 50) / 50);
+    weight += relevance;
+  }
+  return weight > 0 ? sum / weight : null;
+}
+
+async function loadVotes(supabase: AdminClient): Promise<Record<GovernanceBody, BodyVote[]>> {
+  const [drep, spo, cc] = await Promise.all([
+    fetchAll<{
+      drep_id: string;
+      proposal_tx_hash: string;
+      proposal_index: number;
+      vote: string;
+      block_time: number;
+    }>(
+      supabase
+        .from('drep_votes')
+        .select('drep_id, proposal_tx_hash, proposal_index, vote, block_time')
+        .order('block_time', { ascending: true }),
+    ),
+    fetchAll<{
+      pool_id: string;
+      proposal_tx_hash: string;
+      proposal_index: number;
+      vote: string;
+      epoch: number;
+    }>(
+      supabase
+        .from('spo_votes')
+        .select('pool_id, proposal_tx_hash, proposal_index, vote, epoch')
+        .order('block_time', { ascending: true }),
+    ),
+    fetchAll<{
+      cc_hot_id: string;
+      proposal_tx_hash: string;
+      proposal_index: number;
+      vote: string;
+      epoch: number;
+    }>(
+      supabase
+        .from('cc_votes')
+        .select('cc_hot_id, proposal_tx_hash, proposal_index, vote, epoch')
+        .order('block_time', { ascending: true }),
+    ),
+  ]);
+
+  const toBodyVotes = <
+    T extends { proposal_tx_hash: string; proposal_index: number; vote: string },
+  >(
+    rows: T[],
+    voterId: (r: T) => string,
+    epoch: (r: T) => number,
+  ): BodyVote[] =>
+    rows.flatMap((r) => {
+      const vote = asVote(r.vote);
+      return vote
+        ? [
+            {
+              voterId: voterId(r),
+              key: proposalKey(r.proposal_tx_hash, r.proposal_index),
+              vote,
+              epoch: epoch(r),
+            },
+          ]
+        : [];
+    });
+
+  return {
+    drep: toBodyVotes(
+      drep,
+      (r) => r.drep_id,
+      (r) => blockTimeToEpoch(r.block_time),
+    ),
+    spo: toBodyVotes(
+      spo,
+      (r) => r.pool_id,
+      (r) => r.epoch,
+    ),
+    cc: toBodyVotes(
+      cc,
+      (r) => r.cc_hot_id,
+      (r) => r.epoch,
+    ),
+  };
+}
+
+/** Latest vote per voter per proposal (rows arrive oldest first, so re-votes win) */
+function indexVotes(votes: BodyVote[]): Map<string, Map<string, BodyVote>> {
+  const byVoter = new Map<string, Map<string, BodyVote>>();
+  for (const v of votes) {
+    let voter = byVoter.get(v.voterId);
+    if (!voter) {
+      voter = new Map();
+      byVoter.set(v.voterId, voter);
+    }
+    voter.set(v.key, v);
+  }
+  return byVoter;
+}
+
+/**
+ * Share of closed proposals each voter voted on, among those the body voted
+ * on within the lookback window. Counting starts at a voter's first vote so
+ * newcomers are not penalised; thin records shrink towards the body average.
+ * `silent` is the rate for a voter with no votes at all in the window.
+ */
+function participationRates(
+  byVoter: Map<string, Map<string, BodyVote>>,
+  closed: ProposalRow[],
+  currentEpoch: number,
+): { rates: Map<string, number>; silent: number } {
+  const votedKeys = new Set<string>();
+  for (const votes of byVoter.values()) for (const k of votes.keys()) votedKeys.add(k);
+  const eligible = closed.filter(
+    (p) =>
+      votedKeys.has(proposalKey(p.tx_hash, p.proposal_index)) &&
+      (p.proposed_epoch ?? 0) >= currentEpoch - LOOKBACK_EPOCHS,
+  );
+
+  const raw = new Map<string, { voted: number; eligible: number }>();
+  for (const [voterId, votes] of byVoter) {
+    const firstEpoch = Math.min(...[...votes.values()].map((v) => v.epoch));
+    const mine = eligible.filter((p) => (p.expiration_epoch ?? Infinity) >= firstEpoch);
+    const voted = mine.filter((p) => votes.has(proposalKey(p.tx_hash, p.proposal_index))).length;
+    raw.set(voterId, { voted, eligible: mine.length });
+  }
+
+  const totals = [...raw.values()].reduce(
+    (s, r) => ({ voted: s.voted + r.voted, eligible: s.eligible + r.eligible }),
+    { voted: 0, eligible: 0 },
+  );
+  const average = totals.eligible > 0 ? totals.voted / totals.eligible : 0.5;
+  const rates = new Map<string, number>();
+  for (const [voterId, r] of raw) {
+    rates.set(
+      voterId,
+      (r.voted + PARTICIPATION_PRIOR * average) / (r.eligible + PARTICIPATION_PRIOR),
+    );
+  }
+  const silent = (PARTICIPATION_PRIOR * average) / (eligible.length + PARTICIPATION_PRIOR);
+  return { rates, silent };
+}
+
+/** Where in their window historical votes were cast, across all bodies */
+function timingSamples(
+  votes: BodyVote[],
+  closedByKey: Map<string, ProposalRow>,
+  currentEpoch: number,
+): number[] {
+  const samples: number[] = [];
+  const seen = new Set<string>();
+  for (const v of votes) {
+    const p = closedByKey.get(v.key);
+    if (!p || p.proposed_epoch == null || p.expiration_epoch == null) continue;
+    if (p.proposed_epoch < currentEpoch - LOOKBACK_EPOCHS) continue;
+    const first = `${v.voterId}|${v.key}`;
+    if (seen.has(first)) continue;
+    seen.add(first);
+    samples.push(windowProgress(p.proposed_epoch, p.expiration_epoch, v.epoch));
+  }
+  return samples;
+}
+
+/** Similar proposals with similarity scores, topped up with recent same-type proposals */
+async function referenceProposals(
+  proposal: ProposalRow,
+  closed: ProposalRow[],
+): Promise<Map<string, number>> {
+  const refs = new Map<string, number>();
+  const similar = await findSimilarByClassification(
+    proposal.tx_hash,
+    proposal.proposal_index,
+    SIMILAR_LIMIT,
+  );
+  for (const s of similar) refs.set(proposalKey(s.txHash, s.index), s.similarityScore);
+
+  if (refs.size < MIN_REFERENCE_PROPOSALS) {
+    const sameType = closed
+      .filter((p) => p.proposal_type === proposal.proposal_type)
+      .sort((a, b) => (b.proposed_epoch ?? 0) - (a.proposed_epoch ?? 0));
+    for (const p of sameType) {
+      if (refs.size >= SIMILAR_LIMIT) break;
+      const key = proposalKey(p.tx_hash, p.proposal_index);
+      if (!refs.has(key)) refs.set(key, SAME_TYPE_SIMILARITY);
+    }
+  }
+  return refs;
+}
+
+function history(votes: Map<string, BodyVote> | undefined, refs: Map<string, number>): PastVote[] {
+  if (!votes) return [];
+  const past: PastVote[] = [];
+  for (const [key, similarity] of refs) {
+    const v = votes.get(key);
+    if (v) past.push({ vote: v.vote, similarity });
+  }
+  return past;
+}
+
+/**
+ * Project every open proposal and upsert the results. Returns the number of
+ * proposals projected and those skipped (InfoActions and unknown types).
+ */
+export async function computeOutcomeProjections(
+  currentEpoch: number,
+): Promise<{ projected: number; skipped: number }> {
+  const supabase = getSupabaseAdmin();
+
+  const [proposals, classifications, dreps, pools, ccMembers, summaries, thresholds, votes] =
+    await Promise.all([
+      fetchAll<ProposalRow>(
+        supabase
+          .from('proposals')
+          .select(
+            'tx_hash, proposal_index, proposal_type, proposed_epoch, expiration_epoch, ratified_epoch, enacted_epoch, dropped_epoch, expired_epoch, param_changes',
+          ),
+      ),
+      fetchAll<Record<string, string | number | null>>(
+        supabase
+          .from('proposal_classifications')
+          .select(
+            'proposal_tx_hash, proposal_index, dim_treasury_conservative, dim_treasury_growth, dim_decentralization, dim_security, dim_innovation',
+          ),
+      ),
+      fetchAll<{ id: string; info: unknown; participation_rate: number | null } & AlignmentRow>(
+        supabase
+          .from('dreps')
+          .select(
+            'id, info, participation_rate, alignment_treasury_conservative, alignment_treasury_growth, alignment_decentralization, alignment_security, alignment_innovation',
+          ),
+      ),
+      fetchAll<{ pool_id: string; live_stake_lovelace: number | null } & AlignmentRow>(
+        supabase
+          .from('pools')
+          .select(
+            'pool_id, live_stake_lovelace, alignment_treasury_conservative, alignment_treasury_growth, alignment_decentralization, alignment_security, alignment_innovation',
+          ),
+      ),
+      fetchAll<{ cc_hot_id: string; status: string | null; expiration_epoch: number | null }>(
+        supabase.from('cc_members').select('cc_hot_id, status, expiration_epoch'),
+      ),
+      fetchAll<{
+        proposal_tx_hash: string;
+        proposal_index: number;
+        drep_always_no_confidence_power: number | null;
+      }>(
+        supabase
+          .from('proposal_voting_summary')
+          .select('proposal_tx_hash, proposal_index, drep_always_no_confidence_power'),
+      ),
+      getGovernanceThresholds(),
+      loadVotes(supabase),
+    ]);
+
+  const open = proposals.filter((p) => isOpen(p, currentEpoch));
+  const closed = proposals.filter(
+    (p) => !isOpen(p, currentEpoch) && p.proposal_type !== 'InfoAction',
+  );
+  const closedByKey = new Map(closed.map((p) => [proposalKey(p.tx_hash, p.proposal_index), p]));
+
+  const dimsByKey = new Map<string, Record<string, number>>();
+  for (const c of classifications) {
+    const dims: Record<string, number> = {};
+    for (const [dim] of ALIGNMENT_DIRECTIONS) dims[dim] = Number(c[`dim_${dim}`]) || 0;
+    dimsByKey.set(proposalKey(String(c.proposal_tx_hash), Number(c.proposal_index)), dims);
+  }
+  const summaryByKey = new Map(
+    summaries.map((s) => [proposalKey(s.proposal_tx_hash, s.proposal_index), s]),
+  );
+
+  const timingCurve = buildTimingCurve(
+    timingSamples([...votes.drep, ...votes.spo, ...votes.cc], closedByKey, currentEpoch),
+  );
+
+  const bodyIndex = {
+    drep: indexVotes(votes.drep),
+    spo: indexVotes(votes.spo),
+    cc: indexVotes(votes.cc),
+  };
+  const participation = {
+    drep: participationRates(bodyIndex.drep, closed, currentEpoch),
+    spo: participationRates(bodyIndex.spo, closed, currentEpoch),
+    cc: participationRates(bodyIndex.cc, closed, currentEpoch),
+  };
+
+  // Electorates. Inactive DReps carry no active stake under CIP-1694.
+  const drepElectorate = dreps.flatMap((d) => {
+    const info = (d.info ?? {}) as { isActive?: boolean; votingPowerLovelace?: string | number };
+    const weight = Number(info.votingPowerLovelace) || 0;
+    return info.isActive && weight > 0 ? [{ id: d.id, weight, alignment: d as AlignmentRow }] : [];
+  });
+  const drepParticipation = new Map(
+    dreps
+      .filter((d) => d.participation_rate != null)
+      .map((d) => [d.id, d.participation_rate! / 100]),
+  );
+  const spoElectorate = pools.flatMap((p) =>
+    (p.live_stake_lovelace ?? 0) > 0
+      ? [{ id: p.pool_id, weight: p.live_stake_lovelace!, alignment: p as AlignmentRow }]
+      : [],
+  );
+  const ccElectorate = ccMembers
+    .filter(
+      (m) =>
+        m.status === 'authorized' &&
+        (m.expiration_epoch == null || m.expiration_epoch >= currentEpoch),
+    )
+    .map((m) => ({ id: m.cc_hot_id, weight: 1, alignment: {} as AlignmentRow }));
+
+  const electorates = { drep: drepElectorate, spo: spoElectorate, cc: ccElectorate };
+
+  function threshold(body: GovernanceBody, proposalType: string): number {
+    if (body === 'cc') return CC_APPROVAL_THRESHOLD;
+    const param =
+      body === 'drep'
+        ? PROPOSAL_TYPE_THRESHOLD_MAP[proposalType]
+        : SPO_THRESHOLD_PARAMS[proposalType];
+    const value = param ? thresholds?.[param] : undefined;
+    if (value != null) return value;
+    return body === 'drep' ? DEFAULT_DREP_THRESHOLD : DEFAULT_SPO_THRESHOLD;
+  }
+
+  const rows = [];
+  let skipped = 0;
+
+  for (const proposal of open) {
+    const bodies = requiredBodies(
+      proposal.proposal_type,
+      proposal.param_changes as Record<string, unknown> | null,
+    );
+    if (bodies.length === 0) {
+      skipped++;
+      continue;
+    }
+
+    const key = proposalKey(proposal.tx_hash, proposal.proposal_index);
+    const refs = await referenceProposals(proposal, closed);
+    const dims = dimsByKey.get(key);
+
+    const inputs: BodyInputs[] = bodies.map((body) => {
+      const index = bodyIndex[body];
+      const rates = participation[body];
+      const voters: ProjectionVoter[] = electorates[body].map((e) => {
+        const mine = index.get(e.id);
+        return {
+          id: e.id,
+          weight: e.weight,
+          cast: mine?.get(key)?.vote ?? null,
+          participation:
+            (body === 'drep' ? drepParticipation.get(e.id) : undefined) ??
+            rates.rates.get(e.id) ??
+            rates.silent,
+          history: history(mine, refs),
+          alignmentLean: alignmentLean(e.alignment, dims),
+        };
+      });
+
+      const alwaysNoConfidence =
+        body === 'drep' ? Number(summaryByKey.get(key)?.drep_always_no_confidence_power) || 0 : 0;
+      const noConfidenceMotion = proposal.proposal_type === 'NoConfidence';
+      return {
+        body,
+        threshold: threshold(body, proposal.proposal_type),
+        voters,
+        fixedYes: noConfidenceMotion ? alwaysNoConfidence : 0,
+        fixedNo: noConfidenceMotion ? 0 : alwaysNoConfidence,
+      };
+    });
+
+    const progress = windowProgress(
+      proposal.proposed_epoch ?? currentEpoch,
+      proposal.expiration_epoch!,
+      currentEpoch,
+    );
+    const result = projectOutcome(inputs, {
+      progress,
+      timingCurve,
+      seed: hashSeed(`${key}-${currentEpoch}`),
+    });
+
+    rows.push({
+      proposal_tx_hash: proposal.tx_hash,
+      proposal_index: proposal.proposal_index,
+      epoch_no: currentEpoch,
+      probability: result.probability,
+      probability_low: result.probabilityLow,
+      probability_high: result.probabilityHigh,
+      bodies: JSON.parse(JSON.stringify(result.bodies)),
+      inputs: {
+        progress: Math.round(progress * 1000) / 1000,
+        referenceProposals: refs.size,
+        voters: Object.fromEntries(inputs.map((b) => [b.body, b.voters.length])),
+      },
+      runs: result.runs,
+      model_version: PROJECTION_MODEL_VERSION,
+      computed_at: new Date().toISOString(),
+    });
+  }
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('proposal_projections')
+      .upsert(rows, { onConflict: 'proposal_tx_hash,proposal_index' });
+    if (error) throw new Error(`proposal_projections upsert: ${error.message}`);
+  }
+
+  return { projected: rows.length, skipped };
+}
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+interface ProjectionRow {
+  proposal_tx_hash: string;
+  proposal_index: number;
+  epoch_no: number;
+  probability: number;
+  probability_low: number;
+  probability_high: number;
+  bodies: unknown;
+  model_version: string;
+  computed_at: string;
+}
+
+const PROJECTION_COLUMNS =
+  'proposal_tx_hash, proposal_index, epoch_no, probability, probability_low, probability_high, bodies, model_version, computed_at';
+
+function toProjection(row: ProjectionRow): ProposalProjection {
+  return {
+    txHash: row.proposal_tx_hash,
+    proposalIndex: row.proposal_index,
+    epoch: row.epoch_no,
+    probability: Number(row.probability),
+    probabilityLow: Number(row.probability_low),
+    probabilityHigh: Number(row.probability_high),
+    bodies: row.bodies as BodyProjection[],
+    modelVersion: row.model_version,
+    computedAt: row.computed_at,
+  };
+}
+
+export async function getProposalProjection(
+  txHash: string,
+  proposalIndex: number,
+): Promise<ProposalProjection | null> {
+  const supabase = createClient();
+  const { data } = await supabase
+    .from('proposal_projections')
+    .select(PROJECTION_COLUMNS)
+    .eq('proposal_tx_hash', txHash)
+    .eq('proposal_index', proposalIndex)
+    .maybeSingle();
+  return data ? toProjection(data as ProjectionRow) : null;
+}
+
+/** All stored projections keyed by `${txHash}-${index}` */
+export async function getProposalProjections(): Promise<Map<string, ProposalProjection>> {
+  const supabase = createClient();
+  const rows = await fetchAll<ProjectionRow>(
+    supabase.from('proposal_projections').select(PROJECTION_COLUMNS),
+  );
+  return new Map(
+    rows.map((r) => [proposalKey(r.proposal_tx_hash, r.proposal_index), toProjection(r)]),
+  );
+}
+
+/** snake_case shape served by /api/v1/proposals */
+export function toApiProjection(p: ProposalProjection) {
+  return {
+    probability: p.probability,
+    band: { low: p.probabilityLow, high: p.probabilityHigh },
+    bodies: p.bodies.map((b) => ({
+      body: b.body,
+      threshold: b.threshold,
+      current_yes_share: b.currentYesShare,
+      projected_yes_share: b.projectedYesShare,
+      pass_probability: b.passProbability,
+      undecided_share: b.undecidedShare,
+    })),
+    epoch: p.epoch,
+    model_version: p.modelVersion,
+    computed_at: p.computedAt,
+  };
+}
@@ -0,0 +1,429 @@
+/**
+ * Proposal Outcome Projection — Monte Carlo model of how an open governance
+ * action is likely to finish. Pure; lib/projection/index.ts loads the inputs.
+ *
+ * Each required body (DReps, SPOs, CC) is simulated voter by voter. Cast votes
+ * stand. For everyone else, the chance of still voting before expiry comes
+ * from their participation rate and how far through the voting window the
+ * proposal is; the direction comes from their votes on similar proposals,
+ * shrunk towards a prior built from their alignment and the split so far.
+ * A sentiment shock shared by every voter in a run correlates the electorate,
+ * so the bands cover a swing in mood, not just independent coin flips.
+ *
+ * Ratios follow CIP-1694: abstentions leave the denominator and active
+ * non-voters count against. Inactive DReps and always-abstain stake are left
+ * out by the caller; always-no-confidence stake arrives as fixed No (Yes on a
+ * NoConfidence motion).
+ */
+
+export type VoteChoice = 'Yes' | 'No' | 'Abstain';
+export type GovernanceBody = 'drep' | 'spo' | 'cc';
+
+export const PROJECTION_MODEL_VERSION = 'v1';
+
+/** Constitutional Committee approval threshold (mainnet committee quorum) */
+export const CC_APPROVAL_THRESHOLD = 2 / 3;
+
+/** Koios epoch_params keys for SPO thresholds, by action type */
+export const SPO_THRESHOLD_PARAMS: Record<string, string> = {
+  NoConfidence: 'pvt_motion_no_confidence',
+  NewCommittee: 'pvt_committee_normal',
+  NewConstitutionalCommittee: 'pvt_committee_normal',
+  HardForkInitiation: 'pvt_hard_fork_initiation',
+  ParameterChange: 'pvt_p_p_security_group',
+};
+
+/** Protocol parameters in the security group — changing any of them needs SPO approval */
+export const SECURITY_GROUP_PARAMS = new Set([
+  'max_block_size',
+  'max_block_body_size',
+  'max_tx_size',
+  'max_bh_size',
+  'max_block_header_size',
+  'max_val_size',
+  'max_block_ex_mem',
+  'max_block_ex_steps',
+  'max_block_ex_units',
+  'min_fee_a',
+  'min_fee_b',
+  'coins_per_utxo_size',
+  'coins_per_utxo_byte',
+  'gov_action_deposit',
+  'min_fee_ref_script_cost_per_byte',
+]);
+
+/** Bodies whose approval ratifies an action (CIP-1694). InfoAction is never ratified. */
+export function requiredBodies(
+  proposalType: string,
+  paramChanges?: Record<string, unknown> | null,
+): GovernanceBody[] {
+  switch (proposalType) {
+    case 'NoConfidence':
+    case 'NewCommittee':
+    case 'NewConstitutionalCommittee':
+      return ['drep', 'spo'];
+    case 'HardForkInitiation':
+      return ['drep', 'spo', 'cc'];
+    case 'NewConstitution':
+    case 'UpdateConstitution':
+    case 'TreasuryWithdrawals':
+      return ['drep', 'cc'];
+    case 'ParameterChange': {
+      const touchesSecurity = Object.keys(paramChanges ?? {}).some((k) =>
+        SECURITY_GROUP_PARAMS.has(k),
+      );
+      return touchesSecurity ? ['drep', 'spo', 'cc'] : ['drep', 'cc'];
+    }
+    default:
+      return [];
+  }
+}
+
+export interface VoteLeaning {
+  yes: number;
+  no: number;
+  abstain: number;
+}
+
+export interface PastVote {
+  vote: VoteChoice;
+  /** 0–1; how closely the past proposal resembles this one */
+  similarity: number;
+}
+
+export interface ProjectionVoter {
+  id: string;
+  /** Lovelace for DReps and SPOs, 1 for CC members */
+  weight: number;
+  /** Vote already cast on this proposal */
+  cast: VoteChoice | null;
+  /** 0–1 share of eligible proposals this voter votes on */
+  participation: number;
+  history: PastVote[];
+  /** −1 (against) … 1 (for), from alignment with the proposal's dimensions */
+  alignmentLean?: number | null;
+}
+
+export interface BodyInputs {
+  body: GovernanceBody;
+  threshold: number;
+  voters: ProjectionVoter[];
+  /** Stake that always counts for (always-no-confidence on a NoConfidence motion) */
+  fixedYes?: number;
+  /** Stake that always counts against (always-no-confidence otherwise) */
+  fixedNo?: number;
+}
+
+export interface ProjectionOptions {
+  /** 0–1 share of the voting window already elapsed */
+  progress: number;
+  /** From buildTimingCurve; linear when omitted */
+  timingCurve?: number[];
+  runs?: number;
+  seed?: number;
+  /** Std dev of the shared logit shock */
+  shockSd?: number;
+}
+
+export interface YesShareBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface BodyProjection {
+  body: GovernanceBody;
+  threshold: number;
+  /** Yes share if voting closed now */
+  currentYesShare: number;
+  projectedYesShare: YesShareBand;
+  passProbability: number;
+  /** Share of the body's weight that has not voted yet */
+  undecidedShare: number;
+}
+
+export interface ProjectionResult {
+  /** Share of runs in which every required body passed */
+  probability: number;
+  /** Pass rate in the most pessimistic fifth of runs */
+  probabilityLow: number;
+  /** Pass rate in the most optimistic fifth of runs */
+  probabilityHigh: number;
+  bodies: BodyProjection[];
+  runs: number;
+}
+
+const DEFAULT_RUNS = 2000;
+const DEFAULT_SHOCK_SD = 0.6;
+/** Pseudo-votes of prior behind each voter's own history */
+const PRIOR_STRENGTH = 2;
+/** How far a full alignment lean moves the prior's Yes/No split */
+const ALIGNMENT_SWING = 0.2;
+const MIN_SHARE = 0.02;
+const TIMING_POINTS = 21;
+const SCENARIO_FRACTION = 0.2;
+
+// ---------------------------------------------------------------------------
+// Timing
+// ---------------------------------------------------------------------------
+
+/** 0–1 share of the voting window (proposed epoch through expiration) already elapsed */
+export function windowProgress(
+  proposedEpoch: number,
+  expirationEpoch: number,
+  currentEpoch: number,
+): number {
+  const length = expirationEpoch - proposedEpoch + 1;
+  if (length <= 0) return 1;
+  return Math.min(1, Math.max(0, (currentEpoch - proposedEpoch) / length));
+}
+
+/**
+ * Empirical CDF of when in the window votes are cast, sampled at 21 evenly
+ * spaced points. `samples` are windowProgress values of historical votes.
+ */
+export function buildTimingCurve(samples: number[]): number[] {
+  if (samples.length === 0) {
+    return Array.from({ length: TIMING_POINTS }, (_, i) => i / (TIMING_POINTS - 1));
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  const curve: number[] = [];
+  let j = 0;
+  for (let i = 0; i < TIMING_POINTS; i++) {
+    const t = i / (TIMING_POINTS - 1);
+    while (j < sorted.length && sorted[j] <= t) j++;
+    curve.push(j / sorted.length);
+  }
+  curve[TIMING_POINTS - 1] = 1;
+  return curve;
+}
+
+/** Share of eventual votes already cast at `progress`, interpolated from the curve */
+export function castShareAt(curve: number[], progress: number): number {
+  const x = Math.min(1, Math.max(0, progress)) * (curve.length - 1);
+  const i = Math.floor(x);
+  if (i >= curve.length - 1) return curve[curve.length - 1];
+  return curve[i] + (curve[i + 1] - curve[i]) * (x - i);
+}
+
+/**
+ * Chance a voter who has not voted yet still will. A voter who votes with
+ * probability p, having stayed silent through the share F of votes that
+ * normally arrive by now: p(1 − F) / (1 − pF).
+ */
+export function remainingTurnout(participation: number, castShare: number): number {
+  const p = Math.min(1, Math.max(0, participation));
+  const denominator = 1 - p * castShare;
+  if (denominator <= 0) return 0;
+  return (p * (1 - castShare)) / denominator;
+}
+
+// ---------------------------------------------------------------------------
+// Leanings
+// ---------------------------------------------------------------------------
+
+function normalize(l: VoteLeaning): VoteLeaning {
+  const yes = Math.max(MIN_SHARE, l.yes);
+  const no = Math.max(MIN_SHARE, l.no);
+  const abstain = Math.max(MIN_SHARE, l.abstain);
+  const total = yes + no + abstain;
+  return { yes: yes / total, no: no / total, abstain: abstain / total };
+}
+
+/** Count split of cast votes, with one pseudo-vote per choice */
+export function currentSplit(voters: ProjectionVoter[]): VoteLeaning {
+  const counts = { yes: 1, no: 1, abstain: 1 };
+  for (const v of voters) {
+    if (v.cast === 'Yes') counts.yes++;
+    else if (v.cast === 'No') counts.no++;
+    else if (v.cast === 'Abstain') counts.abstain++;
+  }
+  return normalize(counts);
+}
+
+/** Move the Yes/No split of `base` by an alignment lean, keeping abstain share */
+export function priorLeaning(base: VoteLeaning, alignmentLean?: number | null): VoteLeaning {
+  if (alignmentLean == null || !Number.isFinite(alignmentLean)) return base;
+  const lean = Math.min(1, Math.max(-1, alignmentLean));
+  const decided = base.yes + base.no;
+  const yesShare = Math.min(1, Math.max(0, base.yes / decided + lean * ALIGNMENT_SWING));
+  return normalize({
+    yes: decided * yesShare,
+    no: decided * (1 - yesShare),
+    abstain: base.abstain,
+  });
+}
+
+/** Similarity-weighted vote history, shrunk towards `prior` */
+export function voterLeaning(history: PastVote[], prior: VoteLeaning): VoteLeaning {
+  const l = {
+    yes: prior.yes * PRIOR_STRENGTH,
+    no: prior.no * PRIOR_STRENGTH,
+    abstain: prior.abstain * PRIOR_STRENGTH,
+  };
+  for (const h of history) {
+    const w = Math.max(0, h.similarity);
+    if (h.vote === 'Yes') l.yes += w;
+    else if (h.vote === 'No') l.no += w;
+    else l.abstain += w;
+  }
+  return normalize(l);
+}
+
+// ---------------------------------------------------------------------------
+// Simulation
+// ---------------------------------------------------------------------------
+
+/** mulberry32 — small seeded PRNG so projections are reproducible */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** FNV-1a hash of a string, for per-proposal seeds */
+export function hashSeed(key: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Box-Muller draw from N(0, 1) */
+export function standardNormal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+function yesShare(yes: number, abstain: number, total: number): number {
+  const denominator = total - abstain;
+  return denominator > 0 ? yes / denominator : 0;
+}
+
+/** Nearest-rank quantile of an ascending array */
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const i = Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))));
+  return sorted[i];
+}
+
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+interface PreparedVoter {
+  weight: number;
+  cast: VoteChoice | null;
+  turnout: number;
+  /** Yes share among decided votes, as a logit */
+  logit: number;
+  abstain: number;
+}
+
+function prepareBody(body: BodyInputs, castShare: number): PreparedVoter[] {
+  const base = currentSplit(body.voters);
+  return body.voters.map((v) => {
+    if (v.cast) return { weight: v.weight, cast: v.cast, turnout: 0, logit: 0, abstain: 0 };
+    const l = voterLeaning(v.history, priorLeaning(base, v.alignmentLean));
+    const decided = l.yes / (l.yes + l.no);
+    return {
+      weight: v.weight,
+      cast: null,
+      turnout: remainingTurnout(v.participation, castShare),
+      logit: Math.log(decided / (1 - decided)),
+      abstain: l.abstain,
+    };
+  });
+}
+
+/**
+ * Project the final outcome of a proposal from the inputs of each required
+ * body. Deterministic for a given seed.
+ */
+export function projectOutcome(bodies: BodyInputs[], options: ProjectionOptions): ProjectionResult {
+  const runs = options.runs ?? DEFAULT_RUNS;
+  const shockSd = options.shockSd ?? DEFAULT_SHOCK_SD;
+  const random = seededRandom(options.seed ?? 1);
+  const castShare = castShareAt(options.timingCurve ?? buildTimingCurve([]), options.progress);
+
+  const prepared = bodies.map((b) => {
+    const voters = prepareBody(b, castShare);
+    const fixedYes = b.fixedYes ?? 0;
+    const fixedNo = b.fixedNo ?? 0;
+    const total = voters.reduce((s, v) => s + v.weight, 0) + fixedYes + fixedNo;
+    return { inputs: b, voters, fixedYes, fixedNo, total };
+  });
+
+  const shares = prepared.map(() => [] as number[]);
+  const passes = prepared.map(() => 0);
+  const outcomes: { shock: number; passed: boolean }[] = [];
+
+  for (let r = 0; r < runs; r++) {
+    const shock = standardNormal(random) * shockSd;
+    let allPassed = prepared.length > 0;
+
+    prepared.forEach((b, i) => {
+      let yes = b.fixedYes;
+      let abstain = 0;
+      for (const v of b.voters) {
+        let vote = v.cast;
+        if (!vote && random() < v.turnout) {
+          if (random() < v.abstain) vote = 'Abstain';
+          else vote = random() < 1 / (1 + Math.exp(-(v.logit + shock))) ? 'Yes' : 'No';
+        }
+        if (vote === 'Yes') yes += v.weight;
+        else if (vote === 'Abstain') abstain += v.weight;
+        // No and non-voters both count against
+      }
+      const share = yesShare(yes, abstain, b.total);
+      shares[i].push(share);
+      const passed = b.total - abstain > 0 && share >= b.inputs.threshold;
+      if (passed) passes[i]++;
+      else allPassed = false;
+    });
+
+    outcomes.push({ shock, passed: allPassed });
+  }
+
+  outcomes.sort((a, b) => a.shock - b.shock);
+  const scenarioSize = Math.max(1, Math.floor(runs * SCENARIO_FRACTION));
+  const passRate = (slice: typeof outcomes) =>
+    slice.length > 0 ? slice.filter((o) => o.passed).length / slice.length : 0;
+
+  const bodyProjections: BodyProjection[] = prepared.map((b, i) => {
+    let yes = b.fixedYes;
+    let abstain = 0;
+    let undecided = 0;
+    for (const v of b.voters) {
+      if (v.cast === 'Yes') yes += v.weight;
+      else if (v.cast === 'Abstain') abstain += v.weight;
+      else if (!v.cast) undecided += v.weight;
+    }
+    const sorted = shares[i].sort((x, y) => x - y);
+    return {
+      body: b.inputs.body,
+      threshold: b.inputs.threshold,
+      currentYesShare: round(yesShare(yes, abstain, b.total)),
+      projectedYesShare: {
+        p10: round(quantile(sorted, 0.1)),
+        p50: round(quantile(sorted, 0.5)),
+        p90: round(quantile(sorted, 0.9)),
+      },
+      passProbability: round(runs > 0 ? passes[i] / runs : 0),
+      undecidedShare: round(b.total > 0 ? undecided / b.total : 0),
+    };
+  });
+
+  return {
+    probability: round(passRate(outcomes)),
+    probabilityLow: round(passRate(outcomes.slice(0, scenarioSize))),
+    probabilityHigh: round(passRate(outcomes.slice(-scenarioSize))),
+    bodies: bodyProjections,
+    runs,
+  };
+}
@@ -8,7 +8,7 @@
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const webpush = require('web-push');
 
-import { type NotificationPayload } from './channelRenderers';
+import { type NotificationPayload, renderPush } from './channelRenderers';
 import { getSupabaseAdmin } from './supabase';
 import { logger } from '@/lib/logger';
 
@@ -54,13 +54,9 @@ async function sendToSubscription(
   }
 }
 
+/** Structured payloads render in the recipient's locale; others use their fallback text */
 export function buildPushPayload(payload: NotificationPayload): PushPayload {
-  return {
-    title: payload.fallback.title,
-    body: payload.fallback.body,
-    url: payload.fallback.url,
-    tag: payload.eventType,
-  };
+  return renderPush(payload);
 }
 
 /**
@@ -1,9 +1,16 @@
 /**
  * CIP-100 rationale document builder and Blake2b hashing.
  * Produces JSON-LD documents compliant with CIP-100 for governance vote anchors.
+ *
+ * Authors can witness a document by signing the hash of its body with their
+ * wallet (CIP-30 signData, i.e. a CIP-8 COSE_Sign1). As CIP-100 specifies, the
+ * body is canonicalized with URDNA2015 before hashing, so any CIP-100
+ * verifier can check the witness (see lib/rationaleWitness.ts).
  */
 
 import { blake2bHex } from 'blakejs';
+import jsonld from 'jsonld';
+import type { JsonLdDocument, Options } from 'jsonld';
 
 // ---------------------------------------------------------------------------
 // CIP-100 JSON-LD envelope
@@ -66,13 +73,41 @@ export interface Cip100Document {
   };
   authors?: Array<{
     name?: string;
+    witness?: Cip100Witness;
   }>;
 }
 
+/** CIP-30 wallets sign with CIP-8: publicKey is the COSE_Key, signature the COSE_Sign1 */
+export const CIP100_WITNESS_ALGORITHM = 'CIP-0008';
+
+export interface Cip100Witness {
+  witnessAlgorithm: typeof CIP100_WITNESS_ALGORITHM;
+  publicKey: string;
+  signature: string;
+}
+
+/**
+ * Blake2b-256 of a document body — the payload authors sign. The body is
+ * expanded under the CIP-100 @context and canonicalized to N-Quads
+ * (URDNA2015), so the hash does not depend on key order or formatting.
+ */
+export async function hashRationaleBody(body: Cip100Document['body']): Promise<string> {
+  const canonical = await jsonld.canonize(
+    { '@context': CIP100_CONTEXT, body } as JsonLdDocument,
+    // jsonld defaults canonize to safe mode; CIP-100 hashes the plain URDNA2015 output
+    { algorithm: 'URDNA2015', format: 'application/n-quads', safe: false } as Options.Normalize,
+  );
+  return blake2bHex(canonical, undefined, 32);
+}
+
 /**
  * Build a CIP-100 compliant JSON-LD rationale document.
  */
-export function buildCip100Document(rationaleText: string, drepId?: string): Cip100Document {
+export function buildCip100Document(
+  rationaleText: string,
+  drepId?: string,
+  witness?: Cip100Witness,
+): Cip100Document {
   const doc: Cip100Document = {
     '@context': CIP100_CONTEXT,
     hashAlgorithm: 'blake2b-256',
@@ -81,20 +116,27 @@ export function buildCip100Document(rationaleText: string, drepId?: string): Cip
     },
   };
 
-  if (drepId) {
-    doc.authors = [{ name: drepId }];
+  if (drepId || witness) {
+    doc.authors = [{ ...(drepId && { name: drepId }), ...(witness && { witness }) }];
   }
 
   return doc;
 }
 
+/**
+ * The exact text served at the anchor URL and pinned to IPFS. The anchor
+ * hash covers these bytes, so they must never be re-serialized.
+ */
+export function serializeRationale(document: Cip100Document): string {
+  return JSON.stringify(document);
+}
+
 /**
  * Compute the Blake2b-256 hash of a CIP-100 document.
  * The hash is computed over the canonical JSON serialization.
  */
 export function hashRationale(document: Cip100Document): string {
-  const canonical = JSON.stringify(document);
-  return blake2bHex(canonical, undefined, 32);
+  return blake2bHex(serializeRationale(document), undefined, 32);
 }
 
 /**
@@ -103,8 +145,9 @@ export function hashRationale(document: Cip100Document): string {
 export function buildAndHashRationale(
   rationaleText: string,
   drepId?: string,
+  witness?: Cip100Witness,
 ): { document: Cip100Document; contentHash: string } {
-  const document = buildCip100Document(rationaleText, drepId);
+  const document = buildCip100Document(rationaleText, drepId, witness);
   const contentHash = hashRationale(document);
   return { document, contentHash };
 }
@@ -0,0 +1,503 @@
+/**
+ * Proposal-level rationale analysis — turns the DRep rationales on one proposal
+ * into a picture of *why* the vote went the way it did.
+ *
+ *   - Arguments: each rationale sentence is tagged with argument themes from a
+ *     fixed keyword taxonomy (budget, constitutionality, team credibility, …),
+ *     and themes are tallied by the voters' side with representative quotes.
+ *   - Copies: near-duplicate rationales are found with MinHash LSH over word
+ *     shingles and confirmed with exact Jaccard; each copy is diffed
+ *     sentence-by-sentence against the earliest rationale in its group.
+ *   - Coverage: how many voters on each side explained their vote at all.
+ *
+ * Deterministic and cheap enough to run on every proposal page render.
+ */
+
+import { lshBandKeys, minhashSignature, pairsFromBuckets, splitPairKey } from '@/lib/minhash';
+
+export type VoteSide = 'Yes' | 'No' | 'Abstain';
+
+export interface RationaleInput {
+  drepId: string;
+  drepName: string | null;
+  vote: VoteSide;
+  blockTime: number;
+  rationaleText: string | null;
+  rationaleAiSummary: string | null;
+}
+
+export interface ArgumentTheme {
+  key: string;
+  label: string;
+  /** Lowercase words or phrases; phrases match on word boundaries */
+  keywords: string[];
+}
+
+export const ARGUMENT_THEMES: ArgumentTheme[] = [
+  {
+    key: 'budget',
+    label: 'Budget & cost',
+    keywords: [
+      'budget',
+      'cost',
+      'costs',
+      'costly',
+      'expensive',
+      'overpriced',
+      'price',
+      'pricing',
+      'funding',
+      'funds',
+      'spend',
+      'spending',
+      'treasury',
+      'withdrawal',
+      'value for money',
+      'too much',
+      'cheaper',
+    ],
+  },
+  {
+    key: 'constitutionality',
+    label: 'Constitutionality',
+    keywords: [
+      'constitution',
+      'constitutional',
+      'unconstitutional',
+      'guardrail',
+      'guardrails',
+      'article',
+      'cip-1694',
+      'legal',
+      'legality',
+      'compliance',
+      'comply',
+    ],
+  },
+  {
+    key: 'team',
+    label: 'Team credibility',
+    keywords: [
+      'team',
+      'track record',
+      'experience',
+      'experienced',
+      'credibility',
+      'credible',
+      'reputation',
+      'delivered',
+      'trust',
+      'trusted',
+      'proven',
+      'background',
+    ],
+  },
+  {
+    key: 'accountability',
+    label: 'Milestones & accountability',
+    keywords: [
+      'milestone',
+      'milestones',
+      'deliverable',
+      'deliverables',
+      'roadmap',
+      'kpi',
+      'kpis',
+      'measurable',
+      'reporting',
+      'accountability',
+      'audit',
+      'oversight',
+    ],
+  },
+  {
+    key: 'impact',
+    label: 'Ecosystem impact',
+    keywords: [
+      'ecosystem',
+      'adoption',
+      'community',
+      'users',
+      'growth',
+      'benefit',
+      'benefits',
+      'developers',
+      'innovation',
+      'impact',
+    ],
+  },
+  {
+    key: 'technical',
+    label: 'Technical merit & risk',
+    keywords: [
+      'technical',
+      'security',
+      'risk',
+      'risks',
+      'feasibility',
+      'feasible',
+      'architecture',
+      'implementation',
+      'scalability',
+      'performance',
+      'parameter',
+      'parameters',
+    ],
+  },
+  {
+    key: 'process',
+    label: 'Process & transparency',
+    keywords: [
+      'process',
+      'transparency',
+      'transparent',
+      'consultation',
+      'discussion',
+      'unclear',
+      'insufficient',
+      'lack of',
+      'rushed',
+      'more time',
+      'more information',
+      'more details',
+    ],
+  },
+  {
+    key: 'decentralization',
+    label: 'Decentralization',
+    keywords: [
+      'decentralization',
+      'decentralisation',
+      'decentralized',
+      'decentralised',
+      'centralization',
+      'centralized',
+      'concentration',
+      'independence',
+    ],
+  },
+];
+
+export interface ArgumentQuote {
+  drepId: string;
+  drepName: string | null;
+  vote: VoteSide;
+  quote: string;
+}
+
+export interface ArgumentSummary {
+  key: string;
+  label: string;
+  /** Distinct DReps on each side whose rationale makes this argument */
+  counts: Record<VoteSide, number>;
+  total: number;
+  /** Share of all explained rationales that make this argument */
+  share: number;
+  quotes: ArgumentQuote[];
+}
+
+export interface DuplicateMember {
+  drepId: string;
+  drepName: string | null;
+  vote: VoteSide;
+  blockTime: number;
+  /** Jaccard similarity to the group's original (1 for the original itself) */
+  similarity: number;
+  /** Sentences also found in the original */
+  copiedSentences: number;
+  /** Sentences the copy adds; the first is shown as its own contribution */
+  addedSentences: string[];
+}
+
+export interface DuplicateGroup {
+  /** Earliest rationale in the group */
+  original: DuplicateMember;
+  copies: DuplicateMember[];
+}
+
+export interface RationaleCoverage {
+  voters: Record<VoteSide, number>;
+  explained: Record<VoteSide, number>;
+}
+
+export interface RationaleAnalysis {
+  coverage: RationaleCoverage;
+  explainedCount: number;
+  arguments: ArgumentSummary[];
+  duplicateGroups: DuplicateGroup[];
+}
+
+/** Shingle Jaccard at or above this counts as a copy */
+export const DUPLICATE_THRESHOLD = 0.6;
+/** Shorter rationales ("I support this proposal.") are too generic to call copies */
+const MIN_WORDS_FOR_DUPLICATE = 20;
+const SHINGLE_SIZE = 3;
+const NUM_HASHES = 64;
+const LSH_BANDS = 16;
+const MAX_BUCKET_SIZE = 50;
+const QUOTES_PER_SIDE: Record<VoteSide, number> = { Yes: 2, No: 2, Abstain: 1 };
+const QUOTE_MIN_WORDS = 6;
+const QUOTE_MAX_CHARS = 280;
+
+const SIDES: VoteSide[] = ['Yes', 'No', 'Abstain'];
+
+function emptyCounts(): Record<VoteSide, number> {
+  return { Yes: 0, No: 0, Abstain: 0 };
+}
+
+// ---------------------------------------------------------------------------
+// Text helpers
+// ---------------------------------------------------------------------------
+
+/** Lowercase, drop URLs and punctuation (keeping hyphens inside words), collapse whitespace */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^\p{L}\p{N}\s-]/gu, ' ')
+    .replace(/(^|\s)-+|-+(?=\s|$)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.replace(/^[\s\-*•#>]+/, '').trim())
+    .filter((s) => s.length > 0);
+}
+
+/** Word n-gram shingles; short texts fall back to their word set */
+export function rationaleShingles(text: string, size = SHINGLE_SIZE): Set<string> {
+  const words = normalizeText(text).split(' ').filter(Boolean);
+  if (words.length < size) return new Set(words);
+  const shingles = new Set<string>();
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.add(words.slice(i, i + size).join(' '));
+  }
+  return shingles;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let inter = 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  for (const x of small) if (large.has(x)) inter++;
+  return inter / (a.size + b.size - inter);
+}
+
+function wordCount(text: string): number {
+  return normalizeText(text).split(' ').filter(Boolean).length;
+}
+
+function truncateQuote(sentence: string): string {
+  if (sentence.length <= QUOTE_MAX_CHARS) return sentence;
+  const cut = sentence.slice(0, QUOTE_MAX_CHARS);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+}
+
+// ---------------------------------------------------------------------------
+// Argument themes
+// ---------------------------------------------------------------------------
+
+/** Keyword hits per theme for one sentence */
+export function scoreSentenceThemes(sentence: string): Map<string, number> {
+  const padded = ` ${normalizeText(sentence)} `;
+  const hits = new Map<string, number>();
+  for (const theme of ARGUMENT_THEMES) {
+    let n = 0;
+    for (const kw of theme.keywords) if (padded.includes(` ${kw} `)) n++;
+    if (n > 0) hits.set(theme.key, n);
+  }
+  return hits;
+}
+
+interface ThemeMatch {
+  hits: number;
+  quote: string;
+}
+
+/** The themes a rationale argues, each with its strongest sentence */
+export function extractArguments(text: string): Map<string, ThemeMatch> {
+  const best = new Map<string, ThemeMatch>();
+  for (const sentence of splitSentences(text)) {
+    const quotable = wordCount(sentence) >= QUOTE_MIN_WORDS;
+    for (const [key, hits] of scoreSentenceThemes(sentence)) {
+      const current = best.get(key);
+      const currentQuotable = current ? wordCount(current.quote) >= QUOTE_MIN_WORDS : false;
+      // A quotable sentence beats a fragment; otherwise more keyword hits win
+      const better =
+        !current ||
+        (quotable && !currentQuotable) ||
+        (quotable === currentQuotable && hits > current.hits);
+      if (better) best.set(key, { hits, quote: truncateQuote(sentence) });
+    }
+  }
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Near-duplicates
+// ---------------------------------------------------------------------------
+
+function diffAgainst(original: string, copy: string): { copied: number; added: string[] } {
+  const originalSentences = new Set(splitSentences(original).map(normalizeText));
+  let copied = 0;
+  const added: string[] = [];
+  for (const sentence of splitSentences(copy)) {
+    if (originalSentences.has(normalizeText(sentence))) copied++;
+    else if (wordCount(sentence) >= QUOTE_MIN_WORDS) added.push(truncateQuote(sentence));
+  }
+  return { copied, added };
+}
+
+/**
+ * Group rationales that are near-copies of each other. Only full rationale
+ * text is compared — AI summaries are too uniform to be evidence of copying.
+ */
+export function findDuplicateGroups(rationales: RationaleInput[]): DuplicateGroup[] {
+  const eligible = rationales.filter(
+    (r) => r.rationaleText && wordCount(r.rationaleText) >= MIN_WORDS_FOR_DUPLICATE,
+  );
+  if (eligible.length < 2) return [];
+
+  const byId = new Map(eligible.map((r) => [r.drepId, r]));
+  const shingles = new Map(eligible.map((r) => [r.drepId, rationaleShingles(r.rationaleText!)]));
+
+  const buckets = new Map<string, string[]>();
+  for (const [id, set] of shingles) {
+    const sig = minhashSignature(set, NUM_HASHES);
+    for (const key of lshBandKeys(sig, LSH_BANDS)) {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(id);
+      else buckets.set(key, [id]);
+    }
+  }
+
+  // Union-find over confirmed pairs
+  const parent = new Map<string, string>();
+  const find = (x: string): string => {
+    let root = x;
+    while (parent.get(root) !== undefined && parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(x, root);
+    return root;
+  };
+  let confirmed = 0;
+  for (const pair of pairsFromBuckets(buckets, MAX_BUCKET_SIZE)) {
+    const [a, b] = splitPairKey(pair);
+    if (jaccard(shingles.get(a)!, shingles.get(b)!) < DUPLICATE_THRESHOLD) continue;
+    parent.set(find(a), find(b));
+    confirmed++;
+  }
+  if (confirmed === 0) return [];
+
+  const groups = new Map<string, RationaleInput[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    const list = groups.get(root) ?? [];
+    list.push(byId.get(id)!);
+    groups.set(root, list);
+  }
+
+  return [...groups.values()]
+    .filter((members) => members.length > 1)
+    .map((members) => {
+      members.sort((a, b) => a.blockTime - b.blockTime || a.drepId.localeCompare(b.drepId));
+      const [first, ...rest] = members;
+      const originalShingles = shingles.get(first.drepId)!;
+      const toMember = (
+        r: RationaleInput,
+        similarity: number,
+        copied: number,
+        added: string[],
+      ) => ({
+        drepId: r.drepId,
+        drepName: r.drepName,
+        vote: r.vote,
+        blockTime: r.blockTime,
+        similarity: Math.round(similarity * 100) / 100,
+        copiedSentences: copied,
+        addedSentences: added,
+      });
+      return {
+        original: toMember(first, 1, splitSentences(first.rationaleText!).length, []),
+        copies: rest.map((r) => {
+          const { copied, added } = diffAgainst(first.rationaleText!, r.rationaleText!);
+          return toMember(r, jaccard(originalShingles, shingles.get(r.drepId)!), copied, added);
+        }),
+      };
+    })
+    .sort((a, b) => b.copies.length - a.copies.length);
+}
+
+// ---------------------------------------------------------------------------
+// Proposal analysis
+// ---------------------------------------------------------------------------
+
+export function analyzeProposalRationales(votes: RationaleInput[]): RationaleAnalysis {
+  const coverage: RationaleCoverage = { voters: emptyCounts(), explained: emptyCounts() };
+  const explained: RationaleInput[] = [];
+  for (const v of votes) {
+    coverage.voters[v.vote]++;
+    if (v.rationaleText || v.rationaleAiSummary) {
+      coverage.explained[v.vote]++;
+      explained.push(v);
+    }
+  }
+
+  const duplicateGroups = findDuplicateGroups(explained);
+  // Copies still count toward tallies but never supply a quote
+  const copyIds = new Set(duplicateGroups.flatMap((g) => g.copies.map((c) => c.drepId)));
+
+  const tallies = new Map<
+    string,
+    { counts: Record<VoteSide, number>; candidates: Array<ArgumentQuote & { hits: number }> }
+  >();
+  for (const r of explained) {
+    const text = r.rationaleText || r.rationaleAiSummary!;
+    for (const [key, match] of extractArguments(text)) {
+      const tally = tallies.get(key) ?? { counts: emptyCounts(), candidates: [] };
+      tally.counts[r.vote]++;
+      if (!copyIds.has(r.drepId) && wordCount(match.quote) >= QUOTE_MIN_WORDS) {
+        tally.candidates.push({
+          drepId: r.drepId,
+          drepName: r.drepName,
+          vote: r.vote,
+          quote: match.quote,
+          hits: match.hits,
+        });
+      }
+      tallies.set(key, tally);
+    }
+  }
+
+  const argumentSummaries: ArgumentSummary[] = [];
+  for (const theme of ARGUMENT_THEMES) {
+    const tally = tallies.get(theme.key);
+    if (!tally) continue;
+    const total = SIDES.reduce((s, side) => s + tally.counts[side], 0);
+    const quotes = SIDES.flatMap((side) =>
+      tally.candidates
+        .filter((c) => c.vote === side)
+        .sort((a, b) => b.hits - a.hits || b.quote.length - a.quote.length)
+        .slice(0, QUOTES_PER_SIDE[side])
+        .map((c) => ({ drepId: c.drepId, drepName: c.drepName, vote: c.vote, quote: c.quote })),
+    );
+    argumentSummaries.push({
+      key: theme.key,
+      label: theme.label,
+      counts: tally.counts,
+      total,
+      share: explained.length > 0 ? total / explained.length : 0,
+      quotes,
+    });
+  }
+  argumentSummaries.sort((a, b) => b.total - a.total);
+
+  return {
+    coverage,
+    explainedCount: explained.length,
+    arguments: argumentSummaries,
+    duplicateGroups,
+  };
+}
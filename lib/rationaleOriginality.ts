@@ -0,0 +1,345 @@
+/**
+ * Rationale Originality — loading, persistence, appeals and lookups around
+ * lib/scoring/rationaleOriginality.
+ *
+ * The index is rebuilt daily (index-rationale-originality) over every fetched
+ * rationale. Re-indexing updates detection columns only, so a DRep's appeal and
+ * the admin's ruling stay attached to the flag; an upheld appeal removes the
+ * scoring discount while keeping the record. Flags that stop being detected
+ * (e.g. the rationale was edited) are dropped.
+ */
+
+import { createClient, getSupabaseAdmin } from '@/lib/supabase';
+import { batchUpsert, fetchAll } from '@/lib/sync-utils';
+import {
+  indexRationaleOriginality,
+  type IndexedRationale,
+  type OriginalityFlag,
+} from '@/lib/scoring/rationaleOriginality';
+
+export type AppealStatus = 'none' | 'pending' | 'upheld' | 'rejected';
+
+const EXCERPT_CHARS = 280;
+const DELETE_CHUNK = 200;
+const RECENT_FLAGS = 100;
+
+type AdminClient = ReturnType<typeof getSupabaseAdmin>;
+
+async function loadIndexedRationales(supabase: AdminClient): Promise<IndexedRationale[]> {
+  const [rationales, votes] = await Promise.all([
+    fetchAll<{
+      vote_tx_hash: string;
+      drep_id: string;
+      proposal_tx_hash: string;
+      proposal_index: number;
+      rationale_text: string;
+    }>(
+      supabase
+        .from('vote_rationales')
+        .select('vote_tx_hash, drep_id, proposal_tx_hash, proposal_index, rationale_text')
+        .not('rationale_text', 'is', null),
+    ),
+    fetchAll<{ vote_tx_hash: string; block_time: number }>(
+      supabase.from('drep_votes').select('vote_tx_hash, block_time'),
+    ),
+  ]);
+
+  const blockTimes = new Map(votes.map((v) => [v.vote_tx_hash, v.block_time]));
+  const indexed: IndexedRationale[] = [];
+  for (const r of rationales) {
+    const blockTime = blockTimes.get(r.vote_tx_hash);
+    if (blockTime == null || !r.rationale_text.trim()) continue;
+    indexed.push({
+      voteTxHash: r.vote_tx_hash,
+      drepId: r.drep_id,
+      proposalKey: `${r.proposal_tx_hash}-${r.proposal_index}`,
+      blockTime,
+      text: r.rationale_text,
+    });
+  }
+  return indexed;
+}
+
+function splitProposalKey(key: string): { txHash: string; index: number } {
+  const i = key.lastIndexOf('-');
+  return { txHash: key.slice(0, i), index: Number(key.slice(i + 1)) };
+}
+
+/** Rebuild the originality index over all fetched rationales. */
+export async function runRationaleOriginalityIndex(): Promise<{
+  rationales: number;
+  flagged: Record<OriginalityFlag, number>;
+  removed: number;
+  errors: number;
+}> {
+  const supabase = getSupabaseAdmin();
+  const rationales = await loadIndexedRationales(supabase);
+  const findings = indexRationaleOriginality(rationales);
+
+  const flagged: Record<OriginalityFlag, number> = { duplicate: 0, template: 0, boilerplate: 0 };
+  const rows = findings.map((f) => {
+    flagged[f.flag]++;
+    const { txHash, index } = splitProposalKey(f.proposalKey);
+    return {
+      vote_tx_hash: f.voteTxHash,
+      drep_id: f.drepId,
+      proposal_tx_hash: txHash,
+      proposal_index: index,
+      flag: f.flag,
+      similarity: f.similarity,
+      original_vote_tx_hash: f.original?.voteTxHash ?? null,
+      original_drep_id: f.original?.drepId ?? null,
+      original_published_at: f.original
+        ? new Date(f.original.blockTime * 1000).toISOString()
+        : null,
+      markers: f.markers,
+      multiplier: f.multiplier,
+    };
+  });
+  const { errors } = await batchUpsert(
+    supabase,
+    'rationale_originality_flags',
+    rows,
+    'vote_tx_hash',
+    'rationale_originality',
+  );
+
+  const current = new Set(findings.map((f) => f.voteTxHash));
+  const existing = await fetchAll<{ vote_tx_hash: string }>(
+    supabase.from('rationale_originality_flags').select('vote_tx_hash'),
+  );
+  const stale = existing.map((r) => r.vote_tx_hash).filter((h) => !current.has(h));
+  for (let i = 0; i < stale.length; i += DELETE_CHUNK) {
+    const { error } = await supabase
+      .from('rationale_originality_flags')
+      .delete()
+      .in('vote_tx_hash', stale.slice(i, i + DELETE_CHUNK));
+    if (error) throw new Error(`rationale_originality_flags delete failed: ${error.message}`);
+  }
+
+  return { rationales: rationales.length, flagged, removed: stale.length, errors };
+}
+
+/**
+ * Engagement Quality multipliers keyed by `${drepId}|${txHash}-${index}`.
+ * Flags with an upheld appeal carry no discount.
+ */
+export async function loadOriginalityMultipliers(): Promise<Map<string, number>> {
+  const rows = await fetchAll<{
+    drep_id: string;
+    proposal_tx_hash: string;
+    proposal_index: number;
+    multiplier: number;
+  }>(
+    getSupabaseAdmin()
+      .from('rationale_originality_flags')
+      .select('drep_id, proposal_tx_hash, proposal_index, multiplier')
+      .neq('appeal_status', 'upheld'),
+  );
+
+  const multipliers = new Map<string, number>();
+  for (const r of rows) {
+    const key = `${r.drep_id}|${r.proposal_tx_hash}-${r.proposal_index}`;
+    const m = Number(r.multiplier);
+    multipliers.set(key, Math.min(multipliers.get(key) ?? 1, m));
+  }
+  return multipliers;
+}
+
+// ---------------------------------------------------------------------------
+// Reads
+// ---------------------------------------------------------------------------
+
+export interface StoredOriginalityFlag {
+  voteTxHash: string;
+  drepId: string;
+  proposalTxHash: string;
+  proposalIndex: number;
+  flag: OriginalityFlag;
+  similarity: number | null;
+  markers: string[];
+  multiplier: number;
+  detectedAt: string;
+  excerpt: string | null;
+  original: {
+    voteTxHash: string;
+    drepId: string;
+    publishedAt: string;
+    excerpt: string | null;
+  } | null;
+  appeal: {
+    status: AppealStatus;
+    reason: string | null;
+    appealedAt: string | null;
+    reviewNote: string | null;
+    reviewedAt: string | null;
+  };
+}
+
+interface FlagRow {
+  vote_tx_hash: string;
+  drep_id: string;
+  proposal_tx_hash: string;
+  proposal_index: number;
+  flag: string;
+  similarity: number | null;
+  original_vote_tx_hash: string | null;
+  original_drep_id: string | null;
+  original_published_at: string | null;
+  markers: string[];
+  multiplier: number;
+  detected_at: string;
+  appeal_status: string;
+  appeal_reason: string | null;
+  appealed_at: string | null;
+  review_note: string | null;
+  reviewed_at: string | null;
+}
+
+const FLAG_COLUMNS =
+  'vote_tx_hash, drep_id, proposal_tx_hash, proposal_index, flag, similarity, original_vote_tx_hash, original_drep_id, original_published_at, markers, multiplier, detected_at, appeal_status, appeal_reason, appealed_at, review_note, reviewed_at';
+
+function excerpt(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > EXCERPT_CHARS ? `${clean.slice(0, EXCERPT_CHARS)}…` : clean;
+}
+
+async function withExcerpts(
+  supabase: ReturnType<typeof createClient>,
+  rows: FlagRow[],
+): Promise<StoredOriginalityFlag[]> {
+  const hashes = [
+    ...new Set(
+      rows.flatMap((r) =>
+        r.original_vote_tx_hash ? [r.vote_tx_hash, r.original_vote_tx_hash] : [r.vote_tx_hash],
+      ),
+    ),
+  ];
+  const { data: texts } = hashes.length
+    ? await supabase
+        .from('vote_rationales')
+        .select('vote_tx_hash, rationale_text')
+        .in('vote_tx_hash', hashes)
+    : { data: [] };
+  const textByHash = new Map((texts || []).map((t) => [t.vote_tx_hash, t.rationale_text]));
+
+  return rows.map((r) => ({
+    voteTxHash: r.vote_tx_hash,
+    drepId: r.drep_id,
+    proposalTxHash: r.proposal_tx_hash,
+    proposalIndex: r.proposal_index,
+    flag: r.flag as OriginalityFlag,
+    similarity: r.similarity != null ? Number(r.similarity) : null,
+    markers: r.markers ?? [],
+    multiplier: Number(r.multiplier),
+    detectedAt: r.detected_at,
+    excerpt: excerpt(textByHash.get(r.vote_tx_hash)),
+    original:
+      r.original_vote_tx_hash && r.original_drep_id && r.original_published_at
+        ? {
+            voteTxHash: r.original_vote_tx_hash,
+            drepId: r.original_drep_id,
+            publishedAt: r.original_published_at,
+            excerpt: excerpt(textByHash.get(r.original_vote_tx_hash)),
+          }
+        : null,
+    appeal: {
+      status: r.appeal_status as AppealStatus,
+      reason: r.appeal_reason,
+      appealedAt: r.appealed_at,
+      reviewNote: r.review_note,
+      reviewedAt: r.reviewed_at,
+    },
+  }));
+}
+
+export interface OriginalityOverview {
+  counts: Record<OriginalityFlag, number>;
+  /** Appeals awaiting an admin ruling, oldest first */
+  pendingAppeals: StoredOriginalityFlag[];
+  /** Most recently detected flags */
+  recent: StoredOriginalityFlag[];
+}
+
+export async function getOriginalityOverview(): Promise<OriginalityOverview> {
+  const supabase = createClient();
+  const [countRows, { data: pending }, { data: recent }] = await Promise.all([
+    fetchAll<{ flag: string }>(supabase.from('rationale_originality_flags').select('flag')),
+    supabase
+      .from('rationale_originality_flags')
+      .select(FLAG_COLUMNS)
+      .eq('appeal_status', 'pending')
+      .order('appealed_at', { ascending: true }),
+    supabase
+      .from('rationale_originality_flags')
+      .select(FLAG_COLUMNS)
+      .neq('appeal_status', 'pending')
+      .order('detected_at', { ascending: false })
+      .limit(RECENT_FLAGS),
+  ]);
+
+  const counts: Record<OriginalityFlag, number> = { duplicate: 0, template: 0, boilerplate: 0 };
+  for (const r of countRows) counts[r.flag as OriginalityFlag]++;
+
+  return {
+    counts,
+    pendingAppeals: await withExcerpts(supabase, (pending || []) as FlagRow[]),
+    recent: await withExcerpts(supabase, (recent || []) as FlagRow[]),
+  };
+}
+
+export async function getDRepOriginalityFlags(drepId: string): Promise<StoredOriginalityFlag[]> {
+  const supabase = createClient();
+  const { data } = await supabase
+    .from('rationale_originality_flags')
+    .select(FLAG_COLUMNS)
+    .eq('drep_id', drepId)
+    .order('detected_at', { ascending: false });
+  return withExcerpts(supabase, (data || []) as FlagRow[]);
+}
+
+/**
+ * File the DRep's appeal against a flag. Each flag can be appealed once;
+ * returns false when the flag is not theirs or already appealed.
+ */
+export async function submitOriginalityAppeal(
+  voteTxHash: string,
+  drepId: string,
+  reason: string,
+): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('rationale_originality_flags')
+    .update({
+      appeal_status: 'pending',
+      appeal_reason: reason,
+      appealed_at: new Date().toISOString(),
+    })
+    .eq('vote_tx_hash', voteTxHash)
+    .eq('drep_id', drepId)
+    .eq('appeal_status', 'none')
+    .select('vote_tx_hash');
+  if (error) throw new Error(error.message);
+  return (data?.length ?? 0) > 0;
+}
+
+export async function reviewOriginalityAppeal(
+  voteTxHash: string,
+  status: Extract<AppealStatus, 'upheld' | 'rejected'>,
+  note: string | null,
+  reviewedBy: string,
+): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('rationale_originality_flags')
+    .update({
+      appeal_status: status,
+      review_note: note,
+      reviewed_by: reviewedBy,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('vote_tx_hash', voteTxHash)
+    .neq('appeal_status', 'none')
+    .select('vote_tx_hash');
+  if (error) throw new Error(error.message);
+  return (data?.length ?? 0) > 0;
+}
@@ -0,0 +1,93 @@
+/**
+ * Server-side verification of CIP-100 author witnesses. The author's wallet
+ * signs the rationale body hash (hashRationaleBody) with CIP-30 signData; the
+ * COSE_Sign1 must cover exactly that hash and name the claimed address.
+ *
+ * checkSignature accepts a base address when the key matches either of its
+ * credentials, so the address says nothing about which key signed. Identity
+ * claims (e.g. naming a DRep) go by the hash of the signing key itself.
+ */
+
+import { blake2bHex } from 'blakejs';
+import { checkSignature, resolveRewardAddress } from '@meshsdk/core';
+import { logger } from '@/lib/logger';
+import { decodeCbor, hexToBytes } from '@/lib/multisig/cbor';
+import { drepKeyHash } from '@/utils/drepId';
+import {
+  CIP100_WITNESS_ALGORITHM,
+  hashRationaleBody,
+  type Cip100Document,
+  type Cip100Witness,
+} from '@/lib/rationale';
+
+export interface RationaleSignature {
+  /** Bech32 address the wallet signed with */
+  address: string;
+  /** COSE_Sign1, hex */
+  signature: string;
+  /** COSE_Key, hex */
+  key: string;
+}
+
+export type WitnessVerification =
+  | {
+      valid: true;
+      witness: Cip100Witness;
+      stakeAddress: string | null;
+      /** Blake2b-224 of the public key that produced the signature */
+      keyHash: string;
+    }
+  | { valid: false; reason: string };
+
+/** Blake2b-224 of the Ed25519 key (label -2) in a COSE_Key, or null if absent */
+function coseKeyHash(keyHex: string): string | null {
+  const node = decodeCbor(hexToBytes(keyHex));
+  if (node.kind !== 'map') return null;
+  const x = node.entries.find(([k]) => k.kind === 'nint' && k.value === -2)?.[1];
+  if (x?.kind !== 'bytes' || x.value.length !== 32) return null;
+  return blake2bHex(x.value, undefined, 28);
+}
+
+/** Whether the witness key is the DRep's own key credential */
+export function isSignedByDRep(keyHash: string, drepId: string): boolean {
+  return drepKeyHash(drepId) === keyHash;
+}
+
+export async function verifyRationaleWitness(
+  body: Cip100Document['body'],
+  signed: RationaleSignature,
+): Promise<WitnessVerification> {
+  let valid = false;
+  let keyHash: string | null = null;
+  try {
+    keyHash = coseKeyHash(signed.key);
+    if (!keyHash) return { valid: false, reason: 'Malformed signature' };
+    valid = await checkSignature(
+      await hashRationaleBody(body),
+      { signature: signed.signature, key: signed.key },
+      signed.address,
+    );
+  } catch (err) {
+    logger.warn('[Rationale] Witness verification error', { error: err });
+    return { valid: false, reason: 'Malformed signature' };
+  }
+  if (!valid || !keyHash) return { valid: false, reason: 'Signature does not match rationale' };
+
+  let stakeAddress: string | null = null;
+  try {
+    stakeAddress = resolveRewardAddress(signed.address);
+  } catch {
+    // Enterprise and script addresses have no stake part
+  }
+
+  return {
+    valid: true,
+    witness: {
+      witnessAlgorithm: CIP100_WITNESS_ALGORITHM,
+      publicKey: signed.key,
+      signature: signed.signature,
+    },
+    stakeAddress,
+    keyHash,
+  };
+}
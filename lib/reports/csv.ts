@@ -0,0 +1,16 @@
+/**
+ * RFC 4180 CSV serialization for report datasets.
+ */
+
+function escapeCell(value: unknown): string {
+  if (value == null) return '';
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Header row from `columns`, then one line per row; missing keys are empty cells. */
+export function toCsv<T extends object>(rows: T[], columns: (keyof T & string)[]): string {
+  const lines = [columns.map(escapeCell).join(',')];
+  for (const row of rows) lines.push(columns.map((c) => escapeCell(row[c])).join(','));
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,463 @@
+/**
+ * Report datasets — the raw per-epoch tables behind the State of Governance
+ * report, and the per-DRep accountability record. Rows are flat and
+ * snake_case so the same objects serialize to JSON and CSV unchanged.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { fetchAll } from '@/lib/sync-utils';
+import type { GHIComponent } from '@/lib/ghi';
+import type { ReportData } from '@/lib/stateOfGovernance';
+import { toCsv } from './csv';
+
+export const DATASETS = ['proposals', 'votes', 'scores', 'ghi'] as const;
+export type DatasetName = (typeof DATASETS)[number];
+
+export const DATASET_LABELS: Record<DatasetName, string> = {
+  proposals: 'Proposals',
+  votes: 'Votes',
+  scores: 'DRep scores',
+  ghi: 'GHI components',
+};
+
+export function isDatasetName(value: string | null): value is DatasetName {
+  return value != null && (DATASETS as readonly string[]).includes(value);
+}
+
+export interface ProposalDatasetRow {
+  tx_hash: string;
+  proposal_index: number;
+  title: string | null;
+  proposal_type: string;
+  proposed_epoch: number | null;
+  outcome: string;
+  outcome_epoch: number | null;
+  withdrawal_ada: number | null;
+  treasury_tier: string | null;
+  drep_yes_power_ada: number | null;
+  drep_no_power_ada: number | null;
+  drep_abstain_power_ada: number | null;
+}
+
+export interface VoteDatasetRow {
+  vote_tx_hash: string;
+  drep_id: string;
+  proposal_tx_hash: string;
+  proposal_index: number;
+  vote: string;
+  cast_at: string;
+  voting_power_ada: number | null;
+  has_rationale: boolean;
+  rationale_quality: number | null;
+}
+
+export interface ScoreDatasetRow {
+  drep_id: string;
+  snapshot_date: string;
+  score: number;
+  engagement_quality: number | null;
+  effective_participation: number | null;
+  reliability: number | null;
+  governance_identity: number | null;
+  methodology_version: string;
+}
+
+export interface GhiDatasetRow {
+  component: string;
+  value: number;
+  weight: number | null;
+  contribution: number | null;
+}
+
+export interface EpochDataset {
+  epoch: number;
+  proposals: ProposalDatasetRow[];
+  votes: VoteDatasetRow[];
+  scores: ScoreDatasetRow[];
+  ghi: GhiDatasetRow[];
+}
+
+/** Column order for CSV output */
+export const DATASET_COLUMNS: { [K in DatasetName]: (keyof EpochDataset[K][number] & string)[] } = {
+  proposals: [
+    'tx_hash',
+    'proposal_index',
+    'title',
+    'proposal_type',
+    'proposed_epoch',
+    'outcome',
+    'outcome_epoch',
+    'withdrawal_ada',
+    'treasury_tier',
+    'drep_yes_power_ada',
+    'drep_no_power_ada',
+    'drep_abstain_power_ada',
+  ],
+  votes: [
+    'vote_tx_hash',
+    'drep_id',
+    'proposal_tx_hash',
+    'proposal_index',
+    'vote',
+    'cast_at',
+    'voting_power_ada',
+    'has_rationale',
+    'rationale_quality',
+  ],
+  scores: [
+    'drep_id',
+    'snapshot_date',
+    'score',
+    'engagement_quality',
+    'effective_participation',
+    'reliability',
+    'governance_identity',
+    'methodology_version',
+  ],
+  ghi: ['component', 'value', 'weight', 'contribution'],
+};
+
+export function datasetToCsv(data: EpochDataset, name: DatasetName): string {
+  switch (name) {
+    case 'proposals':
+      return toCsv(data.proposals, DATASET_COLUMNS.proposals);
+    case 'votes':
+      return toCsv(data.votes, DATASET_COLUMNS.votes);
+    case 'scores':
+      return toCsv(data.scores, DATASET_COLUMNS.scores);
+    case 'ghi':
+      return toCsv(data.ghi, DATASET_COLUMNS.ghi);
+  }
+}
+
+interface ProposalRow {
+  tx_hash: string;
+  proposal_index: number;
+  title: string | null;
+  proposal_type: string;
+  proposed_epoch: number | null;
+  ratified_epoch: number | null;
+  enacted_epoch: number | null;
+  dropped_epoch: number | null;
+  expired_epoch: number | null;
+  withdrawal_amount: number | string | null;
+  treasury_tier: string | null;
+}
+
+const PROPOSAL_COLUMNS =
+  'tx_hash, proposal_index, title, proposal_type, proposed_epoch, ratified_epoch, enacted_epoch, dropped_epoch, expired_epoch, withdrawal_amount, treasury_tier';
+
+const lovelaceToAda = (v: number | string | null | undefined) =>
+  v != null ? Math.round(Number(v) / 1_000_000) : null;
+
+/** Same precedence as the State of Governance report */
+function proposalOutcome(p: ProposalRow): { outcome: string; epoch: number | null } {
+  if (p.enacted_epoch) return { outcome: 'enacted', epoch: p.enacted_epoch };
+  if (p.ratified_epoch) return { outcome: 'ratified', epoch: p.ratified_epoch };
+  if (p.dropped_epoch) return { outcome: 'dropped', epoch: p.dropped_epoch };
+  if (p.expired_epoch) return { outcome: 'expired', epoch: p.expired_epoch };
+  return { outcome: 'open', epoch: null };
+}
+
+/** A proposal was live during `epoch` if submitted by then and not closed before it */
+function liveDuring(p: ProposalRow, epoch: number): boolean {
+  if (p.proposed_epoch == null || p.proposed_epoch > epoch) return false;
+  const closed = [p.ratified_epoch, p.dropped_epoch, p.expired_epoch].filter(
+    (e): e is number => e != null,
+  );
+  return closed.length === 0 || Math.min(...closed) >= epoch;
+}
+
+/**
+ * Everything behind an epoch's report: proposals proposed or resolved that
+ * epoch, DRep votes cast in it, each DRep's last score snapshot of the epoch
+ * and the GHI components.
+ */
+export async function assembleEpochDataset(
+  epoch: number,
+  report: ReportData | null,
+): Promise<EpochDataset> {
+  const supabase = getSupabaseAdmin();
+
+  const [proposalRows, voteRows, scoreRows, { data: ghiSnapshot }] = await Promise.all([
+    fetchAll<ProposalRow>(
+      supabase
+        .from('proposals')
+        .select(PROPOSAL_COLUMNS)
+        .or(
+          `proposed_epoch.eq.${epoch},ratified_epoch.eq.${epoch},enacted_epoch.eq.${epoch},dropped_epoch.eq.${epoch},expired_epoch.eq.${epoch}`,
+        ),
+    ),
+    fetchAll<{
+      vote_tx_hash: string;
+      drep_id: string;
+      proposal_tx_hash: string;
+      proposal_index: number;
+      vote: string;
+      block_time: number;
+      voting_power_lovelace: number | null;
+      meta_url: string | null;
+      rationale_quality: number | null;
+    }>(
+      supabase
+        .from('drep_votes')
+        .select(
+          'vote_tx_hash, drep_id, proposal_tx_hash, proposal_index, vote, block_time, voting_power_lovelace, meta_url, rationale_quality',
+        )
+        .eq('epoch_no', epoch)
+        .order('block_time', { ascending: true }),
+    ),
+    fetchAll<{
+      drep_id: string;
+      snapshot_date: string;
+      score: number;
+      engagement_quality: number | null;
+      effective_participation_v3: number | null;
+      reliability_v3: number | null;
+      governance_identity: number | null;
+      methodology_version: string;
+    }>(
+      supabase
+        .from('drep_score_history')
+        .select(
+          'drep_id, snapshot_date, score, engagement_quality, effective_participation_v3, reliability_v3, governance_identity, methodology_version',
+        )
+        .eq('epoch_no', epoch)
+        .order('snapshot_date', { ascending: false }),
+    ),
+    supabase
+      .from('ghi_snapshots')
+      .select('score, band, components')
+      .eq('epoch_no', epoch)
+      .maybeSingle(),
+  ]);
+
+  const { data: summaries } = proposalRows.length
+    ? await supabase
+        .from('proposal_voting_summary')
+        .select(
+          'proposal_tx_hash, proposal_index, drep_yes_vote_power, drep_no_vote_power, drep_abstain_vote_power',
+        )
+        .in(
+          'proposal_tx_hash',
+          proposalRows.map((p) => p.tx_hash),
+        )
+    : { data: [] };
+  const summaryByKey = new Map(
+    (summaries ?? []).map((s) => [`${s.proposal_tx_hash}-${s.proposal_index}`, s]),
+  );
+
+  const proposals = proposalRows.map((p): ProposalDatasetRow => {
+    const { outcome, epoch: outcomeEpoch } = proposalOutcome(p);
+    const summary = summaryByKey.get(`${p.tx_hash}-${p.proposal_index}`);
+    return {
+      tx_hash: p.tx_hash,
+      proposal_index: p.proposal_index,
+      title: p.title,
+      proposal_type: p.proposal_type,
+      proposed_epoch: p.proposed_epoch,
+      outcome,
+      outcome_epoch: outcomeEpoch,
+      withdrawal_ada: lovelaceToAda(p.withdrawal_amount),
+      treasury_tier: p.treasury_tier,
+      drep_yes_power_ada: lovelaceToAda(summary?.drep_yes_vote_power),
+      drep_no_power_ada: lovelaceToAda(summary?.drep_no_vote_power),
+      drep_abstain_power_ada: lovelaceToAda(summary?.drep_abstain_vote_power),
+    };
+  });
+
+  const votes = voteRows.map((v): VoteDatasetRow => ({
+    vote_tx_hash: v.vote_tx_hash,
+    drep_id: v.drep_id,
+    proposal_tx_hash: v.proposal_tx_hash,
+    proposal_index: v.proposal_index,
+    vote: v.vote,
+    cast_at: new Date(v.block_time * 1000).toISOString(),
+    voting_power_ada: lovelaceToAda(v.voting_power_lovelace),
+    has_rationale: v.meta_url != null,
+    rationale_quality: v.rationale_quality,
+  }));
+
+  // Rows arrive newest first, so the first row per DRep is its end-of-epoch snapshot
+  const seen = new Set<string>();
+  const scores: ScoreDatasetRow[] = [];
+  for (const s of scoreRows) {
+    if (seen.has(s.drep_id)) continue;
+    seen.add(s.drep_id);
+    scores.push({
+      drep_id: s.drep_id,
+      snapshot_date: s.snapshot_date,
+      score: s.score,
+      engagement_quality: s.engagement_quality,
+      effective_participation: s.effective_participation_v3,
+      reliability: s.reliability_v3,
+      governance_identity: s.governance_identity,
+      methodology_version: s.methodology_version,
+    });
+  }
+  scores.sort((a, b) => b.score - a.score);
+
+  const ghiScore = ghiSnapshot ? Number(ghiSnapshot.score) : report?.ghi.score;
+  const components = ghiSnapshot
+    ? (ghiSnapshot.components as unknown as GHIComponent[])
+    : (report?.ghi.components ?? []);
+  const ghi: GhiDatasetRow[] = [
+    ...(ghiScore != null
+      ? [
+          {
+            component: 'Governance Health Index',
+            value: ghiScore,
+            weight: null,
+            contribution: null,
+          },
+        ]
+      : []),
+    ...(Array.isArray(components) ? components : []).map((c) => ({
+      component: c.name,
+      value: c.value,
+      weight: c.weight,
+      contribution: c.contribution,
+    })),
+  ];
+
+  return { epoch, proposals, votes, scores, ghi };
+}
+
+// ---------------------------------------------------------------------------
+// Per-DRep accountability
+// ---------------------------------------------------------------------------
+
+export interface DRepAccountabilityReport {
+  epoch: number;
+  drepId: string;
+  name: string | null;
+  score: {
+    score: number;
+    engagementQuality: number | null;
+    effectiveParticipation: number | null;
+    reliability: number | null;
+    governanceIdentity: number | null;
+    momentum: number | null;
+    snapshotDate: string;
+  } | null;
+  /** Proposals live during the epoch and whether the DRep had voted on them by its end */
+  participation: { live: number; voted: number; rate: number | null };
+  /** Share of the epoch's votes that carried a rationale anchor */
+  rationaleRate: number | null;
+  votes: {
+    proposalTxHash: string;
+    proposalIndex: number;
+    title: string | null;
+    vote: string;
+    castAt: string;
+    hasRationale: boolean;
+    rationaleQuality: number | null;
+  }[];
+  missed: { txHash: string; index: number; title: string | null; type: string }[];
+  /** Rationales flagged as copied, recycled or boilerplate (appeals upheld excluded) */
+  originalityFlags: number;
+}
+
+export async function assembleDRepAccountability(
+  drepId: string,
+  epoch: number,
+): Promise<DRepAccountabilityReport | null> {
+  const supabase = getSupabaseAdmin();
+  const { data: drep } = await supabase
+    .from('dreps')
+    .select('id, info')
+    .eq('id', drepId)
+    .maybeSingle();
+  if (!drep) return null;
+
+  const [{ data: scoreRow }, voteRows, liveRows, { count: flagCount }] = await Promise.all([
+    supabase
+      .from('drep_score_history')
+      .select(
+        'score, engagement_quality, effective_participation_v3, reliability_v3, governance_identity, score_momentum, snapshot_date',
+      )
+      .eq('drep_id', drepId)
+      .lte('epoch_no', epoch)
+      .order('snapshot_date', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    fetchAll<{
+      proposal_tx_hash: string;
+      proposal_index: number;
+      vote: string;
+      block_time: number;
+      epoch_no: number | null;
+      meta_url: string | null;
+      rationale_quality: number | null;
+    }>(
+      supabase
+        .from('drep_votes')
+        .select(
+          'proposal_tx_hash, proposal_index, vote, block_time, epoch_no, meta_url, rationale_quality',
+        )
+        .eq('drep_id', drepId)
+        .lte('epoch_no', epoch)
+        .order('block_time', { ascending: true }),
+    ),
+    fetchAll<ProposalRow>(
+      supabase.from('proposals').select(PROPOSAL_COLUMNS).lte('proposed_epoch', epoch),
+    ),
+    supabase
+      .from('rationale_originality_flags')
+      .select('vote_tx_hash', { count: 'exact', head: true })
+      .eq('drep_id', drepId)
+      .neq('appeal_status', 'upheld'),
+  ]);
+
+  const titles = new Map(liveRows.map((p) => [`${p.tx_hash}-${p.proposal_index}`, p.title]));
+  const votedKeys = new Set(voteRows.map((v) => `${v.proposal_tx_hash}-${v.proposal_index}`));
+  const live = liveRows.filter((p) => liveDuring(p, epoch));
+  const missed = live
+    .filter((p) => !votedKeys.has(`${p.tx_hash}-${p.proposal_index}`))
+    .map((p) => ({
+      txHash: p.tx_hash,
+      index: p.proposal_index,
+      title: p.title,
+      type: p.proposal_type,
+    }));
+  const voted = live.length - missed.length;
+
+  const epochVotes = voteRows.filter((v) => v.epoch_no === epoch);
+  const withRationale = epochVotes.filter((v) => v.meta_url != null).length;
+  const info = drep.info as { givenName?: string | null; name?: string | null } | null;
+
+  return {
+    epoch,
+    drepId,
+    name: info?.givenName || info?.name || null,
+    score: scoreRow
+      ? {
+          score: scoreRow.score,
+          engagementQuality: scoreRow.engagement_quality,
+          effectiveParticipation: scoreRow.effective_participation_v3,
+          reliability: scoreRow.reliability_v3,
+          governanceIdentity: scoreRow.governance_identity,
+          momentum: scoreRow.score_momentum,
+          snapshotDate: scoreRow.snapshot_date,
+        }
+      : null,
+    participation: {
+      live: live.length,
+      voted,
+      rate: live.length > 0 ? Math.round((voted / live.length) * 100) : null,
+    },
+    rationaleRate:
+      epochVotes.length > 0 ? Math.round((withRationale / epochVotes.length) * 100) : null,
+    votes: epochVotes.map((v) => ({
+      proposalTxHash: v.proposal_tx_hash,
+      proposalIndex: v.proposal_index,
+      title: titles.get(`${v.proposal_tx_hash}-${v.proposal_index}`) ?? null,
+      vote: v.vote,
+      castAt: new Date(v.block_time * 1000).toISOString(),
+      hasRationale: v.meta_url != null,
+      rationaleQuality: v.rationale_quality,
+    })),
+    missed,
+    originalityFlags: flagCount ?? 0,
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Report exports — generates governance and DRep report files on the server
+ * and caches them in report_exports, keyed by epoch.
+ *
+ * Exports for a closed epoch never change and are kept indefinitely; exports
+ * for the epoch in progress expire after OPEN_EPOCH_TTL_MS so they pick up
+ * new votes. generate-report-exports pre-builds each epoch's governance
+ * bundle; DRep reports are built on first request.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { blockTimeToEpoch } from '@/lib/koios';
+import type { ReportData } from '@/lib/stateOfGovernance';
+import { toCsv } from './csv';
+import {
+  assembleDRepAccountability,
+  assembleEpochDataset,
+  datasetToCsv,
+  DATASETS,
+  type DatasetName,
+  type EpochDataset,
+} from './datasets';
+import { renderDRepReportPdf, renderGovernanceReportPdf } from './render';
+
+export const REPORT_FORMATS = ['pdf', 'json', 'csv'] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export function isReportFormat(value: string | null): value is ReportFormat {
+  return value != null && (REPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export interface ReportExport {
+  body: Buffer | string;
+  contentType: string;
+  filename: string;
+  generatedAt: string;
+}
+
+const OPEN_EPOCH_TTL_MS = 6 * 60 * 60 * 1000;
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+};
+
+export function currentEpoch(): number {
+  return blockTimeToEpoch(Math.floor(Date.now() / 1000));
+}
+
+async function cachedExport(
+  key: string,
+  epoch: number,
+  format: ReportFormat,
+  filename: string,
+  build: () => Promise<Buffer | string | null>,
+  force: boolean,
+): Promise<ReportExport | null> {
+  const supabase = getSupabaseAdmin();
+
+  if (!force) {
+    const { data: hit } = await supabase
+      .from('report_exports')
+      .select('body, encoding, generated_at, expires_at')
+      .eq('cache_key', key)
+      .maybeSingle();
+    if (hit && (!hit.expires_at || new Date(hit.expires_at).getTime() > Date.now())) {
+      return {
+        body: hit.encoding === 'base64' ? Buffer.from(hit.body, 'base64') : hit.body,
+        contentType: CONTENT_TYPES[format],
+        filename,
+        generatedAt: hit.generated_at,
+      };
+    }
+  }
+
+  const body = await build();
+  if (body == null) return null;
+
+  const generatedAt = new Date().toISOString();
+  const binary = Buffer.isBuffer(body);
+  await supabase.from('report_exports').upsert(
+    {
+      cache_key: key,
+      epoch_no: epoch,
+      format,
+      encoding: binary ? 'base64' : 'utf8',
+      body: binary ? body.toString('base64') : body,
+      byte_size: binary ? body.length : Buffer.byteLength(body),
+      generated_at: generatedAt,
+      expires_at:
+        epoch < currentEpoch() ? null : new Date(Date.now() + OPEN_EPOCH_TTL_MS).toISOString(),
+    },
+    { onConflict: 'cache_key' },
+  );
+
+  return { body, contentType: CONTENT_TYPES[format], filename, generatedAt };
+}
+
+async function loadStateOfGovernance(
+  epoch: number,
+): Promise<{ data: ReportData; narrative: string | null } | null> {
+  const { data } = await getSupabaseAdmin()
+    .from('state_of_governance_reports')
+    .select('report_data, narrative_html')
+    .eq('epoch_no', epoch)
+    .eq('published', true)
+    .maybeSingle();
+  if (!data) return null;
+  return { data: data.report_data as unknown as ReportData, narrative: data.narrative_html };
+}
+
+/** Most recent epoch with a published State of Governance report */
+export async function latestReportEpoch(): Promise<number | null> {
+  const { data } = await getSupabaseAdmin()
+    .from('state_of_governance_reports')
+    .select('epoch_no')
+    .eq('published', true)
+    .order('epoch_no', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data?.epoch_no ?? null;
+}
+
+interface EpochSource {
+  report: { data: ReportData; narrative: string | null } | null;
+  dataset: EpochDataset;
+}
+
+async function loadEpochSource(epoch: number): Promise<EpochSource> {
+  const report = await loadStateOfGovernance(epoch);
+  return { report, dataset: await assembleEpochDataset(epoch, report?.data ?? null) };
+}
+
+/**
+ * The epoch's State of Governance PDF, its JSON bundle (report + all
+ * datasets) or one dataset as CSV. Null when the epoch has not started, or
+ * for the PDF when no report was published for it.
+ */
+export async function getGovernanceReportExport(
+  epoch: number,
+  format: ReportFormat,
+  dataset: DatasetName = 'proposals',
+  options: { force?: boolean; source?: () => Promise<EpochSource> } = {},
+): Promise<ReportExport | null> {
+  if (epoch > currentEpoch()) return null;
+  const force = options.force ?? false;
+  const source = options.source ?? (() => loadEpochSource(epoch));
+  const base = `civica-governance-epoch-${epoch}`;
+
+  if (format === 'pdf') {
+    return cachedExport(
+      `governance:${epoch}:pdf`,
+      epoch,
+      format,
+      `civica-state-of-governance-epoch-${epoch}.pdf`,
+      async () => {
+        const report = await loadStateOfGovernance(epoch);
+        return report ? renderGovernanceReportPdf(report.data, report.narrative) : null;
+      },
+      force,
+    );
+  }
+
+  if (format === 'csv') {
+    return cachedExport(
+      `governance:${epoch}:csv:${dataset}`,
+      epoch,
+      format,
+      `${base}-${dataset}.csv`,
+      async () => datasetToCsv((await source()).dataset, dataset),
+      force,
+    );
+  }
+
+  return cachedExport(
+    `governance:${epoch}:json`,
+    epoch,
+    format,
+    `${base}.json`,
+    async () => {
+      const { report, dataset: data } = await source();
+      return JSON.stringify({
+        epoch,
+        report: report?.data ?? null,
+        narrative: report?.narrative ?? null,
+        datasets: {
+          proposals: data.proposals,
+          votes: data.votes,
+          scores: data.scores,
+          ghi: data.ghi,
+        },
+      });
+    },
+    force,
+  );
+}
+
+/** The DRep's accountability report for an epoch; CSV holds the epoch's votes. */
+export async function getDRepReportExport(
+  drepId: string,
+  epoch: number,
+  format: ReportFormat,
+  options: { force?: boolean } = {},
+): Promise<ReportExport | null> {
+  if (epoch > currentEpoch()) return null;
+  const base = `civica-drep-${drepId.slice(0, 20)}-epoch-${epoch}`;
+
+  return cachedExport(
+    `drep:${drepId}:${epoch}:${format}`,
+    epoch,
+    format,
+    `${base}.${format}`,
+    async () => {
+      const report = await assembleDRepAccountability(drepId, epoch);
+      if (!report) return null;
+      if (format === 'pdf') return renderDRepReportPdf(report);
+      if (format === 'csv') {
+        return toCsv(report.votes, [
+          'proposalTxHash',
+          'proposalIndex',
+          'title',
+          'vote',
+          'castAt',
+          'hasRationale',
+          'rationaleQuality',
+        ]);
+      }
+      return JSON.stringify(report);
+    },
+    options.force ?? false,
+  );
+}
+
+/** Rebuild every governance export for the epoch. Returns the number of files built. */
+export async function warmGovernanceExports(epoch: number): Promise<number> {
+  // Load the epoch's data once for all files
+  let loaded: Promise<EpochSource> | null = null;
+  const source = () => (loaded ??= loadEpochSource(epoch));
+
+  let built = 0;
+  const jobs: [ReportFormat, DatasetName | undefined][] = [
+    ['pdf', undefined],
+    ['json', undefined],
+    ...DATASETS.map((d): [ReportFormat, DatasetName] => ['csv', d]),
+  ];
+  for (const [format, dataset] of jobs) {
+    if (await getGovernanceReportExport(epoch, format, dataset, { force: true, source })) built++;
+  }
+  return built;
+}
+
+/** Drop cached files past their expiry (open-epoch DRep reports pile up otherwise) */
+export async function pruneExpiredExports(): Promise<number> {
+  const { count } = await getSupabaseAdmin()
+    .from('report_exports')
+    .delete({ count: 'exact' })
+    .lt('expires_at', new Date().toISOString());
+  return count ?? 0;
+}
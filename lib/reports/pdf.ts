@@ -0,0 +1,307 @@
+/**
+ * Minimal PDF writer for server-generated reports.
+ *
+ * Text-and-shapes only: the standard Helvetica faces (no font embedding),
+ * WinAnsi encoding, filled rectangles and rules. A top-down cursor handles
+ * wrapping and page breaks so report builders only describe content. Output
+ * is PDF 1.4 and opens in every mainstream viewer.
+ */
+
+export type Rgb = [number, number, number];
+
+export interface TableColumn {
+  header: string;
+  /** Share of the content width, 0-1 */
+  width: number;
+  align?: 'left' | 'right';
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = 30;
+
+const TEXT: Rgb = [0.1, 0.1, 0.12];
+export const MUTED: Rgb = [0.42, 0.44, 0.48];
+const RULE: Rgb = [0.85, 0.86, 0.88];
+const TRACK: Rgb = [0.92, 0.93, 0.94];
+
+/** Unicode → WinAnsi code points outside Latin-1 that reports commonly use */
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+/** Approximate Helvetica advance widths (1/1000 em) — good enough for wrapping */
+function glyphWidth(ch: string, bold: boolean): number {
+  let w: number;
+  if (" .,:;!|ijl'`".includes(ch)) w = 278;
+  else if ('ftrI()[]-/'.includes(ch)) w = 333;
+  else if ('mwMW@%'.includes(ch)) w = 889;
+  else if (/[A-Z]/.test(ch)) w = 667;
+  else w = 556;
+  return bold ? w * 1.06 : w;
+}
+
+export function textWidth(text: string, size: number, bold = false): number {
+  let total = 0;
+  for (const ch of text) total += glyphWidth(ch, bold);
+  return (total * size) / 1000;
+}
+
+/** Encode to WinAnsi and escape for a PDF string literal */
+function pdfString(text: string): string {
+  let out = '';
+  for (const ch of text.normalize('NFC')) {
+    const code = ch.codePointAt(0)!;
+    let c: string;
+    if (WIN_ANSI[ch] != null) c = String.fromCharCode(WIN_ANSI[ch]);
+    else if (code === 0x20b3) c = 'ADA ';
+    else if (code >= 0x20 && code <= 0xff && code !== 0x7f) c = ch;
+    else if (ch === '\t') c = ' ';
+    else c = '?';
+    out += c === '\\' || c === '(' || c === ')' ? `\\${c}` : c;
+  }
+  return `(${out})`;
+}
+
+function color(rgb: Rgb): string {
+  return rgb.map((v) => v.toFixed(3)).join(' ');
+}
+
+function fmt(n: number): string {
+  return (Math.round(n * 100) / 100).toString();
+}
+
+/** Greedy word wrap; overlong words are hard-split */
+export function wrapText(text: string, size: number, maxWidth: number, bold = false): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      let rest = word;
+      while (textWidth(rest, size, bold) > maxWidth) {
+        let cut = rest.length - 1;
+        while (cut > 1 && textWidth(rest.slice(0, cut), size, bold) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function truncateToWidth(text: string, size: number, maxWidth: number, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let cut = text.length;
+  while (cut > 0 && textWidth(`${text.slice(0, cut)}…`, size, bold) > maxWidth) cut--;
+  return `${text.slice(0, cut)}…`;
+}
+
+export class PdfReport {
+  private pages: string[][] = [];
+  private y = 0;
+
+  constructor(
+    private readonly title: string,
+    private readonly footer: string,
+  ) {
+    this.newPage();
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private newPage(): void {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /** Break to a new page unless `height` points still fit */
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN) this.newPage();
+  }
+
+  private text(x: number, y: number, text: string, size: number, bold: boolean, rgb: Rgb): void {
+    this.ops.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${color(rgb)} rg ${fmt(x)} ${fmt(y)} Td ${pdfString(text)} Tj ET`,
+    );
+  }
+
+  private rect(x: number, y: number, w: number, h: number, rgb: Rgb): void {
+    this.ops.push(`${color(rgb)} rg ${fmt(x)} ${fmt(y)} ${fmt(w)} ${fmt(h)} re f`);
+  }
+
+  private rule(y: number): void {
+    this.ops.push(
+      `${color(RULE)} RG 0.5 w ${MARGIN} ${fmt(y)} m ${MARGIN + CONTENT_WIDTH} ${fmt(y)} l S`,
+    );
+  }
+
+  heading(text: string, size = 14): void {
+    this.ensureSpace(size * 2.4);
+    this.y -= size * 1.4;
+    this.text(MARGIN, this.y, text, size, true, TEXT);
+    this.y -= size * 0.5;
+    this.rule(this.y);
+    this.y -= size * 0.5;
+  }
+
+  paragraph(
+    text: string,
+    options: { size?: number; bold?: boolean; color?: Rgb; gap?: number } = {},
+  ): void {
+    const size = options.size ?? 10;
+    const leading = size * 1.4;
+    for (const line of wrapText(text, size, CONTENT_WIDTH, options.bold)) {
+      this.ensureSpace(leading);
+      this.y -= leading;
+      this.text(MARGIN, this.y, line, size, options.bold ?? false, options.color ?? TEXT);
+    }
+    this.y -= options.gap ?? size * 0.6;
+  }
+
+  /** Big figures side by side, e.g. headline stats */
+  statStrip(stats: { label: string; value: string }[]): void {
+    this.ensureSpace(48);
+    const colWidth = CONTENT_WIDTH / Math.max(stats.length, 1);
+    stats.forEach((s, i) => {
+      const x = MARGIN + i * colWidth;
+      this.text(x, this.y - 20, s.value, 18, true, TEXT);
+      this.text(x, this.y - 34, s.label, 8, false, MUTED);
+    });
+    this.y -= 48;
+  }
+
+  /** Labelled 0-100 bar */
+  bar(label: string, value: number, rgb: Rgb, suffix = `${Math.round(value)}/100`): void {
+    this.ensureSpace(22);
+    this.y -= 12;
+    this.text(MARGIN, this.y, label, 9, false, TEXT);
+    const suffixWidth = textWidth(suffix, 9, true);
+    this.text(MARGIN + CONTENT_WIDTH - suffixWidth, this.y, suffix, 9, true, TEXT);
+    this.y -= 7;
+    this.rect(MARGIN, this.y, CONTENT_WIDTH, 4, TRACK);
+    const clamped = Math.max(0, Math.min(100, value));
+    if (clamped > 0) this.rect(MARGIN, this.y, (CONTENT_WIDTH * clamped) / 100, 4, rgb);
+    this.y -= 3;
+  }
+
+  table(columns: TableColumn[], rows: string[][]): void {
+    const size = 8.5;
+    const rowHeight = size * 1.8;
+    const widths = columns.map((c) => c.width * CONTENT_WIDTH);
+
+    const drawRow = (cells: string[], bold: boolean, rgb: Rgb) => {
+      let x = MARGIN;
+      cells.forEach((cell, i) => {
+        const w = widths[i];
+        const value = truncateToWidth(cell, size, w - 6, bold);
+        const tx = columns[i].align === 'right' ? x + w - 4 - textWidth(value, size, bold) : x;
+        this.text(tx, this.y, value, size, bold, rgb);
+        x += w;
+      });
+    };
+    const header = () => {
+      this.y -= rowHeight;
+      drawRow(
+        columns.map((c) => c.header),
+        true,
+        MUTED,
+      );
+      this.y -= size * 0.6;
+      this.rule(this.y);
+    };
+
+    this.ensureSpace(rowHeight * 3);
+    header();
+    for (const row of rows) {
+      if (this.y - rowHeight < MARGIN) {
+        this.newPage();
+        header();
+      }
+      this.y -= rowHeight;
+      drawRow(row, false, TEXT);
+    }
+    this.y -= size;
+  }
+
+  spacer(height = 10): void {
+    this.y -= height;
+  }
+
+  /** Serialize; page footers are stamped here once the page count is known */
+  toBuffer(): Buffer {
+    const total = this.pages.length;
+    const objects: string[] = [];
+    // push() returns the new length, which is the 1-based object number
+    const add = (body: string) => objects.push(body);
+
+    const catalog = add('');
+    const pagesObj = add('');
+    const fontRegular = add(
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    );
+    const fontBold = add(
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    );
+    const info = add(
+      `<< /Title ${pdfString(this.title)} /Producer (Civica) /CreationDate (D:${new Date()
+        .toISOString()
+        .replace(/[-:T]/g, '')
+        .slice(0, 14)}Z) >>`,
+    );
+
+    const pageRefs: number[] = [];
+    this.pages.forEach((ops, i) => {
+      const footer = [
+        `BT /F1 7 Tf ${color(MUTED)} rg ${MARGIN} ${FOOTER_Y} Td ${pdfString(this.footer)} Tj ET`,
+        `BT /F1 7 Tf ${color(MUTED)} rg ${PAGE_WIDTH - MARGIN - 40} ${FOOTER_Y} Td ${pdfString(
+          `Page ${i + 1} of ${total}`,
+        )} Tj ET`,
+      ];
+      const stream = [...ops, ...footer].join('\n');
+      const content = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+      pageRefs.push(
+        add(
+          `<< /Type /Page /Parent ${pagesObj} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 ${fontRegular} 0 R /F2 ${fontBold} 0 R >> >> /Contents ${content} 0 R >>`,
+        ),
+      );
+    });
+
+    objects[catalog - 1] = `<< /Type /Catalog /Pages ${pagesObj} 0 R >>`;
+    objects[pagesObj - 1] =
+      `<< /Type /Pages /Kids [${pageRefs.map((r) => `${r} 0 R`).join(' ')}] /Count ${total} >>`;
+
+    let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(out.length);
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xref = out.length;
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for (const o of offsets) out += `${o.toString().padStart(10, '0')} 00000 n \n`;
+    out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    // Every character is in 0-255, so latin1 maps one char to one byte and offsets hold
+    return Buffer.from(out, 'latin1');
+  }
+}
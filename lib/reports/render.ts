@@ -0,0 +1,215 @@
+/**
+ * PDF layouts for the State of Governance report and the per-DRep
+ * accountability report. Section order follows the pulse report page.
+ */
+
+import { GHI_BAND_COLORS, GHI_BAND_LABELS, type GHIBand } from '@/lib/ghi';
+import type { ReportData } from '@/lib/stateOfGovernance';
+import { PdfReport, MUTED, type Rgb } from './pdf';
+import type { DRepAccountabilityReport } from './datasets';
+
+const SITE = 'drepscore.io';
+const PILLAR: Rgb = [0.4, 0.35, 0.85];
+
+function hexToRgb(hex: string): Rgb {
+  const n = parseInt(hex.replace('#', ''), 16);
+  return [((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255];
+}
+
+function signed(n: number): string {
+  return `${n > 0 ? '+' : ''}${n}`;
+}
+
+function shortId(id: string): string {
+  return id.length > 20 ? `${id.slice(0, 16)}…` : id;
+}
+
+export function renderGovernanceReportPdf(data: ReportData, narrative: string | null): Buffer {
+  const pdf = new PdfReport(
+    `State of Governance — Epoch ${data.epoch}`,
+    `State of Governance · Epoch ${data.epoch} · ${SITE}/pulse/report/${data.epoch}`,
+  );
+  const band = data.ghi.band as GHIBand;
+  const ghiDelta =
+    data.ghiPrevScore != null ? Math.round((data.ghi.score - data.ghiPrevScore) * 10) / 10 : null;
+
+  pdf.paragraph(`Epoch ${data.epoch} · ${data.dateRange.start} – ${data.dateRange.end}`, {
+    size: 9,
+    color: MUTED,
+    gap: 2,
+  });
+  pdf.paragraph('State of Governance', { size: 24, bold: true, gap: 8 });
+  pdf.statStrip([
+    {
+      label: `GHI · ${GHI_BAND_LABELS[band]}${ghiDelta ? ` · ${signed(ghiDelta)}` : ''}`,
+      value: `${data.ghi.score}/100`,
+    },
+    { label: 'Active DReps', value: String(data.stats.activeDReps) },
+    { label: 'Votes', value: String(data.stats.totalVotes) },
+    { label: 'ADA governed', value: data.stats.totalAdaGoverned },
+    { label: 'Avg participation', value: `${data.stats.avgParticipation}%` },
+  ]);
+
+  if (narrative) {
+    pdf.heading('Editorial');
+    for (const para of narrative.split(/\n{2,}/)) pdf.paragraph(para.trim());
+  }
+
+  pdf.heading('Health Index Breakdown');
+  const bandColor = hexToRgb(GHI_BAND_COLORS[band]);
+  for (const c of data.ghi.components) {
+    pdf.bar(`${c.name} (weight ${Math.round(c.weight * 100)}%)`, c.value, bandColor);
+  }
+
+  if (data.insights.length > 0) {
+    pdf.heading('Key Insights');
+    for (const i of data.insights) {
+      pdf.paragraph(`${i.headline} — ${i.stat}`, { bold: true, gap: 1 });
+      pdf.paragraph(i.description, { size: 9, color: MUTED });
+    }
+  }
+
+  if (data.proposals.length > 0) {
+    pdf.heading('Proposal Outcomes');
+    pdf.table(
+      [
+        { header: 'Proposal', width: 0.5 },
+        { header: 'Type', width: 0.22 },
+        { header: 'Outcome', width: 0.12 },
+        { header: 'Withdrawal (ADA)', width: 0.16, align: 'right' },
+      ],
+      data.proposals.map((p) => [
+        p.title || `${p.txHash.slice(0, 12)}…#${p.index}`,
+        p.type,
+        p.outcome,
+        p.withdrawalAda != null ? Math.round(p.withdrawalAda).toLocaleString('en-US') : '—',
+      ]),
+    );
+  }
+
+  const movers = [
+    ...data.movers.gainers.map((m) => ({ ...m, dir: 'Gainer' })),
+    ...data.movers.losers.map((m) => ({ ...m, dir: 'Decliner' })),
+  ];
+  if (movers.length > 0) {
+    pdf.heading('DRep Movers');
+    pdf.table(
+      [
+        { header: 'DRep', width: 0.5 },
+        { header: '', width: 0.2 },
+        { header: 'Score', width: 0.15, align: 'right' },
+        { header: 'Change', width: 0.15, align: 'right' },
+      ],
+      movers.map((m) => [m.name, m.dir, String(m.score), signed(m.delta)]),
+    );
+  }
+
+  pdf.heading('Treasury');
+  pdf.paragraph(`Treasury balance: ${data.treasuryBalance} ADA`);
+
+  pdf.spacer();
+  pdf.paragraph(
+    `Source data for this report (proposals, votes, scores, GHI components) is available as JSON and CSV from the Civica API: /api/v1/governance/reports/${data.epoch}.`,
+    { size: 8, color: MUTED },
+  );
+
+  return pdf.toBuffer();
+}
+
+export function renderDRepReportPdf(report: DRepAccountabilityReport): Buffer {
+  const label = report.name || shortId(report.drepId);
+  const pdf = new PdfReport(
+    `DRep Accountability Report — ${label} — Epoch ${report.epoch}`,
+    `DRep Accountability · ${shortId(report.drepId)} · Epoch ${report.epoch} · ${SITE}/drep/${report.drepId}`,
+  );
+
+  pdf.paragraph(`DRep Accountability Report · Epoch ${report.epoch}`, {
+    size: 9,
+    color: MUTED,
+    gap: 2,
+  });
+  pdf.paragraph(label, { size: 22, bold: true, gap: 2 });
+  pdf.paragraph(report.drepId, { size: 8, color: MUTED, gap: 8 });
+
+  pdf.statStrip([
+    { label: 'DRep Score', value: report.score ? report.score.score.toFixed(1) : '—' },
+    {
+      label: `Voted on ${report.participation.voted} of ${report.participation.live} live proposals`,
+      value: report.participation.rate != null ? `${report.participation.rate}%` : '—',
+    },
+    { label: 'Votes this epoch', value: String(report.votes.length) },
+    {
+      label: 'Votes with rationale',
+      value: report.rationaleRate != null ? `${report.rationaleRate}%` : '—',
+    },
+  ]);
+
+  if (report.score) {
+    pdf.heading('Score Pillars');
+    const pillars: [string, number | null][] = [
+      ['Engagement Quality', report.score.engagementQuality],
+      ['Effective Participation', report.score.effectiveParticipation],
+      ['Reliability', report.score.reliability],
+      ['Governance Identity', report.score.governanceIdentity],
+    ];
+    for (const [name, value] of pillars) {
+      if (value != null) pdf.bar(name, value, PILLAR);
+    }
+    pdf.paragraph(
+      `Snapshot ${report.score.snapshotDate}${
+        report.score.momentum != null ? ` · momentum ${signed(report.score.momentum)}` : ''
+      }`,
+      { size: 8, color: MUTED },
+    );
+  }
+
+  pdf.heading('Votes Cast');
+  if (report.votes.length === 0) {
+    pdf.paragraph('No votes cast this epoch.', { color: MUTED });
+  } else {
+    pdf.table(
+      [
+        { header: 'Proposal', width: 0.5 },
+        { header: 'Vote', width: 0.12 },
+        { header: 'Cast', width: 0.18 },
+        { header: 'Rationale', width: 0.2 },
+      ],
+      report.votes.map((v) => [
+        v.title || `${v.proposalTxHash.slice(0, 12)}…#${v.proposalIndex}`,
+        v.vote,
+        v.castAt.slice(0, 10),
+        v.hasRationale
+          ? v.rationaleQuality != null
+            ? `Yes (quality ${Math.round(v.rationaleQuality)})`
+            : 'Yes'
+          : 'None',
+      ]),
+    );
+  }
+
+  if (report.missed.length > 0) {
+    pdf.heading('Live Proposals Without a Vote');
+    pdf.table(
+      [
+        { header: 'Proposal', width: 0.7 },
+        { header: 'Type', width: 0.3 },
+      ],
+      report.missed.map((p) => [p.title || `${p.txHash.slice(0, 12)}…#${p.index}`, p.type]),
+    );
+  }
+
+  if (report.originalityFlags > 0) {
+    pdf.heading('Rationale Originality');
+    pdf.paragraph(
+      `${report.originalityFlags} rationale${report.originalityFlags !== 1 ? 's were' : ' was'} flagged as copied, reused across proposals or boilerplate, and earn reduced Engagement Quality credit.`,
+    );
+  }
+
+  pdf.spacer();
+  pdf.paragraph(
+    'Participation counts proposals that were open for voting during the epoch. Scores are the latest snapshot taken on or before the epoch.',
+    { size: 8, color: MUTED },
+  );
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,504 @@
+/**
+ * Representation Audit — public, wallet-less delegation report for any stake address.
+ * Reconstructs epoch-by-epoch DRep delegation from delegator snapshots, attributes each
+ * delegated DRep's votes to the tenure they were cast in, and flags the epochs where
+ * the stake had no effective voice.
+ */
+
+import { createClient } from '@/lib/supabase';
+import { fetchAll } from '@/lib/sync-utils';
+import { blockTimeToEpoch } from '@/lib/koios';
+import { fetchAccountInfo } from '@/utils/koios';
+
+/** Mainnet drepActivity: a DRep with no registration, update or vote for this long is inactive */
+export const DREP_ACTIVITY_EPOCHS = 20;
+
+export const ALWAYS_ABSTAIN = 'drep_always_abstain';
+export const ALWAYS_NO_CONFIDENCE = 'drep_always_no_confidence';
+
+export type EpochStatus =
+  | 'represented'
+  | 'no_delegation'
+  | 'drep_inactive'
+  | 'drep_retired'
+  | 'always_abstain'
+  | 'always_no_confidence';
+
+export type DRepStatus = 'active' | 'inactive' | 'retired';
+
+export interface EpochDelegation {
+  drepId: string | null;
+  stakeLovelace: number;
+}
+
+export interface DRepActivity {
+  lifecycle: Array<{ epoch: number; action: 'registration' | 'update' | 'deregistration' }>;
+  voteEpochs: number[];
+}
+
+export interface TimelineEpoch {
+  epoch: number;
+  drepId: string | null;
+  stakeLovelace: number | null;
+  status: EpochStatus;
+}
+
+export interface DelegationTenure {
+  drepId: string;
+  drepName: string | null;
+  startEpoch: number;
+  endEpoch: number;
+  epochs: number;
+  /** Epochs of the tenure in which this DRep was inactive or retired */
+  unrepresentedEpochs: number;
+  avgStakeLovelace: number;
+  current: boolean;
+}
+
+export interface UnrepresentedPeriod {
+  startEpoch: number;
+  endEpoch: number;
+  epochs: number;
+  reason: Exclude<EpochStatus, 'represented'>;
+  drepId: string | null;
+}
+
+export interface AuditVote {
+  proposalTxHash: string;
+  proposalIndex: number;
+  proposalTitle: string | null;
+  proposalType: string | null;
+  drepId: string;
+  epoch: number;
+  vote: string;
+  hasRationale: boolean;
+  stakeLovelace: number | null;
+  drepPowerLovelace: number | null;
+  /** Share of the DRep's voting power contributed by this stake (0-1) */
+  powerShare: number | null;
+}
+
+export interface MissedProposal {
+  proposalTxHash: string;
+  proposalIndex: number;
+  proposalTitle: string | null;
+  proposalType: string | null;
+  drepId: string;
+}
+
+export interface RepresentationAudit {
+  stakeAddress: string;
+  currentEpoch: number;
+  current: {
+    drepId: string | null;
+    drepName: string | null;
+    status: EpochStatus;
+    stakeLovelace: number | null;
+  };
+  coverage: { fromEpoch: number; toEpoch: number; epochs: number };
+  summary: {
+    epochsRepresented: number;
+    representationRate: number;
+    drepsDelegatedTo: number;
+    votesCast: number;
+    proposalsMissed: number;
+  };
+  tenures: DelegationTenure[];
+  votes: AuditVote[];
+  missed: MissedProposal[];
+  unrepresented: UnrepresentedPeriod[];
+  timeline: TimelineEpoch[];
+}
+
+function isPredefined(drepId: string): boolean {
+  return drepId === ALWAYS_ABSTAIN || drepId === ALWAYS_NO_CONFIDENCE;
+}
+
+/**
+ * CIP-1694 status of a DRep at an epoch. Retired after a deregistration with no later
+ * registration; inactive once the last registration, update or vote is older than
+ * DREP_ACTIVITY_EPOCHS. Dormant-epoch extensions are not modelled, so long stretches
+ * without proposals can flag a DRep inactive slightly early. DReps with no recorded
+ * activity at all get the benefit of the doubt.
+ */
+export function drepStatusAt(activity: DRepActivity | undefined, epoch: number): DRepStatus {
+  if (!activity) return 'active';
+
+  let lastEvent: DRepActivity['lifecycle'][number] | null = null;
+  for (const e of activity.lifecycle) {
+    if (e.epoch <= epoch && (!lastEvent || e.epoch >= lastEvent.epoch)) lastEvent = e;
+  }
+  if (lastEvent?.action === 'deregistration') return 'retired';
+
+  let lastActive = lastEvent?.epoch ?? null;
+  for (const v of activity.voteEpochs) {
+    if (v <= epoch && (lastActive === null || v > lastActive)) lastActive = v;
+  }
+  if (lastActive === null) return 'active';
+  return epoch - lastActive > DREP_ACTIVITY_EPOCHS ? 'inactive' : 'active';
+}
+
+/**
+ * Build the per-epoch delegation timeline over the covered epochs.
+ * Snapshots only record delegators of active DReps, so an epoch missing from the
+ * snapshots is attributed to the previous DRep when that DRep has since gone
+ * inactive or retired, and to no delegation otherwise.
+ */
+export function buildTimeline(
+  epochs: number[],
+  delegations: Map<number, EpochDelegation>,
+  activity: Map<string, DRepActivity>,
+): TimelineEpoch[] {
+  const timeline: TimelineEpoch[] = [];
+  let previous: EpochDelegation | null = null;
+
+  for (const epoch of [...epochs].sort((a, b) => a - b)) {
+    let delegation = delegations.get(epoch) ?? null;
+    if (
+      !delegation &&
+      previous?.drepId &&
+      !isPredefined(previous.drepId) &&
+      drepStatusAt(activity.get(previous.drepId), epoch) !== 'active'
+    ) {
+      delegation = { drepId: previous.drepId, stakeLovelace: previous.stakeLovelace };
+    }
+
+    const drepId = delegation?.drepId ?? null;
+    let status: EpochStatus;
+    if (!drepId) status = 'no_delegation';
+    else if (drepId === ALWAYS_ABSTAIN) status = 'always_abstain';
+    else if (drepId === ALWAYS_NO_CONFIDENCE) status = 'always_no_confidence';
+    else {
+      const drepStatus = drepStatusAt(activity.get(drepId), epoch);
+      status =
+        drepStatus === 'retired'
+          ? 'drep_retired'
+          : drepStatus === 'inactive'
+            ? 'drep_inactive'
+            : 'represented';
+    }
+
+    timeline.push({
+      epoch,
+      drepId,
+      stakeLovelace: delegation?.stakeLovelace ?? null,
+      status,
+    });
+    previous = delegation;
+  }
+
+  return timeline;
+}
+
+/**
+ * Collapse the timeline into consecutive tenures with a registered DRep.
+ * Predefined voting options are reported as unrepresented periods instead.
+ */
+export function groupTenures(
+  timeline: TimelineEpoch[],
+): Omit<DelegationTenure, 'drepName' | 'current'>[] {
+  const tenures: Omit<DelegationTenure, 'drepName' | 'current'>[] = [];
+  let stakeSum = 0;
+  let stakeEpochs = 0;
+
+  timeline.forEach((t, i) => {
+    if (!t.drepId || isPredefined(t.drepId)) return;
+
+    const last = tenures[tenures.length - 1];
+    if (last && last.drepId === t.drepId && last.endEpoch === timeline[i - 1]?.epoch) {
+      last.endEpoch = t.epoch;
+      last.epochs++;
+      if (t.status !== 'represented') last.unrepresentedEpochs++;
+    } else {
+      stakeSum = 0;
+      stakeEpochs = 0;
+      tenures.push({
+        drepId: t.drepId,
+        startEpoch: t.epoch,
+        endEpoch: t.epoch,
+        epochs: 1,
+        unrepresentedEpochs: t.status === 'represented' ? 0 : 1,
+        avgStakeLovelace: 0,
+      });
+    }
+
+    if (t.stakeLovelace !== null) {
+      stakeSum += t.stakeLovelace;
+      stakeEpochs++;
+      tenures[tenures.length - 1].avgStakeLovelace = Math.round(stakeSum / stakeEpochs);
+    }
+  });
+
+  return tenures;
+}
+
+/** Collapse consecutive unrepresented epochs that share a reason and DRep */
+export function groupUnrepresented(timeline: TimelineEpoch[]): UnrepresentedPeriod[] {
+  const periods: UnrepresentedPeriod[] = [];
+
+  timeline.forEach((t, i) => {
+    if (t.status === 'represented') return;
+    const last = periods[periods.length - 1];
+    if (
+      last &&
+      last.reason === t.status &&
+      last.drepId === t.drepId &&
+      last.endEpoch === timeline[i - 1]?.epoch
+    ) {
+      last.endEpoch = t.epoch;
+      last.epochs++;
+    } else {
+      periods.push({
+        startEpoch: t.epoch,
+        endEpoch: t.epoch,
+        epochs: 1,
+        reason: t.status,
+        drepId: t.drepId,
+      });
+    }
+  });
+
+  return periods;
+}
+
+interface ProposalWindow {
+  tx_hash: string;
+  proposal_index: number;
+  title: string | null;
+  proposal_type: string;
+  proposed_epoch: number | null;
+  expired_epoch: number | null;
+  ratified_epoch: number | null;
+  dropped_epoch: number | null;
+}
+
+/** Last epoch a proposal was open for voting, or null while it still is */
+function closingEpoch(p: ProposalWindow): number | null {
+  const ends = [p.expired_epoch, p.ratified_epoch, p.dropped_epoch].filter(
+    (e): e is number => e != null,
+  );
+  return ends.length > 0 ? Math.min(...ends) : null;
+}
+
+/**
+ * Build the representation audit for a stake address.
+ * Returns null when neither Koios nor our snapshots know the address.
+ */
+export async function buildRepresentationAudit(
+  stakeAddress: string,
+): Promise<RepresentationAudit | null> {
+  const supabase = createClient();
+  const currentEpoch = blockTimeToEpoch(Math.floor(Date.now() / 1000));
+
+  const [account, snapshots, summaryRows] = await Promise.all([
+    fetchAccountInfo(stakeAddress),
+    fetchAll<{ drep_id: string; epoch_no: number; amount_lovelace: number }>(
+      supabase
+        .from('drep_delegator_snapshots')
+        .select('drep_id, epoch_no, amount_lovelace')
+        .eq('stake_address', stakeAddress)
+        .order('epoch_no'),
+    ),
+    // One row per epoch the data moat collection ran — our snapshot coverage
+    fetchAll<{ epoch_no: number }>(
+      supabase.from('epoch_governance_summaries').select('epoch_no').order('epoch_no'),
+    ),
+  ]);
+
+  if (!account && snapshots.length === 0) return null;
+
+  const delegations = new Map<number, EpochDelegation>();
+  for (const s of snapshots) {
+    const existing = delegations.get(s.epoch_no);
+    if (!existing || s.amount_lovelace > existing.stakeLovelace) {
+      delegations.set(s.epoch_no, { drepId: s.drep_id, stakeLovelace: s.amount_lovelace });
+    }
+  }
+  if (account) {
+    delegations.set(currentEpoch, {
+      drepId: account.vote_delegation,
+      stakeLovelace: Number(account.total_balance) || 0,
+    });
+  }
+
+  const coverageStart = Math.min(
+    summaryRows[0]?.epoch_no ?? currentEpoch,
+    snapshots[0]?.epoch_no ?? currentEpoch,
+  );
+  const epochs = [
+    ...new Set([...summaryRows.map((r) => r.epoch_no), ...delegations.keys(), currentEpoch]),
+  ].filter((e) => e >= coverageStart && e <= currentEpoch);
+
+  const drepIds = [
+    ...new Set(
+      [...delegations.values()]
+        .map((d) => d.drepId)
+        .filter((id): id is string => !!id && !isPredefined(id)),
+    ),
+  ];
+
+  const [drepRows, lifecycleRows, voteRows, powerRows, proposalRows] = await Promise.all([
+    supabase.from('dreps').select('id, info').in('id', drepIds),
+    fetchAll<{ drep_id: string; epoch_no: number; action: string }>(
+      supabase
+        .from('drep_lifecycle_events')
+        .select('drep_id, epoch_no, action')
+        .in('drep_id', drepIds),
+    ),
+    fetchAll<{
+      drep_id: string;
+      proposal_tx_hash: string;
+      proposal_index: number;
+      vote: string;
+      epoch_no: number | null;
+      block_time: number;
+      meta_url: string | null;
+      voting_power_lovelace: number | null;
+    }>(
+      supabase
+        .from('drep_votes')
+        .select(
+          'drep_id, proposal_tx_hash, proposal_index, vote, epoch_no, block_time, meta_url, voting_power_lovelace',
+        )
+        .in('drep_id', drepIds)
+        .order('block_time'),
+    ),
+    fetchAll<{ drep_id: string; epoch_no: number; amount_lovelace: number }>(
+      supabase
+        .from('drep_power_snapshots')
+        .select('drep_id, epoch_no, amount_lovelace')
+        .in('drep_id', drepIds)
+        .gte('epoch_no', coverageStart),
+    ),
+    fetchAll<ProposalWindow>(
+      supabase
+        .from('proposals')
+        .select(
+          'tx_hash, proposal_index, title, proposal_type, proposed_epoch, expired_epoch, ratified_epoch, dropped_epoch',
+        )
+        .not('proposed_epoch', 'is', null),
+    ),
+  ]);
+
+  const drepNames = new Map<string, string | null>();
+  for (const d of drepRows.data ?? []) {
+    drepNames.set(d.id, (d.info as { name?: string | null } | null)?.name || null);
+  }
+
+  const activity = new Map<string, DRepActivity>();
+  const activityFor = (id: string) => {
+    let a = activity.get(id);
+    if (!a) {
+      a = { lifecycle: [], voteEpochs: [] };
+      activity.set(id, a);
+    }
+    return a;
+  };
+  for (const e of lifecycleRows) {
+    activityFor(e.drep_id).lifecycle.push({
+      epoch: e.epoch_no,
+      action: e.action as DRepActivity['lifecycle'][number]['action'],
+    });
+  }
+  const voteEpoch = (v: (typeof voteRows)[number]) => v.epoch_no ?? blockTimeToEpoch(v.block_time);
+  for (const v of voteRows) activityFor(v.drep_id).voteEpochs.push(voteEpoch(v));
+
+  const timeline = buildTimeline(epochs, delegations, activity);
+  const byEpoch = new Map(timeline.map((t) => [t.epoch, t]));
+
+  const drepPower = new Map<string, number>();
+  for (const p of powerRows) drepPower.set(`${p.drep_id}-${p.epoch_no}`, p.amount_lovelace);
+
+  const proposals = new Map(proposalRows.map((p) => [`${p.tx_hash}-${p.proposal_index}`, p]));
+
+  // A vote belongs to the audit when the stake was delegated to its DRep in that epoch
+  const votes: AuditVote[] = [];
+  const voted = new Set<string>();
+  for (const v of voteRows) {
+    const key = `${v.proposal_tx_hash}-${v.proposal_index}`;
+    voted.add(`${v.drep_id}-${key}`);
+
+    const epoch = voteEpoch(v);
+    const t = byEpoch.get(epoch);
+    if (!t || t.drepId !== v.drep_id) continue;
+
+    const proposal = proposals.get(key);
+    const power = v.voting_power_lovelace ?? drepPower.get(`${v.drep_id}-${epoch}`) ?? null;
+    votes.push({
+      proposalTxHash: v.proposal_tx_hash,
+      proposalIndex: v.proposal_index,
+      proposalTitle: proposal?.title ?? null,
+      proposalType: proposal?.proposal_type ?? null,
+      drepId: v.drep_id,
+      epoch,
+      vote: v.vote,
+      hasRationale: !!v.meta_url,
+      stakeLovelace: t.stakeLovelace,
+      drepPowerLovelace: power,
+      powerShare:
+        power && t.stakeLovelace !== null
+          ? Math.round(Math.min(t.stakeLovelace / power, 1) * 1e6) / 1e6
+          : null,
+    });
+  }
+
+  const rawTenures = groupTenures(timeline);
+  const currentDrepId = byEpoch.get(currentEpoch)?.drepId ?? null;
+  const tenures: DelegationTenure[] = rawTenures.map((t) => ({
+    ...t,
+    drepName: drepNames.get(t.drepId) ?? null,
+    current: t.endEpoch === currentEpoch && t.drepId === currentDrepId,
+  }));
+
+  // Missed: open during the tenure, never voted by the DRep, and settled before it mattered —
+  // either the proposal closed or the stake moved on
+  const missed: MissedProposal[] = [];
+  for (const tenure of tenures) {
+    for (const p of proposalRows) {
+      const closing = closingEpoch(p);
+      const openFrom = p.proposed_epoch!;
+      const openTo = closing ?? currentEpoch;
+      if (openFrom > tenure.endEpoch || openTo < tenure.startEpoch) continue;
+      if (closing === null && tenure.current) continue;
+      if (voted.has(`${tenure.drepId}-${p.tx_hash}-${p.proposal_index}`)) continue;
+      missed.push({
+        proposalTxHash: p.tx_hash,
+        proposalIndex: p.proposal_index,
+        proposalTitle: p.title,
+        proposalType: p.proposal_type,
+        drepId: tenure.drepId,
+      });
+    }
+  }
+
+  const represented = timeline.filter((t) => t.status === 'represented').length;
+  const currentEntry = byEpoch.get(currentEpoch)!;
+
+  return {
+    stakeAddress,
+    currentEpoch,
+    current: {
+      drepId: currentEntry.drepId,
+      drepName: currentEntry.drepId ? (drepNames.get(currentEntry.drepId) ?? null) : null,
+      status: currentEntry.status,
+      stakeLovelace: currentEntry.stakeLovelace,
+    },
+    coverage: {
+      fromEpoch: timeline[0].epoch,
+      toEpoch: currentEpoch,
+      epochs: timeline.length,
+    },
+    summary: {
+      epochsRepresented: represented,
+      representationRate: Math.round((represented / timeline.length) * 100),
+      drepsDelegatedTo: new Set(tenures.map((t) => t.drepId)).size,
+      votesCast: votes.length,
+      proposalsMissed: missed.length,
+    },
+    tenures,
+    votes,
+    missed,
+    unrepresented: groupUnrepresented(timeline),
+    timeline,
+  };
+}
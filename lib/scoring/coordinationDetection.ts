@@ -0,0 +1,296 @@
+/**
+ * Coordination (Sybil/cartel) detection for DReps and SPOs.
+ *
+ * Groups entities into clusters of likely-coordinated actors from four signals:
+ *   - vote agreement: same choice on shared proposals
+ *   - timing correlation: votes cast in the same block
+ *   - shared infrastructure: metadata/anchor/homepage hosted at the same place
+ *   - delegator overlap: the same stake addresses backing both entities
+ *
+ * Scales near-linearly: pairs are only scored when they share a MinHash LSH
+ * bucket over vote vectors or a key in one of the inverted indexes (block,
+ * URL fingerprint, stake address). Clusters are connected components over
+ * pairs whose weighted evidence crosses the edge threshold.
+ *
+ * Like detectSybilPairs, this never affects scores — it produces an audit trail
+ * for admin review and an optional profile badge.
+ */
+
+import {
+  hashString,
+  lshBandKeys,
+  minhashSignature,
+  pairsFromBuckets,
+  splitPairKey,
+} from '@/lib/minhash';
+
+export type CoordinationEntityType = 'drep' | 'spo';
+
+export interface CoordinationVote {
+  vote: 'Yes' | 'No' | 'Abstain';
+  blockTime: number;
+}
+
+export interface CoordinationEntity {
+  id: string;
+  /** proposalKey → vote */
+  votes: Map<string, CoordinationVote>;
+  /** Anchor, metadata and homepage URLs */
+  urls: string[];
+  /** stake address → lovelace delegated (DReps only; empty for SPOs) */
+  delegatorStake: Map<string, number>;
+}
+
+export interface CoordinationSignals {
+  voteAgreement: number;
+  timingCorrelation: number;
+  sharedInfrastructure: number;
+  delegatorOverlap: number;
+}
+
+export interface CoordinationEdge {
+  a: string;
+  b: string;
+  sharedVotes: number;
+  signals: CoordinationSignals;
+  score: number;
+}
+
+export interface CoordinationCluster {
+  /** Stable for a given membership */
+  key: string;
+  members: string[];
+  /** Mean edge score within the cluster */
+  cohesion: number;
+  /** Mean of each signal across the cluster's edges */
+  signals: CoordinationSignals;
+  edges: CoordinationEdge[];
+}
+
+export const COORDINATION_WEIGHTS: CoordinationSignals = {
+  voteAgreement: 0.4,
+  timingCorrelation: 0.3,
+  sharedInfrastructure: 0.15,
+  delegatorOverlap: 0.15,
+};
+
+export interface CoordinationOptions {
+  /** Minimum weighted evidence for a pair to join a cluster */
+  edgeThreshold?: number;
+  /** Vote-based signals are 0 below this many shared proposals */
+  minSharedVotes?: number;
+  numHashes?: number;
+  bands?: number;
+  maxBucketSize?: number;
+}
+
+const DEFAULTS: Required<CoordinationOptions> = {
+  edgeThreshold: 0.6,
+  minSharedVotes: 5,
+  numHashes: 32,
+  bands: 8,
+  maxBucketSize: 200,
+};
+
+/** Hosts shared by unrelated users — fingerprint by account (first path segment) instead */
+const SHARED_HOSTS = new Set([
+  'github.com',
+  'raw.githubusercontent.com',
+  'gist.githubusercontent.com',
+  'gitlab.com',
+  'bitbucket.org',
+  'medium.com',
+  'linktr.ee',
+  'x.com',
+  'twitter.com',
+  'drive.google.com',
+  'docs.google.com',
+]);
+
+/**
+ * Reduce a URL to "who controls it". IPFS content keeps its CID (identical
+ * documents), shared hosts keep the account, everything else keeps the host.
+ */
+export function urlFingerprint(raw: string): string | null {
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  if (trimmed.startsWith('ipfs://')) return `ipfs:${trimmed.slice(7).split('/')[0]}`;
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return null;
+  }
+  const ipfs = url.pathname.match(/\/ipfs\/([^/]+)/);
+  if (ipfs) return `ipfs:${ipfs[1]}`;
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  if (SHARED_HOSTS.has(host)) {
+    const account = url.pathname.split('/').filter(Boolean)[0];
+    return account ? `${host}/${account.toLowerCase()}` : null;
+  }
+  return host;
+}
+
+function fingerprints(entity: CoordinationEntity): Set<string> {
+  return new Set(entity.urls.map(urlFingerprint).filter((f): f is string => f !== null));
+}
+
+/** Evidence for one pair. Vote-based signals need `minSharedVotes` shared proposals. */
+export function scorePair(
+  a: CoordinationEntity,
+  b: CoordinationEntity,
+  minSharedVotes = DEFAULTS.minSharedVotes,
+): CoordinationEdge {
+  let shared = 0;
+  let agreed = 0;
+  let sameBlock = 0;
+  const [small, large] = a.votes.size <= b.votes.size ? [a, b] : [b, a];
+  for (const [key, va] of small.votes) {
+    const vb = large.votes.get(key);
+    if (!vb) continue;
+    shared++;
+    if (va.vote === vb.vote) agreed++;
+    if (va.blockTime === vb.blockTime) sameBlock++;
+  }
+  const enoughVotes = shared >= minSharedVotes;
+
+  const fpA = fingerprints(a);
+  const sharedInfra = [...fingerprints(b)].some((f) => fpA.has(f));
+
+  let sharedStake = 0;
+  let totalA = 0;
+  let totalB = 0;
+  for (const amount of a.delegatorStake.values()) totalA += amount;
+  for (const [addr, amount] of b.delegatorStake) {
+    totalB += amount;
+    const other = a.delegatorStake.get(addr);
+    if (other !== undefined) sharedStake += Math.min(amount, other);
+  }
+  const minTotal = Math.min(totalA, totalB);
+
+  const signals: CoordinationSignals = {
+    voteAgreement: enoughVotes ? round3(agreed / shared) : 0,
+    timingCorrelation: enoughVotes ? round3(sameBlock / shared) : 0,
+    sharedInfrastructure: sharedInfra ? 1 : 0,
+    delegatorOverlap: minTotal > 0 ? round3(sharedStake / minTotal) : 0,
+  };
+
+  const [first, second] = a.id < b.id ? [a.id, b.id] : [b.id, a.id];
+  return { a: first, b: second, sharedVotes: shared, signals, score: weightedScore(signals) };
+}
+
+function weightedScore(s: CoordinationSignals): number {
+  return round3(
+    s.voteAgreement * COORDINATION_WEIGHTS.voteAgreement +
+      s.timingCorrelation * COORDINATION_WEIGHTS.timingCorrelation +
+      s.sharedInfrastructure * COORDINATION_WEIGHTS.sharedInfrastructure +
+      s.delegatorOverlap * COORDINATION_WEIGHTS.delegatorOverlap,
+  );
+}
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+function pushTo(buckets: Map<string, string[]>, key: string, id: string): void {
+  const list = buckets.get(key);
+  if (list) list.push(id);
+  else buckets.set(key, [id]);
+}
+
+/** Pairs worth scoring: anything sharing an LSH band, a block, a URL fingerprint or a stake address. */
+export function candidatePairs(
+  entities: CoordinationEntity[],
+  options: CoordinationOptions = {},
+): Set<string> {
+  const opts = { ...DEFAULTS, ...options };
+  const lsh = new Map<string, string[]>();
+  const blocks = new Map<string, string[]>();
+  const infra = new Map<string, string[]>();
+  const stake = new Map<string, string[]>();
+
+  for (const e of entities) {
+    if (e.votes.size >= opts.minSharedVotes) {
+      const tokens = [...e.votes].map(([key, v]) => `${key}:${v.vote}`);
+      for (const band of lshBandKeys(minhashSignature(tokens, opts.numHashes), opts.bands)) {
+        pushTo(lsh, band, e.id);
+      }
+    }
+    for (const [key, v] of e.votes) pushTo(blocks, `${key}@${v.blockTime}`, e.id);
+    for (const fp of fingerprints(e)) pushTo(infra, fp, e.id);
+    for (const addr of e.delegatorStake.keys()) pushTo(stake, addr, e.id);
+  }
+
+  const pairs = new Set<string>();
+  for (const buckets of [lsh, blocks, infra, stake]) {
+    pairsFromBuckets(buckets, opts.maxBucketSize, pairs);
+  }
+  return pairs;
+}
+
+function mean(values: number[]): number {
+  return values.length ? round3(values.reduce((s, v) => s + v, 0) / values.length) : 0;
+}
+
+/**
+ * Cluster entities into likely-coordinated blocs. Returns clusters of two or
+ * more members, largest first.
+ */
+export function detectCoordinationClusters(
+  entityType: CoordinationEntityType,
+  entities: CoordinationEntity[],
+  options: CoordinationOptions = {},
+): CoordinationCluster[] {
+  const opts = { ...DEFAULTS, ...options };
+  const byId = new Map(entities.map((e) => [e.id, e]));
+
+  const edges: CoordinationEdge[] = [];
+  for (const pair of candidatePairs(entities, opts)) {
+    const [a, b] = splitPairKey(pair);
+    const edge = scorePair(byId.get(a)!, byId.get(b)!, opts.minSharedVotes);
+    if (edge.score >= opts.edgeThreshold) edges.push(edge);
+  }
+
+  // Union-find over qualifying edges
+  const parent = new Map<string, string>();
+  const find = (x: string): string => {
+    let root = x;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(x, root);
+    return root;
+  };
+  for (const { a, b } of edges) {
+    if (!parent.has(a)) parent.set(a, a);
+    if (!parent.has(b)) parent.set(b, b);
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(ra < rb ? rb : ra, ra < rb ? ra : rb);
+  }
+
+  const groups = new Map<string, CoordinationEdge[]>();
+  for (const edge of edges) {
+    const root = find(edge.a);
+    const list = groups.get(root);
+    if (list) list.push(edge);
+    else groups.set(root, [edge]);
+  }
+
+  const clusters: CoordinationCluster[] = [];
+  for (const clusterEdges of groups.values()) {
+    const members = [...new Set(clusterEdges.flatMap((e) => [e.a, e.b]))].sort();
+    clusters.push({
+      key: `${entityType}-${hashString(members.join(',')).toString(16).padStart(8, '0')}-${members.length}`,
+      members,
+      cohesion: mean(clusterEdges.map((e) => e.score)),
+      signals: {
+        voteAgreement: mean(clusterEdges.map((e) => e.signals.voteAgreement)),
+        timingCorrelation: mean(clusterEdges.map((e) => e.signals.timingCorrelation)),
+        sharedInfrastructure: mean(clusterEdges.map((e) => e.signals.sharedInfrastructure)),
+        delegatorOverlap: mean(clusterEdges.map((e) => e.signals.delegatorOverlap)),
+      },
+      edges: clusterEdges.sort((x, y) => y.score - x.score),
+    });
+  }
+
+  return clusters.sort((x, y) => y.members.length - x.members.length || y.cohesion - x.cohesion);
+}
@@ -4,8 +4,9 @@
  * Momentum is computed from score history via simple linear regression.
  */
 
-import { PILLAR_WEIGHTS, type DRepScoreResult } from './types';
-import { percentileNormalize } from './percentile';
+import type { DRepScoreResult } from './types';
+import { normalizePillar } from './percentile';
+import { CURRENT_METHODOLOGY, type MethodologyProfile } from './methodology';
 
 /**
  * Compute final DRep Scores for all DReps from raw pillar scores.
@@ -16,6 +17,7 @@ import { percentileNormalize } from './percentile';
  * @param rawReliability Map<drepId, raw 0-100>
  * @param rawIdentity Map<drepId, raw 0-100>
  * @param scoreHistory Map<drepId, recent daily scores> (for momentum)
+ * @param profile Methodology supplying pillar weights and normalization strategy
  */
 export function computeDRepScores(
   rawEngagement: Map<string, number>,
@@ -23,12 +25,15 @@ export function computeDRepScores(
   rawReliability: Map<string, number>,
   rawIdentity: Map<string, number>,
   scoreHistory: Map<string, { date: string; score: number }[]>,
+  profile: MethodologyProfile = CURRENT_METHODOLOGY,
 ): Map<string, DRepScoreResult> {
+  const weights = profile.pillarWeights;
+
   // Percentile-normalize each pillar
-  const pctEngagement = percentileNormalize(rawEngagement);
-  const pctParticipation = percentileNormalize(rawParticipation);
-  const pctReliability = percentileNormalize(rawReliability);
-  const pctIdentity = percentileNormalize(rawIdentity);
+  const pctEngagement = normalizePillar(rawEngagement, profile.percentileStrategy);
+  const pctParticipation = normalizePillar(rawParticipation, profile.percentileStrategy);
+  const pctReliability = normalizePillar(rawReliability, profile.percentileStrategy);
+  const pctIdentity = normalizePillar(rawIdentity, profile.percentileStrategy);
 
   const results = new Map<string, DRepScoreResult>();
 
@@ -47,10 +52,10 @@ export function computeDRepScores(
     const giPct = pctIdentity.get(drepId) ?? 0;
 
     const composite = Math.round(
-      eqPct * PILLAR_WEIGHTS.engagementQuality +
-        epPct * PILLAR_WEIGHTS.effectiveParticipation +
-        rlPct * PILLAR_WEIGHTS.reliability +
-        giPct * PILLAR_WEIGHTS.governanceIdentity,
+      eqPct * weights.engagementQuality +
+        epPct * weights.effectiveParticipation +
+        rlPct * weights.reliability +
+        giPct * weights.governanceIdentity,
     );
 
     const history = scoreHistory.get(drepId);
@@ -20,17 +20,24 @@ const CLOSE_MARGIN_MULTIPLIER = 1.5;
  * @param allProposals All proposals with scoring context (importance weights)
  * @param votingSummaries Map of proposalKey → voting power summary (for margin)
  * @param nowSeconds Current unix timestamp
+ * @param decayLambda Temporal decay rate; defaults to the current methodology
  */
 export function computeEffectiveParticipation(
   drepVotes: Map<string, VoteData[]>,
   allProposals: Map<string, ProposalScoringContext>,
   votingSummaries: Map<string, ProposalVotingSummary>,
   nowSeconds: number,
+  decayLambda: number = DECAY_LAMBDA,
 ): Map<string, number> {
   const scores = new Map<string, number>();
 
   // Pre-compute total weighted proposal pool (denominator)
-  const totalWeightedPool = computeTotalWeightedPool(allProposals, votingSummaries, nowSeconds);
+  const totalWeightedPool = computeTotalWeightedPool(
+    allProposals,
+    votingSummaries,
+    nowSeconds,
+    decayLambda,
+  );
 
   if (totalWeightedPool === 0) {
     for (const drepId of drepVotes.keys()) scores.set(drepId, 0);
@@ -50,7 +57,7 @@ export function computeEffectiveParticipation(
       if (!proposal) continue;
 
       const ageDays = Math.max(0, (nowSeconds - v.blockTime) / 86400);
-      const decay = Math.exp(-DECAY_LAMBDA * ageDays);
+      const decay = Math.exp(-decayLambda * ageDays);
       let weight = proposal.importanceWeight * decay;
 
       // Close-margin bonus: if the margin was tight, this vote mattered more
@@ -80,12 +87,13 @@ function computeTotalWeightedPool(
   allProposals: Map<string, ProposalScoringContext>,
   votingSummaries: Map<string, ProposalVotingSummary>,
   nowSeconds: number,
+  decayLambda: number,
 ): number {
   let total = 0;
 
   for (const [key, proposal] of allProposals) {
     const ageDays = Math.max(0, (nowSeconds - proposal.blockTime) / 86400);
-    const decay = Math.exp(-DECAY_LAMBDA * ageDays);
+    const decay = Math.exp(-decayLambda * ageDays);
     let weight = proposal.importanceWeight * decay;
 
     const summary = votingSummaries.get(key);
@@ -4,7 +4,9 @@
  * Replaces the old binary rationale rate.
  */
 
+import { applyRationaleCurve } from '@/utils/scoring';
 import { DECAY_LAMBDA, type VoteData, type ProposalVotingSummary } from './types';
+import type { RationaleCurve } from './methodology';
 
 const LAYER_WEIGHTS = { provision: 0.4, quality: 0.4, deliberation: 0.2 };
 const DELIB_WEIGHTS = { voteDiversity: 0.4, dissent: 0.35, typeBreadth: 0.25 };
@@ -17,14 +19,17 @@ const INFO_ACTION = 'InfoAction';
  * @param votingSummaries Map of proposalKey → voting power summary (for majority determination)
  * @param allProposalTypes Set of all distinct proposal types in the system
  * @param nowSeconds Current unix timestamp
+ * @param options Methodology overrides (decay rate, provision curve); defaults to the current profile
  */
 export function computeEngagementQuality(
   drepVotes: Map<string, VoteData[]>,
   votingSummaries: Map<string, ProposalVotingSummary>,
   allProposalTypes: Set<string>,
   nowSeconds: number,
+  options: { decayLambda?: number; rationaleCurve?: RationaleCurve } = {},
 ): Map<string, number> {
   const scores = new Map<string, number>();
+  const lambda = options.decayLambda ?? DECAY_LAMBDA;
 
   for (const [drepId, votes] of drepVotes) {
     if (votes.length === 0) {
@@ -32,8 +37,10 @@ export function computeEngagementQuality(
       continue;
     }
 
-    const provision = computeProvisionRate(votes, nowSeconds);
-    const quality = computeRationaleQuality(votes, nowSeconds);
+    const rawProvision = computeProvisionRate(votes, nowSeconds, lambda);
+    const provision =
+      options.rationaleCurve === 'forgiving' ? applyRationaleCurve(rawProvision) : rawProvision;
+    const quality = computeRationaleQuality(votes, nowSeconds, lambda);
     const deliberation = computeDeliberationSignal(votes, votingSummaries, allProposalTypes);
 
     const raw =
@@ -51,8 +58,9 @@ export function computeEngagementQuality(
  * Layer 1 — Provision Rate (40% of pillar).
  * Weighted by proposal importance and temporal decay.
  * InfoActions excluded (non-binding polls don't need rationale).
+ * Copied or boilerplate rationales earn only partial credit (rationaleOriginality).
  */
-function computeProvisionRate(votes: VoteData[], nowSeconds: number): number {
+function computeProvisionRate(votes: VoteData[], nowSeconds: number, lambda: number): number {
   let weightedHas = 0;
   let totalWeight = 0;
 
@@ -60,12 +68,12 @@ function computeProvisionRate(votes: VoteData[], nowSeconds: number): number {
     if (v.proposalType === INFO_ACTION) continue;
 
     const ageDays = Math.max(0, (nowSeconds - v.blockTime) / 86400);
-    const decay = Math.exp(-DECAY_LAMBDA * ageDays);
+    const decay = Math.exp(-lambda * ageDays);
     const w = v.importanceWeight * decay;
 
     totalWeight += w;
     if (v.rationaleQuality !== null && v.rationaleQuality > 0) {
-      weightedHas += w;
+      weightedHas += w * (v.rationaleOriginality ?? 1);
     }
   }
 
@@ -76,8 +84,9 @@ function computeProvisionRate(votes: VoteData[], nowSeconds: number): number {
  * Layer 2 — Rationale Quality (40% of pillar).
  * Weighted average of AI quality scores across votes, with importance and decay.
  * DReps with 0 rationales get 0. DReps with few but excellent rationales can score high.
+ * Non-original rationales have their quality discounted by the same multiplier.
  */
-function computeRationaleQuality(votes: VoteData[], nowSeconds: number): number {
+function computeRationaleQuality(votes: VoteData[], nowSeconds: number, lambda: number): number {
   let weightedQuality = 0;
   let totalWeight = 0;
 
@@ -86,11 +95,11 @@ function computeRationaleQuality(votes: VoteData[], nowSeconds: number): number
     if (v.rationaleQuality === null || v.rationaleQuality === 0) continue;
 
     const ageDays = Math.max(0, (nowSeconds - v.blockTime) / 86400);
-    const decay = Math.exp(-DECAY_LAMBDA * ageDays);
+    const decay = Math.exp(-lambda * ageDays);
     const w = v.importanceWeight * decay;
 
     totalWeight += w;
-    weightedQuality += v.rationaleQuality * w;
+    weightedQuality += v.rationaleQuality * (v.rationaleOriginality ?? 1) * w;
   }
 
   return totalWeight === 0 ? 0 : weightedQuality / totalWeight;
@@ -11,7 +11,41 @@ export {
 export { computeReliability, type ReliabilityV3Result } from './reliability';
 export { computeGovernanceIdentity } from './governanceIdentity';
 export { computeDRepScores } from './drepScore';
-export { percentileNormalize } from './percentile';
+export { percentileNormalize, normalizePillar } from './percentile';
+export {
+  METHODOLOGY_PROFILES,
+  CURRENT_METHODOLOGY,
+  CURRENT_METHODOLOGY_VERSION,
+  getMethodologyProfile,
+  getCandidateProfiles,
+  decayLambda,
+  type MethodologyProfile,
+  type PillarWeights,
+  type RationaleCurve,
+  type PercentileStrategy,
+} from './methodology';
+export {
+  compareMethodologies,
+  type MethodologyScoreEntry,
+  type MethodologyRankChange,
+  type MethodologyDiffReport,
+} from './methodologyDiff';
+export {
+  buildScoringInputs,
+  computeRawPillars,
+  type ScoringRows,
+  type ScoringInputs,
+  type RawPillarScores,
+} from './inputs';
+export {
+  replayScoresAtEpoch,
+  filterRowsAsOfEpoch,
+  epochEndTime,
+  type ReplayRows,
+  type ReplayResult,
+  type ReplayScore,
+  type LifecycleEventRow,
+} from './replay';
 export {
   PILLAR_WEIGHTS,
   DECAY_LAMBDA,
@@ -54,6 +88,27 @@ export {
   type AttributionEntry,
 } from './spoAttribution';
 export { detectSybilPairs, type SybilFlag } from './sybilDetection';
+export {
+  detectCoordinationClusters,
+  candidatePairs,
+  scorePair,
+  urlFingerprint,
+  COORDINATION_WEIGHTS,
+  type CoordinationEntity,
+  type CoordinationEntityType,
+  type CoordinationCluster,
+  type CoordinationEdge,
+  type CoordinationSignals,
+  type CoordinationOptions,
+} from './coordinationDetection';
+export {
+  indexRationaleOriginality,
+  detectBoilerplate,
+  ORIGINALITY_MULTIPLIERS,
+  type IndexedRationale,
+  type OriginalityFinding,
+  type OriginalityFlag,
+} from './rationaleOriginality';
 
 // Score Tiers
 export {
@@ -0,0 +1,259 @@
+/**
+ * DRep Score V3 input builder.
+ * Turns raw Supabase rows (dreps, drep_votes, proposals, proposal_voting_summary)
+ * into the lookup maps consumed by the pillar modules. Shared by the live
+ * scoring sync and the historical replay engine so both run the same pipeline.
+ */
+
+import { blockTimeToEpoch } from '@/lib/koios';
+import { computeEngagementQuality } from './engagementQuality';
+import {
+  computeEffectiveParticipation,
+  getExtendedImportanceWeight,
+} from './effectiveParticipation';
+import { computeReliability } from './reliability';
+import { computeGovernanceIdentity } from './governanceIdentity';
+import { CURRENT_METHODOLOGY, decayLambda, type MethodologyProfile } from './methodology';
+import type {
+  VoteData,
+  ProposalScoringContext,
+  ProposalVotingSummary,
+  DRepProfileData,
+} from './types';
+
+export interface ScoringDRepRow {
+  id: string;
+  info: Record<string, unknown> | null;
+  metadata: Record<string, unknown> | null;
+  metadata_hash_verified: boolean | null;
+}
+
+export interface ScoringVoteRow {
+  drep_id: string;
+  proposal_tx_hash: string;
+  proposal_index: number;
+  vote: 'Yes' | 'No' | 'Abstain';
+  block_time: number;
+  epoch_no: number | null;
+  rationale_quality: number | null;
+  voting_power_lovelace?: number | null;
+  /** Multiplier from rationale_originality_flags, attached by the loader */
+  rationale_originality?: number | null;
+}
+
+export interface ScoringProposalRow {
+  tx_hash: string;
+  proposal_index: number;
+  proposal_type: string;
+  treasury_tier: string | null;
+  withdrawal_amount: number | string | null;
+  block_time: number | null;
+  proposed_epoch: number | null;
+  expired_epoch: number | null;
+  ratified_epoch: number | null;
+  dropped_epoch: number | null;
+}
+
+export interface ScoringSummaryRow {
+  proposal_tx_hash: string;
+  proposal_index: number;
+  drep_yes_vote_power: number | string | null;
+  drep_no_vote_power: number | string | null;
+  drep_abstain_vote_power: number | string | null;
+}
+
+export interface ScoringRows {
+  drepRows: ScoringDRepRow[];
+  voteRows: ScoringVoteRow[];
+  proposalRows: ScoringProposalRow[];
+  summaryRows: ScoringSummaryRow[];
+}
+
+export interface ScoringInputs {
+  drepVotes: Map<string, VoteData[]>;
+  proposalContexts: Map<string, ProposalScoringContext>;
+  votingSummaries: Map<string, ProposalVotingSummary>;
+  allProposalTypes: Set<string>;
+  proposalEpochs: Map<number, number>;
+  drepEpochData: Map<string, { counts: number[]; firstEpoch: number }>;
+  profiles: Map<string, DRepProfileData>;
+  allDelegatorCounts: number[];
+}
+
+export interface RawPillarScores {
+  engagement: Map<string, number>;
+  participation: Map<string, number>;
+  reliability: Map<string, number>;
+  identity: Map<string, number>;
+}
+
+/**
+ * Build the pillar lookup maps from raw rows.
+ *
+ * @param rows Rows loaded from Supabase (or filtered by the replay engine)
+ * @param currentEpoch Epoch the scores are computed "as of"
+ */
+export function buildScoringInputs(rows: ScoringRows, currentEpoch: number): ScoringInputs {
+  const { drepRows, voteRows, proposalRows, summaryRows } = rows;
+
+  // Proposal context map
+  const proposalContexts = new Map<string, ProposalScoringContext>();
+  const allProposalTypes = new Set<string>();
+  const proposalBlockTimes = new Map<string, number>();
+
+  for (const p of proposalRows) {
+    const key = `${p.tx_hash}-${p.proposal_index}`;
+    const withdrawalAmount = p.withdrawal_amount != null ? Number(p.withdrawal_amount) : null;
+    const weight = getExtendedImportanceWeight(p.proposal_type, p.treasury_tier, withdrawalAmount);
+    proposalContexts.set(key, {
+      proposalKey: key,
+      proposalType: p.proposal_type,
+      treasuryTier: p.treasury_tier,
+      withdrawalAmount,
+      blockTime: p.block_time || 0,
+      importanceWeight: weight,
+    });
+    allProposalTypes.add(p.proposal_type);
+    proposalBlockTimes.set(key, p.block_time || 0);
+  }
+
+  // Voting summary map (for margins + majority)
+  const votingSummaries = new Map<string, ProposalVotingSummary>();
+  for (const s of summaryRows) {
+    const key = `${s.proposal_tx_hash}-${s.proposal_index}`;
+    votingSummaries.set(key, {
+      proposalKey: key,
+      drepYesVotePower: Number(s.drep_yes_vote_power) || 0,
+      drepNoVotePower: Number(s.drep_no_vote_power) || 0,
+      drepAbstainVotePower: Number(s.drep_abstain_vote_power) || 0,
+    });
+  }
+
+  // Active proposal epochs for reliability
+  const proposalEpochs = new Map<number, number>();
+  for (const p of proposalRows) {
+    if (p.proposed_epoch == null) continue;
+    const start = p.proposed_epoch;
+    const endEpoch = Math.min(
+      ...[p.expired_epoch, p.ratified_epoch, p.dropped_epoch, currentEpoch].filter(
+        (e): e is number => e != null,
+      ),
+    );
+    for (let e = start; e <= endEpoch; e++) {
+      proposalEpochs.set(e, (proposalEpochs.get(e) || 0) + 1);
+    }
+  }
+
+  // Group votes by DRep with enriched VoteData
+  const drepVotes = new Map<string, VoteData[]>();
+  const drepEpochData = new Map<string, { counts: number[]; firstEpoch: number }>();
+  const drepEpochCounts = new Map<string, Map<number, number>>();
+
+  for (const v of voteRows) {
+    const proposalKey = `${v.proposal_tx_hash}-${v.proposal_index}`;
+    const ctx = proposalContexts.get(proposalKey);
+
+    const voteData: VoteData = {
+      drepId: v.drep_id,
+      proposalKey,
+      vote: v.vote,
+      blockTime: v.block_time,
+      proposalBlockTime: proposalBlockTimes.get(proposalKey) || 0,
+      proposalType: ctx?.proposalType || 'InfoAction',
+      rationaleQuality: v.rationale_quality,
+      importanceWeight: ctx?.importanceWeight || 1,
+      rationaleOriginality: v.rationale_originality ?? undefined,
+    };
+
+    if (!drepVotes.has(v.drep_id)) drepVotes.set(v.drep_id, []);
+    drepVotes.get(v.drep_id)!.push(voteData);
+
+    const epoch = v.epoch_no ?? blockTimeToEpoch(v.block_time);
+    if (epoch != null) {
+      if (!drepEpochCounts.has(v.drep_id)) drepEpochCounts.set(v.drep_id, new Map());
+      const ec = drepEpochCounts.get(v.drep_id)!;
+      ec.set(epoch, (ec.get(epoch) || 0) + 1);
+    }
+  }
+
+  // Convert epoch count maps to arrays
+  for (const [drepId, epochMap] of drepEpochCounts) {
+    const epochs = [...epochMap.keys()].sort((a, b) => a - b);
+    if (epochs.length === 0) continue;
+    const firstEpoch = epochs[0];
+    const lastEpoch = Math.max(epochs[epochs.length - 1], currentEpoch);
+    const counts: number[] = [];
+    for (let e = firstEpoch; e <= lastEpoch; e++) {
+      counts.push(epochMap.get(e) || 0);
+    }
+    drepEpochData.set(drepId, { counts, firstEpoch });
+  }
+
+  // Ensure all DReps from the dreps table have entries (even those with 0 votes)
+  for (const row of drepRows) {
+    if (!drepVotes.has(row.id)) drepVotes.set(row.id, []);
+  }
+
+  // Profile data for governance identity
+  const profiles = new Map<string, DRepProfileData>();
+  const allDelegatorCounts: number[] = [];
+
+  for (const row of drepRows) {
+    const info = row.info || {};
+    const delegatorCount = (info.delegatorCount as number) || 0;
+
+    profiles.set(row.id, {
+      drepId: row.id,
+      metadata: row.metadata || null,
+      delegatorCount,
+      metadataHashVerified: row.metadata_hash_verified || false,
+    });
+    allDelegatorCounts.push(delegatorCount);
+  }
+
+  return {
+    drepVotes,
+    proposalContexts,
+    votingSummaries,
+    allProposalTypes,
+    proposalEpochs,
+    drepEpochData,
+    profiles,
+    allDelegatorCounts,
+  };
+}
+
+/**
+ * Run all four pillar modules over prepared inputs under a methodology profile.
+ */
+export function computeRawPillars(
+  inputs: ScoringInputs,
+  nowSeconds: number,
+  currentEpoch: number,
+  profile: MethodologyProfile = CURRENT_METHODOLOGY,
+): RawPillarScores {
+  const lambda = decayLambda(profile);
+  return {
+    engagement: computeEngagementQuality(
+      inputs.drepVotes,
+      inputs.votingSummaries,
+      inputs.allProposalTypes,
+      nowSeconds,
+      { decayLambda: lambda, rationaleCurve: profile.rationaleCurve },
+    ),
+    participation: computeEffectiveParticipation(
+      inputs.drepVotes,
+      inputs.proposalContexts,
+      inputs.votingSummaries,
+      nowSeconds,
+      lambda,
+    ),
+    reliability: computeReliability(
+      inputs.drepVotes,
+      inputs.proposalEpochs,
+      currentEpoch,
+      inputs.drepEpochData,
+    ),
+    identity: computeGovernanceIdentity(inputs.profiles, inputs.allDelegatorCounts),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Scoring methodology profiles.
+ * A profile is a named, versioned bundle of every tunable in the DRep Score V3
+ * pipeline. The live score always runs under CURRENT_METHODOLOGY; candidate
+ * profiles run alongside it as shadow scores so proposed changes can be
+ * evaluated (rank shifts, tier crossings) before they ship.
+ */
+
+/** How the Provision Rate layer maps raw rationale coverage to points */
+export type RationaleCurve = 'linear' | 'forgiving';
+
+/** How raw pillar scores are normalized before weighting */
+export type PercentileStrategy = 'rank' | 'minmax' | 'raw';
+
+export interface PillarWeights {
+  engagementQuality: number;
+  effectiveParticipation: number;
+  reliability: number;
+  governanceIdentity: number;
+}
+
+export interface MethodologyProfile {
+  /** Stable identifier persisted with every score row, e.g. 'v3' */
+  version: string;
+  label: string;
+  description: string;
+  /** 'current' drives the public score; 'candidate' runs as a shadow */
+  status: 'current' | 'candidate' | 'retired';
+  pillarWeights: PillarWeights;
+  decayHalfLifeDays: number;
+  rationaleCurve: RationaleCurve;
+  percentileStrategy: PercentileStrategy;
+}
+
+export const METHODOLOGY_PROFILES: Record<string, MethodologyProfile> = {
+  v3: {
+    version: 'v3',
+    label: 'DRep Score V3',
+    description:
+      'Four percentile-normalized pillars with 180-day temporal decay and linear rationale provision.',
+    status: 'current',
+    pillarWeights: {
+      engagementQuality: 0.35,
+      effectiveParticipation: 0.25,
+      reliability: 0.25,
+      governanceIdentity: 0.15,
+    },
+    decayHalfLifeDays: 180,
+    rationaleCurve: 'linear',
+    percentileStrategy: 'rank',
+  },
+  'v3.1-candidate': {
+    version: 'v3.1-candidate',
+    label: 'V3.1 (candidate)',
+    description:
+      'Shorter 120-day decay, forgiving rationale curve and reliability up-weighted at the expense of identity.',
+    status: 'candidate',
+    pillarWeights: {
+      engagementQuality: 0.35,
+      effectiveParticipation: 0.25,
+      reliability: 0.3,
+      governanceIdentity: 0.1,
+    },
+    decayHalfLifeDays: 120,
+    rationaleCurve: 'forgiving',
+    percentileStrategy: 'rank',
+  },
+};
+
+export const CURRENT_METHODOLOGY_VERSION = 'v3';
+
+export const CURRENT_METHODOLOGY = METHODOLOGY_PROFILES[CURRENT_METHODOLOGY_VERSION];
+
+/**
+ * V2 (legacy, Koios-enrichment path) weights. Different pillars from V3 —
+ * rationale and profile completeness rather than engagement quality and identity.
+ * Kept only for the legacy `calculateDRepScore` path in lib/koios.ts.
+ */
+export const LEGACY_V2_WEIGHTS = {
+  effectiveParticipation: 0.3,
+  rationale: 0.35,
+  reliability: 0.2,
+  profileCompleteness: 0.15,
+} as const;
+
+export function getMethodologyProfile(version: string): MethodologyProfile | null {
+  return METHODOLOGY_PROFILES[version] ?? null;
+}
+
+/** Profiles that run as shadows alongside the current methodology */
+export function getCandidateProfiles(): MethodologyProfile[] {
+  return Object.values(METHODOLOGY_PROFILES).filter((p) => p.status === 'candidate');
+}
+
+export function decayLambda(profile: MethodologyProfile): number {
+  return Math.LN2 / profile.decayHalfLifeDays;
+}
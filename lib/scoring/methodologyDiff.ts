@@ -0,0 +1,137 @@
+/**
+ * Methodology diff report.
+ * Compares two sets of DRep scores (e.g. current vs candidate methodology) and
+ * summarizes rank movement and tier crossings so methodology changes can be
+ * evaluated before they ship.
+ */
+
+import { tierIndex, type TierName } from './tiers';
+
+export interface MethodologyScoreEntry {
+  composite: number;
+  tier: TierName;
+}
+
+export interface MethodologyRankChange {
+  drepId: string;
+  baseScore: number;
+  candidateScore: number;
+  scoreDelta: number;
+  baseRank: number;
+  candidateRank: number;
+  /** Positive = moved up the leaderboard under the candidate */
+  rankDelta: number;
+  baseTier: TierName;
+  candidateTier: TierName;
+}
+
+export interface MethodologyDiffReport {
+  baseVersion: string;
+  candidateVersion: string;
+  drepCount: number;
+  meanAbsScoreDelta: number;
+  /** Spearman rank correlation between the two orderings (1 = identical) */
+  rankCorrelation: number;
+  tierCrossings: {
+    up: number;
+    down: number;
+    /** e.g. { 'Silver→Gold': 12 } */
+    byTransition: Record<string, number>;
+  };
+  biggestRisers: MethodologyRankChange[];
+  biggestFallers: MethodologyRankChange[];
+  changes: MethodologyRankChange[];
+}
+
+/**
+ * Competition ranking by composite (1 = highest). Ties share a rank.
+ */
+function rankByComposite(scores: Map<string, MethodologyScoreEntry>): Map<string, number> {
+  const sorted = [...scores.entries()].sort((a, b) => b[1].composite - a[1].composite);
+  const ranks = new Map<string, number>();
+  let prevScore: number | null = null;
+  let prevRank = 0;
+  sorted.forEach(([id, s], i) => {
+    const rank = s.composite === prevScore ? prevRank : i + 1;
+    ranks.set(id, rank);
+    prevScore = s.composite;
+    prevRank = rank;
+  });
+  return ranks;
+}
+
+/**
+ * Diff two methodology runs over the DReps present in both.
+ *
+ * @param topN Number of risers/fallers to include in the summary lists
+ */
+export function compareMethodologies(
+  base: Map<string, MethodologyScoreEntry>,
+  candidate: Map<string, MethodologyScoreEntry>,
+  baseVersion: string,
+  candidateVersion: string,
+  topN = 20,
+): MethodologyDiffReport {
+  const shared = new Map<string, { base: MethodologyScoreEntry; cand: MethodologyScoreEntry }>();
+  for (const [id, b] of base) {
+    const c = candidate.get(id);
+    if (c) shared.set(id, { base: b, cand: c });
+  }
+
+  const baseRanks = rankByComposite(new Map([...shared].map(([id, s]) => [id, s.base])));
+  const candRanks = rankByComposite(new Map([...shared].map(([id, s]) => [id, s.cand])));
+
+  const changes: MethodologyRankChange[] = [];
+  const byTransition: Record<string, number> = {};
+  let up = 0;
+  let down = 0;
+  let absDeltaSum = 0;
+  let sqRankDiffSum = 0;
+
+  for (const [drepId, { base: b, cand: c }] of shared) {
+    const baseRank = baseRanks.get(drepId)!;
+    const candidateRank = candRanks.get(drepId)!;
+
+    changes.push({
+      drepId,
+      baseScore: b.composite,
+      candidateScore: c.composite,
+      scoreDelta: c.composite - b.composite,
+      baseRank,
+      candidateRank,
+      rankDelta: baseRank - candidateRank,
+      baseTier: b.tier,
+      candidateTier: c.tier,
+    });
+
+    absDeltaSum += Math.abs(c.composite - b.composite);
+    sqRankDiffSum += (baseRank - candidateRank) ** 2;
+
+    if (b.tier !== c.tier) {
+      if (tierIndex(c.tier) > tierIndex(b.tier)) up++;
+      else down++;
+      const key = `${b.tier}→${c.tier}`;
+      byTransition[key] = (byTransition[key] ?? 0) + 1;
+    }
+  }
+
+  const n = changes.length;
+  const rankCorrelation = n < 2 ? 1 : 1 - (6 * sqRankDiffSum) / (n * (n * n - 1));
+
+  const byRankDelta = [...changes].sort((a, b) => b.rankDelta - a.rankDelta);
+
+  return {
+    baseVersion,
+    candidateVersion,
+    drepCount: n,
+    meanAbsScoreDelta: n === 0 ? 0 : Math.round((absDeltaSum / n) * 100) / 100,
+    rankCorrelation: Math.round(rankCorrelation * 1000) / 1000,
+    tierCrossings: { up, down, byTransition },
+    biggestRisers: byRankDelta.filter((c) => c.rankDelta > 0).slice(0, topN),
+    biggestFallers: byRankDelta
+      .filter((c) => c.rankDelta < 0)
+      .reverse()
+      .slice(0, topN),
+    changes,
+  };
+}
@@ -3,6 +3,8 @@
  * Converts raw scores to percentile ranks (0-100) across all DReps.
  */
 
+import type { PercentileStrategy } from './methodology';
+
 /**
  * Percentile-normalize a set of raw scores across all entries.
  * Tied scores get the average rank. Single entry gets 50.
@@ -34,3 +36,27 @@ export function percentileNormalize(rawScores: Map<string, number>): Map<string,
 
   return percentiles;
 }
+
+/**
+ * Normalize a pillar's raw scores under a methodology's percentile strategy.
+ * - rank: percentile rank (the V3 default)
+ * - minmax: linear rescale so the lowest raw score is 0 and the highest 100
+ * - raw: no normalization; raw 0-100 scores pass through
+ */
+export function normalizePillar(
+  rawScores: Map<string, number>,
+  strategy: PercentileStrategy,
+): Map<string, number> {
+  if (strategy === 'rank') return percentileNormalize(rawScores);
+  if (strategy === 'raw') return new Map(rawScores);
+
+  const values = [...rawScores.values()];
+  if (values.length === 0) return new Map();
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const normalized = new Map<string, number>();
+  for (const [id, value] of rawScores) {
+    normalized.set(id, max === min ? 50 : Math.round(((value - min) / (max - min)) * 100));
+  }
+  return normalized;
+}
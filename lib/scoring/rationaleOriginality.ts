@@ -0,0 +1,208 @@
+/**
+ * Rationale originality index — flags DRep rationales that are not the
+ * DRep's own fresh reasoning, so Engagement Quality can discount them.
+ *
+ *   - duplicate:   near-identical to an earlier rationale by a different DRep
+ *   - template:    near-identical to the same DRep's earlier rationale on a
+ *                  different proposal (one text recycled across votes)
+ *   - boilerplate: generic AI/filler prose with no proposal-specific content
+ *
+ * Candidates come from MinHash LSH over word shingles of every fetched
+ * rationale and are confirmed with exact Jaccard. Confirmed pairs are joined
+ * into components; the earliest rationale in a component is the original and
+ * is never flagged. Re-votes on the same proposal reusing the DRep's own text
+ * are not flagged either.
+ */
+
+import {
+  DUPLICATE_THRESHOLD,
+  jaccard,
+  normalizeText,
+  rationaleShingles,
+} from '@/lib/rationaleAnalysis';
+import { lshBandKeys, minhashSignature, pairsFromBuckets, splitPairKey } from '@/lib/minhash';
+
+export type OriginalityFlag = 'duplicate' | 'template' | 'boilerplate';
+
+export interface IndexedRationale {
+  voteTxHash: string;
+  drepId: string;
+  proposalKey: string; // `${tx_hash}-${index}`
+  blockTime: number; // unix seconds
+  text: string;
+}
+
+export interface OriginalityFinding {
+  voteTxHash: string;
+  drepId: string;
+  proposalKey: string;
+  flag: OriginalityFlag;
+  /** Jaccard similarity with the original; null for boilerplate */
+  similarity: number | null;
+  original: { voteTxHash: string; drepId: string; blockTime: number } | null;
+  /** Boilerplate phrases found in the text */
+  markers: string[];
+  multiplier: number;
+}
+
+/** Share of a rationale's Engagement Quality credit kept when flagged */
+export const ORIGINALITY_MULTIPLIERS: Record<OriginalityFlag, number> = {
+  duplicate: 0.2,
+  template: 0.5,
+  boilerplate: 0.5,
+};
+
+const MIN_WORDS = 20;
+const NUM_HASHES = 64;
+const LSH_BANDS = 16;
+/**
+ * Widely circulated templates legitimately fill large buckets, so the cap is
+ * far above the per-proposal analysis; it still bounds the pairwise work.
+ */
+const MAX_BUCKET_SIZE = 500;
+
+/** Any one of these marks a rationale as boilerplate */
+const HARD_MARKERS = [
+  'as an ai language model',
+  'as an ai assistant',
+  'lorem ipsum',
+  'insert proposal name',
+  'insert drep name',
+  'your name here',
+  'i hope this helps',
+  'regenerate response',
+];
+
+/** Filler typical of generated prose; flagged only when several co-occur */
+const SOFT_MARKERS = [
+  'it is important to note',
+  'it is worth noting',
+  'in conclusion',
+  'plays a crucial role',
+  'a testament to',
+  'navigate the complexities',
+  'rapidly evolving',
+  'delve into',
+  'foster a',
+  'ever-evolving',
+  'multifaceted',
+  'holistic approach',
+  'paving the way',
+  'in the realm of',
+];
+const SOFT_MARKER_MIN = 3;
+
+/** Template placeholders left unfilled, e.g. "[Proposal Title]" or "{drep_name}" */
+const PLACEHOLDER_RE = /\[(?:insert|your|proposal|drep)[^\]]{0,40}\]|\{\{?\s*[a-z_]+\s*\}?\}/i;
+
+function wordCount(text: string): number {
+  return normalizeText(text).split(' ').filter(Boolean).length;
+}
+
+/** Boilerplate markers found in `text`; empty when it reads as original prose. */
+export function detectBoilerplate(text: string): string[] {
+  const lower = text.toLowerCase();
+  const hard = HARD_MARKERS.filter((m) => lower.includes(m));
+  const placeholder = text.match(PLACEHOLDER_RE)?.[0];
+  if (placeholder) hard.push(placeholder);
+  if (hard.length > 0) return hard;
+
+  const soft = SOFT_MARKERS.filter((m) => lower.includes(m));
+  return soft.length >= SOFT_MARKER_MIN ? soft : [];
+}
+
+function byPublication(a: IndexedRationale, b: IndexedRationale): number {
+  return a.blockTime - b.blockTime || a.voteTxHash.localeCompare(b.voteTxHash);
+}
+
+/**
+ * Flag duplicated, templated and boilerplate rationales. Each rationale gets at
+ * most one finding — the one with the steepest discount.
+ */
+export function indexRationaleOriginality(rationales: IndexedRationale[]): OriginalityFinding[] {
+  const findings = new Map<string, OriginalityFinding>();
+  const keep = (f: OriginalityFinding) => {
+    const prev = findings.get(f.voteTxHash);
+    if (!prev || f.multiplier < prev.multiplier) findings.set(f.voteTxHash, f);
+  };
+
+  for (const r of rationales) {
+    const markers = detectBoilerplate(r.text);
+    if (markers.length === 0) continue;
+    keep({
+      voteTxHash: r.voteTxHash,
+      drepId: r.drepId,
+      proposalKey: r.proposalKey,
+      flag: 'boilerplate',
+      similarity: null,
+      original: null,
+      markers,
+      multiplier: ORIGINALITY_MULTIPLIERS.boilerplate,
+    });
+  }
+
+  const eligible = rationales.filter((r) => wordCount(r.text) >= MIN_WORDS);
+  const byId = new Map(eligible.map((r) => [r.voteTxHash, r]));
+  const shingles = new Map(eligible.map((r) => [r.voteTxHash, rationaleShingles(r.text)]));
+
+  const buckets = new Map<string, string[]>();
+  for (const [id, set] of shingles) {
+    for (const key of lshBandKeys(minhashSignature(set, NUM_HASHES), LSH_BANDS)) {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(id);
+      else buckets.set(key, [id]);
+    }
+  }
+
+  const parent = new Map<string, string>();
+  const find = (x: string): string => {
+    let root = x;
+    while (parent.get(root) !== undefined && parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(x, root);
+    return root;
+  };
+  for (const pair of pairsFromBuckets(buckets, MAX_BUCKET_SIZE)) {
+    const [a, b] = splitPairKey(pair);
+    if (jaccard(shingles.get(a)!, shingles.get(b)!) < DUPLICATE_THRESHOLD) continue;
+    parent.set(find(a), find(b));
+  }
+
+  const components = new Map<string, IndexedRationale[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    const list = components.get(root) ?? [];
+    list.push(byId.get(id)!);
+    components.set(root, list);
+  }
+
+  for (const members of components.values()) {
+    if (members.length < 2) continue;
+    members.sort(byPublication);
+    const [original, ...rest] = members;
+    const originalShingles = shingles.get(original.voteTxHash)!;
+
+    for (const r of rest) {
+      let flag: OriginalityFlag;
+      if (r.drepId !== original.drepId) flag = 'duplicate';
+      else if (r.proposalKey !== original.proposalKey) flag = 'template';
+      else continue;
+
+      keep({
+        voteTxHash: r.voteTxHash,
+        drepId: r.drepId,
+        proposalKey: r.proposalKey,
+        flag,
+        similarity: Math.round(jaccard(originalShingles, shingles.get(r.voteTxHash)!) * 100) / 100,
+        original: {
+          voteTxHash: original.voteTxHash,
+          drepId: original.drepId,
+          blockTime: original.blockTime,
+        },
+        markers: [],
+        multiplier: ORIGINALITY_MULTIPLIERS[flag],
+      });
+    }
+  }
+
+  return [...findings.values()];
+}
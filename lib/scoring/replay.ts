@@ -0,0 +1,186 @@
+/**
+ * DRep Score V3 historical replay.
+ * Recomputes all four pillars + percentile normalization "as of" a past epoch
+ * under a methodology profile (current by default), by rewinding vote/proposal
+ * state to that point.
+ *
+ * What is rewound: votes cast, proposals submitted, proposal outcomes
+ * (ratified/expired/dropped), DRep voting-power tallies, the registered DRep set.
+ * What is not: DRep profile metadata and delegator counts (no per-epoch history),
+ * and AI rationale quality scores (reused as stored).
+ */
+
+import { blockTimeToEpoch, epochToBlockTime } from '@/lib/koios';
+import { buildScoringInputs, computeRawPillars, type ScoringRows } from './inputs';
+import { computeDRepScores } from './drepScore';
+import { computeTier, type TierName } from './tiers';
+import { CURRENT_METHODOLOGY, type MethodologyProfile } from './methodology';
+import type { DRepScoreResult } from './types';
+
+const EPOCH_LENGTH_SECONDS = 432000;
+
+export interface LifecycleEventRow {
+  drep_id: string;
+  action: 'registration' | 'update' | 'deregistration';
+  epoch_no: number;
+}
+
+export interface ReplayRows extends ScoringRows {
+  /** Optional drep_lifecycle_events rows; when present, limits the DRep set to those registered at the epoch */
+  lifecycleRows?: LifecycleEventRow[];
+}
+
+export interface ReplayScore extends DRepScoreResult {
+  tier: TierName;
+}
+
+export interface ReplayResult {
+  epoch: number;
+  methodologyVersion: string;
+  /** Unix seconds used as "now" for temporal decay (last second of the epoch) */
+  asOfSeconds: number;
+  scores: Map<string, ReplayScore>;
+  drepCount: number;
+  voteCount: number;
+  proposalCount: number;
+}
+
+/** Last second of an epoch — the "as of" instant for a replay. */
+export function epochEndTime(epoch: number): number {
+  return epochToBlockTime(epoch) + EPOCH_LENGTH_SECONDS - 1;
+}
+
+function voteEpoch(v: { epoch_no: number | null; block_time: number }): number {
+  return v.epoch_no ?? blockTimeToEpoch(v.block_time);
+}
+
+/**
+ * Rewind raw scoring rows to the state they were in at the end of `targetEpoch`.
+ * Outcome epochs after the target are cleared, DRep voting-power tallies are
+ * rebuilt from the votes cast so far (the stored summary reflects final tallies),
+ * and only DReps registered at the target epoch keep their votes.
+ */
+export function filterRowsAsOfEpoch(rows: ReplayRows, targetEpoch: number): ScoringRows {
+  const asOf = (epoch: number | null) => (epoch != null && epoch <= targetEpoch ? epoch : null);
+
+  const proposalRows = rows.proposalRows
+    .filter((p) => {
+      const proposed = p.proposed_epoch ?? (p.block_time ? blockTimeToEpoch(p.block_time) : null);
+      return proposed != null && proposed <= targetEpoch;
+    })
+    .map((p) => ({
+      ...p,
+      expired_epoch: asOf(p.expired_epoch),
+      ratified_epoch: asOf(p.ratified_epoch),
+      dropped_epoch: asOf(p.dropped_epoch),
+    }));
+
+  const proposalKeys = new Set(proposalRows.map((p) => `${p.tx_hash}-${p.proposal_index}`));
+
+  const voteRows = rows.voteRows.filter(
+    (v) =>
+      voteEpoch(v) <= targetEpoch && proposalKeys.has(`${v.proposal_tx_hash}-${v.proposal_index}`),
+  );
+
+  // Rebuild tallies from the votes visible at the target epoch
+  const tallies = new Map<string, { yes: number; no: number; abstain: number }>();
+  for (const v of voteRows) {
+    const key = `${v.proposal_tx_hash}-${v.proposal_index}`;
+    const t = tallies.get(key) ?? { yes: 0, no: 0, abstain: 0 };
+    const power = Number(v.voting_power_lovelace) || 0;
+    if (v.vote === 'Yes') t.yes += power;
+    else if (v.vote === 'No') t.no += power;
+    else t.abstain += power;
+    tallies.set(key, t);
+  }
+
+  const summaryRows = [...tallies.entries()].map(([key, t]) => {
+    const sep = key.lastIndexOf('-');
+    return {
+      proposal_tx_hash: key.slice(0, sep),
+      proposal_index: Number(key.slice(sep + 1)),
+      drep_yes_vote_power: t.yes,
+      drep_no_vote_power: t.no,
+      drep_abstain_vote_power: t.abstain,
+    };
+  });
+
+  // Tallies keep every vote cast by then, but only registered DReps are scored,
+  // so their votes alone feed the pillars and percentile normalization
+  const drepRows = filterRegisteredDReps(rows, voteRows, targetEpoch);
+  const registered = new Set(drepRows.map((d) => d.id));
+
+  return {
+    drepRows,
+    voteRows: voteRows.filter((v) => registered.has(v.drep_id)),
+    proposalRows,
+    summaryRows,
+  };
+}
+
+/**
+ * DReps that existed at the target epoch. With lifecycle data: last registration
+ * at or before the epoch and no later deregistration. Without it: DReps that had
+ * cast at least one vote by then.
+ */
+function filterRegisteredDReps(
+  rows: ReplayRows,
+  voteRows: ScoringRows['voteRows'],
+  targetEpoch: number,
+): ScoringRows['drepRows'] {
+  if (!rows.lifecycleRows?.length) {
+    const voted = new Set(voteRows.map((v) => v.drep_id));
+    return rows.drepRows.filter((d) => voted.has(d.id));
+  }
+
+  const lastAction = new Map<string, { action: string; epoch: number }>();
+  for (const e of rows.lifecycleRows) {
+    if (e.epoch_no > targetEpoch || e.action === 'update') continue;
+    const prev = lastAction.get(e.drep_id);
+    if (!prev || e.epoch_no >= prev.epoch) {
+      lastAction.set(e.drep_id, { action: e.action, epoch: e.epoch_no });
+    }
+  }
+
+  return rows.drepRows.filter((d) => lastAction.get(d.id)?.action === 'registration');
+}
+
+/**
+ * Recompute DRep Score V3 for every DRep as it would have been at the end of
+ * `targetEpoch` under `profile`. Momentum is not replayed (score history is what
+ * is being rebuilt).
+ */
+export function replayScoresAtEpoch(
+  rows: ReplayRows,
+  targetEpoch: number,
+  profile: MethodologyProfile = CURRENT_METHODOLOGY,
+): ReplayResult {
+  const asOfSeconds = epochEndTime(targetEpoch);
+  const filtered = filterRowsAsOfEpoch(rows, targetEpoch);
+  const inputs = buildScoringInputs(filtered, targetEpoch);
+  const raw = computeRawPillars(inputs, asOfSeconds, targetEpoch, profile);
+
+  const finalScores = computeDRepScores(
+    raw.engagement,
+    raw.participation,
+    raw.reliability,
+    raw.identity,
+    new Map(),
+    profile,
+  );
+
+  const scores = new Map<string, ReplayScore>();
+  for (const [drepId, s] of finalScores) {
+    scores.set(drepId, { ...s, tier: computeTier(s.composite) });
+  }
+
+  return {
+    epoch: targetEpoch,
+    methodologyVersion: profile.version,
+    asOfSeconds,
+    scores,
+    drepCount: filtered.drepRows.length,
+    voteCount: filtered.voteRows.length,
+    proposalCount: filtered.proposalRows.length,
+  };
+}
@@ -14,6 +14,9 @@ export interface SybilFlag {
 /**
  * Detect SPO pairs with suspiciously high vote correlation.
  * Only considers pairs with >= minSharedVotes common proposals.
+ *
+ * @deprecated O(n²) over all pools. Use detectCoordinationClusters
+ * (./coordinationDetection), which covers DReps and SPOs and groups pairs into clusters.
  */
 export function detectSybilPairs(
   poolVoteMap: Map<string, Map<string, 'Yes' | 'No' | 'Abstain'>>,
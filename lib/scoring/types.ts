@@ -3,16 +3,13 @@
  * All pillar modules consume these; the Inngest sync function constructs them.
  */
 
-// Temporal decay: half-life of 180 days (~6 months)
-export const DECAY_HALF_LIFE_DAYS = 180;
+import { CURRENT_METHODOLOGY } from './methodology';
+
+// Temporal decay: half-life of the current methodology (180 days, ~6 months)
+export const DECAY_HALF_LIFE_DAYS = CURRENT_METHODOLOGY.decayHalfLifeDays;
 export const DECAY_LAMBDA = Math.LN2 / DECAY_HALF_LIFE_DAYS;
 
-export const PILLAR_WEIGHTS = {
-  engagementQuality: 0.35,
-  effectiveParticipation: 0.25,
-  reliability: 0.25,
-  governanceIdentity: 0.15,
-} as const;
+export const PILLAR_WEIGHTS = CURRENT_METHODOLOGY.pillarWeights;
 
 export interface VoteData {
   drepId: string;
@@ -23,6 +20,8 @@ export interface VoteData {
   proposalType: string;
   rationaleQuality: number | null;
   importanceWeight: number;
+  /** Credit kept for a duplicated/templated/boilerplate rationale (0-1); absent = original */
+  rationaleOriginality?: number;
 }
 
 export interface ProposalScoringContext {
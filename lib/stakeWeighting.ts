@@ -0,0 +1,341 @@
+/**
+ * Stake-weighted tallies for citizen engagement (assemblies, sentiment, concern
+ * flags, priority signals). Every tally reports headcount and ADA weight side by side.
+ *
+ * A voter is their stake key, derived from the signed-in wallet address — never
+ * the client-supplied stake address, which anyone can claim. Several wallets on one
+ * stake key count once (latest response wins). Weights come from voter_stake_snapshots:
+ * live stake recorded each epoch while a poll is open, read back at its close epoch.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { fetchAll } from '@/lib/sync-utils';
+import { fetchAccountBalances } from '@/utils/koios';
+import { stakeAddressFromAddress } from '@/utils/drepId';
+
+/** Upper bound on Koios lookups per snapshot run */
+export const MAX_STAKE_SNAPSHOTS_PER_RUN = 5000;
+/** Borda points for a 1st-choice priority; each lower rank gets one fewer */
+const BORDA_MAX_POINTS = 5;
+const LOOKUP_CHUNK = 200;
+
+export interface TallyVoter {
+  userId: string;
+  walletAddress: string;
+  /** Response time; the latest response per stake key wins */
+  at: string | null;
+}
+
+export interface OptionTally {
+  key: string;
+  count: number;
+  percentage: number;
+  stakeLovelace: number;
+  stakePercentage: number;
+}
+
+export interface TallySummary {
+  /** Unique voters after stake-key de-duplication */
+  headcount: number;
+  totalStakeLovelace: number;
+  /** Voters with no verifiable stake key or no stake snapshot; counted but unweighted */
+  unweightedVoters: number;
+  /** Responses dropped because another wallet on the same stake key also voted */
+  duplicateResponses: number;
+}
+
+export interface BordaRanking {
+  priority: string;
+  score: number;
+  rank: number;
+  firstChoiceCount: number;
+}
+
+export interface StakeBordaRanking {
+  priority: string;
+  /** Borda points weighted by ADA (points × ADA) */
+  score: number;
+  /** Share of all weighted points, 0-100 */
+  share: number;
+  rank: number;
+  firstChoiceLovelace: number;
+}
+
+/**
+ * The stake key a response counts under, derived from the signed-in wallet address
+ * (a wallet that signed in with its stake address resolves to itself).
+ */
+export function resolveStakeKey(walletAddress: string): string | null {
+  return stakeAddressFromAddress(walletAddress);
+}
+
+function voterKey(voter: TallyVoter): string {
+  return resolveStakeKey(voter.walletAddress) ?? `user:${voter.userId}`;
+}
+
+/**
+ * Keep one response per stake key (or per user when no stake key resolves).
+ * `scope` splits voters further, e.g. one response per flag type.
+ */
+export function dedupeByStakeKey<T extends TallyVoter>(
+  voters: T[],
+  scope?: (voter: T) => string,
+): { voters: Array<T & { stakeKey: string | null }>; duplicateResponses: number } {
+  const latest = new Map<string, T>();
+  for (const voter of voters) {
+    const key = scope ? `${voterKey(voter)}|${scope(voter)}` : voterKey(voter);
+    const existing = latest.get(key);
+    if (!existing || (voter.at ?? '') > (existing.at ?? '')) latest.set(key, voter);
+  }
+
+  const deduped = [...latest.values()].map((v) => ({
+    ...v,
+    stakeKey: resolveStakeKey(v.walletAddress),
+  }));
+  return { voters: deduped, duplicateResponses: voters.length - deduped.length };
+}
+
+function pct(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 100) : 0;
+}
+
+function summarize(
+  voters: Array<{ stakeKey: string | null; userId: string }>,
+  stake: Map<string, number>,
+  duplicateResponses: number,
+): TallySummary {
+  const people = new Map<string, number | undefined>();
+  for (const v of voters) {
+    people.set(v.stakeKey ?? `user:${v.userId}`, v.stakeKey ? stake.get(v.stakeKey) : undefined);
+  }
+  let totalStakeLovelace = 0;
+  let unweightedVoters = 0;
+  for (const lovelace of people.values()) {
+    if (lovelace === undefined) unweightedVoters++;
+    else totalStakeLovelace += lovelace;
+  }
+  return { headcount: people.size, totalStakeLovelace, unweightedVoters, duplicateResponses };
+}
+
+/**
+ * Headcount and stake tally per option. Voters must already be de-duplicated.
+ * Percentages are of voters (headcount) and of voting stake (stake) respectively.
+ */
+export function tallyOptions(
+  voters: Array<TallyVoter & { stakeKey: string | null; choice: string }>,
+  stake: Map<string, number>,
+  optionKeys: string[],
+  duplicateResponses = 0,
+): { options: OptionTally[]; summary: TallySummary } {
+  const counts = new Map<string, { count: number; lovelace: number }>(
+    optionKeys.map((k) => [k, { count: 0, lovelace: 0 }]),
+  );
+  for (const v of voters) {
+    const entry = counts.get(v.choice) ?? { count: 0, lovelace: 0 };
+    entry.count++;
+    entry.lovelace += v.stakeKey ? (stake.get(v.stakeKey) ?? 0) : 0;
+    counts.set(v.choice, entry);
+  }
+
+  const summary = summarize(voters, stake, duplicateResponses);
+  const totalVotes = voters.length;
+  const options = [...counts.entries()].map(([key, { count, lovelace }]) => ({
+    key,
+    count,
+    percentage: pct(count, totalVotes),
+    stakeLovelace: lovelace,
+    stakePercentage: pct(lovelace, summary.totalStakeLovelace),
+  }));
+  return { options, summary };
+}
+
+/**
+ * Borda count (1st choice gets 5 points, 2nd 4, …) by headcount and by stake.
+ * Voters must already be de-duplicated.
+ */
+export function tallyBorda(
+  voters: Array<TallyVoter & { stakeKey: string | null; ranking: string[] }>,
+  stake: Map<string, number>,
+  areas: readonly string[],
+  duplicateResponses = 0,
+): { rankings: BordaRanking[]; stakeWeighted: StakeBordaRanking[]; summary: TallySummary } {
+  const scores = new Map<
+    string,
+    { score: number; first: number; ada: number; firstLovelace: number }
+  >(areas.map((a) => [a, { score: 0, first: 0, ada: 0, firstLovelace: 0 }]));
+
+  for (const v of voters) {
+    const lovelace = v.stakeKey ? (stake.get(v.stakeKey) ?? 0) : 0;
+    v.ranking.slice(0, BORDA_MAX_POINTS).forEach((area, i) => {
+      const entry = scores.get(area) ?? { score: 0, first: 0, ada: 0, firstLovelace: 0 };
+      const points = BORDA_MAX_POINTS - i;
+      entry.score += points;
+      entry.ada += (points * lovelace) / 1_000_000;
+      if (i === 0) {
+        entry.first++;
+        entry.firstLovelace += lovelace;
+      }
+      scores.set(area, entry);
+    });
+  }
+
+  const entries = [...scores.entries()];
+  const rankings = entries
+    .map(([priority, s]) => ({ priority, score: s.score, rank: 0, firstChoiceCount: s.first }))
+    .sort((a, b) => b.score - a.score)
+    .map((item, i) => ({ ...item, rank: i + 1 }));
+
+  const totalAda = entries.reduce((sum, [, s]) => sum + s.ada, 0);
+  const stakeWeighted = entries
+    .map(([priority, s]) => ({
+      priority,
+      score: Math.round(s.ada),
+      share: pct(s.ada, totalAda),
+      rank: 0,
+      firstChoiceLovelace: s.firstLovelace,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .map((item, i) => ({ ...item, rank: i + 1 }));
+
+  return { rankings, stakeWeighted, summary: summarize(voters, stake, duplicateResponses) };
+}
+
+/** Epoch a proposal's polls close at: when it left the voting window, or null while open */
+export function proposalCloseEpoch(proposal: {
+  ratified_epoch: number | null;
+  enacted_epoch: number | null;
+  expired_epoch: number | null;
+  dropped_epoch: number | null;
+}): number | null {
+  return (
+    proposal.ratified_epoch ??
+    proposal.expired_epoch ??
+    proposal.dropped_epoch ??
+    proposal.enacted_epoch ??
+    null
+  );
+}
+
+/**
+ * Latest stake per address at or before `epoch`. Addresses never snapshotted are
+ * absent, so callers count those voters as unweighted.
+ */
+export async function loadStakeWeights(
+  stakeAddresses: string[],
+  epoch: number,
+): Promise<Map<string, number>> {
+  const supabase = getSupabaseAdmin();
+  const unique = [...new Set(stakeAddresses)];
+  const weights = new Map<string, number>();
+
+  for (let i = 0; i < unique.length; i += LOOKUP_CHUNK) {
+    const chunk = unique.slice(i, i + LOOKUP_CHUNK);
+    // One row per address per epoch, so a chunk can still exceed a single page
+    const rows = await fetchAll<{ stake_address: string; epoch: number; lovelace: number }>(
+      supabase
+        .from('voter_stake_snapshots')
+        .select('stake_address, epoch, lovelace')
+        .in('stake_address', chunk)
+        .lte('epoch', epoch)
+        .order('epoch', { ascending: false })
+        .order('stake_address'),
+    );
+    for (const row of rows) {
+      if (!weights.has(row.stake_address)) weights.set(row.stake_address, row.lovelace);
+    }
+  }
+
+  return weights;
+}
+
+/**
+ * Record live stake for addresses not yet snapshotted this epoch. The first
+ * snapshot in an epoch sticks, so results for a poll closing this epoch are stable.
+ */
+export async function snapshotVoterStake(
+  stakeAddresses: string[],
+  epoch: number,
+): Promise<{ requested: number; snapshotted: number }> {
+  const supabase = getSupabaseAdmin();
+  const unique = [...new Set(stakeAddresses)];
+
+  const existing = new Set<string>();
+  for (let i = 0; i < unique.length; i += LOOKUP_CHUNK) {
+    const { data } = await supabase
+      .from('voter_stake_snapshots')
+      .select('stake_address')
+      .eq('epoch', epoch)
+      .in('stake_address', unique.slice(i, i + LOOKUP_CHUNK));
+    for (const row of data ?? []) existing.add(row.stake_address);
+  }
+
+  const missing = unique.filter((a) => !existing.has(a)).slice(0, MAX_STAKE_SNAPSHOTS_PER_RUN);
+  if (missing.length === 0) return { requested: 0, snapshotted: 0 };
+
+  const balances = await fetchAccountBalances(missing);
+  // Unregistered stake keys have no live stake; record zero so they are not refetched
+  const rows = missing.map((stake_address) => ({
+    stake_address,
+    epoch,
+    lovelace: balances.get(stake_address) ?? 0,
+  }));
+
+  const { error } = await supabase
+    .from('voter_stake_snapshots')
+    .upsert(rows, { onConflict: 'stake_address,epoch', ignoreDuplicates: true });
+  if (error) throw new Error(`voter_stake_snapshots: ${error.message}`);
+
+  return { requested: missing.length, snapshotted: rows.length };
+}
+
+export interface AssemblyOptionResult extends OptionTally {
+  label: string;
+}
+
+/**
+ * Headcount + stake results for a citizen assembly, weighted at `epoch`
+ * (its close epoch once closed, the current epoch while open).
+ */
+export async function tallyAssembly(
+  assemblyId: string,
+  options: { key: string; label: string }[],
+  epoch: number,
+): Promise<{ results: AssemblyOptionResult[]; summary: TallySummary }> {
+  const supabase = getSupabaseAdmin();
+  const data = await fetchAll<{
+    user_id: string;
+    wallet_address: string;
+    selected_option: string;
+    created_at: string | null;
+  }>(
+    supabase
+      .from('citizen_assembly_responses')
+      .select('user_id, wallet_address, selected_option, created_at')
+      .eq('assembly_id', assemblyId)
+      .order('id'),
+  );
+
+  const { voters, duplicateResponses } = dedupeByStakeKey(
+    data.map((r) => ({
+      userId: r.user_id,
+      walletAddress: r.wallet_address,
+      at: r.created_at,
+      choice: r.selected_option,
+    })),
+  );
+  const stake = await loadStakeWeights(
+    voters.map((v) => v.stakeKey).filter((k): k is string => !!k),
+    epoch,
+  );
+  const tally = tallyOptions(
+    voters,
+    stake,
+    options.map((o) => o.key),
+    duplicateResponses,
+  );
+  const labels = new Map(options.map((o) => [o.key, o.label]));
+  return {
+    results: tally.options.map((o) => ({ ...o, label: labels.get(o.key) ?? o.key })),
+    summary: tally.summary,
+  };
+}
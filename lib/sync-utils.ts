@@ -33,7 +33,13 @@ export type SyncType =
   | 'metadata_archive'
   | 'catalyst'
   | 'catalyst_proposals'
-  | 'catalyst_funds';
+  | 'catalyst_funds'
+  | 'catalyst_team_links'
+  | 'score_replay'
+  | 'coordination'
+  | 'projections'
+  | 'anchor_retry'
+  | 'rationale_originality';
 
 const BATCH_SIZE = 100;
 const MAX_UPSERT_RETRIES = 3;
@@ -398,23 +404,26 @@ export async function triggerAnalyticsDeploy(syncType: SyncType): Promise<void>
 
 /**
  * Fetch all rows from a Supabase table, paginating in chunks of PAGE_SIZE
- * to bypass the PostgREST default 1000-row limit.
+ * to bypass the PostgREST default 1000-row limit. `maxRows` stops early.
  */
 const PAGE_SIZE = 1000;
 
-export async function fetchAll<T = Record<string, unknown>>(query: {
-  range: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>;
-}): Promise<T[]> {
+export async function fetchAll<T = Record<string, unknown>>(
+  query: {
+    range: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>;
+  },
+  { maxRows = Infinity }: { maxRows?: number } = {},
+): Promise<T[]> {
   const all: T[] = [];
   let page = 0;
-  while (true) {
+  while (all.length < maxRows) {
     const from = page * PAGE_SIZE;
-    const to = from + PAGE_SIZE - 1;
+    const to = Math.min(from + PAGE_SIZE, maxRows) - 1;
     const { data, error } = await query.range(from, to);
     if (error) throw new Error(`fetchAll page ${page}: ${errMsg(error)}`);
     if (!data || data.length === 0) break;
     all.push(...data);
-    if (data.length < PAGE_SIZE) break;
+    if (data.length < to - from + 1) break;
     page++;
   }
   return all;
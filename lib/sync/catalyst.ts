@@ -9,11 +9,19 @@
  * - Ongoing: daily incremental sync of active/recent funds only
  * - Funds and campaigns are upserted from proposal includes
  * - Team members are upserted and linked via junction table
+ * - Treasury withdrawals are then linked to Catalyst team members
+ *   (see lib/catalyst/resolve.ts)
  */
 
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
-import { SyncLogger, batchUpsert, errMsg } from '@/lib/sync-utils';
+import { SyncLogger, batchUpsert, errMsg, fetchAll } from '@/lib/sync-utils';
+import {
+  buildCatalystIndex,
+  resolveTeamLinks,
+  type CatalystMemberIdentity,
+  type CatalystProjectIdentity,
+} from '@/lib/catalyst/resolve';
 import {
   fetchCatalystFunds,
   fetchAllCatalystProposals,
@@ -206,6 +214,143 @@ export async function syncCatalystProposals(fundId?: string): Promise<{
   }
 }
 
+// ---------------------------------------------------------------------------
+// 3. Link treasury withdrawals to Catalyst teams
+// ---------------------------------------------------------------------------
+
+export async function syncTreasuryTeamLinks(): Promise<{
+  proposalsLinked: number;
+  linksStored: number;
+  linksRemoved: number;
+  errors: string[];
+}> {
+  const supabase = getSupabaseAdmin();
+  const syncLog = new SyncLogger(supabase, 'catalyst_team_links');
+  await syncLog.start();
+  const errors: string[] = [];
+
+  try {
+    const [proposals, members, projects, team, existing] = await Promise.all([
+      fetchAll<{
+        tx_hash: string;
+        proposal_index: number;
+        title: string | null;
+        abstract: string | null;
+        authors: string[] | null;
+        reference_urls: string[] | null;
+      }>(
+        supabase
+          .from('proposals')
+          .select('tx_hash, proposal_index, title, abstract, authors, reference_urls')
+          .eq('proposal_type', 'TreasuryWithdrawals'),
+      ),
+      fetchAll<CatalystMemberIdentity>(
+        supabase
+          .from('catalyst_team_members')
+          .select('id, name, username, twitter, linkedin, telegram'),
+      ),
+      fetchAll<{ id: string; website: string | null }>(
+        supabase.from('catalyst_proposals').select('id, website').not('website', 'is', null),
+      ),
+      fetchAll<{ proposal_id: string; team_member_id: string }>(
+        supabase.from('catalyst_proposal_team').select('proposal_id, team_member_id'),
+      ),
+      fetchAll<{ proposal_tx_hash: string; proposal_index: number; team_member_id: string }>(
+        supabase
+          .from('treasury_team_links')
+          .select('proposal_tx_hash, proposal_index, team_member_id'),
+      ),
+    ]);
+
+    const teamByProject = new Map<string, string[]>();
+    for (const t of team) {
+      const ids = teamByProject.get(t.proposal_id) ?? [];
+      ids.push(t.team_member_id);
+      teamByProject.set(t.proposal_id, ids);
+    }
+    const index = buildCatalystIndex(
+      members,
+      projects.map((p): CatalystProjectIdentity => ({
+        id: p.id,
+        website: p.website,
+        teamMemberIds: teamByProject.get(p.id) ?? [],
+      })),
+    );
+
+    const now = new Date().toISOString();
+    const rows = proposals.flatMap((p) =>
+      resolveTeamLinks(
+        {
+          title: p.title,
+          abstract: p.abstract,
+          authors: p.authors ?? [],
+          references: p.reference_urls ?? [],
+        },
+        index,
+      ).map((link) => ({
+        proposal_tx_hash: p.tx_hash,
+        proposal_index: p.proposal_index,
+        team_member_id: link.teamMemberId,
+        confidence: link.confidence,
+        signals: link.signals,
+        linked_at: now,
+      })),
+    );
+
+    const result = await batchUpsert(
+      supabase,
+      'treasury_team_links',
+      rows,
+      'proposal_tx_hash,proposal_index,team_member_id',
+      'treasury_team_links',
+    );
+    if (result.errors > 0) errors.push(`${result.errors} team link upsert errors`);
+
+    // Links no longer supported by the evidence (edited metadata, renamed members)
+    const keyOf = (tx: string, i: number, member: string) => `${tx}#${i}#${member}`;
+    const current = new Set(
+      rows.map((r) => keyOf(r.proposal_tx_hash, r.proposal_index, r.team_member_id)),
+    );
+    const stale = existing.filter(
+      (e) => !current.has(keyOf(e.proposal_tx_hash, e.proposal_index, e.team_member_id)),
+    );
+    let linksRemoved = 0;
+    for (const s of stale) {
+      const { error } = await supabase
+        .from('treasury_team_links')
+        .delete()
+        .eq('proposal_tx_hash', s.proposal_tx_hash)
+        .eq('proposal_index', s.proposal_index)
+        .eq('team_member_id', s.team_member_id);
+      if (error) errors.push(`Stale link delete: ${error.message}`);
+      else linksRemoved++;
+    }
+
+    const proposalsLinked = new Set(rows.map((r) => `${r.proposal_tx_hash}#${r.proposal_index}`))
+      .size;
+    await syncLog.finalize(errors.length === 0, errors.join('; ') || null, {
+      treasury_proposals: proposals.length,
+      proposals_linked: proposalsLinked,
+      links_stored: result.success,
+      links_removed: linksRemoved,
+    });
+
+    logger.info('[catalyst] Treasury team links resolved', {
+      proposalsLinked,
+      linksStored: result.success,
+      linksRemoved,
+    });
+
+    return { proposalsLinked, linksStored: result.success, linksRemoved, errors };
+  } catch (err) {
+    const msg = errMsg(err);
+    errors.push(msg);
+    await syncLog.finalize(false, msg, {});
+    logger.error('[catalyst] Treasury team linking failed', { error: msg });
+    return { proposalsLinked: 0, linksStored: 0, linksRemoved: 0, errors };
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
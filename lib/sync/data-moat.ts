@@ -16,6 +16,7 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
 import { SyncLogger, batchUpsert, errMsg } from '@/lib/sync-utils';
 import { blockTimeToEpoch } from '@/lib/koios';
+import { fetchAnchor } from '@/lib/anchors';
 import {
   fetchDRepDelegatorsFull,
   fetchDRepUpdates,
@@ -454,8 +455,10 @@ export async function syncMetadataArchive(): Promise<{
           const metadataResponse = await fetchDRepMetadata(drepIds);
 
           const rows = [];
+          const fetchedIds = new Set<string>();
           for (const meta of metadataResponse) {
             if (!meta.meta_json) continue;
+            fetchedIds.add(meta.drep_id);
 
             const jsonStr = JSON.stringify(meta.meta_json);
             const contentHash = hashContent(jsonStr);
@@ -474,6 +477,34 @@ export async function syncMetadataArchive(): Promise<{
             });
           }
 
+          // Koios returns no meta_json when its own fetch failed — retry via the anchor fetcher
+          const missing = batch.filter((d) => !fetchedIds.has(d.id) && d.anchor_url);
+          const anchors = await Promise.all(
+            missing.map((d) => fetchAnchor(d.anchor_url!, { expectedHash: d.anchor_hash })),
+          );
+          missing.forEach((d, idx) => {
+            const anchor = anchors[idx];
+            if (anchor.text === null) return;
+            let json: Record<string, unknown>;
+            try {
+              json = JSON.parse(anchor.text);
+            } catch {
+              return;
+            }
+            rows.push({
+              entity_type: 'drep' as const,
+              entity_id: d.id,
+              meta_url: d.anchor_url,
+              meta_hash: d.anchor_hash,
+              meta_json: json,
+              cip_standard: detectCipStandard(json),
+              fetch_status: (anchor.hashVerified === false ? 'hash_mismatch' : 'success') as
+                | 'success'
+                | 'hash_mismatch',
+              content_hash: hashContent(JSON.stringify(json)),
+            });
+          });
+
           if (rows.length > 0) {
             const { error } = await supabase
               .from('metadata_archive')
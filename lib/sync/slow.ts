@@ -6,18 +6,19 @@
 
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { logger as log } from '@/lib/logger';
-import { SyncLogger, errMsg, emitPostHog, batchUpsert } from '@/lib/sync-utils';
-import { blake2bHex } from 'blakejs';
+import { SyncLogger, errMsg, emitPostHog, batchUpsert, fetchAll } from '@/lib/sync-utils';
 import { fetchDRepVotingPowerHistory, fetchDRepInfo } from '@/utils/koios';
 import { getProposalPriority } from '@/utils/proposalPriority';
 import { broadcastDiscord, broadcastEvent } from '@/lib/notifications';
 import { precomputeSimilarityCache } from '@/lib/proposalSimilarity';
+import { fetchAnchor } from '@/lib/anchors';
 import * as Sentry from '@sentry/nextjs';
 
-const RATIONALE_FETCH_TIMEOUT_MS = 5000;
+const RATIONALE_FETCH_TIMEOUT_MS = 8000;
 const RATIONALE_MAX_CONTENT_SIZE = 50_000;
-const RATIONALE_CONCURRENCY = 8;
-const RATIONALE_MAX_PER_SYNC = 200;
+const RATIONALE_CONCURRENCY = 16;
+/** Wall-clock budget for rationale fetching; cache hits are cheap, so no fixed row cap */
+const RATIONALE_TIME_BUDGET_MS = 240_000;
 
 function truncateToWordBoundary(text: string, maxLen: number): string {
   if (text.length <= maxLen) return text;
@@ -44,48 +45,39 @@ function extractJsonLdString(val: unknown): string | null {
   return null;
 }
 
-async function fetchRationaleFromUrl(url: string): Promise<string | null> {
+function extractRationaleText(text: string): string | null {
+  if (text.length > RATIONALE_MAX_CONTENT_SIZE) return null;
   try {
-    let fetchUrl = url;
-    if (url.startsWith('ipfs://')) fetchUrl = `https://ipfs.io/ipfs/${url.slice(7)}`;
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), RATIONALE_FETCH_TIMEOUT_MS);
-    const response = await fetch(fetchUrl, {
-      signal: controller.signal,
-      headers: { Accept: 'application/json, text/plain, */*' },
-    });
-    clearTimeout(timeoutId);
-
-    if (!response.ok) return null;
-    const contentLength = response.headers.get('content-length');
-    if (contentLength && parseInt(contentLength) > RATIONALE_MAX_CONTENT_SIZE) return null;
-
-    const text = await response.text();
-    if (text.length > RATIONALE_MAX_CONTENT_SIZE) return null;
-
-    try {
-      const json = JSON.parse(text);
-      if (json.body && typeof json.body === 'object') {
-        for (const key of ['comment', 'rationale', 'motivation']) {
-          const extracted = extractJsonLdString(json.body[key]);
-          if (extracted) return extracted;
-        }
-      }
-      for (const key of ['rationale', 'motivation', 'justification', 'reason', 'comment']) {
-        const extracted = extractJsonLdString(json[key]);
+    const json = JSON.parse(text);
+    if (json.body && typeof json.body === 'object') {
+      for (const key of ['comment', 'rationale', 'motivation']) {
+        const extracted = extractJsonLdString(json.body[key]);
         if (extracted) return extracted;
       }
-      if (typeof json === 'string' && json.trim()) return json.trim();
-    } catch {
-      if (text.trim() && !text.includes('<!DOCTYPE') && !text.includes('<html')) {
-        return text.trim();
-      }
     }
-    return null;
+    for (const key of ['rationale', 'motivation', 'justification', 'reason', 'comment']) {
+      const extracted = extractJsonLdString(json[key]);
+      if (extracted) return extracted;
+    }
+    if (typeof json === 'string' && json.trim()) return json.trim();
   } catch {
-    return null;
+    if (text.trim() && !text.includes('<!DOCTYPE') && !text.includes('<html')) {
+      return text.trim();
+    }
   }
+  return null;
+}
+
+async function fetchRationaleFromUrl(
+  url: string,
+  metaHash: string | null,
+): Promise<{ text: string | null; hashVerified: boolean | null }> {
+  const anchor = await fetchAnchor(url, {
+    expectedHash: metaHash,
+    timeoutMs: RATIONALE_FETCH_TIMEOUT_MS,
+  });
+  if (anchor.text === null) return { text: null, hashVerified: null };
+  return { text: extractRationaleText(anchor.text), hashVerified: anchor.hashVerified };
 }
 
 type SupabaseClient = ReturnType<typeof getSupabaseAdmin>;
@@ -93,33 +85,37 @@ type SupabaseClient = ReturnType<typeof getSupabaseAdmin>;
 // ── Operation 1: Rationale pipeline ──────────────────────────────────────────
 
 async function runRationalePipeline(supabase: SupabaseClient) {
-  const { data: votesWithMeta } = await supabase
-    .from('drep_votes')
-    .select('vote_tx_hash, drep_id, proposal_tx_hash, proposal_index, meta_url, meta_hash')
-    .not('meta_url', 'is', null);
-
-  if (!votesWithMeta?.length) return { fetched: 0, cached: 0, inline: 0 };
+  const votesWithMeta = await fetchAll<{
+    vote_tx_hash: string;
+    drep_id: string;
+    proposal_tx_hash: string;
+    proposal_index: number;
+    meta_url: string;
+    meta_hash: string | null;
+  }>(
+    supabase
+      .from('drep_votes')
+      .select('vote_tx_hash, drep_id, proposal_tx_hash, proposal_index, meta_url, meta_hash')
+      .not('meta_url', 'is', null)
+      .order('vote_tx_hash'),
+  );
 
-  const txHashes = votesWithMeta.map((v: Record<string, string>) => v.vote_tx_hash);
-  const { data: existingRows } = await supabase
-    .from('vote_rationales')
-    .select('vote_tx_hash')
-    .in('vote_tx_hash', txHashes.slice(0, 1000))
-    .not('rationale_text', 'is', null);
+  if (!votesWithMeta.length) return { fetched: 0, cached: 0, inline: 0 };
 
-  const alreadyCached = new Set(
-    (existingRows || []).map((r: { vote_tx_hash: string }) => r.vote_tx_hash),
+  const existingRows = await fetchAll<{ vote_tx_hash: string }>(
+    supabase.from('vote_rationales').select('vote_tx_hash').not('rationale_text', 'is', null),
   );
-  const uncached = votesWithMeta
-    .filter((v: { vote_tx_hash: string }) => !alreadyCached.has(v.vote_tx_hash))
-    .slice(0, RATIONALE_MAX_PER_SYNC);
+
+  const alreadyCached = new Set(existingRows.map((r) => r.vote_tx_hash));
+  const uncached = votesWithMeta.filter((v) => !alreadyCached.has(v.vote_tx_hash));
 
   if (uncached.length === 0) return { fetched: 0, cached: alreadyCached.size, inline: 0 };
 
   log.info('[SlowSync] Fetching rationales for uncached votes', { count: uncached.length });
 
+  const deadline = Date.now() + RATIONALE_TIME_BUDGET_MS;
   const rationaleRows: Record<string, unknown>[] = [];
-  for (let i = 0; i < uncached.length; i += RATIONALE_CONCURRENCY) {
+  for (let i = 0; i < uncached.length && Date.now() < deadline; i += RATIONALE_CONCURRENCY) {
     const chunk = uncached.slice(i, i + RATIONALE_CONCURRENCY);
     const results = await Promise.all(
       chunk.map(
@@ -129,8 +125,9 @@ async function runRationalePipeline(supabase: SupabaseClient) {
           proposal_tx_hash: string;
           proposal_index: number;
           meta_url: string;
+          meta_hash: string | null;
         }) => {
-          const text = await fetchRationaleFromUrl(v.meta_url);
+          const { text, hashVerified } = await fetchRationaleFromUrl(v.meta_url, v.meta_hash);
           return {
             vote_tx_hash: v.vote_tx_hash,
             drep_id: v.drep_id,
@@ -138,6 +135,8 @@ async function runRationalePipeline(supabase: SupabaseClient) {
             proposal_index: v.proposal_index,
             meta_url: v.meta_url,
             rationale_text: text,
+            // Verified at fetch time; unhashed anchors stay null for the verification pass
+            hash_verified: hashVerified,
           };
         },
       ),
@@ -153,7 +152,9 @@ async function runRationalePipeline(supabase: SupabaseClient) {
   await supabase.from('vote_rationales').delete().is('rationale_text', null);
 
   log.info('[SlowSync] Rationales processed', {
+    attempted: rationaleRows.length,
     fetched: successRows.length,
+    remaining: uncached.length - rationaleRows.length,
     cached: alreadyCached.size,
   });
   return { fetched: successRows.length, cached: alreadyCached.size, inline: 0 };
@@ -512,23 +513,11 @@ async function runRationaleHashVerification(supabase: SupabaseClient) {
   for (const row of unchecked) {
     const expectedHash = hashMap.get(row.vote_tx_hash);
     if (!expectedHash) continue;
-    try {
-      let fetchUrl = row.meta_url;
-      if (fetchUrl.startsWith('ipfs://')) fetchUrl = `https://ipfs.io/ipfs/${fetchUrl.slice(7)}`;
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 5000);
-      const res = await fetch(fetchUrl, { signal: controller.signal });
-      clearTimeout(timeout);
-      if (!res.ok) continue;
-      const rawBytes = new Uint8Array(await res.arrayBuffer());
-      const computedHash = blake2bHex(rawBytes, undefined, 32);
-      const matches = computedHash === expectedHash;
-      hashUpdates.push({ vote_tx_hash: row.vote_tx_hash, hash_verified: matches });
-      if (matches) verified++;
-      else failed++;
-    } catch {
-      /* skip */
-    }
+    const anchor = await fetchAnchor(row.meta_url, { expectedHash, timeoutMs: 5000 });
+    if (anchor.hashVerified === null) continue;
+    hashUpdates.push({ vote_tx_hash: row.vote_tx_hash, hash_verified: anchor.hashVerified });
+    if (anchor.hashVerified) verified++;
+    else failed++;
   }
   if (hashUpdates.length > 0) {
     await batchUpsert(supabase, 'vote_rationales', hashUpdates, 'vote_tx_hash', 'Rationale hash');
@@ -570,28 +559,11 @@ async function runDRepMetadataHashVerification(supabase: SupabaseClient) {
       metaHashUpdates.push({ id, metadata_hash_verified: false });
       continue;
     }
-    try {
-      let fetchUrl = anchor.url;
-      if (fetchUrl.startsWith('ipfs://')) fetchUrl = `https://ipfs.io/ipfs/${fetchUrl.slice(7)}`;
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 5000);
-      const res = await fetch(fetchUrl, { signal: controller.signal });
-      clearTimeout(timeout);
-      if (!res.ok) {
-        metaHashUpdates.push({ id, metadata_hash_verified: false });
-        failed++;
-        continue;
-      }
-      const rawBytes = new Uint8Array(await res.arrayBuffer());
-      const computedHash = blake2bHex(rawBytes, undefined, 32);
-      const matches = computedHash === anchor.hash;
-      metaHashUpdates.push({ id, metadata_hash_verified: matches });
-      if (matches) verified++;
-      else failed++;
-    } catch {
-      metaHashUpdates.push({ id, metadata_hash_verified: false });
-      failed++;
-    }
+    const result = await fetchAnchor(anchor.url, { expectedHash: anchor.hash, timeoutMs: 5000 });
+    const matches = result.hashVerified === true;
+    metaHashUpdates.push({ id, metadata_hash_verified: matches });
+    if (matches) verified++;
+    else failed++;
   }
   if (metaHashUpdates.length > 0) {
     await batchUpsert(supabase, 'dreps', metaHashUpdates, 'id', 'DRep metadata hash');
@@ -0,0 +1,122 @@
+/**
+ * Minimal Telegram Bot API client for the governance bot.
+ * All calls are no-ops without TELEGRAM_BOT_TOKEN and never throw: a failed
+ * reply is logged, not surfaced, so one bad update cannot wedge the webhook.
+ */
+
+import { logger } from '@/lib/logger';
+
+const API_TIMEOUT_MS = 10_000;
+
+export interface InlineKeyboardButton {
+  text: string;
+  callback_data?: string;
+  url?: string;
+}
+
+export type InlineKeyboard = InlineKeyboardButton[][];
+
+export interface SendOptions {
+  keyboard?: InlineKeyboard;
+  /** Defaults to true; link previews clutter governance summaries */
+  disablePreview?: boolean;
+}
+
+export interface InlineQueryArticle {
+  type: 'article';
+  id: string;
+  title: string;
+  description?: string;
+  input_message_content: { message_text: string; parse_mode: 'HTML' };
+  reply_markup?: { inline_keyboard: InlineKeyboard };
+}
+
+async function callTelegram<T = unknown>(
+  method: string,
+  body: Record<string, unknown>,
+): Promise<T | null> {
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+  if (!botToken) return null;
+
+  try {
+    const res = await fetch(`https://api.telegram.org/bot${botToken}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(API_TIMEOUT_MS),
+    });
+    const json = (await res.json()) as { ok: boolean; result?: T; description?: string };
+    if (!json.ok) {
+      logger.warn('[Telegram] API call rejected', { method, description: json.description });
+      return null;
+    }
+    return json.result ?? null;
+  } catch (err) {
+    logger.error('[Telegram] API call failed', {
+      method,
+      error: err instanceof Error ? err.message : err,
+    });
+    return null;
+  }
+}
+
+export async function sendMessage(
+  chatId: number | string,
+  text: string,
+  options: SendOptions = {},
+): Promise<boolean> {
+  const result = await callTelegram('sendMessage', {
+    chat_id: chatId,
+    text,
+    parse_mode: 'HTML',
+    disable_web_page_preview: options.disablePreview ?? true,
+    ...(options.keyboard && { reply_markup: { inline_keyboard: options.keyboard } }),
+  });
+  return result !== null;
+}
+
+export async function editMessage(
+  chatId: number | string,
+  messageId: number,
+  text: string,
+  options: SendOptions = {},
+): Promise<boolean> {
+  const result = await callTelegram('editMessageText', {
+    chat_id: chatId,
+    message_id: messageId,
+    text,
+    parse_mode: 'HTML',
+    disable_web_page_preview: options.disablePreview ?? true,
+    reply_markup: { inline_keyboard: options.keyboard ?? [] },
+  });
+  return result !== null;
+}
+
+/** Acknowledge a button press; `text` shows as a toast to the presser only */
+export async function answerCallbackQuery(callbackQueryId: string, text?: string): Promise<void> {
+  await callTelegram('answerCallbackQuery', {
+    callback_query_id: callbackQueryId,
+    ...(text && { text }),
+  });
+}
+
+export async function answerInlineQuery(
+  inlineQueryId: string,
+  results: InlineQueryArticle[],
+  cacheSeconds = 60,
+): Promise<void> {
+  await callTelegram('answerInlineQuery', {
+    inline_query_id: inlineQueryId,
+    results,
+    cache_time: cacheSeconds,
+  });
+}
+
+/** Whether a user may manage a group's subscriptions (creator or administrator) */
+export async function isChatAdmin(chatId: number, userId: number): Promise<boolean> {
+  const member = await callTelegram<{ status: string }>('getChatMember', {
+    chat_id: chatId,
+    user_id: userId,
+  });
+  return member?.status === 'creator' || member?.status === 'administrator';
+}
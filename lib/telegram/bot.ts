@@ -0,0 +1,727 @@
+/**
+ * Telegram governance bot — command, button and inline-query handlers.
+ *
+ * Private chats, groups and channels can all watch DReps and proposals; in
+ * groups only chat admins may change what the chat watches. Sentiment buttons
+ * need the pressing Telegram user to have linked their wallet via /connect.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getAllDReps, getDRepById, getProposalByKey } from '@/lib/data';
+import type { ProposalWithVoteSummary } from '@/lib/data';
+import { aggregateSentiment } from '@/lib/api/engagement-utils';
+import { blockTimeToEpoch } from '@/lib/koios';
+import { captureServerEvent } from '@/lib/posthog-server';
+import { getDRepPrimaryName, matchDReps } from '@/utils/display';
+import { stakeAddressFromAddress } from '@/utils/drepId';
+import { fetchDelegatedDRep } from '@/utils/koios';
+import { parseProposalRef, proposalStatus } from '@/utils/proposalRef';
+import type { EnrichedDRep } from '@/lib/koios';
+import {
+  answerCallbackQuery,
+  answerInlineQuery,
+  editMessage,
+  isChatAdmin,
+  sendMessage,
+  type InlineKeyboard,
+  type InlineQueryArticle,
+} from './api';
+import {
+  decodeCallback,
+  encodeCallback,
+  escapeHtml,
+  formatComparison,
+  formatProposalSummary,
+  parseCommand,
+  proposalKeyboard,
+  voteAgreement,
+  type CompareSide,
+  type SentimentChoice,
+} from './format';
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://drepscore.io';
+const OPEN_PROPOSALS_SHOWN = 5;
+const INLINE_RESULTS = 10;
+const MAX_WATCHES_PER_CHAT = 25;
+
+type ChatType = 'private' | 'group' | 'supergroup' | 'channel';
+
+export interface TelegramUser {
+  id: number;
+  username?: string;
+}
+
+export interface TelegramChat {
+  id: number;
+  type: ChatType;
+  title?: string;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  chat: TelegramChat;
+  /** Absent for channel posts */
+  from?: TelegramUser;
+  text?: string;
+}
+
+export interface TelegramUpdate {
+  message?: TelegramMessage;
+  channel_post?: TelegramMessage;
+  callback_query?: {
+    id: string;
+    from: TelegramUser;
+    message?: TelegramMessage;
+    data?: string;
+  };
+  inline_query?: {
+    id: string;
+    from: TelegramUser;
+    query: string;
+  };
+}
+
+const HELP_TEXT =
+  `<b>Civica Bot Commands:</b>\n\n` +
+  `/proposal &lt;id&gt; — Proposal summary with DRep, SPO and CC tallies\n` +
+  `/open — Open proposals you can weigh in on\n` +
+  `/compare &lt;drepA&gt; &lt;drepB&gt; — Compare two DReps side by side\n` +
+  `/score &lt;drepId&gt; — Look up any DRep's current score\n` +
+  `/watch &lt;drepId|proposal&gt; — Post a DRep's votes or a proposal's outcome here\n` +
+  `/watch — Manage what this chat watches\n` +
+  `/connect — Link your wallet to vote on sentiment and receive alerts\n` +
+  `/pending &lt;drepId&gt; — Check pending proposals for a DRep\n` +
+  `/alerts — Check your notification status\n\n` +
+  `Search DReps from any chat: type @ followed by the bot's name and a DRep name.`;
+
+export async function handleUpdate(update: TelegramUpdate): Promise<void> {
+  if (update.callback_query) return handleCallback(update.callback_query);
+  if (update.inline_query) return handleInlineQuery(update.inline_query);
+
+  const message = update.message ?? update.channel_post;
+  if (message?.text && message.chat?.id) return handleMessage(message);
+}
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+async function handleMessage(message: TelegramMessage): Promise<void> {
+  const chatId = message.chat.id;
+  const { command, args } = parseCommand(message.text!);
+  if (!command.startsWith('/')) return;
+
+  captureServerEvent(
+    'telegram_command',
+    { command, chat_id: chatId, chat_type: message.chat.type },
+    `telegram:${chatId}`,
+  );
+
+  switch (command) {
+    case '/start':
+    case '/help':
+      await sendMessage(chatId, HELP_TEXT);
+      return;
+    case '/connect':
+      return commandConnect(message);
+    case '/score':
+      return commandScore(chatId, args);
+    case '/pending':
+      return commandPending(chatId, args);
+    case '/alerts':
+      return commandAlerts(chatId);
+    case '/proposal':
+      return commandProposal(chatId, args);
+    case '/open':
+      return commandOpen(chatId);
+    case '/compare':
+      return commandCompare(chatId, args);
+    case '/watch':
+      return commandWatch(message, args);
+    default:
+      // Groups see every bot's commands; only private chats get the nudge
+      if (message.chat.type === 'private') {
+        await sendMessage(chatId, 'Unknown command. Use /help to see available commands.');
+      }
+  }
+}
+
+function generateConnectToken(chatId: number): string {
+  const payload = `${chatId}:${Date.now()}:${Math.random().toString(36).slice(2)}`;
+  return Buffer.from(payload).toString('base64url');
+}
+
+async function commandConnect(message: TelegramMessage): Promise<void> {
+  const chatId = message.chat.id;
+  if (message.chat.type !== 'private') {
+    await sendMessage(chatId, 'Send /connect to the bot in a private chat to link your wallet.');
+    return;
+  }
+
+  const token = generateConnectToken(chatId);
+  const supabase = getSupabaseAdmin();
+  await supabase.from('user_channels').upsert(
+    {
+      user_wallet: `telegram:pending:${chatId}`,
+      channel: 'telegram_pending',
+      channel_identifier: String(chatId),
+      config: { token, chatId },
+      connected_at: new Date().toISOString(),
+    },
+    { onConflict: 'user_wallet,channel' },
+  );
+
+  await sendMessage(
+    chatId,
+    `<b>Connect Your Wallet</b>\n\n` +
+      `Visit the link below and connect the wallet associated with your DRep:\n\n` +
+      `<a href="${SITE_URL}/profile?telegram_connect=${token}">${SITE_URL}/profile</a>\n\n` +
+      `This will link your Telegram to your Civica account for alerts.`,
+  );
+}
+
+function scoreCard(drep: EnrichedDRep): string {
+  return (
+    `<b>${escapeHtml(getDRepPrimaryName(drep))}</b>\n\n` +
+    `Score: <b>${drep.drepScore}/100</b>\n` +
+    `Participation: ${drep.effectiveParticipation}%\n` +
+    `Rationale: ${drep.rationaleRate}%\n` +
+    `Reliability: ${drep.reliabilityScore}%\n` +
+    `Profile: ${drep.profileCompleteness}%\n\n` +
+    `<a href="${SITE_URL}/drep/${encodeURIComponent(drep.drepId)}">View on Civica</a>`
+  );
+}
+
+async function commandScore(chatId: number, args: string[]): Promise<void> {
+  const drepId = args[0];
+  if (!drepId) {
+    await sendMessage(chatId, 'Usage: /score &lt;drepId&gt;');
+    return;
+  }
+  const drep = await getDRepById(drepId);
+  if (!drep) {
+    await sendMessage(chatId, 'DRep not found. Check the ID and try again.');
+    return;
+  }
+  await sendMessage(chatId, scoreCard(drep));
+}
+
+async function commandPending(chatId: number, args: string[]): Promise<void> {
+  const drepId = args[0];
+  if (!drepId) {
+    await sendMessage(chatId, 'Usage: /pending &lt;drepId&gt;');
+    return;
+  }
+  const drep = await getDRepById(drepId);
+  if (!drep) {
+    await sendMessage(chatId, 'DRep not found.');
+    return;
+  }
+  await sendMessage(
+    chatId,
+    `Check pending proposals for <b>${escapeHtml(getDRepPrimaryName(drep))}</b>:\n\n` +
+      `<a href="${SITE_URL}/dashboard/inbox">Open Governance Inbox</a>`,
+  );
+}
+
+async function commandAlerts(chatId: number): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { data: channel } = await supabase
+    .from('user_channels')
+    .select('user_wallet')
+    .eq('channel', 'telegram')
+    .eq('channel_identifier', String(chatId))
+    .limit(1)
+    .single();
+
+  if (!channel) {
+    await sendMessage(
+      chatId,
+      'Your Telegram is not linked to a wallet yet.\n' + 'Use /connect to set up alerts.',
+    );
+    return;
+  }
+  await sendMessage(
+    chatId,
+    `<b>Alerts Active</b>\n\n` +
+      `Your Telegram is linked. Manage alert types at:\n` +
+      `<a href="${SITE_URL}/profile">${SITE_URL}/profile</a>`,
+  );
+}
+
+async function resolveProposal(args: string[]): Promise<ProposalWithVoteSummary | null> {
+  const ref = parseProposalRef(args);
+  if (!ref) return null;
+  if ('txHash' in ref) return getProposalByKey(ref.txHash, ref.index);
+
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from('proposals')
+    .select('tx_hash, proposal_index')
+    .eq('proposal_id', ref.proposalId)
+    .maybeSingle();
+  return data ? getProposalByKey(data.tx_hash, data.proposal_index) : null;
+}
+
+async function proposalMessage(p: ProposalWithVoteSummary) {
+  const supabase = getSupabaseAdmin();
+  const { data: sentiment } = await supabase
+    .from('citizen_sentiment')
+    .select('sentiment')
+    .eq('proposal_tx_hash', p.txHash)
+    .eq('proposal_index', p.proposalIndex);
+  return {
+    text: formatProposalSummary(p, SITE_URL, aggregateSentiment(sentiment ?? [])),
+    keyboard: proposalKeyboard(p),
+  };
+}
+
+async function commandProposal(chatId: number, args: string[]): Promise<void> {
+  if (args.length === 0) {
+    await sendMessage(
+      chatId,
+      'Usage: /proposal &lt;gov_action1…&gt; or /proposal &lt;txHash#index&gt;',
+    );
+    return;
+  }
+  const proposal = await resolveProposal(args);
+  if (!proposal) {
+    await sendMessage(chatId, 'Proposal not found. Check the ID and try again.');
+    return;
+  }
+  const { text, keyboard } = await proposalMessage(proposal);
+  await sendMessage(chatId, text, { keyboard });
+}
+
+async function commandOpen(chatId: number): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { data: open } = await supabase
+    .from('proposals')
+    .select('tx_hash, proposal_index, title, expiration_epoch')
+    .is('ratified_epoch', null)
+    .is('enacted_epoch', null)
+    .is('dropped_epoch', null)
+    .is('expired_epoch', null)
+    .order('block_time', { ascending: false })
+    .limit(OPEN_PROPOSALS_SHOWN);
+
+  if (!open?.length) {
+    await sendMessage(chatId, 'No proposals are open for voting right now.');
+    return;
+  }
+
+  const keyboard: InlineKeyboard = open.map((p) => [
+    {
+      text: (p.title || 'Untitled proposal').slice(0, 60),
+      callback_data: encodeCallback({
+        type: 'proposal',
+        txHash: p.tx_hash,
+        index: p.proposal_index,
+      }),
+    },
+  ]);
+  await sendMessage(
+    chatId,
+    `<b>Open proposals</b>\n\nTap one for its summary, tallies and sentiment buttons.`,
+    { keyboard },
+  );
+}
+
+function compareSide(drep: EnrichedDRep): CompareSide {
+  return {
+    drepId: drep.drepId,
+    name: getDRepPrimaryName(drep),
+    score: drep.drepScore,
+    participation: drep.effectiveParticipation,
+    rationaleRate: drep.rationaleRate,
+    reliability: drep.reliabilityScore,
+    votes: drep.totalVotes,
+  };
+}
+
+async function commandCompare(chatId: number, args: string[]): Promise<void> {
+  if (args.length < 2) {
+    await sendMessage(chatId, 'Usage: /compare &lt;drepA&gt; &lt;drepB&gt;');
+    return;
+  }
+  const [a, b] = await Promise.all([getDRepById(args[0]), getDRepById(args[1])]);
+  if (!a || !b) {
+    await sendMessage(chatId, `DRep not found: ${escapeHtml(!a ? args[0] : args[1])}`);
+    return;
+  }
+
+  const supabase = getSupabaseAdmin();
+  const [votesA, votesB] = await Promise.all(
+    [a.drepId, b.drepId].map(async (id) => {
+      const { data } = await supabase
+        .from('drep_votes')
+        .select('proposal_tx_hash, proposal_index, vote')
+        .eq('drep_id', id);
+      return data ?? [];
+    }),
+  );
+
+  await sendMessage(
+    chatId,
+    formatComparison(compareSide(a), compareSide(b), voteAgreement(votesA, votesB), SITE_URL),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Watch subscriptions
+// ---------------------------------------------------------------------------
+
+/**
+ * Private chats manage their own watches; everywhere else a chat admin must
+ * act. Channel posts carry no sender but only admins can post, whereas button
+ * presses on a channel post come from any subscriber and are checked.
+ */
+async function canManageWatches(chat: TelegramChat, from?: TelegramUser): Promise<boolean> {
+  if (chat.type === 'private') return true;
+  if (!from) return chat.type === 'channel';
+  return isChatAdmin(chat.id, from.id);
+}
+
+async function watchListMessage(chatId: number) {
+  const supabase = getSupabaseAdmin();
+  const { data: subs } = await supabase
+    .from('telegram_subscriptions')
+    .select('id, target_type, target_id')
+    .eq('chat_id', chatId)
+    .order('created_at');
+
+  if (!subs?.length) {
+    return {
+      text:
+        `<b>Nothing watched yet</b>\n\n` +
+        `/watch &lt;drepId&gt; — post every vote the DRep casts\n` +
+        `/watch &lt;proposal&gt; — post when a proposal is ratified, enacted, dropped or expires`,
+      keyboard: [] as InlineKeyboard,
+    };
+  }
+
+  const drepIds = subs.filter((s) => s.target_type === 'drep').map((s) => s.target_id);
+  const proposalKeys = subs.filter((s) => s.target_type === 'proposal').map((s) => s.target_id);
+  const [dreps, proposals] = await Promise.all([
+    drepIds.length
+      ? supabase.from('dreps').select('id, info').in('id', drepIds)
+      : Promise.resolve({ data: [] as { id: string; info: unknown }[] }),
+    proposalKeys.length
+      ? supabase
+          .from('proposals')
+          .select('tx_hash, proposal_index, title')
+          .in(
+            'tx_hash',
+            proposalKeys.map((k) => k.split('#')[0]),
+          )
+      : Promise.resolve({
+          data: [] as { tx_hash: string; proposal_index: number; title: string | null }[],
+        }),
+  ]);
+
+  const labels = new Map<string, string>();
+  for (const d of dreps.data ?? []) {
+    const name = (d.info as { name?: string | null } | null)?.name;
+    labels.set(`drep:${d.id}`, name || `${d.id.slice(0, 16)}…`);
+  }
+  for (const p of proposals.data ?? []) {
+    labels.set(`proposal:${p.tx_hash}#${p.proposal_index}`, p.title || 'Untitled proposal');
+  }
+
+  const keyboard: InlineKeyboard = subs.map((s) => {
+    const label = labels.get(`${s.target_type}:${s.target_id}`) ?? s.target_id.slice(0, 20);
+    const icon = s.target_type === 'drep' ? '👤' : '📜';
+    return [
+      {
+        text: `✖ ${icon} ${label}`.slice(0, 64),
+        callback_data: encodeCallback({ type: 'unwatch', subscriptionId: s.id }),
+      },
+    ];
+  });
+
+  return {
+    text: `<b>Watching ${subs.length}</b>\n\nTap an item to stop watching it.`,
+    keyboard,
+  };
+}
+
+async function addWatch(
+  chat: TelegramChat,
+  createdBy: number | null,
+  target:
+    { type: 'drep'; drepId: string } | { type: 'proposal'; proposal: ProposalWithVoteSummary },
+): Promise<string> {
+  const supabase = getSupabaseAdmin();
+  const { count } = await supabase
+    .from('telegram_subscriptions')
+    .select('id', { count: 'exact', head: true })
+    .eq('chat_id', chat.id);
+  if ((count ?? 0) >= MAX_WATCHES_PER_CHAT) {
+    return `This chat already watches ${MAX_WATCHES_PER_CHAT} items. Remove some with /watch first.`;
+  }
+
+  const row =
+    target.type === 'drep'
+      ? {
+          target_type: 'drep',
+          target_id: target.drepId,
+          // Only votes cast from now on are posted
+          last_vote_block_time: Math.floor(Date.now() / 1000),
+        }
+      : {
+          target_type: 'proposal',
+          target_id: `${target.proposal.txHash}#${target.proposal.proposalIndex}`,
+          last_status: proposalStatus(target.proposal),
+        };
+
+  const { error } = await supabase
+    .from('telegram_subscriptions')
+    .upsert(
+      { chat_id: chat.id, chat_type: chat.type, created_by: createdBy, ...row },
+      { onConflict: 'chat_id,target_type,target_id', ignoreDuplicates: true },
+    );
+  if (error) return 'Could not save the watch. Please try again.';
+
+  captureServerEvent(
+    'telegram_watch_added',
+    { chat_type: chat.type, target_type: row.target_type },
+    `telegram:${chat.id}`,
+  );
+  return target.type === 'drep'
+    ? 'Watching. New votes by this DRep will be posted here.'
+    : 'Watching. The outcome of this proposal will be posted here.';
+}
+
+async function commandWatch(message: TelegramMessage, args: string[]): Promise<void> {
+  const chat = message.chat;
+  if (args.length === 0) {
+    const { text, keyboard } = await watchListMessage(chat.id);
+    await sendMessage(chat.id, text, { keyboard });
+    return;
+  }
+
+  if (!(await canManageWatches(chat, message.from))) {
+    await sendMessage(chat.id, 'Only chat admins can change what this group watches.');
+    return;
+  }
+
+  if (args[0].startsWith('drep1')) {
+    const drep = await getDRepById(args[0]);
+    if (!drep) {
+      await sendMessage(chat.id, 'DRep not found. Check the ID and try again.');
+      return;
+    }
+    const reply = await addWatch(chat, message.from?.id ?? null, {
+      type: 'drep',
+      drepId: drep.drepId,
+    });
+    await sendMessage(chat.id, `<b>${escapeHtml(getDRepPrimaryName(drep))}</b>\n${reply}`);
+    return;
+  }
+
+  const proposal = await resolveProposal(args);
+  if (!proposal) {
+    await sendMessage(
+      chat.id,
+      'Not a DRep ID or proposal ID. Usage: /watch &lt;drepId|proposal&gt;',
+    );
+    return;
+  }
+  if (proposalStatus(proposal) !== 'Open') {
+    await sendMessage(
+      chat.id,
+      `This proposal is already ${proposalStatus(proposal).toLowerCase()}.`,
+    );
+    return;
+  }
+  const reply = await addWatch(chat, message.from?.id ?? null, { type: 'proposal', proposal });
+  await sendMessage(
+    chat.id,
+    `<b>${escapeHtml(proposal.title || 'Untitled proposal')}</b>\n${reply}`,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Inline keyboard callbacks
+// ---------------------------------------------------------------------------
+
+async function linkedAccount(
+  telegramUserId: number,
+): Promise<{ userId: string; walletAddress: string } | null> {
+  const supabase = getSupabaseAdmin();
+  const { data: channel } = await supabase
+    .from('user_channels')
+    .select('user_id')
+    .eq('channel', 'telegram')
+    .eq('channel_identifier', String(telegramUserId))
+    .limit(1)
+    .maybeSingle();
+  if (!channel?.user_id) return null;
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('id, wallet_address')
+    .eq('id', channel.user_id)
+    .maybeSingle();
+  return user ? { userId: user.id, walletAddress: user.wallet_address } : null;
+}
+
+async function recordSentiment(
+  account: { userId: string; walletAddress: string },
+  txHash: string,
+  index: number,
+  sentiment: SentimentChoice,
+): Promise<boolean> {
+  const stakeAddress = stakeAddressFromAddress(account.walletAddress);
+  const delegatedDrepId = stakeAddress ? await fetchDelegatedDRep(stakeAddress) : null;
+
+  const supabase = getSupabaseAdmin();
+  const { data: existing } = await supabase
+    .from('citizen_sentiment')
+    .select('id')
+    .eq('proposal_tx_hash', txHash)
+    .eq('proposal_index', index)
+    .eq('user_id', account.userId)
+    .maybeSingle();
+
+  const { error } = existing
+    ? await supabase
+        .from('citizen_sentiment')
+        .update({
+          sentiment,
+          updated_at: new Date().toISOString(),
+          ...(stakeAddress && { stake_address: stakeAddress }),
+          ...(delegatedDrepId && { delegated_drep_id: delegatedDrepId }),
+        })
+        .eq('id', existing.id)
+    : await supabase.from('citizen_sentiment').insert({
+        proposal_tx_hash: txHash,
+        proposal_index: index,
+        user_id: account.userId,
+        wallet_address: account.walletAddress,
+        stake_address: stakeAddress,
+        delegated_drep_id: delegatedDrepId,
+        sentiment,
+        initial_sentiment: sentiment,
+      });
+  if (error) return false;
+
+  await supabase.from('governance_events').insert({
+    user_id: account.userId,
+    wallet_address: account.walletAddress,
+    event_type: 'sentiment_vote',
+    event_data: { sentiment, proposalTxHash: txHash, source: 'telegram' },
+    related_proposal_tx_hash: txHash,
+    related_proposal_index: index,
+    epoch: blockTimeToEpoch(Math.floor(Date.now() / 1000)),
+  });
+  return true;
+}
+
+async function handleCallback(query: NonNullable<TelegramUpdate['callback_query']>) {
+  const action = query.data ? decodeCallback(query.data) : null;
+  const message = query.message;
+  if (!action || !message) {
+    await answerCallbackQuery(query.id);
+    return;
+  }
+  const chat = message.chat;
+
+  switch (action.type) {
+    case 'proposal': {
+      const proposal = await getProposalByKey(action.txHash, action.index);
+      await answerCallbackQuery(query.id);
+      if (proposal) {
+        const { text, keyboard } = await proposalMessage(proposal);
+        await sendMessage(chat.id, text, { keyboard });
+      }
+      return;
+    }
+
+    case 'sentiment': {
+      const account = await linkedAccount(query.from.id);
+      if (!account) {
+        await answerCallbackQuery(
+          query.id,
+          'Link your wallet first: send /connect to the bot in a private chat.',
+        );
+        return;
+      }
+      const proposal = await getProposalByKey(action.txHash, action.index);
+      if (!proposal || proposalStatus(proposal) !== 'Open') {
+        await answerCallbackQuery(query.id, 'Voting on this proposal has closed.');
+        return;
+      }
+      const ok = await recordSentiment(account, action.txHash, action.index, action.sentiment);
+      captureServerEvent(
+        'citizen_sentiment_submitted',
+        {
+          proposal_tx_hash: action.txHash,
+          proposal_index: action.index,
+          sentiment: action.sentiment,
+          source: 'telegram',
+        },
+        account.walletAddress,
+      );
+      await answerCallbackQuery(
+        query.id,
+        ok ? `Recorded: ${action.sentiment}` : 'Could not record your vote. Try again.',
+      );
+      if (ok) {
+        const { text, keyboard } = await proposalMessage(proposal);
+        await editMessage(chat.id, message.message_id, text, { keyboard });
+      }
+      return;
+    }
+
+    case 'watch_proposal': {
+      if (!(await canManageWatches(chat, query.from))) {
+        await answerCallbackQuery(query.id, 'Only chat admins can change what this group watches.');
+        return;
+      }
+      const proposal = await getProposalByKey(action.txHash, action.index);
+      if (!proposal || proposalStatus(proposal) !== 'Open') {
+        await answerCallbackQuery(query.id, 'This proposal is no longer open.');
+        return;
+      }
+      const reply = await addWatch(chat, query.from.id, { type: 'proposal', proposal });
+      await answerCallbackQuery(query.id, reply);
+      return;
+    }
+
+    case 'unwatch': {
+      if (!(await canManageWatches(chat, query.from))) {
+        await answerCallbackQuery(query.id, 'Only chat admins can change what this group watches.');
+        return;
+      }
+      const supabase = getSupabaseAdmin();
+      await supabase
+        .from('telegram_subscriptions')
+        .delete()
+        .eq('id', action.subscriptionId)
+        .eq('chat_id', chat.id);
+      await answerCallbackQuery(query.id, 'Stopped watching.');
+      const { text, keyboard } = await watchListMessage(chat.id);
+      await editMessage(chat.id, message.message_id, text, { keyboard });
+      return;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Inline query: DRep search from any chat
+// ---------------------------------------------------------------------------
+
+async function handleInlineQuery(query: NonNullable<TelegramUpdate['inline_query']>) {
+  const { allDReps } = await getAllDReps();
+  const results: InlineQueryArticle[] = matchDReps(allDReps, query.query, INLINE_RESULTS).map(
+    (drep) => ({
+      type: 'article',
+      id: drep.drepId.slice(-60),
+      title: getDRepPrimaryName(drep),
+      description: `Score ${drep.drepScore}/100 · Participation ${drep.effectiveParticipation}% · Rationale ${drep.rationaleRate}%`,
+      input_message_content: { message_text: scoreCard(drep), parse_mode: 'HTML' },
+    }),
+  );
+  await answerInlineQuery(query.id, results);
+}
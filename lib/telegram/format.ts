@@ -0,0 +1,264 @@
+/**
+ * Pure helpers for the Telegram bot: command parsing, compact callback payloads
+ * and HTML message bodies. No I/O, so everything here is unit-testable.
+ */
+
+import type { ProposalWithVoteSummary, TriBodyVotes } from '@/lib/data';
+import { proposalStatus } from '@/utils/proposalRef';
+import type { InlineKeyboard } from './api';
+
+/** Telegram rejects callback_data over 64 bytes */
+export const MAX_CALLBACK_BYTES = 64;
+
+export type SentimentChoice = 'support' | 'oppose' | 'unsure';
+
+export type CallbackAction =
+  | { type: 'sentiment'; sentiment: SentimentChoice; txHash: string; index: number }
+  | { type: 'watch_proposal'; txHash: string; index: number }
+  | { type: 'proposal'; txHash: string; index: number }
+  | { type: 'unwatch'; subscriptionId: number };
+
+const SENTIMENT_CODES: Record<SentimentChoice, string> = {
+  support: 's',
+  oppose: 'o',
+  unsure: 'u',
+};
+
+const PROPOSAL_TYPE_LABELS: Record<string, string> = {
+  TreasuryWithdrawals: 'Treasury Withdrawal',
+  ParameterChange: 'Parameter Change',
+  HardForkInitiation: 'Hard Fork',
+  InfoAction: 'Info Action',
+  NoConfidence: 'No Confidence',
+  NewCommittee: 'Committee Update',
+  NewConstitution: 'New Constitution',
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Split a message into command and arguments. Group chats address commands as
+ * /cmd@BotName; the suffix is dropped so both forms dispatch the same way.
+ */
+export function parseCommand(text: string): { command: string; args: string[] } {
+  const [head = '', ...args] = text.trim().split(/\s+/);
+  return { command: head.split('@')[0].toLowerCase(), args };
+}
+
+/** 64-char tx hash → 43-char base64url, so a proposal fits in callback_data */
+function packTxHash(txHash: string): string {
+  return Buffer.from(txHash, 'hex').toString('base64url');
+}
+
+function unpackTxHash(packed: string): string | null {
+  const hex = Buffer.from(packed, 'base64url').toString('hex');
+  return hex.length === 64 ? hex : null;
+}
+
+export function encodeCallback(action: CallbackAction): string {
+  switch (action.type) {
+    case 'sentiment':
+      return `sv:${SENTIMENT_CODES[action.sentiment]}:${packTxHash(action.txHash)}:${action.index}`;
+    case 'watch_proposal':
+      return `wp:${packTxHash(action.txHash)}:${action.index}`;
+    case 'proposal':
+      return `pd:${packTxHash(action.txHash)}:${action.index}`;
+    case 'unwatch':
+      return `uw:${action.subscriptionId}`;
+  }
+}
+
+export function decodeCallback(data: string): CallbackAction | null {
+  const parts = data.split(':');
+  const proposal = (packed: string, index: string) => {
+    const txHash = unpackTxHash(packed);
+    const idx = parseInt(index, 10);
+    return txHash && Number.isInteger(idx) && idx >= 0 ? { txHash, index: idx } : null;
+  };
+
+  switch (parts[0]) {
+    case 'sv': {
+      const sentiment = (Object.keys(SENTIMENT_CODES) as SentimentChoice[]).find(
+        (s) => SENTIMENT_CODES[s] === parts[1],
+      );
+      const ref = parts.length === 4 ? proposal(parts[2], parts[3]) : null;
+      return sentiment && ref ? { type: 'sentiment', sentiment, ...ref } : null;
+    }
+    case 'wp':
+    case 'pd': {
+      const ref = parts.length === 3 ? proposal(parts[1], parts[2]) : null;
+      if (!ref) return null;
+      return { type: parts[0] === 'wp' ? 'watch_proposal' : 'proposal', ...ref };
+    }
+    case 'uw': {
+      const id = parseInt(parts[1], 10);
+      return Number.isInteger(id) && id > 0 ? { type: 'unwatch', subscriptionId: id } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function tallyLine(label: string, t: { yes: number; no: number; abstain: number }): string {
+  return `${label}: ✅ ${t.yes} · ❌ ${t.no} · ⚪ ${t.abstain}`;
+}
+
+function triBodyLines(triBody: TriBodyVotes | undefined, fallback: ProposalWithVoteSummary) {
+  const drep = triBody?.drep ?? {
+    yes: fallback.yesCount,
+    no: fallback.noCount,
+    abstain: fallback.abstainCount,
+  };
+  const lines = [tallyLine('DReps', drep)];
+  if (triBody) {
+    lines.push(tallyLine('SPOs', triBody.spo), tallyLine('CC', triBody.cc));
+  }
+  return lines;
+}
+
+export function formatProposalSummary(
+  p: ProposalWithVoteSummary,
+  siteUrl: string,
+  sentiment?: { support: number; oppose: number; unsure: number; total: number } | null,
+): string {
+  const status = proposalStatus(p);
+  const lines = [
+    `<b>${escapeHtml(p.title || 'Untitled proposal')}</b>`,
+    `${PROPOSAL_TYPE_LABELS[p.proposalType] ?? escapeHtml(p.proposalType)} · ${status}` +
+      (status === 'Open' && p.expirationEpoch ? ` · expires epoch ${p.expirationEpoch}` : ''),
+  ];
+  if (p.withdrawalAmount) {
+    lines.push(
+      `Withdrawal: ₳${Math.round(p.withdrawalAmount / 1_000_000).toLocaleString('en-US')}`,
+    );
+  }
+
+  const summary = p.aiSummary || p.abstract;
+  if (summary) {
+    const trimmed = summary.length > 400 ? `${summary.slice(0, 397)}…` : summary;
+    lines.push('', escapeHtml(trimmed));
+  }
+
+  lines.push('', '<b>Votes</b>', ...triBodyLines(p.triBody, p));
+  if (sentiment && sentiment.total > 0) {
+    lines.push(
+      `Citizens: 👍 ${sentiment.support} · 👎 ${sentiment.oppose} · 🤔 ${sentiment.unsure}`,
+    );
+  }
+
+  lines.push('', `<a href="${siteUrl}/proposal/${p.txHash}/${p.proposalIndex}">View on Civica</a>`);
+  return lines.join('\n');
+}
+
+export function proposalKeyboard(
+  p: Pick<
+    ProposalWithVoteSummary,
+    'txHash' | 'proposalIndex' | 'ratifiedEpoch' | 'enactedEpoch' | 'droppedEpoch' | 'expiredEpoch'
+  >,
+): InlineKeyboard {
+  const ref = { txHash: p.txHash, index: p.proposalIndex };
+  const rows: InlineKeyboard = [];
+  if (proposalStatus(p) === 'Open') {
+    rows.push([
+      {
+        text: '👍 Support',
+        callback_data: encodeCallback({ type: 'sentiment', sentiment: 'support', ...ref }),
+      },
+      {
+        text: '👎 Oppose',
+        callback_data: encodeCallback({ type: 'sentiment', sentiment: 'oppose', ...ref }),
+      },
+      {
+        text: '🤔 Unsure',
+        callback_data: encodeCallback({ type: 'sentiment', sentiment: 'unsure', ...ref }),
+      },
+    ]);
+  }
+  rows.push([
+    { text: '🔔 Watch', callback_data: encodeCallback({ type: 'watch_proposal', ...ref }) },
+  ]);
+  return rows;
+}
+
+export interface CompareSide {
+  drepId: string;
+  name: string;
+  score: number;
+  participation: number;
+  rationaleRate: number;
+  reliability: number;
+  votes: number;
+}
+
+/**
+ * Share of proposals both DReps voted on where they cast the same vote.
+ * Null when they have no proposals in common.
+ */
+export function voteAgreement(
+  a: Array<{ proposal_tx_hash: string; proposal_index: number; vote: string }>,
+  b: Array<{ proposal_tx_hash: string; proposal_index: number; vote: string }>,
+): { shared: number; agreed: number; rate: number | null } {
+  const votesA = new Map(a.map((v) => [`${v.proposal_tx_hash}#${v.proposal_index}`, v.vote]));
+  let shared = 0;
+  let agreed = 0;
+  for (const v of b) {
+    const other = votesA.get(`${v.proposal_tx_hash}#${v.proposal_index}`);
+    if (other === undefined) continue;
+    shared++;
+    if (other === v.vote) agreed++;
+  }
+  return { shared, agreed, rate: shared > 0 ? Math.round((agreed / shared) * 100) : null };
+}
+
+export function formatComparison(
+  a: CompareSide,
+  b: CompareSide,
+  agreement: ReturnType<typeof voteAgreement>,
+  siteUrl: string,
+): string {
+  const row = (label: string, x: number, y: number, unit = '') => {
+    const mark = x === y ? '' : x > y ? ' ◀' : ' ▶';
+    return `${label}: <b>${x}${unit}</b> vs <b>${y}${unit}</b>${mark}`;
+  };
+  const lines = [
+    `<b>${escapeHtml(a.name)}</b> vs <b>${escapeHtml(b.name)}</b>`,
+    '',
+    row('Score', a.score, b.score),
+    row('Participation', a.participation, b.participation, '%'),
+    row('Rationale', a.rationaleRate, b.rationaleRate, '%'),
+    row('Reliability', a.reliability, b.reliability, '%'),
+    `Votes cast: ${a.votes} vs ${b.votes}`,
+    '',
+    agreement.rate === null
+      ? 'No proposals voted on by both.'
+      : `Voted the same way on <b>${agreement.agreed}/${agreement.shared}</b> shared proposals (${agreement.rate}%).`,
+    '',
+    `<a href="${siteUrl}/compare?dreps=${encodeURIComponent(a.drepId)},${encodeURIComponent(b.drepId)}">Full comparison</a>`,
+  ];
+  return lines.join('\n');
+}
+
+export function formatVoteAlert(
+  drepName: string,
+  vote: string,
+  proposal: { title: string | null; txHash: string; index: number },
+  siteUrl: string,
+  rationale?: string | null,
+): string {
+  const icon = vote === 'Yes' ? '✅' : vote === 'No' ? '❌' : '⚪';
+  const lines = [
+    `${icon} <b>${escapeHtml(drepName)}</b> voted <b>${escapeHtml(vote)}</b>`,
+    escapeHtml(proposal.title || 'Untitled proposal'),
+  ];
+  if (rationale) {
+    const trimmed = rationale.length > 300 ? `${rationale.slice(0, 297)}…` : rationale;
+    lines.push('', `<i>${escapeHtml(trimmed)}</i>`);
+  }
+  lines.push(
+    '',
+    `<a href="${siteUrl}/proposal/${proposal.txHash}/${proposal.index}">View proposal</a>`,
+  );
+  return lines.join('\n');
+}
@@ -5,6 +5,13 @@
  */
 
 import { getSupabaseAdmin, createClient } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import {
+  MONETARY_EXPANSION_RATE,
+  proposalKey,
+  TREASURY_GROWTH_RATE,
+  type RunwayBaseline,
+} from '@/lib/treasuryScenarios';
 
 const LOVELACE_PER_ADA = 1_000_000;
 const EPOCH_DAYS = 5;
@@ -317,6 +324,82 @@ export function projectRunway(
   return scenarios;
 }
 
+// ---------------------------------------------------------------------------
+// Scenario Baseline (inputs for lib/treasuryScenarios)
+// ---------------------------------------------------------------------------
+
+const ADA_PRICE_URL = 'https://api.coingecko.com/api/v3/simple/price?ids=cardano&vs_currencies=usd';
+
+/** Spot ADA/USD, or null when the price API is unavailable */
+export async function getAdaUsdPrice(): Promise<number | null> {
+  try {
+    const res = await fetch(ADA_PRICE_URL, {
+      signal: AbortSignal.timeout(5_000),
+      next: { revalidate: 3600 },
+    });
+    if (!res.ok) return null;
+    const json = (await res.json()) as { cardano?: { usd?: number } };
+    return json.cardano?.usd ?? null;
+  } catch (err) {
+    logger.warn('[treasury] ADA price unavailable', { error: err });
+    return null;
+  }
+}
+
+export async function getRunwayBaseline(): Promise<RunwayBaseline | null> {
+  const balance = await getTreasuryBalance();
+  if (!balance) return null;
+
+  const supabase = createClient();
+  const [snapshots, pending, adaUsd, reservesRes] = await Promise.all([
+    getTreasuryTrend(30),
+    getPendingTreasuryProposals(balance.balanceAda),
+    getAdaUsdPrice(),
+    supabase
+      .from('treasury_snapshots')
+      .select('reserves_lovelace')
+      .not('reserves_lovelace', 'is', null)
+      .order('epoch_no', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const incomes = snapshots.map((s) => s.reservesIncomeAda);
+  const incomePerEpoch = incomes.length
+    ? incomes.reduce((sum, v) => sum + v, 0) / incomes.length
+    : 0;
+  const variance = incomes.length
+    ? incomes.reduce((sum, v) => sum + (v - incomePerEpoch) ** 2, 0) / incomes.length
+    : 0;
+
+  // Income not explained by the treasury's cut of monetary expansion comes from fees
+  const reservesAda =
+    reservesRes.data?.reserves_lovelace != null
+      ? lovelaceToAda(reservesRes.data.reserves_lovelace)
+      : null;
+  const reserveIncome =
+    reservesAda != null ? TREASURY_GROWTH_RATE * MONETARY_EXPANSION_RATE * reservesAda : null;
+  const feeShare =
+    reserveIncome != null && incomePerEpoch > 0
+      ? Math.min(1, Math.max(0, 1 - reserveIncome / incomePerEpoch))
+      : 0;
+
+  return {
+    epoch: balance.epoch,
+    balanceAda: balance.balanceAda,
+    burnRatePerEpoch: calculateBurnRate(snapshots, 10),
+    incomePerEpoch,
+    incomeVolatility: incomePerEpoch > 0 ? Math.sqrt(variance) / incomePerEpoch : 0,
+    feeShare,
+    pending: pending.map((p) => ({
+      key: proposalKey(p.txHash, p.index),
+      title: p.title,
+      withdrawalAda: p.withdrawalAda,
+    })),
+    adaUsd,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Counterfactual Analysis
 // ---------------------------------------------------------------------------
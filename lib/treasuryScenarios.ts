@@ -0,0 +1,306 @@
+/**
+ * Treasury runway scenarios — Monte Carlo projection of the treasury balance
+ * under a user-composed scenario. Pure; lib/treasury.ts loads the baseline.
+ *
+ * A scenario picks which pending withdrawals pass, changes the burn rate from
+ * given epochs, chooses how income evolves and adds USD-denominated budgets.
+ * Each run draws:
+ *   - income noise around the modelled income, with the volatility observed
+ *     in recent epochs;
+ *   - an ADA/USD price path (geometric Brownian motion held inside the
+ *     scenario's price band) that converts USD budgets into ADA.
+ *
+ * Income model "reserve-decay": the treasury's cut of monetary expansion is
+ * τ·ρ·reserves, and reserves shrink by ρ each epoch, so that part of income
+ * decays geometrically. The fee-funded remainder (calibrated from today's
+ * income minus the reserve-driven part) is held constant.
+ *
+ * Scenarios round-trip through a URL-safe token so results can be shared;
+ * the seed derives from the token, so a shared link reproduces its numbers.
+ */
+
+import { TreasuryScenarioSchema } from '@/lib/api/schemas/treasury';
+import { hashSeed, quantile, seededRandom, standardNormal } from '@/lib/projection/model';
+
+/** Cardano ρ: share of reserves released per epoch */
+export const MONETARY_EXPANSION_RATE = 0.003;
+/** Cardano τ: treasury's share of each epoch's rewards pot */
+export const TREASURY_GROWTH_RATE = 0.2;
+
+const EPOCHS_PER_YEAR = 73;
+const MONTHS_PER_EPOCH = 5 / 30.44;
+const DEFAULT_RUNS = 500;
+/** Balance bands are reported every BAND_STEP epochs */
+const BAND_STEP = 5;
+
+export interface ScenarioProposal {
+  /** proposalKey() of the governance action */
+  key: string;
+  title: string;
+  withdrawalAda: number;
+}
+
+export interface RunwayBaseline {
+  epoch: number;
+  balanceAda: number;
+  burnRatePerEpoch: number;
+  incomePerEpoch: number;
+  /** Coefficient of variation of recent per-epoch income */
+  incomeVolatility: number;
+  /** Share of income not driven by reserves (fees), held constant under reserve decay */
+  feeShare: number;
+  pending: ScenarioProposal[];
+  /** Spot ADA/USD, null when unavailable */
+  adaUsd: number | null;
+}
+
+export interface BurnChange {
+  fromEpoch: number;
+  /** Multiplier on the baseline burn rate from this epoch on */
+  multiplier: number;
+}
+
+export interface UsdBudget {
+  label: string;
+  usdPerEpoch: number;
+  fromEpoch: number;
+  /** Last epoch paid (inclusive); null = for the whole horizon */
+  untilEpoch: number | null;
+}
+
+export interface PriceBand {
+  /** Starting price; null = baseline spot */
+  start: number | null;
+  low: number;
+  high: number;
+  /** Annualised volatility of the price path */
+  volatility: number;
+}
+
+export interface TreasuryScenario {
+  name: string;
+  /** Pending withdrawals assumed to pass, as proposalKey() values */
+  proposals: string[];
+  /** Epoch the selected withdrawals are paid; null = next epoch */
+  enactEpoch: number | null;
+  burnChanges: BurnChange[];
+  incomeModel: 'constant' | 'reserve-decay';
+  usdBudgets: UsdBudget[];
+  /** Required when usdBudgets is non-empty and no spot price is known */
+  price: PriceBand | null;
+  horizonEpochs: number;
+}
+
+export interface Range {
+  p10: number | null;
+  p50: number | null;
+  p90: number | null;
+}
+
+export interface ScenarioResult {
+  name: string;
+  runs: number;
+  horizonEpochs: number;
+  /** Share of runs in which the treasury runs out within the horizon */
+  depletionProbability: number;
+  /** Depletion epoch quantiles; null where that quantile outlasts the horizon */
+  depletionEpoch: Range;
+  runwayMonths: Range;
+  selectedWithdrawalAda: number;
+  /** Unrecognised proposal keys (no longer pending) */
+  unknownProposals: string[];
+  bands: Array<{ epoch: number; p10: number; p50: number; p90: number }>;
+}
+
+export class ScenarioError extends Error {}
+
+/** Compact, URL-friendly identifier of a governance action */
+export function proposalKey(txHash: string, index: number): string {
+  return `${txHash.slice(0, 16)}#${index}`;
+}
+
+export function defaultScenario(): TreasuryScenario {
+  return TreasuryScenarioSchema.parse({ name: 'Current trajectory' });
+}
+
+// ---------------------------------------------------------------------------
+// Share tokens
+// ---------------------------------------------------------------------------
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(token: string): string {
+  const binary = atob(token.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+export function encodeScenario(scenario: TreasuryScenario): string {
+  return toBase64Url(JSON.stringify(scenario));
+}
+
+/** Parse a share token; throws ScenarioError when it is malformed */
+export function decodeScenario(token: string): TreasuryScenario {
+  let json: unknown;
+  try {
+    json = JSON.parse(fromBase64Url(token));
+  } catch {
+    throw new ScenarioError('Scenario link is malformed');
+  }
+  const parsed = TreasuryScenarioSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new ScenarioError(`Invalid scenario: ${parsed.error.issues[0]?.message ?? 'unknown'}`);
+  }
+  return parsed.data;
+}
+
+// ---------------------------------------------------------------------------
+// Simulation
+// ---------------------------------------------------------------------------
+
+function burnMultiplierAt(changes: BurnChange[], epoch: number): number {
+  let multiplier = 1;
+  let from = -Infinity;
+  for (const c of changes) {
+    if (c.fromEpoch <= epoch && c.fromEpoch >= from) {
+      multiplier = c.multiplier;
+      from = c.fromEpoch;
+    }
+  }
+  return multiplier;
+}
+
+function usdDueAt(budgets: UsdBudget[], epoch: number): number {
+  return budgets.reduce(
+    (sum, b) =>
+      epoch >= b.fromEpoch && (b.untilEpoch == null || epoch <= b.untilEpoch)
+        ? sum + b.usdPerEpoch
+        : sum,
+    0,
+  );
+}
+
+function range(sorted: number[], horizonEnd: number, map: (v: number) => number): Range {
+  const at = (q: number) => {
+    const v = quantile(sorted, q);
+    return v > horizonEnd ? null : map(v);
+  };
+  return { p10: at(0.1), p50: at(0.5), p90: at(0.9) };
+}
+
+/**
+ * Simulate a scenario against the baseline. Deterministic for a given
+ * scenario unless a seed is passed.
+ */
+export function simulateScenario(
+  baseline: RunwayBaseline,
+  scenario: TreasuryScenario,
+  options: { runs?: number; seed?: number } = {},
+): ScenarioResult {
+  const runs = options.runs ?? DEFAULT_RUNS;
+  const random = seededRandom(options.seed ?? hashSeed(encodeScenario(scenario)));
+  const horizon = scenario.horizonEpochs;
+  const start = baseline.epoch;
+  const end = start + horizon;
+
+  const pendingByKey = new Map(baseline.pending.map((p) => [p.key, p]));
+  const unknownProposals = scenario.proposals.filter((k) => !pendingByKey.has(k));
+  const selectedWithdrawalAda = scenario.proposals.reduce(
+    (sum, k) => sum + (pendingByKey.get(k)?.withdrawalAda ?? 0),
+    0,
+  );
+  const enactEpoch = Math.max(start + 1, scenario.enactEpoch ?? start + 1);
+
+  const needsPrice = scenario.usdBudgets.some((b) => b.usdPerEpoch > 0);
+  const price = scenario.price;
+  const startPrice = price?.start ?? baseline.adaUsd;
+  if (needsPrice && !startPrice) {
+    throw new ScenarioError('USD budgets need an ADA price: set a starting price');
+  }
+  const low = price?.low ?? startPrice ?? 0;
+  const high = price?.high ?? startPrice ?? 0;
+  const priceSigma = (price?.volatility ?? 0) / Math.sqrt(EPOCHS_PER_YEAR);
+
+  const incomeSigma = Math.sqrt(Math.log(1 + baseline.incomeVolatility ** 2));
+  const reserveShare = scenario.incomeModel === 'reserve-decay' ? 1 - baseline.feeShare : 0;
+
+  // Per-epoch values shared by every run
+  const expectedIncome: number[] = [];
+  const burn: number[] = [];
+  const usdDue: number[] = [];
+  for (let t = 1; t <= horizon; t++) {
+    const epoch = start + t;
+    const decay = (1 - MONETARY_EXPANSION_RATE) ** t;
+    expectedIncome.push(baseline.incomePerEpoch * (1 - reserveShare + reserveShare * decay));
+    burn.push(baseline.burnRatePerEpoch * burnMultiplierAt(scenario.burnChanges, epoch));
+    usdDue.push(usdDueAt(scenario.usdBudgets, epoch));
+  }
+
+  const bandEpochs: number[] = [];
+  for (let t = 0; t <= horizon; t += BAND_STEP) bandEpochs.push(t);
+  if (bandEpochs[bandEpochs.length - 1] !== horizon) bandEpochs.push(horizon);
+  const bandSamples = bandEpochs.map(() => [] as number[]);
+
+  const depletions: number[] = [];
+
+  for (let r = 0; r < runs; r++) {
+    let balance = baseline.balanceAda;
+    let p = startPrice ?? 0;
+    let depletedAt = Infinity;
+    let band = 0;
+    if (bandEpochs[0] === 0) bandSamples[band++].push(balance);
+
+    for (let t = 1; t <= horizon; t++) {
+      const epoch = start + t;
+      const income =
+        incomeSigma > 0
+          ? expectedIncome[t - 1] *
+            Math.exp(incomeSigma * standardNormal(random) - incomeSigma ** 2 / 2)
+          : expectedIncome[t - 1];
+
+      let usdAda = 0;
+      if (needsPrice) {
+        p *= Math.exp(priceSigma * standardNormal(random) - priceSigma ** 2 / 2);
+        p = Math.min(high, Math.max(low, p));
+        usdAda = usdDue[t - 1] / p;
+      }
+
+      balance += income - burn[t - 1] - usdAda;
+      if (epoch === enactEpoch) balance -= selectedWithdrawalAda;
+      if (balance <= 0 && depletedAt === Infinity) depletedAt = epoch;
+
+      if (band < bandEpochs.length && bandEpochs[band] === t) {
+        bandSamples[band++].push(Math.max(0, balance));
+      }
+    }
+    depletions.push(depletedAt);
+  }
+
+  depletions.sort((a, b) => a - b);
+  const depleted = depletions.filter((d) => d !== Infinity).length;
+  const toMonths = (epoch: number) => Math.round((epoch - start) * MONTHS_PER_EPOCH);
+
+  return {
+    name: scenario.name,
+    runs,
+    horizonEpochs: horizon,
+    depletionProbability: runs > 0 ? Math.round((depleted / runs) * 1000) / 1000 : 0,
+    depletionEpoch: range(depletions, end, (e) => e),
+    runwayMonths: range(depletions, end, toMonths),
+    selectedWithdrawalAda,
+    unknownProposals,
+    bands: bandEpochs.map((t, i) => {
+      const sorted = bandSamples[i].sort((a, b) => a - b);
+      return {
+        epoch: start + t,
+        p10: Math.round(quantile(sorted, 0.1)),
+        p50: Math.round(quantile(sorted, 0.5)),
+        p90: Math.round(quantile(sorted, 0.9)),
+      };
+    }),
+  };
+}
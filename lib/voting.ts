@@ -7,7 +7,7 @@
  */
 
 import { MeshTxBuilder, KoiosProvider, BrowserWallet } from '@meshsdk/core';
-import { poolBech32ToKeyHash } from '@/utils/drepId';
+import { drepScriptHash, poolBech32ToKeyHash } from '@/utils/drepId';
 
 const KOIOS_BASE = process.env.NEXT_PUBLIC_KOIOS_BASE_URL || 'https://api.koios.rest/api/v1';
 
@@ -18,6 +18,7 @@ const KOIOS_BASE = process.env.NEXT_PUBLIC_KOIOS_BASE_URL || 'https://api.koios.
 export type VoteErrorCode =
   | 'no_wallet'
   | 'no_drep_credential'
+  | 'script_credential'
   | 'user_rejected'
   | 'insufficient_funds'
   | 'tx_build_failed'
@@ -105,6 +106,18 @@ export interface VotePreflight {
 
 export type VotePhaseCallback = (phase: 'building' | 'signing' | 'submitting') => void;
 
+export interface BatchVoteItem {
+  target: VoteTarget;
+  vote: VoteChoice;
+  anchorUrl?: string;
+  anchorHash?: string;
+}
+
+export interface BatchVoteResult {
+  txHash: string;
+  votes: VoteResult[];
+}
+
 // ---------------------------------------------------------------------------
 // Preflight
 // ---------------------------------------------------------------------------
@@ -127,6 +140,7 @@ async function resolveVoterCredential(
         'You must be a registered DRep to cast a governance vote.',
       );
     }
+    rejectScriptDRep(credentialId);
     return { voterId: credentialId };
   }
   // SPO: credentialId is the pool hash
@@ -140,6 +154,20 @@ async function resolveVoterCredential(
   return { voterId: credentialId };
 }
 
+/**
+ * Script (multisig) DReps cannot vote from one wallet: the transaction needs
+ * the co-signers' witnesses, collected through a multisig signing session.
+ */
+function rejectScriptDRep(drepId: string): void {
+  if (drepScriptHash(drepId)) {
+    throw new VoteError(
+      'script_credential',
+      'This DRep is controlled by a multisig script.',
+      'Start a multisig signing session so each co-signer can add their signature.',
+    );
+  }
+}
+
 /**
  * Check if the voter has already voted on this governance action.
  */
@@ -193,6 +221,46 @@ export async function preflightVote(
 // Transaction builder
 // ---------------------------------------------------------------------------
 
+async function fundingInputs(wallet: BrowserWallet) {
+  const utxos = await wallet.getUtxos();
+  const changeAddress = await wallet.getChangeAddress();
+
+  if (!utxos || utxos.length === 0) {
+    throw new VoteError(
+      'insufficient_funds',
+      'No UTXOs found in wallet.',
+      'Your wallet needs ADA to pay for the transaction fee.',
+    );
+  }
+  return { utxos, changeAddress };
+}
+
+function toVoter(role: VoterRole, credentialId: string) {
+  // SPO credentials: convert bech32 pool ID (pool1...) to hex key hash
+  const poolKeyHash =
+    role === 'spo' && credentialId.startsWith('pool')
+      ? poolBech32ToKeyHash(credentialId)
+      : credentialId;
+  return role === 'drep'
+    ? { type: 'DRep' as const, drepId: credentialId }
+    : { type: 'StakingPool' as const, keyHash: poolKeyHash };
+}
+
+function toVotingProcedure(vote: VoteChoice, anchorUrl?: string, anchorHash?: string) {
+  const votingProcedure: {
+    voteKind: VoteChoice;
+    anchor?: { anchorUrl: string; anchorDataHash: string };
+  } = {
+    voteKind: vote,
+  };
+
+  // Add anchor if rationale URL provided
+  if (anchorUrl && anchorHash) {
+    votingProcedure.anchor = { anchorUrl, anchorDataHash: anchorHash };
+  }
+  return votingProcedure;
+}
+
 /**
  * Build, sign, and submit a governance vote transaction.
  * Reports phase transitions via onPhase callback.
@@ -210,45 +278,12 @@ export async function castVote(
   },
 ): Promise<VoteResult> {
   try {
+    if (role === 'drep') rejectScriptDRep(credentialId);
     options?.onPhase?.('building');
 
-    const utxos = await wallet.getUtxos();
-    const changeAddress = await wallet.getChangeAddress();
-
-    if (!utxos || utxos.length === 0) {
-      throw new VoteError(
-        'insufficient_funds',
-        'No UTXOs found in wallet.',
-        'Your wallet needs ADA to pay for the transaction fee.',
-      );
-    }
-
-    // Build voter object based on role
-    // SPO credentials: convert bech32 pool ID (pool1...) to hex key hash
-    const poolKeyHash =
-      role === 'spo' && credentialId.startsWith('pool')
-        ? poolBech32ToKeyHash(credentialId)
-        : credentialId;
-    const voter =
-      role === 'drep'
-        ? { type: 'DRep' as const, drepId: credentialId }
-        : { type: 'StakingPool' as const, keyHash: poolKeyHash };
-
-    // Build voting procedure
-    const votingProcedure: {
-      voteKind: VoteChoice;
-      anchor?: { anchorUrl: string; anchorDataHash: string };
-    } = {
-      voteKind: vote,
-    };
-
-    // Add anchor if rationale URL provided
-    if (options?.anchorUrl && options?.anchorHash) {
-      votingProcedure.anchor = {
-        anchorUrl: options.anchorUrl,
-        anchorDataHash: options.anchorHash,
-      };
-    }
+    const { utxos, changeAddress } = await fundingInputs(wallet);
+    const voter = toVoter(role, credentialId);
+    const votingProcedure = toVotingProcedure(vote, options?.anchorUrl, options?.anchorHash);
 
     // Build governance action reference
     const govActionId = {
@@ -283,6 +318,77 @@ export async function castVote(
   }
 }
 
+/** Votes per batch transaction; keeps it well under the 16 KB transaction size limit */
+export const MAX_BATCH_VOTES = 20;
+
+/**
+ * Build, sign, and submit one transaction carrying a voting procedure for
+ * each item, so catching up on many proposals costs one signature and one fee.
+ * The ledger applies all of the votes or none of them.
+ */
+export async function castVotes(
+  wallet: BrowserWallet,
+  items: BatchVoteItem[],
+  role: VoterRole,
+  credentialId: string,
+  options?: { onPhase?: VotePhaseCallback },
+): Promise<BatchVoteResult> {
+  if (items.length === 0 || items.length > MAX_BATCH_VOTES) {
+    throw new VoteError(
+      'tx_build_failed',
+      `A batch holds 1 to ${MAX_BATCH_VOTES} votes.`,
+      `Split the votes into batches of at most ${MAX_BATCH_VOTES}.`,
+    );
+  }
+  const keys = new Set(items.map((i) => `${i.target.txHash}#${i.target.txIndex}`));
+  if (keys.size !== items.length) {
+    throw new VoteError(
+      'tx_build_failed',
+      'The batch votes on the same proposal twice.',
+      'Keep one vote per proposal.',
+    );
+  }
+
+  try {
+    if (role === 'drep') rejectScriptDRep(credentialId);
+    options?.onPhase?.('building');
+
+    const { utxos, changeAddress } = await fundingInputs(wallet);
+    const voter = toVoter(role, credentialId);
+    const txBuilder = new MeshTxBuilder({ fetcher: provider });
+
+    for (const item of items) {
+      txBuilder.vote(
+        voter,
+        { txHash: item.target.txHash, txIndex: item.target.txIndex },
+        toVotingProcedure(item.vote, item.anchorUrl, item.anchorHash),
+      );
+    }
+    txBuilder.changeAddress(changeAddress).selectUtxosFrom(utxos);
+
+    const unsignedTx = await txBuilder.complete();
+
+    options?.onPhase?.('signing');
+    const signedTx = await wallet.signTx(unsignedTx);
+
+    options?.onPhase?.('submitting');
+    const txHash = await wallet.submitTx(signedTx);
+
+    return {
+      txHash,
+      votes: items.map((item) => ({
+        txHash,
+        govActionTxHash: item.target.txHash,
+        govActionIndex: item.target.txIndex,
+        vote: item.vote,
+      })),
+    };
+  } catch (err) {
+    if (err instanceof VoteError) throw err;
+    throw classifyVoteError(err);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Transaction confirmation (reuse from delegation module)
 // ---------------------------------------------------------------------------
@@ -0,0 +1,638 @@
+/**
+ * Outbound Webhooks — HMAC-signed machine-readable governance events.
+ *
+ * Architecture:
+ *   1. Event catalog = EVENT_REGISTRY entries flagged `webhook`
+ *   2. detect-webhook-events records new events in webhook_events (idempotent by event ID)
+ *   3. fanOutWebhookEvents() queues a webhook_deliveries row per matching subscription
+ *   4. deliver-webhooks drains due deliveries, retrying with exponential backoff
+ *
+ * Subscriptions belong to an API key. Each delivery is signed with the
+ * subscription secret: `X-Civica-Signature: t=<unix>,v1=<hex hmac-sha256(secret, "<t>.<body>")>`.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { lookup as dnsLookup, type LookupAddress, type LookupOptions } from 'node:dns';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP } from 'node:net';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { getWebhookEvents } from './notificationRegistry';
+
+export const MAX_SUBSCRIPTIONS_PER_KEY = 10;
+export const MAX_DELIVERY_ATTEMPTS = 8;
+/** Consecutive permanently-failed deliveries before a subscription is auto-disabled */
+export const AUTO_DISABLE_AFTER_FAILURES = 20;
+const BASE_RETRY_SECONDS = 30;
+const MAX_RETRY_SECONDS = 6 * 3600;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface WebhookFilters {
+  drepIds?: string[];
+  proposalTypes?: string[];
+  poolIds?: string[];
+}
+
+export interface WebhookSubscription {
+  id: string;
+  apiKeyId: string;
+  url: string;
+  events: string[];
+  filters: WebhookFilters;
+  active: boolean;
+  consecutiveFailures: number;
+  disabledReason: string | null;
+  createdAt: string;
+}
+
+/** A governance event as delivered to subscribers */
+export interface WebhookEvent {
+  /** Deterministic — the same on-chain fact always yields the same ID */
+  id: string;
+  type: string;
+  occurredAt: string;
+  data: Record<string, unknown> & {
+    drepId?: string;
+    proposalType?: string;
+    poolId?: string;
+  };
+}
+
+export type DeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+interface SubscriptionRow {
+  id: string;
+  api_key_id: string;
+  url: string;
+  events: string[];
+  filters: WebhookFilters | null;
+  active: boolean;
+  consecutive_failures: number;
+  disabled_reason: string | null;
+  created_at: string;
+}
+
+export function toWebhookSubscription(row: SubscriptionRow): WebhookSubscription {
+  return {
+    id: row.id,
+    apiKeyId: row.api_key_id,
+    url: row.url,
+    events: row.events,
+    filters: row.filters ?? {},
+    active: row.active,
+    consecutiveFailures: row.consecutive_failures,
+    disabledReason: row.disabled_reason,
+    createdAt: row.created_at,
+  };
+}
+
+/** Public API (snake_case) representation — never includes the secret. */
+export function serializeWebhookSubscription(sub: WebhookSubscription) {
+  return {
+    id: sub.id,
+    url: sub.url,
+    events: sub.events,
+    filters: {
+      drep_ids: sub.filters.drepIds ?? [],
+      proposal_types: sub.filters.proposalTypes ?? [],
+      pool_ids: sub.filters.poolIds ?? [],
+    },
+    active: sub.active,
+    consecutive_failures: sub.consecutiveFailures,
+    disabled_reason: sub.disabledReason,
+    created_at: sub.createdAt,
+  };
+}
+
+export function getWebhookEventKeys(): string[] {
+  return getWebhookEvents().map((e) => e.key);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+// ── URL safety ───────────────────────────────────────────────────────────────
+
+const PRIVATE_HOST_PATTERNS = [/^localhost$/i, /\.localhost$/i, /\.local$/i, /\.internal$/i];
+
+/** Loopback, private, link-local, CGNAT, multicast and reserved ranges */
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], // unspecified, loopback and IPv4-compatible
+  ['::ffff:0:0', 96], // IPv4-mapped — would reach the embedded IPv4 address
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/** True for IP literals that must never receive a webhook. Non-IPs return false. */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '');
+  const family = isIP(ip);
+  if (family === 0) return false;
+  return PRIVATE_RANGES.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * HTTPS only, and never to loopback/private/link-local hosts. Hostnames are
+ * only checked syntactically here — sendWebhook re-checks the resolved
+ * addresses at delivery time.
+ */
+export function isAllowedWebhookUrl(raw: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) return false;
+  if (isPrivateAddress(url.hostname)) return false;
+  return !PRIVATE_HOST_PATTERNS.some((re) => re.test(url.hostname));
+}
+
+/**
+ * DNS lookup for delivery sockets that fails if any resolved address is
+ * private, so a public-looking hostname cannot be pointed at internal services.
+ * The connection uses the address checked here, leaving no window for rebinding.
+ */
+function publicOnlyLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (
+    err: NodeJS.ErrnoException | null,
+    address: string | LookupAddress[],
+    family?: number,
+  ) => void,
+): void {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '');
+    if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+      return callback(new Error(`${hostname} resolves to a non-public address`), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// ── Signing ──────────────────────────────────────────────────────────────────
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const mac = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${mac}`;
+}
+
+/**
+ * Verify an `X-Civica-Signature` header. Exported for receivers written in TS
+ * and for tests; rejects signatures older than five minutes to block replays.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  nowSeconds = Math.floor(Date.now() / 1000),
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map((p) => {
+      const [k, ...v] = p.split('=');
+      return [k.trim(), v.join('=')];
+    }),
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(nowSeconds - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body).split('v1=')[1], 'hex');
+  const given = Buffer.from(parts.v1, 'hex');
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+// ── Matching & retry policy ──────────────────────────────────────────────────
+
+/**
+ * A subscription receives an event when it lists the event type and every
+ * filter it sets matches. Filters only constrain events that carry the
+ * attribute — a DRep filter does not hide `proposal-new` events.
+ */
+export function subscriptionMatches(sub: WebhookSubscription, event: WebhookEvent): boolean {
+  if (!sub.active || !sub.events.includes(event.type)) return false;
+  const { drepIds, proposalTypes, poolIds } = sub.filters;
+  if (drepIds?.length && event.data.drepId && !drepIds.includes(event.data.drepId)) return false;
+  if (
+    proposalTypes?.length &&
+    event.data.proposalType &&
+    !proposalTypes.includes(event.data.proposalType)
+  ) {
+    return false;
+  }
+  if (poolIds?.length && event.data.poolId && !poolIds.includes(event.data.poolId)) return false;
+  return true;
+}
+
+/** Delay before attempt `attempt + 1`: 30s, 60s, 2m, 4m … capped at 6h. */
+export function retryDelaySeconds(attempt: number): number {
+  return Math.min(BASE_RETRY_SECONDS * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_SECONDS);
+}
+
+export function buildDeliveryBody(event: WebhookEvent): string {
+  return JSON.stringify({
+    id: event.id,
+    type: event.type,
+    occurred_at: event.occurredAt,
+    data: event.data,
+  });
+}
+
+// ── Subscription management (scoped to the owning API key) ─────────────────
+
+const SUBSCRIPTION_COLUMNS =
+  'id, api_key_id, url, events, filters, active, consecutive_failures, disabled_reason, created_at';
+
+export class WebhookLimitError extends Error {
+  constructor() {
+    super(`An API key can hold at most ${MAX_SUBSCRIPTIONS_PER_KEY} webhook subscriptions`);
+    this.name = 'WebhookLimitError';
+  }
+}
+
+export interface CreatedWebhookSubscription {
+  /** Shown to the owner exactly once */
+  secret: string;
+  subscription: WebhookSubscription;
+}
+
+export async function listWebhookSubscriptions(apiKeyId: string): Promise<WebhookSubscription[]> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('webhook_subscriptions')
+    .select(SUBSCRIPTION_COLUMNS)
+    .eq('api_key_id', apiKeyId)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(error.message);
+  return ((data || []) as SubscriptionRow[]).map(toWebhookSubscription);
+}
+
+export async function getWebhookSubscription(
+  apiKeyId: string,
+  id: string,
+): Promise<WebhookSubscription | null> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('webhook_subscriptions')
+    .select(SUBSCRIPTION_COLUMNS)
+    .eq('id', id)
+    .eq('api_key_id', apiKeyId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? toWebhookSubscription(data as SubscriptionRow) : null;
+}
+
+export async function createWebhookSubscription(
+  apiKeyId: string,
+  input: { url: string; events: string[]; filters?: WebhookFilters },
+): Promise<CreatedWebhookSubscription> {
+  const supabase = getSupabaseAdmin();
+  const { count } = await supabase
+    .from('webhook_subscriptions')
+    .select('id', { count: 'exact', head: true })
+    .eq('api_key_id', apiKeyId);
+  if ((count ?? 0) >= MAX_SUBSCRIPTIONS_PER_KEY) throw new WebhookLimitError();
+
+  const secret = generateWebhookSecret();
+  const { data, error } = await supabase
+    .from('webhook_subscriptions')
+    .insert({
+      api_key_id: apiKeyId,
+      url: input.url,
+      events: input.events,
+      filters: input.filters ?? {},
+      secret,
+    })
+    .select(SUBSCRIPTION_COLUMNS)
+    .single();
+  if (error || !data) throw new Error(error?.message ?? 'Failed to create webhook subscription');
+  return { secret, subscription: toWebhookSubscription(data as SubscriptionRow) };
+}
+
+/** Re-activating a subscription clears its failure streak and disabled reason. */
+export async function updateWebhookSubscription(
+  apiKeyId: string,
+  id: string,
+  changes: { url?: string; events?: string[]; filters?: WebhookFilters; active?: boolean },
+): Promise<WebhookSubscription | null> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('webhook_subscriptions')
+    .update({
+      ...changes,
+      ...(changes.active ? { consecutive_failures: 0, disabled_reason: null } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('api_key_id', apiKeyId)
+    .select(SUBSCRIPTION_COLUMNS)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? toWebhookSubscription(data as SubscriptionRow) : null;
+}
+
+export async function deleteWebhookSubscription(apiKeyId: string, id: string): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('webhook_subscriptions')
+    .delete()
+    .eq('id', id)
+    .eq('api_key_id', apiKeyId)
+    .select('id');
+  if (error) throw new Error(error.message);
+  return (data?.length ?? 0) > 0;
+}
+
+export async function listWebhookDeliveries(
+  subscriptionId: string,
+  options: { status?: DeliveryStatus; limit: number },
+) {
+  const supabase = getSupabaseAdmin();
+  let query = supabase
+    .from('webhook_deliveries')
+    .select(
+      'id, event_id, event_type, status, attempts, next_attempt_at, last_attempt_at, last_status_code, last_error, last_response_ms, delivered_at, created_at',
+    )
+    .eq('subscription_id', subscriptionId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit);
+  if (options.status) query = query.eq('status', options.status);
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+// ── Fan-out ──────────────────────────────────────────────────────────────────
+
+/**
+ * Record events and queue deliveries for every matching subscription.
+ * Events already recorded are skipped, so detection can safely re-scan windows.
+ * Returns the number of deliveries queued.
+ */
+export async function fanOutWebhookEvents(events: WebhookEvent[]): Promise<number> {
+  if (events.length === 0) return 0;
+  const supabase = getSupabaseAdmin();
+
+  const { data: inserted, error } = await supabase
+    .from('webhook_events')
+    .upsert(
+      events.map((e) => ({
+        id: e.id,
+        event_type: e.type,
+        occurred_at: e.occurredAt,
+        data: e.data,
+      })),
+      { onConflict: 'id', ignoreDuplicates: true },
+    )
+    .select('id');
+  if (error) throw new Error(`webhook_events insert failed: ${error.message}`);
+
+  const newIds = new Set((inserted || []).map((r: { id: string }) => r.id));
+  const fresh = events.filter((e) => newIds.has(e.id));
+  if (fresh.length === 0) return 0;
+
+  // Subscriptions of revoked keys stay silent even if they were never deactivated
+  const { data: subRows } = await supabase
+    .from('webhook_subscriptions')
+    .select('*, api_keys!inner(revoked_at)')
+    .eq('active', true)
+    .is('api_keys.revoked_at', null);
+  const subs = ((subRows || []) as unknown as SubscriptionRow[]).map(toWebhookSubscription);
+
+  const deliveries = fresh.flatMap((event) =>
+    subs
+      .filter((sub) => subscriptionMatches(sub, event))
+      .map((sub) => ({
+        subscription_id: sub.id,
+        event_id: event.id,
+        event_type: event.type,
+        payload: JSON.parse(buildDeliveryBody(event)),
+        status: 'pending' as DeliveryStatus,
+        next_attempt_at: new Date().toISOString(),
+      })),
+  );
+
+  if (deliveries.length > 0) {
+    const { error: qErr } = await supabase
+      .from('webhook_deliveries')
+      .upsert(deliveries, { onConflict: 'subscription_id,event_id', ignoreDuplicates: true });
+    if (qErr) throw new Error(`webhook_deliveries insert failed: ${qErr.message}`);
+  }
+
+  return deliveries.length;
+}
+
+// ── Delivery ─────────────────────────────────────────────────────────────────
+
+export interface DeliveryAttemptResult {
+  ok: boolean;
+  statusCode: number | null;
+  responseMs: number;
+  error: string | null;
+}
+
+/** POST without following redirects; resolves with the response status code. */
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = httpsRequest(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      },
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+export async function sendWebhook(
+  sub: Pick<WebhookSubscription, 'url'> & { secret: string },
+  deliveryId: string,
+  eventType: string,
+  body: string,
+): Promise<DeliveryAttemptResult> {
+  const start = Date.now();
+  const timestamp = Math.floor(start / 1000);
+  // Stored URLs may predate the current rules
+  if (!isAllowedWebhookUrl(sub.url)) {
+    return {
+      ok: false,
+      statusCode: null,
+      responseMs: 0,
+      error: 'url must be a public https:// endpoint',
+    };
+  }
+  try {
+    const status = await postWebhook(
+      sub.url,
+      {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Civica-Webhooks/1.0',
+        'X-Civica-Event': eventType,
+        'X-Civica-Delivery': deliveryId,
+        'X-Civica-Signature': signWebhookPayload(sub.secret, timestamp, body),
+      },
+      body,
+    );
+    const ok = status >= 200 && status < 300;
+    return {
+      ok,
+      statusCode: status,
+      responseMs: Date.now() - start,
+      error: ok ? null : `HTTP ${status}`,
+    };
+  } catch (e) {
+    return {
+      ok: false,
+      statusCode: null,
+      responseMs: Date.now() - start,
+      error: e instanceof Error ? e.message : String(e),
+    };
+  }
+}
+
+/**
+ * Attempt every due delivery once. Failures are rescheduled with exponential
+ * backoff until MAX_DELIVERY_ATTEMPTS, then marked failed. Deliveries of
+ * inactive subscriptions are never picked up, so they cannot fill the batch;
+ * those left behind when a subscription is disabled mid-run are marked failed.
+ */
+export async function processDueDeliveries(limit = 200): Promise<{
+  attempted: number;
+  delivered: number;
+  retrying: number;
+  failed: number;
+}> {
+  const supabase = getSupabaseAdmin();
+  const now = new Date();
+
+  const { data: due } = await supabase
+    .from('webhook_deliveries')
+    .select(
+      'id, subscription_id, event_type, payload, attempts, webhook_subscriptions!inner(url, secret, active, consecutive_failures, api_keys!inner(revoked_at))',
+    )
+    .in('status', ['pending', 'retrying'])
+    .eq('webhook_subscriptions.active', true)
+    .is('webhook_subscriptions.api_keys.revoked_at', null)
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  const stats = { attempted: 0, delivered: 0, retrying: 0, failed: 0 };
+  // Shared across rows so failure counts and auto-disable apply within one run
+  const subState = new Map<string, { active: boolean; consecutive_failures: number }>();
+
+  for (const d of due || []) {
+    const joined = d.webhook_subscriptions as unknown as {
+      url: string;
+      secret: string;
+      active: boolean;
+      consecutive_failures: number;
+    };
+    if (!subState.has(d.subscription_id)) {
+      subState.set(d.subscription_id, {
+        active: joined.active,
+        consecutive_failures: joined.consecutive_failures,
+      });
+    }
+    const sub = { ...joined, ...subState.get(d.subscription_id)! };
+    if (!sub.active) {
+      await supabase
+        .from('webhook_deliveries')
+        .update({ status: 'failed', last_error: 'Subscription disabled', next_attempt_at: null })
+        .eq('id', d.id);
+      stats.failed++;
+      continue;
+    }
+
+    const attempts = (d.attempts ?? 0) + 1;
+    const result = await sendWebhook(sub, d.id, d.event_type, JSON.stringify(d.payload));
+    stats.attempted++;
+
+    let status: DeliveryStatus;
+    if (result.ok) status = 'delivered';
+    else if (attempts >= MAX_DELIVERY_ATTEMPTS) status = 'failed';
+    else status = 'retrying';
+    stats[status as 'delivered' | 'failed' | 'retrying']++;
+
+    await supabase
+      .from('webhook_deliveries')
+      .update({
+        status,
+        attempts,
+        last_status_code: result.statusCode,
+        last_error: result.error,
+        last_response_ms: result.responseMs,
+        last_attempt_at: new Date().toISOString(),
+        delivered_at: result.ok ? new Date().toISOString() : null,
+        next_attempt_at:
+          status === 'retrying'
+            ? new Date(Date.now() + retryDelaySeconds(attempts) * 1000).toISOString()
+            : null,
+      })
+      .eq('id', d.id);
+
+    if (status === 'delivered' && sub.consecutive_failures > 0) {
+      await supabase
+        .from('webhook_subscriptions')
+        .update({ consecutive_failures: 0 })
+        .eq('id', d.subscription_id);
+      subState.set(d.subscription_id, { active: true, consecutive_failures: 0 });
+    } else if (status === 'failed') {
+      const failures = sub.consecutive_failures + 1;
+      const disable = failures >= AUTO_DISABLE_AFTER_FAILURES;
+      await supabase
+        .from('webhook_subscriptions')
+        .update({
+          consecutive_failures: failures,
+          ...(disable
+            ? {
+                active: false,
+                disabled_reason: `Auto-disabled after ${failures} consecutive failed deliveries`,
+              }
+            : {}),
+        })
+        .eq('id', d.subscription_id);
+      subState.set(d.subscription_id, { active: !disable, consecutive_failures: failures });
+      if (disable) {
+        logger.warn('[Webhooks] Subscription auto-disabled', {
+          subscriptionId: d.subscription_id,
+          failures,
+        });
+      }
+    }
+  }
+
+  return stats;
+}
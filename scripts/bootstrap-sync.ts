@@ -248,6 +248,9 @@ async function main() {
                 title: p.title,
                 abstract: p.abstract,
                 withdrawal_amount: p.withdrawalAmountAda,
+                withdrawal_addresses: p.withdrawalAddresses,
+                authors: p.authors,
+                reference_urls: p.references,
                 treasury_tier: p.treasuryTier,
                 param_changes: p.paramChanges,
                 relevant_prefs: p.relevantPrefs,
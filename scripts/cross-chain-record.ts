@@ -0,0 +1,80 @@
+/**
+ * Cross-Chain Record — capture live chain API responses as adapter fixtures.
+ *
+ *   npm run crosschain:record -- [chain ...] [--out __tests__/fixtures/crossChain]
+ *
+ * Runs each adapter's fetch() against the live APIs (all registered chains
+ * when none are named) and writes one fixture set per chain to <out>/<chain>.json.
+ * Chains whose fetch returns nothing (missing API key, upstream down) are
+ * reported and their existing fixture is left untouched.
+ *
+ * API keys (TALLY_API_KEY, OPTIMISM_AGORA_API_KEY, ...) and, for Cardano, the
+ * Supabase credentials are read from .env.local. Request headers are not
+ * written to the fixtures. Re-recording changes the figures the adapter tests
+ * assert, so update __tests__/cross-chain-adapters.test.ts in the same commit.
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+config({ path: resolve(process.cwd(), '.env.local') });
+
+import { getChainAdapter, listChainAdapters, type ChainAdapter } from '../lib/crossChain';
+import {
+  CHAIN_FIXTURE_VERSION,
+  recordingTransport,
+  writeChainFixture,
+} from '../lib/crossChain/fixtures';
+
+const DEFAULT_OUT = '__tests__/fixtures/crossChain';
+
+function argValue(args: string[], flag: string): string | undefined {
+  const i = args.indexOf(flag);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+async function record(adapter: ChainAdapter, outDir: string): Promise<boolean> {
+  const recorder = recordingTransport();
+  const raw = await adapter.fetch({ request: recorder.transport, env: process.env });
+  if (raw == null) {
+    console.warn(`  ${adapter.chain}: fetch returned nothing, fixture not written`);
+    return false;
+  }
+
+  const path = resolve(process.cwd(), outDir, `${adapter.chain}.json`);
+  writeChainFixture(path, {
+    version: CHAIN_FIXTURE_VERSION,
+    chain: adapter.chain,
+    recordedAt: new Date().toISOString(),
+    source: adapter.model.source,
+    entries: recorder.entries,
+    ...(recorder.entries.length === 0 ? { raw } : {}),
+  });
+  console.log(`  ${adapter.chain}: ${recorder.entries.length} requests → ${path}`);
+  return true;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const outDir = argValue(args, '--out') ?? DEFAULT_OUT;
+  const chains = args.filter((a, i) => !a.startsWith('--') && args[i - 1] !== '--out');
+
+  const adapters = chains.length
+    ? chains.map((chain) => {
+        const adapter = getChainAdapter(chain);
+        if (!adapter) throw new Error(`Unknown chain "${chain}"`);
+        return adapter;
+      })
+    : listChainAdapters();
+
+  console.log(`Recording ${adapters.length} chain(s)`);
+  let failed = 0;
+  for (const adapter of adapters) {
+    if (!(await record(adapter, outDir))) failed++;
+  }
+  if (failed > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,82 @@
+/**
+ * Koios Mock — local Koios stand-in for offline development and tests.
+ *
+ * Replay a fixture set:
+ *   npm run koios:mock -- [--fixtures <file>] [--port 8787] [--lenient]
+ *
+ * Record a new fixture set from the live API (Ctrl+C to save):
+ *   npm run koios:mock -- --record <file> [--upstream <url>] [--max-rows 50] [--name <name>]
+ *
+ * Then run the app or a sync against it:
+ *   NEXT_PUBLIC_KOIOS_BASE_URL=http://127.0.0.1:8787/api/v1 npm run dev
+ *
+ * Recording forwards KOIOS_API_KEY (from .env.local) upstream when set.
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+config({ path: resolve(process.cwd(), '.env.local') });
+
+import { loadFixtureSet, writeFixtureSet } from '../lib/koiosMock/fixtures';
+import { startKoiosMockServer } from '../lib/koiosMock/server';
+
+const DEFAULT_FIXTURES = '__tests__/fixtures/koios/sync-baseline.json';
+const DEFAULT_PORT = 8787;
+
+function argValue(args: string[], flag: string): string | undefined {
+  const i = args.indexOf(flag);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const recordPath = argValue(args, '--record');
+  const port = parseInt(argValue(args, '--port') ?? String(DEFAULT_PORT), 10);
+
+  if (recordPath) {
+    const maxRows = argValue(args, '--max-rows');
+    const server = await startKoiosMockServer({
+      mode: 'record',
+      upstream: argValue(args, '--upstream'),
+      apiKey: process.env.KOIOS_API_KEY || undefined,
+      maxRows: maxRows ? parseInt(maxRows, 10) : undefined,
+      name: argValue(args, '--name'),
+      port,
+    });
+    console.log(`Recording Koios responses via ${server.baseUrl}`);
+    console.log(`Press Ctrl+C to write ${recordPath}`);
+
+    process.on('SIGINT', async () => {
+      const set = server.recorded();
+      writeFixtureSet(resolve(process.cwd(), recordPath), set);
+      console.log(`\nWrote ${set.entries.length} entries to ${recordPath}`);
+      await server.close();
+      process.exit(0);
+    });
+    return;
+  }
+
+  const fixturesPath = argValue(args, '--fixtures') ?? DEFAULT_FIXTURES;
+  const fixtures = loadFixtureSet(resolve(process.cwd(), fixturesPath));
+  const server = await startKoiosMockServer({
+    fixtures,
+    strict: !args.includes('--lenient'),
+    port,
+  });
+  console.log(`Replaying ${fixtures.entries.length} Koios fixtures (${fixtures.name})`);
+  console.log(`NEXT_PUBLIC_KOIOS_BASE_URL=${server.baseUrl}`);
+
+  process.on('SIGINT', async () => {
+    if (server.unmatched.length > 0) {
+      console.log(`\n${server.unmatched.length} unmatched requests:`);
+      for (const key of new Set(server.unmatched)) console.log(`  ${key}`);
+    }
+    await server.close();
+    process.exit(0);
+  });
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+/**
+ * Register Discord Commands — publish the Civica slash commands globally.
+ *
+ * Usage:
+ *   npm run discord:register
+ *
+ * Requires DISCORD_APPLICATION_ID and DISCORD_BOT_TOKEN in .env.local. Global
+ * commands can take up to an hour to appear in every server. Rerun after
+ * changing lib/discord/commands.ts or the webhook event catalog.
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+config({ path: resolve(process.cwd(), '.env.local') });
+
+import { buildCommandDefinitions } from '../lib/discord/commands';
+import { registerGlobalCommands } from '../lib/discord/api';
+
+async function main() {
+  const applicationId = process.env.DISCORD_APPLICATION_ID;
+  if (!applicationId || !process.env.DISCORD_BOT_TOKEN) {
+    console.error('Missing env vars: DISCORD_APPLICATION_ID and DISCORD_BOT_TOKEN');
+    process.exit(1);
+  }
+
+  const commands = buildCommandDefinitions();
+  const res = await registerGlobalCommands(applicationId, commands);
+  if (!res.ok) {
+    console.error(`Registration failed (HTTP ${res.status})`);
+    process.exit(1);
+  }
+  console.log(`Registered ${commands.length} commands: ${commands.map((c) => c.name).join(', ')}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+-- Historical DRep Score replay
+-- Scores recomputed "as of" a past epoch under a given methodology version.
+-- Kept separate from drep_score_history so live snapshots are never overwritten;
+-- comparing the two shows whether past tier movements came from behaviour or formula changes.
+
+CREATE TABLE IF NOT EXISTS drep_score_replays (
+  drep_id TEXT NOT NULL,
+  epoch_no INTEGER NOT NULL,
+  methodology_version TEXT NOT NULL DEFAULT 'v3',
+
+  score INTEGER NOT NULL CHECK (score >= 0 AND score <= 100),
+  tier TEXT NOT NULL,
+  engagement_quality INTEGER,
+  engagement_quality_raw INTEGER,
+  effective_participation_v3 INTEGER,
+  effective_participation_v3_raw INTEGER,
+  reliability_v3 INTEGER,
+  reliability_v3_raw INTEGER,
+  governance_identity INTEGER,
+  governance_identity_raw INTEGER,
+
+  replayed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (drep_id, epoch_no, methodology_version)
+);
+
+COMMENT ON TABLE drep_score_replays IS 'DRep Score V3 recomputed as of past epochs. Backfills consistent score history after methodology changes.';
+
+CREATE INDEX IF NOT EXISTS idx_drep_score_replays_epoch ON drep_score_replays (epoch_no, methodology_version);
+
+ALTER TABLE drep_score_replays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read score replays"
+  ON drep_score_replays FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage score replays"
+  ON drep_score_replays FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+ALTER TABLE sync_log DROP CONSTRAINT IF EXISTS sync_log_sync_type_check;
+ALTER TABLE sync_log ADD CONSTRAINT sync_log_sync_type_check
+  CHECK (sync_type IN (
+    'fast', 'full', 'integrity_check', 'proposals', 'dreps', 'votes',
+    'secondary', 'slow', 'treasury', 'api_health_check', 'scoring',
+    'alignment', 'ghi', 'benchmarks', 'spo_scores', 'spo_votes', 'cc_votes',
+    'data_moat', 'delegator_snapshots', 'drep_lifecycle', 'epoch_summaries',
+    'committee_sync', 'metadata_archive', 'governance_epoch_stats',
+    'catalyst', 'catalyst_proposals', 'catalyst_funds', 'score_replay'
+  ));
@@ -0,0 +1,37 @@
+-- Scoring methodology profiles
+-- Records which methodology version produced each score, and stores shadow
+-- scores from candidate profiles so methodology changes can be diffed before shipping.
+
+ALTER TABLE dreps ADD COLUMN IF NOT EXISTS methodology_version TEXT NOT NULL DEFAULT 'v3';
+ALTER TABLE drep_score_history ADD COLUMN IF NOT EXISTS methodology_version TEXT NOT NULL DEFAULT 'v3';
+
+CREATE TABLE IF NOT EXISTS drep_methodology_scores (
+  drep_id TEXT NOT NULL,
+  methodology_version TEXT NOT NULL,
+  epoch_no INTEGER NOT NULL,
+
+  score INTEGER NOT NULL CHECK (score >= 0 AND score <= 100),
+  tier TEXT NOT NULL,
+  engagement_quality INTEGER,
+  effective_participation_v3 INTEGER,
+  reliability_v3 INTEGER,
+  governance_identity INTEGER,
+
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (drep_id, methodology_version)
+);
+
+COMMENT ON TABLE drep_methodology_scores IS 'Latest DRep scores per methodology profile (current + candidates). Powers the methodology diff report.';
+
+CREATE INDEX IF NOT EXISTS idx_drep_methodology_scores_version ON drep_methodology_scores (methodology_version);
+
+ALTER TABLE drep_methodology_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read methodology scores"
+  ON drep_methodology_scores FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage methodology scores"
+  ON drep_methodology_scores FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,12 @@
+-- API key self-service
+-- Lets wallet-authenticated integrators create, rotate, name, scope and revoke
+-- their own keys, and read per-key usage from api_usage_log.
+
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS scopes TEXT[];
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rotated_from UUID REFERENCES api_keys(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN api_keys.scopes IS 'Resource scopes the key may call (e.g. dreps, proposals). NULL = all scopes.';
+COMMENT ON COLUMN api_keys.rotated_from IS 'Key this one replaced via rotation; the old key is revoked at rotation time.';
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_owner_wallet ON api_keys (owner_wallet) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_api_usage_log_key_created ON api_usage_log (key_id, created_at DESC);
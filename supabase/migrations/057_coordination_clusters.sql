@@ -0,0 +1,68 @@
+-- Coordination (Sybil/cartel) clusters
+-- Per-epoch clusters of DReps or SPOs that vote alike, vote in the same blocks,
+-- share metadata hosting or share delegator stake. Supersedes the pairwise
+-- spo_sybil_flags table, which is kept for history.
+
+CREATE TABLE IF NOT EXISTS coordination_clusters (
+  id BIGSERIAL PRIMARY KEY,
+  epoch_no INTEGER NOT NULL,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('drep', 'spo')),
+  -- Deterministic for a given membership, so reviews carry across epochs
+  cluster_key TEXT NOT NULL,
+  member_ids TEXT[] NOT NULL,
+  size INTEGER NOT NULL,
+  cohesion NUMERIC(4,3) NOT NULL,
+  -- Mean per-signal evidence: voteAgreement, timingCorrelation, sharedInfrastructure, delegatorOverlap
+  signals JSONB NOT NULL,
+  -- Strongest pairwise edges, for the admin evidence view
+  edges JSONB NOT NULL DEFAULT '[]'::jsonb,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (epoch_no, entity_type, cluster_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coordination_clusters_epoch ON coordination_clusters (entity_type, epoch_no DESC);
+CREATE INDEX IF NOT EXISTS idx_coordination_clusters_members ON coordination_clusters USING GIN (member_ids);
+
+CREATE TABLE IF NOT EXISTS coordination_cluster_reviews (
+  cluster_key TEXT PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('open', 'confirmed', 'dismissed')),
+  note TEXT,
+  reviewed_by TEXT NOT NULL,
+  reviewed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE coordination_clusters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE coordination_cluster_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read coordination clusters"
+  ON coordination_clusters FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage coordination clusters"
+  ON coordination_clusters FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Anyone can read coordination reviews"
+  ON coordination_cluster_reviews FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage coordination reviews"
+  ON coordination_cluster_reviews FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- sync_log type for coordination runs
+ALTER TABLE sync_log DROP CONSTRAINT IF EXISTS sync_log_sync_type_check;
+ALTER TABLE sync_log ADD CONSTRAINT sync_log_sync_type_check
+  CHECK (sync_type IN (
+    'fast', 'full', 'integrity_check', 'proposals', 'dreps', 'votes',
+    'secondary', 'slow', 'treasury', 'api_health_check', 'scoring',
+    'alignment', 'ghi', 'benchmarks', 'spo_scores', 'spo_votes', 'cc_votes',
+    'data_moat', 'delegator_snapshots', 'drep_lifecycle', 'epoch_summaries',
+    'committee_sync', 'metadata_archive', 'governance_epoch_stats',
+    'catalyst', 'catalyst_proposals', 'catalyst_funds', 'score_replay', 'coordination'
+  ));
+
+-- Profile badge is opt-in
+INSERT INTO feature_flags (key, enabled, description, category)
+VALUES ('coordination_badges', false, 'Show a "possible coordinated bloc" badge on DRep and pool profiles in an open or confirmed coordination cluster', 'governance')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,48 @@
+-- Proposal outcome projections
+-- Latest Monte Carlo projection per open proposal: probability of ratification,
+-- a pessimistic/optimistic band, and per-body projected Yes shares.
+-- Rows are kept after a proposal closes so projections can be checked
+-- against outcomes.
+
+CREATE TABLE IF NOT EXISTS proposal_projections (
+  proposal_tx_hash TEXT NOT NULL,
+  proposal_index INTEGER NOT NULL,
+  epoch_no INTEGER NOT NULL,
+  probability NUMERIC(5,4) NOT NULL,
+  probability_low NUMERIC(5,4) NOT NULL,
+  probability_high NUMERIC(5,4) NOT NULL,
+  -- Per body: threshold, currentYesShare, projectedYesShare {p10,p50,p90}, passProbability, undecidedShare
+  bodies JSONB NOT NULL,
+  -- Window progress, reference proposals used and voter counts, for the methodology view
+  inputs JSONB NOT NULL DEFAULT '{}'::jsonb,
+  runs INTEGER NOT NULL,
+  model_version TEXT NOT NULL,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (proposal_tx_hash, proposal_index)
+);
+
+ALTER TABLE proposal_projections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read proposal projections"
+  ON proposal_projections FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage proposal projections"
+  ON proposal_projections FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+ALTER TABLE sync_log DROP CONSTRAINT IF EXISTS sync_log_sync_type_check;
+ALTER TABLE sync_log ADD CONSTRAINT sync_log_sync_type_check
+  CHECK (sync_type IN (
+    'fast', 'full', 'integrity_check', 'proposals', 'dreps', 'votes',
+    'secondary', 'slow', 'treasury', 'api_health_check', 'scoring',
+    'alignment', 'ghi', 'benchmarks', 'spo_scores', 'spo_votes', 'cc_votes',
+    'data_moat', 'delegator_snapshots', 'drep_lifecycle', 'epoch_summaries',
+    'committee_sync', 'metadata_archive', 'governance_epoch_stats',
+    'catalyst', 'catalyst_proposals', 'catalyst_funds', 'score_replay', 'coordination',
+    'projections'
+  ));
+
+INSERT INTO feature_flags (key, enabled, description, category)
+VALUES ('outcome_projections', true, 'Show projected ratification probability on open proposals and in /api/v1/proposals', 'governance')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,61 @@
+-- Shared anchor fetcher: content cache + retry queue
+-- Off-chain anchors (vote/CC rationales, DRep and proposal metadata) are fetched
+-- once, verified against their on-chain blake2b-256 hash, and cached by that hash.
+-- Anchors that fail are parked in the queue with exponential backoff.
+
+CREATE TABLE IF NOT EXISTS anchor_content_cache (
+  content_hash TEXT PRIMARY KEY,
+  content TEXT NOT NULL,
+  byte_size INTEGER NOT NULL CHECK (byte_size >= 0),
+  source_url TEXT,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE anchor_content_cache IS 'Anchor bodies keyed by blake2b-256 of their raw bytes. Content-addressed, so rows never change once written.';
+
+-- One row per anchor URL that failed, failed verification, or has no known hash.
+-- Resolved rows (ok/mismatch) map the URL to its cached content.
+CREATE TABLE IF NOT EXISTS anchor_fetch_queue (
+  url TEXT PRIMARY KEY,
+  expected_hash TEXT,
+  status TEXT NOT NULL CHECK (status IN ('ok', 'mismatch', 'pending', 'dead')),
+  content_hash TEXT REFERENCES anchor_content_cache(content_hash) ON DELETE SET NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_status TEXT,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ,
+  last_attempt_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_anchor_fetch_queue_due
+  ON anchor_fetch_queue(next_attempt_at)
+  WHERE status = 'pending';
+
+ALTER TABLE anchor_content_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE anchor_fetch_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read anchor content"
+  ON anchor_content_cache FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage anchor content"
+  ON anchor_content_cache FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage anchor fetch queue"
+  ON anchor_fetch_queue FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+ALTER TABLE sync_log DROP CONSTRAINT IF EXISTS sync_log_sync_type_check;
+ALTER TABLE sync_log ADD CONSTRAINT sync_log_sync_type_check
+  CHECK (sync_type IN (
+    'fast', 'full', 'integrity_check', 'proposals', 'dreps', 'votes',
+    'secondary', 'slow', 'treasury', 'api_health_check', 'scoring',
+    'alignment', 'ghi', 'benchmarks', 'spo_scores', 'spo_votes', 'cc_votes',
+    'data_moat', 'delegator_snapshots', 'drep_lifecycle', 'epoch_summaries',
+    'committee_sync', 'metadata_archive', 'governance_epoch_stats',
+    'catalyst', 'catalyst_proposals', 'catalyst_funds', 'score_replay', 'coordination',
+    'projections', 'anchor_retry'
+  ));
@@ -0,0 +1,33 @@
+-- Stake-weighted tallies for citizen engagement
+-- Live stake per voter stake key, recorded once per epoch while polls are open.
+-- Closed polls read the latest snapshot at or before their close epoch.
+
+CREATE TABLE IF NOT EXISTS voter_stake_snapshots (
+  stake_address TEXT NOT NULL,
+  epoch INTEGER NOT NULL,
+  lovelace BIGINT NOT NULL DEFAULT 0,
+  snapshot_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (stake_address, epoch)
+);
+
+CREATE INDEX IF NOT EXISTS idx_voter_stake_snapshots_epoch ON voter_stake_snapshots(epoch);
+
+ALTER TABLE voter_stake_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage voter stake snapshots"
+  ON voter_stake_snapshots FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Frozen at close alongside the headcount results; total_votes becomes the
+-- headcount after collapsing wallets that share a stake key.
+ALTER TABLE citizen_assemblies
+  ADD COLUMN IF NOT EXISTS stake_weighted_results JSONB,
+  ADD COLUMN IF NOT EXISTS total_stake_lovelace BIGINT,
+  ADD COLUMN IF NOT EXISTS unweighted_voters INTEGER,
+  ADD COLUMN IF NOT EXISTS snapshot_epoch INTEGER;
+
+ALTER TABLE citizen_priority_rankings
+  ADD COLUMN IF NOT EXISTS stake_weighted_rankings JSONB,
+  ADD COLUMN IF NOT EXISTS total_stake_lovelace BIGINT,
+  ADD COLUMN IF NOT EXISTS unweighted_voters INTEGER;
@@ -0,0 +1,28 @@
+-- Telegram bot: per-chat watch subscriptions
+-- A private chat, group or channel can watch DReps (each new vote is posted, which
+-- is how a DRep community channel follows its DRep) and proposals (status changes).
+
+CREATE TABLE IF NOT EXISTS telegram_subscriptions (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  chat_type TEXT NOT NULL CHECK (chat_type IN ('private', 'group', 'supergroup', 'channel')),
+  target_type TEXT NOT NULL CHECK (target_type IN ('drep', 'proposal')),
+  -- DRep ID, or "<tx_hash>#<index>" for proposals
+  target_id TEXT NOT NULL,
+  -- Delivery cursors: block_time of the last DRep vote posted, last proposal status posted
+  last_vote_block_time BIGINT,
+  last_status TEXT,
+  created_by BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (chat_id, target_type, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_telegram_subscriptions_target
+  ON telegram_subscriptions(target_type, target_id);
+
+ALTER TABLE telegram_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage telegram subscriptions"
+  ON telegram_subscriptions FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
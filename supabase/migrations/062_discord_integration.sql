@@ -0,0 +1,46 @@
+-- Discord application integration: per-guild governance feeds and DRep-owned servers
+-- Feeds replay the webhook_events stream (written by detect-webhook-events) into
+-- Discord channels; each feed and each DRep link keeps its own detected_at cursor.
+
+CREATE TABLE IF NOT EXISTS discord_guilds (
+  guild_id TEXT PRIMARY KEY,
+  -- DRep-owned mode: a claimed DRep's votes and rationales are announced here
+  drep_id TEXT,
+  drep_channel_id TEXT,
+  drep_cursor TIMESTAMPTZ,
+  linked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  linked_at TIMESTAMPTZ,
+  -- Pending link started by /drep-announce link; completed from the DRep's profile
+  link_token TEXT UNIQUE,
+  link_channel_id TEXT,
+  link_expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discord_guilds_drep
+  ON discord_guilds(drep_id) WHERE drep_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS discord_guild_feeds (
+  id BIGSERIAL PRIMARY KEY,
+  guild_id TEXT NOT NULL REFERENCES discord_guilds(guild_id) ON DELETE CASCADE,
+  channel_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  -- detected_at of the last webhook_events row posted
+  cursor TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (guild_id, event_type)
+);
+
+ALTER TABLE discord_guilds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE discord_guild_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage discord guilds"
+  ON discord_guilds FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage discord guild feeds"
+  ON discord_guild_feeds FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,28 @@
+-- Multi-language support: a per-user locale and cached AI output per language
+-- English AI text stays on its source rows (proposals.ai_summary,
+-- epoch_recaps.ai_narrative); other locales are generated by localize-ai-content.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'en'
+  CHECK (locale IN ('en', 'ja', 'es', 'pt', 'vi'));
+
+CREATE TABLE IF NOT EXISTS localized_ai_content (
+  -- 'proposal_summary' (key: txHash#index) or 'epoch_recap' (key: epoch number)
+  content_type TEXT NOT NULL,
+  content_key TEXT NOT NULL,
+  locale TEXT NOT NULL,
+  content TEXT NOT NULL,
+  -- sha256 of the English source; a changed source makes the row stale
+  source_hash TEXT NOT NULL,
+  generated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (content_type, content_key, locale)
+);
+
+ALTER TABLE localized_ai_content ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON localized_ai_content FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage localized ai content"
+  ON localized_ai_content FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
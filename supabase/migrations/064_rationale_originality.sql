@@ -0,0 +1,56 @@
+-- Rationale originality flags
+-- One row per vote rationale flagged as a duplicate of another DRep's text, a
+-- template the DRep recycles across proposals, or AI/filler boilerplate.
+-- Engagement Quality multiplies the rationale's credit by `multiplier` unless
+-- an appeal was upheld. Rebuilt daily by index-rationale-originality; rows
+-- with an appeal on file survive re-indexing.
+
+CREATE TABLE IF NOT EXISTS rationale_originality_flags (
+  vote_tx_hash TEXT PRIMARY KEY,
+  drep_id TEXT NOT NULL,
+  proposal_tx_hash TEXT NOT NULL,
+  proposal_index INTEGER NOT NULL,
+  flag TEXT NOT NULL CHECK (flag IN ('duplicate', 'template', 'boilerplate')),
+  -- Jaccard similarity with the original; NULL for boilerplate
+  similarity NUMERIC(4,3),
+  original_vote_tx_hash TEXT,
+  original_drep_id TEXT,
+  original_published_at TIMESTAMPTZ,
+  -- Boilerplate phrases found in the text
+  markers TEXT[] NOT NULL DEFAULT '{}',
+  multiplier NUMERIC(4,3) NOT NULL,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  appeal_status TEXT NOT NULL DEFAULT 'none'
+    CHECK (appeal_status IN ('none', 'pending', 'upheld', 'rejected')),
+  appeal_reason TEXT,
+  appealed_at TIMESTAMPTZ,
+  reviewed_by TEXT,
+  review_note TEXT,
+  reviewed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_rationale_originality_drep ON rationale_originality_flags (drep_id);
+CREATE INDEX IF NOT EXISTS idx_rationale_originality_appeals
+  ON rationale_originality_flags (appeal_status) WHERE appeal_status = 'pending';
+
+ALTER TABLE rationale_originality_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read rationale originality flags"
+  ON rationale_originality_flags FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage rationale originality flags"
+  ON rationale_originality_flags FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+ALTER TABLE sync_log DROP CONSTRAINT IF EXISTS sync_log_sync_type_check;
+ALTER TABLE sync_log ADD CONSTRAINT sync_log_sync_type_check
+  CHECK (sync_type IN (
+    'fast', 'full', 'integrity_check', 'proposals', 'dreps', 'votes',
+    'secondary', 'slow', 'treasury', 'api_health_check', 'scoring',
+    'alignment', 'ghi', 'benchmarks', 'spo_scores', 'spo_votes', 'cc_votes',
+    'data_moat', 'delegator_snapshots', 'drep_lifecycle', 'epoch_summaries',
+    'committee_sync', 'metadata_archive', 'governance_epoch_stats',
+    'catalyst', 'catalyst_proposals', 'catalyst_funds', 'score_replay', 'coordination',
+    'projections', 'anchor_retry', 'rationale_originality'
+  ));
@@ -0,0 +1,26 @@
+-- Report exports cache
+-- Server-generated governance report files (State of Governance PDF, JSON
+-- bundle, per-dataset CSV) and per-DRep accountability reports, keyed by
+-- epoch. Rows for closed epochs never expire; rows for the epoch in progress
+-- carry an expires_at so they are rebuilt as votes arrive. Binary bodies are
+-- stored base64-encoded.
+
+CREATE TABLE IF NOT EXISTS report_exports (
+  cache_key TEXT PRIMARY KEY,
+  epoch_no INTEGER NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('pdf', 'json', 'csv')),
+  encoding TEXT NOT NULL CHECK (encoding IN ('utf8', 'base64')),
+  body TEXT NOT NULL,
+  byte_size INTEGER NOT NULL,
+  generated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_exports_epoch ON report_exports (epoch_no);
+
+ALTER TABLE report_exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage report exports"
+  ON report_exports FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,19 @@
+-- Personal governance calendar feeds
+-- One secret feed token per user. Calendar apps cannot send auth headers, so
+-- the token in the feed URL is the credential; it lives outside `users`
+-- (publicly readable) and is only reachable through the service role.
+-- Rotating the token invalidates previously shared feed URLs.
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_fetched_at TIMESTAMPTZ
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage calendar feeds"
+  ON calendar_feeds FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
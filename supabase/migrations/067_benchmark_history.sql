@@ -0,0 +1,18 @@
+-- Cross-chain benchmark history
+-- Chains now come from a registry of adapters, so the chain column is no
+-- longer limited to the original three. Every chain is stored once per ISO
+-- week; period_start (the week's Monday) aligns history across chains,
+-- including older Cardano rows labelled by epoch.
+
+ALTER TABLE governance_benchmarks
+  DROP CONSTRAINT IF EXISTS governance_benchmarks_chain_check;
+
+ALTER TABLE governance_benchmarks
+  ADD COLUMN IF NOT EXISTS period_start DATE;
+
+UPDATE governance_benchmarks
+  SET period_start = date_trunc('week', fetched_at)::date
+  WHERE period_start IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_governance_benchmarks_chain_period
+  ON governance_benchmarks (chain, period_start DESC);
@@ -0,0 +1,58 @@
+-- Catalyst team track records for treasury withdrawals
+-- Withdrawal proposals now keep the identities they disclose: the stake
+-- addresses paid, CIP-100 author names and CIP-108 reference URIs. The
+-- Catalyst sync resolves those against Catalyst team members (handles,
+-- project websites, names) and stores one row per confident match, so the
+-- proposal page can show the team's prior Catalyst projects.
+
+ALTER TABLE proposals
+  ADD COLUMN IF NOT EXISTS withdrawal_addresses TEXT[],
+  ADD COLUMN IF NOT EXISTS authors TEXT[],
+  ADD COLUMN IF NOT EXISTS reference_urls TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_proposals_withdrawal_addresses
+  ON proposals USING GIN (withdrawal_addresses);
+
+CREATE TABLE IF NOT EXISTS treasury_team_links (
+  proposal_tx_hash TEXT NOT NULL,
+  proposal_index INTEGER NOT NULL,
+  team_member_id TEXT NOT NULL REFERENCES catalyst_team_members(id) ON DELETE CASCADE,
+  confidence REAL NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
+  signals TEXT[] NOT NULL DEFAULT '{}',   -- handle, website, author, mention
+  linked_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (proposal_tx_hash, proposal_index, team_member_id),
+  CONSTRAINT fk_treasury_team_links_proposal FOREIGN KEY (proposal_tx_hash, proposal_index)
+    REFERENCES proposals (tx_hash, proposal_index) ON DELETE CASCADE
+);
+
+COMMENT ON TABLE treasury_team_links IS 'Resolved links between treasury withdrawal proposals and Catalyst team members.';
+
+CREATE INDEX IF NOT EXISTS idx_treasury_team_links_member ON treasury_team_links (team_member_id);
+
+ALTER TABLE treasury_team_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read treasury team links"
+  ON treasury_team_links FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage treasury team links"
+  ON treasury_team_links FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+ALTER TABLE sync_log DROP CONSTRAINT IF EXISTS sync_log_sync_type_check;
+ALTER TABLE sync_log ADD CONSTRAINT sync_log_sync_type_check
+  CHECK (sync_type IN (
+    'fast', 'full', 'integrity_check', 'proposals', 'dreps', 'votes',
+    'secondary', 'slow', 'treasury', 'api_health_check', 'scoring',
+    'alignment', 'ghi', 'benchmarks', 'spo_scores', 'spo_votes', 'cc_votes',
+    'data_moat', 'delegator_snapshots', 'drep_lifecycle', 'epoch_summaries',
+    'committee_sync', 'metadata_archive', 'governance_epoch_stats',
+    'catalyst', 'catalyst_proposals', 'catalyst_funds', 'catalyst_team_links',
+    'score_replay', 'coordination', 'projections', 'anchor_retry', 'rationale_originality'
+  ));
+
+-- Feature flag
+INSERT INTO feature_flags (key, enabled, description, category)
+VALUES ('catalyst_track_record', true, 'Show Catalyst team track records on treasury withdrawal proposal pages', 'governance')
+ON CONFLICT (key) DO NOTHING;
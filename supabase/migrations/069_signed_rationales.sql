@@ -0,0 +1,16 @@
+-- Signed, IPFS-pinned rationale documents
+-- DReps can witness a rationale with their wallet (CIP-100 author witness,
+-- verified server-side) and publish it to IPFS so the vote anchor does not
+-- depend on this site. JSONB does not keep key order, so the exact bytes the
+-- anchor hash covers are stored alongside and served as-is.
+
+ALTER TABLE rationale_documents
+  ADD COLUMN IF NOT EXISTS document_text TEXT,
+  ADD COLUMN IF NOT EXISTS signer_address TEXT,
+  ADD COLUMN IF NOT EXISTS signer_stake_address TEXT,
+  ADD COLUMN IF NOT EXISTS ipfs_cid TEXT,
+  ADD COLUMN IF NOT EXISTS pinning_backend TEXT,
+  ADD COLUMN IF NOT EXISTS pinned_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_rationale_documents_ipfs_cid
+  ON rationale_documents(ipfs_cid) WHERE ipfs_cid IS NOT NULL;
@@ -0,0 +1,55 @@
+-- Multisig signing sessions for script-credential (native script) DReps
+-- One session holds an unsigned vote or DRep update transaction while the
+-- co-signers add their vkey witnesses one wallet at a time. The transaction
+-- summary, script and validity interval are read from the transaction bytes
+-- server-side; the session is submitted once the script is satisfied and the
+-- fee payer has signed. Sessions and witnesses are only reachable through the
+-- service role (the API checks every witness before storing it).
+
+CREATE TABLE IF NOT EXISTS multisig_signing_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN ('vote', 'drep_update')),
+  drep_id TEXT NOT NULL,
+  script_hash TEXT NOT NULL,
+  script_cbor TEXT NOT NULL,
+  unsigned_tx TEXT NOT NULL,
+  tx_hash TEXT NOT NULL UNIQUE,
+  fee_payer_key_hashes TEXT[] NOT NULL DEFAULT '{}',
+  invalid_before BIGINT,
+  invalid_hereafter BIGINT NOT NULL,
+  summary JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'collecting'
+    CHECK (status IN ('collecting', 'submitting', 'submitted', 'failed', 'cancelled')),
+  error TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  submitted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_multisig_sessions_drep
+  ON multisig_signing_sessions(drep_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS multisig_session_witnesses (
+  session_id UUID NOT NULL REFERENCES multisig_signing_sessions(id) ON DELETE CASCADE,
+  key_hash TEXT NOT NULL,
+  vkey TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  signer_address TEXT,
+  added_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, key_hash)
+);
+
+ALTER TABLE multisig_signing_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE multisig_session_witnesses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage multisig sessions"
+  ON multisig_signing_sessions FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage multisig witnesses"
+  ON multisig_session_witnesses FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
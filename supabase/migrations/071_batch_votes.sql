@@ -0,0 +1,30 @@
+-- Votes cast through batch voting, one row per proposal
+-- A batch is one transaction with several voting procedures. Rows are written
+-- by the API right after the wallet submits it, so the DRep dashboard can
+-- show those proposals as submitted until the vote sync picks them up from
+-- chain (drep_votes stays the source of truth).
+
+CREATE TABLE IF NOT EXISTS batch_votes (
+  tx_hash TEXT NOT NULL,
+  drep_id TEXT NOT NULL,
+  proposal_tx_hash TEXT NOT NULL,
+  proposal_index INTEGER NOT NULL,
+  vote TEXT NOT NULL CHECK (vote IN ('Yes', 'No', 'Abstain')),
+  anchor_url TEXT,
+  anchor_hash TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (tx_hash, proposal_tx_hash, proposal_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_votes_drep
+  ON batch_votes(drep_id, created_at DESC);
+
+ALTER TABLE batch_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read batch votes"
+  ON batch_votes FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage batch votes"
+  ON batch_votes FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
@@ -121,6 +121,69 @@ export type Database = {
         };
         Relationships: [];
       };
+      anchor_content_cache: {
+        Row: {
+          byte_size: number;
+          content: string;
+          content_hash: string;
+          fetched_at: string;
+          source_url: string | null;
+        };
+        Insert: {
+          byte_size: number;
+          content: string;
+          content_hash: string;
+          fetched_at?: string;
+          source_url?: string | null;
+        };
+        Update: {
+          byte_size?: number;
+          content?: string;
+          content_hash?: string;
+          fetched_at?: string;
+          source_url?: string | null;
+        };
+        Relationships: [];
+      };
+      anchor_fetch_queue: {
+        Row: {
+          attempts: number;
+          content_hash: string | null;
+          created_at: string;
+          expected_hash: string | null;
+          last_attempt_at: string | null;
+          last_error: string | null;
+          last_status: string | null;
+          next_attempt_at: string | null;
+          status: string;
+          url: string;
+        };
+        Insert: {
+          attempts?: number;
+          content_hash?: string | null;
+          created_at?: string;
+          expected_hash?: string | null;
+          last_attempt_at?: string | null;
+          last_error?: string | null;
+          last_status?: string | null;
+          next_attempt_at?: string | null;
+          status: string;
+          url: string;
+        };
+        Update: {
+          attempts?: number;
+          content_hash?: string | null;
+          created_at?: string;
+          expected_hash?: string | null;
+          last_attempt_at?: string | null;
+          last_error?: string | null;
+          last_status?: string | null;
+          next_attempt_at?: string | null;
+          status?: string;
+          url?: string;
+        };
+        Relationships: [];
+      };
       api_keys: {
         Row: {
           created_at: string;
@@ -134,6 +197,8 @@ export type Database = {
           rate_limit: number;
           rate_window: string;
           revoked_at: string | null;
+          rotated_from: string | null;
+          scopes: string[] | null;
           tier: string;
         };
         Insert: {
@@ -148,6 +213,8 @@ export type Database = {
           rate_limit?: number;
           rate_window?: string;
           revoked_at?: string | null;
+          rotated_from?: string | null;
+          scopes?: string[] | null;
           tier?: string;
         };
         Update: {
@@ -162,6 +229,8 @@ export type Database = {
           rate_limit?: number;
           rate_window?: string;
           revoked_at?: string | null;
+          rotated_from?: string | null;
+          scopes?: string[] | null;
           tier?: string;
         };
         Relationships: [];
@@ -229,6 +298,60 @@ export type Database = {
           },
         ];
       };
+      batch_votes: {
+        Row: {
+          anchor_hash: string | null;
+          anchor_url: string | null;
+          created_at: string;
+          drep_id: string;
+          proposal_index: number;
+          proposal_tx_hash: string;
+          tx_hash: string;
+          vote: string;
+        };
+        Insert: {
+          anchor_hash?: string | null;
+          anchor_url?: string | null;
+          created_at?: string;
+          drep_id: string;
+          proposal_index: number;
+          proposal_tx_hash: string;
+          tx_hash: string;
+          vote: string;
+        };
+        Update: {
+          anchor_hash?: string | null;
+          anchor_url?: string | null;
+          created_at?: string;
+          drep_id?: string;
+          proposal_index?: number;
+          proposal_tx_hash?: string;
+          tx_hash?: string;
+          vote?: string;
+        };
+        Relationships: [];
+      };
+      calendar_feeds: {
+        Row: {
+          created_at: string;
+          last_fetched_at: string | null;
+          token: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          last_fetched_at?: string | null;
+          token: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          last_fetched_at?: string | null;
+          token?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
       catalyst_campaigns: {
         Row: {
           amount: number | null;
@@ -756,10 +879,14 @@ export type Database = {
           options: Json;
           question: string;
           results: Json | null;
+          snapshot_epoch: number | null;
           source: string;
+          stake_weighted_results: Json | null;
           status: string;
           title: string;
+          total_stake_lovelace: number | null;
           total_votes: number | null;
+          unweighted_voters: number | null;
           updated_at: string | null;
         };
         Insert: {
@@ -773,10 +900,14 @@ export type Database = {
           options: Json;
           question: string;
           results?: Json | null;
+          snapshot_epoch?: number | null;
           source?: string;
+          stake_weighted_results?: Json | null;
           status?: string;
           title: string;
+          total_stake_lovelace?: number | null;
           total_votes?: number | null;
+          unweighted_voters?: number | null;
           updated_at?: string | null;
         };
         Update: {
@@ -790,10 +921,14 @@ export type Database = {
           options?: Json;
           question?: string;
           results?: Json | null;
+          snapshot_epoch?: number | null;
           source?: string;
+          stake_weighted_results?: Json | null;
           status?: string;
           title?: string;
+          total_stake_lovelace?: number | null;
           total_votes?: number | null;
+          unweighted_voters?: number | null;
           updated_at?: string | null;
         };
         Relationships: [];
@@ -1001,21 +1136,30 @@ export type Database = {
           epoch: number;
           id: string;
           rankings: Json;
+          stake_weighted_rankings: Json | null;
+          total_stake_lovelace: number | null;
           total_voters: number;
+          unweighted_voters: number | null;
         };
         Insert: {
           computed_at?: string | null;
           epoch: number;
           id?: string;
           rankings: Json;
+          stake_weighted_rankings?: Json | null;
+          total_stake_lovelace?: number | null;
           total_voters?: number;
+          unweighted_voters?: number | null;
         };
         Update: {
           computed_at?: string | null;
           epoch?: number;
           id?: string;
           rankings?: Json;
+          stake_weighted_rankings?: Json | null;
+          total_stake_lovelace?: number | null;
           total_voters?: number;
+          unweighted_voters?: number | null;
         };
         Relationships: [];
       };
@@ -1166,6 +1310,69 @@ export type Database = {
         };
         Relationships: [];
       };
+      coordination_cluster_reviews: {
+        Row: {
+          cluster_key: string;
+          note: string | null;
+          reviewed_at: string;
+          reviewed_by: string;
+          status: string;
+        };
+        Insert: {
+          cluster_key: string;
+          note?: string | null;
+          reviewed_at?: string;
+          reviewed_by: string;
+          status: string;
+        };
+        Update: {
+          cluster_key?: string;
+          note?: string | null;
+          reviewed_at?: string;
+          reviewed_by?: string;
+          status?: string;
+        };
+        Relationships: [];
+      };
+      coordination_clusters: {
+        Row: {
+          cluster_key: string;
+          cohesion: number;
+          detected_at: string;
+          edges: Json;
+          entity_type: string;
+          epoch_no: number;
+          id: number;
+          member_ids: string[];
+          signals: Json;
+          size: number;
+        };
+        Insert: {
+          cluster_key: string;
+          cohesion: number;
+          detected_at?: string;
+          edges?: Json;
+          entity_type: string;
+          epoch_no: number;
+          id?: number;
+          member_ids: string[];
+          signals: Json;
+          size: number;
+        };
+        Update: {
+          cluster_key?: string;
+          cohesion?: number;
+          detected_at?: string;
+          edges?: Json;
+          entity_type?: string;
+          epoch_no?: number;
+          id?: number;
+          member_ids?: string[];
+          signals?: Json;
+          size?: number;
+        };
+        Relationships: [];
+      };
       decentralization_snapshots: {
         Row: {
           active_drep_count: number | null;
@@ -1244,6 +1451,75 @@ export type Database = {
         };
         Relationships: [];
       };
+      discord_guild_feeds: {
+        Row: {
+          channel_id: string;
+          created_at: string;
+          created_by: string | null;
+          cursor: string;
+          event_type: string;
+          guild_id: string;
+          id: number;
+        };
+        Insert: {
+          channel_id: string;
+          created_at?: string;
+          created_by?: string | null;
+          cursor?: string;
+          event_type: string;
+          guild_id: string;
+          id?: number;
+        };
+        Update: {
+          channel_id?: string;
+          created_at?: string;
+          created_by?: string | null;
+          cursor?: string;
+          event_type?: string;
+          guild_id?: string;
+          id?: number;
+        };
+        Relationships: [];
+      };
+      discord_guilds: {
+        Row: {
+          created_at: string;
+          drep_channel_id: string | null;
+          drep_cursor: string | null;
+          drep_id: string | null;
+          guild_id: string;
+          link_channel_id: string | null;
+          link_expires_at: string | null;
+          link_token: string | null;
+          linked_at: string | null;
+          linked_by: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          drep_channel_id?: string | null;
+          drep_cursor?: string | null;
+          drep_id?: string | null;
+          guild_id: string;
+          link_channel_id?: string | null;
+          link_expires_at?: string | null;
+          link_token?: string | null;
+          linked_at?: string | null;
+          linked_by?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          drep_channel_id?: string | null;
+          drep_cursor?: string | null;
+          drep_id?: string | null;
+          guild_id?: string;
+          link_channel_id?: string | null;
+          link_expires_at?: string | null;
+          link_token?: string | null;
+          linked_at?: string | null;
+          linked_by?: string | null;
+        };
+        Relationships: [];
+      };
       drep_delegator_snapshots: {
         Row: {
           amount_lovelace: number;
@@ -1340,6 +1616,45 @@ export type Database = {
         };
         Relationships: [];
       };
+      drep_methodology_scores: {
+        Row: {
+          computed_at: string;
+          drep_id: string;
+          effective_participation_v3: number | null;
+          engagement_quality: number | null;
+          epoch_no: number;
+          governance_identity: number | null;
+          methodology_version: string;
+          reliability_v3: number | null;
+          score: number;
+          tier: string;
+        };
+        Insert: {
+          computed_at?: string;
+          drep_id: string;
+          effective_participation_v3?: number | null;
+          engagement_quality?: number | null;
+          epoch_no: number;
+          governance_identity?: number | null;
+          methodology_version: string;
+          reliability_v3?: number | null;
+          score: number;
+          tier: string;
+        };
+        Update: {
+          computed_at?: string;
+          drep_id?: string;
+          effective_participation_v3?: number | null;
+          engagement_quality?: number | null;
+          epoch_no?: number;
+          governance_identity?: number | null;
+          methodology_version?: string;
+          reliability_v3?: number | null;
+          score?: number;
+          tier?: string;
+        };
+        Relationships: [];
+      };
       drep_milestones: {
         Row: {
           achieved_at: string;
@@ -1500,6 +1815,7 @@ export type Database = {
           governance_identity: number | null;
           governance_identity_raw: number | null;
           id: string;
+          methodology_version: string;
           profile_completeness: number;
           rationale_rate: number;
           reliability_score: number;
@@ -1521,6 +1837,7 @@ export type Database = {
           governance_identity?: number | null;
           governance_identity_raw?: number | null;
           id?: string;
+          methodology_version?: string;
           profile_completeness?: number;
           rationale_rate?: number;
           reliability_score?: number;
@@ -1542,6 +1859,7 @@ export type Database = {
           governance_identity?: number | null;
           governance_identity_raw?: number | null;
           id?: string;
+          methodology_version?: string;
           profile_completeness?: number;
           rationale_rate?: number;
           reliability_score?: number;
@@ -1553,6 +1871,57 @@ export type Database = {
         };
         Relationships: [];
       };
+      drep_score_replays: {
+        Row: {
+          drep_id: string;
+          effective_participation_v3: number | null;
+          effective_participation_v3_raw: number | null;
+          engagement_quality: number | null;
+          engagement_quality_raw: number | null;
+          epoch_no: number;
+          governance_identity: number | null;
+          governance_identity_raw: number | null;
+          methodology_version: string;
+          reliability_v3: number | null;
+          reliability_v3_raw: number | null;
+          replayed_at: string;
+          score: number;
+          tier: string;
+        };
+        Insert: {
+          drep_id: string;
+          effective_participation_v3?: number | null;
+          effective_participation_v3_raw?: number | null;
+          engagement_quality?: number | null;
+          engagement_quality_raw?: number | null;
+          epoch_no: number;
+          governance_identity?: number | null;
+          governance_identity_raw?: number | null;
+          methodology_version?: string;
+          reliability_v3?: number | null;
+          reliability_v3_raw?: number | null;
+          replayed_at?: string;
+          score: number;
+          tier: string;
+        };
+        Update: {
+          drep_id?: string;
+          effective_participation_v3?: number | null;
+          effective_participation_v3_raw?: number | null;
+          engagement_quality?: number | null;
+          engagement_quality_raw?: number | null;
+          epoch_no?: number;
+          governance_identity?: number | null;
+          governance_identity_raw?: number | null;
+          methodology_version?: string;
+          reliability_v3?: number | null;
+          reliability_v3_raw?: number | null;
+          replayed_at?: string;
+          score?: number;
+          tier?: string;
+        };
+        Relationships: [];
+      };
       drep_votes: {
         Row: {
           block_time: number;
@@ -1632,6 +2001,7 @@ export type Database = {
           last_vote_time: number | null;
           metadata: Json | null;
           metadata_hash_verified: boolean | null;
+          methodology_version: string;
           participation_rate: number | null;
           profile_completeness: number | null;
           rationale_rate: number | null;
@@ -1678,6 +2048,7 @@ export type Database = {
           last_vote_time?: number | null;
           metadata?: Json | null;
           metadata_hash_verified?: boolean | null;
+          methodology_version?: string;
           participation_rate?: number | null;
           profile_completeness?: number | null;
           rationale_rate?: number | null;
@@ -1724,6 +2095,7 @@ export type Database = {
           last_vote_time?: number | null;
           metadata?: Json | null;
           metadata_hash_verified?: boolean | null;
+          methodology_version?: string;
           participation_rate?: number | null;
           profile_completeness?: number | null;
           rationale_rate?: number | null;
@@ -1916,6 +2288,7 @@ export type Database = {
           id: string;
           participation_rate: number | null;
           period_label: string;
+          period_start: string | null;
           proposal_count: number | null;
           proposal_throughput: number | null;
           raw_data: Json | null;
@@ -1931,6 +2304,7 @@ export type Database = {
           id?: string;
           participation_rate?: number | null;
           period_label: string;
+          period_start?: string | null;
           proposal_count?: number | null;
           proposal_throughput?: number | null;
           raw_data?: Json | null;
@@ -1946,6 +2320,7 @@ export type Database = {
           id?: string;
           participation_rate?: number | null;
           period_label?: string;
+          period_start?: string | null;
           proposal_count?: number | null;
           proposal_throughput?: number | null;
           raw_data?: Json | null;
@@ -2346,6 +2721,33 @@ export type Database = {
         };
         Relationships: [];
       };
+      localized_ai_content: {
+        Row: {
+          content: string;
+          content_key: string;
+          content_type: string;
+          generated_at: string;
+          locale: string;
+          source_hash: string;
+        };
+        Insert: {
+          content: string;
+          content_key: string;
+          content_type: string;
+          generated_at?: string;
+          locale: string;
+          source_hash: string;
+        };
+        Update: {
+          content?: string;
+          content_key?: string;
+          content_type?: string;
+          generated_at?: string;
+          locale?: string;
+          source_hash?: string;
+        };
+        Relationships: [];
+      };
       metadata_archive: {
         Row: {
           cip_standard: string | null;
@@ -2385,6 +2787,96 @@ export type Database = {
         };
         Relationships: [];
       };
+      multisig_session_witnesses: {
+        Row: {
+          added_at: string;
+          key_hash: string;
+          session_id: string;
+          signature: string;
+          signer_address: string | null;
+          vkey: string;
+        };
+        Insert: {
+          added_at?: string;
+          key_hash: string;
+          session_id: string;
+          signature: string;
+          signer_address?: string | null;
+          vkey: string;
+        };
+        Update: {
+          added_at?: string;
+          key_hash?: string;
+          session_id?: string;
+          signature?: string;
+          signer_address?: string | null;
+          vkey?: string;
+        };
+        Relationships: [];
+      };
+      multisig_signing_sessions: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          drep_id: string;
+          error: string | null;
+          expires_at: string;
+          fee_payer_key_hashes: string[];
+          id: string;
+          invalid_before: number | null;
+          invalid_hereafter: number;
+          kind: string;
+          script_cbor: string;
+          script_hash: string;
+          status: string;
+          submitted_at: string | null;
+          summary: Json;
+          tx_hash: string;
+          unsigned_tx: string;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          drep_id: string;
+          error?: string | null;
+          expires_at: string;
+          fee_payer_key_hashes?: string[];
+          id?: string;
+          invalid_before?: number | null;
+          invalid_hereafter: number;
+          kind: string;
+          script_cbor: string;
+          script_hash: string;
+          status?: string;
+          submitted_at?: string | null;
+          summary: Json;
+          tx_hash: string;
+          unsigned_tx: string;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          drep_id?: string;
+          error?: string | null;
+          expires_at?: string;
+          fee_payer_key_hashes?: string[];
+          id?: string;
+          invalid_before?: number | null;
+          invalid_hereafter?: number;
+          kind?: string;
+          script_cbor?: string;
+          script_hash?: string;
+          status?: string;
+          submitted_at?: string | null;
+          summary?: Json;
+          tx_hash?: string;
+          unsigned_tx?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
       notification_log: {
         Row: {
           channel: string;
@@ -2893,6 +3385,48 @@ export type Database = {
           },
         ];
       };
+      proposal_projections: {
+        Row: {
+          bodies: Json;
+          computed_at: string;
+          epoch_no: number;
+          inputs: Json;
+          model_version: string;
+          probability: number;
+          probability_high: number;
+          probability_low: number;
+          proposal_index: number;
+          proposal_tx_hash: string;
+          runs: number;
+        };
+        Insert: {
+          bodies: Json;
+          computed_at?: string;
+          epoch_no: number;
+          inputs?: Json;
+          model_version: string;
+          probability: number;
+          probability_high: number;
+          probability_low: number;
+          proposal_index: number;
+          proposal_tx_hash: string;
+          runs: number;
+        };
+        Update: {
+          bodies?: Json;
+          computed_at?: string;
+          epoch_no?: number;
+          inputs?: Json;
+          model_version?: string;
+          probability?: number;
+          probability_high?: number;
+          probability_low?: number;
+          proposal_index?: number;
+          proposal_tx_hash?: string;
+          runs?: number;
+        };
+        Relationships: [];
+      };
       proposal_similarity_cache: {
         Row: {
           computed_at: string | null;
@@ -3050,6 +3584,7 @@ export type Database = {
         Row: {
           abstract: string | null;
           ai_summary: string | null;
+          authors: string[] | null;
           block_time: number | null;
           dropped_epoch: number | null;
           enacted_epoch: number | null;
@@ -3062,16 +3597,19 @@ export type Database = {
           proposal_type: string;
           proposed_epoch: number | null;
           ratified_epoch: number | null;
+          reference_urls: string[] | null;
           relevant_prefs: string[] | null;
           title: string | null;
           treasury_tier: string | null;
           tx_hash: string;
           updated_at: string | null;
+          withdrawal_addresses: string[] | null;
           withdrawal_amount: number | null;
         };
         Insert: {
           abstract?: string | null;
           ai_summary?: string | null;
+          authors?: string[] | null;
           block_time?: number | null;
           dropped_epoch?: number | null;
           enacted_epoch?: number | null;
@@ -3084,16 +3622,19 @@ export type Database = {
           proposal_type: string;
           proposed_epoch?: number | null;
           ratified_epoch?: number | null;
+          reference_urls?: string[] | null;
           relevant_prefs?: string[] | null;
           title?: string | null;
           treasury_tier?: string | null;
           tx_hash: string;
           updated_at?: string | null;
+          withdrawal_addresses?: string[] | null;
           withdrawal_amount?: number | null;
         };
         Update: {
           abstract?: string | null;
           ai_summary?: string | null;
+          authors?: string[] | null;
           block_time?: number | null;
           dropped_epoch?: number | null;
           enacted_epoch?: number | null;
@@ -3106,11 +3647,13 @@ export type Database = {
           proposal_type?: string;
           proposed_epoch?: number | null;
           ratified_epoch?: number | null;
+          reference_urls?: string[] | null;
           relevant_prefs?: string[] | null;
           title?: string | null;
           treasury_tier?: string | null;
           tx_hash?: string;
           updated_at?: string | null;
+          withdrawal_addresses?: string[] | null;
           withdrawal_amount?: number | null;
         };
         Relationships: [];
@@ -3120,34 +3663,148 @@ export type Database = {
           content_hash: string;
           created_at: string | null;
           document: Json;
+          document_text: string | null;
           drep_id: string;
+          ipfs_cid: string | null;
+          pinned_at: string | null;
+          pinning_backend: string | null;
           proposal_index: number;
           proposal_tx_hash: string;
           rationale_text: string;
+          signer_address: string | null;
+          signer_stake_address: string | null;
           vote_tx_hash: string | null;
         };
         Insert: {
           content_hash: string;
           created_at?: string | null;
           document: Json;
+          document_text?: string | null;
           drep_id: string;
+          ipfs_cid?: string | null;
+          pinned_at?: string | null;
+          pinning_backend?: string | null;
           proposal_index: number;
           proposal_tx_hash: string;
           rationale_text: string;
+          signer_address?: string | null;
+          signer_stake_address?: string | null;
           vote_tx_hash?: string | null;
         };
         Update: {
           content_hash?: string;
           created_at?: string | null;
           document?: Json;
+          document_text?: string | null;
           drep_id?: string;
+          ipfs_cid?: string | null;
+          pinned_at?: string | null;
+          pinning_backend?: string | null;
           proposal_index?: number;
           proposal_tx_hash?: string;
           rationale_text?: string;
+          signer_address?: string | null;
+          signer_stake_address?: string | null;
           vote_tx_hash?: string | null;
         };
         Relationships: [];
       };
+      rationale_originality_flags: {
+        Row: {
+          appeal_reason: string | null;
+          appeal_status: string;
+          appealed_at: string | null;
+          detected_at: string;
+          drep_id: string;
+          flag: string;
+          markers: string[];
+          multiplier: number;
+          original_drep_id: string | null;
+          original_published_at: string | null;
+          original_vote_tx_hash: string | null;
+          proposal_index: number;
+          proposal_tx_hash: string;
+          review_note: string | null;
+          reviewed_at: string | null;
+          reviewed_by: string | null;
+          similarity: number | null;
+          vote_tx_hash: string;
+        };
+        Insert: {
+          appeal_reason?: string | null;
+          appeal_status?: string;
+          appealed_at?: string | null;
+          detected_at?: string;
+          drep_id: string;
+          flag: string;
+          markers?: string[];
+          multiplier: number;
+          original_drep_id?: string | null;
+          original_published_at?: string | null;
+          original_vote_tx_hash?: string | null;
+          proposal_index: number;
+          proposal_tx_hash: string;
+          review_note?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          similarity?: number | null;
+          vote_tx_hash: string;
+        };
+        Update: {
+          appeal_reason?: string | null;
+          appeal_status?: string;
+          appealed_at?: string | null;
+          detected_at?: string;
+          drep_id?: string;
+          flag?: string;
+          markers?: string[];
+          multiplier?: number;
+          original_drep_id?: string | null;
+          original_published_at?: string | null;
+          original_vote_tx_hash?: string | null;
+          proposal_index?: number;
+          proposal_tx_hash?: string;
+          review_note?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          similarity?: number | null;
+          vote_tx_hash?: string;
+        };
+        Relationships: [];
+      };
+      report_exports: {
+        Row: {
+          body: string;
+          byte_size: number;
+          cache_key: string;
+          encoding: string;
+          epoch_no: number;
+          expires_at: string | null;
+          format: string;
+          generated_at: string;
+        };
+        Insert: {
+          body: string;
+          byte_size: number;
+          cache_key: string;
+          encoding: string;
+          epoch_no: number;
+          expires_at?: string | null;
+          format: string;
+          generated_at?: string;
+        };
+        Update: {
+          body?: string;
+          byte_size?: number;
+          cache_key?: string;
+          encoding?: string;
+          epoch_no?: number;
+          expires_at?: string | null;
+          format?: string;
+          generated_at?: string;
+        };
+        Relationships: [];
+      };
       revoked_sessions: {
         Row: {
           jti: string;
@@ -3492,6 +4149,42 @@ export type Database = {
         };
         Relationships: [];
       };
+      telegram_subscriptions: {
+        Row: {
+          chat_id: number;
+          chat_type: string;
+          created_at: string;
+          created_by: number | null;
+          id: number;
+          last_status: string | null;
+          last_vote_block_time: number | null;
+          target_id: string;
+          target_type: string;
+        };
+        Insert: {
+          chat_id: number;
+          chat_type: string;
+          created_at?: string;
+          created_by?: number | null;
+          id?: number;
+          last_status?: string | null;
+          last_vote_block_time?: number | null;
+          target_id: string;
+          target_type: string;
+        };
+        Update: {
+          chat_id?: number;
+          chat_type?: string;
+          created_at?: string;
+          created_by?: number | null;
+          id?: number;
+          last_status?: string | null;
+          last_vote_block_time?: number | null;
+          target_id?: string;
+          target_type?: string;
+        };
+        Relationships: [];
+      };
       tier_changes: {
         Row: {
           created_at: string | null;
@@ -3672,6 +4365,33 @@ export type Database = {
         };
         Relationships: [];
       };
+      treasury_team_links: {
+        Row: {
+          confidence: number;
+          linked_at: string;
+          proposal_index: number;
+          proposal_tx_hash: string;
+          signals: string[];
+          team_member_id: string;
+        };
+        Insert: {
+          confidence: number;
+          linked_at?: string;
+          proposal_index: number;
+          proposal_tx_hash: string;
+          signals?: string[];
+          team_member_id: string;
+        };
+        Update: {
+          confidence?: number;
+          linked_at?: string;
+          proposal_index?: number;
+          proposal_tx_hash?: string;
+          signals?: string[];
+          team_member_id?: string;
+        };
+        Relationships: [];
+      };
       user_channels: {
         Row: {
           channel: string;
@@ -3859,6 +4579,7 @@ export type Database = {
           last_epoch_visited: number | null;
           last_push_check: string | null;
           last_visit_at: string | null;
+          locale: string;
           onboarding_checklist: Json | null;
           poll_count: number | null;
           prefs: Json | null;
@@ -3880,6 +4601,7 @@ export type Database = {
           last_epoch_visited?: number | null;
           last_push_check?: string | null;
           last_visit_at?: string | null;
+          locale?: string;
           onboarding_checklist?: Json | null;
           poll_count?: number | null;
           prefs?: Json | null;
@@ -3901,6 +4623,7 @@ export type Database = {
           last_epoch_visited?: number | null;
           last_push_check?: string | null;
           last_visit_at?: string | null;
+          locale?: string;
           onboarding_checklist?: Json | null;
           poll_count?: number | null;
           prefs?: Json | null;
@@ -3983,6 +4706,144 @@ export type Database = {
         };
         Relationships: [];
       };
+      voter_stake_snapshots: {
+        Row: {
+          epoch: number;
+          lovelace: number;
+          snapshot_at: string;
+          stake_address: string;
+        };
+        Insert: {
+          epoch: number;
+          lovelace?: number;
+          snapshot_at?: string;
+          stake_address: string;
+        };
+        Update: {
+          epoch?: number;
+          lovelace?: number;
+          snapshot_at?: string;
+          stake_address?: string;
+        };
+        Relationships: [];
+      };
+      webhook_deliveries: {
+        Row: {
+          attempts: number;
+          created_at: string;
+          delivered_at: string | null;
+          event_id: string;
+          event_type: string;
+          id: string;
+          last_attempt_at: string | null;
+          last_error: string | null;
+          last_response_ms: number | null;
+          last_status_code: number | null;
+          next_attempt_at: string | null;
+          payload: Json;
+          status: string;
+          subscription_id: string;
+        };
+        Insert: {
+          attempts?: number;
+          created_at?: string;
+          delivered_at?: string | null;
+          event_id: string;
+          event_type: string;
+          id?: string;
+          last_attempt_at?: string | null;
+          last_error?: string | null;
+          last_response_ms?: number | null;
+          last_status_code?: number | null;
+          next_attempt_at?: string | null;
+          payload: Json;
+          status?: string;
+          subscription_id: string;
+        };
+        Update: {
+          attempts?: number;
+          created_at?: string;
+          delivered_at?: string | null;
+          event_id?: string;
+          event_type?: string;
+          id?: string;
+          last_attempt_at?: string | null;
+          last_error?: string | null;
+          last_response_ms?: number | null;
+          last_status_code?: number | null;
+          next_attempt_at?: string | null;
+          payload?: Json;
+          status?: string;
+          subscription_id?: string;
+        };
+        Relationships: [];
+      };
+      webhook_events: {
+        Row: {
+          data: Json;
+          detected_at: string;
+          event_type: string;
+          id: string;
+          occurred_at: string;
+        };
+        Insert: {
+          data: Json;
+          detected_at?: string;
+          event_type: string;
+          id: string;
+          occurred_at: string;
+        };
+        Update: {
+          data?: Json;
+          detected_at?: string;
+          event_type?: string;
+          id?: string;
+          occurred_at?: string;
+        };
+        Relationships: [];
+      };
+      webhook_subscriptions: {
+        Row: {
+          active: boolean;
+          api_key_id: string;
+          consecutive_failures: number;
+          created_at: string;
+          disabled_reason: string | null;
+          events: string[];
+          filters: Json;
+          id: string;
+          secret: string;
+          updated_at: string;
+          url: string;
+        };
+        Insert: {
+          active?: boolean;
+          api_key_id: string;
+          consecutive_failures?: number;
+          created_at?: string;
+          disabled_reason?: string | null;
+          events: string[];
+          filters?: Json;
+          id?: string;
+          secret: string;
+          updated_at?: string;
+          url: string;
+        };
+        Update: {
+          active?: boolean;
+          api_key_id?: string;
+          consecutive_failures?: number;
+          created_at?: string;
+          disabled_reason?: string | null;
+          events?: string[];
+          filters?: Json;
+          id?: string;
+          secret?: string;
+          updated_at?: string;
+          url?: string;
+        };
+        Relationships: [];
+      };
     };
     Views: {
       v_ai_summary_coverage: {
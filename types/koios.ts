@@ -140,6 +140,8 @@ export interface ProposalInfo {
       references?: Array<{ uri?: string; label?: string; '@type'?: string }>;
       [key: string]: any;
     };
+    // CIP-100 authors
+    authors?: Cip100Author[];
     // Flat fallback (older proposals)
     title?: string;
     abstract?: string;
@@ -161,6 +163,16 @@ export interface ProposalInfo {
 
 export type ProposalListResponse = ProposalInfo[];
 
+/** CIP-100 author entry as published on chain; the witness is not verified */
+export interface Cip100Author {
+  name?: string;
+  witness?: {
+    witnessAlgorithm?: string;
+    publicKey?: string;
+    signature?: string;
+  };
+}
+
 // Classified proposal (after processing)
 export interface ClassifiedProposal {
   txHash: string;
@@ -170,6 +182,12 @@ export interface ClassifiedProposal {
   title: string;
   abstract: string | null;
   withdrawalAmountAda: number | null;
+  /** Stake addresses receiving a treasury withdrawal */
+  withdrawalAddresses: string[];
+  /** CIP-100 author names */
+  authors: string[];
+  /** CIP-108 reference URIs */
+  references: string[];
   treasuryTier: 'routine' | 'significant' | 'major' | null;
   paramChanges: Record<string, unknown> | null;
   relevantPrefs: string[];
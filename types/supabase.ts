@@ -16,6 +16,8 @@ export interface SupabaseUser {
   email?: string;
   email_verified?: boolean;
   digest_frequency?: 'weekly' | 'biweekly' | 'monthly' | 'off';
+  /** One of SUPPORTED_LOCALES (lib/i18n/config) */
+  locale?: string;
 }
 
 export interface DelegationRecord {
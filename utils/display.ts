@@ -42,6 +42,24 @@ export function getDRepPrimaryName(
   return drep.name || drep.ticker || drep.handle || shortenDRepId(drep.drepId);
 }
 
+/**
+ * Case-insensitive search on name, ticker, handle or DRep ID, in input order.
+ * An empty query returns the first `limit` DReps.
+ */
+export function matchDReps<T extends Pick<DRep, 'name' | 'ticker' | 'handle' | 'drepId'>>(
+  dreps: T[],
+  query: string,
+  limit: number,
+): T[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return dreps.slice(0, limit);
+  return dreps
+    .filter((d) =>
+      [d.name, d.ticker, d.handle, d.drepId].some((field) => field?.toLowerCase().includes(q)),
+    )
+    .slice(0, limit);
+}
+
 /**
  * Check if DRep has custom metadata
  */
@@ -1,12 +1,16 @@
 import { bech32 } from 'bech32';
 
+/** CIP-129 DRep ID header bytes: DRep key type (0010) + credential type */
+const DREP_KEY_HASH_HEADER = 0x22;
+const DREP_SCRIPT_HASH_HEADER = 0x23;
+
 /**
  * Derive a DRep bech32 ID (drep1...) from a Cardano stake/reward address (stake1...).
  *
  * In Cardano, DRep credentials use the same key hash as stake credentials.
- * The stake address header byte encodes the network; the DRep ID uses a
- * different header byte (0x22 for key-hash mainnet) followed by the 28-byte
- * key hash.
+ * The stake address header byte encodes the network; the CIP-129 DRep ID
+ * header carries no network, only the credential type (0x22 for a key hash)
+ * followed by the 28-byte key hash.
  *
  * Returns null if the address can't be decoded or isn't a key-hash credential.
  */
@@ -26,16 +30,13 @@ export function deriveDRepIdFromStakeAddress(stakeAddress: string): string | nul
     const headerByte = data[0];
 
     // Key hash credentials have header 0xe0 (mainnet) or 0xe1 (testnet)
-    const isMainnet = (headerByte & 0x0f) === 0x00 || headerByte === 0xe0;
     const isKeyHash = (headerByte & 0xf0) === 0xe0;
     if (!isKeyHash) return null;
 
     const keyHash = data.slice(1);
 
-    // DRep key-hash header: 0x22 (mainnet) or 0x23 (testnet)
-    const drepHeader = isMainnet ? 0x22 : 0x23;
     const drepBytes = new Uint8Array(1 + keyHash.length);
-    drepBytes[0] = drepHeader;
+    drepBytes[0] = DREP_KEY_HASH_HEADER;
     drepBytes.set(keyHash, 1);
 
     const words = bech32.toWords(drepBytes);
@@ -45,6 +46,50 @@ export function deriveDRepIdFromStakeAddress(stakeAddress: string): string | nul
   }
 }
 
+/**
+ * Whether a string is a bech32 stake address (stake1... / stake_test1...) with a
+ * 29-byte payload: header byte + 28-byte key or script hash.
+ */
+export function isStakeAddress(value: string): boolean {
+  try {
+    const decoded = bech32.decode(value, 256);
+    if (decoded.prefix !== 'stake' && decoded.prefix !== 'stake_test') return false;
+    return bech32.fromWords(decoded.words).length === 29;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Derive the stake address (stake1... / stake_test1...) that controls a wallet address.
+ *
+ * Base addresses (header types 0-3) carry the stake credential after the 28-byte
+ * payment credential; stake addresses are returned unchanged. Enterprise, pointer
+ * and Byron addresses have no stake credential, so they return null.
+ */
+export function stakeAddressFromAddress(address: string): string | null {
+  if (isStakeAddress(address)) return address;
+  try {
+    const decoded = bech32.decode(address, 256);
+    if (decoded.prefix !== 'addr' && decoded.prefix !== 'addr_test') return null;
+
+    const data = bech32.fromWords(decoded.words);
+    const addressType = data[0] >> 4;
+    if (addressType > 3 || data.length !== 57) return null;
+
+    // Types 0 and 1 have a key-hash stake credential, 2 and 3 a script hash
+    const stakeHeader = (addressType < 2 ? 0xe0 : 0xf0) | (data[0] & 0x0f);
+    const stakeBytes = new Uint8Array(29);
+    stakeBytes[0] = stakeHeader;
+    stakeBytes.set(data.slice(29), 1);
+
+    const prefix = decoded.prefix === 'addr' ? 'stake' : 'stake_test';
+    return bech32.encode(prefix, bech32.toWords(stakeBytes), 256);
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Decode a bech32 pool ID (pool1...) to its raw hex key hash.
  * MeshJS StakingPool voter requires the hex credential, not bech32.
@@ -57,6 +102,45 @@ export function poolBech32ToKeyHash(poolId: string): string {
     .join('');
 }
 
+/**
+ * Script hash (hex) behind a script-credential DRep ID, or null for key-based
+ * and malformed IDs. Accepts CIP-129 IDs (drep1... with header 0x23) and the
+ * older CIP-105 drep_script1... form.
+ */
+export function drepScriptHash(drepId: string): string | null {
+  try {
+    const decoded = bech32.decode(drepId, 256);
+    const data = bech32.fromWords(decoded.words);
+    let hash: number[] | null = null;
+    if (decoded.prefix === 'drep_script' && data.length === 28) hash = data;
+    if (decoded.prefix === 'drep' && data.length === 29 && data[0] === DREP_SCRIPT_HASH_HEADER) {
+      hash = data.slice(1);
+    }
+    return hash && hash.map((b) => b.toString(16).padStart(2, '0')).join('');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Key hash (hex) behind a key-credential DRep ID, or null for script-based
+ * and malformed IDs. Accepts CIP-129 IDs (header 0x22) and the older CIP-105
+ * 28-byte drep1... form.
+ */
+export function drepKeyHash(drepId: string): string | null {
+  try {
+    const decoded = bech32.decode(drepId, 256);
+    if (decoded.prefix !== 'drep') return null;
+    const data = bech32.fromWords(decoded.words);
+    let hash: number[] | null = null;
+    if (data.length === 28) hash = data;
+    if (data.length === 29 && data[0] === DREP_KEY_HASH_HEADER) hash = data.slice(1);
+    return hash && hash.map((b) => b.toString(16).padStart(2, '0')).join('');
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Check if a DRep ID exists in the database via the API.
  * Light client-side check; avoids importing Supabase client in the browser.
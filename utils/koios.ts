@@ -556,7 +556,7 @@ export async function fetchDRepVotingPowerHistory(
   return (data || []).map(({ epoch_no, amount }) => ({ epoch_no, amount }));
 }
 
-/** Koios epoch_params DVT threshold fields (decimal 0–1) */
+/** Koios epoch_params DRep (dvt_*) and SPO (pvt_*) threshold fields (decimal 0–1) */
 interface GovernanceThresholdParams {
   dvt_motion_no_confidence?: number;
   dvt_committee_normal?: number;
@@ -568,15 +568,19 @@ interface GovernanceThresholdParams {
   dvt_p_p_technical_group?: number;
   dvt_p_p_gov_group?: number;
   dvt_treasury_withdrawal?: number;
+  pvt_motion_no_confidence?: number;
+  pvt_committee_normal?: number;
+  pvt_hard_fork_initiation?: number;
+  pvt_p_p_security_group?: number;
 }
 
 /**
- * Fetch governance threshold parameters from current epoch.
+ * Fetch DRep and SPO governance threshold parameters from current epoch.
  */
 export async function fetchGovernanceThresholds(): Promise<Record<string, number> | null> {
   try {
     const data = await koiosFetch<GovernanceThresholdParams[]>(
-      '/epoch_params?limit=1&select=dvt_motion_no_confidence,dvt_committee_normal,dvt_committee_no_confidence,dvt_update_to_constitution,dvt_hard_fork_initiation,dvt_p_p_network_group,dvt_p_p_economic_group,dvt_p_p_technical_group,dvt_p_p_gov_group,dvt_treasury_withdrawal',
+      '/epoch_params?limit=1&select=dvt_motion_no_confidence,dvt_committee_normal,dvt_committee_no_confidence,dvt_update_to_constitution,dvt_hard_fork_initiation,dvt_p_p_network_group,dvt_p_p_economic_group,dvt_p_p_technical_group,dvt_p_p_gov_group,dvt_treasury_withdrawal,pvt_motion_no_confidence,pvt_committee_normal,pvt_hard_fork_initiation,pvt_p_p_security_group',
     );
     if (!data || data.length === 0) return null;
     return data[0] as Record<string, number>;
@@ -1026,6 +1030,29 @@ export async function fetchAccountInfo(stakeAddress: string): Promise<KoiosAccou
   }
 }
 
+/**
+ * Fetch live total balance (lovelace) for many stake addresses.
+ * Unregistered or unknown addresses are omitted from the result.
+ * Throws on failure — callers must handle errors.
+ */
+export async function fetchAccountBalances(stakeAddresses: string[]): Promise<Map<string, number>> {
+  const balances = new Map<string, number>();
+  const BATCH = 100;
+
+  for (let i = 0; i < stakeAddresses.length; i += BATCH) {
+    const batch = stakeAddresses.slice(i, i + BATCH);
+    const data = await koiosFetch<Array<{ stake_address: string; total_balance?: string }>>(
+      '/account_info',
+      { method: 'POST', body: JSON.stringify({ _stake_addresses: batch }) },
+    );
+    for (const account of data || []) {
+      balances.set(account.stake_address, parseInt(account.total_balance || '0', 10) || 0);
+    }
+  }
+
+  return balances;
+}
+
 // ---------------------------------------------------------------------------
 // Data Moat Collection Endpoints
 // ---------------------------------------------------------------------------
@@ -1224,3 +1251,84 @@ export async function fetchCommitteeInfo(): Promise<{
     return null;
   }
 }
+
+// ---------------------------------------------------------------------------
+// Scripts & submission
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch the CBOR of a native script by its hash. Koios only knows scripts
+ * that have appeared in a transaction (witness set or reference input), so
+ * a script DRep registered by hash alone returns null here.
+ */
+export async function fetchNativeScriptCbor(scriptHash: string): Promise<string | null> {
+  try {
+    const data = await koiosFetch<
+      Array<{ script_hash: string; type: string; bytes: string | null }>
+    >('/script_info', {
+      method: 'POST',
+      body: JSON.stringify({ _script_hashes: [scriptHash] }),
+    });
+    const script = data?.find((s) => s.script_hash === scriptHash);
+    return script?.type === 'timelock' && script.bytes ? script.bytes : null;
+  } catch (err) {
+    console.error('[Koios] Error fetching script info:', err);
+    return null;
+  }
+}
+
+/**
+ * Addresses holding unspent outputs, keyed by "txHash#index". Spent and
+ * unknown outputs are left out. Throws when Koios cannot be reached.
+ */
+export async function fetchUtxoAddresses(refs: string[]): Promise<Map<string, string>> {
+  const data = await koiosFetch<
+    Array<{ tx_hash: string; tx_index: number; address: string; is_spent: boolean }>
+  >('/utxo_info', {
+    method: 'POST',
+    body: JSON.stringify({ _utxo_refs: refs }),
+  });
+  return new Map(
+    (data ?? [])
+      .filter((u) => !u.is_spent)
+      .map((u) => [`${u.tx_hash}#${u.tx_index}`, u.address] as const),
+  );
+}
+
+/**
+ * Submit a signed transaction (CBOR hex) and return its hash.
+ * Sent exactly once: resubmitting a transaction the node already accepted is
+ * rejected for spending its own inputs, so timeouts and 429/503s are not retried.
+ * Throws with the node's rejection message on failure.
+ */
+export async function submitTransaction(txCborHex: string): Promise<string> {
+  const response = await fetch(`${KOIOS_BASE_URL}/submittx`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/cbor',
+      ...(KOIOS_API_KEY && { Authorization: `Bearer ${KOIOS_API_KEY}` }),
+    },
+    body: Buffer.from(txCborHex, 'hex'),
+    cache: 'no-store',
+    signal: AbortSignal.timeout(KOIOS_REQUEST_TIMEOUT_MS),
+  });
+  const text = (await response.text()).trim();
+  if (!response.ok) {
+    throw new Error(`Transaction rejected (${response.status}): ${text || response.statusText}`);
+  }
+  return text.replace(/^"|"$/g, '');
+}
+
+/** Whether a transaction is in a block. Lookup failures count as not found. */
+export async function isTransactionOnChain(txHash: string): Promise<boolean> {
+  try {
+    const data = await koiosFetch<Array<{ tx_hash: string; num_confirmations: number | null }>>(
+      '/tx_status',
+      { method: 'POST', body: JSON.stringify({ _tx_hashes: [txHash] }) },
+    );
+    return (data?.find((t) => t.tx_hash === txHash)?.num_confirmations ?? 0) > 0;
+  } catch (err) {
+    console.error('[Koios] Error fetching tx status:', err);
+    return false;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Proposal references as people type them in chat commands and slash-command
+ * options, and the lifecycle status derived from a proposal's epoch columns.
+ */
+
+import type { ProposalWithVoteSummary } from '@/lib/data';
+
+export type ProposalRef = { txHash: string; index: number } | { proposalId: string };
+
+export type ProposalStatus = 'Open' | 'Ratified' | 'Enacted' | 'Dropped' | 'Expired';
+
+/**
+ * Accept the forms people paste: gov_action1… (CIP-129), txhash#index,
+ * txhash:index, "txhash index", or a bare tx hash (index 0).
+ */
+export function parseProposalRef(args: string[]): ProposalRef | null {
+  const raw = args.join(' ').trim();
+  if (!raw) return null;
+  if (/^gov_action1[02-9ac-hj-np-z]+$/.test(raw)) return { proposalId: raw };
+
+  const match = raw.match(/^([0-9a-f]{64})(?:\s*[#:\s]\s*(\d{1,4}))?$/i);
+  if (!match) return null;
+  return { txHash: match[1].toLowerCase(), index: match[2] ? parseInt(match[2], 10) : 0 };
+}
+
+export function proposalStatus(
+  p: Pick<
+    ProposalWithVoteSummary,
+    'ratifiedEpoch' | 'enactedEpoch' | 'droppedEpoch' | 'expiredEpoch'
+  >,
+): ProposalStatus {
+  if (p.enactedEpoch) return 'Enacted';
+  if (p.ratifiedEpoch) return 'Ratified';
+  if (p.droppedEpoch) return 'Dropped';
+  if (p.expiredEpoch) return 'Expired';
+  return 'Open';
+}
@@ -41,6 +41,8 @@ export interface WalletContextType {
   connect: (walletName: string) => Promise<void>;
   disconnect: () => void;
   signMessage: (message: string) => Promise<{ signature: string; key: string } | null>;
+  /** CIP-30 signData over an already hex-encoded payload (e.g. a document hash) */
+  signData: (payloadHex: string) => Promise<{ signature: string; key: string } | null>;
   authenticate: () => Promise<boolean>;
   logout: () => void;
   clearError: () => void;
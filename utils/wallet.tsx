@@ -329,8 +329,8 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     localStorage.removeItem(WALLET_NAME_KEY);
   };
 
-  const signMessage = useCallback(
-    async (message: string): Promise<{ signature: string; key: string } | null> => {
+  const signData = useCallback(
+    async (payloadHex: string): Promise<{ signature: string; key: string } | null> => {
       if (!walletName || !hexAddress) {
         setError({
           type: 'unknown',
@@ -346,10 +346,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         const rawApi = await getCardanoApi(walletName)?.enable();
         if (!rawApi) throw new Error('Could not access wallet API');
 
-        const hexPayload = Array.from(new TextEncoder().encode(message))
-          .map((b) => b.toString(16).padStart(2, '0'))
-          .join('');
-        const result = await rawApi.signData(hexAddress, hexPayload);
+        const result = await rawApi.signData(hexAddress, payloadHex);
         return { signature: result.signature, key: result.key };
       } catch (err) {
         setError(categorizeError(err, walletName));
@@ -360,6 +357,16 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     [walletName, hexAddress],
   );
 
+  const signMessage = useCallback(
+    (message: string) =>
+      signData(
+        Array.from(new TextEncoder().encode(message))
+          .map((b) => b.toString(16).padStart(2, '0'))
+          .join(''),
+      ),
+    [signData],
+  );
+
   const authenticate = useCallback(async (): Promise<boolean> => {
     if (!walletName || !address || !hexAddress) {
       setError({
@@ -455,6 +462,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         connect,
         disconnect,
         signMessage,
+        signData,
         authenticate,
         logout,
         clearError,